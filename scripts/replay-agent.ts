@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+// CLI tool to replay recorded work agent fixtures without a network
+// Record fixtures with: WORK_AGENT_RECORD=fixtures/agent npm run dev -- work
+// `npm test` replays everything in fixtures/agent
+
+import { readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { WorkAgentSession } from '../src/work/agent.js';
+import { AgentReplayer, loadFixture } from '../src/work/replay/index.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const target = args.find(a => !a.startsWith('--'));
+  const verbose = args.includes('--verbose');
+
+  if (!target || args.includes('--help')) {
+    showHelp();
+    process.exit(target ? 0 : 1);
+  }
+
+  try {
+    const files = await collectFixtures(target);
+    if (files.length === 0) {
+      console.error(`No fixtures found at ${target}`);
+      process.exit(1);
+    }
+
+    let failed = 0;
+    for (const file of files) {
+      const ok = await replayFixture(file, verbose);
+      if (!ok) failed++;
+    }
+
+    console.log(`\n${files.length - failed}/${files.length} fixtures replayed cleanly`);
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+async function collectFixtures(target: string): Promise<string[]> {
+  const info = await stat(target);
+  if (!info.isDirectory()) return [target];
+
+  const entries = await readdir(target);
+  return entries
+    .filter(f => f.endsWith('.json'))
+    .sort()
+    .map(f => join(target, f));
+}
+
+async function replayFixture(file: string, verbose: boolean): Promise<boolean> {
+  const fixture = await loadFixture(file);
+  const replayer = new AgentReplayer(fixture);
+
+  const session = new WorkAgentSession(fixture.includeDatadog, 'default', 'none', undefined, fixture.workstreamId);
+  session.setHarness(replayer);
+  if (verbose) {
+    session.setProgressCallback(message => console.log(`    ${message}`));
+  }
+
+  for (const turn of fixture.turns) {
+    if (verbose) {
+      console.log(`  > ${turn.userMessage.substring(0, 80)}`);
+    }
+    await session.chat(turn.userMessage);
+  }
+
+  const divergences = replayer.getDivergences();
+  const toolCount = fixture.turns.reduce((sum, t) => sum + t.toolCalls.length, 0);
+  const status = divergences.length === 0 ? '✓' : '✗';
+  console.log(`${status} ${file} (${fixture.turns.length} turns, ${toolCount} tool calls, model: ${fixture.model})`);
+
+  for (const d of divergences) {
+    console.log(`    turn ${d.turn + 1} [${d.kind}] ${d.detail}`);
+  }
+
+  return divergences.length === 0;
+}
+
+function showHelp() {
+  console.log(`
+Work Agent Replay
+
+Usage:
+  npm run replay:agent -- <fixture.json|directory> [--verbose]
+
+Replays recorded agent runs with a fake chat model and stubbed tools, and reports
+any divergence in model inputs, tool calls or final responses.
+
+Recording:
+  WORK_AGENT_RECORD=<dir>   Record every agent session to <dir>
+  WORK_AGENT_REPLAY=<file>  Run the agent against a fixture instead of the network
+`);
+}
+
+main();
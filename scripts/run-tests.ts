@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+// Runs the unit tests (test/**/*.test.ts) with node:test
+// Each run gets a throwaway home directory, so tests never read or write the user's config
+// `npm test` runs these after replaying the agent fixtures
+
+import { spawnSync } from 'child_process';
+import { readdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const TEST_DIR = 'test';
+
+function main() {
+  const filter = process.argv[2];
+  const files = (readdirSync(TEST_DIR, { recursive: true }) as string[])
+    .filter(file => file.endsWith('.test.ts') && (!filter || file.includes(filter)))
+    .sort()
+    .map(file => join(TEST_DIR, file));
+
+  if (files.length === 0) {
+    console.error(`No tests found in ${TEST_DIR}${filter ? ` matching "${filter}"` : ''}`);
+    process.exit(1);
+  }
+
+  const home = mkdtempSync(join(tmpdir(), 'work-tests-'));
+  try {
+    const result = spawnSync(process.execPath, ['--import', 'tsx', '--test', ...files], {
+      stdio: 'inherit',
+      env: {
+        ...process.env,
+        HOME: home,
+        USERPROFILE: home,
+        XDG_CONFIG_HOME: join(home, '.config'),
+        APPDATA: join(home, 'AppData'),
+        // Tests commit to scratch repos, and the user's git identity lives in the real home
+        GIT_AUTHOR_NAME: 'Test',
+        GIT_AUTHOR_EMAIL: 'test@example.com',
+        GIT_COMMITTER_NAME: 'Test',
+        GIT_COMMITTER_EMAIL: 'test@example.com',
+      },
+    });
+    process.exitCode = result.status ?? 1;
+  } finally {
+    rmSync(home, { recursive: true, force: true });
+  }
+}
+
+main();
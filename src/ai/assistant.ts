@@ -1,20 +1,12 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { HNStory, HNItem } from '../types.js';
 import { fetchItem, fetchTopCommentedStories, getTimeAgo } from '../api/hackernews.js';
 import { getSavedPosts, getSkippedPostIds, getTemperature } from '../storage/posts.js';
 import { getGeminiRecommendations, hasEmbeddedPosts } from './gemini.js';
+import { createTextModel } from '../work/providers/index.js';
 
-let genAI: GoogleGenerativeAI | null = null;
-
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY not found in environment. Please add it to your .env file.');
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
+// Model spec for HN assistant calls (HN_MODEL overrides, e.g. "openai:gpt-4o-mini")
+function getAssistantModel(): string {
+  return process.env.HN_MODEL || 'gemini-3-flash-preview';
 }
 
 const CLI_CONTEXT = `You are an AI assistant for a Hacker News CLI tool called "hn".
@@ -52,14 +44,8 @@ WORKFLOW FOR RECOMMENDATIONS:
 Be helpful, concise, and if the user asks for something impossible (like time-filtered posts), explain the limitation and suggest alternatives.`;
 
 export async function askAssistant(question: string): Promise<string> {
-  const ai = getGenAI();
   const temperature = await getTemperature();
-  const model = ai.getGenerativeModel({ 
-    model: 'gemini-3-flash-preview',
-    generationConfig: {
-      temperature,
-    },
-  });
+  const model = createTextModel(getAssistantModel(), { temperature, usageSource: 'assistant' });
   
   const prompt = `${CLI_CONTEXT}
 
@@ -102,14 +88,8 @@ export async function fetchComments(storyId: number, limit: number = 10): Promis
 }
 
 export async function generatePostSummary(story: HNStory): Promise<string> {
-  const ai = getGenAI();
   const temperature = await getTemperature();
-  const model = ai.getGenerativeModel({ 
-    model: 'gemini-3-flash-preview',
-    generationConfig: {
-      temperature,
-    },
-  });
+  const model = createTextModel(getAssistantModel(), { temperature, usageSource: 'assistant' });
   
   // Fetch some top comments
   const comments = await fetchComments(story.id, 8);
@@ -211,14 +191,8 @@ export async function pickPostForUser(
 }
 
 export async function continueExploration(story: HNStory, userQuestion: string): Promise<string> {
-  const ai = getGenAI();
   const temperature = await getTemperature();
-  const model = ai.getGenerativeModel({ 
-    model: 'gemini-3-flash-preview',
-    generationConfig: {
-      temperature,
-    },
-  });
+  const model = createTextModel(getAssistantModel(), { temperature, usageSource: 'assistant' });
   
   const comments = await fetchComments(story.id, 15);
   
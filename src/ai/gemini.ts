@@ -1,5 +1,6 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { SavedPost, HNStory } from '../types.js';
+import { createTextModel } from '../work/providers/index.js';
 import { getPostsWithEmbeddings, getPostsWithoutEmbeddings, updatePostEmbedding, getSavedPosts } from '../storage/posts.js';
 
 let genAI: GoogleGenerativeAI | null = null;
@@ -205,13 +206,9 @@ export async function getGeminiRecommendations(
     .map((sp, i) => `${i + 1}. [ID:${sp.story.id}] "${sp.story.title}" (similarity: ${(sp.similarity * 100).toFixed(1)}%, ${sp.story.descendants} comments)`)
     .join('\n');
   
-  const ai = getGenAI();
-  const model = ai.getGenerativeModel({ 
-    model: 'gemini-2.0-flash-exp',
-    generationConfig: {
-      temperature,
-    },
-  });
+  // Generation goes through the provider layer (HN_MODEL overrides, e.g. "local:llama3.1")
+  // Embeddings above stay on Gemini
+  const model = createTextModel(process.env.HN_MODEL || 'gemini-2.0-flash-exp', { temperature, usageSource: 'assistant' });
   
   const diversityInstruction = preferDifferent
     ? '\n\nIMPORTANT: The user wants something DIFFERENT from their usual interests. Prioritize posts that are LESS similar to their saved posts. Look for variety and novelty.'
@@ -56,6 +56,10 @@ import {
   isDatadogConfigured,
   isGitHubConfigured,
   getGitHubConfigStatus,
+  getGoogleDocsConfigStatus,
+  loginToGoogle,
+  logoutFromGoogle,
+  getGoogleLoginStatus,
   PersonalityType,
   CharacterType,
   // Memory system
@@ -83,6 +87,12 @@ import {
 } from './work/index.js';
 import { runWorkTUI } from './work/tui/index.js';
 import { openEditorForPrompt } from './work/tools/prompt.js';
+import { editableText } from './work/agent/approval.js';
+import type { ApprovalRequest, ApprovalDecision } from './work/agent/approval.js';
+import { analyzeModelUsage, formatUsageReport } from './work/analysis/model-usage.js';
+import { WorkstreamManager } from './work/tui/state/workstreams.js';
+import { loadPlugins, getPluginsDir } from './work/plugins/index.js';
+import { BrowserService } from './utils/platform/index.js';
 
 const program = new Command();
 
@@ -865,6 +875,115 @@ program
     displayInfo(`Sessions stored in: ${process.cwd()}/WORK_DIRS/`);
   });
 
+// Model usage and spend report
+program
+  .command('work-usage')
+  .description('Show work mode model usage and spend (daily, by workstream, tool and model)')
+  .option('-d, --days <count>', 'Number of days to report', '7')
+  .option('-n, --top <count>', 'Rows per breakdown', '5')
+  .action(async (options) => {
+    try {
+      const days = Math.max(parseInt(options.days, 10) || 7, 1);
+      const report = await analyzeModelUsage(days);
+      
+      // Resolve workstream ids to names where the workstream still exists
+      const manager = new WorkstreamManager();
+      await manager.load();
+      const names = Object.fromEntries(manager.getAll().map(w => [w.id, w.name]));
+      
+      console.log();
+      console.log(chalk.hex('#88C0D0').bold('  💰 Model Usage'));
+      console.log();
+      for (const line of formatUsageReport(report, names, parseInt(options.top, 10) || 5).split('\n')) {
+        const isHeading = line.length > 0 && !line.startsWith(' ');
+        console.log(isHeading ? chalk.hex('#A3BE8C')(`  ${line}`) : chalk.hex('#D8DEE9')(`  ${line}`));
+      }
+      console.log();
+    } catch (error) {
+      displayError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  });
+
+program
+  .command('work-plugins')
+  .description('List work mode plugins (custom tools and prompt modules) and any load errors')
+  .action(async () => {
+    try {
+      const report = await loadPlugins();
+      
+      console.log();
+      console.log(chalk.hex('#88C0D0').bold('  🧩 Work Plugins'));
+      console.log(chalk.hex('#4C566A')(`  ${getPluginsDir()}`));
+      console.log();
+      if (report.loaded.length === 0 && report.errors.length === 0) {
+        console.log(chalk.hex('#D8DEE9')('  No plugins installed'));
+      }
+      for (const plugin of report.loaded) {
+        console.log(chalk.hex('#A3BE8C')(`  ${plugin.name}`) + chalk.hex('#4C566A')(`  ${plugin.source}`));
+        if (plugin.tools.length > 0) {
+          console.log(chalk.hex('#D8DEE9')(`    Tools: ${plugin.tools.join(', ')}`));
+        }
+        if (plugin.promptModule) {
+          console.log(chalk.hex('#D8DEE9')(`    Prompt module: ${plugin.promptModule}`));
+        }
+      }
+      for (const { source, error } of report.errors) {
+        console.log(chalk.hex('#BF616A')(`  ✗ ${source}: ${error}`));
+      }
+      console.log();
+    } catch (error) {
+      displayError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  });
+
+program
+  .command('work-google-login')
+  .description('Log in to Google (Docs/Drive) for work mode - stores a refresh token so access never expires')
+  .option('--status', 'Show the current Google login')
+  .option('--logout', 'Revoke and forget the stored Google login')
+  .action(async (options) => {
+    try {
+      if (options.logout) {
+        const removed = await logoutFromGoogle();
+        if (removed) {
+          displaySuccess('Logged out of Google');
+        } else {
+          displayInfo('Not logged in to Google');
+        }
+        return;
+      }
+      
+      if (options.status) {
+        const status = await getGoogleLoginStatus();
+        const config = getGoogleDocsConfigStatus();
+        console.log();
+        console.log(chalk.hex('#88C0D0').bold('  🔑 Google Login'));
+        console.log();
+        if (status.loggedIn) {
+          console.log(chalk.hex('#A3BE8C')(`  Logged in${status.email ? ` as ${status.email}` : ''}`));
+          console.log(chalk.hex('#D8DEE9')(`  Access token refreshes automatically (current one expires ${new Date(status.accessTokenExpiresAt!).toLocaleString()})`));
+        } else if (config.configured) {
+          console.log(chalk.hex('#EBCB8B')(`  Using ${config.authType === 'apikey' ? 'GOOGLE_API_KEY (read-only, public docs)' : 'GOOGLE_ACCESS_TOKEN (expires after an hour)'}`));
+        } else {
+          console.log(chalk.hex('#BF616A')('  Not logged in'));
+        }
+        console.log();
+        return;
+      }
+      
+      const status = await loginToGoogle({
+        onAuthUrl: async (url) => {
+          displayInfo('Opening your browser to log in to Google. If it does not open, visit:');
+          console.log(chalk.hex('#D8DEE9')(`  ${url}`));
+          await BrowserService.openQuietly(url);
+        },
+      });
+      displaySuccess(`Logged in to Google${status.email ? ` as ${status.email}` : ''}`);
+    } catch (error) {
+      displayError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  });
+
 // Character display names for pretty printing
 const CHARACTER_DISPLAY_NAMES: Record<CharacterType, string> = {
   none: 'None',
@@ -889,6 +1008,49 @@ const CHARACTER_DISPLAY_NAMES: Record<CharacterType, string> = {
   custom: 'Custom Character',
 };
 
+async function promptToolApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+  console.log();
+  console.log(chalk.hex('#EBCB8B').bold(`  ⚠ Approve ${request.toolName}?`));
+  for (const line of request.preview.split('\n')) {
+    const color = line.startsWith('+ ') ? '#A3BE8C' : line.startsWith('$ ') ? '#EBCB8B' : '#D8DEE9';
+    console.log(chalk.hex(color)(`    ${line}`));
+  }
+  console.log();
+
+  const choices = [
+    { name: '✓ Approve', value: 'approve' },
+    ...(request.allowRemember ? [{ name: '✓ Always approve this tool', value: 'always' }] : []),
+    ...(request.editableField ? [{ name: `✎ Edit ${request.editableField}`, value: 'edit' }] : []),
+    { name: '✗ Reject', value: 'reject' },
+  ];
+  const { decision } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'decision',
+      message: 'Run this tool call?',
+      choices,
+    },
+  ]);
+
+  if (decision === 'approve') return { action: 'approve' };
+  if (decision === 'always') return { action: 'approve', remember: true };
+
+  if (decision === 'edit' && request.editableField) {
+    const field = request.editableField;
+    const edited = await openEditorForPrompt(editableText(request.args, field));
+    return { action: 'edit', args: { ...request.args, [field]: edited.trim() } };
+  }
+
+  const { reason } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'reason',
+      message: 'Reason (optional, passed to the agent):',
+    },
+  ]);
+  return { action: 'reject', reason: reason.trim() || undefined };
+}
+
 async function runWorkMode(includeDatadog: boolean, personalityType: PersonalityType = 'proactive', characterType: CharacterType = 'none', checkpoint?: Checkpoint | null): Promise<void> {
   // Load session preferences - use saved preferences if command line args not specified
   const savedPrefs = await getSessionPreferences();
@@ -938,7 +1100,7 @@ async function runWorkMode(includeDatadog: boolean, personalityType: Personality
   console.log(chalk.hex('#4C566A')(`    Confluence: ${services.confluence ? chalk.green('✓') : chalk.red('✗')}`));
   console.log(chalk.hex('#4C566A')(`    FireHydrant: ${services.firehydrant ? chalk.green('✓') : chalk.red('✗')}`));
   if (githubStatus.configured) {
-    console.log(chalk.hex('#4C566A')(`    GitHub: ${chalk.green('✓')}`));
+    console.log(chalk.hex('#4C566A')(`    GitHub: ${chalk.green('✓')} ${chalk.hex('#4C566A')(githubStatus.hosts?.join(', ') || '')}`));
   } else {
     console.log(chalk.hex('#4C566A')(`    GitHub: ${chalk.red('✗')} ${chalk.yellow(githubStatus.error || '')}`));
   }
@@ -967,6 +1129,7 @@ async function runWorkMode(includeDatadog: boolean, personalityType: Personality
   const session = new WorkAgentSession(includeDatadog, personalityType, characterType, customCharacterDesc);
   let datadogEnabled = includeDatadog;
   let hitRecursionLimit = false; // Track if we hit recursion limit
+  let thinkingSpinner: ReturnType<typeof ora> | null = null; // Paused while asking for approval
   
   // Restore from checkpoint if provided
   if (checkpoint) {
@@ -1006,6 +1169,17 @@ async function runWorkMode(includeDatadog: boolean, personalityType: Personality
     process.stdout.write(`\r\x1b[K  ${chalk.hex('#5E81AC')(message)}\n`);
   });
   
+  // Ask before Slack/JIRA/Confluence/git push/shell calls
+  session.setApprovalHandler(async (request) => {
+    const wasSpinning = thinkingSpinner?.isSpinning;
+    thinkingSpinner?.stop();
+    try {
+      return await promptToolApproval(request);
+    } finally {
+      if (wasSpinning) thinkingSpinner?.start();
+    }
+  });
+  
   // Set up checklist callback to display updates
   session.setChecklistCallback((checklist) => {
     if (checklist) {
@@ -1094,6 +1268,9 @@ async function runWorkMode(includeDatadog: boolean, personalityType: Personality
         console.log();
         console.log(chalk.hex('#5E81AC')('  📊 Token Stats'));
         console.log(chalk.hex('#4C566A')(`    Estimated tokens: ~${stats.estimated.toLocaleString()}`));
+        if (stats.budget) {
+          console.log(chalk.hex('#4C566A')(`    Context budget: ${stats.budget.toLocaleString()} (compacts at 80%)`));
+        }
         console.log(chalk.hex('#4C566A')(`    Conversation turns: ${stats.turns}`));
         console.log(chalk.hex('#4C566A')(`    Messages: ${stats.messageCount}`));
         console.log();
@@ -1584,7 +1761,7 @@ NAME: <short name here>`;
           const editorInput = await openEditorForPrompt('');
           if (editorInput.trim()) {
             // Process the editor input as a message
-            const spinner = ora('Thinking...').start();
+            const spinner = thinkingSpinner = ora('Thinking...').start();
             try {
               const { response, tokenStats } = await session.chat(editorInput);
               spinner.stop();
@@ -1651,7 +1828,7 @@ NAME: <short name here>`;
         const pastedText = pasteLines.join('\n').trim();
         
         if (pastedText) {
-          const spinner = ora('Thinking...').start();
+          const spinner = thinkingSpinner = ora('Thinking...').start();
           try {
             const { response, tokenStats } = await session.chat(pastedText);
             spinner.stop();
@@ -1697,7 +1874,7 @@ NAME: <short name here>`;
     }
     
     // Send to agent
-    const spinner = ora('Thinking...').start();
+    const spinner = thinkingSpinner = ora('Thinking...').start();
     
     // Check if this is a "continue" message after hitting recursion limit
     let actualInput = trimmedInput;
@@ -1,7 +1,6 @@
 // Advice Generator - AI-powered analysis of Slack messages
 // Generates relevant advice topics based on user context
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { ScannedMessage, ChannelScanResult } from './scanner.js';
 import { addAdviceTopic, AdviceTopic } from '../storage/advice.js';
 import { getTasks, Task } from '../tools/tasks.js';
@@ -9,20 +8,6 @@ import { getPDPGoals, PDPGoal } from '../tools/pdp.js';
 import { getMemories, Memory } from '../tools/memory.js';
 import { createStandardModel } from '../ai-config.js';
 
-// Initialize Gemini
-let genAI: GoogleGenerativeAI | null = null;
-
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY not found');
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
-}
-
 // Get user context for analysis
 async function getUserContext(): Promise<{
   tasks: Task[];
@@ -184,7 +169,7 @@ export async function generateAdviceTopics(
   const userContextStr = formatUserContext(context);
   const messagesStr = formatMessages(channelsWithNew);
 
-  const model = createStandardModel(0.3);
+  const model = createStandardModel(0.3, undefined, 'advice');
 
   const prompt = `Analyze Slack messages and identify 0-5 relevant discussion topics for the user.
 
@@ -321,7 +306,7 @@ export async function quickRelevanceCheck(
     return messages.length > 2;  // Only if there's meaningful activity
   }
 
-  const model = createStandardModel(0.1);
+  const model = createStandardModel(0.1, undefined, 'advice');
 
   // Simplified context
   const keywords = [
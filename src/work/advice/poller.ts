@@ -19,6 +19,7 @@ export class AdvicePoller extends EventEmitter {
   private pollTimer: NodeJS.Timeout | null = null;
   private running: boolean = false;
   private isPolling: boolean = false;  // Prevent concurrent polls
+  private resolveExternalCommsModel: () => string | undefined = () => undefined;
   private lastPollResult: {
     success: boolean;
     error?: string;
@@ -74,6 +75,11 @@ export class AdvicePoller extends EventEmitter {
     }, intervalMs);
   }
 
+  // Where VIP replies get their external comms model override (the active workstream's)
+  setExternalCommsModelResolver(resolver: () => string | undefined): void {
+    this.resolveExternalCommsModel = resolver;
+  }
+
   // Stop the poller
   stop(): void {
     this.running = false;
@@ -108,7 +114,7 @@ export class AdvicePoller extends EventEmitter {
       }
 
       // Scan channels
-      const scanResult = await scanWatchedChannels();
+      const scanResult = await scanWatchedChannels({ externalCommsModel: this.resolveExternalCommsModel() });
       
       if (!scanResult.success) {
         this.lastPollResult = {
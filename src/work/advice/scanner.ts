@@ -1,8 +1,17 @@
 // Slack Scanner - Checks watched channels for new messages
 // Used by the advice system to detect updates
+// Reads through the Slack Web API when a token is configured, otherwise through the browser
 
 import { slackBrowser, SlackMessage } from '../clients/slack.js';
 import { extractMessages, searchForChannelAndGetResults, selectSearchResult, isExtractorReady, readThread, closeThreadPanel, scrollToLoadMore } from '../clients/slack-extractor.js';
+import {
+  isSlackApiConfigured,
+  resolveSlackChannel,
+  getSlackChannelHistory,
+  getSlackThreadReplies,
+  getSlackPermalink,
+  toSlackTs,
+} from '../clients/slack-api.js';
 import {
   loadAdviceConfig,
   updateChannelScanTimestamp,
@@ -83,7 +92,7 @@ async function determineScrollCount(channel: WatchedChannel, page: Page | null):
     }
 
     // For VIP or older channels, use model to decide if we need to scroll more
-    const model = createStandardModel(0.2);
+    const model = createStandardModel(0.2, undefined, 'advice');
 
     const messagesSummary = messages.slice(0, 5).map(m => 
       `[${m.timestamp}] ${m.author}: ${m.content.substring(0, 100)}`
@@ -141,7 +150,7 @@ export async function selectBestSearchResult(
   }
 
   try {
-    const model = createStandardModel(0.1);
+    const model = createStandardModel(0.1, undefined, 'advice');
 
     const resultsStr = results.map(r => `${r.index}: ${r.text} (${r.type})`).join('\n');
 
@@ -176,8 +185,119 @@ Respond with ONLY the index number (0, 1, 2, etc.) of the best match.`;
   }
 }
 
+// VIP analysis and (outside scan-only mode) auto-response for a new message
+// `target` is the on-screen index (browser) or channel ID + ts (Web API)
+async function handleVipMessage(
+  scannedMsg: ScannedMessage,
+  channel: WatchedChannel,
+  index: number,
+  target: number | { channelId: string; ts: string },
+  scanOnlyMode: boolean,
+  externalCommsModel?: string
+): Promise<void> {
+  try {
+    const vipAnalysis = await analyzeVipMessage(scannedMsg, channel.name, index, externalCommsModel);
+    
+    // Store analysis result
+    scannedMsg.vipAnalysis = {
+      importance: vipAnalysis.importance,
+      reason: vipAnalysis.reason,
+      autoResponded: false,
+      urlInvestigations: vipAnalysis.urlInvestigations?.filter(u => !u.error),
+    };
+    
+    // ONLY auto-respond if scan-only mode is disabled AND analysis suggests it
+    // Default behavior (scanOnlyMode=true) is to analyze but NOT respond
+    if (!scanOnlyMode && vipAnalysis.shouldRespond && vipAnalysis.suggestedResponse) {
+      const responseResult = await handleVipAutoResponse(
+        channel.name,
+        target,
+        {
+          shouldRespond: vipAnalysis.shouldRespond,
+          suggestedResponse: vipAnalysis.suggestedResponse,
+        },
+        true  // We're already in the channel, no need to navigate again
+      );
+      
+      if (responseResult.success && responseResult.responded) {
+        scannedMsg.vipAnalysis.autoResponded = true;
+      }
+    }
+  } catch (vipError) {
+    // VIP analysis is optional - don't fail the whole scan
+    // Just skip the deep analysis for this message
+  }
+}
+
+// Scan a single channel through the Slack Web API
+// Messages are compared by Slack ts, so nothing depends on what is on screen
+async function scanChannelViaApi(channel: WatchedChannel, scanOnlyMode: boolean, externalCommsModel?: string): Promise<ChannelScanResult> {
+  const result: ChannelScanResult = {
+    channelName: channel.name,
+    success: false,
+    messages: [],
+    newMessageCount: 0,
+    lastScannedAt: new Date().toISOString(),
+  };
+
+  try {
+    const channelId = channel.id || (await resolveSlackChannel(channel.name)).id;
+    const messageLimit = channel.isVip ? 100 : 50;
+    const messages = await getSlackChannelHistory(channelId, { limit: messageLimit });
+
+    // Browser scans store on-screen times ("2:30 PM") - those count as a first scan
+    const lastTs = channel.lastMessageTimestamp ? toSlackTs(channel.lastMessageTimestamp) : null;
+    let latestTs: string | undefined;
+
+    for (let i = 0; i < messages.length; i++) {
+      const msg = messages[i];
+      const ts = msg.ts!;
+      const isNew = !lastTs || parseFloat(ts) > parseFloat(lastTs);
+
+      const scannedMsg: ScannedMessage = {
+        author: msg.author,
+        timestamp: msg.timestamp,
+        content: msg.content,
+        isNew,
+      };
+
+      if (isNew && msg.threadReplies && msg.threadReplies > 0) {
+        try {
+          scannedMsg.threadReplies = await getSlackThreadReplies(channelId, ts);
+          scannedMsg.threadUrl = await getSlackPermalink(channelId, ts);
+        } catch (threadError) {
+          // Better to have the parent message than nothing
+        }
+      }
+
+      if (isNew && channel.isVip) {
+        await handleVipMessage(scannedMsg, channel, i, { channelId, ts }, scanOnlyMode, externalCommsModel);
+      }
+
+      result.messages.push(scannedMsg);
+      if (isNew) {
+        result.newMessageCount++;
+      }
+      if (!latestTs || parseFloat(ts) > parseFloat(latestTs)) {
+        latestTs = ts;
+      }
+    }
+
+    updateChannelScanTimestamp(channel.name, result.lastScannedAt, latestTs);
+    result.success = true;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return result;
+}
+
 // Scan a single channel for messages
-async function scanChannel(channel: WatchedChannel, scanOnlyMode: boolean = true): Promise<ChannelScanResult> {
+async function scanChannel(channel: WatchedChannel, scanOnlyMode: boolean = true, externalCommsModel?: string): Promise<ChannelScanResult> {
+  if (isSlackApiConfigured()) {
+    return scanChannelViaApi(channel, scanOnlyMode, externalCommsModel);
+  }
+
   const result: ChannelScanResult = {
     channelName: channel.name,
     success: false,
@@ -264,38 +384,7 @@ async function scanChannel(channel: WatchedChannel, scanOnlyMode: boolean = true
       
       // VIP HANDLING: Deep investigation and potential auto-response
       if (isNew && channel.isVip) {
-        try {
-          const vipAnalysis = await analyzeVipMessage(scannedMsg, channel.name, i);
-          
-          // Store analysis result
-          scannedMsg.vipAnalysis = {
-            importance: vipAnalysis.importance,
-            reason: vipAnalysis.reason,
-            autoResponded: false,
-            urlInvestigations: vipAnalysis.urlInvestigations?.filter(u => !u.error),
-          };
-          
-          // ONLY auto-respond if scan-only mode is disabled AND analysis suggests it
-          // Default behavior (scanOnlyMode=true) is to analyze but NOT respond
-          if (!scanOnlyMode && vipAnalysis.shouldRespond && vipAnalysis.suggestedResponse) {
-            const responseResult = await handleVipAutoResponse(
-              channel.name,
-              i,
-              {
-                shouldRespond: vipAnalysis.shouldRespond,
-                suggestedResponse: vipAnalysis.suggestedResponse,
-              },
-              true  // We're already in the channel, no need to navigate again
-            );
-            
-            if (responseResult.success && responseResult.responded) {
-              scannedMsg.vipAnalysis.autoResponded = true;
-            }
-          }
-        } catch (vipError) {
-          // VIP analysis is optional - don't fail the whole scan
-          // Just skip the deep analysis for this message
-        }
+        await handleVipMessage(scannedMsg, channel, i, i, scanOnlyMode, externalCommsModel);
       }
       
       result.messages.push(scannedMsg);
@@ -325,6 +414,7 @@ async function scanChannel(channel: WatchedChannel, scanOnlyMode: boolean = true
 export async function scanWatchedChannels(options?: { 
   vipOnly?: boolean;
   scanOnlyMode?: boolean; // Default: true (safe mode - analyze but don't auto-respond)
+  externalCommsModel?: string; // Workstream override for VIP analysis and drafted replies
 }): Promise<ScanResult> {
   const config = loadAdviceConfig();
   const result: ScanResult = {
@@ -357,22 +447,25 @@ export async function scanWatchedChannels(options?: {
   }
 
   try {
-    // Check if browser/extractor is ready
-    if (!isExtractorReady()) {
-      result.error = 'Slack browser not ready. Please open Slack first with the assistant.';
-      return result;
-    }
+    // The Web API needs no browser session
+    if (!isSlackApiConfigured()) {
+      // Check if browser/extractor is ready
+      if (!isExtractorReady()) {
+        result.error = 'Slack browser not ready. Please open Slack first with the assistant.';
+        return result;
+      }
 
-    // Check login status
-    const status = await slackBrowser.getStatus();
-    if (!status.isLoggedIn) {
-      result.error = 'Not logged in to Slack. Please log in first.';
-      return result;
+      // Check login status
+      const status = await slackBrowser.getStatus();
+      if (!status.isLoggedIn) {
+        result.error = 'Not logged in to Slack. Please log in first.';
+        return result;
+      }
     }
 
     // Scan each channel
     for (const channel of enabledChannels) {
-      const channelResult = await scanChannel(channel, scanOnlyMode);
+      const channelResult = await scanChannel(channel, scanOnlyMode, options?.externalCommsModel);
       result.channels.push(channelResult);
       result.totalNewMessages += channelResult.newMessageCount;
       
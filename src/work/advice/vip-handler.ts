@@ -4,6 +4,7 @@
 import { ScannedMessage, selectBestSearchResult } from './scanner.js';
 import { replyToMessage, sendMessage, searchForChannelAndGetResults, selectSearchResult } from '../clients/slack-extractor.js';
 import { slackBrowser } from '../clients/slack.js';
+import { postSlackMessage } from '../clients/slack-api.js';
 import { getTasks, Task } from '../tools/tasks.js';
 import { getPDPGoals, PDPGoal } from '../tools/pdp.js';
 import { getMemories, Memory } from '../tools/memory.js';
@@ -44,7 +45,7 @@ async function investigateUrl(url: string): Promise<{
     const title = titleMatch ? titleMatch[1].trim() : undefined;
 
     // Use LLM to summarize the page content (use standard model for URL investigation)
-    const model = createStandardModel(0.2);
+    const model = createStandardModel(0.2, undefined, 'advice');
 
     // Clean HTML for analysis (remove scripts, styles)
     const cleanHtml = html
@@ -161,7 +162,8 @@ async function filterRelevantContext(
 export async function analyzeVipMessage(
   message: ScannedMessage,
   channelName: string,
-  messageIndex: number
+  messageIndex: number,
+  externalCommsModel?: string  // Workstream override (modelConfig.externalCommsModel)
 ): Promise<{
   shouldRespond: boolean;
   importance: 'low' | 'medium' | 'high' | 'critical';
@@ -187,7 +189,7 @@ export async function analyzeVipMessage(
   const context = await filterRelevantContext(message, fullContext);
 
   // Use best model for analysis (this is important for VIP messages)
-  const model = createExternalCommsModel(0.3);
+  const model = createExternalCommsModel(0.3, externalCommsModel);
 
   // Build context string with ONLY relevant items (prevents hallucinations)
   const contextStr = `
@@ -302,10 +304,11 @@ Respond with JSON only (no markdown):
 }
 
 // Auto-respond to a VIP message if appropriate
-// Note: Assumes we're already in the correct channel (called during scanning)
+// The message is an on-screen index (browser - assumes we're already in the channel when
+// called during scanning) or a channel ID + thread ts (Slack Web API)
 export async function handleVipAutoResponse(
   channelName: string,
-  messageIndex: number,
+  message: number | { channelId: string; ts: string },
   analysis: {
     shouldRespond: boolean;
     suggestedResponse?: string;
@@ -321,6 +324,14 @@ export async function handleVipAutoResponse(
   }
 
   try {
+    if (typeof message !== 'number') {
+      await postSlackMessage(message.channelId, analysis.suggestedResponse, {
+        threadTs: message.ts,
+        skipDisclaimer: false, // Always include AI disclaimer
+      });
+      return { success: true, responded: true };
+    }
+
     // Only navigate if we're not already in the channel
     if (!alreadyInChannel) {
       const searchResult = await searchForChannelAndGetResults(channelName);
@@ -344,7 +355,7 @@ export async function handleVipAutoResponse(
 
     // Reply to the message in a thread (keeps the channel clean)
     const replyResult = await replyToMessage(
-      messageIndex,
+      message,
       analysis.suggestedResponse,
       { skipDisclaimer: false } // Always include AI disclaimer
     );
@@ -1,5 +1,5 @@
 // LangGraph Agent for Work Mode
-// Uses Gemini Flash for tool orchestration
+// Uses the standard model (Gemini Flash by default) for tool orchestration
 
 // Module-level state for checklist (allows tools to update it)
 let _activeChecklistCallback: ((checklist: {
@@ -38,6 +38,9 @@ let _toolCallTracker: ToolCallTracker | null = null;
 const CIRCUIT_BREAKER_CONSECUTIVE_ERRORS = 3;  // Stop after 3 consecutive errors
 const CIRCUIT_BREAKER_SAME_TOOL_ERRORS = 5;     // Stop after 5 errors from same tool
 
+// PR tools talk to github.com, GitHub Enterprise or GitLab depending on the repo URL
+const FORGE_NOT_CONFIGURED = 'No token for this repository host. Set GITHUB_TOKEN (github.com), GITHUB_ENTERPRISE_URL + GITHUB_ENTERPRISE_TOKEN, or GITLAB_URL + GITLAB_TOKEN in environment.';
+
 function resetToolCallTracker(): void {
   _toolCallTracker = {
     totalCalls: 0,
@@ -147,73 +150,55 @@ function clearCurrentInvestigation(): void {
   _currentInvestigationPath = null;
 }
 
-// Session tool results cache - survives interruption so agent can resume without re-doing work
-// Key is tool_name + args hash, value is the result
-interface ToolResultCache {
-  results: Map<string, { tool: string; args: string; result: string; timestamp: number }>;
-  sessionId: string;
-}
-let _toolResultCache: ToolResultCache = {
-  results: new Map(),
-  sessionId: '',
-};
-
-function getToolCacheKey(toolName: string, args: Record<string, unknown>): string {
-  // Create a stable key from tool name and args
-  const argsStr = JSON.stringify(args, Object.keys(args).sort());
-  return `${toolName}:${argsStr}`;
-}
-
-function cacheToolResult(toolName: string, args: Record<string, unknown>, result: string): void {
-  const key = getToolCacheKey(toolName, args);
-  _toolResultCache.results.set(key, {
-    tool: toolName,
-    args: JSON.stringify(args),
-    result,
-    timestamp: Date.now(),
-  });
-}
-
-function getCachedToolResult(toolName: string, args: Record<string, unknown>): string | null {
-  const key = getToolCacheKey(toolName, args);
-  const cached = _toolResultCache.results.get(key);
-  // Results are valid for 5 minutes
-  if (cached && Date.now() - cached.timestamp < 5 * 60 * 1000) {
-    return cached.result;
-  }
-  return null;
-}
-
-function clearToolResultCache(): void {
-  _toolResultCache.results.clear();
-}
-
-function getToolResultCacheSummary(): string | null {
-  if (_toolResultCache.results.size === 0) return null;
-  
-  const summaries: string[] = [];
-  for (const [, entry] of _toolResultCache.results) {
-    // Truncate long results
-    const resultPreview = entry.result.length > 500 
-      ? entry.result.substring(0, 500) + '... [truncated]'
-      : entry.result;
-    summaries.push(`${entry.tool}: ${resultPreview}`);
+/**
+ * Record an action taken during an investigation in its findings
+ * Returns the workspace path, or undefined when no investigation is active (or logging failed)
+ */
+async function logToCurrentInvestigation(entry: string): Promise<string | undefined> {
+  const investigationPath = getCurrentInvestigation();
+  if (!investigationPath) return undefined;
+  try {
+    await addFindingToInvestigation(investigationPath, entry);
+    return investigationPath;
+  } catch {
+    return undefined;
   }
-  return summaries.join('\n\n');
 }
 
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { z } from 'zod';
+import { createChatModel, extractText, getChatModelSpec } from './providers/index.js';
+import { recordModelUsage, withUsageContext } from './providers/usage.js';
+import { AgentHarness, createHarnessFromEnv } from './replay/index.js';
+import { getToolTimeout, getToolCachePolicy, getToolInvalidations, MAX_PARALLEL_TOOL_CALLS } from './agent/tool-metadata.js';
+import { getCachedToolResult, cacheToolResult, invalidateToolResults, getToolCacheKey } from './storage/tool-cache.js';
+import { planToolBatches, mapWithConcurrency, withToolTimeout } from './agent/tool-scheduler.js';
+import { requestToolApproval, ApprovalHandler } from './agent/approval.js';
+import { ToolResult, toolSuccess, toolFailure, toolNotConfigured, toolResultFromOutput, toolResultFromError } from './agent/tool-result.js';
+import { loadPlugins, getPluginTools, isPluginTool, executePluginTool, matchPluginPromptModules, getPluginPromptModuleContent } from './plugins/index.js';
+import { resolveContextBudget, createToolResultOffloader, createConversationSummarizer } from './agent/context-budget.js';
+import { streamModelResponse } from './agent/streaming.js';
+import type { ResponseCallback } from './tui/types.js';
+import { resolveStandardModel } from './ai-config.js';
 import {
   jiraGetTicketTool, jiraSearchTool, jiraUnassignedTool, jiraBacklogTool, jiraBoardTool,
-  jiraAddCommentTool, jiraCreateTicketTool,
+  jiraAddCommentTool, jiraCreateTicketTool, jiraGetTransitionsTool, jiraTransitionTicketTool,
+  jiraAssignTicketTool, jiraLogWorkTool, jiraUpdateFieldsTool, jiraLinkTicketsTool, jiraCreateSubtaskTool,
   confluenceSearchTool, confluenceCreatePageTool, confluenceListSpacesTool, confluenceGetPageTool, confluenceGetCommentsTool,
-  firehydrantSearchIncidentsTool, firehydrantGetIncidentTool,
-  firehydrantRecentIncidentsTool, datadogSearchLogsTool, datadogGetMonitorsTool,
+  confluenceUpdatePageTool, confluenceGetVersionsTool, confluenceDiffVersionsTool, confluenceReplyToCommentTool, confluenceUpdateLabelsTool,
+  firehydrantSearchIncidentsTool, firehydrantGetIncidentTool, firehydrantRecentIncidentsTool,
+  firehydrantGetTimelineTool, firehydrantAddNoteTool, firehydrantGetRolesTool, firehydrantAssignRoleTool,
+  firehydrantUpdateIncidentTool, firehydrantGetRunbooksTool, firehydrantIncidentChangesTool, datadogSearchLogsTool, datadogGetMonitorsTool,
+  oncallWhoIsOnCallTool, oncallListPagesTool, oncallGetPageTool, oncallAcknowledgePageTool, oncallResolvePageTool, oncallAddNoteTool,
   datadogGetRequestTraceTool, datadogQueryMetricsTool,
+  datadogSearchTracesTool, datadogGetTraceTool, datadogSearchErrorIssuesTool, datadogGetErrorIssueTool,
+  datadogMuteMonitorTool, datadogUnmuteMonitorTool, datadogScheduleDowntimeTool, datadogCancelDowntimeTool,
+  datadogListDowntimesTool, datadogGetMonitorHistoryTool, datadogSearchSlosTool, datadogGetSloStatusTool,
   datadogDbmQueryMetricsTool, datadogDbmIndexMetricsTool, datadogDbmHostMetricsTool,
   githubListPRsTool, githubGetPRTool, githubSearchPRsByAuthorTool, githubGetPRChecksTool, githubGetPRCommentsTool,
-  prWatchStartTool, prWatchStopTool, prWatchStatusTool, prProvideLogsTool, prSquashCommitsTool,
+  githubCreatePRTool, githubUpdatePRTool, githubRequestReviewersTool, githubCommentOnPRTool,
+  githubReplyToReviewCommentTool, githubResolveReviewThreadTool, githubSubmitReviewTool,
+  githubAddLabelsTool, githubMergePRTool,
+  prWatchStartTool, prWatchStopTool, prWatchStatusTool, prProvideLogsTool, prSquashCommitsTool, prFlakyChecksTool, prWatchConfigureTool,
   shellCommandTool, createDirTool, writeFileTool, readFileTool, listDirTool, pathExistsTool,
   gitStatusTool, gitCommitAllTool, gitPushTool, checkoutBranchTool, listClonedReposTool,
   infraTerminalTool, infraRunCommandTool, infraTshStatusTool, infraTshLoginTool,
@@ -222,7 +207,7 @@ import {
   infraRememberKnowledgeTool, infraSearchKnowledgeTool, infraGetKnowledgeTool,
   infraListSessionsTool, infraEndSessionTool, cursorLoginTool, cursorStartTaskTool,
   cursorContinueTool, cursorGetStatusTool, cursorEndSessionTool, cursorVerifyChangesTool,
-  cursorForceCleanupTool, cursorSetCliPathTool,
+  cursorForceCleanupTool, cursorSetCliPathTool, codingAgentStatusTool, codingAgentSetTool,
   projectRememberTool, projectSearchTool, projectGetTool, projectListTool, projectDeleteTool, updateChecklistTool,
   cloneRepoTool, saveJiraTicketsTool, saveJiraTicketTool, startInvestigationTool,
   saveLogsToInvestigationTool, datadogMultiSearchTool, addFindingTool, searchAndSaveLogsTool, analyzeLogsStructuredTool,
@@ -232,11 +217,13 @@ import {
   createReminderTool, listRemindersTool, acknowledgeReminderTool, deleteReminderTool,
   checkDeadlineRemindersTool, recordDeadlineReminderTool,
   setProjectContextTool, fetchUrlTool, webSearchTool, searchAndFetchTool, proposeMemoryTool,
-  rememberTool, setPDPGoogleDocTool, syncPDPTool, getPDPSummaryTool, addPDPGoalTool,
+  rememberTool, setPDPGoogleDocTool, syncPDPTool, postPDPProgressTool, getPDPSummaryTool, addPDPGoalTool,
   updatePDPGoalTool, listPDPGoalsTool, setAchievementConfigTool, addAchievementTool,
   collectJiraAchievementsTool, collectConfluenceAchievementsTool, collectGoogleDocsAchievementsTool,
   addTechDocLinkTool, getAchievementsSummaryTool, listAchievementsTool, linkAchievementToGoalTool,
-  exportAchievementsTool, approveRecommendationTool,
+  exportAchievementsTool, writeBragDocTool, approveRecommendationTool,
+  googleDocsGetTool, googleDocsGetCommentsTool, googleDocsAppendTool, googleDocsReplyCommentTool,
+  googleDocsResolveCommentTool, googleDocsCreateTool,
   startProfileReviewTool, completeProfileReviewTool, getProfileConfigTool, getReviewSessionTool,
   setLinkedInTool, setCVTool,
   saveWorkspaceStateTool, getWorkspaceStateTool, releaseBranchLockTool,
@@ -246,6 +233,7 @@ import {
   slackScrollMessagesTool, slackScrollToBottomTool, slackQuickOpenTool, slackQueryAITool,
   slackReplyToMessageTool, slackGetMessageUrlTool, slackTakeScreenshotTool, slackListChannelsTool,
   slackNavigateChannelTool, slackCloseThreadTool, slackDebugScrollTool, slackScrollSidebarTool,
+  slackSearchMessagesTool,
   adviceMonitoringScanTool, adviceMonitoringListTool, adviceMonitoringAddTool, adviceMonitoringRemoveTool,
   adviceMonitoringToggleTool, adviceMonitoringSetIntervalTool, adviceMonitoringStatusTool, adviceMonitoringSetVipTool,
   adviceTopicsListTool, adviceTopicsViewTool, adviceTopicsMarkReadTool, adviceTopicsDismissTool,
@@ -264,6 +252,16 @@ import {
   buildSystemPrompt,
 } from './prompts/index.js';
 import { sanitizeMessageOrder } from './storage/checkpoints.js';
+import { getIncidentSnapshotRecord, saveIncidentSnapshotRecord } from './storage/incident-snapshots.js';
+import {
+  getCodingAgentPreferences,
+  setCodingAgentPreference,
+  setCodingAgentCommandTemplate,
+  CodingAgentScope,
+  getPRWatchRepoSettings,
+  setPRWatchRepoSettings,
+  PRBranchUpdateStrategy,
+} from './storage/preferences.js';
 import {
   getTicket,
   searchTickets,
@@ -275,6 +273,14 @@ import {
   getUserTicketStats,
   addComment,
   createTicket,
+  getTransitions,
+  transitionTicket,
+  assignTicket,
+  addWorklog,
+  updateTicketFields,
+  linkTickets,
+  createSubtask,
+  JiraLinkType,
   isJiraConfigured,
   searchPages,
   getPage,
@@ -283,16 +289,53 @@ import {
   searchPagesContributedByUser,
   getUserPageStats,
   createPage,
+  updatePage,
+  getPageVersions,
+  diffPageVersions,
+  replyToComment,
+  updateLabels,
   listSpaces,
   isConfluenceConfigured,
   searchIncidents,
   getIncident,
   getRecentIncidents,
+  getIncidentTimeline,
+  addIncidentNote,
+  listIncidentRoles,
+  getIncidentRoleAssignments,
+  assignIncidentRole,
+  updateIncident,
+  getIncidentRunbooks,
+  getIncidentSnapshot,
+  diffIncidentSnapshots,
   isFireHydrantConfigured,
+  getOnCallShifts,
+  listOnCallPages,
+  getOnCallPage,
+  getOnCallPageNotes,
+  acknowledgePage,
+  resolvePage,
+  addPageNote,
+  isOnCallConfigured,
   searchLogs,
   searchLogsWithDetails,
   getMonitors,
   getRequestTrace,
+  searchTraces,
+  getTrace,
+  renderFlameSummary,
+  findTraceId,
+  searchErrorIssues,
+  getErrorIssue,
+  groupErrorIssues,
+  muteMonitor,
+  unmuteMonitor,
+  scheduleDowntime,
+  cancelDowntime,
+  listDowntimes,
+  getMonitorHistory,
+  searchSlos,
+  getSloStatus,
   queryMetrics,
   getDbmQueryMetrics,
   getDbmIndexMetrics,
@@ -301,7 +344,12 @@ import {
   getGoogleDoc,
   getGoogleDocComments,
   searchMyGoogleDocs,
+  appendToGoogleDoc,
+  replyToGoogleDocComment,
+  resolveGoogleDocComment,
+  createGoogleDocFromMarkdown,
   isGoogleDocsConfigured,
+  canWriteGoogleDocs,
 } from './clients/index.js';
 import {
   listPullRequests,
@@ -315,6 +363,7 @@ import {
 } from './tools/pr-tracking.js';
 import { prWatchManager } from './tools/pr-watch-manager.js';
 import { PRWatchEvent } from './tools/pr-watch-types.js';
+import { getFlakinessSummary } from './tools/flaky-tests.js';
 import {
   runShellCommand,
   createDirectory,
@@ -349,6 +398,13 @@ import {
   forceCleanupSession,
   validateNoOrphanedSession,
 } from './tools/cursor.js';
+import {
+  CODING_AGENT_BACKENDS,
+  getCodingAgent,
+  getConfiguredCodingAgent,
+  resolveCodingAgent,
+  normalizeRepoKey,
+} from './tools/coding-agent.js';
 import {
   createTask,
   updateTask,
@@ -401,6 +457,8 @@ import {
   slackCloseThread,
   slackDebugScroll,
   slackTakeScreenshot,
+  slackSearchMessages,
+  type SlackMessageTarget,
 } from './tools/slack.js';
 import {
   startTaskExecution,
@@ -426,6 +484,18 @@ import {
 } from './tools/compound.js';
 import {
   getPRComments,
+  createPullRequest,
+  updatePullRequest,
+  setPullRequestDraft,
+  requestReviewers,
+  addPRComment,
+  replyToReviewComment,
+  resolveReviewThread,
+  submitReview,
+  addLabels,
+  mergePullRequest,
+  ReviewEvent,
+  MergeMethod,
 } from './clients/github.js';
 import {
   proposeMemory,
@@ -477,6 +547,7 @@ import {
   getPDPConfig,
   setPDPOwner,
   syncPDPFromGoogleDoc,
+  postPDPProgressUpdate,
   getCachedPDPContent,
   addPDPGoal,
   updatePDPGoal,
@@ -506,70 +577,85 @@ import {
   getAchievementsForGoal,
   getAchievementsSummary,
   exportAchievements,
+  writeBragDoc,
   getAchievementStats,
   getRecentAchievementsForContext,
 } from './tools/achievements.js';
 import {
   ConversationState,
   createConversation,
+  restoreConversation,
   addUserMessage,
   addMessages,
-  trimConversation,
   getTokenStats,
   resetConversation,
+  setConversationBudget,
+  countMessagesTokens,
+  compactConversation,
+  needsCompaction,
+  CompactionReport,
 } from './conversation.js';
-import { WorkInput, RelevantData, CollectedData, PersonalityType, PersonalityConfig, CharacterType, CharacterConfig } from './types.js';
+import { WorkInput, RelevantData, CollectedData, PersonalityType, PersonalityConfig, CharacterType, CharacterConfig, ModelConfig, CodingAgentBackend } from './types.js';
 
-// Create the Gemini model
-function createModel() {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY not found in environment');
-  }
-  
-  return new ChatGoogleGenerativeAI({
-    model: 'gemini-3-flash-preview',
-    apiKey,
-    temperature: 0.3,
-  });
+// Create the agent model through the provider layer
+// modelSpec is a provider spec (e.g. "openai:gpt-4o"); defaults to the standard model
+function createModel(modelSpec?: string) {
+  return createChatModel(resolveStandardModel(modelSpec), { temperature: 0.3 });
 }
 
-async function executeTool(
+const GOOGLE_DOCS_NOT_CONFIGURED = 'Google Docs not configured. Run `hn work-google-login` (or set GOOGLE_ACCESS_TOKEN or GOOGLE_API_KEY).';
+const GOOGLE_DOCS_NOT_WRITABLE = 'Google Docs writes need a Google login. Run `hn work-google-login` (GOOGLE_API_KEY is read-only).';
+
+const ONCALL_NOT_CONFIGURED = 'On-call not configured. Set PAGERDUTY_API_TOKEN (and PAGERDUTY_FROM_EMAIL for writes) or OPSGENIE_API_KEY.';
+
+// Slack message tools take messageIndex (browser) or ts + channel (Web API)
+function slackMessageTarget(args: Record<string, unknown>): SlackMessageTarget {
+  return {
+    messageIndex: args.messageIndex as number | undefined,
+    ts: args.ts as string | undefined,
+    channel: args.channel as string | undefined,
+  };
+}
+
+// Run a tool's handler
+// Handlers return raw output (classified by toolResultFromOutput) or an explicit ToolResult
+async function dispatchTool(
   toolName: string,
   args: Record<string, unknown>,
   includeDatadog: boolean,
-  workstreamId?: string
-): Promise<string> {
+  workstreamId?: string,
+  modelConfig?: ModelConfig
+): Promise<string | ToolResult> {
   try {
     switch (toolName) {
       // API tools (read-only)
       case 'jira_get_ticket':
-        if (!isJiraConfigured()) return JSON.stringify({ error: 'JIRA not configured' });
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
         const ticket = await getTicket(args.ticketKey as string);
-        return ticket ? JSON.stringify(ticket) : JSON.stringify({ error: 'Ticket not found' });
+        return ticket ? JSON.stringify(ticket) : toolFailure('not_found', 'Ticket not found');
       
       case 'jira_search':
-        if (!isJiraConfigured()) return JSON.stringify({ error: 'JIRA not configured' });
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
         const jiraResults = await searchTickets(args.query as string, (args.maxResults as number) || 10);
         return JSON.stringify(jiraResults);
       
       case 'jira_unassigned_tickets':
-        if (!isJiraConfigured()) return JSON.stringify({ error: 'JIRA not configured' });
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
         const unassigned = await getUnassignedTickets(args.projectKey as string, (args.maxResults as number) || 50);
         return JSON.stringify(unassigned);
       
       case 'jira_backlog':
-        if (!isJiraConfigured()) return JSON.stringify({ error: 'JIRA not configured' });
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
         const backlog = await getBacklogTickets(args.projectKey as string, (args.maxResults as number) || 50);
         return JSON.stringify(backlog);
       
       case 'jira_board':
-        if (!isJiraConfigured()) return JSON.stringify({ error: 'JIRA not configured' });
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
         const boardTickets = await getBoardTickets(args.boardOrFilterId as string, (args.maxResults as number) || 50);
         return JSON.stringify(boardTickets);
       
       case 'jira_add_comment':
-        if (!isJiraConfigured()) return JSON.stringify({ error: 'JIRA not configured' });
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
         const commentResult = await addComment({
           ticketKey: args.ticketKey as string,
           comment: args.comment as string,
@@ -577,7 +663,7 @@ async function executeTool(
         return JSON.stringify(commentResult);
       
       case 'jira_create_ticket':
-        if (!isJiraConfigured()) return JSON.stringify({ error: 'JIRA not configured' });
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
         const createResult = await createTicket({
           projectKey: args.projectKey as string,
           summary: args.summary as string,
@@ -589,13 +675,69 @@ async function executeTool(
         });
         return JSON.stringify(createResult);
       
+      case 'jira_get_transitions':
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
+        const transitions = await getTransitions(args.ticketKey as string);
+        return JSON.stringify({ ticketKey: args.ticketKey, transitions });
+      
+      case 'jira_transition_ticket':
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
+        const transitionResult = await transitionTicket(
+          args.ticketKey as string,
+          args.transition as string,
+          args.comment as string | undefined
+        );
+        return JSON.stringify({ success: true, ...transitionResult });
+      
+      case 'jira_assign_ticket':
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
+        const assignResult = await assignTicket(args.ticketKey as string, (args.assignee as string | undefined) || null);
+        return JSON.stringify({ success: true, ...assignResult });
+      
+      case 'jira_log_work':
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
+        const worklog = await addWorklog({
+          ticketKey: args.ticketKey as string,
+          timeSpent: args.timeSpent as string,
+          comment: args.comment as string | undefined,
+          started: args.started as string | undefined,
+        });
+        return JSON.stringify({ success: true, ...worklog });
+      
+      case 'jira_update_fields': {
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
+        const { ticketKey: fieldsTicketKey, ...fieldUpdates } = args;
+        const fieldsResult = await updateTicketFields({ ticketKey: fieldsTicketKey as string, ...fieldUpdates });
+        return JSON.stringify({ success: true, ...fieldsResult });
+      }
+      
+      case 'jira_link_tickets':
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
+        const linkResult = await linkTickets(
+          args.fromKey as string,
+          args.linkType as JiraLinkType,
+          args.toKey as string
+        );
+        return JSON.stringify({ success: true, ...linkResult });
+      
+      case 'jira_create_subtask':
+        if (!isJiraConfigured()) return toolNotConfigured('JIRA not configured');
+        const subtask = await createSubtask({
+          parentKey: args.parentKey as string,
+          summary: args.summary as string,
+          description: args.description as string | undefined,
+          assignee: args.assignee as string | undefined,
+          labels: args.labels as string[] | undefined,
+        });
+        return JSON.stringify({ success: true, ...subtask });
+      
       case 'confluence_search':
-        if (!isConfluenceConfigured()) return JSON.stringify({ error: 'Confluence not configured' });
+        if (!isConfluenceConfigured()) return toolNotConfigured('Confluence not configured');
         const confResults = await searchPages(args.query as string, (args.maxResults as number) || 10);
         return JSON.stringify(confResults);
       
       case 'confluence_create_page':
-        if (!isConfluenceConfigured()) return JSON.stringify({ error: 'Confluence not configured' });
+        if (!isConfluenceConfigured()) return toolNotConfigured('Confluence not configured');
         const newPage = await createPage(
           args.spaceKey as string,
           args.title as string,
@@ -608,15 +750,15 @@ async function executeTool(
         return JSON.stringify({ success: true, ...newPage });
       
       case 'confluence_list_spaces':
-        if (!isConfluenceConfigured()) return JSON.stringify({ error: 'Confluence not configured' });
+        if (!isConfluenceConfigured()) return toolNotConfigured('Confluence not configured');
         const spaces = await listSpaces((args.limit as number) || 25);
         return JSON.stringify({ spaces });
       
       case 'confluence_get_page':
-        if (!isConfluenceConfigured()) return JSON.stringify({ error: 'Confluence not configured' });
+        if (!isConfluenceConfigured()) return toolNotConfigured('Confluence not configured');
         const page = await getPage(args.pageId as string);
         if (!page) {
-          return JSON.stringify({ error: `Page ${args.pageId} not found` });
+          return toolFailure('not_found', `Page ${args.pageId} not found`);
         }
         return JSON.stringify({
           success: true,
@@ -627,33 +769,195 @@ async function executeTool(
             url: page.url,
             space: page.space,
             lastModified: page.lastModified,
+            version: page.version,
+            labels: page.labels,
           },
         });
       
       case 'confluence_get_comments':
-        if (!isConfluenceConfigured()) return JSON.stringify({ error: 'Confluence not configured' });
+        if (!isConfluenceConfigured()) return toolNotConfigured('Confluence not configured');
         const commentsResult = await getPageComments(args.pageId as string, {
           includeInline: args.includeInline as boolean | undefined,
         });
         return JSON.stringify(commentsResult);
       
+      case 'confluence_update_page': {
+        if (!isConfluenceConfigured()) return toolNotConfigured('Confluence not configured');
+        const mode = args.mode as 'replace' | 'append' | 'prepend' | 'replace_section' | undefined;
+        if (mode === 'replace_section' && !args.section) {
+          return toolFailure('invalid_input', 'section is required for replace_section');
+        }
+        const updated = await updatePage(args.pageId as string, {
+          content: args.content as string,
+          mode,
+          section: args.section as string | undefined,
+          format: args.format as 'markdown' | 'storage' | undefined,
+          title: args.title as string | undefined,
+          expectedVersion: args.expectedVersion as number | undefined,
+          versionMessage: args.versionMessage as string | undefined,
+        });
+        return JSON.stringify({ success: true, ...updated });
+      }
+      
+      case 'confluence_get_versions': {
+        if (!isConfluenceConfigured()) return toolNotConfigured('Confluence not configured');
+        const versions = await getPageVersions(args.pageId as string, (args.limit as number) || 25);
+        return JSON.stringify({ pageId: args.pageId, versions });
+      }
+      
+      case 'confluence_diff_versions': {
+        if (!isConfluenceConfigured()) return toolNotConfigured('Confluence not configured');
+        const versionDiff = await diffPageVersions(args.pageId as string, {
+          fromVersion: args.fromVersion as number | undefined,
+          toVersion: args.toVersion as number | undefined,
+        });
+        return JSON.stringify(versionDiff);
+      }
+      
+      case 'confluence_reply_to_comment': {
+        if (!isConfluenceConfigured()) return toolNotConfigured('Confluence not configured');
+        const reply = await replyToComment({
+          commentId: args.commentId as string,
+          body: args.body as string,
+        });
+        return JSON.stringify({ success: true, ...reply });
+      }
+      
+      case 'confluence_update_labels': {
+        if (!isConfluenceConfigured()) return toolNotConfigured('Confluence not configured');
+        const add = args.add as string[] | undefined;
+        const remove = args.remove as string[] | undefined;
+        if (!add?.length && !remove?.length) {
+          return toolFailure('invalid_input', 'Provide labels to add or remove');
+        }
+        const labels = await updateLabels(args.pageId as string, { add, remove });
+        return JSON.stringify({ success: true, pageId: args.pageId, labels });
+      }
+      
       case 'firehydrant_search_incidents':
-        if (!isFireHydrantConfigured()) return JSON.stringify({ error: 'FireHydrant not configured' });
+        if (!isFireHydrantConfigured()) return toolNotConfigured('FireHydrant not configured');
         const fhSearchResults = await searchIncidents(args.query as string, (args.maxResults as number) || 10);
         return JSON.stringify(fhSearchResults);
       
       case 'firehydrant_get_incident':
-        if (!isFireHydrantConfigured()) return JSON.stringify({ error: 'FireHydrant not configured' });
+        if (!isFireHydrantConfigured()) return toolNotConfigured('FireHydrant not configured');
         const incident = await getIncident(args.incidentId as string);
-        return incident ? JSON.stringify(incident) : JSON.stringify({ error: 'Incident not found' });
+        return incident ? JSON.stringify(incident) : toolFailure('not_found', 'Incident not found');
       
       case 'firehydrant_recent_incidents':
-        if (!isFireHydrantConfigured()) return JSON.stringify({ error: 'FireHydrant not configured' });
+        if (!isFireHydrantConfigured()) return toolNotConfigured('FireHydrant not configured');
         const recentIncidents = await getRecentIncidents((args.maxResults as number) || 10);
         return JSON.stringify(recentIncidents);
       
+      case 'firehydrant_get_timeline':
+        if (!isFireHydrantConfigured()) return toolNotConfigured('FireHydrant not configured');
+        const incidentTimeline = await getIncidentTimeline(args.incidentId as string, (args.maxResults as number) || 100);
+        return JSON.stringify({ incidentId: args.incidentId, events: incidentTimeline });
+      
+      case 'firehydrant_add_note':
+        if (!isFireHydrantConfigured()) return toolNotConfigured('FireHydrant not configured');
+        const noteResult = await addIncidentNote({
+          incidentId: args.incidentId as string,
+          body: args.body as string,
+          visibility: args.visibility as 'private_to_org' | 'open_to_public' | 'internal_status_page' | undefined,
+        });
+        return JSON.stringify({ success: true, ...noteResult });
+      
+      case 'firehydrant_get_roles':
+        if (!isFireHydrantConfigured()) return toolNotConfigured('FireHydrant not configured');
+        const [roleAssignments, availableRoles] = await Promise.all([
+          getIncidentRoleAssignments(args.incidentId as string),
+          listIncidentRoles(),
+        ]);
+        return JSON.stringify({ incidentId: args.incidentId, assignments: roleAssignments, availableRoles });
+      
+      case 'firehydrant_assign_role':
+        if (!isFireHydrantConfigured()) return toolNotConfigured('FireHydrant not configured');
+        const roleAssignment = await assignIncidentRole(
+          args.incidentId as string,
+          args.role as string,
+          args.user as string
+        );
+        return JSON.stringify({ success: true, incidentId: args.incidentId, ...roleAssignment });
+      
+      case 'firehydrant_update_incident':
+        if (!isFireHydrantConfigured()) return toolNotConfigured('FireHydrant not configured');
+        if (!args.milestone && !args.severity) {
+          return toolFailure('invalid_input', 'Pass a milestone and/or severity to update');
+        }
+        const incidentUpdate = await updateIncident(args.incidentId as string, {
+          milestone: args.milestone as string | undefined,
+          severity: args.severity as string | undefined,
+          note: args.note as string | undefined,
+        });
+        return JSON.stringify({ success: true, ...incidentUpdate });
+      
+      case 'firehydrant_get_runbooks':
+        if (!isFireHydrantConfigured()) return toolNotConfigured('FireHydrant not configured');
+        const runbooks = await getIncidentRunbooks(args.incidentId as string);
+        return JSON.stringify({ incidentId: args.incidentId, runbooks });
+      
+      case 'firehydrant_incident_changes':
+        if (!isFireHydrantConfigured()) return toolNotConfigured('FireHydrant not configured');
+        const { snapshot: incidentSnapshot, timeline: changesTimeline } = await getIncidentSnapshot(args.incidentId as string);
+        const previousSnapshot = await getIncidentSnapshotRecord(incidentSnapshot.incidentId);
+        const incidentChanges = diffIncidentSnapshots(previousSnapshot, incidentSnapshot, changesTimeline);
+        await saveIncidentSnapshotRecord(incidentSnapshot);
+        return JSON.stringify({
+          ...incidentChanges,
+          message: !previousSnapshot
+            ? 'First look at this incident - full timeline returned; later calls show only what changed'
+            : incidentChanges.changes.length === 0 && incidentChanges.newEvents.length === 0
+              ? `No changes since ${previousSnapshot.takenAt}`
+              : `${incidentChanges.changes.length} change(s) and ${incidentChanges.newEvents.length} new event(s) since ${previousSnapshot.takenAt}`,
+        });
+      
+      case 'oncall_who_is_on_call': {
+        if (!isOnCallConfigured()) return toolNotConfigured(ONCALL_NOT_CONFIGURED);
+        const shifts = await getOnCallShifts({ schedule: args.schedule as string | undefined });
+        return JSON.stringify({ count: shifts.length, onCall: shifts });
+      }
+      
+      case 'oncall_list_pages': {
+        if (!isOnCallConfigured()) return toolNotConfigured(ONCALL_NOT_CONFIGURED);
+        const pages = await listOnCallPages({
+          statuses: args.statuses as Array<'triggered' | 'acknowledged' | 'resolved'> | undefined,
+          limit: args.maxResults as number | undefined,
+        });
+        return JSON.stringify({ count: pages.length, pages });
+      }
+      
+      case 'oncall_get_page': {
+        if (!isOnCallConfigured()) return toolNotConfigured(ONCALL_NOT_CONFIGURED);
+        const page = await getOnCallPage(args.pageId as string);
+        if (!page) return toolFailure('not_found', `Page ${args.pageId} not found`);
+        const notes = await getOnCallPageNotes(page.id);
+        return JSON.stringify({ ...page, notes });
+      }
+      
+      case 'oncall_acknowledge_page': {
+        if (!isOnCallConfigured()) return toolNotConfigured(ONCALL_NOT_CONFIGURED);
+        const acknowledged = await acknowledgePage(args.pageId as string, { note: args.note as string | undefined });
+        return JSON.stringify({ success: true, pageId: args.pageId, page: acknowledged ?? undefined });
+      }
+      
+      case 'oncall_resolve_page': {
+        if (!isOnCallConfigured()) return toolNotConfigured(ONCALL_NOT_CONFIGURED);
+        const resolved = await resolvePage(args.pageId as string, { resolution: args.resolution as string | undefined });
+        return JSON.stringify({ success: true, pageId: args.pageId, page: resolved ?? undefined });
+      }
+      
+      case 'oncall_add_note': {
+        if (!isOnCallConfigured()) return toolNotConfigured(ONCALL_NOT_CONFIGURED);
+        const pageNote = await addPageNote({
+          pageId: args.pageId as string,
+          content: args.content as string,
+        });
+        return JSON.stringify({ success: true, ...pageNote });
+      }
+      
       case 'datadog_search_logs':
-        if (!includeDatadog || !isDatadogConfigured()) return JSON.stringify({ error: 'Datadog not configured or not enabled' });
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
         const logs = await searchLogs(args.query as string, {
           maxResults: (args.maxResults as number) || 20,
           from: args.from as string | undefined,
@@ -695,17 +999,186 @@ async function executeTool(
         });
       
       case 'datadog_get_monitors':
-        if (!includeDatadog || !isDatadogConfigured()) return JSON.stringify({ error: 'Datadog not configured or not enabled' });
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
         const monitors = await getMonitors(args.query as string | undefined);
         return JSON.stringify(monitors);
       
+      case 'datadog_mute_monitor': {
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const downtime = await muteMonitor(args.monitorId as number, {
+          scope: args.scope as string | undefined,
+          end: args.end as string | undefined,
+          message: args.message as string | undefined,
+        });
+        const loggedTo = await logToCurrentInvestigation(
+          `🔇 Muted Datadog monitor ${args.monitorId} (scope: ${downtime.scope}, until: ${downtime.end || 'unmuted'}, downtime ${downtime.id})` +
+          (args.message ? `\n\nReason: ${args.message}` : '')
+        );
+        return JSON.stringify({ success: true, downtime, loggedTo });
+      }
+      
+      case 'datadog_unmute_monitor': {
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const canceled = await unmuteMonitor(args.monitorId as number, args.scope as string | undefined);
+        if (canceled.length === 0) {
+          return toolFailure('not_found', `Monitor ${args.monitorId} has no active downtimes${args.scope ? ` with scope ${args.scope}` : ''}`);
+        }
+        const loggedTo = await logToCurrentInvestigation(
+          `🔔 Unmuted Datadog monitor ${args.monitorId} (canceled downtimes: ${canceled.map(d => `${d.id} [${d.scope}]`).join(', ')})`
+        );
+        return JSON.stringify({ success: true, monitorId: args.monitorId, canceled, loggedTo });
+      }
+      
+      case 'datadog_schedule_downtime': {
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const monitorTags = args.monitorTags as string[] | undefined;
+        if (args.monitorId === undefined && !monitorTags?.length) {
+          return toolFailure('invalid_input', 'Pass monitorId or monitorTags');
+        }
+        const downtime = await scheduleDowntime({
+          monitorId: args.monitorId as number | undefined,
+          monitorTags,
+          scope: args.scope as string | undefined,
+          start: args.start as string | undefined,
+          end: args.end as string | undefined,
+          message: args.message as string | undefined,
+        });
+        const target = downtime.monitorId !== undefined ? `monitor ${downtime.monitorId}` : `monitors tagged ${monitorTags!.join(', ')}`;
+        const loggedTo = await logToCurrentInvestigation(
+          `🗓️ Scheduled Datadog downtime ${downtime.id} for ${target} (scope: ${downtime.scope}, ${downtime.start || 'now'} → ${downtime.end || 'until canceled'})` +
+          (args.message ? `\n\nReason: ${args.message}` : '')
+        );
+        return JSON.stringify({ success: true, downtime, loggedTo });
+      }
+      
+      case 'datadog_cancel_downtime': {
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        await cancelDowntime(args.downtimeId as string);
+        const loggedTo = await logToCurrentInvestigation(`🔔 Canceled Datadog downtime ${args.downtimeId}`);
+        return JSON.stringify({ success: true, downtimeId: args.downtimeId, loggedTo });
+      }
+      
+      case 'datadog_list_downtimes':
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const downtimes = await listDowntimes({
+          monitorId: args.monitorId as number | undefined,
+          includeEnded: args.includeEnded as boolean | undefined,
+        });
+        return JSON.stringify(downtimes);
+      
+      case 'datadog_get_monitor_history':
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const monitorHistory = await getMonitorHistory(args.monitorId as number, {
+          from: args.from as string | undefined,
+          to: args.to as string | undefined,
+        });
+        return monitorHistory ? JSON.stringify(monitorHistory) : toolFailure('not_found', 'Monitor not found');
+      
+      case 'datadog_search_slos':
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const slos = await searchSlos(args.query as string | undefined, (args.maxResults as number) || 25);
+        return JSON.stringify(slos);
+      
+      case 'datadog_get_slo_status':
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const sloStatus = await getSloStatus(args.sloId as string, {
+          window: args.window as string | undefined,
+          from: args.from as string | undefined,
+          to: args.to as string | undefined,
+          timeframe: args.timeframe as string | undefined,
+        });
+        return sloStatus ? JSON.stringify(sloStatus) : toolFailure('not_found', 'SLO not found');
+      
       case 'datadog_get_request_trace':
-        if (!includeDatadog || !isDatadogConfigured()) return JSON.stringify({ error: 'Datadog not configured or not enabled' });
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
         const trace = await getRequestTrace(args.requestId as string);
-        return JSON.stringify(trace);
+        const traceIds = [...new Set(trace.map(findTraceId).filter((id): id is string => !!id))];
+        return JSON.stringify({ logs: trace, traceIds });
+      
+      case 'datadog_search_traces':
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const traceSearch = await searchTraces({
+          service: args.service as string | undefined,
+          resource: args.resource as string | undefined,
+          status: args.status as 'ok' | 'error' | undefined,
+          env: args.env as string | undefined,
+          minDurationMs: args.minDurationMs as number | undefined,
+          query: args.query as string | undefined,
+          from: args.from as string | undefined,
+          to: args.to as string | undefined,
+          maxResults: args.maxResults as number | undefined,
+        });
+        return JSON.stringify(traceSearch);
+      
+      case 'datadog_get_trace': {
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const range = { from: args.from as string | undefined, to: args.to as string | undefined };
+        let traceId = args.traceId as string | undefined;
+        if (!traceId && args.requestId) {
+          // Correlate through the trace_id the tracer injected into the request's logs
+          const requestLogs = await getRequestTrace(args.requestId as string, range);
+          const correlated = requestLogs.map(findTraceId).find((id): id is string => !!id);
+          if (!correlated) {
+            return toolFailure('not_found', `No trace_id in the ${requestLogs.length} logs for request ${args.requestId}`);
+          }
+          traceId = correlated;
+          // Spans sit next to the logs - search around them unless a range was given
+          if (!range.from && requestLogs.length > 0) {
+            const logTimes = requestLogs.map(l => Date.parse(l.timestamp)).filter(t => !isNaN(t));
+            range.from = new Date(Math.min(...logTimes) - 15 * 60 * 1000).toISOString();
+            range.to = range.to || new Date(Math.max(...logTimes) + 15 * 60 * 1000).toISOString();
+          }
+        }
+        if (!traceId) {
+          return toolFailure('invalid_input', 'Pass traceId or requestId');
+        }
+        const fullTrace = await getTrace(traceId, range);
+        if (!fullTrace) {
+          return toolFailure('not_found', `No spans found for trace ${traceId} - check the time range (spans are kept 15 days)`);
+        }
+        const slowest = [...fullTrace.spans].sort((a, b) => b.durationMs - a.durationMs).slice(0, 5);
+        return JSON.stringify({
+          traceId: fullTrace.traceId,
+          durationMs: fullTrace.durationMs,
+          spanCount: fullTrace.spans.length,
+          services: fullTrace.services,
+          errorCount: fullTrace.errorCount,
+          truncated: fullTrace.truncated,
+          flame: renderFlameSummary(fullTrace, { maxDepth: args.maxDepth as number | undefined }),
+          errors: fullTrace.spans.filter(s => s.error).slice(0, 10).map(s => ({
+            service: s.service, resource: s.resource, errorType: s.errorType, errorMessage: s.errorMessage, spanId: s.spanId,
+          })),
+          slowestSpans: slowest.map(s => ({ service: s.service, resource: s.resource, durationMs: s.durationMs, spanId: s.spanId })),
+        });
+      }
+      
+      case 'datadog_search_error_issues':
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const issueQuery = [
+          args.service ? `service:${args.service}` : '',
+          args.env ? `env:${args.env}` : '',
+          (args.query as string | undefined) || '',
+        ].filter(Boolean).join(' ');
+        const errorIssues = await searchErrorIssues({
+          query: issueQuery || undefined,
+          track: args.track as 'trace' | 'logs' | 'rum' | undefined,
+          from: args.from as string | undefined,
+          to: args.to as string | undefined,
+          maxResults: args.maxResults as number | undefined,
+        });
+        return JSON.stringify({
+          query: issueQuery || '*',
+          issues: errorIssues,
+          groups: args.groupBy ? groupErrorIssues(errorIssues, args.groupBy as 'service' | 'error_type' | 'file') : undefined,
+        });
+      
+      case 'datadog_get_error_issue':
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled');
+        const errorIssue = await getErrorIssue(args.issueId as string);
+        return errorIssue ? JSON.stringify(errorIssue) : toolFailure('not_found', 'Error Tracking issue not found');
       
       case 'datadog_query_metrics':
-        if (!includeDatadog || !isDatadogConfigured()) return JSON.stringify({ error: 'Datadog not configured or not enabled. Use /datadog to enable.' });
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled. Use /datadog to enable.');
         const metricsResult = await queryMetrics(args.query as string, {
           from: args.from as string,
           to: args.to as string,
@@ -735,7 +1208,7 @@ async function executeTool(
       
       // Database Monitoring (DBM) tools - use metrics API since no public DBM API exists
       case 'datadog_dbm_query_metrics':
-        if (!includeDatadog || !isDatadogConfigured()) return JSON.stringify({ error: 'Datadog not configured or not enabled. Use /datadog to enable.' });
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled. Use /datadog to enable.');
         const dbmQueryResult = await getDbmQueryMetrics({
           service: args.service as string | undefined,
           dbName: args.dbName as string | undefined,
@@ -755,7 +1228,7 @@ async function executeTool(
         }, null, 2);
       
       case 'datadog_dbm_index_metrics':
-        if (!includeDatadog || !isDatadogConfigured()) return JSON.stringify({ error: 'Datadog not configured or not enabled. Use /datadog to enable.' });
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled. Use /datadog to enable.');
         const dbmIndexResult = await getDbmIndexMetrics(
           args.indexName as string | undefined,
           {
@@ -782,7 +1255,7 @@ async function executeTool(
         }, null, 2);
       
       case 'datadog_dbm_host_metrics':
-        if (!includeDatadog || !isDatadogConfigured()) return JSON.stringify({ error: 'Datadog not configured or not enabled. Use /datadog to enable.' });
+        if (!includeDatadog || !isDatadogConfigured()) return toolNotConfigured('Datadog not configured or not enabled. Use /datadog to enable.');
         const dbmHostResult = await getDbmHostMetrics({
           service: args.service as string | undefined,
           host: args.host as string | undefined,
@@ -807,7 +1280,7 @@ async function executeTool(
       
       // GitHub tools
       case 'github_list_prs':
-        if (!isGitHubConfigured()) return JSON.stringify({ error: 'GitHub not configured. Set GITHUB_TOKEN in environment.' });
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
         const prs = await listPullRequests(args.repoUrl as string, {
           state: args.state as 'open' | 'closed' | 'all' | undefined,
           author: args.author as string | undefined,
@@ -831,13 +1304,13 @@ async function executeTool(
         });
       
       case 'github_get_pr':
-        if (!isGitHubConfigured()) return JSON.stringify({ error: 'GitHub not configured. Set GITHUB_TOKEN in environment.' });
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
         const pr = await getPullRequest(args.repoUrl as string, args.prNumber as number);
-        if (!pr) return JSON.stringify({ error: 'Pull request not found' });
+        if (!pr) return toolFailure('not_found', 'Pull request not found');
         return JSON.stringify(pr);
       
       case 'github_search_prs_by_author':
-        if (!isGitHubConfigured()) return JSON.stringify({ error: 'GitHub not configured. Set GITHUB_TOKEN in environment.' });
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
         const authorPRs = await searchPullRequestsByAuthor(
           args.repoUrl as string,
           args.author as string,
@@ -865,7 +1338,7 @@ async function executeTool(
         });
       
       case 'github_get_pr_checks':
-        if (!isGitHubConfigured()) return JSON.stringify({ error: 'GitHub not configured. Set GITHUB_TOKEN in environment.' });
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
         const checksResult = await getPRChecks(args.repoUrl as string, args.prNumber as number);
         return JSON.stringify({
           sha: checksResult.sha,
@@ -882,18 +1355,19 @@ async function executeTool(
       
       // PR Tracking tools
       case 'pr_watch_start':
-        if (!isGitHubConfigured()) return JSON.stringify({ error: 'GitHub not configured. Set GITHUB_TOKEN in environment.' });
         const prInput = parsePRUrl(args.prUrl as string);
         if (!prInput) {
-          return JSON.stringify({ error: 'Invalid PR URL format. Use https://github.com/owner/repo/pull/123 or owner/repo#123' });
+          return toolFailure('invalid_input', 'Invalid PR URL format. Use https://github.com/owner/repo/pull/123, a GitLab merge request URL, or owner/repo#123');
         }
+        if (!isGitHubConfigured(prInput.repoUrl)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
         const watchResult = await prWatchManager.addPRWatch(
           prInput.repoUrl,
           prInput.prNumber,
           (event: PRWatchEvent) => {
             // Events are handled by the PR watch manager internally
             // No console output to avoid polluting the UI
-          }
+          },
+          workstreamId
         );
         if (!watchResult.success) {
           return JSON.stringify({ error: watchResult.error });
@@ -911,12 +1385,14 @@ async function executeTool(
         });
       
       case 'pr_watch_stop':
+        // Watches survive restarts - make sure journaled sessions are loaded before acting on them
+        await prWatchManager.resumeSessions();
         const sessionIdToStop = args.sessionId as string | undefined;
         if (sessionIdToStop) {
           // Stop specific session
           const stopResult = prWatchManager.stopPRWatch(sessionIdToStop);
           if (!stopResult.stopped) {
-            return JSON.stringify({ error: `Session ${sessionIdToStop} not found or already stopped` });
+            return toolFailure('not_found', `Session ${sessionIdToStop} not found or already stopped`);
           }
           return JSON.stringify({
             success: true,
@@ -938,10 +1414,12 @@ async function executeTool(
         }
       
       case 'pr_watch_status':
+        await prWatchManager.resumeSessions();
         const statusInfo = prWatchManager.getStatus();
         return JSON.stringify(statusInfo);
       
       case 'pr_provide_logs':
+        await prWatchManager.resumeSessions();
         const sessionIdForLogs = args.sessionId as string;
         const prLogs = args.logs as string;
         const prLogsResult = await prWatchManager.provideManualLogs(sessionIdForLogs, prLogs);
@@ -956,9 +1434,10 @@ async function executeTool(
       case 'pr_squash_commits':
         const sessionIdForSquash = args.sessionId as string;
         const commitMessage = args.message as string;
+        await prWatchManager.resumeSessions();
         const sessionForSquash = prWatchManager.getSession(sessionIdForSquash);
         if (!sessionForSquash) {
-          return JSON.stringify({ error: `Session ${sessionIdForSquash} not found` });
+          return toolFailure('not_found', `Session ${sessionIdForSquash} not found`);
         }
         // Import squashSessionCommits from pr-tracking
         const { squashSessionCommits } = await import('./tools/pr-tracking.js');
@@ -971,6 +1450,37 @@ async function executeTool(
           message: 'Commits squashed and force-pushed successfully',
         });
       
+      case 'pr_flaky_checks': {
+        const flakyRepoUrl = parsePRUrl(args.repo as string)?.repoUrl || (args.repo as string);
+        const flakyChecks = await getFlakinessSummary(flakyRepoUrl);
+        if (flakyChecks.length === 0) {
+          return JSON.stringify({ repoUrl: flakyRepoUrl, checks: [], message: 'No CI failures recorded for this repo yet (history is collected while PRs are watched)' });
+        }
+        return JSON.stringify({
+          repoUrl: flakyRepoUrl,
+          flaky: flakyChecks.filter(c => c.flaky).length,
+          checks: flakyChecks.slice(0, 30),
+        });
+      }
+      
+      case 'pr_watch_configure': {
+        const configRepoUrl = parsePRUrl(args.repo as string)?.repoUrl || (args.repo as string);
+        const configRepoKey = normalizeRepoKey(configRepoUrl);
+        const checkCommandsArg = args.checkCommands as string[] | undefined;
+        const settings = args.updateStrategy === undefined && checkCommandsArg === undefined
+          ? await getPRWatchRepoSettings(configRepoKey)
+          : await setPRWatchRepoSettings(configRepoKey, {
+              updateStrategy: args.updateStrategy as PRBranchUpdateStrategy | undefined,
+              checkCommands: checkCommandsArg && checkCommandsArg.map(c => c.trim()).filter(Boolean),
+            });
+        return JSON.stringify({
+          repoUrl: configRepoUrl,
+          updateStrategy: settings.updateStrategy || 'off',
+          checkCommands: settings.checkCommands || [],
+          note: settings.checkCommands ? undefined : 'No check commands - conflict resolutions are pushed once no conflict markers remain, and CI verifies them',
+        });
+      }
+      
       // Shell and file tools
       case 'shell_command':
         const shellResult = await runShellCommand(
@@ -1373,7 +1883,9 @@ async function executeTool(
         const investigation = await createInvestigationWorkspace(
           args.name as string,
           args.alertContent as string,
-          effectiveExistingDir
+          effectiveExistingDir,
+          args.incidentId as string | undefined,
+          args.pageId as string | undefined
         );
         
         // Cache the investigation path for potential resumption
@@ -1409,7 +1921,7 @@ async function executeTool(
       
       case 'datadog_multi_search':
         if (!includeDatadog || !isDatadogConfigured()) {
-          return JSON.stringify({ error: 'Datadog not configured or not enabled. Use /datadog to enable.' });
+          return toolNotConfigured('Datadog not configured or not enabled. Use /datadog to enable.');
         }
         
         const multiInvestigationPath = args.investigationPath as string;
@@ -1501,7 +2013,7 @@ async function executeTool(
       
       case 'search_and_save_logs':
         if (!includeDatadog || !isDatadogConfigured()) {
-          return JSON.stringify({ error: 'Datadog not configured or not enabled. Use /datadog to enable.' });
+          return toolNotConfigured('Datadog not configured or not enabled. Use /datadog to enable.');
         }
         
         const investigationDir = args.investigationPath as string;
@@ -2146,16 +2658,17 @@ Tell the user the character has been created and how to use it.`,
       
       case 'sync_pdp':
         if (!isGoogleDocsConfigured()) {
-          return JSON.stringify({ error: 'Google Docs not configured. Set GOOGLE_ACCESS_TOKEN or GOOGLE_API_KEY.' });
+          return toolNotConfigured(GOOGLE_DOCS_NOT_CONFIGURED);
         }
         if (!(await isPDPConfigured())) {
-          return JSON.stringify({ error: 'PDP not configured. Use set_pdp_google_doc first.' });
+          return toolNotConfigured('PDP not configured. Use set_pdp_google_doc first.');
         }
         const syncResult = await syncPDPFromGoogleDoc();
         return JSON.stringify({
           success: true,
           hasChanges: syncResult.hasChanges,
           newCommentsCount: syncResult.newComments.length,
+          newComments: syncResult.newComments.map(c => ({ id: c.id, author: c.author, content: c.content, quotedContent: c.quotedContent })),
           docTitle: syncResult.doc.title,
           lastModified: syncResult.doc.modifiedTime,
           message: syncResult.hasChanges 
@@ -2163,6 +2676,15 @@ Tell the user the character has been created and how to use it.`,
             : '✅ PDP synced. No changes.',
         });
       
+      case 'post_pdp_progress': {
+        if (!canWriteGoogleDocs()) return toolNotConfigured(GOOGLE_DOCS_NOT_WRITABLE);
+        if (!(await isPDPConfigured())) {
+          return toolNotConfigured('PDP not configured. Use set_pdp_google_doc first.');
+        }
+        const progressUpdate = await postPDPProgressUpdate(args.note as string | undefined);
+        return JSON.stringify({ success: true, ...progressUpdate });
+      }
+      
       case 'get_pdp_summary':
         const pdpSummary = await getPDPSummary();
         return pdpSummary;
@@ -2186,7 +2708,7 @@ Tell the user the character has been created and how to use it.`,
           notes: args.notes as string | undefined,
         });
         if (!updatedGoal) {
-          return JSON.stringify({ error: 'Goal not found' });
+          return toolFailure('not_found', 'Goal not found');
         }
         return JSON.stringify({
           success: true,
@@ -2232,7 +2754,7 @@ Tell the user the character has been created and how to use it.`,
       
       case 'collect_jira_achievements':
         if (!isJiraConfigured()) {
-          return JSON.stringify({ error: 'JIRA not configured' });
+          return toolNotConfigured('JIRA not configured');
         }
         const jiraUsername = args.username as string;
         const completedTickets = await getCompletedTicketsByUser(jiraUsername, {
@@ -2259,7 +2781,7 @@ Tell the user the character has been created and how to use it.`,
       
       case 'collect_confluence_achievements':
         if (!isConfluenceConfigured()) {
-          return JSON.stringify({ error: 'Confluence not configured' });
+          return toolNotConfigured('Confluence not configured');
         }
         const confUsername = args.username as string;
         const authoredPages = await searchPagesByAuthor(confUsername, {
@@ -2285,7 +2807,7 @@ Tell the user the character has been created and how to use it.`,
       
       case 'collect_google_docs_achievements':
         if (!isGoogleDocsConfigured()) {
-          return JSON.stringify({ error: 'Google Docs not configured. Set GOOGLE_ACCESS_TOKEN.' });
+          return toolNotConfigured(GOOGLE_DOCS_NOT_CONFIGURED);
         }
         const myDocs = await searchMyGoogleDocs(args.query as string | undefined);
         
@@ -2341,7 +2863,7 @@ Tell the user the character has been created and how to use it.`,
         const linkGoalResult = await linkAchievementToGoalPDP(args.goalId as string, args.achievementId as string);
         
         if (!linkAchResult) {
-          return JSON.stringify({ error: 'Achievement not found' });
+          return toolFailure('not_found', 'Achievement not found');
         }
         
         return JSON.stringify({
@@ -2356,6 +2878,64 @@ Tell the user the character has been created and how to use it.`,
         });
         return exported;
       
+      case 'write_brag_doc': {
+        if (!canWriteGoogleDocs()) return toolNotConfigured(GOOGLE_DOCS_NOT_WRITABLE);
+        const bragDoc = await writeBragDoc({
+          period: args.period as 'week' | 'month' | 'quarter' | 'year' | undefined,
+          docUrl: args.docUrl as string | undefined,
+          title: args.title as string | undefined,
+        });
+        return JSON.stringify({ success: true, ...bragDoc });
+      }
+      
+      // === GOOGLE DOCS TOOLS ===
+      case 'google_docs_get': {
+        if (!isGoogleDocsConfigured()) return toolNotConfigured(GOOGLE_DOCS_NOT_CONFIGURED);
+        const googleDoc = await getGoogleDoc(args.docUrl as string);
+        return JSON.stringify(googleDoc);
+      }
+      
+      case 'google_docs_get_comments': {
+        if (!isGoogleDocsConfigured()) return toolNotConfigured(GOOGLE_DOCS_NOT_CONFIGURED);
+        const docComments = await getGoogleDocComments(args.docUrl as string);
+        const visibleComments = args.includeResolved ? docComments : docComments.filter(c => !c.resolved);
+        return JSON.stringify({ comments: visibleComments, total: docComments.length });
+      }
+      
+      case 'google_docs_append': {
+        if (!canWriteGoogleDocs()) return toolNotConfigured(GOOGLE_DOCS_NOT_WRITABLE);
+        const appended = await appendToGoogleDoc(args.docUrl as string, args.text as string, {
+          heading: args.heading as string | undefined,
+        });
+        return JSON.stringify({ success: true, ...appended });
+      }
+      
+      case 'google_docs_reply_comment': {
+        if (!canWriteGoogleDocs()) return toolNotConfigured(GOOGLE_DOCS_NOT_WRITABLE);
+        const docReply = await replyToGoogleDocComment(args.docUrl as string, args.commentId as string, args.content as string, {
+          resolve: args.resolve as boolean | undefined,
+        });
+        return JSON.stringify({ success: true, ...docReply });
+      }
+      
+      case 'google_docs_resolve_comment': {
+        if (!canWriteGoogleDocs()) return toolNotConfigured(GOOGLE_DOCS_NOT_WRITABLE);
+        const resolvedComment = await resolveGoogleDocComment(
+          args.docUrl as string,
+          args.commentId as string,
+          args.content as string | undefined
+        );
+        return JSON.stringify({ success: true, ...resolvedComment });
+      }
+      
+      case 'google_docs_create': {
+        if (!canWriteGoogleDocs()) return toolNotConfigured(GOOGLE_DOCS_NOT_WRITABLE);
+        const createdDoc = await createGoogleDocFromMarkdown(args.title as string, args.markdown as string, {
+          folderId: args.folderId as string | undefined,
+        });
+        return JSON.stringify({ success: true, ...createdDoc });
+      }
+      
       // === SLACK BROWSER TOOLS ===
       case 'slack_open_browser':
         return JSON.stringify(await slackOpenBrowser(args.workspaceUrl as string));
@@ -2370,7 +2950,7 @@ Tell the user the character has been created and how to use it.`,
         return JSON.stringify(await slackNavigateToUrl(args.url as string));
       
       case 'slack_read_messages':
-        return JSON.stringify(await slackReadMessages(args.limit as number | undefined));
+        return JSON.stringify(await slackReadMessages(args.limit as number | undefined, args.before as string | undefined));
       
       case 'slack_search_channel_get_results':
         return JSON.stringify(await slackSearchChannelGetResults(args.searchQuery as string, args.pressEnter as boolean | undefined));
@@ -2382,10 +2962,10 @@ Tell the user the character has been created and how to use it.`,
         return JSON.stringify(await slackSendMessage(args.text as string));
       
       case 'slack_react_to_message':
-        return JSON.stringify(await slackReactToMessage(args.messageIndex as number, args.emoji as string));
+        return JSON.stringify(await slackReactToMessage(slackMessageTarget(args), args.emoji as string));
       
       case 'slack_read_thread':
-        return JSON.stringify(await slackReadThread(args.messageIndex as number));
+        return JSON.stringify(await slackReadThread(slackMessageTarget(args)));
       
       case 'slack_close_browser':
         return JSON.stringify(await slackCloseBrowser());
@@ -2408,6 +2988,7 @@ Tell the user the character has been created and how to use it.`,
         const scanResult = await scanWatchedChannels({
           vipOnly: args.vipOnly as boolean | undefined,
           scanOnlyMode: !(args.allowAutoResponse as boolean | undefined),
+          externalCommsModel: modelConfig?.externalCommsModel,
         });
         
         if (!scanResult.success) {
@@ -2901,11 +3482,115 @@ Tell the user the character has been created and how to use it.`,
       
       // === GITHUB PR COMMENTS ===
       case 'github_get_pr_comments': {
-        if (!isGitHubConfigured()) return JSON.stringify({ error: 'GitHub not configured' });
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
         const comments = await getPRComments(args.repoUrl as string, args.prNumber as number);
         return JSON.stringify(comments);
       }
       
+      // === GITHUB PR WRITES ===
+      case 'github_create_pr': {
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
+        const created = await createPullRequest(args.repoUrl as string, {
+          head: args.head as string,
+          title: args.title as string,
+          body: args.body as string | undefined,
+          base: args.base as string | undefined,
+          draft: args.draft as boolean | undefined,
+        });
+        return JSON.stringify({ success: true, number: created.number, url: created.url, base: created.base.ref, draft: created.draft });
+      }
+      
+      case 'github_update_pr': {
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
+        const repoUrl = args.repoUrl as string;
+        const prNumber = args.prNumber as number;
+        const { title, body, base, state } = args as { title?: string; body?: string; base?: string; state?: 'open' | 'closed' };
+        const updated: string[] = [];
+        if (title !== undefined || body !== undefined || base !== undefined || state !== undefined) {
+          await updatePullRequest(repoUrl, prNumber, { title, body, base, state });
+          updated.push(...Object.entries({ title, body, base, state }).filter(([, v]) => v !== undefined).map(([k]) => k));
+        }
+        if (typeof args.draft === 'boolean') {
+          await setPullRequestDraft(repoUrl, prNumber, args.draft);
+          updated.push('draft');
+        }
+        if (updated.length === 0) return toolFailure('invalid_input', 'Nothing to update');
+        return JSON.stringify({ success: true, prNumber, updated });
+      }
+      
+      case 'github_request_reviewers': {
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
+        const requested = await requestReviewers(
+          args.repoUrl as string,
+          args.prNumber as number,
+          args.reviewers as string[] | undefined,
+          args.teamReviewers as string[] | undefined
+        );
+        return JSON.stringify({ success: true, ...requested });
+      }
+      
+      case 'github_comment_on_pr': {
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
+        const comment = await addPRComment(args.repoUrl as string, args.prNumber as number, args.body as string);
+        return JSON.stringify({ success: true, id: comment.id, url: comment.html_url });
+      }
+      
+      case 'github_reply_to_review_comment': {
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
+        const reply = await replyToReviewComment(
+          args.repoUrl as string,
+          args.prNumber as number,
+          args.commentId as number,
+          args.body as string
+        );
+        return JSON.stringify({ success: true, id: reply.id, url: reply.html_url, inReplyTo: reply.in_reply_to_id });
+      }
+      
+      case 'github_resolve_review_thread': {
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
+        if (!args.threadId && args.commentId === undefined) {
+          return toolFailure('invalid_input', 'Provide threadId or commentId');
+        }
+        const thread = await resolveReviewThread(
+          args.repoUrl as string,
+          args.prNumber as number,
+          { threadId: args.threadId as string | undefined, commentId: args.commentId as number | undefined },
+          args.resolved !== false
+        );
+        return JSON.stringify({ success: true, ...thread });
+      }
+      
+      case 'github_submit_review': {
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
+        const event = args.event as ReviewEvent;
+        if (event !== 'APPROVE' && !args.body) {
+          return toolFailure('invalid_input', `A body is required for ${event} reviews`);
+        }
+        const review = await submitReview(args.repoUrl as string, args.prNumber as number, {
+          event,
+          body: args.body as string | undefined,
+          comments: args.comments as Array<{ path: string; line: number; body: string }> | undefined,
+        });
+        return JSON.stringify({ success: true, id: review.id, state: review.state, url: review.html_url });
+      }
+      
+      case 'github_add_labels': {
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
+        const labels = await addLabels(args.repoUrl as string, args.prNumber as number, args.labels as string[]);
+        return JSON.stringify({ success: true, labels });
+      }
+      
+      case 'github_merge_pr': {
+        if (!isGitHubConfigured(args.repoUrl as string)) return toolNotConfigured(FORGE_NOT_CONFIGURED);
+        const merge = await mergePullRequest(args.repoUrl as string, args.prNumber as number, {
+          method: args.method as MergeMethod | undefined,
+          commitTitle: args.commitTitle as string | undefined,
+          commitMessage: args.commitMessage as string | undefined,
+          sha: args.sha as string | undefined,
+        });
+        return JSON.stringify({ success: merge.merged, ...merge });
+      }
+      
       // === CURSOR TOOLS ===
       case 'cursor_set_cli_path': {
         const result = setCursorCliPath(args.path as string);
@@ -2922,6 +3607,54 @@ Tell the user the character has been created and how to use it.`,
         return JSON.stringify(result);
       }
       
+      case 'coding_agent_status': {
+        const context = { repoUrl: args.repoUrl as string | undefined, workstreamId };
+        const [configured, effective, preferences] = await Promise.all([
+          getConfiguredCodingAgent(context),
+          resolveCodingAgent(context),
+          getCodingAgentPreferences(),
+        ]);
+        const backends = await Promise.all(CODING_AGENT_BACKENDS.map(async backend => {
+          const agent = getCodingAgent(backend);
+          return { backend, name: agent.displayName, available: await agent.isAvailable(), busyWith: agent.busyWith(workstreamId) || undefined };
+        }));
+        return JSON.stringify({
+          effective: effective.backend,
+          source: configured.source,
+          backends,
+          preferences,
+        });
+      }
+      
+      case 'coding_agent_set': {
+        const backendArg = args.backend as CodingAgentBackend | 'auto';
+        const scope = args.scope as CodingAgentScope;
+        const repoUrlArg = args.repoUrl as string | undefined;
+        let key: string | undefined;
+        if (scope === 'repo') {
+          if (!repoUrlArg) return toolFailure('invalid_input', 'repoUrl is required for scope "repo"');
+          key = normalizeRepoKey(repoUrlArg);
+        } else if (scope === 'workstream') {
+          if (!workstreamId) return toolFailure('invalid_input', 'No current workstream - use scope "repo" or "default"');
+          key = workstreamId;
+        }
+        if (args.commandTemplate) {
+          await setCodingAgentCommandTemplate(args.commandTemplate as string);
+        }
+        await setCodingAgentPreference(scope, backendArg === 'auto' ? null : backendArg, key);
+        const nowUsing = await resolveCodingAgent({ repoUrl: repoUrlArg, workstreamId });
+        return JSON.stringify({
+          success: true,
+          scope,
+          key,
+          backend: backendArg,
+          effective: nowUsing.backend,
+          warning: backendArg !== 'auto' && !(await getCodingAgent(backendArg).isAvailable())
+            ? `${getCodingAgent(backendArg).displayName} is not available on this machine - runs will fail until it is installed/configured`
+            : undefined,
+        });
+      }
+      
       // === ADDITIONAL SLACK TOOLS ===
       case 'slack_list_channels': {
         const result = await slackListChannels();
@@ -2939,12 +3672,12 @@ Tell the user the character has been created and how to use it.`,
       }
       
       case 'slack_reply': {
-        const result = await slackReplyToMessage(args.messageIndex as number, args.replyText as string);
+        const result = await slackReplyToMessage(slackMessageTarget(args), args.replyText as string);
         return JSON.stringify(result);
       }
       
       case 'slack_get_message_url': {
-        const result = await slackGetMessageUrl(args.messageIndex as number);
+        const result = await slackGetMessageUrl(slackMessageTarget(args));
         return JSON.stringify(result);
       }
       
@@ -2964,16 +3697,42 @@ Tell the user the character has been created and how to use it.`,
       }
       
       case 'slack_react': {
-        const result = await slackReactToMessage(args.messageIndex as number, args.emoji as string);
+        const result = await slackReactToMessage(slackMessageTarget(args), args.emoji as string);
+        return JSON.stringify(result);
+      }
+      
+      case 'slack_search_messages': {
+        const result = await slackSearchMessages(args.query as string, args.limit as number | undefined);
         return JSON.stringify(result);
       }
       
       default:
-        return JSON.stringify({ error: `Unknown tool: ${toolName}` });
+        return toolFailure('unknown_tool', `Unknown tool: ${toolName}`);
     }
   } catch (error) {
-    return JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' });
+    return toolResultFromError(error);
+  }
+}
+
+/**
+ * Execute a tool and classify the outcome
+ */
+async function executeTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  includeDatadog: boolean,
+  workstreamId?: string,
+  modelConfig?: ModelConfig
+): Promise<ToolResult> {
+  let output: string | ToolResult;
+  try {
+    output = isPluginTool(toolName)
+      ? await executePluginTool(toolName, args, { workstreamId })
+      : await dispatchTool(toolName, args, includeDatadog, workstreamId, modelConfig);
+  } catch (error) {
+    return toolResultFromError(error);
   }
+  return typeof output === 'string' ? toolResultFromOutput(output) : output;
 }
 
 // Get tools based on config
@@ -3033,15 +3792,40 @@ function getTools(includeDatadog: boolean) {
     jiraBoardTool,
     jiraAddCommentTool,
     jiraCreateTicketTool,
+    jiraGetTransitionsTool,
+    jiraTransitionTicketTool,
+    jiraAssignTicketTool,
+    jiraLogWorkTool,
+    jiraUpdateFieldsTool,
+    jiraLinkTicketsTool,
+    jiraCreateSubtaskTool,
     // Confluence
     confluenceSearchTool,
     confluenceCreatePageTool,
     confluenceListSpacesTool,
     confluenceGetPageTool,
     confluenceGetCommentsTool,
+    confluenceUpdatePageTool,
+    confluenceGetVersionsTool,
+    confluenceDiffVersionsTool,
+    confluenceReplyToCommentTool,
+    confluenceUpdateLabelsTool,
     firehydrantSearchIncidentsTool,
     firehydrantGetIncidentTool,
     firehydrantRecentIncidentsTool,
+    firehydrantGetTimelineTool,
+    firehydrantAddNoteTool,
+    firehydrantGetRolesTool,
+    firehydrantAssignRoleTool,
+    firehydrantUpdateIncidentTool,
+    firehydrantGetRunbooksTool,
+    firehydrantIncidentChangesTool,
+    oncallWhoIsOnCallTool,
+    oncallListPagesTool,
+    oncallGetPageTool,
+    oncallAcknowledgePageTool,
+    oncallResolvePageTool,
+    oncallAddNoteTool,
     
     // === SLACK BROWSER TOOLS (for reading/sending Slack messages) ===
     slackOpenBrowserTool,
@@ -3067,6 +3851,7 @@ function getTools(includeDatadog: boolean) {
     slackCloseThreadTool,
     slackDebugScrollTool,
     slackScrollSidebarTool,
+    slackSearchMessagesTool,
     
     // === SLACK ADVICE MONITORING (background scanning) ===
     adviceMonitoringScanTool,
@@ -3105,6 +3890,15 @@ function getTools(includeDatadog: boolean) {
     githubSearchPRsByAuthorTool,
     githubGetPRChecksTool,
     githubGetPRCommentsTool,
+    githubCreatePRTool,
+    githubUpdatePRTool,
+    githubRequestReviewersTool,
+    githubCommentOnPRTool,
+    githubReplyToReviewCommentTool,
+    githubResolveReviewThreadTool,
+    githubSubmitReviewTool,
+    githubAddLabelsTool,
+    githubMergePRTool,
     
     // PR Tracking (automated CI fix workflow)
     prWatchStartTool,
@@ -3112,6 +3906,8 @@ function getTools(includeDatadog: boolean) {
     prWatchStatusTool,
     prProvideLogsTool,
     prSquashCommitsTool,
+    prFlakyChecksTool,
+    prWatchConfigureTool,
     
     // === WEB BROWSING ===
     fetchUrlTool,
@@ -3136,9 +3932,18 @@ function getTools(includeDatadog: boolean) {
     // === CHARACTER MANAGEMENT ===
     ...getCharacterTools(),
     
+    // === GOOGLE DOCS ===
+    googleDocsGetTool,
+    googleDocsGetCommentsTool,
+    googleDocsAppendTool,
+    googleDocsReplyCommentTool,
+    googleDocsResolveCommentTool,
+    googleDocsCreateTool,
+    
     // === PDP (Personal Development Plan) ===
     setPDPGoogleDocTool,
     syncPDPTool,
+    postPDPProgressTool,
     getPDPSummaryTool,
     addPDPGoalTool,
     updatePDPGoalTool,
@@ -3155,6 +3960,7 @@ function getTools(includeDatadog: boolean) {
     listAchievementsTool,
     linkAchievementToGoalTool,
     exportAchievementsTool,
+    writeBragDocTool,
     approveRecommendationTool,
     
     // === PROFILE / CV / LINKEDIN ===
@@ -3208,6 +4014,8 @@ function getTools(includeDatadog: boolean) {
     cursorVerifyChangesTool,
     cursorForceCleanupTool,
     cursorSetCliPathTool,
+    codingAgentStatusTool,
+    codingAgentSetTool,
     
     // === PROJECT KNOWLEDGE (on-demand, not always injected) ===
     projectRememberTool,
@@ -3225,6 +4033,18 @@ function getTools(includeDatadog: boolean) {
       datadogSearchLogsTool,
       datadogGetMonitorsTool,
       datadogGetRequestTraceTool,
+      datadogSearchTracesTool,
+      datadogGetTraceTool,
+      datadogSearchErrorIssuesTool,
+      datadogGetErrorIssueTool,
+      datadogListDowntimesTool,
+      datadogGetMonitorHistoryTool,
+      datadogSearchSlosTool,
+      datadogGetSloStatusTool,
+      datadogMuteMonitorTool,
+      datadogUnmuteMonitorTool,
+      datadogScheduleDowntimeTool,
+      datadogCancelDowntimeTool,
       datadogQueryMetricsTool,
       // DBM tools (use metrics API - no public DBM API exists)
       datadogDbmQueryMetricsTool,
@@ -3233,6 +4053,9 @@ function getTools(includeDatadog: boolean) {
     );
   }
   
+  // Tools registered by plugins (empty until loadPlugins has run)
+  tools.push(...getPluginTools());
+  
   return tools;
 }
 
@@ -3801,95 +4624,215 @@ function sanitizeMessagesForGemini(messages: BaseMessage[]): BaseMessage[] {
   });
 }
 
+function formatCompactionReport(report: CompactionReport): string {
+  const parts: string[] = [];
+  if (report.offloaded > 0) parts.push(`${report.offloaded} large result${report.offloaded === 1 ? '' : 's'} saved to files`);
+  if (report.summarized > 0) parts.push(`${report.summarized} old messages summarized`);
+  if (report.dropped > 0) parts.push(`${report.dropped} old messages dropped`);
+  const k = (tokens: number) => `${Math.round(tokens / 1000)}k`;
+  return `🗜 Context compacted ${k(report.beforeTokens)} → ${k(report.afterTokens)} tokens (${parts.join(', ') || 'no changes'})`;
+}
+
 // Compile the agent graph
-async function compileAgent(includeDatadog: boolean, onProgress?: ProgressCallback | null, workstreamId?: string) {
-  const model = createModel();
+async function compileAgent(
+  includeDatadog: boolean,
+  onProgress?: ProgressCallback | null,
+  workstreamId?: string,
+  modelConfig?: ModelConfig,
+  harness?: AgentHarness | null,
+  getApprovalHandler?: () => ApprovalHandler | null,
+  getContext?: () => Pick<ConversationState, 'countTokens' | 'budget'> | null,
+  getResponseCallback?: () => ResponseCallback | null,
+  getToolResultCallback?: () => ToolResultCallback | null
+) {
+  // A replay harness supplies a fake model; otherwise go through the provider layer
+  const model = harness?.createModel?.() ?? createModel(modelConfig?.standardModel);
   const tools = getTools(includeDatadog);
+  if (!model.bindTools) {
+    throw new Error(`Model "${resolveStandardModel(modelConfig?.standardModel)}" does not support tool calling`);
+  }
   const modelWithTools = model.bindTools(tools);
   
   let iterationCount = 0;
+  const offloadToolResult = createToolResultOffloader(workstreamId);
+  const modelSpec = getChatModelSpec(model);
+  // Tools whose results the next model step reads - that step's tokens are attributed to them
+  let pendingToolNames: string[] = [];
   
-  async function agent(state: typeof MessagesAnnotation.State) {
+  async function agent(state: typeof MessagesAnnotation.State, config?: { signal?: AbortSignal }) {
     iterationCount++;
     onProgress?.(`Thinking... (step ${iterationCount})`);
     // Sanitize messages to ensure none have empty content (Gemini requires parts field)
-    const sanitizedMessages = sanitizeMessagesForGemini(state.messages);
-    const response = await modelWithTools.invoke(sanitizedMessages);
+    let sanitizedMessages = sanitizeMessagesForGemini(state.messages);
+    
+    // Tool-heavy turns can outgrow the context before the turn ends - move large results
+    // out of this request (the full compaction with a summary runs between turns)
+    // Older turns may be dropped, but never the request this turn is answering
+    const context = getContext?.();
+    if (context?.budget) {
+      const { state: compacted, report } = await compactConversation(
+        restoreConversation(sanitizedMessages, context),
+        { offloadToolResult, keepLatestRequest: true }
+      );
+      if (report) {
+        onProgress?.(formatCompactionReport(report));
+        sanitizedMessages = compacted.messages;
+      }
+    }
+    
+    // Stream tokens to the UI when someone is listening (interrupt aborts mid-stream)
+    const onText = getResponseCallback?.();
+    const response = onText
+      ? await streamModelResponse(modelWithTools, sanitizedMessages, onText, config?.signal)
+      : await modelWithTools.invoke(sanitizedMessages);
+    harness?.onModelCall?.(sanitizedMessages, response);
+    if (modelSpec) {
+      recordModelUsage(modelSpec, 'agent', response, pendingToolNames);
+    }
+    pendingToolNames = [];
     return { messages: [response] };
   }
   
-  // Read-only tools that are safe to cache
-  const cacheableTools = new Set([
-    'jira_get_ticket', 'jira_search', 'jira_unassigned_tickets', 'jira_backlog', 
-    'jira_board', 'jira_user_completed', 'jira_user_reported', 'jira_user_stats',
-    'confluence_search', 'confluence_get_page', 'github_search', 'github_get_file',
-    'github_list_prs', 'github_get_pr', 'github_repo_info', 'firehydrant_list_incidents',
-    'firehydrant_get_incident', 'firehydrant_search_runbooks', 'datadog_query_logs',
-    'datadog_query_metrics', 'datadog_list_monitors', 'datadog_search_dashboards',
-    'project_search', 'project_get', 'project_list', 'get_pdp_summary',
-    'list_achievements', 'get_achievements_summary', 'list_tasks', 'get_task'
-  ]);
+  // Execute a tool, letting the harness stub it (replay) or observe the result (record)
+  // Write-external tools wait for user approval first and may run with edited args
+  async function runTool(name: string, callArgs: Record<string, unknown>, callId: string): Promise<ToolResult> {
+    const approval = await requestToolApproval(name, callArgs, getApprovalHandler?.(), workstreamId);
+    if (!approval.proceed) {
+      onProgress?.(`✗ ${name} rejected by user`);
+      harness?.onToolResult?.({ id: callId, name, args: callArgs }, approval.result);
+      return toolResultFromOutput(approval.result);
+    }
+    const args = approval.args;
+    const stubbed = harness?.executeTool ? await harness.executeTool(name, args, callId) : null;
+    // Model calls made inside the tool (extractors, drafting) are attributed to it
+    const result = stubbed !== null
+      ? toolResultFromOutput(stubbed)
+      : await withUsageContext({ tool: name }, () => executeTool(name, args, includeDatadog, workstreamId, modelConfig));
+    harness?.onToolResult?.({ id: callId, name, args }, result.data);
+    return result;
+  }
+  
+  // Resolve one tool call: cache lookup, in-flight dedupe, then execution
+  // Identical cacheable calls in the same batch share one execution
+  async function resolveToolCall(
+    call: { name: string; args: Record<string, unknown>; id: string },
+    parallel: boolean,
+    inFlight: Map<string, Promise<ToolResult>>
+  ): Promise<{ result: ToolResult; fromCache: boolean }> {
+    const argsPreview = JSON.stringify(call.args).substring(0, 50);
+    const label = `${call.name}(${argsPreview}${argsPreview.length >= 50 ? '...' : ''})`;
+    // Recording/replay must see every call, so the cache is bypassed under a harness
+    const cachePolicy = harness ? undefined : getToolCachePolicy(call.name);
+    const cacheable = !!cachePolicy;
+    
+    if (cacheable) {
+      const cached = await getCachedToolResult(call.name, call.args);
+      if (cached) {
+        onProgress?.(`→ ${label} [cached]`);
+        return { result: toolSuccess(cached), fromCache: true };
+      }
+      const pending = inFlight.get(getToolCacheKey(call.name, call.args));
+      if (pending) {
+        onProgress?.(`→ ${label} [deduplicated]`);
+        return { result: await pending, fromCache: true };
+      }
+    }
+    
+    onProgress?.(`→ ${label}${parallel ? ' [parallel]' : ''}`);
+    const execution = parallel
+      ? withToolTimeout(call.name, runTool(call.name, call.args, call.id), getToolTimeout(call.name))
+      : runTool(call.name, call.args, call.id);
+    
+    if (cacheable) {
+      inFlight.set(getToolCacheKey(call.name, call.args), execution);
+    }
+    const result = await execution;
+    
+    // Cache successful results for future use (failures are worth retrying)
+    if (cachePolicy && result.ok) {
+      await cacheToolResult(call.name, call.args, result.data, cachePolicy.ttlMs);
+    }
+    
+    // Drop cached reads this call made stale
+    const invalidated = await invalidateToolResults(getToolInvalidations(call.name), call.args);
+    if (invalidated > 0) {
+      onProgress?.(`  ↺ Invalidated ${invalidated} cached result${invalidated === 1 ? '' : 's'}`);
+    }
+    return { result, fromCache: false };
+  }
   
   async function toolExecutor(state: typeof MessagesAnnotation.State) {
     const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
-    const toolCalls = lastMessage.tool_calls || [];
+    const toolCalls = (lastMessage.tool_calls || []).map(call => ({
+      name: call.name,
+      args: call.args as Record<string, unknown>,
+      id: call.id || '',
+    }));
     
     const toolResults: ToolMessage[] = [];
+    pendingToolNames = toolCalls.map(call => call.name);
     
-    for (const call of toolCalls) {
-      const args = call.args as Record<string, unknown>;
-      const argsPreview = JSON.stringify(args).substring(0, 50);
-      
-      // Check cache first for read-only tools
-      let result: string;
-      let fromCache = false;
-      
-      if (cacheableTools.has(call.name)) {
-        const cached = getCachedToolResult(call.name, args);
-        if (cached) {
-          result = cached;
-          fromCache = true;
-          onProgress?.(`→ ${call.name}(${argsPreview}${argsPreview.length >= 50 ? '...' : ''}) [cached]`);
-        } else {
-          onProgress?.(`→ ${call.name}(${argsPreview}${argsPreview.length >= 50 ? '...' : ''})`);
-          result = await executeTool(call.name, args, includeDatadog, workstreamId);
-          // Cache the result for future use
-          cacheToolResult(call.name, args, result);
-        }
-      } else {
-        onProgress?.(`→ ${call.name}(${argsPreview}${argsPreview.length >= 50 ? '...' : ''})`);
-        result = await executeTool(call.name, args, includeDatadog, workstreamId);
-      }
-      
-      // Track tool call and check for errors + circuit breaker
-      const isError = result.includes('"error"');
-      const circuitBreaker = trackToolCall(call.name, isError);
-      
-      // Log result preview (only for non-cached results)
-      if (!fromCache && isError) {
-        onProgress?.(`  ✗ Error in result`);
-      }
+    // Independent read-only calls run concurrently; writes stay serialized and in order
+    for (const batch of planToolBatches(toolCalls)) {
+      const inFlight = new Map<string, Promise<ToolResult>>();
+      const parallel = batch.parallel && batch.items.length > 1;
+      const outcomes = await mapWithConcurrency(
+        batch.items,
+        parallel ? MAX_PARALLEL_TOOL_CALLS : 1,
+        item => resolveToolCall(item.call, parallel, inFlight)
+      );
       
-      // Circuit breaker: inject error message and stop if triggered
-      if (circuitBreaker.shouldStop) {
-        onProgress?.(`🛑 ${circuitBreaker.reason}`);
+      // Track results in the original call order so circuit breaker behaviour is deterministic
+      for (let i = 0; i < batch.items.length; i++) {
+        const { call } = batch.items[i];
+        const { result, fromCache } = outcomes[i];
+        
+        // Track tool call and check for errors + circuit breaker
+        // A rejection is the user's decision, not a malfunctioning tool
+        const isError = !result.ok && result.errorCode !== 'rejected';
+        const circuitBreaker = trackToolCall(call.name, isError);
+        getToolResultCallback?.()?.(call.name, result);
+        
+        // Log the failure (only for non-cached results)
+        if (!fromCache && isError) {
+          onProgress?.(`  ✗ ${call.name}: ${(result.message || 'failed').substring(0, 120)}${result.retryable ? ' (retryable)' : ''}`);
+        }
+        
+        // Circuit breaker: inject error message and stop if triggered
+        if (circuitBreaker.shouldStop) {
+          onProgress?.(`🛑 ${circuitBreaker.reason}`);
+          toolResults.push(new ToolMessage({
+            tool_call_id: call.id,
+            content: `CIRCUIT BREAKER: ${circuitBreaker.reason}. STOP making tool calls and explain to the user what went wrong.`,
+          }));
+          // Every tool call still needs a result: the rest of this batch already ran, later batches never will
+          for (let j = i + 1; j < batch.items.length; j++) {
+            getToolResultCallback?.()?.(batch.items[j].call.name, outcomes[j].result);
+            toolResults.push(new ToolMessage({
+              tool_call_id: batch.items[j].call.id,
+              content: outcomes[j].result.data,
+            }));
+          }
+          const answered = new Set(toolResults.map(message => message.tool_call_id));
+          for (const skipped of toolCalls.filter(c => !answered.has(c.id))) {
+            toolResults.push(new ToolMessage({
+              tool_call_id: skipped.id,
+              content: `SKIPPED: ${skipped.name} did not run - the circuit breaker stopped this turn's tool calls.`,
+            }));
+          }
+          return { messages: toolResults };
+        }
+        
+        // Report milestone every 10 calls (helps identify runaway loops early)
+        if (_toolCallTracker && _toolCallTracker.totalCalls % 10 === 0) {
+          onProgress?.(`📊 Tool calls: ${_toolCallTracker.totalCalls} (${Object.keys(_toolCallTracker.callsByTool).length} unique tools)`);
+        }
+        
         toolResults.push(new ToolMessage({
-          tool_call_id: call.id || '',
-          content: `CIRCUIT BREAKER: ${circuitBreaker.reason}. STOP making tool calls and explain to the user what went wrong.`,
+          tool_call_id: call.id,
+          content: result.data,
         }));
-        // Return early with all results so far + the circuit breaker message
-        return { messages: toolResults };
-      }
-      
-      // Report milestone every 10 calls (helps identify runaway loops early)
-      if (_toolCallTracker && _toolCallTracker.totalCalls % 10 === 0) {
-        onProgress?.(`📊 Tool calls: ${_toolCallTracker.totalCalls} (${Object.keys(_toolCallTracker.callsByTool).length} unique tools)`);
       }
-      
-      toolResults.push(new ToolMessage({
-        tool_call_id: call.id || '',
-        content: result,
-      }));
     }
     
     return { messages: toolResults };
@@ -3916,6 +4859,18 @@ async function compileAgent(includeDatadog: boolean, onProgress?: ProgressCallba
 // Progress callback type
 export type ProgressCallback = (message: string) => void;
 
+// Outcome of each tool call, in call order (cached results included)
+export type ToolResultCallback = (toolName: string, result: ToolResult) => void;
+
+export interface ChatResult {
+  response: string;
+  tokenStats: { estimated: number; turns: number; messageCount: number };
+  interrupted?: boolean;
+  hitRecursionLimit?: boolean;
+  // True when the response was already delivered through the response callback
+  streamed?: boolean;
+}
+
 // Conversation state detection helpers for smart reminders
 function isActiveQuestion(message: string): boolean {
   const questionPatterns = [
@@ -3951,6 +4906,12 @@ export class WorkAgentSession {
   private agent: Awaited<ReturnType<typeof compileAgent>> | null = null;
   private includeDatadog: boolean;
   private onProgress: ProgressCallback | null = null;
+  private onToolResult: ToolResultCallback | null = null;
+  private pluginErrorsReported: boolean = false;
+  
+  // Streamed answer text (null = not streaming); the last step's text is kept for interrupts
+  private onResponse: ResponseCallback | null = null;
+  private streamedStep: { text: string; done: boolean } | null = null;
   private personality: PersonalityConfig;
   private character: CharacterConfig;
   private turnsSinceReminder: number = 0;
@@ -3959,6 +4920,18 @@ export class WorkAgentSession {
   // Workstream context for cursor session isolation
   private workstreamId: string | undefined;
   
+  // Per-workstream model selection (provider specs)
+  private modelConfig: ModelConfig | undefined;
+  
+  // Record/replay harness (undefined = not yet resolved from env)
+  private harness: AgentHarness | null | undefined = undefined;
+  
+  // Asks the user before write-external tool calls (null = headless, run without asking)
+  private approvalHandler: ApprovalHandler | null = null;
+  
+  // Model spec the conversation's token budget was computed for
+  private contextBudgetModel: string | null = null;
+  
   // Interrupt support
   private abortController: AbortController | null = null;
   private isRunning: boolean = false;
@@ -3997,10 +4970,61 @@ export class WorkAgentSession {
     this.workstreamId = workstreamId;
   }
   
+  /**
+   * Set the model configuration for this session
+   * Forces a recompile so the next chat uses the new provider/model
+   */
+  setModelConfig(modelConfig: ModelConfig | undefined): void {
+    this.modelConfig = modelConfig;
+    this.agent = null;
+  }
+  
+  /**
+   * Attach a record/replay harness (overrides WORK_AGENT_RECORD / WORK_AGENT_REPLAY)
+   * Forces a recompile so the graph picks up the harness
+   */
+  setHarness(harness: AgentHarness | null): void {
+    this.harness = harness;
+    this.agent = null;
+  }
+  
+  /**
+   * Set the handler that approves write-external tool calls
+   * Read on every call, so no recompile is needed
+   */
+  setApprovalHandler(handler: ApprovalHandler | null): void {
+    this.approvalHandler = handler;
+  }
+  
   setProgressCallback(callback: ProgressCallback | null): void {
     this.onProgress = callback;
   }
   
+  /**
+   * Stream model text as it arrives - called with the current step's text so far,
+   * then once with done=true when the step finishes
+   */
+  setResponseCallback(callback: ResponseCallback | null): void {
+    this.onResponse = callback;
+  }
+  
+  private handleStreamedText = (text: string, done: boolean): void => {
+    this.streamedStep = { text, done };
+    this.onResponse?.(text, done);
+  };
+  
+  // Read through a method so checks after a graph run see what the stream set
+  private getStreamedStep(): { text: string; done: boolean } | null {
+    return this.streamedStep;
+  }
+  
+  /**
+   * Receive each tool call's structured outcome (for live progress displays)
+   */
+  setToolResultCallback(callback: ToolResultCallback | null): void {
+    this.onToolResult = callback;
+  }
+  
   setChecklistCallback(callback: ((checklist: AgentChecklist | null) => void) | null): void {
     this.onChecklistUpdate = callback;
   }
@@ -4058,15 +5082,49 @@ export class WorkAgentSession {
         console.log(`[MODULES] Initial system prompt: ~${estimatedTokens} tokens (${systemPrompt.length} chars)`);
       }
     }
+    await this.resolveHarness();
+    await this.registerPlugins();
     if (!this.agent) {
       // Check for abort before expensive operation
       if (this.abortController?.signal.aborted) {
         throw new Error('Aborted during initialization');
       }
-      this.agent = await compileAgent(this.includeDatadog, this.onProgress, this.workstreamId);
+      this.agent = await compileAgent(
+        this.includeDatadog, this.onProgress, this.workstreamId, this.modelConfig, this.harness,
+        () => this.approvalHandler, () => this.conversation,
+        () => this.onResponse ? this.handleStreamedText : null,
+        () => this.onToolResult
+      );
     }
   }
   
+  /**
+   * Load plugin tools and prompt modules before the agent is compiled
+   * Skipped under a record/replay harness so fixtures only see built-in tools
+   */
+  private async registerPlugins(): Promise<void> {
+    if (this.harness) return;
+    const report = await loadPlugins();
+    if (!this.pluginErrorsReported) {
+      this.pluginErrorsReported = true;
+      for (const { source, error } of report.errors) {
+        this.onProgress?.(`⚠️ Plugin ${source} failed to load: ${error}`);
+      }
+    }
+  }
+  
+  /**
+   * Resolve the record/replay harness from env once, unless one was set explicitly
+   */
+  private async resolveHarness(): Promise<void> {
+    if (this.harness !== undefined) return;
+    this.harness = await createHarnessFromEnv({
+      model: resolveStandardModel(this.modelConfig?.standardModel),
+      includeDatadog: this.includeDatadog,
+      workstreamId: this.workstreamId,
+    });
+  }
+  
   /**
    * Update system message with new modules (prevents duplication)
    * Only loads modules that haven't been loaded yet
@@ -4174,6 +5232,13 @@ export class WorkAgentSession {
           moduleContent.push(cursorContext);
           this.loadedModules.add('cursor');
           break;
+        default: {
+          const pluginContent = getPluginPromptModuleContent(module);
+          if (pluginContent) {
+            moduleContent.push(pluginContent);
+            this.loadedModules.add(module);
+          }
+        }
       }
     }
     
@@ -4197,15 +5262,55 @@ export class WorkAgentSession {
     }
   }
   
-  async chat(userMessage: string): Promise<{
-    response: string;
-    tokenStats: { estimated: number; turns: number; messageCount: number };
-    interrupted?: boolean;
-    hitRecursionLimit?: boolean;
-  }> {
+  /**
+   * Make sure the conversation counts tokens for the current model
+   */
+  private async ensureContextBudget(): Promise<void> {
+    if (!this.conversation) return;
+    const modelSpec = resolveStandardModel(this.modelConfig?.standardModel);
+    if (this.contextBudgetModel === modelSpec && this.conversation.budget) return;
+    
+    const { countTokens, budget } = await resolveContextBudget(modelSpec, getTools(this.includeDatadog));
+    this.conversation = setConversationBudget(this.conversation, countTokens, budget);
+    this.contextBudgetModel = modelSpec;
+  }
+  
+  /**
+   * Compact the conversation if it is over budget: offload large tool results to
+   * workspace files, then summarize the oldest turns
+   */
+  private async compactContext(): Promise<void> {
+    await this.ensureContextBudget();
+    if (!this.conversation) return;
+    
+    // The system message is rewritten when modules load - recount (per-message counts are cached)
+    this.conversation = {
+      ...this.conversation,
+      tokenEstimate: countMessagesTokens(this.conversation.messages, this.conversation.countTokens),
+    };
+    if (!needsCompaction(this.conversation)) return;
+    
+    // A summary call would not be in a recorded fixture, so record/replay drops old turns instead
+    const { state, report } = await compactConversation(this.conversation, {
+      offloadToolResult: createToolResultOffloader(this.workstreamId),
+      summarize: this.harness ? undefined : createConversationSummarizer(createModel(this.modelConfig?.standardModel)),
+    });
+    this.conversation = state;
+    if (report) {
+      this.onProgress?.(formatCompactionReport(report));
+    }
+  }
+  
+  async chat(userMessage: string): Promise<ChatResult> {
+    // Attribute every model call made during this turn to the workstream
+    return withUsageContext({ workstreamId: this.workstreamId }, () => this.runChat(userMessage));
+  }
+  
+  private async runChat(userMessage: string): Promise<ChatResult> {
     // Set up abort controller FIRST so interrupt can work even during initialize
     this.abortController = new AbortController();
     this.isRunning = true;
+    this.streamedStep = null;
     
     // Reset tool call tracking for this request (helps debug runaway loops)
     resetToolCallTracker();
@@ -4277,7 +5382,6 @@ User's question: ${userMessage}`;
         }
         this.lastIncompleteTask = null;
         clearCurrentInvestigation();
-        clearToolResultCache();
       }
       
       // Inject context if user explicitly wants to continue
@@ -4336,8 +5440,9 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
       // Detect what additional context modules are needed based on user message
       const contextTypes = detectContextTypes(userMessage);
       
-      // Combine heuristic + context detection modules and DEDUPLICATE
-      const allNeededModules = [...new Set([...heuristicResult.modules, ...contextTypes])];
+      // Combine heuristic + context detection + plugin keyword modules and DEDUPLICATE
+      const pluginModules = matchPluginPromptModules(userMessage);
+      const allNeededModules = [...new Set([...heuristicResult.modules, ...contextTypes, ...pluginModules])];
       
       // Filter to only NEW modules that haven't been loaded yet
       const newModules = allNeededModules.filter(m => !this.loadedModules.has(m));
@@ -4364,6 +5469,10 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
       // Add CLEAN user message (no module prefix - modules are now in system message)
       // This prevents duplication in conversation history
       this.conversation = addUserMessage(this.conversation, actualMessage);
+      this.harness?.onTurnStart?.(userMessage);
+      
+      // Summarize/offload old context before it can overflow the model
+      await this.compactContext();
       
       // Run agent with abort signal and recursion limit to prevent infinite loops
       const result = await this.agent!.invoke(
@@ -4380,8 +5489,8 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
     // Add new messages to conversation
     this.conversation = addMessages(this.conversation, newMessages);
     
-    // Trim if too long
-    this.conversation = trimConversation(this.conversation, 100);
+    // Keep the conversation within the model's token budget for the next turn
+    await this.compactContext();
     
     // Extract final response - handle different content formats
     const lastMessage = result.messages[result.messages.length - 1];
@@ -4429,9 +5538,16 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
       response = 'Task completed. Check WORK_DIRS/ for any created files.';
     }
     
+    await this.harness?.onTurnEnd?.(response);
+    
+    // The final step was streamed if its text is what the callback last finished
+    const lastStep = this.getStreamedStep();
+    const streamed = !!lastStep?.done && lastStep.text === extractText(lastMessage.content);
+    
     return {
       response,
       tokenStats: getTokenStats(this.conversation),
+      streamed,
     };
     } catch (error) {
       // CRITICAL: Clean up conversation state on ALL errors to prevent corruption
@@ -4440,6 +5556,8 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
       
       // Check if this was an abort
       if (this.abortController?.signal.aborted) {
+        this.keepInterruptedAnswer();
+        
         // DON'T clear the checklist on abort - keep it so agent can resume
         // The checklist shows what was in progress, helping the agent continue
         const checklistHint = this.currentChecklist 
@@ -4478,8 +5596,12 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
           this.conversation!.messages.push(summaryPrompt);
           
           // Create a fresh model WITHOUT tool binding to prevent more tool calls
-          const summaryModel = createModel();
+          const summaryModel = this.harness?.createModel?.() ?? createModel(this.modelConfig?.standardModel);
           const summaryResponse = await summaryModel.invoke(this.conversation!.messages);
+          const summarySpec = getChatModelSpec(summaryModel);
+          if (summarySpec) {
+            recordModelUsage(summarySpec, 'summary', summaryResponse);
+          }
           
           // Extract the text response
           const summaryText = typeof summaryResponse.content === 'string' 
@@ -4528,17 +5650,36 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
   
   async reset(): Promise<void> {
     const systemPrompt = await getInitialSystemPrompt(this.personality, this.character, this.includeDatadog);
-    this.conversation = resetConversation(systemPrompt);
+    this.conversation = resetConversation(systemPrompt, this.conversation ?? undefined);
     this.turnsSinceReminder = 0;
-    // Clear the checklist, tool cache, investigation state, and loaded modules on reset (starting fresh)
+    // Clear the checklist, investigation state, and loaded modules on reset (starting fresh)
+    // Cached tool results are shared across sessions and expire on their own TTL
     this.updateChecklist(null);
     this.lastIncompleteTask = null;
-    clearToolResultCache();
     clearCurrentInvestigation();
     this.loadedModules.clear();
     this.moduleLoadTimestamp = Date.now();
   }
   
+  /**
+   * Keep a partially streamed answer after an interrupt: close the stream in the UI
+   * and record the text so the next turn knows what was already said
+   */
+  private keepInterruptedAnswer(): void {
+    const step = this.getStreamedStep();
+    const partial = step?.text.trim();
+    if (!step || !partial || !this.conversation) return;
+    
+    if (!step.done) {
+      this.onResponse?.(step.text, true);
+    }
+    
+    const lastMsg = this.conversation.messages[this.conversation.messages.length - 1];
+    if (lastMsg?._getType?.() === 'human') {
+      this.conversation = addMessages(this.conversation, [new AIMessage(`${partial}\n\n[Interrupted by user]`)]);
+    }
+  }
+  
   /**
    * Clean up conversation state after an error
    * Removes AI messages with pending tool_calls that weren't answered
@@ -4565,7 +5706,7 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
   async setPersonality(personalityType: PersonalityType): Promise<void> {
     this.personality = getPersonalityConfig(personalityType);
     const systemPrompt = await getInitialSystemPrompt(this.personality, this.character, this.includeDatadog);
-    this.conversation = resetConversation(systemPrompt);
+    this.conversation = resetConversation(systemPrompt, this.conversation ?? undefined);
     this.turnsSinceReminder = 0;
     this.agent = null; // Force recompile
     // Clear loaded modules when resetting personality
@@ -4579,7 +5720,7 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
       customDescription,
     };
     const systemPrompt = await getInitialSystemPrompt(this.personality, this.character, this.includeDatadog);
-    this.conversation = resetConversation(systemPrompt);
+    this.conversation = resetConversation(systemPrompt, this.conversation ?? undefined);
     this.turnsSinceReminder = 0;
     // Clear loaded modules when changing character
     this.loadedModules.clear();
@@ -4596,13 +5737,13 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
    */
   async reloadMemories(): Promise<void> {
     const systemPrompt = await getInitialSystemPrompt(this.personality, this.character, this.includeDatadog);
-    this.conversation = resetConversation(systemPrompt);
+    this.conversation = resetConversation(systemPrompt, this.conversation ?? undefined);
     // Clear loaded modules so they can be reloaded with new system prompt
     this.loadedModules.clear();
     this.moduleLoadTimestamp = Date.now();
   }
   
-  getStats(): { estimated: number; turns: number; messageCount: number } {
+  getStats(): { estimated: number; turns: number; messageCount: number; budget?: number } {
     if (!this.conversation) {
       return { estimated: 0, turns: 0, messageCount: 0 };
     }
@@ -4648,20 +5789,21 @@ Continue from where you left off. Use action: 'update' for checklist changes.`;
     this.character = { type: config.character as CharacterType };
     this.includeDatadog = config.datadogEnabled;
     
-    // Create conversation from restored messages
-    this.conversation = {
-      messages,
-      tokenEstimate: messages.reduce((sum, msg) => {
-        const content = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
-        return sum + Math.ceil(content.length / 4);
-      }, 0),
-      turnCount: messages.filter(m => m._getType?.() === 'ai').length,
-    };
+    // Create conversation from restored messages (token budget is applied on the next chat)
+    this.conversation = restoreConversation(messages);
+    this.contextBudgetModel = null;
     
     this.initialized = true;
     
     // Recompile agent with correct settings
-    this.agent = await compileAgent(this.includeDatadog, this.onProgress, this.workstreamId);
+    await this.resolveHarness();
+    await this.registerPlugins();
+    this.agent = await compileAgent(
+      this.includeDatadog, this.onProgress, this.workstreamId, this.modelConfig, this.harness,
+      () => this.approvalHandler, () => this.conversation,
+      () => this.onResponse ? this.handleStreamedText : null,
+      () => this.onToolResult
+    );
   }
 }
 
@@ -4687,6 +5829,9 @@ export async function runWorkAgent(
   if (input.alertId) {
     prompt += `Investigate FireHydrant incident/alert: ${input.alertId}\n`;
   }
+  if (input.pageId) {
+    prompt += `Investigate on-call page ${input.pageId}: start an investigation with pageId "${input.pageId}" so the page and its notes are pulled in.\n`;
+  }
   
   prompt += '\nSearch all relevant sources and summarize findings.';
   
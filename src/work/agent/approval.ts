@@ -0,0 +1,164 @@
+// Human-in-the-loop approval for write-external tools
+// Calls that are visible to other people (Slack, JIRA, Confluence, git push, shell) pause
+// the agent until the user approves, edits or rejects them. Without a handler (headless,
+// replay) calls run as before, except tools that must be confirmed every time - those are refused.
+// Unattended handlers also decide write-internal calls (file writes, tasks, logins).
+
+import { getToolCallMetadata } from './tool-metadata.js';
+import { getToolApprovalPolicy, setToolApprovalPolicy } from '../storage/preferences.js';
+
+export interface ApprovalRequest {
+  toolName: string;
+  args: Record<string, unknown>;
+  // Diff-style summary of what the call will do
+  preview: string;
+  // Argument the user may edit before approving (e.g. the Slack message text)
+  editableField?: string;
+  // False when the tool must be confirmed every time (no "always approve")
+  allowRemember: boolean;
+  workstreamId?: string;
+}
+
+export interface ApprovalDecision {
+  action: 'approve' | 'reject' | 'edit';
+  // Replacement args when action is 'edit'
+  args?: Record<string, unknown>;
+  // Stop asking for this tool (persisted in preferences)
+  remember?: boolean;
+  reason?: string;
+}
+
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+// Handlers for sessions nobody watches (e.g. the in-process coding agent) - the user's
+// remembered "always approve" policies don't apply to them, and local writes are theirs to decide too
+const unattendedHandlers = new WeakSet<ApprovalHandler>();
+
+/**
+ * Mark a handler as deciding every call that isn't a read itself, remembered policies included
+ */
+export function createUnattendedApprovalHandler(handler: ApprovalHandler): ApprovalHandler {
+  unattendedHandlers.add(handler);
+  return handler;
+}
+
+/**
+ * Text shown in the approval editor for an editable argument - list arguments get one item per line
+ */
+export function editableText(args: Record<string, unknown>, field: string): string {
+  const value = args[field];
+  return Array.isArray(value) ? value.join('\n') : String(value ?? '');
+}
+
+// Edited text comes back as a string - split it back into a list where the original was one
+function applyEdit(original: Record<string, unknown>, edited: Record<string, unknown>, field?: string): Record<string, unknown> {
+  if (!field || !Array.isArray(original[field]) || typeof edited[field] !== 'string') return edited;
+  const items = (edited[field] as string).split('\n').map(line => line.trim()).filter(Boolean);
+  return { ...edited, [field]: items };
+}
+
+export type ApprovalOutcome =
+  | { proceed: true; args: Record<string, unknown> }
+  | { proceed: false; result: string };
+
+const PREVIEW_VALUE_LIMIT = 2000;
+
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > PREVIEW_VALUE_LIMIT ? text.substring(0, PREVIEW_VALUE_LIMIT) + '…' : text;
+}
+
+/**
+ * Build a diff-style preview of a tool call: one "+ " line per line of content
+ */
+export function buildApprovalPreview(toolName: string, args: Record<string, unknown>): string {
+  if (toolName === 'git_push') {
+    const parts = ['git push'];
+    if (args.force) parts.push('--force-with-lease');
+    if (args.setUpstream !== false) parts.push('-u');
+    parts.push('origin', String(args.branch || '<current branch>'));
+    return `$ ${parts.join(' ')}\n  (in ${args.repoPath})`;
+  }
+
+  if (toolName === 'shell_command' || toolName === 'infra_run_command') {
+    const dir = args.workingDir ? `\n  (in ${args.workingDir})` : '';
+    return `$ ${args.command}${dir}`;
+  }
+
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(args)) {
+    if (value === undefined || value === null || value === '') continue;
+    const text = formatValue(value);
+    if (text.includes('\n')) {
+      lines.push(`${key}:`);
+      lines.push(...text.split('\n').map(line => `+ ${line}`));
+    } else {
+      lines.push(`+ ${key}: ${text}`);
+    }
+  }
+  return lines.length > 0 ? lines.join('\n') : '(no arguments)';
+}
+
+/**
+ * Ask for approval before a write-external tool call
+ * Rejections return a plain result (not an error) so the model can adjust without tripping
+ * the circuit breaker.
+ */
+export async function requestToolApproval(
+  toolName: string,
+  args: Record<string, unknown>,
+  handler: ApprovalHandler | null | undefined,
+  workstreamId?: string
+): Promise<ApprovalOutcome> {
+  const metadata = getToolCallMetadata(toolName, args);
+  const unattended = !!handler && unattendedHandlers.has(handler);
+  if (metadata.access === 'read' || (metadata.access === 'write-internal' && !unattended)) {
+    return { proceed: true, args };
+  }
+
+  if (!handler) {
+    if (metadata.alwaysConfirm) {
+      return {
+        proceed: false,
+        result: JSON.stringify({
+          rejected: true,
+          message: `${toolName} needs the user's confirmation every time, and there is no one to confirm it in this session. Tell the user to run it themselves.`,
+        }),
+      };
+    }
+    return { proceed: true, args };
+  }
+
+  if (!metadata.alwaysConfirm && !unattended && await getToolApprovalPolicy(toolName) === 'always') {
+    return { proceed: true, args };
+  }
+
+  const decision = await handler({
+    toolName,
+    args,
+    preview: buildApprovalPreview(toolName, args),
+    editableField: metadata.editableField,
+    allowRemember: !metadata.alwaysConfirm,
+    workstreamId,
+  });
+
+  if (decision.action === 'reject') {
+    return {
+      proceed: false,
+      result: JSON.stringify({
+        rejected: true,
+        reason: decision.reason,
+        message: `The user rejected this ${toolName} call. Do not retry it unchanged - ask the user how to proceed.`,
+      }),
+    };
+  }
+
+  if (decision.remember && !metadata.alwaysConfirm) {
+    await setToolApprovalPolicy(toolName, 'always');
+  }
+
+  return {
+    proceed: true,
+    args: decision.action === 'edit' && decision.args ? applyEdit(args, decision.args, metadata.editableField) : args,
+  };
+}
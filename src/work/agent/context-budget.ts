@@ -0,0 +1,139 @@
+// Context budgeting for the work agent
+// Wires the conversation compactor to the real world: model-specific token counts,
+// workspace files for offloaded tool results, and a model call for summaries.
+
+import { mkdir, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
+import { toJsonSchema } from '@langchain/core/utils/json_schema';
+import { ContextBudget, CompactionHooks, createContextBudget, SUMMARY_PREFIX } from '../conversation.js';
+import { parseModelSpec, extractText, getChatModelSpec } from '../providers/index.js';
+import { recordModelUsage } from '../providers/usage.js';
+import { getTokenCounter, getPromptTokenLimit, TokenCounter } from '../providers/tokens.js';
+import { getWorkspace } from '../tools/shell.js';
+
+// Offloaded results keep a short preview so the model knows what it is looking at
+const OFFLOAD_PREVIEW_CHARS = 1_000;
+
+// Transcript limits for the summarization call
+const SUMMARY_MESSAGE_CHARS = 1_500;
+const SUMMARY_TOOL_RESULT_CHARS = 400;
+const SUMMARY_TRANSCRIPT_CHARS = 200_000;
+
+interface SchemaTool {
+  name: string;
+  description: string;
+  schema: unknown;
+}
+
+/**
+ * Token counter and budget for a model spec
+ * Tool schemas are sent with every request, so they are reserved up front
+ */
+export async function resolveContextBudget(
+  modelSpec: string,
+  tools: SchemaTool[]
+): Promise<{ countTokens: TokenCounter; budget: ContextBudget }> {
+  const spec = parseModelSpec(modelSpec);
+  const countTokens = await getTokenCounter(spec);
+
+  let schemaTokens = 0;
+  for (const t of tools) {
+    let schema = '';
+    try {
+      schema = JSON.stringify(toJsonSchema(t.schema as Parameters<typeof toJsonSchema>[0]));
+    } catch {
+      // Unconvertible schema - count name and description only
+    }
+    schemaTokens += countTokens(`${t.name}\n${t.description}\n${schema}`);
+  }
+
+  return { countTokens, budget: createContextBudget(getPromptTokenLimit(spec, schemaTokens)) };
+}
+
+/**
+ * Offload hook: writes large tool results to WORK_DIRS/context/<workstream>/ and
+ * returns a pointer the agent can follow with read_file
+ */
+export function createToolResultOffloader(workstreamId?: string): NonNullable<CompactionHooks['offloadToolResult']> {
+  return async (toolName, toolCallId, content, tokens) => {
+    const relativeDir = join('context', workstreamId || 'session');
+    const dir = join(getWorkspace(), relativeDir);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    const safeId = toolCallId.replace(/[^a-zA-Z0-9_-]/g, '_') || Date.now().toString();
+    const relativePath = join(relativeDir, `${toolName}-${safeId}.txt`);
+    const fullPath = join(getWorkspace(), relativePath);
+    if (!existsSync(fullPath)) {
+      await writeFile(fullPath, content);
+    }
+
+    const preview = content.length > OFFLOAD_PREVIEW_CHARS
+      ? content.substring(0, OFFLOAD_PREVIEW_CHARS) + '...'
+      : content;
+    return `[Large tool result from ${toolName} (~${tokens} tokens) saved to ${relativePath} to free up context. ` +
+      `Use read_file on that path if you need the full output.]\nPreview:\n${preview}`;
+  };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max) + '... [truncated]' : text;
+}
+
+function toTranscriptLine(msg: BaseMessage): string {
+  const type = msg._getType?.() || 'unknown';
+  const text = typeof msg.content === 'string' ? msg.content : extractText(msg.content);
+
+  if (type === 'human' && text.startsWith(SUMMARY_PREFIX)) {
+    return `EARLIER SUMMARY:\n${text.substring(SUMMARY_PREFIX.length).trim()}`;
+  }
+  if (type === 'tool') {
+    return `TOOL RESULT: ${truncate(text, SUMMARY_TOOL_RESULT_CHARS)}`;
+  }
+  if (type === 'ai') {
+    const calls = (msg as AIMessage).tool_calls || [];
+    const callText = calls.map(tc => `${tc.name}(${truncate(JSON.stringify(tc.args), 200)})`).join(', ');
+    const parts = [text ? `ASSISTANT: ${truncate(text, SUMMARY_MESSAGE_CHARS)}` : '', callText ? `CALLED: ${callText}` : ''];
+    return parts.filter(Boolean).join('\n');
+  }
+  return `USER: ${truncate(text, SUMMARY_MESSAGE_CHARS)}`;
+}
+
+/**
+ * Summarize hook: one model call (no tools) that condenses old turns
+ */
+export function createConversationSummarizer(model: BaseChatModel): NonNullable<CompactionHooks['summarize']> {
+  return async (messages) => {
+    let transcript = messages.map(toTranscriptLine).filter(Boolean).join('\n\n');
+    if (transcript.length > SUMMARY_TRANSCRIPT_CHARS) {
+      // Keep the most recent part - older content is usually already in an earlier summary
+      transcript = '...\n' + transcript.substring(transcript.length - SUMMARY_TRANSCRIPT_CHARS);
+    }
+
+    const response = await model.invoke([
+      new HumanMessage(
+        `Summarize this earlier part of a work session so the assistant can continue without it.\n\n` +
+        `Keep: the user's goals and requests, decisions made, key findings, ticket keys, PR numbers, URLs, ` +
+        `file paths (including saved tool results), commands that worked, and open questions or next steps.\n` +
+        `Drop: pleasantries, repeated tool output, and anything superseded later.\n` +
+        `Use short bullet points. Do not call tools.\n\n` +
+        `---\n${transcript}\n---`
+      ),
+    ]);
+
+    const spec = getChatModelSpec(model);
+    if (spec) {
+      recordModelUsage(spec, 'summary', response);
+    }
+
+    const summary = extractText(response.content).trim();
+    if (!summary) {
+      throw new Error('Empty summary');
+    }
+    return summary;
+  };
+}
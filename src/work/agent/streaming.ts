@@ -0,0 +1,51 @@
+// Streaming model output for the work agent
+// Runs one model step with stream() instead of invoke(), forwarding text as it arrives
+// and returning the same AIMessage (content + tool calls) the graph would get from invoke().
+
+import { AIMessage, AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import type { Runnable } from '@langchain/core/runnables';
+import type { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { extractText } from '../providers/index.js';
+import type { ResponseCallback } from '../tui/types.js';
+
+/**
+ * Stream one model step
+ * onText receives the step's full text so far; done=true is sent once at the end,
+ * and only if the step produced text (pure tool-call steps stay silent)
+ */
+export async function streamModelResponse(
+  model: Runnable<BaseLanguageModelInput, AIMessageChunk>,
+  messages: BaseMessage[],
+  onText: ResponseCallback,
+  signal?: AbortSignal
+): Promise<AIMessage> {
+  let merged: AIMessageChunk | null = null;
+  let text = '';
+
+  for await (const chunk of await model.stream(messages, { signal })) {
+    merged = merged ? merged.concat(chunk) : chunk;
+    const delta = extractText(chunk.content);
+    if (delta) {
+      text += delta;
+      onText(text, false);
+    }
+  }
+
+  if (text) {
+    onText(text, true);
+  }
+  if (!merged) {
+    return new AIMessage('');
+  }
+
+  // Convert to a plain AIMessage so checkpoints and sanitizers see the usual shape
+  return new AIMessage({
+    id: merged.id,
+    content: merged.content,
+    tool_calls: merged.tool_calls,
+    invalid_tool_calls: merged.invalid_tool_calls,
+    additional_kwargs: merged.additional_kwargs,
+    response_metadata: merged.response_metadata,
+    usage_metadata: merged.usage_metadata,
+  });
+}
@@ -11,6 +11,7 @@ export const jiraGetTicketTool = tool(
   {
     name: 'jira_get_ticket',
     description: 'Get a specific JIRA ticket by its key (e.g., PROJ-123). Returns ticket details including summary, description, status, and comments.',
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
     schema: z.object({
       ticketKey: z.string().describe('The JIRA ticket key (e.g., PROJ-123)'),
     }),
@@ -22,6 +23,7 @@ export const jiraSearchTool = tool(
   {
     name: 'jira_search',
     description: 'Search JIRA tickets by text or JQL query. Supports full JQL syntax (e.g., "project = PROJ AND status = Open").',
+    metadata: { cache: { ttlMs: 2 * 60 * 1000 } },
     schema: z.object({
       query: z.string().describe('Search text or JQL query'),
       maxResults: z.number().optional().describe('Maximum results to return (default: 10)'),
@@ -34,6 +36,7 @@ export const jiraUnassignedTool = tool(
   {
     name: 'jira_unassigned_tickets',
     description: 'Get unassigned tickets from a JIRA project. Perfect for finding backlog items to work on.',
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
     schema: z.object({
       projectKey: z.string().describe('JIRA project key (e.g., PROJ, TASK)'),
       maxResults: z.number().optional().describe('Maximum results to return (default: 50)'),
@@ -46,6 +49,7 @@ export const jiraBacklogTool = tool(
   {
     name: 'jira_backlog',
     description: 'Get backlog tickets from a JIRA project (unassigned or in Backlog/To Do status).',
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
     schema: z.object({
       projectKey: z.string().describe('JIRA project key (e.g., PROJ, TASK)'),
       maxResults: z.number().optional().describe('Maximum results to return (default: 50)'),
@@ -58,6 +62,7 @@ export const jiraBoardTool = tool(
   {
     name: 'jira_board',
     description: 'Get tickets from a JIRA board or filter by ID.',
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
     schema: z.object({
       boardOrFilterId: z.string().describe('Board ID or filter ID'),
       maxResults: z.number().optional().describe('Maximum results to return (default: 50)'),
@@ -70,6 +75,14 @@ export const jiraCreateTicketTool = tool(
   {
     name: 'jira_create_ticket',
     description: 'Create a new JIRA ticket. Returns the new ticket key and URL.',
+    metadata: {
+      invalidates: [
+        { tool: 'jira_search' },
+        { tool: 'jira_unassigned_tickets', matchArgs: ['projectKey'] },
+        { tool: 'jira_backlog', matchArgs: ['projectKey'] },
+        { tool: 'jira_board' },
+      ],
+    },
     schema: z.object({
       projectKey: z.string().describe('JIRA project key (e.g., PROJ, TASK)'),
       summary: z.string().describe('Ticket summary/title'),
@@ -88,6 +101,7 @@ export const jiraAddCommentTool = tool(
   {
     name: 'jira_add_comment',
     description: 'Add a comment to a JIRA ticket. ONLY use this if the user EXPLICITLY asks you to comment on a ticket. Do not use proactively.',
+    metadata: { invalidates: [{ tool: 'jira_get_ticket', matchArgs: ['ticketKey'] }] },
     schema: z.object({
       ticketKey: z.string().describe('The JIRA ticket key (e.g., PROJ-123)'),
       comment: z.string().describe('The comment text to add (plain text, will be converted to Atlassian format)'),
@@ -95,11 +109,150 @@ export const jiraAddCommentTool = tool(
   }
 );
 
+export const jiraGetTransitionsTool = tool(
+  async () => '',
+  {
+    name: 'jira_get_transitions',
+    description: 'List the workflow transitions available for a JIRA ticket right now (transition name and the status it leads to). Use before jira_transition_ticket when unsure of the workflow.',
+    metadata: { cache: { ttlMs: 60 * 1000 } },
+    schema: z.object({
+      ticketKey: z.string().describe('The JIRA ticket key (e.g., PROJ-123)'),
+    }),
+  }
+);
+
+export const jiraTransitionTicketTool = tool(
+  async () => '',
+  {
+    name: 'jira_transition_ticket',
+    description: 'Move a JIRA ticket to another status (e.g., "In Progress", "In Review", "Done"). Accepts a transition name, transition id, or target status name. Fails with the list of available transitions if none match.',
+    metadata: {
+      invalidates: [
+        { tool: 'jira_get_ticket', matchArgs: ['ticketKey'] },
+        { tool: 'jira_get_transitions', matchArgs: ['ticketKey'] },
+        { tool: 'jira_search' },
+        { tool: 'jira_board' },
+      ],
+    },
+    schema: z.object({
+      ticketKey: z.string().describe('The JIRA ticket key (e.g., PROJ-123)'),
+      transition: z.string().describe('Target status or transition name (e.g., "In Review")'),
+      comment: z.string().optional().describe('Optional comment to add with the transition'),
+    }),
+  }
+);
+
+export const jiraAssignTicketTool = tool(
+  async () => '',
+  {
+    name: 'jira_assign_ticket',
+    description: 'Assign a JIRA ticket to someone ("me", a name, an email or an account ID), or unassign it by leaving assignee empty.',
+    metadata: {
+      invalidates: [
+        { tool: 'jira_get_ticket', matchArgs: ['ticketKey'] },
+        { tool: 'jira_unassigned_tickets' },
+        { tool: 'jira_backlog' },
+        { tool: 'jira_search' },
+        { tool: 'jira_board' },
+      ],
+    },
+    schema: z.object({
+      ticketKey: z.string().describe('The JIRA ticket key (e.g., PROJ-123)'),
+      assignee: z.string().optional().describe('"me", display name, email or account ID. Omit to unassign.'),
+    }),
+  }
+);
+
+export const jiraLogWorkTool = tool(
+  async () => '',
+  {
+    name: 'jira_log_work',
+    description: 'Log time spent on a JIRA ticket (worklog). ONLY use when the user asks to log time.',
+    metadata: { invalidates: [{ tool: 'jira_get_ticket', matchArgs: ['ticketKey'] }] },
+    schema: z.object({
+      ticketKey: z.string().describe('The JIRA ticket key (e.g., PROJ-123)'),
+      timeSpent: z.string().describe('Duration in JIRA format (e.g., "30m", "1h 30m", "2d")'),
+      comment: z.string().optional().describe('What the time was spent on'),
+      started: z.string().optional().describe('ISO date-time the work started (default: now)'),
+    }),
+  }
+);
+
+export const jiraUpdateFieldsTool = tool(
+  async () => '',
+  {
+    name: 'jira_update_fields',
+    description: 'Update fields on a JIRA ticket: summary, description, priority, labels (replace, or add/remove), story points, due date, components. Only the fields you pass are changed.',
+    metadata: {
+      invalidates: [
+        { tool: 'jira_get_ticket', matchArgs: ['ticketKey'] },
+        { tool: 'jira_get_transitions', matchArgs: ['ticketKey'] },
+        { tool: 'jira_search' },
+        { tool: 'jira_board' },
+      ],
+    },
+    schema: z.object({
+      ticketKey: z.string().describe('The JIRA ticket key (e.g., PROJ-123)'),
+      summary: z.string().optional().describe('New summary/title'),
+      description: z.string().optional().describe('New description (plain text, replaces the existing one)'),
+      priority: z.string().optional().describe('Priority name (e.g., High, Medium, Low)'),
+      labels: z.array(z.string()).optional().describe('Replace ALL labels with this list'),
+      addLabels: z.array(z.string()).optional().describe('Labels to add (keeps existing ones)'),
+      removeLabels: z.array(z.string()).optional().describe('Labels to remove'),
+      storyPoints: z.number().optional().describe('Story point estimate'),
+      dueDate: z.string().optional().describe('Due date (YYYY-MM-DD)'),
+      components: z.array(z.string()).optional().describe('Replace ALL components with these names'),
+    }),
+  }
+);
+
+export const jiraLinkTicketsTool = tool(
+  async () => '',
+  {
+    name: 'jira_link_tickets',
+    description: 'Link two JIRA tickets. Reads as "<fromKey> <linkType> <toKey>", e.g. PROJ-1 blocks PROJ-2.',
+    metadata: {
+      invalidates: [
+        { tool: 'jira_get_ticket', matchArgs: ['fromKey'] },
+        { tool: 'jira_get_ticket', matchArgs: ['toKey'] },
+      ],
+    },
+    schema: z.object({
+      fromKey: z.string().describe('Ticket the relationship starts from'),
+      linkType: z.enum(['blocks', 'is_blocked_by', 'relates_to', 'duplicates', 'is_duplicated_by']).describe('Relationship from fromKey to toKey'),
+      toKey: z.string().describe('Ticket the relationship points to'),
+    }),
+  }
+);
+
+export const jiraCreateSubtaskTool = tool(
+  async () => '',
+  {
+    name: 'jira_create_subtask',
+    description: 'Create a sub-task under an existing JIRA ticket. Returns the new ticket key and URL.',
+    metadata: {
+      invalidates: [
+        { tool: 'jira_get_ticket', matchArgs: ['parentKey'] },
+        { tool: 'jira_search' },
+        { tool: 'jira_board' },
+      ],
+    },
+    schema: z.object({
+      parentKey: z.string().describe('Parent ticket key (e.g., PROJ-123)'),
+      summary: z.string().describe('Sub-task summary/title'),
+      description: z.string().optional().describe('Sub-task description (plain text)'),
+      assignee: z.string().optional().describe('"me", display name, email or account ID'),
+      labels: z.array(z.string()).optional().describe('Labels to add'),
+    }),
+  }
+);
+
 export const confluenceSearchTool = tool(
   async () => '',
   {
     name: 'confluence_search',
     description: 'Search Confluence pages by text. Use this to find documentation, runbooks, and knowledge articles.',
+    metadata: { cache: { ttlMs: 10 * 60 * 1000 } },
     schema: z.object({
       query: z.string().describe('Search query text'),
       maxResults: z.number().optional().describe('Maximum results to return (default: 10)'),
@@ -115,10 +268,11 @@ export const confluenceCreatePageTool = tool(
     
 Content can be:
 - Plain text (will be wrapped in paragraphs)
-- Markdown (set convertFromMarkdown: true for basic conversion)
+- Markdown (set convertFromMarkdown: true - headings, tables, task lists and code blocks are converted)
 - Confluence storage format (HTML-like)
 
 To find the spaceKey, use confluence_list_spaces first if unsure.`,
+    metadata: { invalidates: [{ tool: 'confluence_search' }] },
     schema: z.object({
       spaceKey: z.string().describe('Confluence space key (e.g., "TEAM", "ENG"). Use confluence_list_spaces if unsure.'),
       title: z.string().describe('Page title'),
@@ -134,6 +288,7 @@ export const confluenceListSpacesTool = tool(
   {
     name: 'confluence_list_spaces',
     description: 'List available Confluence spaces. Use this to find the spaceKey for confluence_create_page.',
+    metadata: { cache: { ttlMs: 60 * 60 * 1000 } },
     schema: z.object({
       limit: z.number().optional().describe('Maximum spaces to return (default: 25)'),
     }),
@@ -147,6 +302,7 @@ export const confluenceGetPageTool = tool(
     description: `Get full content of a Confluence page by its ID.
 Use this AFTER confluence_search to read the full page content.
 Returns the page title, full text content, URL, space, and last modified date.`,
+    metadata: { cache: { ttlMs: 15 * 60 * 1000 } },
     schema: z.object({
       pageId: z.string().describe('The Confluence page ID (from confluence_search results)'),
     }),
@@ -160,6 +316,7 @@ export const confluenceGetCommentsTool = tool(
     description: `Get comments/replies on a Confluence page.
 Use this to read discussion threads, feedback, and inline comments on a document.
 Returns comment author, content, and creation date.`,
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
     schema: z.object({
       pageId: z.string().describe('The Confluence page ID'),
       includeInline: z.boolean().optional().describe('Include inline/annotation comments (default: true)'),
@@ -167,11 +324,101 @@ Returns comment author, content, and creation date.`,
   }
 );
 
+export const confluenceUpdatePageTool = tool(
+  async () => '',
+  {
+    name: 'confluence_update_page',
+    description: `Update an existing Confluence page. Use this to iterate on a page (e.g. a postmortem written from an investigation) instead of creating a new one.
+
+Modes:
+- replace: replace the whole body
+- append / prepend: add content at the end / start
+- replace_section: replace everything under one heading (up to the next heading of the same level)
+
+Pass expectedVersion (the version from confluence_get_page) to fail instead of overwriting someone else's edit. On a version conflict, use confluence_diff_versions to see what changed before retrying.`,
+    metadata: {
+      invalidates: [
+        { tool: 'confluence_get_page', matchArgs: ['pageId'] },
+        { tool: 'confluence_get_versions', matchArgs: ['pageId'] },
+        { tool: 'confluence_diff_versions', matchArgs: ['pageId'] },
+        { tool: 'confluence_search' },
+      ],
+    },
+    schema: z.object({
+      pageId: z.string().describe('The Confluence page ID'),
+      content: z.string().describe('New content (Markdown by default)'),
+      mode: z.enum(['replace', 'append', 'prepend', 'replace_section']).optional().describe('How to apply the content (default: replace)'),
+      section: z.string().optional().describe('Heading text of the section to replace (required for replace_section)'),
+      format: z.enum(['markdown', 'storage']).optional().describe('Content format (default: markdown)'),
+      title: z.string().optional().describe('New page title (optional)'),
+      expectedVersion: z.number().optional().describe('Page version the edit is based on - the update fails if the page has moved on'),
+      versionMessage: z.string().optional().describe('Short note shown in the page history'),
+    }),
+  }
+);
+
+export const confluenceGetVersionsTool = tool(
+  async () => '',
+  {
+    name: 'confluence_get_versions',
+    description: 'Get the version history of a Confluence page (number, author, date, message), newest first.',
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
+    schema: z.object({
+      pageId: z.string().describe('The Confluence page ID'),
+      limit: z.number().optional().describe('Maximum versions to return (default: 25)'),
+    }),
+  }
+);
+
+export const confluenceDiffVersionsTool = tool(
+  async () => '',
+  {
+    name: 'confluence_diff_versions',
+    description: `Show what changed on a Confluence page between two versions, as a unified text diff.
+Defaults to the latest edit (previous version vs current).`,
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
+    schema: z.object({
+      pageId: z.string().describe('The Confluence page ID'),
+      fromVersion: z.number().optional().describe('Older version number (default: toVersion - 1)'),
+      toVersion: z.number().optional().describe('Newer version number (default: current version)'),
+    }),
+  }
+);
+
+export const confluenceReplyToCommentTool = tool(
+  async () => '',
+  {
+    name: 'confluence_reply_to_comment',
+    description: `Reply to a comment on a Confluence page (page-level or inline). Get the commentId from confluence_get_comments.
+The reply is posted in the comment's thread. Body is Markdown.`,
+    metadata: { invalidates: [{ tool: 'confluence_get_comments' }] },
+    schema: z.object({
+      commentId: z.string().describe('ID of the comment to reply to'),
+      body: z.string().describe('Reply text (Markdown)'),
+    }),
+  }
+);
+
+export const confluenceUpdateLabelsTool = tool(
+  async () => '',
+  {
+    name: 'confluence_update_labels',
+    description: 'Add and/or remove labels on a Confluence page (e.g. "postmortem", "incident-review"). Returns the labels afterwards.',
+    metadata: { invalidates: [{ tool: 'confluence_get_page', matchArgs: ['pageId'] }, { tool: 'confluence_search' }] },
+    schema: z.object({
+      pageId: z.string().describe('The Confluence page ID'),
+      add: z.array(z.string()).optional().describe('Labels to add'),
+      remove: z.array(z.string()).optional().describe('Labels to remove'),
+    }),
+  }
+);
+
 export const firehydrantSearchIncidentsTool = tool(
   async () => '',
   {
     name: 'firehydrant_search_incidents',
     description: 'Search FireHydrant incidents by text query.',
+    metadata: { cache: { ttlMs: 2 * 60 * 1000 } },
     schema: z.object({
       query: z.string().describe('Search query text'),
       maxResults: z.number().optional().describe('Maximum results to return (default: 10)'),
@@ -184,6 +431,7 @@ export const firehydrantGetIncidentTool = tool(
   {
     name: 'firehydrant_get_incident',
     description: 'Get a specific FireHydrant incident by ID.',
+    metadata: { cache: { ttlMs: 2 * 60 * 1000 } },
     schema: z.object({
       incidentId: z.string().describe('The FireHydrant incident ID'),
     }),
@@ -195,12 +443,212 @@ export const firehydrantRecentIncidentsTool = tool(
   {
     name: 'firehydrant_recent_incidents',
     description: 'Get recent FireHydrant incidents.',
+    metadata: { cache: { ttlMs: 2 * 60 * 1000 } },
     schema: z.object({
       maxResults: z.number().optional().describe('Maximum results to return (default: 10)'),
     }),
   }
 );
 
+export const firehydrantGetTimelineTool = tool(
+  async () => '',
+  {
+    name: 'firehydrant_get_timeline',
+    description: 'Get the timeline of a FireHydrant incident (notes, chat messages, milestone/severity/role changes), oldest first.',
+    metadata: { cache: { ttlMs: 60 * 1000 } },
+    schema: z.object({
+      incidentId: z.string().describe('The FireHydrant incident ID'),
+      maxResults: z.number().optional().describe('Maximum events to return (default: 100)'),
+    }),
+  }
+);
+
+export const firehydrantAddNoteTool = tool(
+  async () => '',
+  {
+    name: 'firehydrant_add_note',
+    description: 'Post a note to a FireHydrant incident timeline. Notes are private to the organization unless visibility says otherwise.',
+    metadata: {
+      invalidates: [
+        { tool: 'firehydrant_get_timeline', matchArgs: ['incidentId'] },
+      ],
+    },
+    schema: z.object({
+      incidentId: z.string().describe('The FireHydrant incident ID'),
+      body: z.string().describe('Note text (markdown)'),
+      visibility: z.enum(['private_to_org', 'open_to_public', 'internal_status_page']).optional()
+        .describe('Who can see the note (default: private_to_org)'),
+    }),
+  }
+);
+
+export const firehydrantGetRolesTool = tool(
+  async () => '',
+  {
+    name: 'firehydrant_get_roles',
+    description: 'Get who holds each role on a FireHydrant incident (Incident Commander, Comms Lead, ...) and the roles that can be assigned.',
+    metadata: { cache: { ttlMs: 60 * 1000 } },
+    schema: z.object({
+      incidentId: z.string().describe('The FireHydrant incident ID'),
+    }),
+  }
+);
+
+export const firehydrantAssignRoleTool = tool(
+  async () => '',
+  {
+    name: 'firehydrant_assign_role',
+    description: 'Assign an incident role (e.g., "Incident Commander") on a FireHydrant incident to a user ("me", a name or an email).',
+    metadata: {
+      invalidates: [
+        { tool: 'firehydrant_get_roles', matchArgs: ['incidentId'] },
+        { tool: 'firehydrant_get_timeline', matchArgs: ['incidentId'] },
+      ],
+    },
+    schema: z.object({
+      incidentId: z.string().describe('The FireHydrant incident ID'),
+      role: z.string().describe('Role name (e.g., "Incident Commander")'),
+      user: z.string().describe('"me", the user\'s name, or their email'),
+    }),
+  }
+);
+
+export const firehydrantUpdateIncidentTool = tool(
+  async () => '',
+  {
+    name: 'firehydrant_update_incident',
+    description: 'Move a FireHydrant incident to another milestone (started, detected, acknowledged, investigating, identified, mitigated, resolved, postmortem_started, postmortem_completed, closed) and/or change its severity (e.g., "SEV2"). Optionally posts a note explaining the change.',
+    metadata: {
+      invalidates: [
+        { tool: 'firehydrant_get_incident', matchArgs: ['incidentId'] },
+        { tool: 'firehydrant_get_timeline', matchArgs: ['incidentId'] },
+        { tool: 'firehydrant_search_incidents' },
+        { tool: 'firehydrant_recent_incidents' },
+      ],
+    },
+    schema: z.object({
+      incidentId: z.string().describe('The FireHydrant incident ID'),
+      milestone: z.string().optional().describe('Milestone to move to (e.g., "mitigated")'),
+      severity: z.string().optional().describe('New severity (e.g., "SEV1")'),
+      note: z.string().optional().describe('Optional note for the timeline explaining the change'),
+    }),
+  }
+);
+
+export const firehydrantGetRunbooksTool = tool(
+  async () => '',
+  {
+    name: 'firehydrant_get_runbooks',
+    description: 'List the runbooks attached to a FireHydrant incident and the status of each step.',
+    metadata: { cache: { ttlMs: 60 * 1000 } },
+    schema: z.object({
+      incidentId: z.string().describe('The FireHydrant incident ID'),
+    }),
+  }
+);
+
+export const firehydrantIncidentChangesTool = tool(
+  async () => '',
+  {
+    name: 'firehydrant_incident_changes',
+    description: `What changed on a FireHydrant incident since the user last looked: severity, milestone and role changes plus new timeline events.
+Each call records the current state as the new "last looked" point. The first call for an incident returns the whole timeline.`,
+    schema: z.object({
+      incidentId: z.string().describe('The FireHydrant incident ID'),
+    }),
+  }
+);
+
+export const oncallWhoIsOnCallTool = tool(
+  async () => '',
+  {
+    name: 'oncall_who_is_on_call',
+    description: 'Who is on call right now (PagerDuty, or Opsgenie when that is the configured provider): user, schedule, escalation policy and level, shift end.',
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
+    schema: z.object({
+      schedule: z.string().optional().describe('Only schedules / escalation policies whose name contains this (e.g., "payments")'),
+    }),
+  }
+);
+
+export const oncallListPagesTool = tool(
+  async () => '',
+  {
+    name: 'oncall_list_pages',
+    description: 'List pages (PagerDuty incidents / Opsgenie alerts), newest first. Default: open pages - triggered and acknowledged. Each page shows who it is assigned to and who acknowledged it.',
+    metadata: { cache: { ttlMs: 30 * 1000 } },
+    schema: z.object({
+      statuses: z.array(z.enum(['triggered', 'acknowledged', 'resolved'])).optional().describe('Statuses to include (default: triggered and acknowledged)'),
+      maxResults: z.number().optional().describe('Maximum pages to return (default: 25)'),
+    }),
+  }
+);
+
+export const oncallGetPageTool = tool(
+  async () => '',
+  {
+    name: 'oncall_get_page',
+    description: 'Get a page (PagerDuty incident / Opsgenie alert) with its notes. Accepts the page ID or its URL.',
+    metadata: { cache: { ttlMs: 30 * 1000 } },
+    schema: z.object({
+      pageId: z.string().describe('Page ID (PagerDuty incident ID, Opsgenie alert ID or tiny ID) or page URL'),
+    }),
+  }
+);
+
+export const oncallAcknowledgePageTool = tool(
+  async () => '',
+  {
+    name: 'oncall_acknowledge_page',
+    description: 'Acknowledge a page so it stops escalating. Always asks the user first. Optionally adds a note.',
+    metadata: {
+      invalidates: [
+        { tool: 'oncall_get_page', matchArgs: ['pageId'] },
+        { tool: 'oncall_list_pages' },
+      ],
+    },
+    schema: z.object({
+      pageId: z.string().describe('Page ID or page URL'),
+      note: z.string().optional().describe('Optional note (e.g., "looking into it")'),
+    }),
+  }
+);
+
+export const oncallResolvePageTool = tool(
+  async () => '',
+  {
+    name: 'oncall_resolve_page',
+    description: 'Resolve a page (close the Opsgenie alert). Always asks the user first. Only after the underlying issue is mitigated.',
+    metadata: {
+      invalidates: [
+        { tool: 'oncall_get_page', matchArgs: ['pageId'] },
+        { tool: 'oncall_list_pages' },
+      ],
+    },
+    schema: z.object({
+      pageId: z.string().describe('Page ID or page URL'),
+      resolution: z.string().optional().describe('Optional resolution note'),
+    }),
+  }
+);
+
+export const oncallAddNoteTool = tool(
+  async () => '',
+  {
+    name: 'oncall_add_note',
+    description: 'Add a note to a page (PagerDuty incident note / Opsgenie alert note) - findings, mitigation steps, hand-off context.',
+    metadata: {
+      invalidates: [
+        { tool: 'oncall_get_page', matchArgs: ['pageId'] },
+      ],
+    },
+    schema: z.object({
+      pageId: z.string().describe('Page ID or page URL'),
+      content: z.string().describe('Note text'),
+    }),
+  }
+);
+
 export const datadogSearchLogsTool = tool(
   async () => '',
   {
@@ -222,6 +670,7 @@ export const datadogGetMonitorsTool = tool(
   {
     name: 'datadog_get_monitors',
     description: 'Get Datadog monitors, optionally filtered by name.',
+    metadata: { cache: { ttlMs: 60 * 1000 } },
     schema: z.object({
       query: z.string().optional().describe('Optional monitor name filter'),
     }),
@@ -232,13 +681,84 @@ export const datadogGetRequestTraceTool = tool(
   async () => '',
   {
     name: 'datadog_get_request_trace',
-    description: 'Get Datadog logs for a specific request ID or trace ID.',
+    description: 'Get Datadog LOGS for a specific request ID or trace ID (a log search, not APM spans). Also returns the trace IDs found in those logs - pass one to datadog_get_trace for the span tree.',
     schema: z.object({
       requestId: z.string().describe('The request ID or trace ID to look up'),
     }),
   }
 );
 
+export const datadogSearchTracesTool = tool(
+  async () => '',
+  {
+    name: 'datadog_search_traces',
+    description: `Search Datadog APM traces by service, resource (endpoint), status and duration.
+Returns one summary per trace (service, resource, duration, error). Use datadog_get_trace on a traceId for its span tree.
+For historical alerts, ALWAYS pass from/to around the alert time (default: last hour).`,
+    metadata: { cache: { ttlMs: 60 * 1000 } },
+    schema: z.object({
+      service: z.string().optional().describe('Service name (e.g., "checkout-api")'),
+      resource: z.string().optional().describe('Resource name (e.g., "GET /api/orders/{id}")'),
+      status: z.enum(['ok', 'error']).optional().describe('Only successful or only failed spans'),
+      env: z.string().optional().describe('Environment (e.g., "prod")'),
+      minDurationMs: z.number().optional().describe('Only spans at least this slow (latency investigations)'),
+      query: z.string().optional().describe('Extra span query (e.g., "@http.status_code:504")'),
+      from: z.string().optional().describe('Start time as ISO string (default: 1 hour ago)'),
+      to: z.string().optional().describe('End time as ISO string (default: now)'),
+      maxResults: z.number().optional().describe('Maximum traces to return (default: 20)'),
+    }),
+  }
+);
+
+export const datadogGetTraceTool = tool(
+  async () => '',
+  {
+    name: 'datadog_get_trace',
+    description: `Get the full span tree of a Datadog APM trace, rendered as a text flame graph (time per span, self time, errors, repeated calls collapsed) plus self time by service.
+Pass traceId, or requestId to find the trace through the trace_id injected in that request's logs. Hex (OpenTelemetry) trace IDs are accepted.`,
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
+    schema: z.object({
+      traceId: z.string().optional().describe('Trace ID (decimal or hex)'),
+      requestId: z.string().optional().describe('Request ID to look up in logs when the trace ID is unknown'),
+      from: z.string().optional().describe('Start time as ISO string - must cover the trace (default: last 24 hours)'),
+      to: z.string().optional().describe('End time as ISO string (default: now)'),
+      maxDepth: z.number().optional().describe('Maximum tree depth to render (default: 8)'),
+    }),
+  }
+);
+
+export const datadogSearchErrorIssuesTool = tool(
+  async () => '',
+  {
+    name: 'datadog_search_error_issues',
+    description: `List Datadog Error Tracking issues (similar errors grouped by Datadog), most frequent first.
+Use groupBy to roll the issues up by service, error type or source file.`,
+    metadata: { cache: { ttlMs: 2 * 60 * 1000 } },
+    schema: z.object({
+      query: z.string().optional().describe('Issue query (e.g., "service:checkout env:prod")'),
+      service: z.string().optional().describe('Shortcut for service:<name> in the query'),
+      env: z.string().optional().describe('Shortcut for env:<name> in the query'),
+      track: z.enum(['trace', 'logs', 'rum']).optional().describe('Error source (default: trace)'),
+      from: z.string().optional().describe('Start time as ISO string (default: 24 hours ago)'),
+      to: z.string().optional().describe('End time as ISO string (default: now)'),
+      groupBy: z.enum(['service', 'error_type', 'file']).optional().describe('Also return the issues grouped by this field'),
+      maxResults: z.number().optional().describe('Maximum issues to return (default: 25)'),
+    }),
+  }
+);
+
+export const datadogGetErrorIssueTool = tool(
+  async () => '',
+  {
+    name: 'datadog_get_error_issue',
+    description: 'Get one Datadog Error Tracking issue: error type and message, source location, state, first/last seen and versions.',
+    metadata: { cache: { ttlMs: 2 * 60 * 1000 } },
+    schema: z.object({
+      issueId: z.string().describe('The Error Tracking issue ID'),
+    }),
+  }
+);
+
 export const datadogQueryMetricsTool = tool(
   async () => '',
   {
@@ -251,6 +771,7 @@ Example queries:
 - p95:http.request.duration{service:api-gateway} by {route}
 
 Returns series data with timestamps and values, plus summary stats (sum, avg, max, min).`,
+    metadata: { cache: { ttlMs: 60 * 1000 } },
     schema: z.object({
       query: z.string().describe('Datadog metric query (e.g., "avg:postgresql.query.duration{...} by {...}")'),
       from: z.string().describe('Start time as ISO string (e.g., "2025-11-20T00:00:00Z")'),
@@ -259,6 +780,144 @@ Returns series data with timestamps and values, plus summary stats (sum, avg, ma
   }
 );
 
+// === MONITOR MANAGEMENT ===
+// Writes always ask for confirmation and are logged to the active investigation's findings
+
+export const datadogMuteMonitorTool = tool(
+  async () => '',
+  {
+    name: 'datadog_mute_monitor',
+    description: `Mute a Datadog monitor (creates a downtime). Use scope to mute only some groups (e.g., "env:staging" or "host:web-1") and end to expire it ("2h", "1d" or an ISO time).
+Without end the monitor stays muted until datadog_unmute_monitor. Always asks the user to confirm.`,
+    metadata: {
+      invalidates: [
+        { tool: 'datadog_list_downtimes' },
+        { tool: 'datadog_get_monitors' },
+      ],
+    },
+    schema: z.object({
+      monitorId: z.number().describe('The monitor ID'),
+      scope: z.string().optional().describe('Groups to mute (e.g., "env:staging"); default all groups'),
+      end: z.string().optional().describe('When the mute expires: duration ("30m", "2h", "1d") or ISO time'),
+      message: z.string().optional().describe('Why it is muted (shown in Datadog)'),
+    }),
+  }
+);
+
+export const datadogUnmuteMonitorTool = tool(
+  async () => '',
+  {
+    name: 'datadog_unmute_monitor',
+    description: 'Unmute a Datadog monitor by canceling its active downtimes (only the ones with this scope, if given). Always asks the user to confirm.',
+    metadata: {
+      invalidates: [
+        { tool: 'datadog_list_downtimes' },
+        { tool: 'datadog_get_monitors' },
+      ],
+    },
+    schema: z.object({
+      monitorId: z.number().describe('The monitor ID'),
+      scope: z.string().optional().describe('Only cancel downtimes with exactly this scope'),
+    }),
+  }
+);
+
+export const datadogScheduleDowntimeTool = tool(
+  async () => '',
+  {
+    name: 'datadog_schedule_downtime',
+    description: `Schedule a Datadog downtime (e.g., for a planned maintenance window) for one monitor or every monitor with the given tags.
+Pass start/end as ISO times or durations from now ("2h"). Always asks the user to confirm.`,
+    metadata: {
+      invalidates: [
+        { tool: 'datadog_list_downtimes' },
+      ],
+    },
+    schema: z.object({
+      monitorId: z.number().optional().describe('The monitor ID'),
+      monitorTags: z.array(z.string()).optional().describe('Target every monitor with these tags instead (e.g., ["team:payments"])'),
+      scope: z.string().optional().describe('Groups affected (e.g., "env:prod"); default all'),
+      start: z.string().optional().describe('Start: ISO time or duration from now (default: now)'),
+      end: z.string().optional().describe('End: ISO time or duration from now (default: until canceled)'),
+      message: z.string().optional().describe('Reason for the downtime'),
+    }),
+  }
+);
+
+export const datadogCancelDowntimeTool = tool(
+  async () => '',
+  {
+    name: 'datadog_cancel_downtime',
+    description: 'Cancel a Datadog downtime by ID (see datadog_list_downtimes). Always asks the user to confirm.',
+    metadata: {
+      invalidates: [
+        { tool: 'datadog_list_downtimes' },
+        { tool: 'datadog_get_monitors' },
+      ],
+    },
+    schema: z.object({
+      downtimeId: z.string().describe('The downtime ID'),
+    }),
+  }
+);
+
+export const datadogListDowntimesTool = tool(
+  async () => '',
+  {
+    name: 'datadog_list_downtimes',
+    description: 'List active and scheduled Datadog downtimes (muted monitors), optionally for one monitor.',
+    metadata: { cache: { ttlMs: 60 * 1000 } },
+    schema: z.object({
+      monitorId: z.number().optional().describe('Only downtimes for this monitor'),
+      includeEnded: z.boolean().optional().describe('Include canceled and ended downtimes'),
+    }),
+  }
+);
+
+export const datadogGetMonitorHistoryTool = tool(
+  async () => '',
+  {
+    name: 'datadog_get_monitor_history',
+    description: 'Get a Datadog monitor\'s state history: current state per group and its state transitions (Triggered, Recovered, Warn, No Data) over a time range. Good for spotting flapping monitors.',
+    metadata: { cache: { ttlMs: 60 * 1000 } },
+    schema: z.object({
+      monitorId: z.number().describe('The monitor ID'),
+      from: z.string().optional().describe('Start time as ISO string (default: 7 days ago)'),
+      to: z.string().optional().describe('End time as ISO string (default: now)'),
+    }),
+  }
+);
+
+export const datadogSearchSlosTool = tool(
+  async () => '',
+  {
+    name: 'datadog_search_slos',
+    description: 'Search Datadog SLOs by name or tag. Returns IDs, types and targets per timeframe.',
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
+    schema: z.object({
+      query: z.string().optional().describe('Name or tag query (e.g., "checkout" or "team:payments")'),
+      maxResults: z.number().optional().describe('Maximum SLOs to return (default: 25)'),
+    }),
+  }
+);
+
+export const datadogGetSloStatusTool = tool(
+  async () => '',
+  {
+    name: 'datadog_get_slo_status',
+    description: `Get an SLO's status: SLI and error budget remaining over its timeframe, plus the SLI, burn rate and budget spent over a recent window.
+Burn rate 1 = spending the budget exactly at the sustainable pace; above 1 the budget runs out before the timeframe ends.`,
+    metadata: { cache: { ttlMs: 60 * 1000 } },
+    schema: z.object({
+      sloId: z.string().describe('The SLO ID'),
+      window: z.string().optional().describe('Burn window back from now: "1h", "6h", "24h", "7d" (default: 24h)'),
+      from: z.string().optional().describe('Window start as ISO string (instead of window)'),
+      to: z.string().optional().describe('Window end as ISO string (default: now)'),
+      timeframe: z.enum(['7d', '30d', '90d']).optional().describe('SLO timeframe to measure the budget over (default: the first one configured)'),
+    }),
+  }
+);
+
 // === DATABASE MONITORING (DBM) TOOLS ===
 // NOTE: Datadog does NOT have a public REST API for DBM query samples or host index details.
 // These tools use the metrics API and provide UI instructions for detailed data.
@@ -329,8 +988,9 @@ export const githubListPRsTool = tool(
   {
     name: 'github_list_prs',
     description: 'List pull requests from a GitHub repository. Can filter by author and state (open/closed/all).',
+    metadata: { cache: { ttlMs: 2 * 60 * 1000 } },
     schema: z.object({
-      repoUrl: z.string().describe('GitHub repository URL (e.g., https://github.com/owner/repo)'),
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
       state: z.enum(['open', 'closed', 'all']).optional().describe('PR state to filter by (default: open)'),
       author: z.string().optional().describe('Filter by PR author username'),
       maxResults: z.number().optional().describe('Maximum results to return (default: 30)'),
@@ -343,8 +1003,9 @@ export const githubGetPRTool = tool(
   {
     name: 'github_get_pr',
     description: 'Get details of a specific pull request by number.',
+    metadata: { cache: { ttlMs: 2 * 60 * 1000 } },
     schema: z.object({
-      repoUrl: z.string().describe('GitHub repository URL (e.g., https://github.com/owner/repo)'),
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
       prNumber: z.number().describe('Pull request number'),
     }),
   }
@@ -355,8 +1016,9 @@ export const githubSearchPRsByAuthorTool = tool(
   {
     name: 'github_search_prs_by_author',
     description: 'Search for pull requests by author. Convenience wrapper that filters PRs by author name.',
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
     schema: z.object({
-      repoUrl: z.string().describe('GitHub repository URL (e.g., https://github.com/owner/repo)'),
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
       author: z.string().describe('Author username to search for'),
       state: z.enum(['open', 'closed', 'all']).optional().describe('PR state to filter by (default: open)'),
       maxResults: z.number().optional().describe('Maximum results to return (default: 30)'),
@@ -370,7 +1032,7 @@ export const githubGetPRChecksTool = tool(
     name: 'github_get_pr_checks',
     description: 'Get CI check runs and status checks for a PR. Returns all checks with their status (pending/passing/failing) and failure details.',
     schema: z.object({
-      repoUrl: z.string().describe('GitHub repository URL (e.g., https://github.com/owner/repo)'),
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
       prNumber: z.number().describe('Pull request number'),
     }),
   }
@@ -386,9 +1048,198 @@ export const githubGetPRCommentsTool = tool(
 
 Returns comment body, author, file path (for review comments), and timestamps.
 Use this to understand review feedback before making fixes.`,
+    metadata: { cache: { ttlMs: 2 * 60 * 1000 } },
+    schema: z.object({
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
+      prNumber: z.number().describe('Pull request number'),
+    }),
+  }
+);
+
+// GitHub write tools - visible to the team, all require approval
+
+export const githubCreatePRTool = tool(
+  async () => '',
+  {
+    name: 'github_create_pr',
+    description: `Open a pull request from a pushed branch. Push first with git_push.
+Title and body are sent as-is (markdown, backticks and $ are safe).`,
+    metadata: {
+      invalidates: [
+        { tool: 'github_list_prs', matchArgs: ['repoUrl'] },
+        { tool: 'github_search_prs_by_author', matchArgs: ['repoUrl'] },
+      ],
+    },
+    schema: z.object({
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
+      head: z.string().describe('Branch with the changes'),
+      title: z.string().describe('PR title'),
+      body: z.string().optional().describe('PR description (markdown)'),
+      base: z.string().optional().describe("Target branch (default: the repo's default branch)"),
+      draft: z.boolean().optional().describe('Open as a draft (default: false)'),
+    }),
+  }
+);
+
+export const githubUpdatePRTool = tool(
+  async () => '',
+  {
+    name: 'github_update_pr',
+    description: 'Edit a PR: title, description, base branch, draft/ready for review, or close/reopen it.',
+    metadata: {
+      invalidates: [
+        { tool: 'github_get_pr', matchArgs: ['repoUrl', 'prNumber'] },
+        { tool: 'github_list_prs', matchArgs: ['repoUrl'] },
+        { tool: 'github_search_prs_by_author', matchArgs: ['repoUrl'] },
+      ],
+    },
+    schema: z.object({
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
+      prNumber: z.number().describe('Pull request number'),
+      title: z.string().optional().describe('New title'),
+      body: z.string().optional().describe('New description (replaces the old one)'),
+      base: z.string().optional().describe('New target branch'),
+      state: z.enum(['open', 'closed']).optional().describe('Close or reopen the PR'),
+      draft: z.boolean().optional().describe('true = convert to draft, false = mark ready for review'),
+    }),
+  }
+);
+
+export const githubRequestReviewersTool = tool(
+  async () => '',
+  {
+    name: 'github_request_reviewers',
+    description: 'Request reviews on a PR from users and/or teams.',
+    metadata: {
+      invalidates: [
+        { tool: 'github_get_pr', matchArgs: ['repoUrl', 'prNumber'] },
+        { tool: 'github_list_prs', matchArgs: ['repoUrl'] },
+        { tool: 'github_search_prs_by_author', matchArgs: ['repoUrl'] },
+      ],
+    },
+    schema: z.object({
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
+      prNumber: z.number().describe('Pull request number'),
+      reviewers: z.array(z.string()).optional().describe('GitHub usernames'),
+      teamReviewers: z.array(z.string()).optional().describe('Team slugs (without the org)'),
+    }),
+  }
+);
+
+export const githubCommentOnPRTool = tool(
+  async () => '',
+  {
+    name: 'github_comment_on_pr',
+    description: 'Post a comment in the PR conversation. For inline review comments, use github_reply_to_review_comment instead.',
+    metadata: { invalidates: [{ tool: 'github_get_pr_comments', matchArgs: ['repoUrl', 'prNumber'] }] },
+    schema: z.object({
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
+      prNumber: z.number().describe('Pull request number'),
+      body: z.string().describe('Comment text (markdown). An AI disclaimer is added automatically.'),
+    }),
+  }
+);
+
+export const githubReplyToReviewCommentTool = tool(
+  async () => '',
+  {
+    name: 'github_reply_to_review_comment',
+    description: `Reply in the thread of an inline review comment.
+Use the comment id from github_get_pr_comments (reviewComments[].id).`,
+    metadata: { invalidates: [{ tool: 'github_get_pr_comments', matchArgs: ['repoUrl', 'prNumber'] }] },
+    schema: z.object({
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
+      prNumber: z.number().describe('Pull request number'),
+      commentId: z.number().describe('Review comment ID to reply to'),
+      body: z.string().describe('Reply text (markdown). An AI disclaimer is added automatically.'),
+    }),
+  }
+);
+
+export const githubResolveReviewThreadTool = tool(
+  async () => '',
+  {
+    name: 'github_resolve_review_thread',
+    description: `Resolve (or unresolve) a review thread once its feedback is addressed.
+Pass thread_id from github_get_pr_comments, or any comment id in the thread.`,
+    metadata: { invalidates: [{ tool: 'github_get_pr_comments', matchArgs: ['repoUrl', 'prNumber'] }] },
+    schema: z.object({
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
+      prNumber: z.number().describe('Pull request number'),
+      threadId: z.string().optional().describe('Review thread ID (reviewComments[].thread_id)'),
+      commentId: z.number().optional().describe('Any review comment ID in the thread'),
+      resolved: z.boolean().optional().describe('false to unresolve (default: true)'),
+    }),
+  }
+);
+
+export const githubSubmitReviewTool = tool(
+  async () => '',
+  {
+    name: 'github_submit_review',
+    description: 'Submit a review on a PR: approve, request changes, or comment, optionally with inline comments.',
+    metadata: {
+      invalidates: [
+        { tool: 'github_get_pr', matchArgs: ['repoUrl', 'prNumber'] },
+        { tool: 'github_list_prs', matchArgs: ['repoUrl'] },
+        { tool: 'github_search_prs_by_author', matchArgs: ['repoUrl'] },
+        { tool: 'github_get_pr_comments', matchArgs: ['repoUrl', 'prNumber'] },
+      ],
+    },
     schema: z.object({
-      repoUrl: z.string().describe('GitHub repository URL (e.g., https://github.com/owner/repo)'),
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
       prNumber: z.number().describe('Pull request number'),
+      event: z.enum(['APPROVE', 'REQUEST_CHANGES', 'COMMENT']).describe('Review verdict'),
+      body: z.string().optional().describe('Review summary (required for REQUEST_CHANGES and COMMENT)'),
+      comments: z.array(z.object({
+        path: z.string().describe('File path'),
+        line: z.number().describe('Line number in the new version of the file'),
+        body: z.string().describe('Comment text'),
+      })).optional().describe('Inline comments'),
+    }),
+  }
+);
+
+export const githubAddLabelsTool = tool(
+  async () => '',
+  {
+    name: 'github_add_labels',
+    description: 'Add labels to a PR (existing labels are kept).',
+    metadata: {
+      invalidates: [
+        { tool: 'github_get_pr', matchArgs: ['repoUrl', 'prNumber'] },
+        { tool: 'github_list_prs', matchArgs: ['repoUrl'] },
+        { tool: 'github_search_prs_by_author', matchArgs: ['repoUrl'] },
+      ],
+    },
+    schema: z.object({
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
+      prNumber: z.number().describe('Pull request number'),
+      labels: z.array(z.string()).describe('Labels to add'),
+    }),
+  }
+);
+
+export const githubMergePRTool = tool(
+  async () => '',
+  {
+    name: 'github_merge_pr',
+    description: `Merge a PR. Check github_get_pr_checks first - GitHub rejects merges blocked by
+required checks, reviews or conflicts.`,
+    metadata: {
+      invalidates: [
+        { tool: 'github_get_pr', matchArgs: ['repoUrl', 'prNumber'] },
+        { tool: 'github_list_prs', matchArgs: ['repoUrl'] },
+        { tool: 'github_search_prs_by_author', matchArgs: ['repoUrl'] },
+      ],
+    },
+    schema: z.object({
+      repoUrl: z.string().describe('Repository URL - GitHub, GitHub Enterprise or GitLab (e.g., https://github.com/owner/repo)'),
+      prNumber: z.number().describe('Pull request number'),
+      method: z.enum(['merge', 'squash', 'rebase']).optional().describe('Merge strategy (default: squash)'),
+      commitTitle: z.string().optional().describe('Merge/squash commit title'),
+      commitMessage: z.string().optional().describe('Merge/squash commit message'),
+      sha: z.string().optional().describe('Only merge if the PR head is still at this commit'),
     }),
   }
 );
@@ -403,12 +1254,14 @@ export const prWatchStartTool = tool(
 1. Clone the repo (if needed) and checkout the PR branch
 2. Poll CI status every 45 seconds
 3. On failure: automatically invoke Cursor to fix and commit
-4. On success: offer to squash commits
+4. When the base branch moves on and the PR is behind or conflicted: rebase (or merge) it, with conflicts resolved by the coding agent (see pr_watch_configure)
+5. On success: offer to squash commits
 
-Supports GitHub Actions and CircleCI. For CircleCI failures without accessible logs,
-it will first try to fix based on the step name, then ask for manual logs if needed.`,
+Supports GitHub Actions, CircleCI and GitLab CI (GitHub, GitHub Enterprise and GitLab repos). Failed job logs are fetched and
+parsed (jest, pytest, go test, tsc, eslint) for the fix. CircleCI logs need CIRCLECI_TOKEN - without it, the fix starts from the
+step name and manual logs are asked for if needed.`,
     schema: z.object({
-      prUrl: z.string().describe('PR URL (e.g., https://github.com/owner/repo/pull/123) or short format (owner/repo#123)'),
+      prUrl: z.string().describe('PR URL (e.g., https://github.com/owner/repo/pull/123), GitLab MR URL (.../-/merge_requests/45) or short format (owner/repo#123)'),
     }),
   }
 );
@@ -437,7 +1290,7 @@ export const prProvideLogsTool = tool(
   async () => '',
   {
     name: 'pr_provide_logs',
-    description: 'Provide manual CI logs when the system cannot automatically fetch them (e.g., CircleCI). Use when the system asks for logs.',
+    description: 'Provide manual CI logs when the system cannot automatically fetch them (e.g., CircleCI without CIRCLECI_TOKEN, or expired logs). Use when the system asks for logs.',
     schema: z.object({
       sessionId: z.string().describe('Session ID that needs the logs'),
       logs: z.string().describe('The CI logs to analyze. Paste the relevant failure output.'),
@@ -450,6 +1303,7 @@ export const prSquashCommitsTool = tool(
   {
     name: 'pr_squash_commits',
     description: 'Squash all commits made since watch started into a single commit. Only available after CI passes.',
+    metadata: { invalidates: [{ tool: 'github_get_pr' }, { tool: 'github_list_prs' }] },
     schema: z.object({
       sessionId: z.string().describe('Session ID to squash commits for'),
       message: z.string().describe('Commit message for the squashed commit'),
@@ -457,6 +1311,36 @@ export const prSquashCommitsTool = tool(
   }
 );
 
+export const prFlakyChecksTool = tool(
+  async () => '',
+  {
+    name: 'pr_flaky_checks',
+    description: `Show a repo's CI flakiness history, as recorded by PR watch: how often each check and test failed, on which PRs, and how re-runs turned out.
+PR watch re-runs failures that look flaky (unrelated to the PR's diff, passing on the base branch, or known to flake) instead of asking the coding agent to fix them.
+Use when the user asks which tests are flaky or why a failure was re-run rather than fixed.`,
+    schema: z.object({
+      repo: z.string().describe('Repository URL, or a PR URL / owner/repo#123 in that repo'),
+    }),
+  }
+);
+
+export const prWatchConfigureTool = tool(
+  async () => '',
+  {
+    name: 'pr_watch_configure',
+    description: `Configure how PR watch keeps a repo's PRs up to date with their base branch.
+Updates are off until enabled for a repo. With "rebase" or "merge", when a watched PR falls behind or conflicts with its base, PR watch rebases it onto the base or merges the base in, hands conflicted hunks to the coding agent, and pushes with --force-with-lease.
+checkCommands run locally after the coding agent resolves conflicts (e.g. "npm run build", "npm test"); the push only happens if they all pass.
+They are also the only commands besides local git that the in-process coding agent may run in that repo.
+Omit a field to keep its current value; an empty checkCommands list clears it. Call with just repo to see the current settings.`,
+    schema: z.object({
+      repo: z.string().describe('Repository URL, or a PR URL / owner/repo#123 in that repo'),
+      updateStrategy: z.enum(['rebase', 'merge', 'off']).optional().describe('How to bring a PR up to date with its base ("off" leaves it to the user)'),
+      checkCommands: z.array(z.string()).optional().describe('Shell commands run in the clone before pushing a conflict resolution'),
+    }),
+  }
+);
+
 // Task Executor tools - Autonomous task completion from start to finish
 
 export const taskExecuteStartTool = tool(
@@ -674,6 +1558,7 @@ Returns success/failure with:
 - suggestion: How to fix the error
 
 Checks for uncommitted changes first and provides clear feedback.`,
+    metadata: { invalidates: [{ tool: 'github_get_pr' }, { tool: 'github_list_prs' }] },
     schema: z.object({
       repoPath: z.string().describe('Path to the git repository (relative to WORK_DIRS)'),
       branch: z.string().optional().describe('Branch to push (defaults to current branch)'),
@@ -1035,6 +1920,37 @@ After setting the path, you can retry cursor_start_task.`,
   }
 );
 
+// === CODING AGENT BACKENDS (PR auto-fix and task execution) ===
+
+export const codingAgentStatusTool = tool(
+  async () => '',
+  {
+    name: 'coding_agent_status',
+    description: `Show which coding agent does PR auto-fixes and task execution: cursor (Cursor CLI), aider, command (a configured command template, e.g. "claude -p {prompt}"), or in-process (you edit the repo yourself with the file and shell tools).
+Lists each backend's availability, the saved per-workstream / per-repo / default choices, and the backend that would be used for this workstream and repo.`,
+    schema: z.object({
+      repoUrl: z.string().optional().describe('Repo to resolve the backend for (e.g., https://github.com/org/repo)'),
+    }),
+  }
+);
+
+export const codingAgentSetTool = tool(
+  async () => '',
+  {
+    name: 'coding_agent_set',
+    description: `Choose the coding agent for PR auto-fix and task execution.
+scope "workstream" applies to the current workstream, "repo" to one repo (repoUrl required), "default" to everything else. Most specific wins.
+backend "auto" clears the choice for that scope (auto-detect: cursor, then aider, then command, then in-process).
+For the command backend, pass commandTemplate with {prompt}, {promptFile} and/or {workspace} placeholders.`,
+    schema: z.object({
+      backend: z.enum(['cursor', 'aider', 'command', 'in-process', 'auto']).describe('Coding agent backend, or "auto" to clear'),
+      scope: z.enum(['workstream', 'repo', 'default']).describe('Where the choice applies'),
+      repoUrl: z.string().optional().describe('Repo URL (required for scope "repo")'),
+      commandTemplate: z.string().optional().describe('Command for the "command" backend, e.g. "claude -p {prompt}" or "codex exec {prompt}"'),
+    }),
+  }
+);
+
 // === PROJECT KNOWLEDGE TOOLS - On-demand retrieval ===
 
 export const projectRememberTool = tool(
@@ -1222,13 +2138,15 @@ export const startInvestigationTool = tool(
   async () => '',
   {
     name: 'start_investigation',
-    description: `Create or reuse an investigation workspace with standard structure (alert.txt, logs.json, findings.md).
+    description: `Create or reuse an investigation workspace with standard structure (alert.txt, logs.json, findings.md, incident-timeline.md for FireHydrant incidents, page.md for PagerDuty/Opsgenie pages).
 IMPORTANT: If a similar investigation directory already exists from today, it will be REUSED automatically (prevents duplicate directories on interruption).
 You can also pass existingDir to explicitly reuse a specific directory.`,
     schema: z.object({
       name: z.string().describe('Short name for the investigation (e.g., "identity-service-alert", "api-timeout")'),
       alertContent: z.string().describe('The full alert text or problem description'),
       existingDir: z.string().optional().describe('Optional: path to existing directory to reuse (avoids creating duplicates)'),
+      incidentId: z.string().optional().describe('Optional: FireHydrant incident ID - its timeline is pulled into the workspace (detected automatically from incident URLs in alertContent)'),
+      pageId: z.string().optional().describe('Optional: PagerDuty incident / Opsgenie alert ID the investigation starts from - the page and its notes are pulled into page.md (detected automatically from page URLs in alertContent)'),
     }),
   }
 );
@@ -1641,6 +2559,89 @@ This skips the approval flow since user explicitly requested it.`,
   }
 );
 
+// === GOOGLE DOCS TOOLS ===
+
+export const googleDocsGetTool = tool(
+  async () => '',
+  {
+    name: 'google_docs_get',
+    description: 'Read a Google Doc (title, plain-text content, last modified) by URL or ID.',
+    metadata: { cache: { ttlMs: 5 * 60 * 1000 } },
+    schema: z.object({
+      docUrl: z.string().describe('Google Doc URL or document ID'),
+    }),
+  }
+);
+
+export const googleDocsGetCommentsTool = tool(
+  async () => '',
+  {
+    name: 'google_docs_get_comments',
+    description: 'Get comments on a Google Doc with their replies, resolved state and the quoted text. Use the comment id to reply or resolve.',
+    metadata: { cache: { ttlMs: 2 * 60 * 1000 } },
+    schema: z.object({
+      docUrl: z.string().describe('Google Doc URL or document ID'),
+      includeResolved: z.boolean().optional().describe('Include resolved comments (default: false)'),
+    }),
+  }
+);
+
+export const googleDocsAppendTool = tool(
+  async () => '',
+  {
+    name: 'google_docs_append',
+    description: 'Append text to the end of a Google Doc, optionally under a new heading. Fails if the doc was edited while appending.',
+    metadata: { invalidates: [{ tool: 'google_docs_get', matchArgs: ['docUrl'] }] },
+    schema: z.object({
+      docUrl: z.string().describe('Google Doc URL or document ID'),
+      text: z.string().describe('Plain text to append (newlines start new paragraphs)'),
+      heading: z.string().optional().describe('Heading to add above the text'),
+    }),
+  }
+);
+
+export const googleDocsReplyCommentTool = tool(
+  async () => '',
+  {
+    name: 'google_docs_reply_comment',
+    description: 'Reply to a comment on a Google Doc (comment id from google_docs_get_comments), optionally resolving it.',
+    metadata: { invalidates: [{ tool: 'google_docs_get_comments', matchArgs: ['docUrl'] }] },
+    schema: z.object({
+      docUrl: z.string().describe('Google Doc URL or document ID'),
+      commentId: z.string().describe('Comment ID'),
+      content: z.string().describe('Reply text'),
+      resolve: z.boolean().optional().describe('Also resolve the comment (default: false)'),
+    }),
+  }
+);
+
+export const googleDocsResolveCommentTool = tool(
+  async () => '',
+  {
+    name: 'google_docs_resolve_comment',
+    description: 'Resolve a comment thread on a Google Doc, with an optional closing reply.',
+    metadata: { invalidates: [{ tool: 'google_docs_get_comments', matchArgs: ['docUrl'] }] },
+    schema: z.object({
+      docUrl: z.string().describe('Google Doc URL or document ID'),
+      commentId: z.string().describe('Comment ID'),
+      content: z.string().optional().describe('Closing reply (optional)'),
+    }),
+  }
+);
+
+export const googleDocsCreateTool = tool(
+  async () => '',
+  {
+    name: 'google_docs_create',
+    description: 'Create a Google Doc from Markdown (headings, lists, tables and code keep their formatting). ONLY use when the user asks for a new doc.',
+    schema: z.object({
+      title: z.string().describe('Document title'),
+      markdown: z.string().describe('Document content (Markdown)'),
+      folderId: z.string().optional().describe('Drive folder ID to create the doc in (default: My Drive)'),
+    }),
+  }
+);
+
 // === PDP (Personal Development Plan) TOOLS ===
 
 export const setPDPGoogleDocTool = tool(
@@ -1665,6 +2666,17 @@ export const syncPDPTool = tool(
   }
 );
 
+export const postPDPProgressTool = tool(
+  async () => '',
+  {
+    name: 'post_pdp_progress',
+    description: 'Append a dated progress update to the PDP Google Doc: active goals with progress, goals completed since the last update, and an optional note.',
+    schema: z.object({
+      note: z.string().optional().describe('Free-text note to add under the goal list'),
+    }),
+  }
+);
+
 export const getPDPSummaryTool = tool(
   async () => '',
   {
@@ -1776,7 +2788,7 @@ export const collectGoogleDocsAchievementsTool = tool(
   async () => '',
   {
     name: 'collect_google_docs_achievements',
-    description: 'Collect Google Docs you created as achievements. Requires OAuth access token.',
+    description: 'Collect Google Docs you created as achievements. Requires a Google login (hn work-google-login) or OAuth access token.',
     schema: z.object({
       query: z.string().optional().describe('Optional title filter'),
     }),
@@ -1847,8 +2859,23 @@ export const exportAchievementsTool = tool(
   }
 );
 
+export const writeBragDocTool = tool(
+  async () => '',
+  {
+    name: 'write_brag_doc',
+    description: `Write the achievements summary (brag doc) to Google Docs.
+Appends a dated section to docUrl or the brag doc from a previous run; the first run creates a new doc and remembers it.`,
+    schema: z.object({
+      period: z.enum(['week', 'month', 'quarter', 'year']).optional().describe('Time period (default: all achievements)'),
+      docUrl: z.string().optional().describe('Existing Google Doc to append to'),
+      title: z.string().optional().describe('Doc title (new doc) or section heading (append)'),
+    }),
+  }
+);
+
 // === SLACK BROWSER TOOLS ===
 // Browser automation for Slack web UI (no API key required)
+// With SLACK_USER_TOKEN / SLACK_BOT_TOKEN set the same tools use the Slack Web API instead
 
 export const slackOpenBrowserTool = tool(
   async () => '',
@@ -1869,7 +2896,9 @@ CRITICAL WORKFLOW - FOLLOW EXACTLY:
      b. Call slack_wait_for_login IMMEDIATELY (in the same response - don't wait for user to say "I'm logged in")
 3. After slack_wait_for_login succeeds, proceed with other Slack operations
 
-IMPORTANT: slack_wait_for_login POLLS automatically - you don't need to wait for user confirmation!`,
+IMPORTANT: slack_wait_for_login POLLS automatically - you don't need to wait for user confirmation!
+
+With a Slack token configured (Web API backend) no browser is opened - this returns needsLogin: false immediately.`,
     schema: z.object({
       workspaceUrl: z.string().describe('Slack workspace URL (e.g., https://yourcompany.slack.com or https://app.slack.com/client/T12345)'),
     }),
@@ -1906,7 +2935,7 @@ export const slackGetStatusTool = tool(
   async () => '',
   {
     name: 'slack_status',
-    description: 'Get the current Slack browser status: whether it is open, logged in, current channel, etc.',
+    description: 'Get the current Slack status: backend ("browser" or "api"), whether it is open and logged in, current channel, etc.',
     schema: z.object({}),
   }
 );
@@ -1949,9 +2978,14 @@ Returns author, timestamp, content, thread replies count, and reactions.
 NOTE: This only reads messages currently visible on screen. 
 - If you're looking for messages from TODAY (0 days ago), they are usually at the BOTTOM. 
 - Use slack_scroll_to_bottom first to be sure you are at the end of the channel.
-- The 'limit' parameter caps how many visible messages to return, but does NOT load more messages.`,
+- The 'limit' parameter caps how many visible messages to return, but does NOT load more messages.
+
+With the Web API backend (slack_status backend: "api") this returns the latest messages directly, each with
+a stable 'ts' - pass that ts to slack_reply / slack_react / slack_read_thread / slack_get_message_url.
+Use 'before' with the ts of the oldest message to page back instead of scrolling.`,
     schema: z.object({
       limit: z.number().optional().describe('Maximum number of currently visible messages to read (default: 20)'),
+      before: z.string().optional().describe('Web API backend only: return messages older than this ts'),
     }),
   }
 );
@@ -2121,9 +3155,12 @@ export const slackReactToMessageTool = tool(
     name: 'slack_react',
     description: `React to a message with an emoji.
 First use slack_read_messages to get the list of messages, then use the index (0-based) to react.
+With the Web API backend, pass the message ts instead.
 The emoji should be the name (e.g., "+1", "heart", "eyes", "fire").`,
     schema: z.object({
-      messageIndex: z.number().describe('Index of the message to react to (0 = first/oldest visible message)'),
+      messageIndex: z.number().optional().describe('Index of the message to react to (0 = first/oldest visible message)'),
+      ts: z.string().optional().describe('Web API backend: the message ts from slack_read_messages (preferred over messageIndex)'),
+      channel: z.string().optional().describe('Web API backend: channel ID or name the ts belongs to (default: current channel)'),
       emoji: z.string().describe('Emoji name to react with (e.g., "+1", "heart", "fire", "eyes")'),
     }),
   }
@@ -2135,9 +3172,11 @@ export const slackReplyToMessageTool = tool(
     name: 'slack_reply',
     description: `Reply to a message in a thread.
 First use slack_read_messages to get the list of messages, then use the index (0-based) to reply.
-This opens the thread and sends a reply.`,
+This opens the thread and sends a reply. With the Web API backend, pass the message ts instead.`,
     schema: z.object({
-      messageIndex: z.number().describe('Index of the message to reply to (0 = first/oldest visible message)'),
+      messageIndex: z.number().optional().describe('Index of the message to reply to (0 = first/oldest visible message)'),
+      ts: z.string().optional().describe('Web API backend: the message ts from slack_read_messages (preferred over messageIndex)'),
+      channel: z.string().optional().describe('Web API backend: channel ID or name the ts belongs to (default: current channel)'),
       replyText: z.string().describe('The text of your reply'),
     }),
   }
@@ -2167,9 +3206,12 @@ export const slackReadThreadTool = tool(
     description: `Open and read a thread's full content (parent message + all replies).
 First use slack_read_messages to see the channel messages, then use the index of the message 
 that has a thread to read its full content. Returns all messages in the thread plus the thread URL if available.
-Perfect for: "turn that thread into a task" - read the thread, then create_task with the content.`,
+Perfect for: "turn that thread into a task" - read the thread, then create_task with the content.
+With the Web API backend, pass the message ts instead.`,
     schema: z.object({
-      messageIndex: z.number().describe('Index of the message with the thread (0 = first visible message)'),
+      messageIndex: z.number().optional().describe('Index of the message with the thread (0 = first visible message)'),
+      ts: z.string().optional().describe('Web API backend: the message ts from slack_read_messages (preferred over messageIndex)'),
+      channel: z.string().optional().describe('Web API backend: channel ID or name the ts belongs to (default: current channel)'),
     }),
   }
 );
@@ -2180,9 +3222,27 @@ export const slackGetMessageUrlTool = tool(
     name: 'slack_get_message_url',
     description: `Get the shareable URL for a specific message.
 Uses Slack's "Copy link" feature to get the permalink.
-Useful for saving references to messages when creating tasks.`,
+Useful for saving references to messages when creating tasks.
+With the Web API backend, pass the message ts instead.`,
+    schema: z.object({
+      messageIndex: z.number().optional().describe('Index of the message to get URL for (0 = first visible message)'),
+      ts: z.string().optional().describe('Web API backend: the message ts from slack_read_messages (preferred over messageIndex)'),
+      channel: z.string().optional().describe('Web API backend: channel ID or name the ts belongs to (default: current channel)'),
+    }),
+  }
+);
+
+export const slackSearchMessagesTool = tool(
+  async () => '',
+  {
+    name: 'slack_search_messages',
+    description: `Search messages across the whole Slack workspace (Web API backend with SLACK_USER_TOKEN only).
+Supports Slack search syntax: "deploy failed in:#incidents from:@jane after:2024-06-01".
+Returns matches newest first, each with channelName, ts, channelId and permalink - use ts + channel
+with slack_read_thread or slack_reply.`,
     schema: z.object({
-      messageIndex: z.number().describe('Index of the message to get URL for (0 = first visible message)'),
+      query: z.string().describe('Slack search query'),
+      limit: z.number().optional().describe('Maximum matches to return (default: 20, max: 100)'),
     }),
   }
 );
@@ -0,0 +1,434 @@
+// Tool execution metadata for the work agent
+// Describes how each tool may be scheduled and gated: access level, parallel-safe, timeouts.
+// Every built-in tool is listed; anything else (a tool nobody classified) is gated like an external write.
+// Result caching is declared on each tool definition (metadata.cache / metadata.invalidates).
+
+import * as toolDefinitions from './tool-definitions.js';
+import type { ToolInvalidation } from '../storage/tool-cache.js';
+
+// read           - no side effects
+// write-internal - changes local state only (workspace files, tasks, memories)
+// write-external - visible to other people or remote systems; requires user approval
+export type ToolAccess = 'read' | 'write-internal' | 'write-external';
+
+export interface ToolMetadata {
+  access: ToolAccess;
+  // May run concurrently with other parallel calls from the same AI message
+  // Defaults to true for reads. Reads that drive a shared browser/terminal must set false.
+  parallel?: boolean;
+  // Per-call timeout when run in parallel (default: DEFAULT_TOOL_TIMEOUT_MS)
+  timeoutMs?: number;
+  // Argument the user may edit in the approval dialog (write-external only)
+  editableField?: string;
+  // Ask every time - "always approve" is not offered or honored (write-external only)
+  alwaysConfirm?: boolean;
+}
+
+// Max tool calls from a single AI message running at once
+export const MAX_PARALLEL_TOOL_CALLS = 4;
+
+// Default per-call timeout for parallel tool calls
+export const DEFAULT_TOOL_TIMEOUT_MS = 60 * 1000;
+
+const READ: ToolMetadata = { access: 'read' };
+const READ_SLOW: ToolMetadata = { access: 'read', timeoutMs: 3 * 60 * 1000 };
+// Reads that share a single browser page or session - never concurrent
+const READ_SERIAL: ToolMetadata = { access: 'read', parallel: false };
+const INTERNAL: ToolMetadata = { access: 'write-internal' };
+const EXTERNAL: ToolMetadata = { access: 'write-external' };
+
+// Silencing alerts hides pages from everyone on call - never auto-approved
+const CONFIRM: ToolMetadata = { access: 'write-external', alwaysConfirm: true };
+
+function external(editableField: string): ToolMetadata {
+  return { access: 'write-external', editableField };
+}
+
+const TOOL_METADATA: Record<string, ToolMetadata> = {
+  // JIRA
+  jira_get_ticket: READ,
+  jira_search: READ,
+  jira_unassigned_tickets: READ,
+  jira_backlog: READ,
+  jira_board: READ,
+  jira_get_transitions: READ,
+
+  // Confluence
+  confluence_search: READ,
+  confluence_list_spaces: READ,
+  confluence_get_page: READ,
+  confluence_get_comments: READ,
+  confluence_get_versions: READ,
+  confluence_diff_versions: READ,
+  google_docs_get: READ,
+  google_docs_get_comments: READ,
+
+  // FireHydrant
+  firehydrant_search_incidents: READ,
+  firehydrant_get_incident: READ,
+  firehydrant_recent_incidents: READ,
+  firehydrant_get_timeline: READ,
+  firehydrant_get_roles: READ,
+  firehydrant_get_runbooks: READ,
+  oncall_who_is_on_call: READ,
+  oncall_list_pages: READ,
+  oncall_get_page: READ,
+
+  // Datadog
+  datadog_search_logs: READ_SLOW,
+  datadog_get_monitors: READ,
+  datadog_get_request_trace: READ_SLOW,
+  datadog_search_traces: READ_SLOW,
+  datadog_get_trace: READ_SLOW,
+  datadog_search_error_issues: READ,
+  datadog_get_error_issue: READ,
+  datadog_list_downtimes: READ,
+  datadog_get_monitor_history: READ,
+  datadog_search_slos: READ,
+  datadog_get_slo_status: READ,
+  datadog_query_metrics: READ,
+  datadog_dbm_query_metrics: READ,
+  datadog_dbm_index_metrics: READ,
+  datadog_dbm_host_metrics: READ,
+
+  // GitHub
+  github_list_prs: READ,
+  github_get_pr: READ,
+  github_search_prs_by_author: READ,
+  github_get_pr_checks: READ,
+  github_get_pr_comments: READ,
+  pr_watch_status: READ,
+  pr_flaky_checks: READ,
+
+  // Workspace files and git
+  read_file: READ,
+  list_directory: READ,
+  path_exists: READ,
+  git_status: READ,
+  list_cloned_repos: READ,
+  analyze_logs_structured: READ,
+
+  // Infrastructure (read-only kubectl/tsh queries)
+  infra_tsh_status: READ,
+  infra_list_kube_envs: READ,
+  infra_search_databases: READ,
+  infra_get_pods: READ,
+  infra_get_pod_logs: READ_SLOW,
+  infra_describe_pod: READ,
+  infra_search_knowledge: READ,
+  infra_get_knowledge: READ,
+  infra_list_sessions: READ,
+
+  // Cursor
+  cursor_get_status: READ,
+  cursor_verify_changes: READ,
+  coding_agent_status: READ,
+
+  // Local stores (projects, tasks, reminders, trash, characters, PDP, achievements)
+  project_search: READ,
+  project_get: READ,
+  project_list: READ,
+  list_tasks: READ,
+  search_tasks: READ,
+  get_task_context: READ,
+  check_task_progress: READ,
+  list_reminders: READ,
+  trash_list: READ,
+  trash_search: READ,
+  trash_stats: READ,
+  list_characters: READ,
+  get_pdp_summary: READ,
+  list_pdp_goals: READ,
+  get_achievements_summary: READ,
+  list_achievements: READ,
+  advice_monitoring_list: READ,
+  advice_monitoring_status: READ,
+  advice_topics_list: READ,
+  advice_topics_view: READ,
+  task_execute_status: READ,
+  get_profile_config: READ,
+  get_review_session: READ,
+  get_workspace_state: READ,
+
+  // Web (HTTP fetch - no shared browser)
+  fetch_url: READ,
+  web_search: READ,
+  search_and_fetch: READ,
+
+  // Browser-driven reads - one page, so serialized
+  slack_status: READ_SERIAL,
+  slack_read_messages: READ_SERIAL,
+  slack_read_thread: READ_SERIAL,
+  slack_list_channels: READ_SERIAL,
+  slack_search_channel_get_results: READ_SERIAL,
+  slack_get_message_url: READ_SERIAL,
+  slack_query_ai: READ_SERIAL,
+  slack_search_messages: READ_SERIAL,
+  web_status: READ_SERIAL,
+  web_read_page: READ_SERIAL,
+  web_get_interactive_elements: READ_SERIAL,
+  web_take_screenshot: READ_SERIAL,
+
+  // External writes - paused for user approval before running
+  jira_create_ticket: external('description'),
+  jira_add_comment: external('comment'),
+  jira_transition_ticket: external('comment'),
+  jira_assign_ticket: EXTERNAL,
+  jira_log_work: external('comment'),
+  jira_update_fields: EXTERNAL,
+  jira_link_tickets: EXTERNAL,
+  jira_create_subtask: external('description'),
+  github_create_pr: external('body'),
+  github_update_pr: EXTERNAL,
+  github_request_reviewers: EXTERNAL,
+  github_comment_on_pr: external('body'),
+  github_reply_to_review_comment: external('body'),
+  github_resolve_review_thread: EXTERNAL,
+  github_submit_review: external('body'),
+  github_add_labels: EXTERNAL,
+  github_merge_pr: EXTERNAL,
+  firehydrant_add_note: external('body'),
+  firehydrant_assign_role: EXTERNAL,
+  firehydrant_update_incident: external('note'),
+  oncall_acknowledge_page: CONFIRM,
+  oncall_resolve_page: CONFIRM,
+  oncall_add_note: external('content'),
+  datadog_mute_monitor: CONFIRM,
+  datadog_unmute_monitor: CONFIRM,
+  datadog_schedule_downtime: CONFIRM,
+  datadog_cancel_downtime: CONFIRM,
+  confluence_create_page: external('content'),
+  confluence_update_page: external('content'),
+  confluence_reply_to_comment: external('body'),
+  confluence_update_labels: EXTERNAL,
+  google_docs_append: external('text'),
+  google_docs_reply_comment: external('content'),
+  google_docs_resolve_comment: EXTERNAL,
+  google_docs_create: external('markdown'),
+  post_pdp_progress: EXTERNAL,
+  write_brag_doc: EXTERNAL,
+  slack_send_message: external('text'),
+  slack_reply: external('replyText'),
+  slack_react: EXTERNAL,
+  git_push: EXTERNAL,
+  pr_squash_commits: external('message'),
+  shell_command: external('command'),
+  infra_run_command: external('command'),
+  web_submit_form: EXTERNAL,
+  web_fill_form: EXTERNAL,
+  web_click_element: external('description'),
+  // Start work that commits, pushes, opens PRs or moves tickets on its own
+  pr_watch_start: EXTERNAL,
+  pr_watch_configure: EXTERNAL,
+  pr_provide_logs: EXTERNAL,
+  task_execute_start: EXTERNAL,
+  task_execute_choice: EXTERNAL,
+  cursor_start_task: external('prompt'),
+  cursor_continue: external('prompt'),
+
+  // Internal writes - local state, local git and local sessions only
+  git_commit_all: INTERNAL,
+  checkout_branch: INTERNAL,
+  clone_repo: INTERNAL,
+  release_branch_lock: INTERNAL,
+  write_file: INTERNAL,
+  create_directory: INTERNAL,
+  save_workspace_state: INTERNAL,
+  pr_watch_stop: INTERNAL,
+  task_execute_stop: INTERNAL,
+  coding_agent_set: INTERNAL,
+  create_cursor_handoff: INTERNAL,
+  cursor_end_session: INTERNAL,
+  cursor_force_cleanup: INTERNAL,
+  cursor_login: INTERNAL,
+  cursor_set_cli_path: INTERNAL,
+  infra_tsh_login: INTERNAL,
+  infra_login_kube: INTERNAL,
+  infra_open_terminal: INTERNAL,
+  infra_port_forward: INTERNAL,
+  infra_proxy_database: INTERNAL,
+  infra_end_session: INTERNAL,
+  infra_remember: INTERNAL,
+  datadog_multi_search: INTERNAL,
+  search_and_save_logs: INTERNAL,
+  save_logs_to_investigation: INTERNAL,
+  start_investigation: INTERNAL,
+  add_finding: INTERNAL,
+  firehydrant_incident_changes: INTERNAL,
+  save_jira_ticket: INTERNAL,
+  save_jira_tickets: INTERNAL,
+  project_remember: INTERNAL,
+  project_delete: INTERNAL,
+  set_project: INTERNAL,
+  remember: INTERNAL,
+  propose_memory: INTERNAL,
+  add_tech_doc_link: INTERNAL,
+  create_task: INTERNAL,
+  update_task: INTERNAL,
+  complete_task: INTERNAL,
+  delete_task: INTERNAL,
+  start_task: INTERNAL,
+  update_checklist: INTERNAL,
+  create_reminder: INTERNAL,
+  delete_reminder: INTERNAL,
+  acknowledge_reminder: INTERNAL,
+  check_deadline_reminders: INTERNAL,
+  record_deadline_reminder: INTERNAL,
+  trash_restore: INTERNAL,
+  create_character: INTERNAL,
+  delete_character: INTERNAL,
+  set_cv: INTERNAL,
+  set_linkedin: INTERNAL,
+  start_profile_review: INTERNAL,
+  complete_profile_review: INTERNAL,
+  approve_recommendation: INTERNAL,
+  add_pdp_goal: INTERNAL,
+  update_pdp_goal: INTERNAL,
+  set_pdp_google_doc: INTERNAL,
+  sync_pdp: INTERNAL,
+  add_achievement: INTERNAL,
+  link_achievement_to_goal: INTERNAL,
+  set_achievement_config: INTERNAL,
+  export_achievements: INTERNAL,
+  collect_jira_achievements: INTERNAL,
+  collect_confluence_achievements: INTERNAL,
+  collect_google_docs_achievements: INTERNAL,
+  advice_monitoring_add: INTERNAL,
+  advice_monitoring_remove: INTERNAL,
+  advice_monitoring_toggle: INTERNAL,
+  advice_monitoring_set_interval: INTERNAL,
+  advice_monitoring_set_vip: INTERNAL,
+  advice_monitoring_scan: INTERNAL,
+  advice_topics_dismiss: INTERNAL,
+  advice_topics_mark_read: INTERNAL,
+
+  // Browser navigation - drives the shared page, visible to nobody else
+  slack_open_browser: INTERNAL,
+  slack_close_browser: INTERNAL,
+  slack_wait_for_login: INTERNAL,
+  slack_navigate_channel: INTERNAL,
+  slack_navigate_to_url: INTERNAL,
+  slack_quick_open: INTERNAL,
+  slack_select_search_result: INTERNAL,
+  slack_scroll_messages: INTERNAL,
+  slack_scroll_sidebar: INTERNAL,
+  slack_scroll_to_bottom: INTERNAL,
+  slack_close_thread: INTERNAL,
+  slack_take_screenshot: INTERNAL,
+  slack_debug_scroll: INTERNAL,
+  web_open_browser: INTERNAL,
+  web_close_browser: INTERNAL,
+  web_navigate: INTERNAL,
+  web_go_back: INTERNAL,
+  web_go_forward: INTERNAL,
+  web_scroll: INTERNAL,
+};
+
+// Tools registered at runtime (plugins)
+const _registeredMetadata = new Map<string, ToolMetadata>();
+
+/**
+ * Get execution metadata for a tool (unclassified tools need approval, like external writes)
+ */
+export function getToolMetadata(toolName: string): ToolMetadata {
+  return TOOL_METADATA[toolName] || _registeredMetadata.get(toolName) || EXTERNAL;
+}
+
+// Calls whose arguments make them riskier than the tool's usual classification
+// A coding agent command template runs as a shell command later, during unattended PR fixes,
+// so saving one is gated like shell_command - and confirmed every time.
+// An advice scan with auto-response posts Slack replies to VIPs without asking per reply.
+// PR watch check commands run through a shell during unattended branch updates and widen what the
+// in-process coding agent may run; a pr_watch_configure call that changes nothing is just a read.
+const ARGUMENT_GATES: Record<string, (args: Record<string, unknown>) => ToolMetadata | undefined> = {
+  coding_agent_set: args => args.commandTemplate
+    ? { access: 'write-external', editableField: 'commandTemplate', alwaysConfirm: true }
+    : undefined,
+  advice_monitoring_scan: args => args.allowAutoResponse ? CONFIRM : undefined,
+  pr_watch_configure: args => {
+    if (args.checkCommands !== undefined) {
+      return { access: 'write-external', editableField: 'checkCommands', alwaysConfirm: true };
+    }
+    return args.updateStrategy === undefined ? READ : undefined;
+  },
+};
+
+/**
+ * Get execution metadata for a specific tool call, taking its arguments into account
+ */
+export function getToolCallMetadata(toolName: string, args: Record<string, unknown>): ToolMetadata {
+  return ARGUMENT_GATES[toolName]?.(args) ?? getToolMetadata(toolName);
+}
+
+/**
+ * Whether a tool call may run concurrently with other parallel-safe calls
+ */
+export function isParallelSafe(toolName: string): boolean {
+  const metadata = getToolMetadata(toolName);
+  return metadata.parallel ?? metadata.access === 'read';
+}
+
+export function getToolTimeout(toolName: string): number {
+  return getToolMetadata(toolName).timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+}
+
+/**
+ * Cache declaration on a tool definition: metadata: { cache: { ttlMs } }
+ */
+export interface ToolCachePolicy {
+  ttlMs: number;
+}
+
+export interface ToolDefinitionMetadata {
+  cache?: ToolCachePolicy;
+  invalidates?: ToolInvalidation[];
+}
+
+let _definitionMetadata: Map<string, ToolDefinitionMetadata> | null = null;
+const _registeredDefinitionMetadata = new Map<string, ToolDefinitionMetadata>();
+
+function getDefinitionMetadata(toolName: string): ToolDefinitionMetadata | undefined {
+  if (!_definitionMetadata) {
+    _definitionMetadata = new Map();
+    for (const definition of Object.values(toolDefinitions)) {
+      if (definition.metadata) {
+        _definitionMetadata.set(definition.name, definition.metadata as ToolDefinitionMetadata);
+      }
+    }
+  }
+  return _definitionMetadata.get(toolName) ?? _registeredDefinitionMetadata.get(toolName);
+}
+
+/**
+ * Whether a tool name belongs to a built-in tool definition
+ */
+export function isBuiltinTool(toolName: string): boolean {
+  return Object.values(toolDefinitions).some(definition => definition.name === toolName);
+}
+
+/**
+ * Register scheduling, approval and cache metadata for a tool defined at runtime
+ * Built-in entries always win, so a registration cannot loosen a built-in tool's gate.
+ */
+export function registerToolMetadata(
+  toolName: string,
+  metadata: ToolMetadata,
+  definitionMetadata: ToolDefinitionMetadata = {}
+): void {
+  _registeredMetadata.set(toolName, metadata);
+  _registeredDefinitionMetadata.set(toolName, definitionMetadata);
+}
+
+/**
+ * Cache policy for a tool, or undefined if its results must not be cached
+ */
+export function getToolCachePolicy(toolName: string): ToolCachePolicy | undefined {
+  return getDefinitionMetadata(toolName)?.cache;
+}
+
+/**
+ * Cached results a tool makes stale when it runs
+ */
+export function getToolInvalidations(toolName: string): ToolInvalidation[] {
+  return getDefinitionMetadata(toolName)?.invalidates || [];
+}
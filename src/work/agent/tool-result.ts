@@ -0,0 +1,97 @@
+// Structured tool results
+// executeTool returns an envelope instead of a bare string, so the agent loop decides
+// success from `ok` rather than searching the output for "error" - a Jira ticket or log
+// line that mentions an error is still a successful read.
+
+import { ApiError, ApiErrorCode } from '../clients/http.js';
+
+export type ToolErrorCode =
+  | ApiErrorCode
+  | 'not_configured'
+  | 'rejected'
+  | 'timeout'
+  | 'unknown_tool';
+
+export interface ToolResult {
+  ok: boolean;
+  data: string;             // Content the model sees (usually JSON)
+  errorCode?: ToolErrorCode;
+  retryable?: boolean;      // Worth trying again later (rate limits, outages, timeouts)
+  message?: string;         // Short user-facing summary of a failure
+}
+
+/**
+ * Successful result
+ */
+export function toolSuccess(data: string): ToolResult {
+  return { ok: true, data };
+}
+
+/**
+ * Failed result; the model sees the message plus the code and retry hint
+ */
+export function toolFailure(
+  errorCode: ToolErrorCode,
+  message: string,
+  options: { retryable?: boolean; details?: Record<string, unknown> } = {}
+): ToolResult {
+  const retryable = options.retryable ?? false;
+  return {
+    ok: false,
+    data: JSON.stringify({ error: message, ...options.details, errorCode, retryable }),
+    errorCode,
+    retryable,
+    message,
+  };
+}
+
+/**
+ * Failure for an integration that has no credentials (or is disabled)
+ */
+export function toolNotConfigured(message: string): ToolResult {
+  return toolFailure('not_configured', message);
+}
+
+/**
+ * Classify raw tool output
+ * Only the top level of a JSON object counts: an `error` field, or `success: false`.
+ * Errors nested in returned data (ticket text, log lines) are not failures.
+ */
+export function toolResultFromOutput(raw: string): ToolResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return toolSuccess(raw);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return toolSuccess(raw);
+  }
+
+  const output = parsed as { error?: unknown; success?: unknown; message?: unknown; rejected?: unknown };
+  if (output.rejected === true) {
+    return { ok: false, data: raw, errorCode: 'rejected', retryable: false, message: 'Rejected by user' };
+  }
+  const failed = output.success === false || (output.success !== true && typeof output.error === 'string' && output.error !== '');
+  if (!failed) {
+    return toolSuccess(raw);
+  }
+
+  const message = typeof output.error === 'string' && output.error
+    ? output.error
+    : typeof output.message === 'string' && output.message ? output.message : 'Tool reported failure';
+  return { ok: false, data: raw, errorCode: 'failed', retryable: false, message };
+}
+
+/**
+ * Failure for a thrown error, using the ApiError classification if one is in the cause chain
+ */
+export function toolResultFromError(error: unknown): ToolResult {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  for (let cause: unknown = error; cause instanceof Error; cause = cause.cause) {
+    if (cause instanceof ApiError) {
+      return toolFailure(cause.code, message, { retryable: cause.retryable });
+    }
+  }
+  return toolFailure('failed', message);
+}
@@ -0,0 +1,79 @@
+// Tool call scheduling for the work agent
+// Groups the tool calls of one AI message into batches: consecutive parallel-safe calls
+// share a batch and run concurrently; every other call runs alone, in order.
+
+import { isParallelSafe } from './tool-metadata.js';
+import { ToolResult, toolFailure } from './tool-result.js';
+
+export interface ToolBatch<T> {
+  parallel: boolean;
+  // Items with their index in the original tool_calls array
+  items: Array<{ index: number; call: T }>;
+}
+
+/**
+ * Split tool calls into ordered batches
+ * Write tools act as barriers so they never overlap with reads before or after them
+ */
+export function planToolBatches<T extends { name: string }>(calls: T[]): ToolBatch<T>[] {
+  const batches: ToolBatch<T>[] = [];
+
+  calls.forEach((call, index) => {
+    const parallel = isParallelSafe(call.name);
+    const last = batches[batches.length - 1];
+    if (parallel && last?.parallel) {
+      last.items.push({ index, call });
+    } else {
+      batches.push({ parallel, items: [{ index, call }] });
+    }
+  });
+
+  return batches;
+}
+
+/**
+ * Map over items with at most `limit` promises in flight
+ * Results keep the input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Resolve to a tool error result if the call takes longer than timeoutMs
+ * The underlying call is not cancelled - its late result is discarded
+ */
+export async function withToolTimeout(
+  toolName: string,
+  promise: Promise<ToolResult>,
+  timeoutMs: number
+): Promise<ToolResult> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<ToolResult>(resolve => {
+    timer = setTimeout(() => {
+      resolve(toolFailure('timeout', `Tool ${toolName} timed out after ${Math.round(timeoutMs / 1000)}s`, { retryable: true }));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -1,8 +1,9 @@
 // AI Model Configuration
 // Centralized configuration for different AI use cases
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { PersonalityConfig, CharacterConfig } from './types.js';
+import { createTextModel, TextModel } from './providers/index.js';
+import type { UsageSource } from './storage/usage.js';
 
 /**
  * Model for standard assistant interactions (chat, analysis)
@@ -18,19 +19,19 @@ export const STANDARD_MODEL = 'gemini-3-flash-preview';
 export const EXTERNAL_COMMS_MODEL = 'gemini-3-pro-preview';
 
 /**
- * Get Gemini AI instance
+ * Resolve the standard model spec
+ * Precedence: explicit override (e.g. workstream modelConfig) > WORK_STANDARD_MODEL env > default
  */
-let genAI: GoogleGenerativeAI | null = null;
+export function resolveStandardModel(override?: string): string {
+  return override || process.env.WORK_STANDARD_MODEL || STANDARD_MODEL;
+}
 
-export function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY not found in environment');
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
+/**
+ * Resolve the external communications model spec
+ * Precedence: explicit override (e.g. workstream modelConfig) > WORK_EXTERNAL_COMMS_MODEL env > default
+ */
+export function resolveExternalCommsModel(override?: string): string {
+  return override || process.env.WORK_EXTERNAL_COMMS_MODEL || EXTERNAL_COMMS_MODEL;
 }
 
 /**
@@ -68,30 +69,19 @@ export function getPersonalityContext(personality: PersonalityConfig, character:
 /**
  * Create a model instance for external communications
  * @param temperature - Temperature setting for the model (default: 0.3)
- * @param modelOverride - Override the default model (optional)
+ * @param modelOverride - Override the default model spec, e.g. "anthropic:claude-sonnet-4-5" (optional)
  */
-export function createExternalCommsModel(temperature: number = 0.3, modelOverride?: string) {
-  const ai = getGenAI();
-  return ai.getGenerativeModel({
-    model: modelOverride || EXTERNAL_COMMS_MODEL,
-    generationConfig: {
-      temperature,
-    },
-  });
+export function createExternalCommsModel(temperature: number = 0.3, modelOverride?: string): TextModel {
+  return createTextModel(resolveExternalCommsModel(modelOverride), { temperature, usageSource: 'external_comms' });
 }
 
 /**
  * Create a model instance for standard interactions
  * @param temperature - Temperature setting for the model (default: 0.3)
- * @param modelOverride - Override the default model (optional)
+ * @param modelOverride - Override the default model spec, e.g. "anthropic:claude-sonnet-4-5" (optional)
+ * @param usageSource - Label for usage accounting (default: 'standard')
  */
-export function createStandardModel(temperature: number = 0.3, modelOverride?: string) {
-  const ai = getGenAI();
-  return ai.getGenerativeModel({
-    model: modelOverride || STANDARD_MODEL,
-    generationConfig: {
-      temperature,
-    },
-  });
+export function createStandardModel(temperature: number = 0.3, modelOverride?: string, usageSource: UsageSource = 'standard'): TextModel {
+  return createTextModel(resolveStandardModel(modelOverride), { temperature, usageSource });
 }
 
@@ -0,0 +1,195 @@
+// Analysis and reporting for model usage and spend
+
+import { readUsageRecords, ModelUsageRecord } from '../storage/usage.js';
+import { getModelPriceOverrides, ModelPrice } from '../storage/preferences.js';
+import { parseModelSpec } from '../providers/index.js';
+import { resolveModelPrice, estimateCost } from '../providers/pricing.js';
+
+// ===== ANALYSIS TYPES =====
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD, priced calls only
+}
+
+export interface UsageBreakdownRow extends UsageTotals {
+  key: string;
+}
+
+export interface ModelUsageReport {
+  days: number;
+  today: UsageTotals;
+  period: UsageTotals;
+  daily: Array<{ date: string } & UsageTotals>;
+  byWorkstream: UsageBreakdownRow[];
+  byTool: UsageBreakdownRow[];
+  byModel: UsageBreakdownRow[];
+  bySource: UsageBreakdownRow[];
+  unpricedModels: string[];
+}
+
+// ===== ANALYSIS FUNCTIONS =====
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function addTo(totals: UsageTotals, record: ModelUsageRecord, cost: number): void {
+  totals.calls += record.calls ?? 1;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.cost += cost;
+}
+
+function localDate(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function toRows(groups: Map<string, UsageTotals>): UsageBreakdownRow[] {
+  return Array.from(groups.entries())
+    .map(([key, totals]) => ({ key, ...totals }))
+    .sort((a, b) => b.cost - a.cost || (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens));
+}
+
+/**
+ * Analyze model usage over the last `days` days (including today)
+ */
+export async function analyzeModelUsage(days: number = 7, now: Date = new Date()): Promise<ModelUsageReport> {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+
+  const records = await readUsageRecords(start.getTime());
+  const overrides = await getModelPriceOverrides();
+  const prices = new Map<string, ModelPrice | undefined>();
+  const unpriced = new Set<string>();
+
+  const today = localDate(now.getTime());
+  const report: ModelUsageReport = {
+    days,
+    today: emptyTotals(),
+    period: emptyTotals(),
+    daily: [],
+    byWorkstream: [],
+    byTool: [],
+    byModel: [],
+    bySource: [],
+    unpricedModels: [],
+  };
+
+  const daily = new Map<string, UsageTotals>();
+  for (let d = new Date(start); d <= now; d.setDate(d.getDate() + 1)) {
+    daily.set(localDate(d.getTime()), emptyTotals());
+  }
+  const byWorkstream = new Map<string, UsageTotals>();
+  const byTool = new Map<string, UsageTotals>();
+  const byModel = new Map<string, UsageTotals>();
+  const bySource = new Map<string, UsageTotals>();
+  const group = (map: Map<string, UsageTotals>, key: string) => {
+    let totals = map.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      map.set(key, totals);
+    }
+    return totals;
+  };
+
+  for (const record of records) {
+    if (!prices.has(record.model)) {
+      prices.set(record.model, resolveModelPrice(parseModelSpec(record.model), overrides));
+    }
+    const price = prices.get(record.model);
+    if (!price) unpriced.add(record.model);
+    const cost = price ? estimateCost(price, record.promptTokens, record.completionTokens) : 0;
+
+    const date = localDate(record.timestamp);
+    addTo(report.period, record, cost);
+    if (date === today) addTo(report.today, record, cost);
+    addTo(group(daily, date), record, cost);
+    addTo(group(byWorkstream, record.workstreamId || '(general chat / background)'), record, cost);
+    addTo(group(byTool, record.tool || '(no tool)'), record, cost);
+    addTo(group(byModel, record.model), record, cost);
+    addTo(group(bySource, record.source), record, cost);
+  }
+
+  report.daily = Array.from(daily.entries())
+    .map(([date, totals]) => ({ date, ...totals }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  report.byWorkstream = toRows(byWorkstream);
+  report.byTool = toRows(byTool);
+  report.byModel = toRows(byModel);
+  report.bySource = toRows(bySource);
+  report.unpricedModels = Array.from(unpriced).sort();
+
+  return report;
+}
+
+/**
+ * Format a dollar amount (sub-cent amounts keep more precision)
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+function formatTotals(totals: UsageTotals): string {
+  const calls = Math.max(Math.round(totals.calls), totals.calls > 0 ? 1 : 0);
+  return `${formatCost(totals.cost)} (${calls} call${calls === 1 ? '' : 's'}, ${formatTokens(totals.promptTokens)} in / ${formatTokens(totals.completionTokens)} out)`;
+}
+
+/**
+ * Format report as plain text (shared by /usage and hn work-usage)
+ * workstreamNames maps workstream ids to display names (unknown ids are shown as-is)
+ */
+export function formatUsageReport(
+  report: ModelUsageReport,
+  workstreamNames: Record<string, string> = {},
+  limit: number = 5
+): string {
+  const lines: string[] = [
+    `Today: ${formatTotals(report.today)}`,
+    `Last ${report.days} days: ${formatTotals(report.period)}`,
+  ];
+
+  if (report.period.calls === 0) {
+    lines.push('', 'No model calls recorded yet');
+    return lines.join('\n');
+  }
+
+  lines.push('', 'Daily spend:');
+  for (const day of report.daily) {
+    lines.push(`  ${day.date}  ${formatTotals(day)}`);
+  }
+
+  const section = (title: string, rows: UsageBreakdownRow[], label: (key: string) => string = key => key) => {
+    if (rows.length === 0) return;
+    lines.push('', `${title}:`);
+    for (const row of rows.slice(0, limit)) {
+      lines.push(`  ${label(row.key)}: ${formatTotals(row)}`);
+    }
+  };
+
+  section('Most expensive workstreams', report.byWorkstream, key => workstreamNames[key] || key);
+  section('By tool', report.byTool);
+  section('By model', report.byModel);
+  section('By source', report.bySource);
+
+  if (report.unpricedModels.length > 0) {
+    lines.push(
+      '',
+      `No price for ${report.unpricedModels.join(', ')} - counted as $0.`,
+      'Set one with /usage price <model> <input> <output> (USD per 1M tokens)'
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,204 @@
+// CircleCI API Client - failed jobs, their step output and re-runs
+// Uses CIRCLECI_TOKEN (a personal API token; re-runs need write access to the project)
+// CIRCLECI_URL selects a self-hosted CircleCI server (default https://circleci.com).
+// Jobs and workflows come from the v2 API. v2 has no endpoint for step output, so the
+// failing step's log is read from the job's v1.1 build (each step action's output_url).
+
+import { fetchWithRetry, apiErrorFromResponse, ApiError } from './http.js';
+
+function getApiToken(): string {
+  const token = process.env.CIRCLECI_TOKEN;
+  if (!token) {
+    throw new Error('CIRCLECI_TOKEN not found in environment');
+  }
+  return token;
+}
+
+function getBaseUrl(): string {
+  return (process.env.CIRCLECI_URL || 'https://circleci.com').replace(/\/+$/, '');
+}
+
+async function circleciFetch(endpoint: string, method: 'GET' | 'POST' = 'GET', body?: unknown): Promise<unknown> {
+  const response = await fetchWithRetry('CircleCI', `${getBaseUrl()}/api${endpoint}`, {
+    method,
+    headers: {
+      'Circle-Token': getApiToken(),
+      'Accept': 'application/json',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw await apiErrorFromResponse('CircleCI', response);
+  }
+
+  return response.json();
+}
+
+// ===== URLs =====
+
+export interface CircleCIJobRef {
+  projectSlug?: string;   // e.g. 'gh/org/repo'
+  jobNumber?: number;
+  workflowId?: string;
+}
+
+const VCS_SLUGS: Record<string, string> = { github: 'gh', gh: 'gh', bitbucket: 'bb', bb: 'bb', circleci: 'circleci' };
+
+export function isCircleCIUrl(url: string | null | undefined): boolean {
+  if (!url) return false;
+  if (/(^|\/\/|\.)circleci\.com\//.test(url)) return true;
+  const custom = process.env.CIRCLECI_URL?.replace(/\/+$/, '');
+  return !!custom && url.startsWith(custom);
+}
+
+/**
+ * Job or workflow behind a CircleCI URL (the check run's details URL or a commit status target)
+ * - https://app.circleci.com/pipelines/github/org/repo/42/workflows/<id>/jobs/1234
+ * - https://circleci.com/gh/org/repo/1234
+ * - https://circleci.com/workflow-run/<id>
+ */
+export function parseCircleCIUrl(url: string): CircleCIJobRef | null {
+  const pipeline = url.match(/\/pipelines\/([a-z]+)\/([^/]+)\/([^/]+)\/\d+\/workflows\/([0-9a-f-]{36})(?:\/jobs\/(\d+))?/i);
+  if (pipeline) {
+    const vcs = VCS_SLUGS[pipeline[1].toLowerCase()] || pipeline[1];
+    return {
+      projectSlug: `${vcs}/${pipeline[2]}/${pipeline[3]}`,
+      workflowId: pipeline[4],
+      jobNumber: pipeline[5] ? parseInt(pipeline[5], 10) : undefined,
+    };
+  }
+
+  const legacy = url.match(/\/(gh|bb)\/([^/]+)\/([^/?#]+)\/(\d+)/);
+  if (legacy) {
+    return { projectSlug: `${legacy[1]}/${legacy[2]}/${legacy[3]}`, jobNumber: parseInt(legacy[4], 10) };
+  }
+
+  const workflowRun = url.match(/\/workflow-run\/([0-9a-f-]{36})/i);
+  if (workflowRun) {
+    return { workflowId: workflowRun[1] };
+  }
+
+  return null;
+}
+
+// ===== Jobs =====
+
+export interface CircleCIJob {
+  projectSlug: string;
+  jobNumber: number;
+  name: string;
+  status: string;
+  url?: string;
+  workflowId?: string;
+}
+
+const FAILED_JOB_STATUSES = new Set(['failed', 'infrastructure_fail', 'timedout']);
+
+/**
+ * Failed jobs of a workflow
+ */
+export async function getFailedWorkflowJobs(workflowId: string): Promise<CircleCIJob[]> {
+  const data = await circleciFetch(`/v2/workflow/${encodeURIComponent(workflowId)}/job`) as {
+    items: Array<{ job_number?: number; name: string; status: string; project_slug: string }>;
+  };
+  return data.items
+    .filter(item => FAILED_JOB_STATUSES.has(item.status) && item.job_number !== undefined)
+    .map(item => ({
+      projectSlug: item.project_slug,
+      jobNumber: item.job_number as number,
+      name: item.name,
+      status: item.status,
+      workflowId,
+    }));
+}
+
+export async function getJob(projectSlug: string, jobNumber: number): Promise<CircleCIJob> {
+  const data = await circleciFetch(`/v2/project/${projectSlug}/job/${jobNumber}`) as {
+    number: number;
+    name: string;
+    status: string;
+    web_url?: string;
+    project?: { slug: string };
+    latest_workflow?: { id: string };
+  };
+  return {
+    projectSlug: data.project?.slug || projectSlug,
+    jobNumber: data.number,
+    name: data.name,
+    status: data.status,
+    url: data.web_url,
+    workflowId: data.latest_workflow?.id,
+  };
+}
+
+export interface CircleCIStepLog {
+  step: string;
+  output: string;
+}
+
+// v1.1 paths spell out the VCS type
+function v11ProjectPath(projectSlug: string): string {
+  const [vcs, ...rest] = projectSlug.split('/');
+  const vcsType = vcs === 'gh' ? 'github' : vcs === 'bb' ? 'bitbucket' : vcs;
+  return [vcsType, ...rest].join('/');
+}
+
+/**
+ * Output of a job's failing step (the last step, if none is marked failed)
+ */
+export async function getFailedStepLog(projectSlug: string, jobNumber: number): Promise<CircleCIStepLog | null> {
+  const build = await circleciFetch(`/v1.1/project/${v11ProjectPath(projectSlug)}/${jobNumber}`) as {
+    steps?: Array<{
+      name: string;
+      actions: Array<{ status: string; failed?: boolean | null; has_output?: boolean; output_url?: string }>;
+    }>;
+  };
+
+  const steps = build.steps || [];
+  const failedStep = steps.find(step => step.actions.some(action => action.failed || action.status === 'failed'))
+    || steps[steps.length - 1];
+  if (!failedStep) {
+    return null;
+  }
+
+  const outputs: string[] = [];
+  for (const action of failedStep.actions) {
+    if (!action.output_url || action.has_output === false) continue;
+    // Output URLs are pre-signed - the token must not be sent along
+    const response = await fetchWithRetry('CircleCI', action.output_url, { method: 'GET' });
+    if (!response.ok) {
+      throw await apiErrorFromResponse('CircleCI', response);
+    }
+    const messages = await response.json() as Array<{ message: string; type?: string }>;
+    outputs.push(messages.map(m => m.message).join(''));
+  }
+
+  return { step: failedStep.name, output: outputs.join('\n') };
+}
+
+/**
+ * Failed jobs behind a CircleCI URL - the job itself, or the failed jobs of the workflow
+ */
+export async function getFailedJobs(url: string): Promise<CircleCIJob[]> {
+  const ref = parseCircleCIUrl(url);
+  if (!ref) {
+    throw new ApiError('CircleCI', `Not a CircleCI job or workflow URL: ${url}`, 'invalid_input', false);
+  }
+  if (ref.projectSlug && ref.jobNumber !== undefined) {
+    return [await getJob(ref.projectSlug, ref.jobNumber)];
+  }
+  return ref.workflowId ? getFailedWorkflowJobs(ref.workflowId) : [];
+}
+
+/**
+ * Re-run a workflow's failed jobs (CircleCI starts a new workflow for them)
+ */
+export async function rerunFailedJobs(workflowId: string): Promise<void> {
+  await circleciFetch(`/v2/workflow/${encodeURIComponent(workflowId)}/rerun`, 'POST', { from_failed: true });
+}
+
+export function isCircleCIConfigured(): boolean {
+  return !!process.env.CIRCLECI_TOKEN;
+}
@@ -0,0 +1,242 @@
+// Confluence storage format helpers
+// Markdown → storage format (XHTML with Confluence macros) for page writes,
+// storage format → plain text lines, and line diffs between page versions.
+
+import { Marked, Tokens } from 'marked';
+
+// ===== MARKDOWN → STORAGE =====
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+// "]]>" cannot appear inside CDATA - split it across two sections
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+const storageMarked = new Marked({
+  gfm: true,
+  renderer: {
+    code({ text, lang }: Tokens.Code): string {
+      const language = (lang || '').trim().split(/\s+/)[0];
+      const languageParam = language ? `<ac:parameter ac:name="language">${escapeAttribute(language)}</ac:parameter>` : '';
+      return `<ac:structured-macro ac:name="code">${languageParam}<ac:plain-text-body>${cdata(text)}</ac:plain-text-body></ac:structured-macro>\n`;
+    },
+    // Storage format is XHTML - void elements must be self-closed
+    br(): string {
+      return '<br />';
+    },
+    hr(): string {
+      return '<hr />\n';
+    },
+    html({ text }: Tokens.HTML | Tokens.Tag): string {
+      return text.replace(/<(br|hr)\s*>/gi, '<$1 />');
+    },
+    image({ href, text }: Tokens.Image): string {
+      const alt = text ? ` ac:alt="${escapeAttribute(text)}"` : '';
+      return `<ac:image${alt}><ri:url ri:value="${escapeAttribute(href)}" /></ac:image>`;
+    },
+    // GitHub task lists become Confluence tasks (checkboxes people can tick)
+    list(token: Tokens.List): string | false {
+      if (!token.items.every(item => item.task)) {
+        return false;
+      }
+      const tasks = token.items.map(item => {
+        const body = this.parser.parse(item.tokens, !!item.loose).trim();
+        return `<ac:task><ac:task-status>${item.checked ? 'complete' : 'incomplete'}</ac:task-status><ac:task-body>${body}</ac:task-body></ac:task>`;
+      });
+      return `<ac:task-list>${tasks.join('')}</ac:task-list>\n`;
+    },
+    checkbox({ checked }: Tokens.Checkbox): string {
+      return checked ? '☑' : '☐';
+    },
+  },
+});
+
+/**
+ * Convert Markdown (GFM: tables, task lists, fenced code) to Confluence storage format
+ */
+export function markdownToStorage(markdown: string): string {
+  return (storageMarked.parse(markdown, { async: false }) as string).trim();
+}
+
+/**
+ * Content in storage format - converts Markdown, passes storage format through unchanged
+ */
+export function toStorage(content: string, format: 'markdown' | 'storage'): string {
+  return format === 'storage' ? content : markdownToStorage(content);
+}
+
+// ===== STORAGE → TEXT =====
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Readable plain text of a storage-format body, one block per line
+ * Keeps the structure a diff reader needs: headings, list bullets, table rows, code blocks.
+ */
+export function storageToText(storage: string): string {
+  // Code macros keep their content verbatim - set aside so whitespace and entities are untouched
+  const codeBlocks: string[] = [];
+  const withoutCode = storage.replace(
+    /<ac:structured-macro ac:name="code"[^>]*>[\s\S]*?<ac:plain-text-body><!\[CDATA\[([\s\S]*?)\]\]><\/ac:plain-text-body>[\s\S]*?<\/ac:structured-macro>/g,
+    (_, code: string) => {
+      codeBlocks.push(code.replace(/]]]]><!\[CDATA\[>/g, ']]>'));
+      return `<div>\u0000${codeBlocks.length - 1}\u0000</div>`;
+    }
+  );
+
+  const text = withoutCode
+    // Source newlines are not significant in XHTML
+    .replace(/>\s*\n\s*</g, '><')
+    .replace(/[ \t]*\n[ \t]*/g, ' ')
+    .replace(/<ac:task-status>complete<\/ac:task-status>/g, '[x] ')
+    .replace(/<ac:task-status>incomplete<\/ac:task-status>/g, '[ ] ')
+    .replace(/<h([1-6])[^>]*>/g, (_, level: string) => `\n${'#'.repeat(parseInt(level, 10))} `)
+    .replace(/(<li[^>]*>|<ac:task>)(\s*<p[^>]*>)?/g, '\n- ')
+    .replace(/(<\/p>\s*)?(<\/li>|<\/ac:task>)/g, '')
+    .replace(/<\/t[dh]>/g, ' | ')
+    .replace(/<br\s*\/?>|<\/(p|h[1-6]|tr|div|blockquote|pre|ul|ol|table)>|<\/ac:task-list>|<hr\s*\/?>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/g, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => `\`\`\`\n${codeBlocks[parseInt(index, 10)]}\n\`\`\``)
+    .trim();
+}
+
+// ===== SECTIONS =====
+
+/**
+ * Replace the content under a heading (up to the next heading of the same or higher level)
+ * Returns null when no heading has that text.
+ */
+export function replaceStorageSection(storage: string, heading: string, sectionContent: string): string | null {
+  const wanted = heading.trim().replace(/^#+\s*/, '').toLowerCase();
+  const headings = [...storage.matchAll(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/g)];
+  const index = headings.findIndex(h => storageToText(h[2]).toLowerCase() === wanted);
+  if (index === -1) {
+    return null;
+  }
+
+  const match = headings[index];
+  const level = parseInt(match[1], 10);
+  const start = match.index! + match[0].length;
+  const next = headings.slice(index + 1).find(h => parseInt(h[1], 10) <= level);
+  const end = next ? next.index! : storage.length;
+  return `${storage.slice(0, start)}\n${sectionContent}\n${storage.slice(end)}`;
+}
+
+// ===== LINE DIFF =====
+
+export interface TextDiff {
+  diff: string;            // Unified diff (without file headers)
+  added: number;
+  removed: number;
+}
+
+// Above this many cells the middle of the diff is shown as one replaced block
+const MAX_DIFF_CELLS = 4_000_000;
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+function diffOps(before: string[], after: string[]): DiffOp[] {
+  // Trim the common prefix and suffix - most edits touch a small part of a page
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix && suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const middle: DiffOp[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    middle.push(...a.map(line => ({ kind: '-' as const, line })), ...b.map(line => ({ kind: '+' as const, line })));
+  } else {
+    // Longest common subsequence table, filled from the end
+    const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ kind: ' ', line: a[i] });
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        middle.push({ kind: '-', line: a[i++] });
+      } else {
+        middle.push({ kind: '+', line: b[j++] });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, prefix).map(line => ({ kind: ' ' as const, line })),
+    ...middle,
+    ...before.slice(before.length - suffix).map(line => ({ kind: ' ' as const, line })),
+  ];
+}
+
+/**
+ * Unified line diff of two texts with `context` unchanged lines around each change
+ */
+export function diffText(before: string, after: string, context: number = 3): TextDiff {
+  const ops = diffOps(before.split('\n'), after.split('\n'));
+  const added = ops.filter(op => op.kind === '+').length;
+  const removed = ops.filter(op => op.kind === '-').length;
+  if (added === 0 && removed === 0) {
+    return { diff: '', added, removed };
+  }
+
+  // Group changes (plus context) into hunks
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].kind === ' ') {
+      index++;
+      continue;
+    }
+    let start = Math.max(0, index - context);
+    let end = index;
+    // Extend while the next change is within 2 * context lines
+    for (let k = index; k < ops.length; k++) {
+      if (ops[k].kind !== ' ') end = k;
+      else if (k - end > 2 * context) break;
+    }
+    const stop = Math.min(ops.length, end + context + 1);
+
+    const oldStart = ops.slice(0, start).filter(op => op.kind !== '+').length + 1;
+    const newStart = ops.slice(0, start).filter(op => op.kind !== '-').length + 1;
+    const slice = ops.slice(start, stop);
+    const oldCount = slice.filter(op => op.kind !== '+').length;
+    const newCount = slice.filter(op => op.kind !== '-').length;
+    hunks.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n${slice.map(op => `${op.kind}${op.line}`).join('\n')}`);
+
+    start = stop;
+    index = stop;
+  }
+
+  return { diff: hunks.join('\n'), added, removed };
+}
@@ -1,7 +1,12 @@
 // Confluence API Client
 // Uses CONFLUENCE_USERNAME, CONFLUENCE_DOMAIN, CONFLUENCE_API_TOKEN
+// Reads pages, comments and version history; creates and updates pages (with version
+// conflict checks), replies to comments and manages labels.
 
 import { ConfluencePage } from '../types.js';
+import { fetchWithRetry, apiErrorFromResponse, ApiError } from './http.js';
+import { markdownToStorage, toStorage, storageToText, replaceStorageSection, diffText } from './confluence-format.js';
+import { wrapWithAIDisclaimer } from './disclaimer.js';
 
 interface ConfluenceConfig {
   username: string;
@@ -21,46 +26,62 @@ function getConfig(): ConfluenceConfig {
   return { username, domain, apiToken };
 }
 
+// v1 REST API for content; v2 for comment replies (v1 cannot reply to inline comments)
+const API_PATHS = {
+  v1: '/wiki/rest/api',
+  v2: '/wiki/api/v2',
+};
+
+function authHeader(): string {
+  const { username, apiToken } = getConfig();
+  return `Basic ${Buffer.from(`${username}:${apiToken}`).toString('base64')}`;
+}
+
 async function confluenceFetch(endpoint: string): Promise<unknown> {
-  const { username, domain, apiToken } = getConfig();
-  const auth = Buffer.from(`${username}:${apiToken}`).toString('base64');
+  const { domain } = getConfig();
   
-  const response = await fetch(`https://${domain}/wiki/rest/api${endpoint}`, {
+  const response = await fetchWithRetry('Confluence', `https://${domain}${API_PATHS.v1}${endpoint}`, {
     method: 'GET',
     headers: {
-      'Authorization': `Basic ${auth}`,
+      'Authorization': authHeader(),
       'Accept': 'application/json',
     },
   });
   
   if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`Confluence API error (${response.status}): ${errorText}`);
+    throw await apiErrorFromResponse('Confluence', response);
   }
   
   return response.json();
 }
 
-async function confluencePost(endpoint: string, body: unknown): Promise<unknown> {
-  const { username, domain, apiToken } = getConfig();
-  const auth = Buffer.from(`${username}:${apiToken}`).toString('base64');
+async function confluenceWrite(
+  method: 'POST' | 'PUT' | 'DELETE',
+  endpoint: string,
+  body?: unknown,
+  api: keyof typeof API_PATHS = 'v1'
+): Promise<unknown> {
+  const { domain } = getConfig();
   
-  const response = await fetch(`https://${domain}/wiki/rest/api${endpoint}`, {
-    method: 'POST',
+  const response = await fetchWithRetry('Confluence', `https://${domain}${API_PATHS[api]}${endpoint}`, {
+    method,
     headers: {
-      'Authorization': `Basic ${auth}`,
+      'Authorization': authHeader(),
       'Accept': 'application/json',
-      'Content-Type': 'application/json',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
     },
-    body: JSON.stringify(body),
+    body: body !== undefined ? JSON.stringify(body) : undefined,
   });
   
   if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`Confluence API error (${response.status}): ${errorText}`);
+    throw await apiErrorFromResponse('Confluence', response);
   }
   
-  return response.json();
+  if (response.status === 204) {
+    return null;
+  }
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
 }
 
 export interface ConfluenceSearchResult {
@@ -115,23 +136,21 @@ export async function getPage(pageId: string): Promise<ConfluencePage | null> {
   try {
     const { domain } = getConfig();
     
-    const data = await confluenceFetch(`/content/${pageId}?expand=space,body.view,version`) as {
+    const data = await confluenceFetch(`/content/${pageId}?expand=space,body.view,version,metadata.labels`) as {
       id: string;
       title: string;
       space: { key: string; name: string };
       body: { view: { value: string } };
-      version: { when: string };
+      version: { when: string; number: number };
+      metadata?: { labels?: { results: Array<{ name: string }> } };
       _links: { webui: string };
     };
     
-    // Extract plain text from HTML - full content
-    const fullContent = data.body?.view?.value
-      ?.replace(/<[^>]*>/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim() || '';
+    // Plain text keeping headings, bullets and table rows - full content
+    const fullContent = storageToText(data.body?.view?.value || '');
     
     // Excerpt is first 500 chars for search results
-    const excerpt = fullContent.substring(0, 500);
+    const excerpt = fullContent.replace(/\s+/g, ' ').substring(0, 500);
     
     return {
       id: data.id,
@@ -141,6 +160,8 @@ export async function getPage(pageId: string): Promise<ConfluencePage | null> {
       url: `https://${domain}/wiki${data._links.webui}`,
       space: data.space?.name || data.space?.key || 'Unknown',
       lastModified: data.version?.when || '',
+      version: data.version?.number,
+      labels: data.metadata?.labels?.results.map(label => label.name),
     };
   } catch (error) {
     if (error instanceof Error && error.message.includes('404')) {
@@ -392,16 +413,12 @@ export async function createPage(
   content: string,  // Confluence storage format (HTML-like) or plain text
   options: {
     parentPageId?: string;
-    convertFromMarkdown?: boolean;  // If true, attempts basic markdown-to-storage conversion
+    convertFromMarkdown?: boolean;  // If true, content is Markdown (GFM) and is converted to storage format
   } = {}
 ): Promise<{ id: string; url: string; title: string }> {
   const { domain } = getConfig();
   
-  // Convert markdown to Confluence storage format if requested
-  let storageContent = content;
-  if (options.convertFromMarkdown) {
-    storageContent = markdownToConfluenceStorage(content);
-  }
+  const storageContent = toStorage(content, options.convertFromMarkdown ? 'markdown' : 'storage');
   
   const body: Record<string, unknown> = {
     type: 'page',
@@ -419,7 +436,7 @@ export async function createPage(
     body.ancestors = [{ id: options.parentPageId }];
   }
   
-  const result = await confluencePost('/content', body) as {
+  const result = await confluenceWrite('POST', '/content', body) as {
     id: string;
     title: string;
     _links: { webui: string };
@@ -446,47 +463,321 @@ export async function listSpaces(limit: number = 25): Promise<Array<{ key: strin
   }
 }
 
+// ===== PAGE UPDATES =====
+
+interface PageStorage {
+  id: string;
+  title: string;
+  version: number;
+  storage: string;
+  url: string;
+}
+
+// Storage-format body of the current page, or of an older version
+async function getPageStorage(pageId: string, version?: number): Promise<PageStorage> {
+  const { domain } = getConfig();
+  const query = version !== undefined
+    ? `?status=historical&version=${version}&expand=body.storage,version`
+    : '?expand=body.storage,version';
+  
+  const data = await confluenceFetch(`/content/${pageId}${query}`) as {
+    id: string;
+    title: string;
+    body: { storage: { value: string } };
+    version: { number: number };
+    _links: { webui: string };
+  };
+  
+  return {
+    id: data.id,
+    title: data.title,
+    version: data.version?.number,
+    storage: data.body?.storage?.value || '',
+    url: `https://${domain}/wiki${data._links.webui}`,
+  };
+}
+
+function versionConflict(pageId: string, expected: number, actual: number): ApiError {
+  return new ApiError(
+    'Confluence',
+    `Confluence version conflict: page ${pageId} is at version ${actual}, expected ${expected}. ` +
+      `Someone else edited it - use confluence_diff_versions to see what changed, then retry with expectedVersion ${actual}.`,
+    'invalid_input',
+    false,
+    409
+  );
+}
+
+export type PageUpdateMode = 'replace' | 'append' | 'prepend' | 'replace_section';
+
+export interface UpdatePageOptions {
+  content: string;
+  format?: 'markdown' | 'storage';    // Default: markdown
+  mode?: PageUpdateMode;              // Default: replace
+  section?: string;                   // Heading text, for replace_section
+  title?: string;                     // Rename the page
+  expectedVersion?: number;           // Fail instead of overwriting if the page moved past this version
+  versionMessage?: string;            // Shown in the page history
+}
+
+export interface UpdatePageResult {
+  id: string;
+  title: string;
+  url: string;
+  version: number;
+  previousVersion: number;
+}
+
+function applyUpdate(current: string, content: string, mode: PageUpdateMode, section?: string): string {
+  switch (mode) {
+    case 'append':
+      return `${current}\n${content}`;
+    case 'prepend':
+      return `${content}\n${current}`;
+    case 'replace_section': {
+      if (!section) {
+        throw new Error('section is required for replace_section');
+      }
+      const updated = replaceStorageSection(current, section, content);
+      if (updated === null) {
+        throw new ApiError('Confluence', `No heading "${section}" found on the page`, 'invalid_input', false);
+      }
+      return updated;
+    }
+    default:
+      return content;
+  }
+}
+
 /**
- * Basic markdown to Confluence storage format conversion
+ * Update an existing page - replace the body, append/prepend to it, or replace one section
+ * The write goes against the version that was read; a concurrent edit fails with a version
+ * conflict (append/prepend/replace_section are re-applied once on top of the newer version).
  */
-function markdownToConfluenceStorage(markdown: string): string {
-  let html = markdown;
+export async function updatePage(pageId: string, options: UpdatePageOptions): Promise<UpdatePageResult> {
+  const { domain } = getConfig();
+  const { mode = 'replace', format = 'markdown', expectedVersion } = options;
+  const content = toStorage(options.content, format);
   
-  // Headers
-  html = html.replace(/^### (.+)$/gm, '<h3>$1</h3>');
-  html = html.replace(/^## (.+)$/gm, '<h2>$1</h2>');
-  html = html.replace(/^# (.+)$/gm, '<h1>$1</h1>');
+  for (let attempt = 0; ; attempt++) {
+    const current = await getPageStorage(pageId);
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      throw versionConflict(pageId, expectedVersion, current.version);
+    }
+    
+    try {
+      const result = await confluenceWrite('PUT', `/content/${pageId}`, {
+        id: pageId,
+        type: 'page',
+        title: options.title || current.title,
+        version: {
+          number: current.version + 1,
+          ...(options.versionMessage ? { message: options.versionMessage } : {}),
+        },
+        body: {
+          storage: {
+            value: applyUpdate(current.storage, content, mode, options.section),
+            representation: 'storage',
+          },
+        },
+      }) as { id: string; title: string; version: { number: number }; _links: { webui: string } };
+      
+      return {
+        id: result.id,
+        title: result.title,
+        url: `https://${domain}/wiki${result._links.webui}`,
+        version: result.version.number,
+        previousVersion: current.version,
+      };
+    } catch (error) {
+      // 409: the page was saved between our read and write
+      if (error instanceof ApiError && error.status === 409) {
+        if (mode !== 'replace' && expectedVersion === undefined && attempt === 0) {
+          continue;
+        }
+        const latest = await getPageStorage(pageId);
+        throw versionConflict(pageId, expectedVersion ?? current.version, latest.version);
+      }
+      throw error;
+    }
+  }
+}
+
+// ===== VERSION HISTORY =====
+
+export interface ConfluencePageVersion {
+  number: number;
+  author: string;
+  when: string;
+  message?: string;
+  minorEdit: boolean;
+}
+
+/**
+ * Version history of a page, newest first
+ */
+export async function getPageVersions(pageId: string, limit: number = 25): Promise<ConfluencePageVersion[]> {
+  const data = await confluenceFetch(`/content/${pageId}/version?limit=${limit}`) as {
+    results: Array<{
+      number: number;
+      when: string;
+      message?: string;
+      minorEdit?: boolean;
+      by?: { displayName: string };
+    }>;
+  };
+  
+  return data.results
+    .map(version => ({
+      number: version.number,
+      author: version.by?.displayName || 'Unknown',
+      when: version.when,
+      message: version.message || undefined,
+      minorEdit: !!version.minorEdit,
+    }))
+    .sort((a, b) => b.number - a.number);
+}
+
+export interface ConfluenceVersionDiff {
+  pageId: string;
+  title: string;
+  url: string;
+  fromVersion: ConfluencePageVersion | { number: number };
+  toVersion: ConfluencePageVersion | { number: number };
+  added: number;
+  removed: number;
+  diff: string;
+  truncated?: boolean;
+}
+
+// Keep diffs of heavily rewritten pages within a tool result
+const MAX_DIFF_CHARS = 20000;
+
+/**
+ * Text diff between two versions of a page (default: the latest edit)
+ */
+export async function diffPageVersions(
+  pageId: string,
+  options: { fromVersion?: number; toVersion?: number } = {}
+): Promise<ConfluenceVersionDiff> {
+  const current = await getPageStorage(pageId);
+  const toNumber = options.toVersion ?? current.version;
+  const fromNumber = options.fromVersion ?? toNumber - 1;
+  if (fromNumber < 1 || toNumber > current.version || fromNumber >= toNumber) {
+    throw new ApiError(
+      'Confluence',
+      `Invalid version range ${fromNumber}..${toNumber} (page ${pageId} has versions 1..${current.version})`,
+      'invalid_input',
+      false
+    );
+  }
   
-  // Bold and italic
-  html = html.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
-  html = html.replace(/\*(.+?)\*/g, '<em>$1</em>');
+  const [from, to, versions] = await Promise.all([
+    getPageStorage(pageId, fromNumber),
+    toNumber === current.version ? Promise.resolve(current) : getPageStorage(pageId, toNumber),
+    getPageVersions(pageId, 200).catch(() => [] as ConfluencePageVersion[]),
+  ]);
   
-  // Code blocks
-  html = html.replace(/```(\w*)\n([\s\S]*?)```/g, (_, lang, code) => {
-    const language = lang || 'none';
-    return `<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">${language}</ac:parameter><ac:plain-text-body><![CDATA[${code.trim()}]]></ac:plain-text-body></ac:structured-macro>`;
-  });
+  const { diff, added, removed } = diffText(storageToText(from.storage), storageToText(to.storage));
+  const truncated = diff.length > MAX_DIFF_CHARS;
+  
+  return {
+    pageId,
+    title: current.title,
+    url: current.url,
+    fromVersion: versions.find(v => v.number === fromNumber) || { number: fromNumber },
+    toVersion: versions.find(v => v.number === toNumber) || { number: toNumber },
+    added,
+    removed,
+    diff: truncated ? diff.slice(0, MAX_DIFF_CHARS) + '\n... (diff truncated)' : diff,
+    ...(truncated ? { truncated } : {}),
+  };
+}
+
+// ===== COMMENT REPLIES =====
+
+export interface ReplyToCommentOptions {
+  commentId: string;
+  body: string;            // Markdown
+  skipDisclaimer?: boolean;
+}
+
+export interface ReplyToCommentResult {
+  id: string;
+  parentCommentId: string;
+  isInline: boolean;
+  url?: string;
+}
+
+/**
+ * Reply to a page comment or an inline comment (replies join the comment's thread)
+ */
+export async function replyToComment(options: ReplyToCommentOptions): Promise<ReplyToCommentResult> {
+  const { domain } = getConfig();
+  const { commentId, body, skipDisclaimer = false } = options;
   
-  // Inline code
-  html = html.replace(/`([^`]+)`/g, '<code>$1</code>');
+  const parent = await confluenceFetch(`/content/${commentId}?expand=extensions`) as {
+    type: string;
+    extensions?: { location?: string };
+  };
+  if (parent.type !== 'comment') {
+    throw new ApiError('Confluence', `Content ${commentId} is a ${parent.type}, not a comment`, 'invalid_input', false);
+  }
+  const isInline = parent.extensions?.location === 'inline';
   
-  // Links
-  html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
+  const result = await confluenceWrite('POST', isInline ? '/inline-comments' : '/footer-comments', {
+    parentCommentId: commentId,
+    body: {
+      representation: 'storage',
+      value: markdownToStorage(skipDisclaimer ? body : wrapWithAIDisclaimer(body)),
+    },
+  }, 'v2') as { id: string; _links?: { webui?: string } } | null;
   
-  // Unordered lists (basic - single level)
-  html = html.replace(/^- (.+)$/gm, '<li>$1</li>');
-  html = html.replace(/(<li>.*<\/li>\n?)+/g, '<ul>$&</ul>');
+  return {
+    id: result?.id || '',
+    parentCommentId: commentId,
+    isInline,
+    url: result?._links?.webui ? `https://${domain}/wiki${result._links.webui}` : undefined,
+  };
+}
+
+// ===== LABELS =====
+
+/**
+ * Labels on a page
+ */
+export async function getLabels(pageId: string): Promise<string[]> {
+  const data = await confluenceFetch(`/content/${pageId}/label?limit=200`) as {
+    results: Array<{ name: string }>;
+  };
+  return data.results.map(label => label.name);
+}
+
+/**
+ * Add and/or remove page labels, returning the labels afterwards
+ */
+export async function updateLabels(
+  pageId: string,
+  changes: { add?: string[]; remove?: string[] }
+): Promise<string[]> {
+  // Confluence labels are lowercase and cannot contain spaces
+  const normalize = (label: string) => label.trim().toLowerCase().replace(/\s+/g, '-');
+  const add = (changes.add || []).map(normalize).filter(Boolean);
+  const remove = (changes.remove || []).map(normalize).filter(Boolean);
   
-  // Paragraphs - wrap lines that aren't already HTML
-  const lines = html.split('\n');
-  const processed = lines.map(line => {
-    const trimmed = line.trim();
-    if (!trimmed) return '';
-    if (trimmed.startsWith('<')) return line;
-    return `<p>${trimmed}</p>`;
-  });
+  if (add.length > 0) {
+    await confluenceWrite('POST', `/content/${pageId}/label`, add.map(name => ({ prefix: 'global', name })));
+  }
+  for (const name of remove) {
+    try {
+      await confluenceWrite('DELETE', `/content/${pageId}/label?name=${encodeURIComponent(name)}`);
+    } catch (error) {
+      // Removing a label the page doesn't have is a no-op
+      if (!(error instanceof ApiError && error.code === 'not_found')) throw error;
+    }
+  }
   
-  return processed.join('\n');
+  return getLabels(pageId);
 }
 
 export function isConfluenceConfigured(): boolean {
@@ -1,9 +1,14 @@
-// Datadog API Client - READ ONLY
+// Datadog API Client
 // Uses DD_API_KEY and DD_APP_KEY
+// Read-only except for monitor downtimes (mute/unmute), which the agent always confirms first
 
 import { 
   DatadogLog, 
   DatadogMonitor,
+  DatadogDowntime,
+  DatadogMonitorHistory,
+  DatadogSlo,
+  DatadogSloStatus,
   DatadogDashboard,
   DatadogDashboardSummary,
   DatadogWidget,
@@ -14,12 +19,17 @@ import {
   DatadogMetricSeries,
   DatadogEvent,
   DatadogService,
+  DatadogSpan,
+  DatadogTrace,
+  DatadogTraceSummary,
+  DatadogErrorIssue,
   DatadogUrlInfo,
   DatadogDbmQuerySample,
   DatadogDbmHost,
   DatadogDbmIndex,
   DatadogDbmQueryMetrics,
 } from '../types.js';
+import { fetchWithRetry, apiErrorFromResponse } from './http.js';
 
 interface DatadogConfig {
   apiKey: string;
@@ -40,9 +50,12 @@ function getConfig(): DatadogConfig {
   return { apiKey, appKey, site };
 }
 
-async function datadogFetch(endpoint: string, options: { apiVersion?: 'v1' | 'v2'; method?: 'GET' | 'POST'; body?: unknown } = {}): Promise<unknown> {
+async function datadogFetch(
+  endpoint: string,
+  options: { apiVersion?: 'v1' | 'v2'; method?: 'GET' | 'POST' | 'DELETE'; body?: unknown; idempotent?: boolean } = {}
+): Promise<unknown> {
   const { apiKey, appKey, site } = getConfig();
-  const { apiVersion = 'v1', method = 'GET', body } = options;
+  const { apiVersion = 'v1', method = 'GET', body, idempotent } = options;
   
   const headers: Record<string, string> = {
     'DD-API-KEY': apiKey,
@@ -54,17 +67,19 @@ async function datadogFetch(endpoint: string, options: { apiVersion?: 'v1' | 'v2
     headers['Content-Type'] = 'application/json';
   }
   
-  const response = await fetch(`https://api.${site}/api/${apiVersion}${endpoint}`, {
+  const response = await fetchWithRetry('Datadog', `https://api.${site}/api/${apiVersion}${endpoint}`, {
     method,
     headers,
     body: body ? JSON.stringify(body) : undefined,
-  });
+  }, { idempotent });
   
   if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`Datadog API error (${response.status}): ${errorText}`);
+    throw await apiErrorFromResponse('Datadog', response);
   }
   
+  if (response.status === 204) {
+    return null;
+  }
   return response.json();
 }
 
@@ -128,7 +143,7 @@ export async function searchLogsWithDetails(query: string, options: LogSearchOpt
   try {
     const { apiKey, appKey, site } = getConfig();
     
-    const response = await fetch(`https://api.${site}/api/v2/logs/events/search`, {
+    const response = await fetchWithRetry('Datadog', `https://api.${site}/api/v2/logs/events/search`, {
       method: 'POST', // Required for log search, but it's a READ operation
       headers: {
         'DD-API-KEY': apiKey,
@@ -147,7 +162,7 @@ export async function searchLogsWithDetails(query: string, options: LogSearchOpt
         },
         sort: '-timestamp', // Most recent first (descending)
       }),
-    });
+    }, { idempotent: true });
     
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unknown error');
@@ -674,6 +689,763 @@ export async function listServices(query?: string): Promise<DatadogService[]> {
   }
 }
 
+// ============================================================================
+// APM TRACES
+// ============================================================================
+
+// Span search pages hold at most 1000 spans; very large traces are cut off here
+const MAX_TRACE_SPANS = 3000;
+
+function toIsoTime(value: string | Date | undefined, fallbackMs: number): string {
+  if (!value) return new Date(fallbackMs).toISOString();
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Trace ID in the form span search expects
+ * Logs and OpenTelemetry carry 128-bit hex IDs; Datadog indexes the low 64 bits in decimal.
+ */
+export function normalizeTraceId(traceId: string): string {
+  const id = traceId.trim();
+  if (/^\d+$/.test(id)) return id;
+  const hex = id.replace(/^0x/i, '');
+  if (/^[0-9a-f]{16,32}$/i.test(hex)) {
+    return BigInt.asUintN(64, BigInt(`0x${hex}`)).toString();
+  }
+  return id;
+}
+
+/**
+ * Trace ID injected into a log by the tracer (dd.trace_id, trace_id, otel.trace_id), if any
+ */
+export function findTraceId(log: DatadogLog): string | null {
+  const attrs = log.attributes;
+  const nested = (key: string) => (attrs[key] as Record<string, unknown> | undefined)?.trace_id;
+  const candidates = [attrs['dd.trace_id'], nested('dd'), attrs.trace_id, attrs['otel.trace_id'], nested('otel'), attrs.traceId];
+  for (const candidate of candidates) {
+    if ((typeof candidate === 'string' && candidate && candidate !== '0') || typeof candidate === 'number') {
+      return String(candidate);
+    }
+  }
+  return null;
+}
+
+interface RawSpan {
+  id?: string;
+  attributes?: {
+    trace_id?: string;
+    span_id?: string;
+    parent_id?: string;
+    service?: string;
+    resource_name?: string;
+    type?: string;
+    env?: string;
+    host?: string;
+    start_timestamp?: string;
+    end_timestamp?: string;
+    tags?: string[];
+    attributes?: Record<string, unknown>;
+    custom?: Record<string, unknown>;
+  };
+}
+
+function toSpan(raw: RawSpan): DatadogSpan {
+  const attrs = raw.attributes || {};
+  const custom = attrs.custom || {};
+  const error = (custom.error || {}) as { message?: string; type?: string };
+  const start = attrs.start_timestamp || '';
+  const durationNs = typeof custom.duration === 'number' ? custom.duration : undefined;
+  const durationMs = durationNs !== undefined
+    ? durationNs / 1e6
+    : Math.max(0, Date.parse(attrs.end_timestamp || start) - Date.parse(start)) || 0;
+  const status = custom.status ?? attrs.attributes?.status;
+
+  return {
+    traceId: attrs.trace_id || '',
+    spanId: attrs.span_id || raw.id || '',
+    parentId: attrs.parent_id && attrs.parent_id !== '0' ? attrs.parent_id : undefined,
+    service: attrs.service || 'unknown',
+    name: (custom.operation_name as string | undefined) || (attrs.attributes?.operation_name as string | undefined),
+    resource: attrs.resource_name || '',
+    type: attrs.type,
+    env: attrs.env,
+    host: attrs.host,
+    start,
+    durationMs,
+    error: status === 'error' || !!error.message || !!error.type || (attrs.tags || []).includes('status:error'),
+    errorMessage: error.message,
+    errorType: error.type,
+    attributes: { ...attrs.attributes, ...custom },
+  };
+}
+
+async function searchSpans(
+  query: string,
+  from: string,
+  to: string,
+  limit: number,
+  sort: 'timestamp' | '-timestamp'
+): Promise<{ spans: DatadogSpan[]; truncated: boolean }> {
+  const spans: DatadogSpan[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page: Record<string, unknown> = { limit: Math.min(1000, limit - spans.length) };
+    if (cursor) page.cursor = cursor;
+
+    const data = await datadogFetch('/spans/events/search', {
+      apiVersion: 'v2',
+      method: 'POST', // Search is a READ operation
+      idempotent: true,
+      body: {
+        data: {
+          type: 'search_request',
+          attributes: { filter: { query, from, to }, page, sort },
+        },
+      },
+    }) as { data?: RawSpan[]; meta?: { page?: { after?: string } } };
+
+    spans.push(...(data.data || []).map(toSpan));
+    cursor = data.meta?.page?.after;
+  } while (cursor && spans.length < limit);
+
+  return { spans, truncated: !!cursor };
+}
+
+export interface TraceSearchOptions {
+  query?: string;           // Extra span query, e.g. "@http.status_code:500"
+  service?: string;
+  resource?: string;
+  status?: 'ok' | 'error';
+  env?: string;
+  minDurationMs?: number;
+  /** ISO timestamp or Date - defaults to 1 hour ago */
+  from?: string | Date;
+  /** ISO timestamp or Date - defaults to now */
+  to?: string | Date;
+  maxResults?: number;      // Traces, not spans (default 20)
+}
+
+/**
+ * Search APM traces by service, resource, status and duration
+ * Matching spans are grouped per trace, most recent first.
+ */
+export async function searchTraces(options: TraceSearchOptions = {}): Promise<{
+  query: string;
+  traces: DatadogTraceSummary[];
+  timeRange: { from: string; to: string };
+}> {
+  const now = Date.now();
+  const from = toIsoTime(options.from, now - 60 * 60 * 1000);
+  const to = toIsoTime(options.to, now);
+  const maxResults = options.maxResults ?? 20;
+
+  const filters: string[] = [];
+  if (options.service) filters.push(`service:${options.service}`);
+  if (options.resource) filters.push(`resource_name:"${options.resource.replace(/"/g, '\\"')}"`);
+  if (options.env) filters.push(`env:${options.env}`);
+  if (options.status) filters.push(`status:${options.status}`);
+  if (options.minDurationMs) filters.push(`@duration:>=${options.minDurationMs}ms`);
+  if (options.query) filters.push(options.query);
+  const query = filters.join(' ') || '*';
+
+  const { spans } = await searchSpans(query, from, to, Math.min(1000, maxResults * 10), '-timestamp');
+
+  const byTrace = new Map<string, DatadogSpan[]>();
+  for (const span of spans) {
+    const group = byTrace.get(span.traceId) || [];
+    group.push(span);
+    byTrace.set(span.traceId, group);
+  }
+
+  const traces = [...byTrace.entries()].slice(0, maxResults).map(([traceId, group]) => {
+    const top = group.find(s => !s.parentId) || group.reduce((a, b) => (b.durationMs > a.durationMs ? b : a));
+    return {
+      traceId,
+      service: top.service,
+      resource: top.resource,
+      start: group.reduce((min, s) => (s.start < min ? s.start : min), top.start),
+      durationMs: top.durationMs,
+      error: group.some(s => s.error),
+      matchingSpans: group.length,
+    };
+  });
+
+  return { query, traces, timeRange: { from, to } };
+}
+
+/**
+ * Every span of a trace, oldest first
+ * The time range must cover the trace - defaults to the last 24 hours
+ */
+export async function getTrace(traceId: string, options: { from?: string | Date; to?: string | Date } = {}): Promise<DatadogTrace | null> {
+  const now = Date.now();
+  const id = normalizeTraceId(traceId);
+  const { spans, truncated } = await searchSpans(
+    `trace_id:${id}`,
+    toIsoTime(options.from, now - 24 * 60 * 60 * 1000),
+    toIsoTime(options.to, now),
+    MAX_TRACE_SPANS,
+    'timestamp'
+  );
+  if (spans.length === 0) {
+    return null;
+  }
+
+  const spanIds = new Set(spans.map(s => s.spanId));
+  const rootSpan = spans.find(s => !s.parentId) || spans.find(s => !spanIds.has(s.parentId!));
+  const startMs = Math.min(...spans.map(s => Date.parse(s.start)));
+  const endMs = Math.max(...spans.map(s => Date.parse(s.start) + s.durationMs));
+
+  return {
+    traceId: id,
+    spans,
+    rootSpan,
+    durationMs: rootSpan?.durationMs || Math.max(0, endMs - startMs),
+    services: [...new Set(spans.map(s => s.service))],
+    errorCount: spans.filter(s => s.error).length,
+    truncated,
+  };
+}
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`;
+}
+
+export interface FlameSummaryOptions {
+  maxDepth?: number;        // Default 8
+  maxLines?: number;        // Default 60
+  minPercent?: number;      // Hide subtrees shorter than this share of the trace (default 1)
+}
+
+/**
+ * Render a trace as an indented text flame graph
+ * Repeated sibling calls (N+1 queries, retries) are collapsed into one line with a count.
+ * Self time is approximate: concurrent children can hide part of a span's own work.
+ */
+export function renderFlameSummary(trace: DatadogTrace, options: FlameSummaryOptions = {}): string {
+  const { maxDepth = 8, maxLines = 60, minPercent = 1 } = options;
+  const total = trace.durationMs || 1;
+
+  const children = new Map<string, DatadogSpan[]>();
+  const spanIds = new Set(trace.spans.map(s => s.spanId));
+  const roots: DatadogSpan[] = [];
+  for (const span of trace.spans) {
+    if (span.parentId && spanIds.has(span.parentId)) {
+      const siblings = children.get(span.parentId) || [];
+      siblings.push(span);
+      children.set(span.parentId, siblings);
+    } else {
+      roots.push(span);
+    }
+  }
+
+  const selfTime = (span: DatadogSpan) =>
+    Math.max(0, span.durationMs - (children.get(span.spanId) || []).reduce((sum, c) => sum + c.durationMs, 0));
+
+  const lines: string[] = [];
+  let hidden = 0;
+
+  const render = (spans: DatadogSpan[], depth: number) => {
+    // Group siblings by service + resource so repeated calls collapse
+    const groups = new Map<string, DatadogSpan[]>();
+    for (const span of spans) {
+      const key = `${span.service}\u0000${span.resource}`;
+      groups.set(key, [...(groups.get(key) || []), span]);
+    }
+
+    const ordered = [...groups.values()].sort((a, b) =>
+      b.reduce((sum, s) => sum + s.durationMs, 0) - a.reduce((sum, s) => sum + s.durationMs, 0));
+    for (const group of ordered) {
+      const duration = group.reduce((sum, s) => sum + s.durationMs, 0);
+      const percent = (duration / total) * 100;
+      if (percent < minPercent || lines.length >= maxLines) {
+        hidden += group.length;
+        continue;
+      }
+
+      const first = group[0];
+      const errors = group.filter(s => s.error);
+      const count = group.length > 1 ? `${group.length}× ` : '';
+      const self = group.reduce((sum, s) => sum + selfTime(s), 0);
+      const error = errors.length > 0
+        ? ` ✗ ${errors.length > 1 ? `${errors.length} errors` : 'error'}${errors[0].errorMessage ? `: ${errors[0].errorMessage.slice(0, 80)}` : ''}`
+        : '';
+      lines.push(`${'  '.repeat(depth)}[${formatMs(duration).padStart(8)} ${percent.toFixed(0).padStart(3)}%] ${count}${first.service} ${first.resource || first.name || ''} (self ${formatMs(self)})${error}`);
+
+      const nested = group.flatMap(s => children.get(s.spanId) || []);
+      if (depth + 1 < maxDepth) {
+        render(nested, depth + 1);
+      } else {
+        hidden += nested.length;
+      }
+    }
+  };
+  render(roots, 0);
+
+  // Where the time goes, by service
+  const byService = new Map<string, number>();
+  for (const span of trace.spans) {
+    byService.set(span.service, (byService.get(span.service) || 0) + selfTime(span));
+  }
+  const serviceLines = [...byService.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 8)
+    .map(([service, ms]) => `  ${service.padEnd(30)} ${formatMs(ms).padStart(9)} ${((ms / total) * 100).toFixed(0).padStart(3)}%`);
+
+  return [
+    `Trace ${trace.traceId} - ${formatMs(trace.durationMs)}, ${trace.spans.length} spans, ${trace.services.length} services, ${trace.errorCount} error spans${trace.truncated ? ' (truncated)' : ''}`,
+    ...lines,
+    ...(hidden > 0 ? [`  ... ${hidden} more spans (short or too deep)`] : []),
+    '',
+    'Self time by service:',
+    ...serviceLines,
+  ].join('\n');
+}
+
+// ============================================================================
+// ERROR TRACKING
+// ============================================================================
+
+export interface ErrorIssueSearchOptions {
+  query?: string;           // e.g. "service:checkout env:prod"
+  track?: 'trace' | 'logs' | 'rum';
+  /** ISO timestamp or Date - defaults to 24 hours ago */
+  from?: string | Date;
+  /** ISO timestamp or Date - defaults to now */
+  to?: string | Date;
+  maxResults?: number;
+}
+
+interface RawErrorIssue {
+  id: string;
+  attributes?: {
+    service?: string;
+    error_type?: string;
+    error_message?: string;
+    file_path?: string;
+    function_name?: string;
+    state?: string;
+    first_seen?: number;
+    last_seen?: number;
+    first_seen_version?: string;
+    last_seen_version?: string;
+  };
+}
+
+function toErrorIssue(raw: RawErrorIssue): DatadogErrorIssue {
+  const attrs = raw.attributes || {};
+  return {
+    id: raw.id,
+    service: attrs.service,
+    errorType: attrs.error_type,
+    errorMessage: attrs.error_message,
+    filePath: attrs.file_path,
+    functionName: attrs.function_name,
+    state: attrs.state,
+    firstSeen: attrs.first_seen ? new Date(attrs.first_seen).toISOString() : undefined,
+    lastSeen: attrs.last_seen ? new Date(attrs.last_seen).toISOString() : undefined,
+    firstSeenVersion: attrs.first_seen_version,
+    lastSeenVersion: attrs.last_seen_version,
+  };
+}
+
+/**
+ * Search Error Tracking issues, most frequent first
+ */
+export async function searchErrorIssues(options: ErrorIssueSearchOptions = {}): Promise<DatadogErrorIssue[]> {
+  const now = Date.now();
+  const from = Date.parse(toIsoTime(options.from, now - 24 * 60 * 60 * 1000));
+  const to = Date.parse(toIsoTime(options.to, now));
+
+  const data = await datadogFetch('/error-tracking/issues/search?include=issue', {
+    apiVersion: 'v2',
+    method: 'POST', // Search is a READ operation
+    idempotent: true,
+    body: {
+      data: {
+        type: 'search_request',
+        attributes: {
+          query: options.query || '*',
+          from,
+          to,
+          track: options.track || 'trace',
+          order_by: 'TOTAL_COUNT',
+        },
+      },
+    },
+  }) as {
+    data?: Array<{
+      attributes?: { total_count?: number; impacted_users?: number };
+      relationships?: { issue?: { data?: { id: string } } };
+    }>;
+    included?: RawErrorIssue[];
+  };
+
+  const issues = new Map((data.included || []).map(issue => [issue.id, issue]));
+  return (data.data || []).slice(0, options.maxResults ?? 25).flatMap(result => {
+    const id = result.relationships?.issue?.data?.id;
+    const issue = id ? issues.get(id) : undefined;
+    if (!issue) return [];
+    return [{
+      ...toErrorIssue(issue),
+      occurrences: result.attributes?.total_count,
+      impactedUsers: result.attributes?.impacted_users,
+    }];
+  });
+}
+
+export async function getErrorIssue(issueId: string): Promise<DatadogErrorIssue | null> {
+  try {
+    const data = await datadogFetch(`/error-tracking/issues/${issueId}`, { apiVersion: 'v2' }) as { data: RawErrorIssue };
+    return toErrorIssue(data.data);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('404')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export type ErrorIssueGrouping = 'service' | 'error_type' | 'file';
+
+export interface ErrorIssueGroup {
+  key: string;
+  issues: number;
+  occurrences: number;
+  issueIds: string[];
+}
+
+/**
+ * Group Error Tracking issues by service, error type or source file, biggest first
+ */
+export function groupErrorIssues(issues: DatadogErrorIssue[], by: ErrorIssueGrouping): ErrorIssueGroup[] {
+  const groups = new Map<string, ErrorIssueGroup>();
+  for (const issue of issues) {
+    const key = (by === 'service' ? issue.service : by === 'error_type' ? issue.errorType : issue.filePath) || 'unknown';
+    const group = groups.get(key) || { key, issues: 0, occurrences: 0, issueIds: [] };
+    group.issues++;
+    group.occurrences += issue.occurrences || 0;
+    group.issueIds.push(issue.id);
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.occurrences - a.occurrences || b.issues - a.issues);
+}
+
+// ============================================================================
+// MONITOR DOWNTIMES (MUTES) AND HISTORY
+// ============================================================================
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * ISO time from an ISO timestamp or a duration from now ("30m", "2h", "1d")
+ */
+export function resolveTimeOrDuration(value: string): string {
+  const duration = value.trim().match(/^(\d+(?:\.\d+)?)\s*([mhdw])$/i);
+  if (duration) {
+    return new Date(Date.now() + parseFloat(duration[1]) * DURATION_UNITS_MS[duration[2].toLowerCase()]).toISOString();
+  }
+  const parsed = Date.parse(value);
+  if (isNaN(parsed)) {
+    throw new Error(`Invalid time "${value}" - use an ISO timestamp or a duration like "2h"`);
+  }
+  return new Date(parsed).toISOString();
+}
+
+interface RawDowntime {
+  id: string;
+  attributes?: {
+    status?: string;
+    scope?: string;
+    message?: string;
+    created?: string;
+    monitor_identifier?: { monitor_id?: number; monitor_tags?: string[] };
+    schedule?: { start?: string | null; end?: string | null; current_downtime?: { start?: string; end?: string | null } };
+  };
+}
+
+function toDowntime(raw: RawDowntime): DatadogDowntime {
+  const attrs = raw.attributes || {};
+  const schedule = attrs.schedule?.current_downtime || attrs.schedule || {};
+  return {
+    id: raw.id,
+    status: attrs.status || 'unknown',
+    scope: attrs.scope || '*',
+    monitorId: attrs.monitor_identifier?.monitor_id,
+    monitorTags: attrs.monitor_identifier?.monitor_tags,
+    message: attrs.message || undefined,
+    start: schedule.start || undefined,
+    end: schedule.end || undefined,
+    createdAt: attrs.created,
+  };
+}
+
+export interface ScheduleDowntimeOptions {
+  monitorId?: number;
+  monitorTags?: string[];   // Used when monitorId is not set
+  scope?: string;           // Default "*" (every group)
+  start?: string;           // ISO timestamp; default now
+  end?: string;             // ISO timestamp or duration ("2h"); default until canceled
+  message?: string;
+}
+
+/**
+ * Schedule a downtime for one monitor or every monitor with the given tags
+ */
+export async function scheduleDowntime(options: ScheduleDowntimeOptions): Promise<DatadogDowntime> {
+  const { monitorId, monitorTags, scope = '*', start, end, message } = options;
+  if (monitorId === undefined && !monitorTags?.length) {
+    throw new Error('A downtime needs a monitorId or monitorTags');
+  }
+
+  const schedule: Record<string, string> = {};
+  if (start) schedule.start = resolveTimeOrDuration(start);
+  if (end) schedule.end = resolveTimeOrDuration(end);
+
+  const data = await datadogFetch('/downtime', {
+    apiVersion: 'v2',
+    method: 'POST',
+    body: {
+      data: {
+        type: 'downtime',
+        attributes: {
+          monitor_identifier: monitorId !== undefined ? { monitor_id: monitorId } : { monitor_tags: monitorTags },
+          scope,
+          ...(Object.keys(schedule).length > 0 ? { schedule } : {}),
+          ...(message ? { message } : {}),
+        },
+      },
+    },
+  }) as { data: RawDowntime };
+
+  return toDowntime(data.data);
+}
+
+/**
+ * Mute a monitor (optionally only some groups, via scope) until `end`, or until unmuted
+ */
+export async function muteMonitor(monitorId: number, options: { scope?: string; end?: string; message?: string } = {}): Promise<DatadogDowntime> {
+  return scheduleDowntime({ monitorId, ...options });
+}
+
+/**
+ * Downtimes that are active or scheduled (or every downtime, with includeEnded)
+ */
+export async function listDowntimes(options: { monitorId?: number; includeEnded?: boolean } = {}): Promise<DatadogDowntime[]> {
+  const data = await datadogFetch(`/downtime?current_only=${options.includeEnded ? 'false' : 'true'}`, { apiVersion: 'v2' }) as { data?: RawDowntime[] };
+  const downtimes = (data.data || []).map(toDowntime);
+  return options.monitorId !== undefined
+    ? downtimes.filter(d => d.monitorId === options.monitorId)
+    : downtimes;
+}
+
+export async function cancelDowntime(downtimeId: string): Promise<void> {
+  await datadogFetch(`/downtime/${downtimeId}`, { apiVersion: 'v2', method: 'DELETE' });
+}
+
+/**
+ * Unmute a monitor by canceling its active downtimes (only those with this scope, if given)
+ * Downtimes that target monitors by tag are left alone.
+ */
+export async function unmuteMonitor(monitorId: number, scope?: string): Promise<DatadogDowntime[]> {
+  const downtimes = (await listDowntimes({ monitorId }))
+    .filter(d => d.status === 'active' || d.status === 'scheduled')
+    .filter(d => !scope || d.scope === scope);
+  for (const downtime of downtimes) {
+    await cancelDowntime(downtime.id);
+  }
+  return downtimes;
+}
+
+const TRANSITION_TITLE = /^\[(P\d\] \[)?([^\]]+)\]\s*/;
+
+/**
+ * Current state per group and recent state transitions of a monitor
+ */
+export async function getMonitorHistory(
+  monitorId: number,
+  options: { from?: string | Date; to?: string | Date } = {}
+): Promise<DatadogMonitorHistory | null> {
+  const now = Date.now();
+  const from = toIsoTime(options.from, now - 7 * 24 * 60 * 60 * 1000);
+  const to = toIsoTime(options.to, now);
+
+  let monitor: {
+    id: number;
+    name: string;
+    overall_state?: string;
+    overall_state_modified?: string;
+    state?: { groups?: Record<string, { status?: string; last_triggered_ts?: number; last_resolved_ts?: number }> };
+  };
+  try {
+    monitor = await datadogFetch(`/monitor/${monitorId}?group_states=all`) as typeof monitor;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('404')) {
+      return null;
+    }
+    throw error;
+  }
+
+  const events = await datadogFetch('/events/search', {
+    apiVersion: 'v2',
+    method: 'POST', // Search is a READ operation
+    idempotent: true,
+    body: {
+      filter: { query: `source:alert @monitor_id:${monitorId}`, from, to },
+      sort: 'timestamp',
+      page: { limit: 200 },
+    },
+  }) as {
+    data?: Array<{
+      attributes?: {
+        timestamp?: string;
+        attributes?: { title?: string; monitor_id?: number; monitor_groups?: string[]; status?: string };
+      };
+    }>;
+  };
+
+  const transitions = (events.data || [])
+    .filter(e => e.attributes?.attributes?.monitor_id === undefined || e.attributes.attributes.monitor_id === monitorId)
+    .map(e => {
+      const attrs = e.attributes?.attributes || {};
+      const title = attrs.title || '';
+      const match = title.match(TRANSITION_TITLE);
+      return {
+        timestamp: e.attributes?.timestamp || '',
+        transition: match ? match[2] : attrs.status || 'unknown',
+        group: attrs.monitor_groups?.join(', ') || undefined,
+        title: title.replace(TRANSITION_TITLE, ''),
+      };
+    });
+
+  const toIso = (seconds?: number) => (seconds ? new Date(seconds * 1000).toISOString() : undefined);
+  return {
+    monitorId,
+    name: monitor.name,
+    state: monitor.overall_state || 'unknown',
+    stateSince: monitor.overall_state_modified,
+    groups: Object.entries(monitor.state?.groups || {}).map(([group, state]) => ({
+      group,
+      status: state.status || 'unknown',
+      lastTriggered: toIso(state.last_triggered_ts),
+      lastResolved: toIso(state.last_resolved_ts),
+    })),
+    transitions,
+    timeRange: { from, to },
+  };
+}
+
+// ============================================================================
+// SLOs
+// ============================================================================
+
+const TIMEFRAME_MS: Record<string, number> = {
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+};
+
+interface RawSlo {
+  id: string;
+  name: string;
+  type?: string;
+  description?: string;
+  thresholds?: Array<{ timeframe: string; target: number; warning?: number }>;
+  tags?: string[];
+}
+
+function toSlo(raw: RawSlo): DatadogSlo {
+  return {
+    id: raw.id,
+    name: raw.name,
+    type: raw.type || 'unknown',
+    description: raw.description || undefined,
+    thresholds: (raw.thresholds || []).map(t => ({ timeframe: t.timeframe, target: t.target, warning: t.warning })),
+    tags: raw.tags || [],
+  };
+}
+
+export async function searchSlos(query?: string, maxResults: number = 25): Promise<DatadogSlo[]> {
+  const params = new URLSearchParams({ limit: String(maxResults) });
+  if (query) params.set('query', query);
+  const data = await datadogFetch(`/slo?${params}`) as { data?: RawSlo[] };
+  return (data.data || []).map(toSlo);
+}
+
+async function getSloSli(sloId: string, fromMs: number, toMs: number): Promise<number | undefined> {
+  const data = await datadogFetch(
+    `/slo/${sloId}/history?from_ts=${Math.floor(fromMs / 1000)}&to_ts=${Math.floor(toMs / 1000)}`
+  ) as { data?: { overall?: { sli_value?: number | null } } };
+  const sli = data.data?.overall?.sli_value;
+  return typeof sli === 'number' ? sli : undefined;
+}
+
+/**
+ * SLO status: budget left over its timeframe and the burn rate over a shorter window
+ * `window` is a duration back from now ("1h", "24h", "7d") unless from/to are given (default 24h).
+ */
+export async function getSloStatus(
+  sloId: string,
+  options: { window?: string; from?: string; to?: string; timeframe?: string } = {}
+): Promise<DatadogSloStatus | null> {
+  let slo: DatadogSlo;
+  try {
+    const data = await datadogFetch(`/slo/${sloId}`) as { data: RawSlo };
+    slo = toSlo(data.data);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('404')) {
+      return null;
+    }
+    throw error;
+  }
+
+  const threshold = slo.thresholds.find(t => t.timeframe === options.timeframe) || slo.thresholds[0];
+  if (!threshold) {
+    throw new Error(`SLO ${sloId} has no thresholds`);
+  }
+  const timeframeMs = TIMEFRAME_MS[threshold.timeframe] || TIMEFRAME_MS['30d'];
+
+  const now = Date.now();
+  const windowMatch = (options.window || '24h').trim().match(/^(\d+(?:\.\d+)?)\s*([mhdw])$/i);
+  if (!options.from && !windowMatch) {
+    throw new Error(`Invalid window "${options.window}" - use a duration like "1h", "24h" or "7d"`);
+  }
+  const toMs = options.to ? Date.parse(options.to) : now;
+  const fromMs = options.from
+    ? Date.parse(options.from)
+    : toMs - parseFloat(windowMatch![1]) * DURATION_UNITS_MS[windowMatch![2].toLowerCase()];
+
+  const [sli, windowSli] = await Promise.all([
+    getSloSli(sloId, now - timeframeMs, now),
+    getSloSli(sloId, fromMs, toMs),
+  ]);
+
+  const allowedError = 100 - threshold.target;
+  const burnRate = windowSli !== undefined && allowedError > 0 ? (100 - windowSli) / allowedError : undefined;
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  return {
+    slo,
+    timeframe: threshold.timeframe,
+    target: threshold.target,
+    sli,
+    errorBudgetRemaining: sli !== undefined && allowedError > 0 ? round(100 - ((100 - sli) / allowedError) * 100) : undefined,
+    window: {
+      from: new Date(fromMs).toISOString(),
+      to: new Date(toMs).toISOString(),
+      sli: windowSli,
+      burnRate: burnRate !== undefined ? round(burnRate) : undefined,
+      budgetConsumed: burnRate !== undefined ? round(burnRate * ((toMs - fromMs) / timeframeMs) * 100) : undefined,
+    },
+  };
+}
+
 // ============================================================================
 // URL PARSING
 // ============================================================================
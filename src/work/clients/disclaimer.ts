@@ -0,0 +1,17 @@
+// AI assistant disclaimer prepended to everything written on the user's behalf
+// (comments, replies, notes)
+
+const DISCLAIMER_TEXT = "Hey! Koren's AI assistant here. I've looked into this, but I'm not perfect—double-check with Koren if you need to be sure.";
+
+export interface DisclaimerOptions {
+  // Plain text targets (Google Docs) show markdown emphasis literally
+  plainText?: boolean;
+}
+
+/**
+ * Wrap text with AI assistant disclaimer
+ */
+export function wrapWithAIDisclaimer(text: string, options?: DisclaimerOptions): string {
+  const disclaimer = options?.plainText ? `🤖 ${DISCLAIMER_TEXT}\n\n` : `🤖 *${DISCLAIMER_TEXT}*\n\n`;
+  return disclaimer + text;
+}
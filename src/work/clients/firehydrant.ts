@@ -1,7 +1,13 @@
-// FireHydrant API Client - READ ONLY
+// FireHydrant API Client
 // Uses FIREHYDRANT_API_KEY
+// Reads incidents, their timeline, roles and runbooks; writes notes, role assignments,
+// milestones and severity (writes go through the agent's approval gate).
 
 import { FireHydrantIncident, FireHydrantAlert } from '../types.js';
+import { fetchWithRetry, apiErrorFromResponse } from './http.js';
+import { wrapWithAIDisclaimer } from './disclaimer.js';
+
+const FIREHYDRANT_API = 'https://api.firehydrant.io/v1';
 
 function getApiKey(): string {
   const apiKey = process.env.FIREHYDRANT_API_KEY;
@@ -13,57 +19,83 @@ function getApiKey(): string {
 
 async function firehydrantFetch(endpoint: string): Promise<unknown> {
   const apiKey = getApiKey();
-  
-  const response = await fetch(`https://api.firehydrant.io/v1${endpoint}`, {
-    method: 'GET', // READ ONLY
+
+  const response = await fetchWithRetry('FireHydrant', `${FIREHYDRANT_API}${endpoint}`, {
+    method: 'GET',
     headers: {
       'Authorization': `Bearer ${apiKey}`,
       'Accept': 'application/json',
     },
   });
-  
+
   if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`FireHydrant API error (${response.status}): ${errorText}`);
+    throw await apiErrorFromResponse('FireHydrant', response);
   }
-  
+
   return response.json();
 }
 
+async function firehydrantWrite(method: 'POST' | 'PATCH' | 'PUT', endpoint: string, body: unknown): Promise<unknown> {
+  const apiKey = getApiKey();
+
+  const response = await fetchWithRetry('FireHydrant', `${FIREHYDRANT_API}${endpoint}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await apiErrorFromResponse('FireHydrant', response);
+  }
+
+  if (response.status === 204) {
+    return null;
+  }
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+}
+
+interface RawIncident {
+  id: string;
+  name: string;
+  summary?: string;
+  severity?: string;
+  current_milestone?: string;
+  created_at: string;
+  started_at?: string;
+  resolved_at?: string;
+  services?: Array<{ name: string }>;
+  environments?: Array<{ name: string }>;
+}
+
+function toIncident(incident: RawIncident): FireHydrantIncident {
+  return {
+    id: incident.id,
+    name: incident.name,
+    summary: incident.summary,
+    severity: incident.severity || 'unknown',
+    currentMilestone: incident.current_milestone || 'unknown',
+    createdAt: incident.created_at,
+    startedAt: incident.started_at,
+    resolvedAt: incident.resolved_at,
+    services: incident.services?.map(s => s.name) || [],
+    environments: incident.environments?.map(e => e.name) || [],
+  };
+}
+
 export async function searchIncidents(query: string, maxResults: number = 20): Promise<FireHydrantIncident[]> {
   try {
     const params = new URLSearchParams({
       query,
       per_page: maxResults.toString(),
     });
-    
-    const data = await firehydrantFetch(`/incidents?${params}`) as {
-      data: Array<{
-        id: string;
-        name: string;
-        summary?: string;
-        severity?: string;
-        current_milestone?: string;
-        created_at: string;
-        started_at?: string;
-        resolved_at?: string;
-        services?: Array<{ name: string }>;
-        environments?: Array<{ name: string }>;
-      }>;
-    };
-    
-    return data.data.map(incident => ({
-      id: incident.id,
-      name: incident.name,
-      summary: incident.summary,
-      severity: incident.severity || 'unknown',
-      currentMilestone: incident.current_milestone || 'unknown',
-      createdAt: incident.created_at,
-      startedAt: incident.started_at,
-      resolvedAt: incident.resolved_at,
-      services: incident.services?.map(s => s.name) || [],
-      environments: incident.environments?.map(e => e.name) || [],
-    }));
+
+    const data = await firehydrantFetch(`/incidents?${params}`) as { data: RawIncident[] };
+    return data.data.map(toIncident);
   } catch {
     return [];
   }
@@ -71,31 +103,8 @@ export async function searchIncidents(query: string, maxResults: number = 20): P
 
 export async function getIncident(incidentId: string): Promise<FireHydrantIncident | null> {
   try {
-    const data = await firehydrantFetch(`/incidents/${incidentId}`) as {
-      id: string;
-      name: string;
-      summary?: string;
-      severity?: string;
-      current_milestone?: string;
-      created_at: string;
-      started_at?: string;
-      resolved_at?: string;
-      services?: Array<{ name: string }>;
-      environments?: Array<{ name: string }>;
-    };
-    
-    return {
-      id: data.id,
-      name: data.name,
-      summary: data.summary,
-      severity: data.severity || 'unknown',
-      currentMilestone: data.current_milestone || 'unknown',
-      createdAt: data.created_at,
-      startedAt: data.started_at,
-      resolvedAt: data.resolved_at,
-      services: data.services?.map(s => s.name) || [],
-      environments: data.environments?.map(e => e.name) || [],
-    };
+    const data = await firehydrantFetch(`/incidents/${incidentId}`) as RawIncident;
+    return toIncident(data);
   } catch (error) {
     if (error instanceof Error && error.message.includes('404')) {
       return null;
@@ -106,33 +115,8 @@ export async function getIncident(incidentId: string): Promise<FireHydrantIncide
 
 export async function getRecentIncidents(maxResults: number = 10): Promise<FireHydrantIncident[]> {
   try {
-    const data = await firehydrantFetch(`/incidents?per_page=${maxResults}`) as {
-      data: Array<{
-        id: string;
-        name: string;
-        summary?: string;
-        severity?: string;
-        current_milestone?: string;
-        created_at: string;
-        started_at?: string;
-        resolved_at?: string;
-        services?: Array<{ name: string }>;
-        environments?: Array<{ name: string }>;
-      }>;
-    };
-    
-    return data.data.map(incident => ({
-      id: incident.id,
-      name: incident.name,
-      summary: incident.summary,
-      severity: incident.severity || 'unknown',
-      currentMilestone: incident.current_milestone || 'unknown',
-      createdAt: incident.created_at,
-      startedAt: incident.started_at,
-      resolvedAt: incident.resolved_at,
-      services: incident.services?.map(s => s.name) || [],
-      environments: incident.environments?.map(e => e.name) || [],
-    }));
+    const data = await firehydrantFetch(`/incidents?per_page=${maxResults}`) as { data: RawIncident[] };
+    return data.data.map(toIncident);
   } catch {
     return [];
   }
@@ -144,7 +128,7 @@ export async function getAlerts(incidentId?: string, maxResults: number = 20): P
     if (incidentId) {
       endpoint = `/incidents/${incidentId}/alerts?per_page=${maxResults}`;
     }
-    
+
     const data = await firehydrantFetch(endpoint) as {
       data: Array<{
         id: string;
@@ -154,7 +138,7 @@ export async function getAlerts(incidentId?: string, maxResults: number = 20): P
         incident_id?: string;
       }>;
     };
-    
+
     return data.data.map(alert => ({
       id: alert.id,
       summary: alert.summary || 'No summary',
@@ -167,7 +151,397 @@ export async function getAlerts(incidentId?: string, maxResults: number = 20): P
   }
 }
 
+/**
+ * Incident ID from a FireHydrant incident URL in free text (app.firehydrant.io/incidents/<id>)
+ */
+export function findIncidentId(text: string): string | null {
+  const match = text.match(/firehydrant\.(?:io|com)\/incidents\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i);
+  return match ? match[1] : null;
+}
+
+// ===== Timeline =====
+
+export interface IncidentTimelineEvent {
+  id: string;
+  type: string;           // e.g. "note", "chat_message", "milestone_update", "role_update"
+  occurredAt: string;
+  author?: string;
+  text: string;           // Note body, or a one-line description of the change
+  visibility?: string;
+}
+
+interface RawEvent {
+  id: string;
+  type?: string;
+  occurred_at?: string;
+  created_at?: string;
+  visibility?: string;
+  author?: { name?: string };
+  created_by?: { name?: string };
+  data?: Record<string, unknown>;
+}
+
+// Events carry type-specific payloads - pick the human-readable part
+function describeEvent(event: RawEvent): string {
+  const data = event.data || {};
+  for (const key of ['body', 'text', 'message', 'description', 'summary']) {
+    const value = data[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  const changes = Object.entries(data)
+    .filter(([, value]) => typeof value === 'string' || typeof value === 'number')
+    .map(([key, value]) => `${key}: ${value}`);
+  return changes.join(', ') || (event.type || 'event').replace(/_/g, ' ');
+}
+
+/**
+ * Timeline events for an incident, oldest first
+ */
+export async function getIncidentTimeline(incidentId: string, maxResults: number = 100): Promise<IncidentTimelineEvent[]> {
+  const data = await firehydrantFetch(`/incidents/${incidentId}/events?per_page=${maxResults}`) as { data: RawEvent[] };
+
+  return data.data
+    .map(event => ({
+      id: event.id,
+      type: event.type || 'event',
+      occurredAt: event.occurred_at || event.created_at || '',
+      author: event.author?.name || event.created_by?.name,
+      text: describeEvent(event),
+      visibility: event.visibility,
+    }))
+    .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+}
+
+export interface AddIncidentNoteOptions {
+  incidentId: string;
+  body: string;
+  visibility?: 'private_to_org' | 'open_to_public' | 'internal_status_page';
+  skipDisclaimer?: boolean;
+}
+
+export interface AddIncidentNoteResult {
+  id: string;
+  incidentId: string;
+  occurredAt?: string;
+}
+
+/**
+ * Post a note to the incident timeline
+ */
+export async function addIncidentNote(options: AddIncidentNoteOptions): Promise<AddIncidentNoteResult> {
+  const { incidentId, body, visibility = 'private_to_org', skipDisclaimer = false } = options;
+
+  const result = await firehydrantWrite('POST', `/incidents/${incidentId}/notes`, {
+    body: skipDisclaimer ? body : wrapWithAIDisclaimer(body),
+    visibility,
+  }) as { id: string; occurred_at?: string; created_at?: string } | null;
+
+  return {
+    id: result?.id || '',
+    incidentId,
+    occurredAt: result?.occurred_at || result?.created_at,
+  };
+}
+
+// ===== Roles =====
+
+export interface IncidentRole {
+  id: string;
+  name: string;
+  summary?: string;
+}
+
+export interface IncidentRoleAssignment {
+  id: string;
+  role: string;
+  roleId: string;
+  user: string;
+  userId: string;
+  email?: string;
+}
+
+export async function listIncidentRoles(): Promise<IncidentRole[]> {
+  const data = await firehydrantFetch('/incident_roles?per_page=100') as {
+    data: Array<{ id: string; name: string; summary?: string; discarded_at?: string | null }>;
+  };
+
+  return data.data
+    .filter(r => !r.discarded_at)
+    .map(r => ({ id: r.id, name: r.name, summary: r.summary }));
+}
+
+/**
+ * Current (active) role assignments on an incident
+ */
+export async function getIncidentRoleAssignments(incidentId: string): Promise<IncidentRoleAssignment[]> {
+  const data = await firehydrantFetch(`/incidents/${incidentId}/role_assignments?status=active`) as {
+    data: Array<{
+      id: string;
+      status?: string;
+      incident_role: { id: string; name: string };
+      user: { id: string; name: string; email?: string };
+    }>;
+  };
+
+  return data.data
+    .filter(a => !a.status || a.status === 'active')
+    .map(a => ({
+      id: a.id,
+      role: a.incident_role.name,
+      roleId: a.incident_role.id,
+      user: a.user.name,
+      userId: a.user.id,
+      email: a.user.email,
+    }));
+}
+
+interface FireHydrantUser {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+async function getCurrentUser(): Promise<FireHydrantUser> {
+  const data = await firehydrantFetch('/current_user') as FireHydrantUser;
+  return { id: data.id, name: data.name, email: data.email };
+}
+
+async function resolveUser(user: string): Promise<FireHydrantUser> {
+  if (user.toLowerCase() === 'me') {
+    return getCurrentUser();
+  }
+
+  const params = new URLSearchParams({ query: user, per_page: '20' });
+  const data = await firehydrantFetch(`/users?${params}`) as { data: FireHydrantUser[] };
+  const wanted = user.toLowerCase();
+  const exact = data.data.find(u => u.id === user || u.email?.toLowerCase() === wanted || u.name.toLowerCase() === wanted);
+  if (exact) return exact;
+  if (data.data.length === 1) return data.data[0];
+
+  const candidates = data.data.slice(0, 5).map(u => u.name).join(', ');
+  throw new Error(data.data.length === 0
+    ? `No FireHydrant user matches "${user}"`
+    : `"${user}" matches several FireHydrant users (${candidates}) - use their email`);
+}
+
+/**
+ * Assign an incident role (e.g. "Incident Commander") to a user ("me", a name or an email)
+ */
+export async function assignIncidentRole(incidentId: string, role: string, user: string): Promise<IncidentRoleAssignment> {
+  const roles = await listIncidentRoles();
+  const wanted = role.trim().toLowerCase();
+  const match = roles.find(r => r.id === role.trim()) || roles.find(r => r.name.toLowerCase() === wanted);
+  if (!match) {
+    const available = roles.map(r => r.name).join(', ') || 'none';
+    throw new Error(`No incident role "${role}". Available: ${available}`);
+  }
+
+  const assignee = await resolveUser(user);
+  const result = await firehydrantWrite('POST', `/incidents/${incidentId}/role_assignments`, {
+    incident_role_id: match.id,
+    user_id: assignee.id,
+  }) as { id: string } | null;
+
+  return {
+    id: result?.id || '',
+    role: match.name,
+    roleId: match.id,
+    user: assignee.name,
+    userId: assignee.id,
+    email: assignee.email,
+  };
+}
+
+// ===== Milestones and severity =====
+
+export interface UpdateIncidentOptions {
+  milestone?: string;   // Milestone slug, e.g. "identified", "mitigated", "resolved"
+  severity?: string;    // Severity slug, e.g. "SEV1"
+  note?: string;        // Optional note posted to the timeline with the change
+}
+
+export interface UpdateIncidentResult {
+  incident: FireHydrantIncident;
+  changed: string[];
+}
+
+/**
+ * Move an incident to another milestone and/or change its severity
+ */
+export async function updateIncident(incidentId: string, options: UpdateIncidentOptions): Promise<UpdateIncidentResult> {
+  const { milestone, severity, note } = options;
+  if (!milestone && !severity) {
+    throw new Error('Nothing to update - pass a milestone and/or severity');
+  }
+
+  const changed: string[] = [];
+  if (severity) {
+    await firehydrantWrite('PATCH', `/incidents/${incidentId}`, { severity });
+    changed.push(`severity → ${severity}`);
+  }
+  if (milestone) {
+    const slug = milestone.trim().toLowerCase().replace(/\s+/g, '_');
+    await firehydrantWrite('PUT', `/incidents/${incidentId}/milestones/bulk_update`, {
+      milestones: [{ type: slug, occurred_at: new Date().toISOString() }],
+    });
+    changed.push(`milestone → ${slug}`);
+  }
+  if (note) {
+    await addIncidentNote({ incidentId, body: note });
+  }
+
+  const incident = await getIncident(incidentId);
+  if (!incident) {
+    throw new Error(`Incident ${incidentId} not found after update`);
+  }
+  return { incident, changed };
+}
+
+// ===== Runbooks =====
+
+export interface RunbookStep {
+  name: string;
+  status: string;         // e.g. "pending", "completed", "errored"
+  automatic?: boolean;
+}
+
+export interface IncidentRunbook {
+  executionId: string;
+  name: string;
+  description?: string;
+  status: string;
+  steps: RunbookStep[];
+}
+
+type RawStatus = string | { state?: string } | undefined;
+
+function statusText(status: RawStatus): string {
+  if (!status) return 'unknown';
+  return typeof status === 'string' ? status : status.state || 'unknown';
+}
+
+/**
+ * Runbooks attached to an incident and the state of each step
+ */
+export async function getIncidentRunbooks(incidentId: string): Promise<IncidentRunbook[]> {
+  const params = new URLSearchParams({ incident_id: incidentId, per_page: '50' });
+  const data = await firehydrantFetch(`/runbooks/executions?${params}`) as {
+    data: Array<{
+      id: string;
+      status?: RawStatus;
+      runbook?: { name?: string; description?: string };
+      steps?: Array<{ name: string; status?: RawStatus; automatic?: boolean }>;
+    }>;
+  };
+
+  return data.data.map(execution => ({
+    executionId: execution.id,
+    name: execution.runbook?.name || 'Unnamed runbook',
+    description: execution.runbook?.description,
+    status: statusText(execution.status),
+    steps: (execution.steps || []).map(step => ({
+      name: step.name,
+      status: statusText(step.status),
+      automatic: step.automatic,
+    })),
+  }));
+}
+
+// ===== Change tracking =====
+
+export interface IncidentSnapshot {
+  incidentId: string;
+  takenAt: string;
+  name: string;
+  severity: string;
+  milestone: string;
+  resolvedAt?: string;
+  roles: Record<string, string>;   // role name → user name
+  lastEventAt?: string;
+  eventIds: string[];
+}
+
+export interface IncidentChanges {
+  incidentId: string;
+  name: string;
+  since?: string;                  // When the previous snapshot was taken (undefined on first look)
+  changes: string[];               // Field-level changes (severity, milestone, roles)
+  newEvents: IncidentTimelineEvent[];
+}
+
+/**
+ * Current state of an incident, for comparing with a later look
+ */
+export async function getIncidentSnapshot(incidentId: string): Promise<{ snapshot: IncidentSnapshot; timeline: IncidentTimelineEvent[] }> {
+  const incident = await getIncident(incidentId);
+  if (!incident) {
+    throw new Error(`Incident ${incidentId} not found`);
+  }
+  const [timeline, assignments] = await Promise.all([
+    getIncidentTimeline(incidentId),
+    getIncidentRoleAssignments(incidentId),
+  ]);
+
+  const roles: Record<string, string> = {};
+  for (const a of assignments) {
+    roles[a.role] = roles[a.role] ? `${roles[a.role]}, ${a.user}` : a.user;
+  }
+
+  return {
+    snapshot: {
+      incidentId,
+      takenAt: new Date().toISOString(),
+      name: incident.name,
+      severity: incident.severity,
+      milestone: incident.currentMilestone,
+      resolvedAt: incident.resolvedAt,
+      roles,
+      lastEventAt: timeline[timeline.length - 1]?.occurredAt,
+      eventIds: timeline.map(e => e.id),
+    },
+    timeline,
+  };
+}
+
+/**
+ * What changed between two snapshots of an incident
+ * Without a previous snapshot, every timeline event counts as new
+ */
+export function diffIncidentSnapshots(
+  previous: IncidentSnapshot | null,
+  current: IncidentSnapshot,
+  timeline: IncidentTimelineEvent[]
+): IncidentChanges {
+  const changes: string[] = [];
+  if (previous) {
+    if (previous.severity !== current.severity) {
+      changes.push(`Severity: ${previous.severity} → ${current.severity}`);
+    }
+    if (previous.milestone !== current.milestone) {
+      changes.push(`Milestone: ${previous.milestone} → ${current.milestone}`);
+    }
+    if (!previous.resolvedAt && current.resolvedAt) {
+      changes.push(`Resolved at ${current.resolvedAt}`);
+    }
+    for (const role of new Set([...Object.keys(previous.roles), ...Object.keys(current.roles)])) {
+      const before = previous.roles[role];
+      const after = current.roles[role];
+      if (before !== after) {
+        changes.push(`${role}: ${before || 'unassigned'} → ${after || 'unassigned'}`);
+      }
+    }
+  }
+
+  const seen = new Set(previous?.eventIds || []);
+  return {
+    incidentId: current.incidentId,
+    name: current.name,
+    since: previous?.takenAt,
+    changes,
+    newEvents: timeline.filter(e => !seen.has(e.id)),
+  };
+}
+
 export function isFireHydrantConfigured(): boolean {
   return !!process.env.FIREHYDRANT_API_KEY;
 }
-
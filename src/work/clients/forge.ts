@@ -0,0 +1,230 @@
+// Code forge hosts - github.com, GitHub Enterprise Server and GitLab
+// Resolves repo and PR/MR URLs to the host whose API serves them, so the PR tooling
+// (clients/github.ts, PR watch, background poller, task executor) works against any of them.
+//
+//   GITHUB_TOKEN              - github.com only (never sent to the enterprise host)
+//   GITHUB_API_URL            - github.com API base (default: https://api.github.com)
+//   GITHUB_ENTERPRISE_URL     - GitHub Enterprise Server web URL, e.g. https://github.acme.corp
+//   GITHUB_ENTERPRISE_TOKEN   - token for the enterprise host (required there)
+//   GITHUB_ENTERPRISE_API_URL - enterprise API base (default: <GITHUB_ENTERPRISE_URL>/api/v3)
+//   GITLAB_URL                - GitLab web URL (default: https://gitlab.com)
+//   GITLAB_TOKEN              - GitLab personal access token (api scope)
+
+export type ForgeKind = 'github' | 'gitlab';
+
+export interface ForgeHost {
+  kind: ForgeKind;
+  hostname: string;      // e.g. github.acme.corp
+  webUrl: string;        // e.g. https://github.acme.corp
+  apiUrl: string;        // REST API base
+  graphqlUrl?: string;   // GitHub only
+  token?: string;
+}
+
+export interface RepoRef {
+  host: ForgeHost;
+  owner: string;         // GitLab: full namespace, including subgroups
+  repo: string;
+  webUrl: string;        // Canonical https URL of the repository
+}
+
+function trimUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Configured forge hosts (github.com is always present)
+ */
+export function getForgeHosts(): ForgeHost[] {
+  const hosts: ForgeHost[] = [];
+
+  const githubApi = trimUrl(process.env.GITHUB_API_URL || 'https://api.github.com');
+  hosts.push({
+    kind: 'github',
+    hostname: 'github.com',
+    webUrl: 'https://github.com',
+    apiUrl: githubApi,
+    graphqlUrl: `${githubApi}/graphql`,
+    token: process.env.GITHUB_TOKEN,
+  });
+
+  if (process.env.GITHUB_ENTERPRISE_URL) {
+    const webUrl = trimUrl(process.env.GITHUB_ENTERPRISE_URL);
+    const apiUrl = trimUrl(process.env.GITHUB_ENTERPRISE_API_URL || `${webUrl}/api/v3`);
+    hosts.push({
+      kind: 'github',
+      hostname: hostnameOf(webUrl),
+      webUrl,
+      apiUrl,
+      // GHES serves GraphQL at /api/graphql next to the /api/v3 REST base
+      graphqlUrl: apiUrl.replace(/\/v3$/, '') + '/graphql',
+      // A separately administered host - the github.com token is not a fallback
+      token: process.env.GITHUB_ENTERPRISE_TOKEN,
+    });
+  }
+
+  const gitlabUrl = trimUrl(process.env.GITLAB_URL || 'https://gitlab.com');
+  hosts.push({
+    kind: 'gitlab',
+    hostname: hostnameOf(gitlabUrl),
+    webUrl: gitlabUrl,
+    apiUrl: `${gitlabUrl}/api/v4`,
+    token: process.env.GITLAB_TOKEN,
+  });
+
+  return hosts;
+}
+
+function findHost(hostname: string): ForgeHost | undefined {
+  const name = hostname.toLowerCase();
+  return getForgeHosts().find(h => h.hostname === name);
+}
+
+// Host and path of https, ssh:// and scp-style (git@host:path) URLs
+function splitRepoUrl(url: string): { hostname: string; path: string } | null {
+  const trimmed = url.trim();
+  const scp = trimmed.match(/^[\w.-]+@([\w.-]+):(.+)$/);
+  if (scp) {
+    return { hostname: scp[1], path: scp[2] };
+  }
+  try {
+    const parsed = new URL(trimmed);
+    return { hostname: parsed.hostname, path: parsed.pathname };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a repository URL (or any URL inside the repository) to its forge host
+ * Throws for hosts that are not configured
+ */
+export function parseRepoRef(url: string): RepoRef {
+  const split = splitRepoUrl(url);
+  const host = split ? findHost(split.hostname) : undefined;
+  if (!split || !host) {
+    throw new Error(`Invalid repository URL: ${url} (expected github.com, GITHUB_ENTERPRISE_URL or GITLAB_URL host)`);
+  }
+
+  let segments = split.path.replace(/\.git$/, '').split('/').filter(Boolean);
+  if (host.kind === 'gitlab') {
+    // GitLab routes below the project start with "/-/" (merge_requests, pipelines, jobs)
+    const dash = segments.indexOf('-');
+    if (dash !== -1) segments = segments.slice(0, dash);
+  } else {
+    segments = segments.slice(0, 2);
+  }
+
+  if (segments.length < 2) {
+    throw new Error(`Invalid repository URL: ${url}`);
+  }
+
+  const repo = segments[segments.length - 1].replace(/\.git$/, '');
+  const owner = segments.slice(0, -1).join('/');
+  return { host, owner, repo, webUrl: `${host.webUrl}/${owner}/${repo}` };
+}
+
+function tryParseRepoRef(url: string): RepoRef | undefined {
+  try {
+    return parseRepoRef(url);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Forge host for a repository URL, or undefined if it is not a configured host
+ */
+export function getForgeForRepo(url: string): ForgeHost | undefined {
+  return tryParseRepoRef(url)?.host;
+}
+
+export function isGitLabRepo(url: string): boolean {
+  return getForgeForRepo(url)?.kind === 'gitlab';
+}
+
+/**
+ * Parse a pull request / merge request reference
+ * Supports:
+ * - https://github.com/owner/repo/pull/123 (and the enterprise host)
+ * - https://gitlab.example.com/group/sub/project/-/merge_requests/123
+ * - owner/repo#123 (github.com) and group/project!123 (GitLab)
+ */
+export function parseChangeRequestUrl(input: string): { repoUrl: string; prNumber: number } | null {
+  const trimmed = input.trim();
+
+  const pull = trimmed.match(/^(https?:\/\/[^\s]+?)\/pull\/(\d+)/);
+  if (pull) {
+    const ref = tryParseRepoRef(pull[1]);
+    if (ref?.host.kind === 'github') return { repoUrl: ref.webUrl, prNumber: parseInt(pull[2]) };
+  }
+
+  const mr = trimmed.match(/^(https?:\/\/[^\s]+?)\/-\/merge_requests\/(\d+)/);
+  if (mr) {
+    const ref = tryParseRepoRef(mr[1]);
+    if (ref?.host.kind === 'gitlab') return { repoUrl: ref.webUrl, prNumber: parseInt(mr[2]) };
+  }
+
+  const short = trimmed.match(/^([\w.-]+)\/([\w.-]+)#(\d+)$/);
+  if (short) {
+    return { repoUrl: `https://github.com/${short[1]}/${short[2]}`, prNumber: parseInt(short[3]) };
+  }
+
+  const shortMr = trimmed.match(/^([\w.-]+(?:\/[\w.-]+)+)!(\d+)$/);
+  if (shortMr) {
+    const gitlab = getForgeHosts().find(h => h.kind === 'gitlab')!;
+    return { repoUrl: `${gitlab.webUrl}/${shortMr[1]}`, prNumber: parseInt(shortMr[2]) };
+  }
+
+  return null;
+}
+
+/**
+ * Find the first PR / MR URL on a configured host in free text
+ */
+export function findChangeRequestUrl(text: string): string | null {
+  for (const match of text.matchAll(/https?:\/\/[^\s)>\]"']+?\/(?:pull|-\/merge_requests)\/\d+/g)) {
+    if (parseChangeRequestUrl(match[0])) return match[0];
+  }
+  return null;
+}
+
+/**
+ * Find the first repository URL on a configured host in free text
+ */
+export function findRepoUrl(text: string): string | null {
+  for (const match of text.matchAll(/https?:\/\/[^\s)>\]"']+/g)) {
+    const ref = tryParseRepoRef(match[0]);
+    if (ref) return ref.webUrl;
+  }
+  return null;
+}
+
+/**
+ * Whether the forge serving repoUrl has a token (or, without a URL, whether any forge does)
+ */
+export function isForgeConfigured(repoUrl?: string): boolean {
+  if (repoUrl) {
+    return !!getForgeForRepo(repoUrl)?.token;
+  }
+  return getForgeHosts().some(h => !!h.token);
+}
+
+/**
+ * Token for a host, or an error naming the variable to set
+ */
+export function requireForgeToken(host: ForgeHost): string {
+  if (host.token) return host.token;
+  const variable = host.kind === 'gitlab'
+    ? 'GITLAB_TOKEN'
+    : host.hostname === 'github.com' ? 'GITHUB_TOKEN' : 'GITHUB_ENTERPRISE_TOKEN';
+  throw new Error(`${variable} not found in environment (needed for ${host.hostname})`);
+}
@@ -1,5 +1,18 @@
-// GitHub API Client - READ ONLY
-// Uses GITHUB_TOKEN for authentication
+// GitHub API Client
+// Uses GITHUB_TOKEN for authentication (GITHUB_ENTERPRISE_TOKEN for the enterprise host)
+// Reads use the REST API; writes (PRs, reviews, merges) need a token with repo scope.
+// Draft toggles and review thread resolution are GraphQL-only.
+// Repo URLs on the GitLab host are served by gitlab.ts - the public PR functions below
+// route there, so callers can pass any forge's URL (see forge.ts).
+
+import { fetchWithRetry, apiErrorFromResponse } from './http.js';
+import { ForgeHost, parseRepoRef, requireForgeToken, isForgeConfigured, getForgeHosts, isGitLabRepo } from './forge.js';
+import * as gitlab from './gitlab.js';
+import { wrapWithAIDisclaimer } from './disclaimer.js';
+
+// Whether the PR can merge as is - 'behind' when the base moved on and the branch must be
+// updated first, 'conflicted' when it conflicts with the base, 'unknown' while still computed
+export type PRMergeState = 'clean' | 'behind' | 'conflicted' | 'blocked' | 'unknown';
 
 export interface GitHubPullRequest {
   number: number;
@@ -21,54 +34,154 @@ export interface GitHubPullRequest {
   labels: string[];
   reviewers: string[];
   assignees: string[];
+  mergeState?: PRMergeState;  // Only from getPullRequest (list endpoints don't compute it)
+  merged?: boolean;           // Only from getPullRequest - a closed PR may or may not have merged
 }
 
-interface GitHubConfig {
-  token: string;
+function githubHeaders(token: string): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${token}`,
+    'Accept': 'application/vnd.github+json',
+    'X-GitHub-Api-Version': '2022-11-28',
+  };
 }
 
-function getConfig(): GitHubConfig {
-  const token = process.env.GITHUB_TOKEN;
+async function githubFetch(host: ForgeHost, endpoint: string): Promise<unknown> {
+  const token = requireForgeToken(host);
+  
+  const response = await fetchWithRetry('GitHub', `${host.apiUrl}${endpoint}`, {
+    method: 'GET',
+    headers: githubHeaders(token),
+  });
   
-  if (!token) {
-    throw new Error('GITHUB_TOKEN not found in environment');
+  if (!response.ok) {
+    throw await apiErrorFromResponse('GitHub', response);
   }
   
-  return { token };
+  return response.json();
 }
 
-async function githubFetch(endpoint: string): Promise<unknown> {
-  const { token } = getConfig();
+// Writes return null for 204 No Content (reviewer removal, label replacement)
+async function githubWrite(
+  host: ForgeHost,
+  method: 'POST' | 'PATCH' | 'PUT' | 'DELETE',
+  endpoint: string,
+  body?: unknown
+): Promise<unknown> {
+  const token = requireForgeToken(host);
   
-  const response = await fetch(`https://api.github.com${endpoint}`, {
-    method: 'GET', // READ ONLY
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Accept': 'application/vnd.github+json',
-      'X-GitHub-Api-Version': '2022-11-28',
-    },
+  const response = await fetchWithRetry('GitHub', `${host.apiUrl}${endpoint}`, {
+    method,
+    headers: { ...githubHeaders(token), 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
   });
   
   if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`GitHub API error (${response.status}): ${errorText}`);
+    throw await apiErrorFromResponse('GitHub', response);
   }
   
-  return response.json();
+  if (response.status === 204) {
+    return null;
+  }
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+}
+
+// GraphQL reports most failures as 200 with an `errors` array
+async function githubGraphQL(
+  host: ForgeHost,
+  query: string,
+  variables: Record<string, unknown>,
+  options: { mutation?: boolean } = {}
+): Promise<unknown> {
+  const token = requireForgeToken(host);
+  
+  const response = await fetchWithRetry('GitHub', host.graphqlUrl || `${host.apiUrl}/graphql`, {
+    method: 'POST',
+    headers: { ...githubHeaders(token), 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+  }, { idempotent: !options.mutation });
+  
+  if (!response.ok) {
+    throw await apiErrorFromResponse('GitHub', response);
+  }
+  
+  const result = await response.json() as { data?: unknown; errors?: Array<{ message: string }> };
+  if (result.errors?.length) {
+    throw new Error(`GitHub GraphQL error: ${result.errors.map(e => e.message).join('; ')}`);
+  }
+  return result.data;
+}
+
+interface RawPullRequest {
+  number: number;
+  node_id: string;
+  title: string;
+  state: string;
+  user: { login: string };
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  draft: boolean;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+  body?: string;
+  labels: Array<{ name: string }>;
+  requested_reviewers: Array<{ login: string }>;
+  assignees: Array<{ login: string }>;
+}
+
+function toPullRequest(pr: RawPullRequest): GitHubPullRequest {
+  return {
+    number: pr.number,
+    title: pr.title,
+    state: pr.state as 'open' | 'closed',
+    author: pr.user.login,
+    url: pr.html_url,
+    created_at: pr.created_at,
+    updated_at: pr.updated_at,
+    draft: pr.draft,
+    head: {
+      ref: pr.head.ref,
+      sha: pr.head.sha,
+    },
+    base: {
+      ref: pr.base.ref,
+    },
+    body: pr.body ?? undefined,
+    labels: pr.labels.map(l => l.name),
+    reviewers: (pr.requested_reviewers || []).map(r => r.login),
+    assignees: (pr.assignees || []).map(a => a.login),
+  };
 }
 
 /**
  * Parse GitHub repo URL to extract owner and repo name
  * Supports both HTTPS and SSH formats
  */
-function parseRepoUrl(url: string): { owner: string; repo: string } {
-  // https://github.com/owner/repo or https://github.com/owner/repo.git
-  const httpsMatch = url.match(/github\.com[/:]([\w-]+)\/([\w-]+?)(\.git)?$/);
-  if (httpsMatch) {
-    return { owner: httpsMatch[1], repo: httpsMatch[2] };
+function parseRepoUrl(url: string): { owner: string; repo: string; host: ForgeHost } {
+  // https://github.com/owner/repo(.git), git@github.com:owner/repo.git, the same on the
+  // enterprise host, or a GitLab project URL (group/subgroup/project)
+  const { owner, repo, host } = parseRepoRef(url);
+  return { owner, repo, host };
+}
+
+function toMergeState(mergeableState: string | undefined): PRMergeState {
+  switch (mergeableState) {
+    case 'dirty':
+      return 'conflicted';
+    case 'behind':
+      return 'behind';
+    case 'clean':
+    case 'unstable':   // Mergeable, with failing checks
+    case 'has_hooks':
+      return 'clean';
+    case 'blocked':
+    case 'draft':
+      return 'blocked';
+    default:
+      return 'unknown';
   }
-  
-  throw new Error(`Invalid GitHub URL format: ${url}`);
 }
 
 /**
@@ -82,7 +195,8 @@ export async function listPullRequests(
     maxResults?: number;
   } = {}
 ): Promise<GitHubPullRequest[]> {
-  const { owner, repo } = parseRepoUrl(repoUrl);
+  if (isGitLabRepo(repoUrl)) return gitlab.listMergeRequests(repoUrl, options);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
   const { state = 'open', author, maxResults = 30 } = options;
   
   try {
@@ -94,7 +208,7 @@ export async function listPullRequests(
       direction: 'desc',
     });
     
-    const data = await githubFetch(`/repos/${owner}/${repo}/pulls?${params}`) as Array<{
+    const data = await githubFetch(host, `/repos/${owner}/${repo}/pulls?${params}`) as Array<{
       number: number;
       title: string;
       state: string;
@@ -142,7 +256,7 @@ export async function listPullRequests(
     }));
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`GitHub list PRs failed: ${errMsg}`);
+    throw new Error(`GitHub list PRs failed: ${errMsg}`, { cause: error });
   }
 }
 
@@ -153,10 +267,11 @@ export async function getPullRequest(
   repoUrl: string,
   prNumber: number
 ): Promise<GitHubPullRequest | null> {
-  const { owner, repo } = parseRepoUrl(repoUrl);
+  if (isGitLabRepo(repoUrl)) return gitlab.getMergeRequest(repoUrl, prNumber);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
   
   try {
-    const pr = await githubFetch(`/repos/${owner}/${repo}/pulls/${prNumber}`) as {
+    const pr = await githubFetch(host, `/repos/${owner}/${repo}/pulls/${prNumber}`) as {
       number: number;
       title: string;
       state: string;
@@ -171,6 +286,8 @@ export async function getPullRequest(
       labels: Array<{ name: string }>;
       requested_reviewers: Array<{ login: string }>;
       assignees: Array<{ login: string }>;
+      mergeable_state?: string;
+      merged?: boolean;
     };
     
     return {
@@ -193,6 +310,8 @@ export async function getPullRequest(
       labels: pr.labels.map(l => l.name),
       reviewers: pr.requested_reviewers.map(r => r.login),
       assignees: pr.assignees.map(a => a.login),
+      mergeState: toMergeState(pr.mergeable_state),
+      merged: pr.merged ?? false,
     };
   } catch (error) {
     if (error instanceof Error && error.message.includes('404')) {
@@ -216,6 +335,9 @@ export interface PRReviewComment {
   // Context
   diff_hunk?: string;    // The diff snippet this comment is on
   in_reply_to_id?: number;  // If this is a reply to another comment
+  // Review thread (for github_resolve_review_thread) - missing if threads could not be loaded
+  thread_id?: string;
+  resolved?: boolean;
 }
 
 export interface PRIssueComment {
@@ -241,10 +363,11 @@ export async function getPRReviewComments(
   repoUrl: string,
   prNumber: number
 ): Promise<PRReviewComment[]> {
-  const { owner, repo } = parseRepoUrl(repoUrl);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
   
   try {
     const data = await githubFetch(
+      host,
       `/repos/${owner}/${repo}/pulls/${prNumber}/comments`
     ) as Array<{
       id: number;
@@ -274,7 +397,7 @@ export async function getPRReviewComments(
     }));
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to get PR review comments: ${errMsg}`);
+    throw new Error(`Failed to get PR review comments: ${errMsg}`, { cause: error });
   }
 }
 
@@ -286,10 +409,11 @@ export async function getPRIssueComments(
   repoUrl: string,
   prNumber: number
 ): Promise<PRIssueComment[]> {
-  const { owner, repo } = parseRepoUrl(repoUrl);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
   
   try {
     const data = await githubFetch(
+      host,
       `/repos/${owner}/${repo}/issues/${prNumber}/comments`
     ) as Array<{
       id: number;
@@ -310,22 +434,97 @@ export async function getPRIssueComments(
     }));
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to get PR issue comments: ${errMsg}`);
+    throw new Error(`Failed to get PR issue comments: ${errMsg}`, { cause: error });
+  }
+}
+
+export interface PRReviewThread {
+  id: string;            // GraphQL node ID
+  resolved: boolean;
+  outdated: boolean;
+  path: string;
+  commentIds: number[];  // REST comment IDs, first is the thread's root comment
+}
+
+/**
+ * Get the review threads on a PR (GraphQL - REST has no thread or resolution state)
+ */
+export async function getPRReviewThreads(
+  repoUrl: string,
+  prNumber: number
+): Promise<PRReviewThread[]> {
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  
+  const data = await githubGraphQL(host, `
+    query($owner: String!, $repo: String!, $number: Int!) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $number) {
+          reviewThreads(first: 100) {
+            nodes {
+              id
+              isResolved
+              isOutdated
+              path
+              comments(first: 100) { nodes { databaseId } }
+            }
+          }
+        }
+      }
+    }`, { owner, repo, number: prNumber }) as {
+    repository: {
+      pullRequest: {
+        reviewThreads: {
+          nodes: Array<{
+            id: string;
+            isResolved: boolean;
+            isOutdated: boolean;
+            path: string;
+            comments: { nodes: Array<{ databaseId: number }> };
+          }>;
+        };
+      } | null;
+    };
+  };
+  
+  if (!data.repository.pullRequest) {
+    throw new Error(`PR #${prNumber} not found`);
   }
+  
+  return data.repository.pullRequest.reviewThreads.nodes.map(t => ({
+    id: t.id,
+    resolved: t.isResolved,
+    outdated: t.isOutdated,
+    path: t.path,
+    commentIds: t.comments.nodes.map(c => c.databaseId),
+  }));
 }
 
 /**
  * Get all comments on a PR (both review comments and issue comments)
+ * Review comments carry their thread ID and resolution state so they can be
+ * replied to and resolved
  */
 export async function getPRComments(
   repoUrl: string,
   prNumber: number
 ): Promise<PRComments> {
-  const [reviewComments, issueComments] = await Promise.all([
+  if (isGitLabRepo(repoUrl)) return gitlab.getMergeRequestComments(repoUrl, prNumber);
+  const [reviewComments, issueComments, threads] = await Promise.all([
     getPRReviewComments(repoUrl, prNumber),
     getPRIssueComments(repoUrl, prNumber),
+    // Thread state is a nice-to-have; the comments are still useful without it
+    getPRReviewThreads(repoUrl, prNumber).catch(() => [] as PRReviewThread[]),
   ]);
   
+  for (const thread of threads) {
+    for (const comment of reviewComments) {
+      if (thread.commentIds.includes(comment.id)) {
+        comment.thread_id = thread.id;
+        comment.resolved = thread.resolved;
+      }
+    }
+  }
+  
   return {
     reviewComments,
     issueComments,
@@ -351,6 +550,289 @@ export async function searchPullRequestsByAuthor(
   });
 }
 
+// ===== PR Writes =====
+
+/**
+ * Get a repository's default branch (base for new PRs)
+ */
+export async function getDefaultBranch(repoUrl: string): Promise<string> {
+  if (isGitLabRepo(repoUrl)) return gitlab.getDefaultBranch(repoUrl);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  const data = await githubFetch(host, `/repos/${owner}/${repo}`) as { default_branch: string };
+  return data.default_branch;
+}
+
+export interface CreatePullRequestOptions {
+  title: string;
+  head: string;          // Branch with the changes
+  base?: string;         // Target branch (default: the repo's default branch)
+  body?: string;
+  draft?: boolean;
+}
+
+export async function createPullRequest(
+  repoUrl: string,
+  options: CreatePullRequestOptions
+): Promise<GitHubPullRequest> {
+  if (isGitLabRepo(repoUrl)) return gitlab.createMergeRequest(repoUrl, options);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  const base = options.base || await getDefaultBranch(repoUrl);
+  
+  const pr = await githubWrite(host, 'POST', `/repos/${owner}/${repo}/pulls`, {
+    title: options.title,
+    head: options.head,
+    base,
+    body: options.body,
+    draft: options.draft ?? false,
+  }) as RawPullRequest;
+  
+  return toPullRequest(pr);
+}
+
+export interface UpdatePullRequestOptions {
+  title?: string;
+  body?: string;
+  base?: string;
+  state?: 'open' | 'closed';
+}
+
+export async function updatePullRequest(
+  repoUrl: string,
+  prNumber: number,
+  options: UpdatePullRequestOptions
+): Promise<GitHubPullRequest> {
+  if (isGitLabRepo(repoUrl)) return gitlab.updateMergeRequest(repoUrl, prNumber, options);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  
+  const pr = await githubWrite(host, 'PATCH', `/repos/${owner}/${repo}/pulls/${prNumber}`, {
+    title: options.title,
+    body: options.body,
+    base: options.base,
+    state: options.state,
+  }) as RawPullRequest;
+  
+  return toPullRequest(pr);
+}
+
+/**
+ * Convert a PR to draft, or mark it ready for review
+ */
+export async function setPullRequestDraft(
+  repoUrl: string,
+  prNumber: number,
+  draft: boolean
+): Promise<{ number: number; draft: boolean; url: string }> {
+  if (isGitLabRepo(repoUrl)) return gitlab.setMergeRequestDraft(repoUrl, prNumber, draft);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  const pr = await githubFetch(host, `/repos/${owner}/${repo}/pulls/${prNumber}`) as RawPullRequest;
+  
+  if (pr.draft !== draft) {
+    const mutation = draft ? 'convertPullRequestToDraft' : 'markPullRequestReadyForReview';
+    await githubGraphQL(
+      host,
+      `mutation($id: ID!) { ${mutation}(input: { pullRequestId: $id }) { pullRequest { isDraft } } }`,
+      { id: pr.node_id },
+      { mutation: true }
+    );
+  }
+  
+  return { number: pr.number, draft, url: pr.html_url };
+}
+
+/**
+ * Request reviews from users and/or teams (team slugs without the org)
+ */
+export async function requestReviewers(
+  repoUrl: string,
+  prNumber: number,
+  reviewers: string[] = [],
+  teamReviewers: string[] = []
+): Promise<{ reviewers: string[]; teams: string[] }> {
+  if (isGitLabRepo(repoUrl)) return gitlab.requestMergeRequestReviewers(repoUrl, prNumber, reviewers, teamReviewers);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  
+  const pr = await githubWrite(host, 'POST', `/repos/${owner}/${repo}/pulls/${prNumber}/requested_reviewers`, {
+    reviewers,
+    team_reviewers: teamReviewers,
+  }) as RawPullRequest & { requested_teams?: Array<{ slug: string }> };
+  
+  return {
+    reviewers: (pr.requested_reviewers || []).map(r => r.login),
+    teams: (pr.requested_teams || []).map(t => t.slug),
+  };
+}
+
+/**
+ * Add a comment to the PR conversation
+ */
+export async function addPRComment(
+  repoUrl: string,
+  prNumber: number,
+  body: string,
+  skipDisclaimer: boolean = false
+): Promise<PRIssueComment> {
+  const text = skipDisclaimer ? body : wrapWithAIDisclaimer(body);
+  if (isGitLabRepo(repoUrl)) return gitlab.addMergeRequestNote(repoUrl, prNumber, text);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  
+  const c = await githubWrite(host, 'POST', `/repos/${owner}/${repo}/issues/${prNumber}/comments`, {
+    body: text,
+  }) as { id: number; body: string; user: { login: string }; created_at: string; updated_at: string; html_url: string };
+  
+  return {
+    id: c.id,
+    body: c.body,
+    author: c.user.login,
+    created_at: c.created_at,
+    updated_at: c.updated_at,
+    html_url: c.html_url,
+  };
+}
+
+/**
+ * Reply in the thread of an inline review comment
+ * Replies to a reply are posted to the thread's root comment (GitHub only threads one level)
+ */
+export async function replyToReviewComment(
+  repoUrl: string,
+  prNumber: number,
+  commentId: number,
+  body: string,
+  skipDisclaimer: boolean = false
+): Promise<{ id: number; html_url: string; in_reply_to_id: number }> {
+  const text = skipDisclaimer ? body : wrapWithAIDisclaimer(body);
+  if (isGitLabRepo(repoUrl)) return gitlab.replyToMergeRequestNote(repoUrl, prNumber, commentId, text);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  
+  const c = await githubWrite(host, 'POST', `/repos/${owner}/${repo}/pulls/${prNumber}/comments/${commentId}/replies`, {
+    body: text,
+  }) as { id: number; html_url: string; in_reply_to_id: number };
+  
+  return { id: c.id, html_url: c.html_url, in_reply_to_id: c.in_reply_to_id };
+}
+
+/**
+ * Resolve (or unresolve) a review thread
+ * Takes the thread ID from getPRComments, or any comment ID in the thread
+ */
+export async function resolveReviewThread(
+  repoUrl: string,
+  prNumber: number,
+  target: { threadId?: string; commentId?: number },
+  resolved: boolean = true
+): Promise<{ threadId: string; resolved: boolean }> {
+  if (isGitLabRepo(repoUrl)) return gitlab.resolveMergeRequestDiscussion(repoUrl, prNumber, target, resolved);
+  const { host } = parseRepoUrl(repoUrl);
+  let threadId = target.threadId;
+  if (!threadId) {
+    if (target.commentId === undefined) {
+      throw new Error('Provide a threadId or commentId');
+    }
+    const threads = await getPRReviewThreads(repoUrl, prNumber);
+    threadId = threads.find(t => t.commentIds.includes(target.commentId!))?.id;
+    if (!threadId) {
+      throw new Error(`No review thread contains comment ${target.commentId} on PR #${prNumber}`);
+    }
+  }
+  
+  const mutation = resolved ? 'resolveReviewThread' : 'unresolveReviewThread';
+  await githubGraphQL(
+    host,
+    `mutation($id: ID!) { ${mutation}(input: { threadId: $id }) { thread { isResolved } } }`,
+    { id: threadId },
+    { mutation: true }
+  );
+  
+  return { threadId, resolved };
+}
+
+export type ReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+
+export interface SubmitReviewOptions {
+  event: ReviewEvent;
+  body?: string;                 // Required by GitHub for REQUEST_CHANGES and COMMENT
+  comments?: Array<{ path: string; line: number; body: string }>;  // Inline comments on the new code
+  skipDisclaimer?: boolean;
+}
+
+export async function submitReview(
+  repoUrl: string,
+  prNumber: number,
+  options: SubmitReviewOptions
+): Promise<{ id: number; state: string; html_url: string }> {
+  const wrap = (text: string) => options.skipDisclaimer ? text : wrapWithAIDisclaimer(text);
+  const body = options.body ? wrap(options.body) : undefined;
+  const comments = options.comments?.map(c => ({ ...c, body: wrap(c.body) }));
+  if (isGitLabRepo(repoUrl)) {
+    return gitlab.submitMergeRequestReview(repoUrl, prNumber, { event: options.event, body, comments, skipDisclaimer: true });
+  }
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  
+  const review = await githubWrite(host, 'POST', `/repos/${owner}/${repo}/pulls/${prNumber}/reviews`, {
+    event: options.event,
+    body,
+    comments: comments?.map(c => ({ path: c.path, line: c.line, side: 'RIGHT', body: c.body })),
+  }) as { id: number; state: string; html_url: string };
+  
+  return { id: review.id, state: review.state, html_url: review.html_url };
+}
+
+/**
+ * Add labels to a PR (existing labels are kept)
+ */
+export async function addLabels(
+  repoUrl: string,
+  prNumber: number,
+  labels: string[]
+): Promise<string[]> {
+  if (isGitLabRepo(repoUrl)) return gitlab.addMergeRequestLabels(repoUrl, prNumber, labels);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  
+  const data = await githubWrite(host, 'POST', `/repos/${owner}/${repo}/issues/${prNumber}/labels`, {
+    labels,
+  }) as Array<{ name: string }>;
+  
+  return data.map(l => l.name);
+}
+
+export type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+export interface MergePullRequestOptions {
+  method?: MergeMethod;          // Default: squash
+  commitTitle?: string;
+  commitMessage?: string;
+  sha?: string;                  // Only merge if the head is still at this commit
+}
+
+export interface MergeResult {
+  merged: boolean;
+  sha: string;
+  message: string;
+}
+
+/**
+ * Merge a PR
+ * GitHub answers 405 when the PR is not mergeable (checks, reviews, conflicts)
+ * and 409 when the head moved past `sha`
+ */
+export async function mergePullRequest(
+  repoUrl: string,
+  prNumber: number,
+  options: MergePullRequestOptions = {}
+): Promise<MergeResult> {
+  if (isGitLabRepo(repoUrl)) return gitlab.mergeMergeRequest(repoUrl, prNumber, options);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  
+  const result = await githubWrite(host, 'PUT', `/repos/${owner}/${repo}/pulls/${prNumber}/merge`, {
+    merge_method: options.method || 'squash',
+    commit_title: options.commitTitle,
+    commit_message: options.commitMessage,
+    sha: options.sha,
+  }) as { merged: boolean; sha: string; message: string };
+  
+  return { merged: result.merged, sha: result.sha, message: result.message };
+}
+
 // ===== PR Check Runs and Status =====
 
 export interface CheckRun {
@@ -363,6 +845,7 @@ export interface CheckRun {
   html_url: string;
   // For external services like CircleCI
   external_id?: string;
+  details_url?: string;  // The CI system's own page for the job
   app?: {
     slug: string;  // e.g., 'circleci-checks', 'github-actions'
     name: string;
@@ -422,7 +905,7 @@ export async function getPRCheckRuns(
   repoUrl: string,
   prNumber: number
 ): Promise<CheckRun[]> {
-  const { owner, repo } = parseRepoUrl(repoUrl);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
   
   // First get the PR to get the head SHA
   const pr = await getPullRequest(repoUrl, prNumber);
@@ -431,6 +914,7 @@ export async function getPRCheckRuns(
   }
   
   const data = await githubFetch(
+    host,
     `/repos/${owner}/${repo}/commits/${pr.head.sha}/check-runs`
   ) as {
     total_count: number;
@@ -443,6 +927,7 @@ export async function getPRCheckRuns(
       completed_at: string | null;
       html_url: string;
       external_id?: string;
+      details_url?: string | null;
       app?: { slug: string; name: string };
       output?: {
         title: string | null;
@@ -462,6 +947,7 @@ export async function getPRCheckRuns(
     completed_at: cr.completed_at,
     html_url: cr.html_url,
     external_id: cr.external_id,
+    details_url: cr.details_url || undefined,
     app: cr.app,
     output: cr.output,
   }));
@@ -474,7 +960,7 @@ export async function getPRCombinedStatus(
   repoUrl: string,
   prNumber: number
 ): Promise<CombinedStatus> {
-  const { owner, repo } = parseRepoUrl(repoUrl);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
   
   const pr = await getPullRequest(repoUrl, prNumber);
   if (!pr) {
@@ -482,6 +968,7 @@ export async function getPRCombinedStatus(
   }
   
   const data = await githubFetch(
+    host,
     `/repos/${owner}/${repo}/commits/${pr.head.sha}/status`
   ) as {
     state: string;
@@ -514,6 +1001,7 @@ export async function getPRChecks(
   repoUrl: string,
   prNumber: number
 ): Promise<PRChecksResult> {
+  if (isGitLabRepo(repoUrl)) return gitlab.getMergeRequestChecks(repoUrl, prNumber);
   const pr = await getPullRequest(repoUrl, prNumber);
   if (!pr) {
     throw new Error(`PR #${prNumber} not found`);
@@ -591,9 +1079,10 @@ export async function getCheckRunAnnotations(
   repoUrl: string,
   checkRunId: number
 ): Promise<CheckRunAnnotation[]> {
-  const { owner, repo } = parseRepoUrl(repoUrl);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
   
   const data = await githubFetch(
+    host,
     `/repos/${owner}/${repo}/check-runs/${checkRunId}/annotations`
   ) as Array<{
     path: string;
@@ -624,21 +1113,18 @@ export async function getWorkflowRunLogs(
   repoUrl: string,
   runId: number
 ): Promise<{ downloadUrl: string } | null> {
-  const { owner, repo } = parseRepoUrl(repoUrl);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
   
   try {
     // The logs endpoint returns a redirect to the download URL
-    const { token } = getConfig();
+    const token = requireForgeToken(host);
     
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/actions/runs/${runId}/logs`,
+    const response = await fetchWithRetry(
+      'GitHub',
+      `${host.apiUrl}/repos/${owner}/${repo}/actions/runs/${runId}/logs`,
       {
         method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/vnd.github+json',
-          'X-GitHub-Api-Version': '2022-11-28',
-        },
+        headers: githubHeaders(token),
         redirect: 'manual', // Don't follow redirect, we want the URL
       }
     );
@@ -670,10 +1156,11 @@ export async function getWorkflowRun(
   html_url: string;
   jobs_url: string;
 } | null> {
-  const { owner, repo } = parseRepoUrl(repoUrl);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
   
   try {
     const data = await githubFetch(
+      host,
       `/repos/${owner}/${repo}/actions/runs/${runId}`
     ) as {
       id: number;
@@ -708,11 +1195,14 @@ export async function getWorkflowRunJobs(
     status: string;
     conclusion: string | null;
     number: number;
+    started_at?: string | null;
+    completed_at?: string | null;
   }>;
 }>> {
-  const { owner, repo } = parseRepoUrl(repoUrl);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
   
   const data = await githubFetch(
+    host,
     `/repos/${owner}/${repo}/actions/runs/${runId}/jobs`
   ) as {
     jobs: Array<{
@@ -727,6 +1217,8 @@ export async function getWorkflowRunJobs(
         status: string;
         conclusion: string | null;
         number: number;
+        started_at?: string | null;
+        completed_at?: string | null;
       }>;
     }>;
   };
@@ -734,17 +1226,98 @@ export async function getWorkflowRunJobs(
   return data.jobs;
 }
 
+/**
+ * Plain-text log of a GitHub Actions job (for Actions, check run IDs are job IDs)
+ * Lines are prefixed with ISO timestamps, which is how steps are told apart.
+ */
+export async function getWorkflowJobLog(
+  repoUrl: string,
+  jobId: number,
+  maxChars: number = 200000
+): Promise<string> {
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  const token = requireForgeToken(host);
+  
+  // The endpoint redirects to a short-lived blob URL that must not get the token
+  const response = await fetchWithRetry(
+    'GitHub',
+    `${host.apiUrl}/repos/${owner}/${repo}/actions/jobs/${jobId}/logs`,
+    {
+      method: 'GET',
+      headers: githubHeaders(token),
+      redirect: 'manual',
+    }
+  );
+  
+  let logResponse = response;
+  const location = response.headers.get('location');
+  if (response.status >= 300 && response.status < 400 && location) {
+    logResponse = await fetchWithRetry('GitHub', location, { method: 'GET' });
+  }
+  if (!logResponse.ok) {
+    throw await apiErrorFromResponse('GitHub', logResponse);
+  }
+  
+  const log = await logResponse.text();
+  return log.length > maxChars ? log.slice(-maxChars) : log;
+}
+
+/**
+ * Re-run a failed CI job - a GitHub Actions job (with the jobs depending on it) or a GitLab CI job
+ * Check run IDs are job IDs for both.
+ */
+export async function rerunJob(repoUrl: string, jobId: number): Promise<void> {
+  if (isGitLabRepo(repoUrl)) return gitlab.retryJob(repoUrl, jobId);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  await githubWrite(host, 'POST', `/repos/${owner}/${repo}/actions/jobs/${jobId}/rerun`);
+}
+
+/**
+ * Latest result of a check (check run or commit status context) on a branch or commit
+ * null when the check has not run there
+ */
+export async function getCheckConclusionOnRef(
+  repoUrl: string,
+  ref: string,
+  checkName: string
+): Promise<'success' | 'failure' | 'pending' | null> {
+  if (isGitLabRepo(repoUrl)) return gitlab.getJobConclusionOnRef(repoUrl, ref, checkName);
+  const { owner, repo, host } = parseRepoUrl(repoUrl);
+  
+  const runs = await githubFetch(
+    host,
+    `/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}/check-runs?check_name=${encodeURIComponent(checkName)}&filter=latest`
+  ) as { check_runs: Array<{ status: string; conclusion: string | null }> };
+  const run = runs.check_runs[0];
+  if (run) {
+    if (run.status !== 'completed') return 'pending';
+    return run.conclusion === 'success' || run.conclusion === 'neutral' || run.conclusion === 'skipped' ? 'success' : 'failure';
+  }
+  
+  const combined = await githubFetch(
+    host,
+    `/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}/status`
+  ) as { statuses: Array<{ state: string; context: string }> };
+  const status = combined.statuses.find(s => s.context === checkName);
+  if (!status) return null;
+  return status.state === 'pending' ? 'pending' : status.state === 'success' ? 'success' : 'failure';
+}
+
 // Export parseRepoUrl for use by other modules
 export { parseRepoUrl };
 
-export function isGitHubConfigured(): boolean {
-  return !!process.env.GITHUB_TOKEN;
+/**
+ * Whether the forge serving repoUrl has a token - without a URL, whether any forge does
+ * (github.com, GitHub Enterprise or GitLab)
+ */
+export function isGitHubConfigured(repoUrl?: string): boolean {
+  return isForgeConfigured(repoUrl);
 }
 
-export function getGitHubConfigStatus(): { configured: boolean; error?: string } {
-  if (!process.env.GITHUB_TOKEN) {
-    return { configured: false, error: 'GITHUB_TOKEN not set' };
+export function getGitHubConfigStatus(): { configured: boolean; error?: string; hosts?: string[] } {
+  if (!isForgeConfigured()) {
+    return { configured: false, error: 'GITHUB_TOKEN, GITHUB_ENTERPRISE_TOKEN or GITLAB_TOKEN not set' };
   }
-  return { configured: true };
+  return { configured: true, hosts: getForgeHosts().filter(h => h.token).map(h => h.hostname) };
 }
 
@@ -0,0 +1,646 @@
+// GitLab API Client - merge requests, pipelines, job logs and MR notes
+// Uses GITLAB_TOKEN for authentication (see forge.ts for host configuration)
+// Results use the GitHub client's types so the PR tooling treats a merge request like a PR:
+// the MR iid is the PR number, pipeline jobs are check runs and diff notes are review comments.
+
+import { fetchWithRetry, apiErrorFromResponse } from './http.js';
+import { ForgeHost, parseRepoRef, requireForgeToken } from './forge.js';
+import type {
+  GitHubPullRequest,
+  PRMergeState,
+  PRComments,
+  PRReviewComment,
+  PRIssueComment,
+  PRChecksResult,
+  CheckRun,
+  CreatePullRequestOptions,
+  UpdatePullRequestOptions,
+  SubmitReviewOptions,
+  MergePullRequestOptions,
+  MergeResult,
+} from './github.js';
+
+interface GitLabProject {
+  host: ForgeHost;
+  id: string;            // URL-encoded namespace/project path
+  webUrl: string;
+}
+
+function resolveProject(repoUrl: string): GitLabProject {
+  const { host, owner, repo, webUrl } = parseRepoRef(repoUrl);
+  return { host, id: encodeURIComponent(`${owner}/${repo}`), webUrl };
+}
+
+async function gitlabRequest(
+  host: ForgeHost,
+  method: 'GET' | 'POST' | 'PUT',
+  endpoint: string,
+  body?: unknown
+): Promise<Response> {
+  const token = requireForgeToken(host);
+
+  const response = await fetchWithRetry('GitLab', `${host.apiUrl}${endpoint}`, {
+    method,
+    headers: {
+      'PRIVATE-TOKEN': token,
+      'Accept': 'application/json',
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await apiErrorFromResponse('GitLab', response);
+  }
+  return response;
+}
+
+async function gitlabFetch(host: ForgeHost, endpoint: string): Promise<unknown> {
+  return (await gitlabRequest(host, 'GET', endpoint)).json();
+}
+
+async function gitlabWrite(host: ForgeHost, method: 'POST' | 'PUT', endpoint: string, body?: unknown): Promise<unknown> {
+  const text = await (await gitlabRequest(host, method, endpoint, body)).text();
+  return text ? JSON.parse(text) : null;
+}
+
+// ===== Merge Requests =====
+
+interface RawMergeRequest {
+  iid: number;
+  title: string;
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  author: { username: string };
+  web_url: string;
+  created_at: string;
+  updated_at: string;
+  draft?: boolean;
+  work_in_progress?: boolean;
+  source_branch: string;
+  target_branch: string;
+  sha: string;
+  description?: string | null;
+  labels: string[];
+  reviewers?: Array<{ username: string }>;
+  assignees?: Array<{ username: string }>;
+  head_pipeline?: { id: number; status: string; web_url: string } | null;
+  diff_refs?: { base_sha: string; head_sha: string; start_sha: string } | null;
+  merge_commit_sha?: string | null;
+  squash_commit_sha?: string | null;
+  has_conflicts?: boolean;
+  detailed_merge_status?: string;
+}
+
+function toMergeState(mr: RawMergeRequest): PRMergeState {
+  if (mr.has_conflicts || mr.detailed_merge_status === 'conflict') return 'conflicted';
+  switch (mr.detailed_merge_status) {
+    case 'need_rebase':
+      return 'behind';
+    case 'mergeable':
+    case 'ci_must_pass':
+    case 'ci_still_running':
+      return 'clean';
+    case undefined:
+    case 'checking':
+    case 'unchecked':
+    case 'preparing':
+    case 'approvals_syncing':
+      return 'unknown';
+    default:
+      return 'blocked';
+  }
+}
+
+function toPullRequest(mr: RawMergeRequest): GitHubPullRequest {
+  return {
+    number: mr.iid,
+    title: mr.title,
+    state: mr.state === 'opened' ? 'open' : 'closed',
+    author: mr.author.username,
+    url: mr.web_url,
+    created_at: mr.created_at,
+    updated_at: mr.updated_at,
+    draft: mr.draft ?? mr.work_in_progress ?? false,
+    head: {
+      ref: mr.source_branch,
+      sha: mr.sha,
+    },
+    base: {
+      ref: mr.target_branch,
+    },
+    body: mr.description ?? undefined,
+    labels: mr.labels,
+    reviewers: (mr.reviewers || []).map(r => r.username),
+    assignees: (mr.assignees || []).map(a => a.username),
+    mergeState: toMergeState(mr),
+    merged: mr.state === 'merged',
+  };
+}
+
+async function fetchMergeRequest(project: GitLabProject, iid: number): Promise<RawMergeRequest> {
+  return await gitlabFetch(project.host, `/projects/${project.id}/merge_requests/${iid}`) as RawMergeRequest;
+}
+
+export async function listMergeRequests(
+  repoUrl: string,
+  options: {
+    state?: 'open' | 'closed' | 'all';
+    author?: string;
+    maxResults?: number;
+  } = {}
+): Promise<GitHubPullRequest[]> {
+  const project = resolveProject(repoUrl);
+  const { state = 'open', author, maxResults = 30 } = options;
+
+  const params = new URLSearchParams({
+    state: state === 'open' ? 'opened' : state,
+    per_page: Math.min(maxResults, 100).toString(),
+    order_by: 'updated_at',
+    sort: 'desc',
+  });
+
+  const data = await gitlabFetch(project.host, `/projects/${project.id}/merge_requests?${params}`) as RawMergeRequest[];
+
+  // Same loose author match as the GitHub client
+  const filtered = author
+    ? data.filter(mr => mr.author.username.toLowerCase().includes(author.toLowerCase()))
+    : data;
+  return filtered.map(toPullRequest);
+}
+
+export async function getMergeRequest(repoUrl: string, iid: number): Promise<GitHubPullRequest | null> {
+  try {
+    return toPullRequest(await fetchMergeRequest(resolveProject(repoUrl), iid));
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('404')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function getDefaultBranch(repoUrl: string): Promise<string> {
+  const project = resolveProject(repoUrl);
+  const data = await gitlabFetch(project.host, `/projects/${project.id}`) as { default_branch: string };
+  return data.default_branch;
+}
+
+const DRAFT_PREFIX = /^(draft:|\[draft\]|\(draft\)|wip:)\s*/i;
+
+export async function createMergeRequest(
+  repoUrl: string,
+  options: CreatePullRequestOptions
+): Promise<GitHubPullRequest> {
+  const project = resolveProject(repoUrl);
+  const base = options.base || await getDefaultBranch(repoUrl);
+
+  const mr = await gitlabWrite(project.host, 'POST', `/projects/${project.id}/merge_requests`, {
+    source_branch: options.head,
+    target_branch: base,
+    title: options.draft ? `Draft: ${options.title.replace(DRAFT_PREFIX, '')}` : options.title,
+    description: options.body,
+    remove_source_branch: true,
+  }) as RawMergeRequest;
+
+  return toPullRequest(mr);
+}
+
+export async function updateMergeRequest(
+  repoUrl: string,
+  iid: number,
+  options: UpdatePullRequestOptions
+): Promise<GitHubPullRequest> {
+  const project = resolveProject(repoUrl);
+
+  const mr = await gitlabWrite(project.host, 'PUT', `/projects/${project.id}/merge_requests/${iid}`, {
+    title: options.title,
+    description: options.body,
+    target_branch: options.base,
+    state_event: options.state === 'closed' ? 'close' : options.state === 'open' ? 'reopen' : undefined,
+  }) as RawMergeRequest;
+
+  return toPullRequest(mr);
+}
+
+/**
+ * GitLab marks drafts with a "Draft:" title prefix
+ */
+export async function setMergeRequestDraft(
+  repoUrl: string,
+  iid: number,
+  draft: boolean
+): Promise<{ number: number; draft: boolean; url: string }> {
+  const project = resolveProject(repoUrl);
+  const mr = await fetchMergeRequest(project, iid);
+  const bareTitle = mr.title.replace(DRAFT_PREFIX, '');
+  const title = draft ? `Draft: ${bareTitle}` : bareTitle;
+
+  if (title !== mr.title) {
+    await gitlabWrite(project.host, 'PUT', `/projects/${project.id}/merge_requests/${iid}`, { title });
+  }
+  return { number: iid, draft, url: mr.web_url };
+}
+
+async function findUserId(host: ForgeHost, username: string): Promise<number> {
+  const users = await gitlabFetch(host, `/users?username=${encodeURIComponent(username)}`) as Array<{ id: number }>;
+  if (users.length === 0) {
+    throw new Error(`GitLab user "${username}" not found`);
+  }
+  return users[0].id;
+}
+
+/**
+ * Add reviewers to a merge request (GitLab has no team reviewers)
+ */
+export async function requestMergeRequestReviewers(
+  repoUrl: string,
+  iid: number,
+  reviewers: string[] = [],
+  teamReviewers: string[] = []
+): Promise<{ reviewers: string[]; teams: string[] }> {
+  if (teamReviewers.length > 0) {
+    throw new Error('GitLab merge requests do not support team reviewers - list usernames instead');
+  }
+  const project = resolveProject(repoUrl);
+  const mr = await gitlabFetch(project.host, `/projects/${project.id}/merge_requests/${iid}`) as {
+    reviewers?: Array<{ id: number }>;
+  };
+
+  const newIds = await Promise.all(reviewers.map(r => findUserId(project.host, r)));
+  const reviewerIds = Array.from(new Set([...(mr.reviewers || []).map(r => r.id), ...newIds]));
+  const updated = await gitlabWrite(project.host, 'PUT', `/projects/${project.id}/merge_requests/${iid}`, {
+    reviewer_ids: reviewerIds,
+  }) as RawMergeRequest;
+
+  return { reviewers: (updated.reviewers || []).map(r => r.username), teams: [] };
+}
+
+export async function addMergeRequestLabels(repoUrl: string, iid: number, labels: string[]): Promise<string[]> {
+  const project = resolveProject(repoUrl);
+  const mr = await gitlabWrite(project.host, 'PUT', `/projects/${project.id}/merge_requests/${iid}`, {
+    add_labels: labels.join(','),
+  }) as RawMergeRequest;
+  return mr.labels;
+}
+
+/**
+ * Merge a merge request
+ * 'squash' squashes; 'merge' and 'rebase' merge with the project's configured merge method
+ */
+export async function mergeMergeRequest(
+  repoUrl: string,
+  iid: number,
+  options: MergePullRequestOptions = {}
+): Promise<MergeResult> {
+  const project = resolveProject(repoUrl);
+  const squash = (options.method || 'squash') === 'squash';
+  const message = [options.commitTitle, options.commitMessage].filter(Boolean).join('\n\n') || undefined;
+
+  const mr = await gitlabWrite(project.host, 'PUT', `/projects/${project.id}/merge_requests/${iid}/merge`, {
+    squash,
+    sha: options.sha,
+    ...(squash ? { squash_commit_message: message } : { merge_commit_message: message }),
+  }) as RawMergeRequest;
+
+  const merged = mr.state === 'merged';
+  return {
+    merged,
+    sha: mr.merge_commit_sha || mr.squash_commit_sha || mr.sha,
+    message: merged ? 'Merge request merged' : `Merge request is ${mr.state}`,
+  };
+}
+
+// ===== Pipelines =====
+
+interface RawJob {
+  id: number;
+  name: string;
+  stage: string;
+  status: string;
+  allow_failure: boolean;
+  started_at: string | null;
+  finished_at: string | null;
+  web_url: string;
+}
+
+function toCheckRun(job: RawJob): CheckRun {
+  const pending = ['created', 'pending', 'waiting_for_resource', 'preparing', 'scheduled'];
+  let status: CheckRun['status'] = 'completed';
+  let conclusion: CheckRun['conclusion'] = null;
+
+  if (pending.includes(job.status)) {
+    status = 'queued';
+  } else if (job.status === 'running') {
+    status = 'in_progress';
+  } else if (job.status === 'success') {
+    conclusion = 'success';
+  } else if (job.status === 'failed') {
+    conclusion = job.allow_failure ? 'neutral' : 'failure';
+  } else if (job.status === 'canceled') {
+    conclusion = 'cancelled';
+  } else {
+    conclusion = 'skipped'; // skipped, manual
+  }
+
+  return {
+    id: job.id,
+    name: `${job.stage}: ${job.name}`,
+    status,
+    conclusion,
+    started_at: job.started_at,
+    completed_at: job.finished_at,
+    html_url: job.web_url,
+    external_id: String(job.id),
+    app: { slug: 'gitlab-ci', name: 'GitLab CI' },
+  };
+}
+
+/**
+ * Jobs of the merge request's head pipeline, as check runs
+ */
+export async function getMergeRequestChecks(repoUrl: string, iid: number): Promise<PRChecksResult> {
+  const project = resolveProject(repoUrl);
+  const mr = await fetchMergeRequest(project, iid);
+
+  let checkRuns: CheckRun[] = [];
+  if (mr.head_pipeline) {
+    const jobs = await gitlabFetch(
+      project.host,
+      `/projects/${project.id}/pipelines/${mr.head_pipeline.id}/jobs?per_page=100&include_retried=false`
+    ) as RawJob[];
+    checkRuns = jobs.map(toCheckRun);
+  }
+
+  let pending = 0;
+  let passing = 0;
+  let failing = 0;
+  const failedChecks: PRChecksResult['summary']['failedChecks'] = [];
+  for (const cr of checkRuns) {
+    if (cr.status !== 'completed') {
+      pending++;
+    } else if (cr.conclusion === 'failure' || cr.conclusion === 'cancelled') {
+      failing++;
+      failedChecks.push({ name: cr.name, type: 'check_run', url: cr.html_url, app: cr.app?.slug });
+    } else {
+      passing++;
+    }
+  }
+
+  return {
+    sha: mr.sha,
+    checkRuns,
+    combinedStatus: {
+      state: failing > 0 ? 'failure' : pending > 0 ? 'pending' : 'success',
+      total_count: 0,
+      statuses: [],
+    },
+    summary: {
+      total: checkRuns.length,
+      pending,
+      passing,
+      failing,
+      failedChecks,
+    },
+  };
+}
+
+/**
+ * Log output of a CI job (the tail, where failures are reported)
+ */
+export async function getJobLog(repoUrl: string, jobId: number, maxChars: number = 20000): Promise<string> {
+  const project = resolveProject(repoUrl);
+  const response = await gitlabRequest(project.host, 'GET', `/projects/${project.id}/jobs/${jobId}/trace`);
+  const log = (await response.text())
+    // Strip ANSI colors and GitLab section markers
+    .replace(/\x1b\[[0-9;]*[A-Za-z]/g, '')
+    .replace(/section_(start|end):\d+:[\w.-]+\r?/g, '');
+  return log.length > maxChars ? log.slice(-maxChars) : log;
+}
+
+/**
+ * Retry a CI job (the retry runs as a new job)
+ */
+export async function retryJob(repoUrl: string, jobId: number): Promise<void> {
+  const project = resolveProject(repoUrl);
+  await gitlabWrite(project.host, 'POST', `/projects/${project.id}/jobs/${jobId}/retry`);
+}
+
+/**
+ * Result of a job ("stage: name", as in the checks) in the latest pipeline for a branch or commit
+ */
+export async function getJobConclusionOnRef(
+  repoUrl: string,
+  ref: string,
+  checkName: string
+): Promise<'success' | 'failure' | 'pending' | null> {
+  const project = resolveProject(repoUrl);
+  const refParam = /^[0-9a-f]{40}$/.test(ref) ? `sha=${ref}` : `ref=${encodeURIComponent(ref)}`;
+  const pipelines = await gitlabFetch(project.host, `/projects/${project.id}/pipelines?${refParam}&per_page=1`) as Array<{ id: number }>;
+  if (pipelines.length === 0) return null;
+
+  const jobs = await gitlabFetch(
+    project.host,
+    `/projects/${project.id}/pipelines/${pipelines[0].id}/jobs?per_page=100&include_retried=false`
+  ) as RawJob[];
+  const job = jobs.map(toCheckRun).find(cr => cr.name === checkName);
+  if (!job) return null;
+  if (job.status !== 'completed') return 'pending';
+  return job.conclusion === 'failure' || job.conclusion === 'cancelled' ? 'failure' : 'success';
+}
+
+// ===== Notes and Discussions =====
+
+interface RawNote {
+  id: number;
+  body: string;
+  author: { username: string };
+  created_at: string;
+  updated_at: string;
+  system: boolean;
+  type: string | null;  // 'DiffNote' for notes on code
+  position?: { new_path?: string; old_path?: string; new_line?: number | null; old_line?: number | null };
+  resolved?: boolean;
+}
+
+interface RawDiscussion {
+  id: string;
+  individual_note: boolean;
+  notes: RawNote[];
+}
+
+async function getDiscussions(project: GitLabProject, iid: number): Promise<RawDiscussion[]> {
+  return await gitlabFetch(
+    project.host,
+    `/projects/${project.id}/merge_requests/${iid}/discussions?per_page=100`
+  ) as RawDiscussion[];
+}
+
+async function findDiscussion(project: GitLabProject, iid: number, noteId: number): Promise<RawDiscussion> {
+  const discussion = (await getDiscussions(project, iid)).find(d => d.notes.some(n => n.id === noteId));
+  if (!discussion) {
+    throw new Error(`No discussion contains note ${noteId} on MR !${iid}`);
+  }
+  return discussion;
+}
+
+/**
+ * Notes on a merge request: diff notes as review comments (with discussion ID and
+ * resolution state), everything else as conversation comments. System notes are skipped.
+ */
+export async function getMergeRequestComments(repoUrl: string, iid: number): Promise<PRComments> {
+  const project = resolveProject(repoUrl);
+  const discussions = await getDiscussions(project, iid);
+  const noteUrl = (id: number) => `${project.webUrl}/-/merge_requests/${iid}#note_${id}`;
+
+  const reviewComments: PRReviewComment[] = [];
+  const issueComments: PRIssueComment[] = [];
+  for (const discussion of discussions) {
+    const rootId = discussion.notes[0]?.id;
+    for (const note of discussion.notes) {
+      if (note.system) continue;
+      if (note.type === 'DiffNote') {
+        reviewComments.push({
+          id: note.id,
+          body: note.body,
+          author: note.author.username,
+          path: note.position?.new_path || note.position?.old_path || '',
+          line: note.position?.new_line ?? note.position?.old_line ?? undefined,
+          created_at: note.created_at,
+          updated_at: note.updated_at,
+          html_url: noteUrl(note.id),
+          in_reply_to_id: note.id === rootId ? undefined : rootId,
+          thread_id: discussion.id,
+          resolved: note.resolved,
+        });
+      } else {
+        issueComments.push({
+          id: note.id,
+          body: note.body,
+          author: note.author.username,
+          created_at: note.created_at,
+          updated_at: note.updated_at,
+          html_url: noteUrl(note.id),
+        });
+      }
+    }
+  }
+
+  return {
+    reviewComments,
+    issueComments,
+    totalCount: reviewComments.length + issueComments.length,
+  };
+}
+
+export async function addMergeRequestNote(repoUrl: string, iid: number, body: string): Promise<PRIssueComment> {
+  const project = resolveProject(repoUrl);
+  const note = await gitlabWrite(project.host, 'POST', `/projects/${project.id}/merge_requests/${iid}/notes`, {
+    body,
+  }) as RawNote;
+
+  return {
+    id: note.id,
+    body: note.body,
+    author: note.author.username,
+    created_at: note.created_at,
+    updated_at: note.updated_at,
+    html_url: `${project.webUrl}/-/merge_requests/${iid}#note_${note.id}`,
+  };
+}
+
+/**
+ * Reply in the discussion that contains a note
+ */
+export async function replyToMergeRequestNote(
+  repoUrl: string,
+  iid: number,
+  noteId: number,
+  body: string
+): Promise<{ id: number; html_url: string; in_reply_to_id: number }> {
+  const project = resolveProject(repoUrl);
+  const discussion = await findDiscussion(project, iid, noteId);
+
+  const note = await gitlabWrite(
+    project.host,
+    'POST',
+    `/projects/${project.id}/merge_requests/${iid}/discussions/${discussion.id}/notes`,
+    { body }
+  ) as RawNote;
+
+  return {
+    id: note.id,
+    html_url: `${project.webUrl}/-/merge_requests/${iid}#note_${note.id}`,
+    in_reply_to_id: discussion.notes[0].id,
+  };
+}
+
+export async function resolveMergeRequestDiscussion(
+  repoUrl: string,
+  iid: number,
+  target: { threadId?: string; commentId?: number },
+  resolved: boolean = true
+): Promise<{ threadId: string; resolved: boolean }> {
+  const project = resolveProject(repoUrl);
+  let threadId = target.threadId;
+  if (!threadId) {
+    if (target.commentId === undefined) {
+      throw new Error('Provide a threadId or commentId');
+    }
+    threadId = (await findDiscussion(project, iid, target.commentId)).id;
+  }
+
+  await gitlabWrite(
+    project.host,
+    'PUT',
+    `/projects/${project.id}/merge_requests/${iid}/discussions/${threadId}?resolved=${resolved}`
+  );
+  return { threadId, resolved };
+}
+
+/**
+ * Review a merge request
+ * APPROVE approves (plus a note if there is a body); GitLab has no "request changes"
+ * state, so REQUEST_CHANGES and COMMENT post the body as a note. Inline comments
+ * become diff discussions on the MR's latest version.
+ */
+export async function submitMergeRequestReview(
+  repoUrl: string,
+  iid: number,
+  options: SubmitReviewOptions
+): Promise<{ id: number; state: string; html_url: string }> {
+  const project = resolveProject(repoUrl);
+  const mr = await fetchMergeRequest(project, iid);
+
+  for (const comment of options.comments || []) {
+    if (!mr.diff_refs) {
+      throw new Error(`MR !${iid} has no diff to comment on`);
+    }
+    await gitlabWrite(project.host, 'POST', `/projects/${project.id}/merge_requests/${iid}/discussions`, {
+      body: comment.body,
+      position: {
+        position_type: 'text',
+        base_sha: mr.diff_refs.base_sha,
+        start_sha: mr.diff_refs.start_sha,
+        head_sha: mr.diff_refs.head_sha,
+        new_path: comment.path,
+        old_path: comment.path,
+        new_line: comment.line,
+      },
+    });
+  }
+
+  let noteId = 0;
+  if (options.body) {
+    noteId = (await addMergeRequestNote(repoUrl, iid, options.body)).id;
+  }
+  if (options.event === 'APPROVE') {
+    await gitlabWrite(project.host, 'POST', `/projects/${project.id}/merge_requests/${iid}/approve`);
+  }
+
+  const state = options.event === 'APPROVE' ? 'APPROVED' : options.event === 'REQUEST_CHANGES' ? 'CHANGES_REQUESTED' : 'COMMENTED';
+  return { id: noteId, state, html_url: noteId ? `${mr.web_url}#note_${noteId}` : mr.web_url };
+}
+
+export function isGitLabConfigured(): boolean {
+  return !!process.env.GITLAB_TOKEN;
+}
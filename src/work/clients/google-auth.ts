@@ -0,0 +1,291 @@
+// Google OAuth - installed-app flow with automatic token refresh
+// Uses GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET (a "Desktop app" OAuth client).
+// `hn work-google-login` runs the browser consent flow against a loopback redirect and
+// stores the refresh token in the config dir; access tokens are refreshed as they expire.
+// GOOGLE_ACCESS_TOKEN still works as a fallback (it expires after an hour).
+
+import { createServer } from 'http';
+import { randomBytes, createHash } from 'crypto';
+import type { AddressInfo } from 'net';
+import { fetchWithRetry, ApiError } from './http.js';
+import {
+  GoogleTokenRecord,
+  hasGoogleTokenRecord,
+  loadGoogleTokenRecord,
+  saveGoogleTokenRecord,
+  clearGoogleTokenRecord,
+} from '../storage/google-tokens.js';
+
+const AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+
+// Docs for reading/writing document bodies; Drive for comments, search and creating docs
+export const GOOGLE_SCOPES = [
+  'openid',
+  'email',
+  'https://www.googleapis.com/auth/documents',
+  'https://www.googleapis.com/auth/drive',
+];
+
+// Refresh this long before the access token actually expires
+const EXPIRY_MARGIN_MS = 2 * 60 * 1000;
+const DEFAULT_LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface TokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  scope?: string;
+  id_token?: string;
+}
+
+function getClientCredentials(): { clientId: string; clientSecret: string } {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error('GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET are required for Google login (create a "Desktop app" OAuth client)');
+  }
+  return { clientId, clientSecret };
+}
+
+async function requestToken(params: Record<string, string>): Promise<TokenResponse> {
+  const response = await fetchWithRetry('Google OAuth', TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    },
+    body: new URLSearchParams(params).toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error');
+    // invalid_grant: the refresh token was revoked or expired - a new login is needed
+    const code = /invalid_grant/.test(errorText) || response.status === 401 ? 'auth' : 'failed';
+    throw new ApiError('Google OAuth', `Google OAuth error (${response.status}): ${errorText}`, code, false, response.status);
+  }
+
+  return response.json() as Promise<TokenResponse>;
+}
+
+// The id_token is only used for the account email, so its signature isn't checked
+function emailFromIdToken(idToken?: string): string | undefined {
+  const payload = idToken?.split('.')[1];
+  if (!payload) return undefined;
+  try {
+    return (JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as { email?: string }).email;
+  } catch {
+    return undefined;
+  }
+}
+
+// ===== Access tokens =====
+
+let refreshInFlight: Promise<GoogleTokenRecord> | null = null;
+
+async function refreshAccessToken(record: GoogleTokenRecord): Promise<GoogleTokenRecord> {
+  // Concurrent tool calls share one refresh
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const token = await requestToken({
+          grant_type: 'refresh_token',
+          refresh_token: record.refreshToken,
+          client_id: record.clientId,
+          client_secret: record.clientSecret,
+        });
+        const refreshed: GoogleTokenRecord = {
+          ...record,
+          accessToken: token.access_token,
+          expiresAt: Date.now() + token.expires_in * 1000,
+          refreshToken: token.refresh_token || record.refreshToken,
+          scopes: token.scope ? token.scope.split(' ') : record.scopes,
+        };
+        await saveGoogleTokenRecord(refreshed);
+        return refreshed;
+      } catch (error) {
+        if (error instanceof ApiError && error.code === 'auth') {
+          throw new ApiError('Google OAuth', 'Google login expired or was revoked. Run `hn work-google-login` again.', 'auth', false, error.status);
+        }
+        throw error;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+  return refreshInFlight;
+}
+
+/**
+ * Access token for Google APIs - the stored login (refreshed when close to expiry),
+ * else GOOGLE_ACCESS_TOKEN, else null
+ */
+export async function getGoogleAccessToken(options: { forceRefresh?: boolean } = {}): Promise<string | null> {
+  const record = await loadGoogleTokenRecord();
+  if (record) {
+    if (options.forceRefresh || record.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) {
+      return (await refreshAccessToken(record)).accessToken;
+    }
+    return record.accessToken;
+  }
+  return process.env.GOOGLE_ACCESS_TOKEN || null;
+}
+
+/**
+ * Whether Google calls authenticate with the stored (refreshable) login
+ */
+export function hasGoogleLogin(): boolean {
+  return hasGoogleTokenRecord();
+}
+
+export interface GoogleLoginStatus {
+  loggedIn: boolean;
+  email?: string;
+  scopes?: string[];
+  accessTokenExpiresAt?: string;
+}
+
+export async function getGoogleLoginStatus(): Promise<GoogleLoginStatus> {
+  const record = await loadGoogleTokenRecord();
+  if (!record) {
+    return { loggedIn: false };
+  }
+  return {
+    loggedIn: true,
+    email: record.email,
+    scopes: record.scopes,
+    accessTokenExpiresAt: new Date(record.expiresAt).toISOString(),
+  };
+}
+
+// ===== Login / logout =====
+
+export interface GoogleLoginOptions {
+  // Called with the consent URL once the loopback server is listening (open a browser, print it)
+  onAuthUrl: (url: string) => void | Promise<void>;
+  timeoutMs?: number;
+}
+
+function callbackPage(message: string): string {
+  return `<!doctype html><html><body style="font-family: sans-serif; padding: 2em"><p>${message}</p></body></html>`;
+}
+
+// Wait for Google to redirect the browser back to the loopback server with a code
+async function waitForAuthorizationCode(
+  buildAuthUrl: (redirectUri: string) => string,
+  state: string,
+  options: GoogleLoginOptions
+): Promise<{ code: string; redirectUri: string }> {
+  const server = createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+  const redirectUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    return await new Promise<{ code: string; redirectUri: string }>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error('Timed out waiting for Google login to complete in the browser')),
+        options.timeoutMs ?? DEFAULT_LOGIN_TIMEOUT_MS
+      );
+
+      server.on('request', (req, res) => {
+        const params = new URL(req.url || '/', redirectUri).searchParams;
+        if (!params.has('code') && !params.has('error')) {
+          res.writeHead(404).end();
+          return;
+        }
+
+        const error = params.get('error');
+        if (error || params.get('state') !== state) {
+          res.writeHead(400, { 'Content-Type': 'text/html' }).end(callbackPage('Google login failed. You can close this tab.'));
+          clearTimeout(timer);
+          reject(new Error(error ? `Google login failed: ${error}` : 'Google login failed: state mismatch'));
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'text/html' }).end(callbackPage('Google login complete. You can close this tab.'));
+        clearTimeout(timer);
+        resolve({ code: params.get('code')!, redirectUri });
+      });
+
+      Promise.resolve(options.onAuthUrl(buildAuthUrl(redirectUri))).catch(reject);
+    });
+  } finally {
+    server.close();
+  }
+}
+
+/**
+ * Run the installed-app consent flow and store the resulting refresh token
+ */
+export async function loginToGoogle(options: GoogleLoginOptions): Promise<GoogleLoginStatus> {
+  const { clientId, clientSecret } = getClientCredentials();
+  const state = randomBytes(16).toString('hex');
+  // PKCE - the code is useless to anyone who intercepts the redirect
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const { code, redirectUri } = await waitForAuthorizationCode(
+    uri => `${AUTH_URL}?${new URLSearchParams({
+      client_id: clientId,
+      redirect_uri: uri,
+      response_type: 'code',
+      scope: GOOGLE_SCOPES.join(' '),
+      access_type: 'offline',
+      prompt: 'consent',      // Always return a refresh token, even for a repeat login
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString()}`,
+    state,
+    options
+  );
+
+  const token = await requestToken({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    client_id: clientId,
+    client_secret: clientSecret,
+    code_verifier: codeVerifier,
+  });
+  if (!token.refresh_token) {
+    throw new Error('Google did not return a refresh token - remove the app from your Google account permissions and log in again');
+  }
+
+  await saveGoogleTokenRecord({
+    clientId,
+    clientSecret,
+    refreshToken: token.refresh_token,
+    accessToken: token.access_token,
+    expiresAt: Date.now() + token.expires_in * 1000,
+    scopes: token.scope ? token.scope.split(' ') : GOOGLE_SCOPES,
+    email: emailFromIdToken(token.id_token),
+    obtainedAt: new Date().toISOString(),
+  });
+
+  return getGoogleLoginStatus();
+}
+
+/**
+ * Revoke the stored refresh token and forget it
+ */
+export async function logoutFromGoogle(): Promise<boolean> {
+  const record = await loadGoogleTokenRecord();
+  if (!record) {
+    return false;
+  }
+  try {
+    await fetchWithRetry('Google OAuth', REVOKE_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ token: record.refreshToken }).toString(),
+    });
+  } catch {
+    // Revocation is best effort - the local token is removed either way
+  }
+  return clearGoogleTokenRecord();
+}
@@ -1,6 +1,13 @@
-// Google Docs/Drive API Client - READ ONLY
-// Uses GOOGLE_API_KEY or GOOGLE_ACCESS_TOKEN for authentication
-// For private docs, you need an OAuth access token
+// Google Docs/Drive API Client
+// Authenticates with the stored OAuth login (`hn work-google-login`, refreshed automatically),
+// falling back to GOOGLE_ACCESS_TOKEN or, for public docs (read only), GOOGLE_API_KEY.
+// Reads docs and comments; appends to docs, replies to and resolves comments, and creates
+// docs from Markdown (writes need OAuth and go through the agent's approval gate).
+
+import { Marked } from 'marked';
+import { fetchWithRetry, apiErrorFromResponse } from './http.js';
+import { getGoogleAccessToken, hasGoogleLogin } from './google-auth.js';
+import { wrapWithAIDisclaimer } from './disclaimer.js';
 
 export interface GoogleDoc {
   id: string;
@@ -31,17 +38,17 @@ export interface GoogleDocCommentReply {
   createdTime: string;
 }
 
-interface GoogleDocsConfig {
+interface GoogleDocsAuth {
   accessToken?: string;
   apiKey?: string;
 }
 
-function getConfig(): GoogleDocsConfig {
-  const accessToken = process.env.GOOGLE_ACCESS_TOKEN;
+async function getAuth(forceRefresh: boolean = false): Promise<GoogleDocsAuth> {
+  const accessToken = await getGoogleAccessToken({ forceRefresh }) || undefined;
   const apiKey = process.env.GOOGLE_API_KEY;
   
   if (!accessToken && !apiKey) {
-    throw new Error('Missing Google config: GOOGLE_ACCESS_TOKEN or GOOGLE_API_KEY required');
+    throw new Error('Missing Google config: run `hn work-google-login` (or set GOOGLE_ACCESS_TOKEN or GOOGLE_API_KEY)');
   }
   
   return { accessToken, apiKey };
@@ -77,60 +84,72 @@ export function extractDocId(urlOrId: string): string {
   throw new Error(`Could not extract document ID from: ${urlOrId}`);
 }
 
-async function googleDocsFetch(endpoint: string): Promise<unknown> {
-  const { accessToken, apiKey } = getConfig();
-  
-  const headers: Record<string, string> = {
-    'Accept': 'application/json',
-  };
-  
-  let url = `https://docs.googleapis.com/v1${endpoint}`;
-  
-  if (accessToken) {
-    headers['Authorization'] = `Bearer ${accessToken}`;
-  } else if (apiKey) {
-    url += (url.includes('?') ? '&' : '?') + `key=${apiKey}`;
-  }
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers,
-  });
+const DOCS_API = 'https://docs.googleapis.com/v1';
+const DRIVE_API = 'https://www.googleapis.com/drive/v3';
+const DRIVE_UPLOAD_API = 'https://www.googleapis.com/upload/drive/v3';
+
+type GoogleService = 'Google Docs' | 'Google Drive';
+
+interface GoogleRequest {
+  method?: 'GET' | 'POST';
+  body?: string;
+  contentType?: string;
+  idempotent?: boolean;
+}
+
+async function googleRequest(service: GoogleService, url: string, request: GoogleRequest = {}): Promise<unknown> {
+  const { method = 'GET', body, contentType = 'application/json', idempotent } = request;
   
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`Google Docs API error (${response.status}): ${errorText}`);
+  for (let attempt = 0; ; attempt++) {
+    // A 401 with the stored login means the access token was revoked early - refresh once
+    const { accessToken, apiKey } = await getAuth(attempt > 0);
+    if (!accessToken && method !== 'GET') {
+      throw new Error(`${service} writes need an OAuth login - run \`hn work-google-login\` (an API key is read-only)`);
+    }
+    
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+    };
+    if (body !== undefined) {
+      headers['Content-Type'] = contentType;
+    }
+    
+    let requestUrl = url;
+    if (accessToken) {
+      headers['Authorization'] = `Bearer ${accessToken}`;
+    } else if (apiKey) {
+      requestUrl += (requestUrl.includes('?') ? '&' : '?') + `key=${apiKey}`;
+    }
+    
+    const response = await fetchWithRetry(service, requestUrl, { method, headers, body }, { idempotent });
+    
+    if (response.status === 401 && attempt === 0 && hasGoogleLogin()) {
+      await response.text().catch(() => undefined);
+      continue;
+    }
+    if (!response.ok) {
+      throw await apiErrorFromResponse(service, response);
+    }
+    
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
   }
-  
-  return response.json();
+}
+
+async function googleDocsFetch(endpoint: string): Promise<unknown> {
+  return googleRequest('Google Docs', `${DOCS_API}${endpoint}`);
 }
 
 async function googleDriveFetch(endpoint: string): Promise<unknown> {
-  const { accessToken, apiKey } = getConfig();
-  
-  const headers: Record<string, string> = {
-    'Accept': 'application/json',
-  };
-  
-  let url = `https://www.googleapis.com/drive/v3${endpoint}`;
-  
-  if (accessToken) {
-    headers['Authorization'] = `Bearer ${accessToken}`;
-  } else if (apiKey) {
-    url += (url.includes('?') ? '&' : '?') + `key=${apiKey}`;
-  }
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers,
-  });
-  
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`Google Drive API error (${response.status}): ${errorText}`);
-  }
-  
-  return response.json();
+  return googleRequest('Google Drive', `${DRIVE_API}${endpoint}`);
+}
+
+async function googleDocsWrite(endpoint: string, body: unknown): Promise<unknown> {
+  return googleRequest('Google Docs', `${DOCS_API}${endpoint}`, { method: 'POST', body: JSON.stringify(body) });
+}
+
+async function googleDriveWrite(endpoint: string, body: unknown): Promise<unknown> {
+  return googleRequest('Google Drive', `${DRIVE_API}${endpoint}`, { method: 'POST', body: JSON.stringify(body) });
 }
 
 /**
@@ -279,25 +298,192 @@ export async function searchMyGoogleDocs(query?: string, maxResults: number = 25
   }));
 }
 
+// ===== WRITES =====
+
+export interface AppendToGoogleDocResult {
+  documentId: string;
+  url: string;
+  insertedCharacters: number;
+}
+
+/**
+ * Append text to the end of a Google Doc, optionally under a new heading
+ * The edit is pinned to the revision that was read, so a concurrent edit fails instead of interleaving.
+ */
+export async function appendToGoogleDoc(
+  urlOrId: string,
+  text: string,
+  options: { heading?: string } = {}
+): Promise<AppendToGoogleDocResult> {
+  const docId = extractDocId(urlOrId);
+  
+  const doc = await googleDocsFetch(`/documents/${docId}?fields=revisionId,body(content(endIndex))`) as {
+    revisionId: string;
+    body?: { content?: Array<{ endIndex?: number }> };
+  };
+  // The body always ends with a newline that cannot be written past
+  const endIndex = doc.body?.content?.[doc.body.content.length - 1]?.endIndex ?? 2;
+  const start = endIndex - 1;
+  
+  const heading = options.heading?.trim();
+  const bodyText = text.endsWith('\n') ? text.slice(0, -1) : text;
+  const inserted = '\n' + (heading ? `${heading}\n` : '') + bodyText;
+  
+  // Paragraph indices, in UTF-16 code units like the API
+  const headingStart = start + 1;
+  const bodyStart = heading ? headingStart + heading.length + 1 : headingStart;
+  const requests: unknown[] = [
+    { insertText: { location: { index: start }, text: inserted } },
+  ];
+  if (bodyText) {
+    // New paragraphs inherit the style of the one they were split from - reset them
+    requests.push({
+      updateParagraphStyle: {
+        range: { startIndex: bodyStart, endIndex: start + inserted.length },
+        paragraphStyle: { namedStyleType: 'NORMAL_TEXT' },
+        fields: 'namedStyleType',
+      },
+    });
+  }
+  if (heading) {
+    requests.push({
+      updateParagraphStyle: {
+        range: { startIndex: headingStart, endIndex: bodyStart },
+        paragraphStyle: { namedStyleType: 'HEADING_2' },
+        fields: 'namedStyleType',
+      },
+    });
+  }
+  
+  await googleDocsWrite(`/documents/${docId}:batchUpdate`, {
+    requests,
+    writeControl: { requiredRevisionId: doc.revisionId },
+  });
+  
+  return {
+    documentId: docId,
+    url: `https://docs.google.com/document/d/${docId}/edit`,
+    insertedCharacters: inserted.length,
+  };
+}
+
+export interface GoogleDocCommentReplyResult {
+  id: string;
+  commentId: string;
+  resolved: boolean;
+}
+
+/**
+ * Reply to a comment on a Google Doc, optionally resolving the thread
+ */
+export async function replyToGoogleDocComment(
+  urlOrId: string,
+  commentId: string,
+  content: string,
+  options: { resolve?: boolean; skipDisclaimer?: boolean } = {}
+): Promise<GoogleDocCommentReplyResult> {
+  const docId = extractDocId(urlOrId);
+  const { resolve = false, skipDisclaimer = false } = options;
+  
+  const reply = await googleDriveWrite(`/files/${docId}/comments/${commentId}/replies?fields=id,action`, {
+    content: skipDisclaimer ? content : wrapWithAIDisclaimer(content, { plainText: true }),
+    ...(resolve ? { action: 'resolve' } : {}),
+  }) as { id: string; action?: string };
+  
+  return { id: reply.id, commentId, resolved: reply.action === 'resolve' };
+}
+
+/**
+ * Resolve a comment thread on a Google Doc (with an optional closing reply)
+ */
+export async function resolveGoogleDocComment(
+  urlOrId: string,
+  commentId: string,
+  content?: string
+): Promise<GoogleDocCommentReplyResult> {
+  if (content) {
+    return replyToGoogleDocComment(urlOrId, commentId, content, { resolve: true });
+  }
+  
+  const docId = extractDocId(urlOrId);
+  const reply = await googleDriveWrite(`/files/${docId}/comments/${commentId}/replies?fields=id,action`, {
+    action: 'resolve',
+  }) as { id: string; action?: string };
+  
+  return { id: reply.id, commentId, resolved: reply.action === 'resolve' };
+}
+
+const htmlMarked = new Marked({ gfm: true });
+
+/**
+ * Create a Google Doc from Markdown (headings, lists, tables, code keep their formatting)
+ * Drive converts the rendered HTML into a native Google Doc.
+ */
+export async function createGoogleDocFromMarkdown(
+  title: string,
+  markdown: string,
+  options: { folderId?: string } = {}
+): Promise<{ id: string; title: string; url: string }> {
+  const html = `<!doctype html><html><head><meta charset="utf-8"></head><body>${htmlMarked.parse(markdown, { async: false }) as string}</body></html>`;
+  const metadata = {
+    name: title,
+    mimeType: 'application/vnd.google-apps.document',
+    ...(options.folderId ? { parents: [options.folderId] } : {}),
+  };
+  
+  const boundary = `hn-work-${Date.now().toString(36)}`;
+  const body = [
+    `--${boundary}`,
+    'Content-Type: application/json; charset=UTF-8',
+    '',
+    JSON.stringify(metadata),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    '',
+    html,
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+  
+  const file = await googleRequest('Google Drive', `${DRIVE_UPLOAD_API}/files?uploadType=multipart&fields=id,name,webViewLink`, {
+    method: 'POST',
+    body,
+    contentType: `multipart/related; boundary=${boundary}`,
+  }) as { id: string; name: string; webViewLink?: string };
+  
+  return {
+    id: file.id,
+    title: file.name,
+    url: file.webViewLink || `https://docs.google.com/document/d/${file.id}/edit`,
+  };
+}
+
 /**
  * Check if Google Docs/Drive is configured
  */
 export function isGoogleDocsConfigured(): boolean {
-  return !!(process.env.GOOGLE_ACCESS_TOKEN || process.env.GOOGLE_API_KEY);
+  return hasGoogleLogin() || !!(process.env.GOOGLE_ACCESS_TOKEN || process.env.GOOGLE_API_KEY);
+}
+
+/**
+ * Whether Google Docs writes are possible (they need OAuth, not an API key)
+ */
+export function canWriteGoogleDocs(): boolean {
+  return hasGoogleLogin() || !!process.env.GOOGLE_ACCESS_TOKEN;
 }
 
 /**
  * Get configuration status for Google Docs/Drive
  */
-export function getGoogleDocsConfigStatus(): { configured: boolean; authType?: 'oauth' | 'apikey'; error?: string } {
+export function getGoogleDocsConfigStatus(): { configured: boolean; authType?: 'oauth' | 'apikey'; refreshable?: boolean; error?: string } {
+  if (hasGoogleLogin()) {
+    return { configured: true, authType: 'oauth', refreshable: true };
+  }
   if (process.env.GOOGLE_ACCESS_TOKEN) {
-    return { configured: true, authType: 'oauth' };
+    return { configured: true, authType: 'oauth', refreshable: false };
   }
   if (process.env.GOOGLE_API_KEY) {
     return { configured: true, authType: 'apikey' };
   }
-  return { configured: false, error: 'GOOGLE_ACCESS_TOKEN or GOOGLE_API_KEY not set' };
+  return { configured: false, error: 'Not logged in to Google - run `hn work-google-login` (or set GOOGLE_ACCESS_TOKEN or GOOGLE_API_KEY)' };
 }
-
-
-
@@ -0,0 +1,120 @@
+// Shared HTTP handling for the API clients
+// Transient failures (network errors, 429, 5xx) are retried with exponential backoff.
+// Failures surface as ApiError so callers can tell a missing ticket from an outage
+// without parsing error messages.
+
+export type ApiErrorCode =
+  | 'auth'
+  | 'not_found'
+  | 'rate_limited'
+  | 'invalid_input'
+  | 'server'
+  | 'network'
+  | 'failed';
+
+export class ApiError extends Error {
+  readonly service: string;
+  readonly status?: number;
+  readonly code: ApiErrorCode;
+  readonly retryable: boolean;
+
+  constructor(service: string, message: string, code: ApiErrorCode, retryable: boolean, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.service = service;
+    this.code = code;
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+export interface RetryOptions {
+  // Safe to resend after a network error or 5xx (GETs and read-only POSTs)
+  // Non-idempotent requests are only retried on 429, which the server did not process
+  idempotent?: boolean;
+  maxRetries?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+const MAX_RETRY_AFTER_MS = 30000;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'rate_limited';
+  if (status === 400 || status === 409 || status === 422) return 'invalid_input';
+  if (status >= 500) return 'server';
+  return 'failed';
+}
+
+/**
+ * ApiError for a failed response (message format matches the clients' old errors)
+ */
+export async function apiErrorFromResponse(service: string, response: Response): Promise<ApiError> {
+  const errorText = await response.text().catch(() => 'Unknown error');
+  return new ApiError(
+    service,
+    `${service} API error (${response.status}): ${errorText}`,
+    codeForStatus(response.status),
+    RETRYABLE_STATUSES.has(response.status),
+    response.status
+  );
+}
+
+// Retry-After is either seconds or an HTTP date
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) && ms >= 0 ? Math.min(ms, MAX_RETRY_AFTER_MS) : null;
+}
+
+function backoffMs(attempt: number): number {
+  const delay = Math.min(BASE_DELAY_MS * Math.pow(2, attempt), MAX_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * fetch with retry and backoff for transient failures
+ * Resolves with the final response (ok or not) - non-retryable statuses are returned immediately.
+ * Network errors that outlast the retries are thrown as ApiError('network').
+ */
+export async function fetchWithRetry(
+  service: string,
+  url: string,
+  init: RequestInit,
+  options: RetryOptions = {}
+): Promise<Response> {
+  const idempotent = options.idempotent ?? (!init.method || init.method === 'GET');
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (!idempotent || attempt >= maxRetries) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new ApiError(service, `${service} request failed: ${reason}`, 'network', true);
+      }
+      await sleep(backoffMs(attempt));
+      continue;
+    }
+
+    const retry = response.status === 429 || (idempotent && RETRYABLE_STATUSES.has(response.status));
+    if (!retry || attempt >= maxRetries) {
+      return response;
+    }
+    // Drain the body so the connection can be reused
+    await response.text().catch(() => undefined);
+    await sleep(retryAfterMs(response) ?? backoffMs(attempt));
+  }
+}
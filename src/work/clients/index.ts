@@ -3,6 +3,7 @@
 export * from './jira.js';
 export * from './confluence.js';
 export * from './firehydrant.js';
+export * from './pagerduty.js';
 export * from './datadog.js';
 export * from './github.js';
 export * from './googledocs.js';
@@ -21,6 +22,13 @@ export {
   getUserTicketStats,
   addComment,
   createTicket,
+  getTransitions,
+  transitionTicket,
+  assignTicket,
+  addWorklog,
+  updateTicketFields,
+  linkTickets,
+  createSubtask,
   isJiraConfigured,
   getJiraConfigStatus,
 } from './jira.js';
@@ -34,6 +42,12 @@ export {
   searchPagesContributedByUser,
   getUserPageStats,
   createPage,
+  updatePage,
+  getPageVersions,
+  diffPageVersions,
+  replyToComment,
+  getLabels,
+  updateLabels,
   listSpaces,
   isConfluenceConfigured,
 } from './confluence.js';
@@ -44,10 +58,23 @@ export {
   getGoogleDocComments,
   searchMyGoogleDocs,
   extractDocId,
+  appendToGoogleDoc,
+  replyToGoogleDocComment,
+  resolveGoogleDocComment,
+  createGoogleDocFromMarkdown,
   isGoogleDocsConfigured,
+  canWriteGoogleDocs,
   getGoogleDocsConfigStatus,
 } from './googledocs.js';
 
+// Google OAuth login (installed-app flow) behind the Google Docs functions
+export {
+  loginToGoogle,
+  logoutFromGoogle,
+  getGoogleLoginStatus,
+  hasGoogleLogin,
+} from './google-auth.js';
+
 // Re-export specific GitHub functions for clarity
 export {
   listPullRequests,
@@ -57,6 +84,16 @@ export {
   getGitHubConfigStatus,
 } from './github.js';
 
+// Forge hosts (github.com, GitHub Enterprise, GitLab) behind the GitHub functions
+export {
+  parseRepoRef,
+  parseChangeRequestUrl,
+  isForgeConfigured,
+  getForgeHosts,
+} from './forge.js';
+export { getJobLog, isGitLabConfigured } from './gitlab.js';
+export { getFailedJobs, getFailedStepLog, isCircleCIConfigured } from './circleci.js';
+
 // Re-export Datadog functions for clarity
 export {
   // Logs
@@ -120,3 +157,33 @@ export {
   isExtractorReady,
 } from './slack-extractor.js';
 
+// Re-export Slack Web API client
+export {
+  isSlackApiConfigured,
+  listSlackChannels,
+  resolveSlackChannel,
+  getSlackChannelHistory,
+  getSlackThreadReplies,
+  searchSlackMessages,
+  getSlackPermalink,
+  postSlackMessage,
+  addSlackReaction,
+  type SlackSearchMatch,
+} from './slack-api.js';
+
+// Re-export on-call client (PagerDuty, or Opsgenie behind the same interface)
+export {
+  getOnCallProvider,
+  findPageId,
+  normalizePageId,
+  getOnCallShifts,
+  listOnCallPages,
+  getOnCallPage,
+  getOnCallPageNotes,
+  acknowledgePage,
+  resolvePage,
+  addPageNote,
+  isOnCallConfigured,
+  type ListOnCallPagesOptions,
+  type AddPageNoteOptions,
+} from './pagerduty.js';
@@ -2,6 +2,8 @@
 // Uses JIRA_TOKEN for authentication
 
 import { JiraTicket, JiraComment } from '../types.js';
+import { fetchWithRetry, apiErrorFromResponse } from './http.js';
+import { wrapWithAIDisclaimer } from './disclaimer.js';
 
 interface JiraConfig {
   token: string;
@@ -38,7 +40,7 @@ function getConfig(): JiraConfig {
 async function jiraFetch(endpoint: string): Promise<unknown> {
   const { token, baseUrl } = getConfig();
   
-  const response = await fetch(`${baseUrl}/rest/api/3${endpoint}`, {
+  const response = await fetchWithRetry('JIRA', `${baseUrl}/rest/api/3${endpoint}`, {
     method: 'GET',
     headers: {
       'Authorization': `Basic ${token}`,
@@ -47,18 +49,22 @@ async function jiraFetch(endpoint: string): Promise<unknown> {
   });
   
   if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`JIRA API error (${response.status}): ${errorText}`);
+    throw await apiErrorFromResponse('JIRA', response);
   }
   
   return response.json();
 }
 
 async function jiraPost(endpoint: string, body: unknown): Promise<unknown> {
+  return jiraWrite('POST', endpoint, body);
+}
+
+// Writes return null for 204 No Content (transitions, assignment, field edits)
+async function jiraWrite(method: 'POST' | 'PUT', endpoint: string, body: unknown): Promise<unknown> {
   const { token, baseUrl } = getConfig();
   
-  const response = await fetch(`${baseUrl}/rest/api/3${endpoint}`, {
-    method: 'POST',
+  const response = await fetchWithRetry('JIRA', `${baseUrl}/rest/api/3${endpoint}`, {
+    method,
     headers: {
       'Authorization': `Basic ${token}`,
       'Accept': 'application/json',
@@ -68,11 +74,14 @@ async function jiraPost(endpoint: string, body: unknown): Promise<unknown> {
   });
   
   if (!response.ok) {
-    const errorText = await response.text().catch(() => 'Unknown error');
-    throw new Error(`JIRA API error (${response.status}): ${errorText}`);
+    throw await apiErrorFromResponse('JIRA', response);
   }
   
-  return response.json();
+  if (response.status === 204) {
+    return null;
+  }
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
 }
 
 // Convert plain text with markdown-like formatting to Atlassian Document Format (ADF)
@@ -300,6 +309,7 @@ export interface CreateTicketOptions {
   labels?: string[];
   assignee?: string;   // account ID
   components?: string[]; // component names
+  parentKey?: string;  // parent ticket (sub-tasks)
 }
 
 export interface CreateTicketResult {
@@ -309,7 +319,7 @@ export interface CreateTicketResult {
 }
 
 export async function createTicket(options: CreateTicketOptions): Promise<CreateTicketResult> {
-  const { projectKey, summary, description, issueType = 'Task', priority, labels, assignee, components } = options;
+  const { projectKey, summary, description, issueType = 'Task', priority, labels, assignee, components, parentKey } = options;
   
   const fields: Record<string, unknown> = {
     project: { key: projectKey },
@@ -317,6 +327,10 @@ export async function createTicket(options: CreateTicketOptions): Promise<Create
     issuetype: { name: issueType },
   };
   
+  if (parentKey) {
+    fields.parent = { key: parentKey };
+  }
+  
   if (description) {
     fields.description = textToAdf(description);
   }
@@ -444,7 +458,7 @@ export async function getBoardTickets(boardOrFilterId: string, maxResults: numbe
   // Try to get from agile board first
   try {
     const config = getConfig();
-    const response = await fetch(`${config.baseUrl}/rest/agile/1.0/board/${boardOrFilterId}/issue?maxResults=${maxResults}`, {
+    const response = await fetchWithRetry('JIRA', `${config.baseUrl}/rest/agile/1.0/board/${boardOrFilterId}/issue?maxResults=${maxResults}`, {
       method: 'GET',
       headers: {
         'Authorization': `Basic ${config.token}`,
@@ -647,14 +661,6 @@ export function getJiraConfigStatus(): { configured: boolean; error?: string } {
   return { configured: true };
 }
 
-/**
- * Wrap JIRA comment with AI assistant disclaimer
- */
-function wrapWithAIDisclaimer(comment: string): string {
-  const disclaimer = "🤖 *Hey! Koren's AI assistant here. I've looked into this, but I'm not perfect—double-check with Koren if you need to be sure.*\n\n";
-  return disclaimer + comment;
-}
-
 export interface AddCommentOptions {
   ticketKey: string;
   comment: string;
@@ -690,3 +696,314 @@ export async function addComment(options: AddCommentOptions): Promise<AddComment
   };
 }
 
+// ===== Workflow and field updates =====
+
+export interface JiraTransition {
+  id: string;
+  name: string;        // Transition name, e.g. "Start Review"
+  toStatus: string;    // Status the ticket ends up in, e.g. "In Review"
+  toCategory?: string; // Status category: "To Do", "In Progress", "Done"
+}
+
+export async function getTransitions(ticketKey: string): Promise<JiraTransition[]> {
+  const data = await jiraFetch(`/issue/${ticketKey}/transitions`) as {
+    transitions: Array<{ id: string; name: string; to: { name: string; statusCategory?: { name: string } } }>;
+  };
+  
+  return data.transitions.map(t => ({
+    id: t.id,
+    name: t.name,
+    toStatus: t.to.name,
+    toCategory: t.to.statusCategory?.name,
+  }));
+}
+
+export interface TransitionResult {
+  ticketKey: string;
+  transition: string;
+  status: string;
+}
+
+/**
+ * Move a ticket through its workflow
+ * `target` may be a transition id, a transition name, or the name of the status to move to
+ */
+export async function transitionTicket(ticketKey: string, target: string, comment?: string): Promise<TransitionResult> {
+  const transitions = await getTransitions(ticketKey);
+  const wanted = target.trim().toLowerCase();
+  const match = transitions.find(t => t.id === target.trim()) ||
+    transitions.find(t => t.name.toLowerCase() === wanted) ||
+    transitions.find(t => t.toStatus.toLowerCase() === wanted);
+  
+  if (!match) {
+    const available = transitions.map(t => `${t.name} → ${t.toStatus}`).join(', ') || 'none';
+    throw new Error(`No transition "${target}" for ${ticketKey}. Available: ${available}`);
+  }
+  
+  const body: Record<string, unknown> = { transition: { id: match.id } };
+  if (comment) {
+    body.update = { comment: [{ add: { body: textToAdf(wrapWithAIDisclaimer(comment)) } }] };
+  }
+  await jiraPost(`/issue/${ticketKey}/transitions`, body);
+  
+  return { ticketKey, transition: match.name, status: match.toStatus };
+}
+
+export interface JiraUser {
+  accountId: string;
+  displayName: string;
+  email?: string;
+}
+
+export async function getCurrentUser(): Promise<JiraUser> {
+  const data = await jiraFetch('/myself') as { accountId: string; displayName: string; emailAddress?: string };
+  return { accountId: data.accountId, displayName: data.displayName, email: data.emailAddress };
+}
+
+export async function searchUsers(query: string, maxResults: number = 10): Promise<JiraUser[]> {
+  const data = await jiraFetch(`/user/search?query=${encodeURIComponent(query)}&maxResults=${maxResults}`) as Array<{
+    accountId: string;
+    accountType?: string;
+    displayName: string;
+    emailAddress?: string;
+    active?: boolean;
+  }>;
+  
+  return data
+    .filter(u => u.active !== false && u.accountType !== 'app')
+    .map(u => ({ accountId: u.accountId, displayName: u.displayName, email: u.emailAddress }));
+}
+
+// "me", an account ID, or a name/email to search for
+async function resolveAccount(assignee: string): Promise<JiraUser> {
+  if (assignee.toLowerCase() === 'me') {
+    return getCurrentUser();
+  }
+  
+  const users = await searchUsers(assignee);
+  const wanted = assignee.toLowerCase();
+  const exact = users.find(u => u.accountId === assignee || u.email?.toLowerCase() === wanted || u.displayName.toLowerCase() === wanted);
+  if (exact) return exact;
+  if (users.length === 1) return users[0];
+  
+  // Account IDs are not searchable by every instance - accept ones that look like an ID
+  if (users.length === 0 && /^[0-9a-f:-]{20,}$/i.test(assignee)) {
+    return { accountId: assignee, displayName: assignee };
+  }
+  const candidates = users.slice(0, 5).map(u => u.displayName).join(', ');
+  throw new Error(users.length === 0
+    ? `No JIRA user matches "${assignee}"`
+    : `"${assignee}" matches several JIRA users (${candidates}) - use their email or account ID`);
+}
+
+export interface AssignResult {
+  ticketKey: string;
+  assignee: string | null;  // display name, null when unassigned
+  accountId: string | null;
+}
+
+/**
+ * Assign a ticket ("me", name, email or account ID), or unassign it with null
+ */
+export async function assignTicket(ticketKey: string, assignee: string | null): Promise<AssignResult> {
+  const user = assignee ? await resolveAccount(assignee) : null;
+  await jiraWrite('PUT', `/issue/${ticketKey}/assignee`, { accountId: user?.accountId ?? null });
+  return { ticketKey, assignee: user?.displayName ?? null, accountId: user?.accountId ?? null };
+}
+
+export interface AddWorklogOptions {
+  ticketKey: string;
+  timeSpent: string;   // JIRA duration, e.g. "1h 30m", "2d"
+  comment?: string;
+  started?: string;    // ISO date-time; defaults to now
+}
+
+export interface AddWorklogResult {
+  id: string;
+  ticketKey: string;
+  timeSpent: string;
+  timeSpentSeconds: number;
+}
+
+// JIRA wants "2024-01-17T12:34:00.000+0000" (no colon in the offset)
+function formatJiraDateTime(date: Date): string {
+  return date.toISOString().replace('Z', '+0000');
+}
+
+export async function addWorklog(options: AddWorklogOptions): Promise<AddWorklogResult> {
+  const { ticketKey, timeSpent, comment, started } = options;
+  const startedAt = started ? new Date(started) : new Date();
+  if (isNaN(startedAt.getTime())) {
+    throw new Error(`Invalid worklog start time: ${started}`);
+  }
+  
+  const body: Record<string, unknown> = {
+    timeSpent,
+    started: formatJiraDateTime(startedAt),
+  };
+  if (comment) {
+    body.comment = textToAdf(comment);
+  }
+  
+  const result = await jiraPost(`/issue/${ticketKey}/worklog`, body) as {
+    id: string;
+    timeSpent: string;
+    timeSpentSeconds: number;
+  };
+  
+  return { id: result.id, ticketKey, timeSpent: result.timeSpent, timeSpentSeconds: result.timeSpentSeconds };
+}
+
+export interface UpdateFieldsOptions {
+  ticketKey: string;
+  summary?: string;
+  description?: string;
+  priority?: string;
+  labels?: string[];          // Replaces all labels
+  addLabels?: string[];
+  removeLabels?: string[];
+  storyPoints?: number | null;
+  dueDate?: string | null;    // YYYY-MM-DD
+  components?: string[];      // Replaces all components
+}
+
+export interface UpdateFieldsResult {
+  ticketKey: string;
+  updated: string[];
+}
+
+let _storyPointsFieldId: string | null | undefined;
+
+// Story points live in a custom field whose id differs per site
+// JIRA_STORY_POINTS_FIELD (e.g. customfield_10016) skips the lookup
+async function getStoryPointsFieldId(): Promise<string | null> {
+  if (process.env.JIRA_STORY_POINTS_FIELD) {
+    return process.env.JIRA_STORY_POINTS_FIELD;
+  }
+  if (_storyPointsFieldId === undefined) {
+    const fields = await jiraFetch('/field') as Array<{ id: string; name: string }>;
+    const names = ['story points', 'story point estimate'];
+    _storyPointsFieldId = fields.find(f => names.includes(f.name.toLowerCase()))?.id ?? null;
+  }
+  return _storyPointsFieldId;
+}
+
+export async function updateTicketFields(options: UpdateFieldsOptions): Promise<UpdateFieldsResult> {
+  const { ticketKey } = options;
+  const fields: Record<string, unknown> = {};
+  const update: Record<string, unknown[]> = {};
+  const updated: string[] = [];
+  
+  if (options.summary !== undefined) {
+    fields.summary = options.summary;
+    updated.push('summary');
+  }
+  if (options.description !== undefined) {
+    fields.description = textToAdf(options.description);
+    updated.push('description');
+  }
+  if (options.priority !== undefined) {
+    fields.priority = { name: options.priority };
+    updated.push('priority');
+  }
+  if (options.labels !== undefined) {
+    fields.labels = options.labels;
+    updated.push('labels');
+  } else if (options.addLabels?.length || options.removeLabels?.length) {
+    update.labels = [
+      ...(options.addLabels || []).map(label => ({ add: label })),
+      ...(options.removeLabels || []).map(label => ({ remove: label })),
+    ];
+    updated.push('labels');
+  }
+  if (options.components !== undefined) {
+    fields.components = options.components.map(name => ({ name }));
+    updated.push('components');
+  }
+  if (options.dueDate !== undefined) {
+    fields.duedate = options.dueDate;
+    updated.push('dueDate');
+  }
+  if (options.storyPoints !== undefined) {
+    const fieldId = await getStoryPointsFieldId();
+    if (!fieldId) {
+      throw new Error('No story points field found on this JIRA site. Set JIRA_STORY_POINTS_FIELD to its custom field id.');
+    }
+    fields[fieldId] = options.storyPoints;
+    updated.push('storyPoints');
+  }
+  
+  if (updated.length === 0) {
+    throw new Error('No fields to update');
+  }
+  
+  const body: Record<string, unknown> = {};
+  if (Object.keys(fields).length > 0) body.fields = fields;
+  if (Object.keys(update).length > 0) body.update = update;
+  await jiraWrite('PUT', `/issue/${ticketKey}`, body);
+  
+  return { ticketKey, updated };
+}
+
+export type JiraLinkType = 'blocks' | 'is_blocked_by' | 'relates_to' | 'duplicates' | 'is_duplicated_by';
+
+export interface LinkTicketsResult {
+  from: string;
+  to: string;
+  linkType: JiraLinkType;
+}
+
+/**
+ * Link two tickets, read as "<from> <linkType> <to>" (e.g. PROJ-1 blocks PROJ-2)
+ */
+export async function linkTickets(from: string, linkType: JiraLinkType, to: string): Promise<LinkTicketsResult> {
+  // The outward issue carries the outward description ("blocks"), the inward issue the
+  // inward one ("is blocked by") - so "A blocks B" is outward A, inward B
+  const [typeName, reversed] = ({
+    blocks: ['Blocks', false],
+    is_blocked_by: ['Blocks', true],
+    relates_to: ['Relates', false],
+    duplicates: ['Duplicate', false],
+    is_duplicated_by: ['Duplicate', true],
+  } as const)[linkType];
+  const [outward, inward] = reversed ? [to, from] : [from, to];
+  
+  await jiraPost('/issueLink', {
+    type: { name: typeName },
+    outwardIssue: { key: outward },
+    inwardIssue: { key: inward },
+  });
+  
+  return { from, to, linkType };
+}
+
+export interface CreateSubtaskOptions {
+  parentKey: string;
+  summary: string;
+  description?: string;
+  assignee?: string;   // "me", name, email or account ID
+  labels?: string[];
+}
+
+/**
+ * Create a sub-task under a ticket, using whichever sub-task issue type the project defines
+ */
+export async function createSubtask(options: CreateSubtaskOptions): Promise<CreateTicketResult> {
+  const { parentKey, summary, description, labels } = options;
+  const projectKey = parentKey.split('-')[0];
+  
+  let issueType = 'Subtask';
+  try {
+    const meta = await jiraFetch(`/issue/createmeta/${projectKey}/issuetypes`) as {
+      issueTypes?: Array<{ name: string; subtask: boolean }>;
+      values?: Array<{ name: string; subtask: boolean }>;
+    };
+    const subtaskType = (meta.issueTypes || meta.values || []).find(t => t.subtask);
+    if (subtaskType) issueType = subtaskType.name;
+  } catch {
+    // Older sites without the createmeta endpoint use the default name
+  }
+  
+  const assignee = options.assignee ? (await resolveAccount(options.assignee)).accountId : undefined;
+  return createTicket({ projectKey, summary, description, issueType, labels, assignee, parentKey });
+}
@@ -0,0 +1,173 @@
+// Opsgenie API Client
+// Uses OPSGENIE_API_KEY (an API integration key with read and create/update access)
+// OPSGENIE_API_URL selects the region (default https://api.opsgenie.com, EU: https://api.eu.opsgenie.com)
+// OPSGENIE_USER (email) is recorded as the user behind acknowledgements, closes and notes.
+// Alerts are served as pages by pagerduty.ts when Opsgenie is the on-call provider.
+
+import { OnCallShift, OnCallPage, OnCallPageNote } from '../types.js';
+import { fetchWithRetry, apiErrorFromResponse, ApiError } from './http.js';
+
+function getApiKey(): string {
+  const apiKey = process.env.OPSGENIE_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPSGENIE_API_KEY not found in environment');
+  }
+  return apiKey;
+}
+
+function getApiUrl(): string {
+  return (process.env.OPSGENIE_API_URL || 'https://api.opsgenie.com').replace(/\/+$/, '');
+}
+
+async function opsgenieRequest(method: 'GET' | 'POST', endpoint: string, body?: unknown): Promise<unknown> {
+  const response = await fetchWithRetry('Opsgenie', `${getApiUrl()}${endpoint}`, {
+    method,
+    headers: {
+      'Authorization': `GenieKey ${getApiKey()}`,
+      'Accept': 'application/json',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw await apiErrorFromResponse('Opsgenie', response);
+  }
+
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+}
+
+// Tiny IDs ("1234") are what people see in notifications; full IDs are UUIDs
+function alertPath(alertId: string, suffix: string = ''): string {
+  const identifierType = /^\d+$/.test(alertId) ? 'tiny' : 'id';
+  return `/v2/alerts/${encodeURIComponent(alertId)}${suffix}?identifierType=${identifierType}`;
+}
+
+interface RawAlert {
+  id: string;
+  tinyId?: string;
+  message: string;
+  description?: string;
+  status: 'open' | 'closed';
+  acknowledged?: boolean;
+  priority?: string;
+  createdAt: string;
+  owner?: string;
+  responders?: Array<{ type: string; id: string; name?: string; username?: string }>;
+  report?: { acknowledgedBy?: string; closedBy?: string };
+  entity?: string;
+  source?: string;
+  tags?: string[];
+}
+
+function toPage(alert: RawAlert): OnCallPage {
+  const webUrl = process.env.OPSGENIE_WEB_URL?.replace(/\/+$/, '');
+  return {
+    provider: 'opsgenie',
+    id: alert.id,
+    number: alert.tinyId ? parseInt(alert.tinyId, 10) : undefined,
+    title: alert.message,
+    status: alert.status === 'closed' ? 'resolved' : alert.acknowledged ? 'acknowledged' : 'triggered',
+    urgency: alert.priority,
+    service: alert.entity || alert.source,
+    description: alert.description,
+    createdAt: alert.createdAt,
+    url: webUrl ? `${webUrl}/alert/detail/${alert.id}/details` : undefined,
+    assignees: [
+      ...(alert.owner ? [alert.owner] : []),
+      ...(alert.responders || []).map(r => r.name || r.username || `${r.type}:${r.id}`),
+    ],
+    acknowledgedBy: alert.report?.acknowledgedBy ? [alert.report.acknowledgedBy] : [],
+  };
+}
+
+// ===== On-call =====
+
+export async function getScheduleOnCalls(options: { schedule?: string } = {}): Promise<OnCallShift[]> {
+  const data = await opsgenieRequest('GET', '/v2/schedules/on-calls?flat=false') as {
+    data: Array<{
+      _parent: { id: string; name: string; enabled?: boolean };
+      onCallParticipants?: Array<{ id: string; name: string; type: string }>;
+    }>;
+  };
+
+  const wanted = options.schedule?.toLowerCase();
+  return data.data
+    .filter(entry => !wanted || entry._parent.name.toLowerCase().includes(wanted) || entry._parent.id === options.schedule)
+    .flatMap(entry => (entry.onCallParticipants || []).map((participant): OnCallShift => ({
+      provider: 'opsgenie',
+      user: participant.name,
+      email: participant.type === 'user' ? participant.name : undefined,
+      scheduleId: entry._parent.id,
+      scheduleName: entry._parent.name,
+    })));
+}
+
+// ===== Alerts =====
+
+export async function listAlerts(options: { statuses?: OnCallPage['status'][]; limit?: number } = {}): Promise<OnCallPage[]> {
+  const statuses = options.statuses || ['triggered', 'acknowledged'];
+  // Opsgenie has open/closed plus an acknowledged flag - filter the flag client-side
+  const query = statuses.includes('resolved')
+    ? (statuses.length === 1 ? 'status:closed' : '')
+    : 'status:open';
+  const params = new URLSearchParams({
+    limit: String(Math.min(options.limit ?? 25, 100)),
+    sort: 'createdAt',
+    order: 'desc',
+  });
+  if (query) params.set('query', query);
+
+  const data = await opsgenieRequest('GET', `/v2/alerts?${params}`) as { data: RawAlert[] };
+  return data.data.map(toPage).filter(page => statuses.includes(page.status));
+}
+
+export async function getAlert(alertId: string): Promise<OnCallPage | null> {
+  try {
+    const data = await opsgenieRequest('GET', alertPath(alertId)) as { data: RawAlert };
+    return toPage(data.data);
+  } catch (error) {
+    if (error instanceof ApiError && error.code === 'not_found') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function getAlertNotes(alertId: string): Promise<OnCallPageNote[]> {
+  const data = await opsgenieRequest('GET', `${alertPath(alertId, '/notes')}&order=asc&limit=100`) as {
+    data: Array<{ note: string; owner?: string; createdAt: string; offset: string }>;
+  };
+  return data.data.map(note => ({
+    id: note.offset,
+    content: note.note,
+    author: note.owner,
+    createdAt: note.createdAt,
+  }));
+}
+
+// Alert actions are processed asynchronously - a 202 means the request was accepted
+async function alertAction(alertId: string, action: 'acknowledge' | 'close' | 'notes', note?: string): Promise<void> {
+  await opsgenieRequest('POST', alertPath(alertId, `/${action}`), {
+    user: process.env.OPSGENIE_USER,
+    source: 'hn-cli',
+    note,
+  });
+}
+
+export async function acknowledgeAlert(alertId: string, note?: string): Promise<void> {
+  await alertAction(alertId, 'acknowledge', note);
+}
+
+export async function closeAlert(alertId: string, note?: string): Promise<void> {
+  await alertAction(alertId, 'close', note);
+}
+
+export async function addAlertNote(alertId: string, note: string): Promise<void> {
+  await alertAction(alertId, 'notes', note);
+}
+
+export function isOpsgenieConfigured(): boolean {
+  return !!process.env.OPSGENIE_API_KEY;
+}
@@ -0,0 +1,294 @@
+// PagerDuty API Client - on-call schedules and pages
+// Uses PAGERDUTY_API_TOKEN (REST API key); PAGERDUTY_FROM_EMAIL is required for writes
+// (PagerDuty records acknowledgements, resolves and notes against that user).
+// Pages are served by opsgenie.ts instead when Opsgenie is the on-call provider:
+// ONCALL_PROVIDER=pagerduty|opsgenie picks one when both are configured.
+
+import { OnCallProvider, OnCallShift, OnCallPage, OnCallPageNote } from '../types.js';
+import { fetchWithRetry, apiErrorFromResponse, ApiError } from './http.js';
+import * as opsgenie from './opsgenie.js';
+import { wrapWithAIDisclaimer } from './disclaimer.js';
+
+const PAGERDUTY_API = 'https://api.pagerduty.com';
+
+function getApiToken(): string {
+  const token = process.env.PAGERDUTY_API_TOKEN;
+  if (!token) {
+    throw new Error('PAGERDUTY_API_TOKEN not found in environment');
+  }
+  return token;
+}
+
+function getFromEmail(): string {
+  const email = process.env.PAGERDUTY_FROM_EMAIL;
+  if (!email) {
+    throw new ApiError('PagerDuty', 'PAGERDUTY_FROM_EMAIL is required for PagerDuty writes (the user the change is recorded against)', 'invalid_input', false);
+  }
+  return email;
+}
+
+async function pagerdutyFetch(endpoint: string): Promise<unknown> {
+  const response = await fetchWithRetry('PagerDuty', `${PAGERDUTY_API}${endpoint}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Token token=${getApiToken()}`,
+      'Accept': 'application/vnd.pagerduty+json;version=2',
+    },
+  });
+
+  if (!response.ok) {
+    throw await apiErrorFromResponse('PagerDuty', response);
+  }
+
+  return response.json();
+}
+
+async function pagerdutyWrite(method: 'POST' | 'PUT', endpoint: string, body: unknown): Promise<unknown> {
+  const response = await fetchWithRetry('PagerDuty', `${PAGERDUTY_API}${endpoint}`, {
+    method,
+    headers: {
+      'Authorization': `Token token=${getApiToken()}`,
+      'Accept': 'application/vnd.pagerduty+json;version=2',
+      'Content-Type': 'application/json',
+      'From': getFromEmail(),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await apiErrorFromResponse('PagerDuty', response);
+  }
+
+  if (response.status === 204) {
+    return null;
+  }
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+}
+
+/**
+ * Configured on-call provider - ONCALL_PROVIDER, else whichever key is set (PagerDuty first)
+ */
+export function getOnCallProvider(): OnCallProvider | null {
+  const explicit = process.env.ONCALL_PROVIDER?.toLowerCase();
+  if (explicit === 'pagerduty' && process.env.PAGERDUTY_API_TOKEN) return 'pagerduty';
+  if (explicit === 'opsgenie' && opsgenie.isOpsgenieConfigured()) return 'opsgenie';
+  if (process.env.PAGERDUTY_API_TOKEN) return 'pagerduty';
+  if (opsgenie.isOpsgenieConfigured()) return 'opsgenie';
+  return null;
+}
+
+function usesOpsgenie(): boolean {
+  return getOnCallProvider() === 'opsgenie';
+}
+
+/**
+ * Page ID from a PagerDuty incident URL or Opsgenie alert URL, or null
+ */
+export function findPageId(text: string): string | null {
+  const match = text.match(/pagerduty\.com\/incidents\/([A-Z0-9]{6,})/i)
+    || text.match(/opsgenie\.com\/alert\/detail\/([0-9a-f]{8}-[0-9a-f-]{27,})/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Page ID from a page URL or a bare ID
+ */
+export function normalizePageId(input: string): string {
+  return findPageId(input) || input.trim();
+}
+
+// ===== On-call =====
+
+interface RawOnCall {
+  user: { id: string; summary?: string; name?: string; email?: string };
+  schedule: { id: string; summary: string } | null;
+  escalation_policy: { id: string; summary: string };
+  escalation_level: number;
+  start: string | null;
+  end: string | null;
+}
+
+/**
+ * Who is on call now - optionally only schedules whose name contains `schedule`
+ */
+export async function getOnCallShifts(options: { schedule?: string } = {}): Promise<OnCallShift[]> {
+  if (usesOpsgenie()) return opsgenie.getScheduleOnCalls(options);
+
+  const shifts: OnCallShift[] = [];
+  for (let offset = 0; ; offset += 100) {
+    const data = await pagerdutyFetch(`/oncalls?include[]=users&limit=100&offset=${offset}`) as { oncalls: RawOnCall[]; more?: boolean };
+    shifts.push(...data.oncalls.map((oncall): OnCallShift => ({
+      provider: 'pagerduty',
+      user: oncall.user.name || oncall.user.summary || oncall.user.id,
+      email: oncall.user.email,
+      scheduleId: oncall.schedule?.id,
+      scheduleName: oncall.schedule?.summary,
+      escalationPolicy: oncall.escalation_policy.summary,
+      escalationLevel: oncall.escalation_level,
+      start: oncall.start || undefined,
+      end: oncall.end || undefined,
+    })));
+    if (!data.more || offset >= 900) break;
+  }
+
+  const wanted = options.schedule?.toLowerCase();
+  return shifts
+    .filter(shift => !wanted
+      || shift.scheduleName?.toLowerCase().includes(wanted)
+      || shift.escalationPolicy?.toLowerCase().includes(wanted)
+      || shift.scheduleId === options.schedule)
+    .sort((a, b) => (a.escalationPolicy || '').localeCompare(b.escalationPolicy || '') || (a.escalationLevel ?? 0) - (b.escalationLevel ?? 0));
+}
+
+// ===== Pages =====
+
+interface RawIncident {
+  id: string;
+  incident_number?: number;
+  title: string;
+  description?: string;
+  status: 'triggered' | 'acknowledged' | 'resolved';
+  urgency?: string;
+  service?: { summary: string };
+  created_at: string;
+  html_url?: string;
+  assignments?: Array<{ assignee: { summary: string } }>;
+  acknowledgements?: Array<{ acknowledger: { summary: string } }>;
+}
+
+function toPage(incident: RawIncident): OnCallPage {
+  return {
+    provider: 'pagerduty',
+    id: incident.id,
+    number: incident.incident_number,
+    title: incident.title,
+    status: incident.status,
+    urgency: incident.urgency,
+    service: incident.service?.summary,
+    description: incident.description && incident.description !== incident.title ? incident.description : undefined,
+    createdAt: incident.created_at,
+    url: incident.html_url,
+    assignees: (incident.assignments || []).map(a => a.assignee.summary),
+    acknowledgedBy: [...new Set((incident.acknowledgements || []).map(a => a.acknowledger.summary))],
+  };
+}
+
+export interface ListOnCallPagesOptions {
+  statuses?: OnCallPage['status'][];   // Default: triggered and acknowledged
+  limit?: number;
+}
+
+/**
+ * Pages (PagerDuty incidents / Opsgenie alerts), newest first
+ */
+export async function listOnCallPages(options: ListOnCallPagesOptions = {}): Promise<OnCallPage[]> {
+  if (usesOpsgenie()) return opsgenie.listAlerts(options);
+
+  const statuses = options.statuses || ['triggered', 'acknowledged'];
+  const params = new URLSearchParams({
+    limit: String(Math.min(options.limit ?? 25, 100)),
+    sort_by: 'created_at:desc',
+  });
+  for (const status of statuses) {
+    params.append('statuses[]', status);
+  }
+
+  const data = await pagerdutyFetch(`/incidents?${params}`) as { incidents: RawIncident[] };
+  return data.incidents.map(toPage);
+}
+
+export async function getOnCallPage(pageId: string): Promise<OnCallPage | null> {
+  const id = normalizePageId(pageId);
+  if (usesOpsgenie()) return opsgenie.getAlert(id);
+
+  try {
+    const data = await pagerdutyFetch(`/incidents/${encodeURIComponent(id)}`) as { incident: RawIncident };
+    return toPage(data.incident);
+  } catch (error) {
+    if (error instanceof ApiError && error.code === 'not_found') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function getOnCallPageNotes(pageId: string): Promise<OnCallPageNote[]> {
+  const id = normalizePageId(pageId);
+  if (usesOpsgenie()) return opsgenie.getAlertNotes(id);
+
+  const data = await pagerdutyFetch(`/incidents/${encodeURIComponent(id)}/notes`) as {
+    notes: Array<{ id: string; content: string; created_at: string; user?: { summary: string } }>;
+  };
+  return data.notes.map(note => ({
+    id: note.id,
+    content: note.content,
+    author: note.user?.summary,
+    createdAt: note.created_at,
+  }));
+}
+
+// ===== Writes =====
+
+async function setIncidentStatus(id: string, status: 'acknowledged' | 'resolved', resolution?: string): Promise<OnCallPage> {
+  const data = await pagerdutyWrite('PUT', `/incidents/${encodeURIComponent(id)}`, {
+    incident: { type: 'incident_reference', status, resolution },
+  }) as { incident: RawIncident };
+  return toPage(data.incident);
+}
+
+/**
+ * Acknowledge a page - stops escalation to the next on-call level
+ * Returns the updated page (Opsgenie processes the request asynchronously, so it returns null)
+ */
+export async function acknowledgePage(pageId: string, options: { note?: string } = {}): Promise<OnCallPage | null> {
+  const id = normalizePageId(pageId);
+  const note = options.note ? wrapWithAIDisclaimer(options.note) : undefined;
+  if (usesOpsgenie()) {
+    await opsgenie.acknowledgeAlert(id, note);
+    return null;
+  }
+
+  const page = await setIncidentStatus(id, 'acknowledged');
+  if (note) {
+    await addPageNote({ pageId: id, content: note, skipDisclaimer: true });
+  }
+  return page;
+}
+
+/**
+ * Resolve a page (close the Opsgenie alert)
+ */
+export async function resolvePage(pageId: string, options: { resolution?: string } = {}): Promise<OnCallPage | null> {
+  const id = normalizePageId(pageId);
+  const resolution = options.resolution ? wrapWithAIDisclaimer(options.resolution) : undefined;
+  if (usesOpsgenie()) {
+    await opsgenie.closeAlert(id, resolution);
+    return null;
+  }
+  return setIncidentStatus(id, 'resolved', resolution);
+}
+
+export interface AddPageNoteOptions {
+  pageId: string;
+  content: string;
+  skipDisclaimer?: boolean;
+}
+
+export async function addPageNote(options: AddPageNoteOptions): Promise<{ pageId: string; noteId?: string }> {
+  const id = normalizePageId(options.pageId);
+  const content = options.skipDisclaimer ? options.content : wrapWithAIDisclaimer(options.content);
+  if (usesOpsgenie()) {
+    await opsgenie.addAlertNote(id, content);
+    return { pageId: id };
+  }
+
+  const data = await pagerdutyWrite('POST', `/incidents/${encodeURIComponent(id)}/notes`, {
+    note: { content },
+  }) as { note?: { id: string } } | null;
+  return { pageId: id, noteId: data?.note?.id };
+}
+
+export function isOnCallConfigured(): boolean {
+  return getOnCallProvider() !== null;
+}
@@ -0,0 +1,380 @@
+// Slack Web API Client - token-based alternative to the browser backend
+// Uses SLACK_USER_TOKEN (xoxp, needed for search) or SLACK_BOT_TOKEN (xoxb).
+// Returns the same SlackChannel/SlackMessage shapes as the extractor, but messages are
+// addressed by their Slack `ts` instead of their position on screen.
+
+import { fetchWithRetry, apiErrorFromResponse, ApiError, ApiErrorCode } from './http.js';
+import type { SlackChannel, SlackMessage } from './slack.js';
+import { wrapWithAIDisclaimer } from './disclaimer.js';
+
+const SLACK_API = 'https://slack.com/api';
+
+// Channel and user lists barely change during a session
+const DIRECTORY_TTL_MS = 10 * 60 * 1000;
+const MAX_CHANNEL_PAGES = 10;
+
+function getToken(): string {
+  const token = process.env.SLACK_USER_TOKEN || process.env.SLACK_BOT_TOKEN;
+  if (!token) {
+    throw new Error('SLACK_USER_TOKEN or SLACK_BOT_TOKEN not found in environment');
+  }
+  return token;
+}
+
+/**
+ * Whether a Slack token is set (the tools and advice scanner then skip the browser)
+ */
+export function isSlackApiConfigured(): boolean {
+  return !!(process.env.SLACK_USER_TOKEN || process.env.SLACK_BOT_TOKEN);
+}
+
+// Slack answers HTTP 200 with { ok: false, error } for most failures
+function codeForSlackError(error: string): ApiErrorCode {
+  if (['not_authed', 'invalid_auth', 'account_inactive', 'token_revoked', 'token_expired', 'missing_scope', 'not_allowed_token_type', 'not_in_channel'].includes(error)) {
+    return 'auth';
+  }
+  if (['channel_not_found', 'thread_not_found', 'message_not_found', 'user_not_found'].includes(error)) {
+    return 'not_found';
+  }
+  if (error === 'ratelimited') return 'rate_limited';
+  if (['invalid_arguments', 'invalid_name', 'too_many_emoji', 'msg_too_long', 'no_text', 'is_archived'].includes(error)) {
+    return 'invalid_input';
+  }
+  return 'failed';
+}
+
+interface SlackResponse {
+  ok: boolean;
+  error?: string;
+  needed?: string;
+  response_metadata?: { next_cursor?: string };
+}
+
+async function slackCall<T extends SlackResponse>(
+  method: string,
+  params: Record<string, string | number | boolean | undefined>,
+  options: { write?: boolean } = {}
+): Promise<T> {
+  const token = getToken();
+  const defined = Object.entries(params).filter(([, value]) => value !== undefined);
+
+  // Reads go as GET query strings (safe to retry); writes as JSON bodies
+  const response = options.write
+    ? await fetchWithRetry('Slack', `${SLACK_API}/${method}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json; charset=utf-8',
+      },
+      body: JSON.stringify(Object.fromEntries(defined)),
+    })
+    : await fetchWithRetry('Slack', `${SLACK_API}/${method}?${new URLSearchParams(defined.map(([key, value]) => [key, String(value)])).toString()}`, {
+      method: 'GET',
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+
+  if (!response.ok) {
+    throw await apiErrorFromResponse('Slack', response);
+  }
+
+  const data = await response.json() as T;
+  if (!data.ok) {
+    const error = data.error || 'unknown_error';
+    const detail = error === 'missing_scope' && data.needed ? ` (token needs the ${data.needed} scope)` : '';
+    throw new ApiError('Slack', `Slack API error (${method}): ${error}${detail}`, codeForSlackError(error), false, response.status);
+  }
+  return data;
+}
+
+// ===== Timestamps =====
+
+/**
+ * Slack `ts` ("1712345678.123456") → ISO timestamp
+ */
+export function slackTsToIso(ts: string): string {
+  return new Date(parseFloat(ts) * 1000).toISOString();
+}
+
+/**
+ * A Slack `ts` or anything Date.parse understands → Slack `ts`, else null
+ */
+export function toSlackTs(value: string): string | null {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return value;
+  }
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : (ms / 1000).toFixed(6);
+}
+
+// ===== Users =====
+
+interface RawUser {
+  id: string;
+  name: string;
+  real_name?: string;
+  profile?: { display_name?: string; real_name?: string };
+}
+
+const userNames = new Map<string, string>();
+
+async function getUserName(userId: string): Promise<string> {
+  const cached = userNames.get(userId);
+  if (cached) return cached;
+
+  try {
+    const data = await slackCall<SlackResponse & { user: RawUser }>('users.info', { user: userId });
+    const user = data.user;
+    const name = user.profile?.display_name || user.profile?.real_name || user.real_name || user.name;
+    userNames.set(userId, name);
+    return name;
+  } catch {
+    // Deleted users, missing users:read scope - show the ID rather than fail the read
+    return userId;
+  }
+}
+
+// ===== Messages =====
+
+interface RawMessage {
+  ts: string;
+  thread_ts?: string;
+  user?: string;
+  username?: string;
+  bot_profile?: { name?: string };
+  text?: string;
+  reply_count?: number;
+  reactions?: Array<{ name: string; count: number }>;
+  files?: Array<{ name?: string; permalink?: string }>;
+}
+
+/**
+ * Slack mrkdwn → readable text plus the links it contains
+ * <@U123> mentions become @names, <#C123|name> becomes #name, <url|label> becomes label.
+ */
+async function decodeMrkdwn(text: string): Promise<{ content: string; links: NonNullable<SlackMessage['links']> }> {
+  const links: NonNullable<SlackMessage['links']> = [];
+  const mentionIds = [...new Set([...text.matchAll(/<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g)].map(m => m[1]))];
+  const names = new Map(await Promise.all(mentionIds.map(async id => [id, await getUserName(id)] as const)));
+
+  const content = text
+    .replace(/<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g, (_, id: string) => `@${names.get(id) || id}`)
+    .replace(/<#[CG][A-Z0-9]+\|([^>]*)>/g, (_, name: string) => `#${name}`)
+    .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, (_, keyword: string) => `@${keyword}`)
+    .replace(/<!subteam\^[A-Z0-9]+\|([^>]*)>/g, (_, handle: string) => handle)
+    .replace(/<((?:https?|mailto):[^|>]+)(?:\|([^>]*))?>/g, (_, url: string, label?: string) => {
+      links.push({ url, text: label, isSlackLink: /\.slack\.com\//.test(url) });
+      return label || url;
+    })
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+  return { content, links };
+}
+
+async function toSlackMessage(raw: RawMessage, channelId: string): Promise<SlackMessage> {
+  const { content, links } = await decodeMrkdwn(raw.text || '');
+  for (const file of raw.files || []) {
+    if (file.permalink) {
+      links.push({ url: file.permalink, text: file.name, isSlackLink: true });
+    }
+  }
+
+  return {
+    author: raw.user ? await getUserName(raw.user) : raw.username || raw.bot_profile?.name || 'unknown',
+    timestamp: slackTsToIso(raw.ts),
+    content,
+    threadReplies: raw.reply_count || undefined,
+    reactions: raw.reactions?.map(r => r.name),
+    links: links.length > 0 ? links : undefined,
+    ts: raw.ts,
+    threadTs: raw.thread_ts,
+    channelId,
+  };
+}
+
+// ===== Channels =====
+
+interface RawConversation {
+  id: string;
+  name?: string;
+  user?: string;
+  is_im?: boolean;
+  is_mpim?: boolean;
+  is_member?: boolean;
+  unread_count?: number;
+}
+
+let channelDirectory: { channels: SlackChannel[]; fetchedAt: number } | null = null;
+
+/**
+ * Channels, DMs and group DMs the token's user is a member of
+ */
+export async function listSlackChannels(options: { refresh?: boolean } = {}): Promise<SlackChannel[]> {
+  if (!options.refresh && channelDirectory && Date.now() - channelDirectory.fetchedAt < DIRECTORY_TTL_MS) {
+    return channelDirectory.channels;
+  }
+
+  const conversations: RawConversation[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_CHANNEL_PAGES; page++) {
+    const data = await slackCall<SlackResponse & { channels: RawConversation[] }>('users.conversations', {
+      types: 'public_channel,private_channel,mpim,im',
+      exclude_archived: true,
+      limit: 200,
+      cursor,
+    });
+    conversations.push(...data.channels);
+    cursor = data.response_metadata?.next_cursor || undefined;
+    if (!cursor) break;
+  }
+
+  const channels = await Promise.all(conversations.map(async (conversation): Promise<SlackChannel> => ({
+    name: conversation.is_im && conversation.user ? await getUserName(conversation.user) : conversation.name || conversation.id,
+    id: conversation.id,
+    unread: (conversation.unread_count || 0) > 0,
+    type: conversation.is_im ? 'dm' : conversation.is_mpim ? 'group' : 'channel',
+  })));
+
+  channelDirectory = { channels, fetchedAt: Date.now() };
+  return channels;
+}
+
+/**
+ * Channel ID for a channel ID, #name or DM person name
+ */
+export async function resolveSlackChannel(channelIdOrName: string): Promise<SlackChannel> {
+  const wanted = channelIdOrName.trim().replace(/^[#@]/, '');
+  if (/^[CDG][A-Z0-9]{6,}$/.test(wanted)) {
+    const known = channelDirectory?.channels.find(c => c.id === wanted);
+    return known || { name: wanted, id: wanted, unread: false, type: wanted.startsWith('D') ? 'dm' : 'channel' };
+  }
+
+  const channels = await listSlackChannels();
+  const lower = wanted.toLowerCase();
+  const match = channels.find(c => c.name.toLowerCase() === lower);
+  if (!match) {
+    throw new ApiError('Slack', `Slack channel or DM "${channelIdOrName}" not found (or the token's user is not a member)`, 'not_found', false);
+  }
+  return match;
+}
+
+/**
+ * Channels/DMs whose name contains the query - exact matches first
+ */
+export async function findSlackChannels(query: string, limit: number = 10): Promise<SlackChannel[]> {
+  const lower = query.trim().replace(/^[#@]/, '').toLowerCase();
+  const channels = await listSlackChannels();
+  return channels
+    .filter(c => c.name.toLowerCase().includes(lower))
+    .sort((a, b) => Number(b.name.toLowerCase() === lower) - Number(a.name.toLowerCase() === lower) || a.name.length - b.name.length)
+    .slice(0, limit);
+}
+
+// ===== Reads =====
+
+export interface SlackHistoryOptions {
+  limit?: number;
+  oldest?: string;   // Only messages after this ts
+  latest?: string;   // Only messages before this ts
+}
+
+/**
+ * Channel messages, oldest first (the order they appear on screen)
+ */
+export async function getSlackChannelHistory(channelId: string, options: SlackHistoryOptions = {}): Promise<SlackMessage[]> {
+  const data = await slackCall<SlackResponse & { messages: RawMessage[] }>('conversations.history', {
+    channel: channelId,
+    limit: Math.min(options.limit ?? 20, 200),
+    oldest: options.oldest,
+    latest: options.latest,
+  });
+  const messages = await Promise.all(data.messages.map(m => toSlackMessage(m, channelId)));
+  return messages.reverse();
+}
+
+/**
+ * Thread parent followed by its replies
+ */
+export async function getSlackThreadReplies(channelId: string, threadTs: string, limit: number = 200): Promise<SlackMessage[]> {
+  const data = await slackCall<SlackResponse & { messages: RawMessage[] }>('conversations.replies', {
+    channel: channelId,
+    ts: threadTs,
+    limit: Math.min(limit, 1000),
+  });
+  return Promise.all(data.messages.map(m => toSlackMessage(m, channelId)));
+}
+
+export interface SlackSearchMatch extends SlackMessage {
+  channelName: string;
+  permalink: string;
+}
+
+/**
+ * Search messages across the workspace (Slack search syntax: in:#channel from:@user after:2024-01-01)
+ * Needs a user token - bot tokens cannot call search.messages.
+ */
+export async function searchSlackMessages(query: string, count: number = 20): Promise<SlackSearchMatch[]> {
+  if (!process.env.SLACK_USER_TOKEN) {
+    throw new ApiError('Slack', 'Slack message search needs a user token (SLACK_USER_TOKEN with the search:read scope)', 'auth', false);
+  }
+
+  const data = await slackCall<SlackResponse & {
+    messages: { matches: Array<RawMessage & { channel: { id: string; name: string }; permalink: string }> };
+  }>('search.messages', { query, count: Math.min(count, 100), sort: 'timestamp', sort_dir: 'desc' });
+
+  return Promise.all(data.messages.matches.map(async match => ({
+    ...await toSlackMessage(match, match.channel.id),
+    channelName: match.channel.name,
+    permalink: match.permalink,
+  })));
+}
+
+/**
+ * Shareable URL for a message
+ */
+export async function getSlackPermalink(channelId: string, ts: string): Promise<string> {
+  const data = await slackCall<SlackResponse & { permalink: string }>('chat.getPermalink', { channel: channelId, message_ts: ts });
+  return data.permalink;
+}
+
+/**
+ * Workspace and user the token belongs to
+ */
+export async function getSlackApiIdentity(): Promise<{ user: string; team: string; url: string; tokenType: 'user' | 'bot' }> {
+  const data = await slackCall<SlackResponse & { user: string; team: string; url: string; bot_id?: string }>('auth.test', {});
+  return { user: data.user, team: data.team, url: data.url, tokenType: data.bot_id ? 'bot' : 'user' };
+}
+
+// ===== Writes =====
+
+/**
+ * Post a message to a channel/DM, or as a thread reply when threadTs is given
+ */
+export async function postSlackMessage(
+  channelId: string,
+  text: string,
+  options: { threadTs?: string; skipDisclaimer?: boolean } = {}
+): Promise<{ channelId: string; ts: string }> {
+  const data = await slackCall<SlackResponse & { channel: string; ts: string }>('chat.postMessage', {
+    channel: channelId,
+    text: options.skipDisclaimer ? text : wrapWithAIDisclaimer(text),
+    thread_ts: options.threadTs,
+    unfurl_links: false,
+  }, { write: true });
+  return { channelId: data.channel, ts: data.ts };
+}
+
+/**
+ * Add an emoji reaction (name without colons; an existing reaction counts as success)
+ */
+export async function addSlackReaction(channelId: string, ts: string, emoji: string): Promise<void> {
+  try {
+    await slackCall('reactions.add', { channel: channelId, timestamp: ts, name: emoji.replace(/:/g, '') }, { write: true });
+  } catch (error) {
+    if (error instanceof ApiError && /already_reacted/.test(error.message)) {
+      return;
+    }
+    throw error;
+  }
+}
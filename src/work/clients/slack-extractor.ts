@@ -1,12 +1,10 @@
 // Slack Extractor - LLM-powered DOM extraction for Slack web UI
 // Uses a hybrid approach: accessibility tree for navigation + LLM for content extraction
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { slackBrowser, SlackChannel, SlackMessage } from './slack.js';
 import { slackCache, CacheKeys, CacheTTL } from './slack-cache.js';
-
-// Initialize Gemini for extraction
-let genAI: GoogleGenerativeAI | null = null;
+import { createStandardModel } from '../ai-config.js';
+import { wrapWithAIDisclaimer } from './disclaimer.js';
 
 // Abort controller for interrupting long-running operations
 let globalAbortController: AbortController | null = null;
@@ -19,17 +17,6 @@ export function isSlackAborted(): boolean {
   return globalAbortController?.signal.aborted || false;
 }
 
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY not found in environment. Required for Slack extraction.');
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
-}
-
 /**
  * Clean HTML to reduce noise for LLM extraction
  */
@@ -66,13 +53,8 @@ function cleanHtml(html: string): string {
  */
 async function llmExtract<T>(html: string, prompt: string): Promise<T | null> {
   try {
-    const ai = getGenAI();
-    const model = ai.getGenerativeModel({
-      model: 'gemini-2.0-flash-exp',
-      generationConfig: {
-        temperature: 0.1, // Low temperature for consistent extraction
-      },
-    });
+    // The configured provider, so Slack content never goes anywhere the user did not choose
+    const model = createStandardModel(0.1, undefined, 'extractor');  // Low temperature for consistent extraction
 
     const cleanedHtml = cleanHtml(html);
     const fullPrompt = `${prompt}
@@ -837,14 +819,6 @@ export async function reactToMessage(messageIndex: number, emoji: string): Promi
   }
 }
 
-/**
- * Wrap a message with AI assistant disclaimer
- */
-function wrapWithAIDisclaimer(text: string): string {
-  const disclaimer = "🤖 *Hey! Koren's AI assistant here. I've looked into this, but I'm not perfect—double-check with Koren if you need to be sure.*\n\n";
-  return disclaimer + text;
-}
-
 /**
  * Reply to a message in a thread
  */
@@ -35,6 +35,10 @@ export interface SlackMessage {
     text?: string;
     isSlackLink?: boolean;
   }>;
+  // Web API backend only - stable message address (the browser backend uses on-screen indices)
+  ts?: string;
+  threadTs?: string;
+  channelId?: string;
 }
 
 export interface SlackBrowserStatus {
@@ -43,6 +47,7 @@ export interface SlackBrowserStatus {
   currentChannel?: string;
   workspaceUrl?: string;
   workspaceName?: string;
+  backend?: 'browser' | 'api';
 }
 
 // Config paths
@@ -1,23 +1,9 @@
 // Web Extractor - LLM-powered DOM extraction for generic web browsing
 // Uses Playwright Page API + LLM for intelligent content extraction
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { Page } from 'playwright';
 import { getWebBrowser } from './web-browser.js';
-
-// Initialize Gemini for extraction
-let genAI: GoogleGenerativeAI | null = null;
-
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY not found in environment. Required for web extraction.');
-    }
-    genAI = new GoogleGenerativeAI(apiKey);
-  }
-  return genAI;
-}
+import { createStandardModel } from '../ai-config.js';
 
 /**
  * Clean HTML to reduce noise for LLM extraction
@@ -36,13 +22,7 @@ function cleanHtml(html: string): string {
  */
 async function llmExtract<T>(html: string, prompt: string): Promise<T | null> {
   try {
-    const ai = getGenAI();
-    const model = ai.getGenerativeModel({
-      model: 'gemini-2.0-flash-exp',
-      generationConfig: {
-        temperature: 0.1, // Low temperature for consistent extraction
-      },
-    });
+    const model = createStandardModel(0.1, undefined, 'extractor');  // Low temperature for consistent extraction
 
     const cleanedHtml = cleanHtml(html);
     const fullPrompt = `${prompt}
@@ -234,8 +214,7 @@ ${JSON.stringify(interactiveResult.elements, null, 2)}
 Return the INDEX (0-based) of the element that best matches the user's intent.
 Respond with ONLY a number, nothing else.`;
 
-    const ai = getGenAI();
-    const model = ai.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
+    const model = createStandardModel(0.1, undefined, 'extractor');
     const result = await model.generateContent(matchPrompt);
     const indexStr = result.response.text().trim();
     const index = parseInt(indexStr);
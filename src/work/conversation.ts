@@ -1,16 +1,26 @@
-// Conversation management with token tracking
+// Conversation management with token tracking and context budgeting
 
-import { BaseMessage, HumanMessage, AIMessage, SystemMessage } from '@langchain/core/messages';
+import { BaseMessage, HumanMessage, AIMessage, SystemMessage, ToolMessage } from '@langchain/core/messages';
+import { TokenCounter, estimateTokens } from './providers/tokens.js';
+import { sanitizeMessageOrder } from './storage/checkpoints.js';
+
+/**
+ * Token budget for a conversation
+ * Compaction starts above compactAt and brings the conversation down to targetTokens
+ */
+export interface ContextBudget {
+  maxTokens: number;
+  compactAt: number;
+  targetTokens: number;
+}
 
 export interface ConversationState {
   messages: BaseMessage[];
   tokenEstimate: number;
   turnCount: number;
-}
-
-// Rough token estimation (4 chars ≈ 1 token)
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+  // Model-specific counter (falls back to 4 chars ≈ 1 token)
+  countTokens?: TokenCounter;
+  budget?: ContextBudget;
 }
 
 function messageToText(msg: BaseMessage): string {
@@ -20,30 +30,112 @@ function messageToText(msg: BaseMessage): string {
   return JSON.stringify(msg.content);
 }
 
-export function createConversation(systemPrompt: string): ConversationState {
+// Per-counter, per-message counts - messages are immutable once added,
+// and counting large tool results is not free
+const _messageTokens = new WeakMap<TokenCounter, WeakMap<BaseMessage, number>>();
+
+// Role/formatting overhead per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Count tokens for one message, including tool call arguments
+ */
+export function countMessageTokens(msg: BaseMessage, countTokens: TokenCounter = estimateTokens): number {
+  let counts = _messageTokens.get(countTokens);
+  if (!counts) {
+    counts = new WeakMap();
+    _messageTokens.set(countTokens, counts);
+  }
+  const cached = counts.get(msg);
+  if (cached !== undefined) return cached;
+
+  let tokens = MESSAGE_OVERHEAD_TOKENS + countTokens(messageToText(msg));
+  if (isAIWithToolCalls(msg)) {
+    for (const tc of (msg as AIMessage).tool_calls || []) {
+      tokens += countTokens(tc.name) + countTokens(JSON.stringify(tc.args));
+    }
+  }
+  counts.set(msg, tokens);
+  return tokens;
+}
+
+export function countMessagesTokens(messages: BaseMessage[], countTokens?: TokenCounter): number {
+  return messages.reduce((sum, msg) => sum + countMessageTokens(msg, countTokens), 0);
+}
+
+/**
+ * Budget for a model's prompt token limit: compact at 80%, down to 50%
+ */
+export function createContextBudget(maxTokens: number): ContextBudget {
+  return {
+    maxTokens,
+    compactAt: Math.floor(maxTokens * 0.8),
+    targetTokens: Math.floor(maxTokens * 0.5),
+  };
+}
+
+export function createConversation(
+  systemPrompt: string,
+  options: { countTokens?: TokenCounter; budget?: ContextBudget } = {}
+): ConversationState {
   const systemMessage = new SystemMessage(systemPrompt);
   return {
     messages: [systemMessage],
-    tokenEstimate: estimateTokens(systemPrompt),
+    tokenEstimate: countMessageTokens(systemMessage, options.countTokens),
     turnCount: 0,
+    countTokens: options.countTokens,
+    budget: options.budget,
+  };
+}
+
+/**
+ * Build a conversation from restored messages (counts tokens from scratch)
+ */
+export function restoreConversation(
+  messages: BaseMessage[],
+  options: { countTokens?: TokenCounter; budget?: ContextBudget } = {}
+): ConversationState {
+  return {
+    messages,
+    tokenEstimate: countMessagesTokens(messages, options.countTokens),
+    turnCount: messages.filter(m => m._getType?.() === 'ai').length,
+    countTokens: options.countTokens,
+    budget: options.budget,
+  };
+}
+
+/**
+ * Switch the token counter/budget (e.g. after a model change) and recount
+ */
+export function setConversationBudget(
+  state: ConversationState,
+  countTokens: TokenCounter,
+  budget: ContextBudget
+): ConversationState {
+  return {
+    ...state,
+    tokenEstimate: countMessagesTokens(state.messages, countTokens),
+    countTokens,
+    budget,
   };
 }
 
 export function addUserMessage(state: ConversationState, content: string): ConversationState {
   const message = new HumanMessage(content);
-  const tokens = estimateTokens(content);
+  const tokens = countMessageTokens(message, state.countTokens);
   
   return {
+    ...state,
     messages: [...state.messages, message],
     tokenEstimate: state.tokenEstimate + tokens,
-    turnCount: state.turnCount,
   };
 }
 
 export function addAssistantMessage(state: ConversationState, message: AIMessage): ConversationState {
-  const tokens = estimateTokens(messageToText(message));
+  const tokens = countMessageTokens(message, state.countTokens);
   
   return {
+    ...state,
     messages: [...state.messages, message],
     tokenEstimate: state.tokenEstimate + tokens,
     turnCount: state.turnCount + 1,
@@ -54,7 +146,7 @@ export function addMessages(state: ConversationState, messages: BaseMessage[]):
   let totalTokens = 0;
   let aiMessageCount = 0;
   for (const msg of messages) {
-    totalTokens += estimateTokens(messageToText(msg));
+    totalTokens += countMessageTokens(msg, state.countTokens);
     // Count AI messages for turn tracking
     if (msg._getType?.() === 'ai' || msg.constructor?.name === 'AIMessage') {
       aiMessageCount++;
@@ -62,25 +154,28 @@ export function addMessages(state: ConversationState, messages: BaseMessage[]):
   }
   
   return {
+    ...state,
     messages: [...state.messages, ...messages],
     tokenEstimate: state.tokenEstimate + totalTokens,
     turnCount: state.turnCount + (aiMessageCount > 0 ? 1 : 0),
   };
 }
 
-export function resetConversation(systemPrompt: string): ConversationState {
-  return createConversation(systemPrompt);
+export function resetConversation(systemPrompt: string, previous?: ConversationState): ConversationState {
+  return createConversation(systemPrompt, { countTokens: previous?.countTokens, budget: previous?.budget });
 }
 
 export function getTokenStats(state: ConversationState): {
   estimated: number;
   turns: number;
   messageCount: number;
+  budget?: number;
 } {
   return {
     estimated: state.tokenEstimate,
     turns: state.turnCount,
     messageCount: state.messages.length,
+    budget: state.budget?.maxTokens,
   };
 }
 
@@ -168,16 +263,162 @@ export function trimConversation(
   const recentMessages = state.messages.slice(safeCutIndex);
   const trimmedMessages = [systemMessage, ...recentMessages];
   
-  // Recalculate tokens
-  let tokens = 0;
-  for (const msg of trimmedMessages) {
-    tokens += estimateTokens(messageToText(msg));
-  }
-  
   return {
+    ...state,
     messages: trimmedMessages,
-    tokenEstimate: tokens,
-    turnCount: state.turnCount,
+    tokenEstimate: countMessagesTokens(trimmedMessages, state.countTokens),
+  };
+}
+
+// ===== CONTEXT COMPACTION =====
+
+// Tool results above this size are moved out of the conversation first
+const LARGE_TOOL_RESULT_TOKENS = 2_000;
+
+// Most recent messages are never offloaded or summarized (the model is working with them)
+const KEEP_RECENT_MESSAGES = 4;
+
+// Marks content already replaced by compaction (so it is not processed twice)
+export const SUMMARY_PREFIX = '[Summary of earlier conversation]';
+const OFFLOAD_PREFIX = '[Large tool result';
+
+export interface CompactionHooks {
+  /**
+   * Persist a large tool result and return the text that replaces it in the conversation
+   */
+  offloadToolResult?(toolName: string, toolCallId: string, content: string, tokens: number): Promise<string>;
+  /**
+   * Summarize old messages into a short text (omit to drop them instead)
+   */
+  summarize?(messages: BaseMessage[]): Promise<string>;
+  /**
+   * Never cut the latest user message (compaction mid-turn, while the model is still answering it)
+   */
+  keepLatestRequest?: boolean;
+}
+
+export interface CompactionReport {
+  beforeTokens: number;
+  afterTokens: number;
+  offloaded: number;
+  summarized: number;
+  dropped: number;
+}
+
+/**
+ * Whether the conversation is over its compaction threshold
+ */
+export function needsCompaction(state: ConversationState): boolean {
+  return !!state.budget && state.tokenEstimate > state.budget.compactAt;
+}
+
+// Index of the latest real user message (compaction summaries don't count)
+function findLatestRequest(messages: BaseMessage[]): number {
+  for (let i = messages.length - 1; i > 0; i--) {
+    if (messages[i]._getType?.() === 'human' && !messageToText(messages[i]).startsWith(SUMMARY_PREFIX)) return i;
+  }
+  return messages.length;
+}
+
+function findToolName(messages: BaseMessage[], index: number, toolCallId: string): string {
+  for (let i = index - 1; i >= 0; i--) {
+    if (isAIWithToolCalls(messages[i])) {
+      const call = (messages[i] as AIMessage).tool_calls?.find(tc => tc.id === toolCallId);
+      if (call) return call.name;
+    }
+  }
+  return 'tool';
+}
+
+/**
+ * Bring a conversation under its budget:
+ * 1. Move large tool results (Datadog logs, Slack dumps) out via offloadToolResult, keeping a pointer
+ * 2. Summarize (or drop) the oldest turns, cutting only at tool-call boundaries
+ *    (and, with keepLatestRequest, never past the user message being answered)
+ * The result always passes sanitizeMessageOrder, so tool calls and results stay paired.
+ */
+export async function compactConversation(
+  state: ConversationState,
+  hooks: CompactionHooks = {}
+): Promise<{ state: ConversationState; report: CompactionReport | null }> {
+  if (!state.budget || !needsCompaction(state)) {
+    return { state, report: null };
+  }
+
+  const { budget, countTokens } = state;
+  const beforeTokens = state.tokenEstimate;
+  let messages = [...state.messages];
+  let tokens = beforeTokens;
+  let offloaded = 0;
+  let summarized = 0;
+  let dropped = 0;
+
+  // Phase 1: offload large tool results, oldest first
+  if (hooks.offloadToolResult) {
+    const lastCandidate = messages.length - KEEP_RECENT_MESSAGES;
+    for (let i = 1; i < lastCandidate && tokens > budget.targetTokens; i++) {
+      const msg = messages[i];
+      if (!isToolMessage(msg)) continue;
+      const content = messageToText(msg);
+      if (content.startsWith(OFFLOAD_PREFIX)) continue;
+      const msgTokens = countMessageTokens(msg, countTokens);
+      if (msgTokens < LARGE_TOOL_RESULT_TOKENS) continue;
+
+      const toolCallId = (msg as ToolMessage).tool_call_id;
+      try {
+        const pointer = await hooks.offloadToolResult(findToolName(messages, i, toolCallId), toolCallId, content, msgTokens);
+        const replacement = new ToolMessage({ tool_call_id: toolCallId, content: pointer });
+        messages[i] = replacement;
+        tokens += countMessageTokens(replacement, countTokens) - msgTokens;
+        offloaded++;
+      } catch {
+        // Leave the result in place if it cannot be written out
+      }
+    }
+  }
+
+  // Phase 2: summarize or drop the oldest turns
+  if (tokens > budget.targetTokens) {
+    // Keep as many recent messages as fit in half the target, but at least KEEP_RECENT_MESSAGES
+    let keptTokens = 0;
+    let idealCut = messages.length;
+    while (idealCut > 1) {
+      const next = countMessageTokens(messages[idealCut - 1], countTokens);
+      if (messages.length - idealCut >= KEEP_RECENT_MESSAGES && keptTokens + next > budget.targetTokens / 2) break;
+      keptTokens += next;
+      idealCut--;
+    }
+    if (hooks.keepLatestRequest) {
+      idealCut = Math.min(idealCut, findLatestRequest(messages));
+    }
+    const cutIndex = findSafeCutPoint(messages, idealCut);
+
+    if (cutIndex > 1) {
+      const oldMessages = messages.slice(1, cutIndex);
+      let replacement: BaseMessage[] = [];
+      if (hooks.summarize) {
+        try {
+          const summary = await hooks.summarize(oldMessages);
+          replacement = [new HumanMessage(`${SUMMARY_PREFIX}\n${summary}`)];
+          summarized = oldMessages.length;
+        } catch {
+          // Fall through to dropping
+        }
+      }
+      if (replacement.length === 0) {
+        replacement = [new HumanMessage(`${SUMMARY_PREFIX}\n(${oldMessages.length} earlier messages were removed to fit the context window.)`)];
+        dropped = oldMessages.length;
+      }
+      messages = [messages[0], ...replacement, ...messages.slice(cutIndex)];
+    }
+  }
+
+  messages = sanitizeMessageOrder(messages);
+  const afterTokens = countMessagesTokens(messages, countTokens);
+
+  return {
+    state: { ...state, messages, tokenEstimate: afterTokens },
+    report: { beforeTokens, afterTokens, offloaded, summarized, dropped },
   };
 }
 
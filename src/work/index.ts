@@ -11,6 +11,10 @@ export {
   isDatadogConfigured,
   isGitHubConfigured,
   getGitHubConfigStatus,
+  getGoogleDocsConfigStatus,
+  loginToGoogle,
+  logoutFromGoogle,
+  getGoogleLoginStatus,
 } from './clients/index.js';
 
 // Memory system
@@ -0,0 +1,295 @@
+// Plugin loader for custom agent tools and prompt modules
+// Plugins live in <configDir>/plugins and are loaded once per process:
+//   plugins/deploy.js                          - a local ES module file (.js or .mjs)
+//   plugins/feature-flags/                     - a local package (package.json "main", default index.js)
+//   plugins/node_modules/<package>             - an npm package with the "hn-work-plugin" keyword
+//                                                (npm install --prefix <configDir>/plugins <package>)
+//
+// A plugin module's default export (or `plugin` export) is a WorkPlugin, or a function
+// that receives the PluginApi and returns one. Tools declared by plugins default to
+// write-external, so they wait for user approval unless they declare a lower access level.
+
+import { readdir, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { tool, StructuredToolInterface } from '@langchain/core/tools';
+import { z } from 'zod';
+import { ensureConfigDir } from '../../utils/platform.js';
+import { isBuiltinTool, registerToolMetadata, ToolAccess, ToolCachePolicy } from '../agent/tool-metadata.js';
+import { ToolResult, toolFailure } from '../agent/tool-result.js';
+import type { ToolInvalidation } from '../storage/tool-cache.js';
+
+// ===== TYPES =====
+
+export interface PluginToolContext {
+  workstreamId?: string;
+}
+
+export interface PluginTool {
+  name: string;                 // snake_case, must not clash with built-in or other plugin tools
+  description: string;
+  schema: z.ZodObject;          // Build with api.z so it matches the agent's zod
+  // Return a string (passed to the model as-is) or a JSON-serializable value
+  // Throw, or return { error: "..." }, to report a failure
+  handler: (args: Record<string, unknown>, context: PluginToolContext) => Promise<unknown> | unknown;
+  access?: ToolAccess;          // Default: write-external (requires approval)
+  parallel?: boolean;           // Only honored for read tools
+  timeoutMs?: number;
+  editableField?: string;
+  cache?: ToolCachePolicy;      // Only honored for read tools
+  invalidates?: ToolInvalidation[];
+}
+
+export interface PluginPromptModule {
+  content: string;
+  // Loaded into the system prompt when the user message matches any keyword
+  // Strings match case-insensitively as whole words; RegExps are tested as given, minus g/y flags
+  keywords: Array<string | RegExp>;
+}
+
+export interface WorkPlugin {
+  name: string;
+  tools?: PluginTool[];
+  promptModule?: PluginPromptModule;
+}
+
+export interface PluginApi {
+  z: typeof z;
+}
+
+export interface LoadedPlugin {
+  name: string;
+  source: string;
+  tools: string[];
+  promptModule?: string;        // Module name used in the loaded-modules set
+}
+
+export interface PluginLoadReport {
+  loaded: LoadedPlugin[];
+  errors: Array<{ source: string; error: string }>;
+}
+
+// ===== REGISTRY =====
+
+const PLUGIN_PACKAGE_KEYWORD = 'hn-work-plugin';
+const TOOL_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+interface RegisteredPrompt {
+  module: string;
+  content: string;
+  patterns: RegExp[];
+}
+
+const _tools: StructuredToolInterface[] = [];
+const _handlers = new Map<string, PluginTool>();
+const _prompts: RegisteredPrompt[] = [];
+let _loading: Promise<PluginLoadReport> | null = null;
+
+export function getPluginsDir(): string {
+  return join(ensureConfigDir(), 'plugins');
+}
+
+// ===== DISCOVERY =====
+
+async function readPackageJson(dir: string): Promise<{ main?: string; keywords?: string[] } | null> {
+  try {
+    return JSON.parse(await readFile(join(dir, 'package.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+async function packageEntry(dir: string): Promise<string | null> {
+  const pkg = await readPackageJson(dir);
+  if (!pkg) {
+    return existsSync(join(dir, 'index.js')) ? join(dir, 'index.js') : null;
+  }
+  return join(dir, pkg.main || 'index.js');
+}
+
+// Installed npm packages tagged with the plugin keyword (including scoped packages)
+async function discoverInstalledPackages(nodeModules: string): Promise<string[]> {
+  const entries: string[] = [];
+  const dirs: string[] = [];
+  for (const entry of await readdir(nodeModules, { withFileTypes: true }).catch(() => [])) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+    if (entry.name.startsWith('@')) {
+      for (const scoped of await readdir(join(nodeModules, entry.name), { withFileTypes: true }).catch(() => [])) {
+        if (scoped.isDirectory()) dirs.push(join(nodeModules, entry.name, scoped.name));
+      }
+    } else {
+      dirs.push(join(nodeModules, entry.name));
+    }
+  }
+
+  for (const dir of dirs) {
+    const pkg = await readPackageJson(dir);
+    if (pkg?.keywords?.includes(PLUGIN_PACKAGE_KEYWORD)) {
+      entries.push(join(dir, pkg.main || 'index.js'));
+    }
+  }
+  return entries;
+}
+
+/**
+ * Entry files of every plugin in the plugins directory, in load order
+ */
+async function discoverPluginEntries(pluginsDir: string): Promise<string[]> {
+  if (!existsSync(pluginsDir)) return [];
+
+  const entries: string[] = [];
+  const items = (await readdir(pluginsDir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+  for (const item of items) {
+    if (item.name.startsWith('.') || item.name === 'package.json' || item.name === 'package-lock.json') continue;
+    const path = join(pluginsDir, item.name);
+    if (item.isFile() && /\.(m?js)$/.test(item.name)) {
+      entries.push(path);
+    } else if (item.isDirectory() && item.name === 'node_modules') {
+      entries.push(...await discoverInstalledPackages(path));
+    } else if (item.isDirectory()) {
+      const entry = await packageEntry(path);
+      if (entry) entries.push(entry);
+    }
+  }
+  return entries;
+}
+
+// ===== LOADING =====
+
+function keywordPattern(keyword: string | RegExp): RegExp {
+  // A g/y RegExp keeps lastIndex between test() calls and would skip matches
+  if (keyword instanceof RegExp) return new RegExp(keyword.source, keyword.flags.replace(/[gy]/g, ''));
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`, 'i');
+}
+
+function validatePlugin(plugin: unknown): WorkPlugin {
+  const p = plugin as WorkPlugin | null;
+  if (!p || typeof p !== 'object' || typeof p.name !== 'string' || !p.name) {
+    throw new Error('Plugin must export an object (or a function returning one) with a name');
+  }
+
+  const seen = new Set<string>();
+  for (const t of p.tools || []) {
+    if (!TOOL_NAME_PATTERN.test(t?.name || '')) {
+      throw new Error(`Tool name "${t?.name}" must be snake_case`);
+    }
+    if (isBuiltinTool(t.name) || _handlers.has(t.name) || seen.has(t.name)) {
+      throw new Error(`Tool "${t.name}" is already defined`);
+    }
+    if (!t.description || typeof t.handler !== 'function' || typeof t.schema?.safeParse !== 'function') {
+      throw new Error(`Tool "${t.name}" needs a description, a zod object schema and a handler`);
+    }
+    seen.add(t.name);
+  }
+
+  if (p.promptModule && (typeof p.promptModule.content !== 'string' || !Array.isArray(p.promptModule.keywords))) {
+    throw new Error('promptModule needs content and a keywords array');
+  }
+  return p;
+}
+
+function registerPlugin(plugin: WorkPlugin, source: string): LoadedPlugin {
+  for (const t of plugin.tools || []) {
+    const access = t.access ?? 'write-external';
+    registerToolMetadata(
+      t.name,
+      { access, parallel: access === 'read' ? t.parallel : undefined, timeoutMs: t.timeoutMs, editableField: t.editableField },
+      { cache: access === 'read' ? t.cache : undefined, invalidates: t.invalidates }
+    );
+    _handlers.set(t.name, t);
+    _tools.push(tool(async () => '', { name: t.name, description: t.description, schema: t.schema }));
+  }
+
+  let promptModule: string | undefined;
+  if (plugin.promptModule) {
+    promptModule = `plugin:${plugin.name}`;
+    _prompts.push({
+      module: promptModule,
+      content: plugin.promptModule.content,
+      patterns: plugin.promptModule.keywords.map(keywordPattern),
+    });
+  }
+
+  return { name: plugin.name, source, tools: (plugin.tools || []).map(t => t.name), promptModule };
+}
+
+async function loadAll(): Promise<PluginLoadReport> {
+  const report: PluginLoadReport = { loaded: [], errors: [] };
+  const api: PluginApi = { z };
+
+  for (const entry of await discoverPluginEntries(getPluginsDir())) {
+    try {
+      const mod = await import(pathToFileURL(entry).href) as { default?: unknown; plugin?: unknown };
+      const exported = mod.default ?? mod.plugin;
+      const plugin = validatePlugin(typeof exported === 'function' ? await exported(api) : exported);
+      report.loaded.push(registerPlugin(plugin, entry));
+    } catch (error) {
+      report.errors.push({ source: entry, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return report;
+}
+
+/**
+ * Discover and register plugins (once per process - later calls return the first report)
+ */
+export function loadPlugins(): Promise<PluginLoadReport> {
+  if (!_loading) {
+    _loading = loadAll();
+  }
+  return _loading;
+}
+
+// ===== LOOKUP =====
+
+/**
+ * LangChain tool definitions for every registered plugin tool
+ */
+export function getPluginTools(): StructuredToolInterface[] {
+  return _tools;
+}
+
+export function isPluginTool(toolName: string): boolean {
+  return _handlers.has(toolName);
+}
+
+/**
+ * Run a plugin tool's handler with validated args
+ * Returns the raw output for the agent to classify (handler errors propagate)
+ */
+export async function executePluginTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  context: PluginToolContext
+): Promise<string | ToolResult> {
+  const pluginTool = _handlers.get(toolName);
+  if (!pluginTool) {
+    return toolFailure('unknown_tool', `Unknown plugin tool: ${toolName}`);
+  }
+
+  const parsed = pluginTool.schema.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'args'}: ${issue.message}`);
+    return toolFailure('invalid_input', `Invalid arguments for ${toolName}: ${issues.join('; ')}`);
+  }
+
+  const output = await pluginTool.handler(parsed.data as Record<string, unknown>, context);
+  if (typeof output === 'string') return output;
+  return JSON.stringify(output ?? { success: true });
+}
+
+/**
+ * Plugin prompt modules whose keywords match the message
+ */
+export function matchPluginPromptModules(message: string): string[] {
+  return _prompts.filter(p => p.patterns.some(pattern => pattern.test(message))).map(p => p.module);
+}
+
+/**
+ * Content of a plugin prompt module, or undefined for other module names
+ */
+export function getPluginPromptModuleContent(module: string): string | undefined {
+  return _prompts.find(p => p.module === module)?.content;
+}
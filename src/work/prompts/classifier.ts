@@ -1,8 +1,10 @@
 // Intent classifier for dynamic prompt injection
 // Uses minimal LLM call to determine what prompt modules are needed
 
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { PromptModule } from './modules/index.js';
+import { getChatModelSpec } from '../providers/index.js';
+import { recordModelUsage } from '../providers/usage.js';
 
 export interface ClassificationResult {
   intent: 'greeting' | 'task_query' | 'code_task' | 'investigation' | 'api_query' | 'general';
@@ -53,7 +55,7 @@ const CACHE_TTL_MS = 60 * 1000; // 1 minute cache
  */
 export async function classifyIntent(
   message: string,
-  model?: ChatGoogleGenerativeAI
+  model?: BaseChatModel
 ): Promise<ClassificationResult> {
   // Check cache first
   const cacheKey = message.toLowerCase().trim();
@@ -77,6 +79,10 @@ export async function classifyIntent(
 
   try {
     const response = await model.invoke(CLASSIFIER_PROMPT + message);
+    const spec = getChatModelSpec(model);
+    if (spec) {
+      recordModelUsage(spec, 'classifier', response);
+    }
     const content = typeof response.content === 'string' 
       ? response.content 
       : JSON.stringify(response.content);
@@ -30,6 +30,19 @@ LOG ANALYSIS (CRITICAL - USE THIS):
 - Look for structured data in logs: duration, statusCode, path, method, timestamps
 - Example: analyze_logs_structured("TARGET_SERVICE_LOAD_ANALYSIS/logs/service_requests.json")
 
+APM TRACES (latency = spans, not logs):
+- datadog_search_traces(service, resource, status="error", minDurationMs=2000, from, to) - find slow/failed requests
+- datadog_get_trace(traceId) - flame summary: where the time went, self time by service, repeated calls (N+1)
+- Only have a request_id? datadog_get_trace(requestId=...) finds the trace_id in that request's logs
+- datadog_search_error_issues(service, groupBy="error_type") - Error Tracking issues, most frequent first
+
+MONITORS, DOWNTIMES & SLOs:
+- datadog_get_monitor_history(monitorId) - state transitions; flapping = many Triggered/Recovered pairs
+- datadog_mute_monitor(monitorId, scope="env:staging", end="2h") - ALWAYS set end unless the user says otherwise
+- datadog_unmute_monitor, datadog_schedule_downtime, datadog_cancel_downtime, datadog_list_downtimes
+- Mutes and downtimes are confirmed by the user every time and logged to the active investigation
+- datadog_get_slo_status(sloId, window="1h") - burn rate > 1 means the error budget runs out early
+
 DON'T:
 - Search without from/to for historical alerts
 - Keep retrying same failed query
@@ -61,9 +61,16 @@ export function getHeuristicModules(message: string): HeuristicResult {
     signals.push('github-related');
   }
   
+  // GitHub write signals - opening, reviewing, replying to or merging PRs
+  if (/\b(open|create|merge|approve|reply|respond|resolve|request)\b.*\b(pr|pull request|review|comments?|reviewers?)\b/i.test(message)) {
+    modules.push('github_examples');
+    signals.push('github-write');
+  }
+  
   // Investigation signals - require STRONG indicators, not just "error" anywhere
   const investigationPatterns = [
     /\b(alert|incident|outage)\b/i,      // Strong: these specifically mean investigation
+    /\bfirehydrant\b/i,                    // Strong: explicit FireHydrant mention
     /\bdatadog\b/i,                        // Strong: explicit Datadog mention
     /(search|query).*logs/i,               // Strong: explicitly asking for logs
     /\binvestigat(e|ion)\b/i,              // Strong: explicit investigation request
@@ -39,8 +39,8 @@ import { getHeuristicModules } from './heuristics.js';
 export type ContextType = 'cursor' | 'investigation' | 'datadog' | 'pdp' | 'infra' | 'pr_tracking' | 'task_executor' | 'linkedin_cv';
 
 // Re-export classifier types
-export { classifyIntent, ClassificationResult } from './classifier.js';
-export { PromptModule } from './modules/index.js';
+export { classifyIntent, type ClassificationResult } from './classifier.js';
+export { type PromptModule } from './modules/index.js';
 export { getHeuristicModules } from './heuristics.js';
 
 /**
@@ -67,7 +67,7 @@ export function detectContextTypes(message: string): ContextType[] {
   }
   
   // Investigation context - only if not cursor-focused
-  if (/\b(alert|incident|investigate|investigation|outage|error rate|success rate)\b/i.test(lower)) {
+  if (/\b(alert|incident|investigate|investigation|outage|error rate|success rate|paged|paging|on.?call|pagerduty|opsgenie)\b/i.test(lower)) {
     types.push('investigation');
   }
   
@@ -82,7 +82,7 @@ export function detectContextTypes(message: string): ContextType[] {
   }
   
   // PR tracking context
-  if (/\b(watch.*pr|pr.*watch|ci|cicd|ci\/cd|pipeline|check.*pr|pr.*check|circleci|github.?actions|squash|pr.?#?\d+|poll.*pr|verify.*pr|monitor.*pr|track.*pr)\b/i.test(lower)) {
+  if (/\b(watch.*pr|pr.*watch|ci|cicd|ci\/cd|pipeline|check.*pr|pr.*check|circleci|github.?actions|flaky|rebase|merge.?conflicts?|squash|pr.?#?\d+|poll.*pr|verify.*pr|monitor.*pr|track.*pr)\b/i.test(lower)) {
     types.push('pr_tracking');
   }
   
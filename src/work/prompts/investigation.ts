@@ -11,7 +11,7 @@ BEFORE STARTING INVESTIGATION:
 
 When investigating an alert/incident:
 1. start_investigation(name, alertContent) - creates workspace
-2. Search relevant sources (Datadog, JIRA, Confluence, FireHydrant)
+2. Search relevant sources (Datadog, JIRA, Confluence, FireHydrant, PagerDuty/Opsgenie)
 3. SAVE logs to files - don't just display them
 4. Look for request_id/trace_id and search for correlated logs
 5. add_finding to record discoveries
@@ -23,6 +23,26 @@ TOOLS:
 - datadog_multi_search: Multiple queries at once
 - add_finding: Record discoveries
 
+FIREHYDRANT INCIDENTS:
+- Pass incidentId to start_investigation (or include the incident URL in alertContent) - the timeline lands in incident-timeline.md
+- firehydrant_incident_changes(incidentId) - "what changed since I last looked" (severity, milestone, roles, new events)
+- firehydrant_get_timeline, firehydrant_get_roles, firehydrant_get_runbooks - read incident state and runbook steps
+- Updates need approval: firehydrant_add_note, firehydrant_assign_role(incidentId, "Incident Commander", "me"),
+  firehydrant_update_incident(incidentId, milestone="mitigated" and/or severity="SEV2")
+
+ON-CALL PAGES (PagerDuty, or Opsgenie):
+- Pass pageId to start_investigation (or include the page URL in alertContent) - the page and its notes land in page.md
+- oncall_who_is_on_call(schedule) - who to loop in; oncall_list_pages - open (triggered/acknowledged) pages
+- oncall_get_page(pageId) - status, assignees, who acknowledged, notes
+- Acknowledge/resolve always ask the user first: oncall_acknowledge_page(pageId, note), oncall_resolve_page(pageId, resolution)
+- oncall_add_note(pageId, content) - post findings back to the page for whoever is on call
+
+POSTMORTEM DOCS (Confluence):
+- Iterate on the existing page - don't create a new one each time. confluence_get_page gives the current version.
+- confluence_update_page(pageId, content, mode="replace_section", section="Timeline", expectedVersion=N) - update one section
+- On a version conflict: confluence_diff_versions(pageId) to see the other edit, then retry on the new version
+- confluence_get_comments + confluence_reply_to_comment to answer review feedback; confluence_update_labels for "postmortem" etc.
+
 METRIC REASONING:
 - "Success Rate TO X" → measured at CALLER side, search gateway/ingress logs
 - "Error Rate IN X" → measured at SERVICE side, search X's logs
@@ -1,4 +1,4 @@
-// GitHub workflow examples (~250 tokens)
+// GitHub workflow examples (~400 tokens)
 
 export const githubExamplesModule = `
 EXAMPLES - GITHUB WORKFLOWS:
@@ -31,13 +31,25 @@ You:
   5. analyze_logs_structured(logFilePath)
 Result: Found root cause - missing mock for new API endpoint
 
-Example 3: Push Branch (PR Created Separately)
-User: "Push my branch feature/timeout-retries"
+Example 3: Push Branch and Open PR
+User: "Push my branch feature/timeout-retries and open a draft PR"
 You:
-  1. git_push("origin", "feature/timeout-retries")
-  2. See: Successfully pushed to origin/feature/timeout-retries
-  3. Provide user with command: "gh pr create --title 'Add timeout retries' --body '...'"
-Result: Branch pushed, user can create PR via GitHub CLI or web UI
+  1. git_push(repoPath="CLONED_REPOS/my-service", branch="feature/timeout-retries")
+  2. github_create_pr("https://github.com/acme/my-service", head="feature/timeout-retries",
+       title="Add timeout retries", body="## Summary\n...", draft=true)
+  3. github_request_reviewers(..., reviewers=["alice"]) if the user named reviewers
+Result: Draft PR opened; github_update_pr(draft=false) marks it ready for review
+
+Example 4: Address Review Comments
+User: "Reply to the review comments on PR 5678 and resolve the ones that are fixed"
+You:
+  1. github_get_pr_comments("https://github.com/acme/my-service", 5678)
+  2. See: reviewComments with id, thread_id, resolved=false
+  3. github_reply_to_review_comment(..., commentId=<id>, body="Fixed in abc123 - added the null check")
+  4. github_resolve_review_thread(..., threadId=<thread_id>)
+Result: Each addressed thread answered and resolved; open questions left for the user
+
+Merging: github_get_pr_checks first, then github_merge_pr(method="squash") only when asked
 `;
 
 
@@ -9,6 +9,12 @@ API TOOLS:
 - github_list_prs, github_get_pr, github_get_pr_comments
 - firehydrant_search_incidents
 
+JIRA UPDATES (need user approval - only when asked or part of an agreed workflow):
+- jira_transition_ticket(ticketKey, "In Review") - status or transition name; jira_get_transitions lists options
+- jira_assign_ticket(ticketKey, "me") - omit assignee to unassign
+- jira_update_fields - labels (addLabels/removeLabels keep the rest), storyPoints, priority, dueDate
+- jira_log_work(ticketKey, "1h 30m"), jira_link_tickets(A, "blocks", B), jira_create_subtask(parentKey, summary)
+
 JIRA SEARCH:
 - Scope: project = PROJ AND text ~ "keyword" (not just text ~ "keyword")
 - Filter by team labels for team-specific issues
@@ -12,23 +12,35 @@ TOOLS:
 - pr_watch_start: Start watching PR
   → Clones repo, checks out PR branch
   → Polls CI status every 45 seconds
-  → On failure: auto-invoke Cursor to fix and commit
+  → On failure: auto-invoke the coding agent to fix and commit
   → On success: offer to squash commits
 - pr_watch_stop: Stop watching
 - pr_watch_status: Check current session
-- pr_provide_logs: Provide manual CI logs (CircleCI when not accessible)
+- pr_provide_logs: Provide manual CI logs (when they could not be fetched)
 - pr_squash_commits: Squash commits since watch started (after CI passes)
+- pr_flaky_checks: A repo's CI flakiness history (failures per check/test, re-run outcomes)
+- pr_watch_configure: Per-repo branch update strategy (rebase/merge/off) and local check commands
 - github_get_pr_checks: Get CI status without starting watch
+- coding_agent_status / coding_agent_set: Which coding agent fixes failures (cursor, aider, command, in-process) per workstream/repo/default
+
+FLAKY FAILURES:
+- Failures unrelated to the diff that pass on the base branch, or known to flake, are re-run via the CI API instead of fixed
+- A re-run that fails again on the same commit goes to the coding agent as usual
+
+BASE BRANCH UPDATES:
+- A PR that falls behind or conflicts with its base is rebased onto it (or the base merged in) in the PR's clone
+- Conflicted hunks go to the coding agent; the repo's check commands run locally before a --force-with-lease push
+- Skipped while another tool holds the branch lock; a failed update is rolled back and not retried until the base or PR moves
 
 HYBRID FIX STRATEGY:
-1. First: Direct Cursor with templated prompt (no LLM)
+1. First: Direct coding agent with templated prompt (no LLM)
 2. Second: LLM analyzes failure more carefully if still failing
 3. Third: Ask user for manual logs or guidance
 
-CIRCLECI SUPPORT:
-- CircleCI doesn't expose logs via GitHub API
-- System tries to fix based on step/job name
-- If doesn't work, asks you to paste CircleCI logs
+CI LOGS:
+- Failed job logs are fetched (GitHub Actions, GitLab CI, CircleCI with CIRCLECI_TOKEN)
+- The fix prompt gets the failing step's error section plus parsed jest/pytest/go test/tsc/eslint failures
+- If CircleCI logs can't be fetched, asks you to paste them
 
 IMPORTANT:
 - Only one PR watched at a time
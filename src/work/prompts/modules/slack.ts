@@ -14,6 +14,12 @@ CRITICAL FIRST STEP:
 
 NEVER skip this check! All other Slack tools (navigate, read, send) require the browser to be open first.
 
+WEB API BACKEND (slack_status shows backend: "api"):
+- A Slack token is configured - there is no browser, login or scrolling. slack_open_browser succeeds immediately.
+- Messages from slack_read_messages carry a stable ts - pass ts (not messageIndex) to slack_reply, slack_react,
+  slack_read_thread and slack_get_message_url. Older messages: slack_read_messages(before=<oldest ts>).
+- slack_search_messages searches the whole workspace ("in:#channel from:@name after:2024-06-01").
+
 WORKFLOW FOR EVERY SLACK REQUEST:
 Step 1: slack_status() 
 Step 2: If not open → slack_open_browser() → Tell user "Opening browser window..." 
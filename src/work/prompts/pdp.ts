@@ -4,7 +4,9 @@ export const pdpContext = `
 === PERSONAL DEVELOPMENT PLAN (PDP) ===
 
 - set_pdp_google_doc: Link a Google Doc containing the PDP
-- sync_pdp: Fetch latest content and comments
+- sync_pdp: Fetch latest content and comments (new comments include their id)
+- post_pdp_progress: Append a dated progress update to the PDP doc
+- google_docs_reply_comment / google_docs_resolve_comment: Answer feedback comments on the doc
 - get_pdp_summary: See goals, progress, feedback
 - add_pdp_goal, update_pdp_goal, list_pdp_goals
 
@@ -18,6 +20,7 @@ Track accomplishments across JIRA, Confluence, GitHub:
 - collect_jira_achievements, collect_confluence_achievements: Auto-scan
 - get_achievements_summary: View by period
 - export_achievements: Export for reviews
+- write_brag_doc: Write the summary to Google Docs (appends to the same brag doc on later runs)
 
 Categories: delivery, documentation, collaboration, leadership, technical, incident, learning
 
@@ -26,7 +29,9 @@ WORKFLOW:
 2. collect_jira_achievements, collect_confluence_achievements
 3. add_achievement for manual items
 4. link_achievement_to_goal to connect to PDP
-5. export_achievements before reviews
+5. export_achievements or write_brag_doc before reviews
+
+Google Docs writes need \`hn work-google-login\` (a one-time browser login; tokens refresh automatically).
 `;
 
 
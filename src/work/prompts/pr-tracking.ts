@@ -16,7 +16,7 @@ You have access to PR tracking tools that can automatically monitor and fix CI f
 - **pr_watch_start**: Start watching a PR. The system will:
   1. Create an isolated workspace for the PR (separate clone per PR)
   2. Poll CI status every 30 seconds in the background
-  3. On failure: automatically invoke Cursor to fix and commit
+  3. On failure: automatically invoke the coding agent (Cursor, Aider, a command, or you in-process) to fix and commit
   4. On success: offer to squash commits
   5. **Smart switching**: When waiting for CI on one PR, automatically work on another
 
@@ -29,7 +29,7 @@ You have access to PR tracking tools that can automatically monitor and fix CI f
   - Indicates current focus (which PR is being worked on)
   - Shows status of each PR (watching, fixing, waiting_for_ci, etc.)
 
-- **pr_provide_logs**: Provide manual CI logs (for CircleCI when logs aren't accessible)
+- **pr_provide_logs**: Provide manual CI logs (when they couldn't be fetched, e.g. CircleCI without CIRCLECI_TOKEN)
   - Requires sessionId to specify which PR session needs the logs
 
 - **pr_squash_commits**: Squash all commits since watch started (after CI passes)
@@ -37,6 +37,12 @@ You have access to PR tracking tools that can automatically monitor and fix CI f
 
 - **github_get_pr_checks**: Get CI check status for a PR without starting a watch
 
+- **pr_flaky_checks**: A repo's CI flakiness history - how often each check/test failed, on which PRs, and how re-runs went
+
+- **pr_watch_configure**: How a repo's watched PRs are kept up to date with their base - off (default), rebase or merge - and the check commands run locally after conflicts are resolved
+
+- **coding_agent_status** / **coding_agent_set**: Which coding agent makes the fixes - per workstream, per repo, or default (e.g. aider or in-process where Cursor isn't installed)
+
 ### Multi-PR Queue Management
 
 The system automatically manages multiple PRs:
@@ -54,19 +60,40 @@ The system automatically manages multiple PRs:
 **Workspace Isolation**:
 - Each PR gets its own isolated clone: \`WORK_DIRS/CLONED_REPOS/{repo}-pr-{number}\`
 - This eliminates branch confusion completely
-- Branch verification before every Cursor invocation
+- Branch verification before every coding agent invocation
+
+### Flaky Failures
+
+Before any fix, a failure is checked for flakiness:
+- It mentions none of the files the PR changes, and the same check passes on the base branch, or
+- The repo's history says it flakes (it went green on a re-run before, or its tests failed on several other PRs)
+
+Flaky failures are re-run through the CI's API (GitHub Actions, GitLab CI, CircleCI) instead of being fixed - no commit is made.
+If the re-run fails again on the same commit, it goes to the coding agent as usual. Type and lint errors are never treated as flaky.
+
+### Base Branch Updates
+
+When the base branch moves on and the PR is behind (required to be up to date) or conflicts with it:
+- The PR's clone is rebased onto the base, or the base is merged in (per pr_watch_configure)
+- Conflicted hunks are handed to the coding agent; once no markers remain, the repo's configured check commands run locally
+- The result is pushed with \`--force-with-lease\`, so commits pushed by someone else in the meantime are never overwritten
+- The update holds the branch lock; if another tool has the branch locked, it waits for a later poll
+- A failed update (agent could not resolve, checks failed) is rolled back and reported, and not retried until the base or the PR changes
 
 ### Hybrid Fix Strategy
 
 The system uses a token-efficient hybrid approach:
 
-1. **First attempt**: Direct Cursor invocation with templated prompt (no LLM involved)
+1. **First attempt**: Direct coding agent invocation with templated prompt (no LLM involved)
 2. **Second attempt**: If still failing, LLM analyzes the failure more carefully
 3. **Third attempt**: Ask user for manual logs or guidance
 
-### CircleCI Support
+### CI Logs
+
+Failed job logs are fetched automatically - GitHub Actions and GitLab CI through the forge's API, CircleCI through its own API (needs CIRCLECI_TOKEN).
+The fix prompt gets the failing step's error section and the failures parsed from it (jest, pytest, go test, tsc, eslint).
 
-CircleCI doesn't expose logs via GitHub's API. The system will:
+If CircleCI logs can't be fetched, the system will:
 1. Try to fix based on the step/job name that failed
 2. If that doesn't work, ask you to paste the CircleCI logs using \`pr_provide_logs\`
 
@@ -109,6 +136,7 @@ Use \`pr_watch_start\` instead - it polls every 30 seconds until:
 - **Automatic context switching**: System intelligently switches focus based on CI state
 - **Workspace isolation**: Each PR has its own clone to prevent branch confusion
 - **Persistent polling**: The polling continues even between agent conversations
+- **Survives restarts**: Watches are journaled to disk and resumed on startup (same sessionIds, fix history kept); merged/closed PRs are dropped, and a local branch that diverged from the remote is left awaiting the user
 - **Session IDs**: Always use sessionId when interacting with specific PRs after starting watch
 - The system operates on each PR's branch - it will push fixes directly
 - Always confirm before squashing (this does a force push)
@@ -23,7 +23,7 @@ Use \`task_execute_start\` when the user says things like:
 2. **Execution**: The system will:
    - Analyze the task (detect if it's a JIRA ticket or PR)
    - Clone the repo and create/checkout branch
-   - Send to Cursor for implementation
+   - Send to the coding agent for implementation (coding_agent_set picks Cursor, Aider, a command, or in-process)
    - Create PR (for JIRA) or push fixes (for existing PR)
    - Monitor CI until green using PR tracking
 
@@ -0,0 +1,242 @@
+// LLM Provider Layer
+// Single entry point for creating chat models across providers.
+// Model specs are "provider:model" strings (e.g. "openai:gpt-4o", "local:llama3.1").
+// Bare model names are inferred (gemini-*, gpt-*, claude-*) and default to Gemini.
+
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import type { UsageSource } from '../storage/usage.js';
+import { recordModelUsage } from './usage.js';
+
+export type ProviderId = 'gemini' | 'openai' | 'anthropic' | 'local';
+
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'anthropic', 'local'];
+
+export interface ModelSpec {
+  provider: ProviderId;
+  model: string;
+}
+
+export interface ChatModelOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Usage accounting label for text models (default: 'standard')
+  usageSource?: UsageSource;
+}
+
+/**
+ * Minimal text-generation interface shaped like the @google/generative-ai model,
+ * so existing `generateContent(prompt)` call sites work with any provider
+ */
+export interface TextModel {
+  spec: ModelSpec;
+  generateContent(prompt: string): Promise<{ response: { text(): string } }>;
+}
+
+// Aliases accepted in the provider prefix
+const PROVIDER_ALIASES: Record<string, ProviderId> = {
+  gemini: 'gemini',
+  google: 'gemini',
+  openai: 'openai',
+  anthropic: 'anthropic',
+  claude: 'anthropic',
+  local: 'local',
+  ollama: 'local',
+  llamacpp: 'local',
+  'llama.cpp': 'local',
+};
+
+// Default local server: Ollama's OpenAI-compatible endpoint.
+// llama.cpp's server listens on http://localhost:8080/v1 by default.
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Infer the provider for a bare model name
+ */
+function inferProvider(model: string): ProviderId {
+  const lower = model.toLowerCase();
+  if (lower.startsWith('claude')) return 'anthropic';
+  if (/^(gpt-|o1|o3|o4|chatgpt)/.test(lower)) return 'openai';
+  return 'gemini';
+}
+
+/**
+ * Parse a model spec string ("provider:model" or a bare model name)
+ */
+export function parseModelSpec(spec: string): ModelSpec {
+  const trimmed = spec.trim();
+  const colonIndex = trimmed.indexOf(':');
+
+  if (colonIndex > 0) {
+    const prefix = trimmed.substring(0, colonIndex).toLowerCase();
+    const provider = PROVIDER_ALIASES[prefix];
+    if (provider) {
+      const model = trimmed.substring(colonIndex + 1).trim();
+      if (!model) {
+        throw new Error(`Model spec "${spec}" is missing a model name`);
+      }
+      return { provider, model };
+    }
+    // Not a known prefix - treat the whole string as a model name (e.g. "llama3.1:8b" tags)
+  }
+
+  return { provider: inferProvider(trimmed), model: trimmed };
+}
+
+export function formatModelSpec(spec: ModelSpec): string {
+  return `${spec.provider}:${spec.model}`;
+}
+
+/**
+ * Check whether a provider has the credentials it needs
+ * The local provider is always considered configured (no key required)
+ */
+export function isProviderConfigured(provider: ProviderId): boolean {
+  switch (provider) {
+    case 'gemini':
+      return !!process.env.GEMINI_API_KEY;
+    case 'openai':
+      return !!process.env.OPENAI_API_KEY;
+    case 'anthropic':
+      return !!process.env.ANTHROPIC_API_KEY;
+    case 'local':
+      return true;
+  }
+}
+
+export function getProviderConfigStatus(): Record<ProviderId, { configured: boolean; hint: string }> {
+  return {
+    gemini: {
+      configured: isProviderConfigured('gemini'),
+      hint: 'Set GEMINI_API_KEY',
+    },
+    openai: {
+      configured: isProviderConfigured('openai'),
+      hint: 'Set OPENAI_API_KEY (and OPENAI_BASE_URL for OpenAI-compatible endpoints)',
+    },
+    anthropic: {
+      configured: isProviderConfigured('anthropic'),
+      hint: 'Set ANTHROPIC_API_KEY',
+    },
+    local: {
+      configured: true,
+      hint: `Set LOCAL_LLM_BASE_URL (default: ${DEFAULT_LOCAL_BASE_URL})`,
+    },
+  };
+}
+
+function requireEnv(name: string, provider: ProviderId): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} not found in environment (required for ${provider} models)`);
+  }
+  return value;
+}
+
+// Spec each model was created from, for usage accounting
+const chatModelSpecs = new WeakMap<BaseChatModel, ModelSpec>();
+
+/**
+ * Spec a chat model was created from (undefined for models not made by createChatModel)
+ */
+export function getChatModelSpec(model: BaseChatModel): ModelSpec | undefined {
+  return chatModelSpecs.get(model);
+}
+
+/**
+ * Create a LangChain chat model for a spec
+ * Accepts either a spec string or a parsed ModelSpec
+ */
+export function createChatModel(spec: string | ModelSpec, options: ChatModelOptions = {}): BaseChatModel {
+  const parsed = typeof spec === 'string' ? parseModelSpec(spec) : spec;
+  const chatModel = instantiateChatModel(parsed, options);
+  chatModelSpecs.set(chatModel, parsed);
+  return chatModel;
+}
+
+function instantiateChatModel({ provider, model }: ModelSpec, options: ChatModelOptions): BaseChatModel {
+  const temperature = options.temperature ?? 0.3;
+
+  switch (provider) {
+    case 'gemini':
+      return new ChatGoogleGenerativeAI({
+        model,
+        apiKey: requireEnv('GEMINI_API_KEY', provider),
+        temperature,
+        maxOutputTokens: options.maxOutputTokens,
+      });
+
+    case 'openai':
+      return new ChatOpenAI({
+        model,
+        apiKey: requireEnv('OPENAI_API_KEY', provider),
+        temperature,
+        maxTokens: options.maxOutputTokens,
+        configuration: process.env.OPENAI_BASE_URL
+          ? { baseURL: process.env.OPENAI_BASE_URL }
+          : undefined,
+      });
+
+    case 'anthropic':
+      return new ChatAnthropic({
+        model,
+        apiKey: requireEnv('ANTHROPIC_API_KEY', provider),
+        temperature,
+        // Anthropic requires max_tokens on every request
+        maxTokens: options.maxOutputTokens ?? 8192,
+        anthropicApiUrl: process.env.ANTHROPIC_BASE_URL,
+      });
+
+    case 'local':
+      // llama.cpp and Ollama both expose an OpenAI-compatible API
+      return new ChatOpenAI({
+        model,
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        temperature,
+        maxTokens: options.maxOutputTokens,
+        configuration: {
+          baseURL: process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        },
+      });
+  }
+}
+
+/**
+ * Flatten a chat model response's content into plain text
+ */
+export function extractText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((block: unknown) => {
+        if (typeof block === 'string') return block;
+        if (block && typeof block === 'object' && 'text' in block) {
+          return String((block as { text?: unknown }).text ?? '');
+        }
+        return '';
+      })
+      .filter(Boolean)
+      .join('');
+  }
+  return '';
+}
+
+/**
+ * Create a text model with a generateContent() method for simple prompt → text calls
+ */
+export function createTextModel(spec: string | ModelSpec, options: ChatModelOptions = {}): TextModel {
+  const parsed = typeof spec === 'string' ? parseModelSpec(spec) : spec;
+  const chatModel = createChatModel(parsed, options);
+
+  return {
+    spec: parsed,
+    async generateContent(prompt: string) {
+      const result = await chatModel.invoke(prompt);
+      recordModelUsage(parsed, options.usageSource ?? 'standard', result);
+      const text = extractText(result.content);
+      return { response: { text: () => text } };
+    },
+  };
+}
@@ -0,0 +1,62 @@
+// Model prices for usage accounting
+// Defaults are list prices (USD per million tokens) at the time of writing and will drift -
+// override them with /usage price <model> <input> <output>, which is stored in preferences.
+
+import { ModelPrice } from '../storage/preferences.js';
+import { ModelSpec } from './index.js';
+
+// Matched by model name prefix, longest prefix wins
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro': { input: 2, output: 12 },
+  'gemini-3-flash': { input: 0.5, output: 3 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'o3': { input: 2, output: 8 },
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+};
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+function findByPrefix(prices: Record<string, ModelPrice>, name: string): ModelPrice | undefined {
+  const match = Object.keys(prices)
+    .filter(prefix => name.startsWith(prefix.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+}
+
+/**
+ * Price for a model: user overrides (by "provider:model" or model prefix) first, then defaults
+ * Local models are free; unknown models return undefined so reports can flag them
+ */
+export function resolveModelPrice(
+  spec: ModelSpec,
+  overrides: Record<string, ModelPrice> = {}
+): ModelPrice | undefined {
+  const model = spec.model.toLowerCase();
+  const override = overrides[`${spec.provider}:${spec.model}`] ?? findByPrefix(overrides, model);
+  if (override) return override;
+  if (spec.provider === 'local') return FREE;
+  return findByPrefix(DEFAULT_MODEL_PRICES, model);
+}
+
+/**
+ * Cost in USD of one call's tokens
+ */
+export function estimateCost(price: ModelPrice, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
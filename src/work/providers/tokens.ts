@@ -0,0 +1,121 @@
+// Token counting and context windows per model
+// Counts with a local BPE tokenizer (no network). OpenAI models use their own encoding;
+// Gemini and Claude tokenizers are not available offline, so their counts use o200k_base
+// scaled up by a conservative correction factor - budgeting errs on the side of compacting early.
+
+import type { Tiktoken } from 'js-tiktoken/lite';
+import { ModelSpec } from './index.js';
+
+export type TokenCounter = (text: string) => number;
+
+type EncodingName = 'o200k_base' | 'cl100k_base';
+
+// Approximate ratio of provider tokens to o200k_base tokens (over-estimates are safe)
+const TOKENIZER_CORRECTION: Record<ModelSpec['provider'], number> = {
+  openai: 1,
+  local: 1,
+  gemini: 1.1,
+  anthropic: 1.2,
+};
+
+// Context windows by model name prefix (first match wins)
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^gpt-4\.1/, 1_047_576],
+  [/^gpt-5/, 400_000],
+  [/^(o1|o3|o4)/, 200_000],
+  [/^(gpt-4o|gpt-4-turbo|chatgpt)/, 128_000],
+  [/^gpt-4/, 8_192],
+  [/^gpt-3\.5/, 16_385],
+];
+
+const PROVIDER_CONTEXT_WINDOWS: Record<ModelSpec['provider'], number> = {
+  gemini: 1_048_576,
+  openai: 128_000,
+  anthropic: 200_000,
+  local: 8_192,
+};
+
+// Room left for the model's reply - at most a quarter of the window, so small (local) windows keep a usable prompt budget
+const OUTPUT_RESERVE_TOKENS = 8_192;
+
+// Even with a 1M window, very long prompts are slow and expensive - cap the working budget
+const DEFAULT_MAX_CONTEXT_TOKENS = 200_000;
+
+const _encoders = new Map<EncodingName, Promise<Tiktoken>>();
+
+function getEncodingName(spec: ModelSpec): EncodingName {
+  if (spec.provider === 'openai' && /^(gpt-4(?!o|\.1)|gpt-3\.5)/.test(spec.model.toLowerCase())) {
+    return 'cl100k_base';
+  }
+  return 'o200k_base';
+}
+
+// Ranks are ~2MB of data - load each encoding once, on first use
+function loadEncoder(name: EncodingName): Promise<Tiktoken> {
+  let encoder = _encoders.get(name);
+  if (!encoder) {
+    encoder = (async () => {
+      const { Tiktoken } = await import('js-tiktoken/lite');
+      const ranks = name === 'cl100k_base'
+        ? (await import('js-tiktoken/ranks/cl100k_base')).default
+        : (await import('js-tiktoken/ranks/o200k_base')).default;
+      return new Tiktoken(ranks);
+    })();
+    _encoders.set(name, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Rough estimate used before the tokenizer is loaded (4 chars ≈ 1 token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Get a token counter for a model
+ * Falls back to the character estimate if the tokenizer cannot be loaded
+ */
+export async function getTokenCounter(spec: ModelSpec): Promise<TokenCounter> {
+  const correction = TOKENIZER_CORRECTION[spec.provider];
+  try {
+    const encoder = await loadEncoder(getEncodingName(spec));
+    // Special tokens in tool output (e.g. "<|endoftext|>") are counted as plain text
+    return (text: string) => Math.ceil(encoder.encode(text, [], []).length * correction);
+  } catch {
+    return estimateTokens;
+  }
+}
+
+/**
+ * Context window size for a model (WORK_CONTEXT_WINDOW overrides, LOCAL_LLM_CONTEXT_TOKENS for local models)
+ */
+export function getContextWindow(spec: ModelSpec): number {
+  const override = parseInt(process.env.WORK_CONTEXT_WINDOW || '', 10);
+  if (override > 0) return override;
+
+  if (spec.provider === 'local') {
+    const local = parseInt(process.env.LOCAL_LLM_CONTEXT_TOKENS || '', 10);
+    return local > 0 ? local : PROVIDER_CONTEXT_WINDOWS.local;
+  }
+
+  if (spec.provider === 'openai') {
+    const lower = spec.model.toLowerCase();
+    const match = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(lower));
+    if (match) return match[1];
+  }
+
+  return PROVIDER_CONTEXT_WINDOWS[spec.provider];
+}
+
+/**
+ * Max prompt tokens for a model after reserving room for the reply and fixed overhead
+ * (tool schemas). WORK_CONTEXT_BUDGET raises or lowers the default cap.
+ */
+export function getPromptTokenLimit(spec: ModelSpec, reservedTokens: number = 0): number {
+  const cap = parseInt(process.env.WORK_CONTEXT_BUDGET || '', 10) || DEFAULT_MAX_CONTEXT_TOKENS;
+  const window = getContextWindow(spec);
+  const available = window - Math.min(OUTPUT_RESERVE_TOKENS, Math.floor(window / 4)) - reservedTokens;
+  return Math.max(Math.min(available, cap), 1_024);
+}
@@ -0,0 +1,109 @@
+// Model usage capture
+// Reads provider-reported token counts off model responses and logs them with attribution.
+// The workstream and tool come from an async context, so helpers deep inside a tool
+// (extractors, drafting models) are attributed without threading ids through every call.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ModelSpec } from './index.js';
+import { appendUsageRecords, ModelUsageRecord, UsageSource } from '../storage/usage.js';
+
+export interface UsageContext {
+  workstreamId?: string;
+  tool?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * Run fn with usage attribution (merged over any outer context)
+ */
+export function withUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn);
+}
+
+/**
+ * Current attribution (empty outside any context)
+ */
+export function getUsageContext(): UsageContext {
+  return usageContext.getStore() || {};
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Token counts from a model response
+ * Handles LangChain usage_metadata, older response_metadata shapes, and the
+ * @google/generative-ai SDK's usageMetadata. Returns null if the provider reported nothing.
+ */
+export function getTokenUsage(response: unknown): TokenUsage | null {
+  if (!response || typeof response !== 'object') return null;
+  const r = response as {
+    usage_metadata?: { input_tokens?: number; output_tokens?: number };
+    response_metadata?: {
+      tokenUsage?: { promptTokens?: number; completionTokens?: number };
+      usage?: { input_tokens?: number; output_tokens?: number };
+    };
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+  };
+
+  const usage: TokenUsage | null =
+    r.usage_metadata ? {
+      promptTokens: toCount(r.usage_metadata.input_tokens),
+      completionTokens: toCount(r.usage_metadata.output_tokens),
+    } : r.response_metadata?.tokenUsage ? {
+      promptTokens: toCount(r.response_metadata.tokenUsage.promptTokens),
+      completionTokens: toCount(r.response_metadata.tokenUsage.completionTokens),
+    } : r.response_metadata?.usage ? {
+      promptTokens: toCount(r.response_metadata.usage.input_tokens),
+      completionTokens: toCount(r.response_metadata.usage.output_tokens),
+    } : r.usageMetadata ? {
+      promptTokens: toCount(r.usageMetadata.promptTokenCount),
+      completionTokens: toCount(r.usageMetadata.candidatesTokenCount),
+    } : null;
+
+  return usage && (usage.promptTokens > 0 || usage.completionTokens > 0) ? usage : null;
+}
+
+/**
+ * Log the usage of one model call (fire-and-forget)
+ * With several tools, the tokens are split evenly between them so per-tool totals add up.
+ */
+export function recordModelUsage(
+  spec: ModelSpec,
+  source: UsageSource,
+  response: unknown,
+  tools?: string[]
+): void {
+  const usage = getTokenUsage(response);
+  if (!usage) return;
+
+  const context = getUsageContext();
+  const base = {
+    timestamp: Date.now(),
+    model: `${spec.provider}:${spec.model}`,
+    source,
+    workstreamId: context.workstreamId,
+  };
+
+  const attributed = tools && tools.length > 0 ? tools : [context.tool];
+  const records: ModelUsageRecord[] = attributed.map((tool, i) => {
+    // Give the rounding remainder to the first tool
+    const share = (total: number) => Math.floor(total / attributed.length) + (i === 0 ? total % attributed.length : 0);
+    return {
+      ...base,
+      tool,
+      promptTokens: share(usage.promptTokens),
+      completionTokens: share(usage.completionTokens),
+      calls: attributed.length > 1 ? 1 / attributed.length : undefined,
+    };
+  });
+
+  void appendUsageRecords(records);
+}
@@ -0,0 +1,385 @@
+// Agent Record & Replay Harness
+// Records a WorkAgentSession run (model responses, tool calls, tool results) to a fixture
+// and replays it deterministically with a fake chat model and stubbed tools - no network.
+//
+// Enable via environment:
+//   WORK_AGENT_RECORD=<dir>    - record every session to <dir>/<session>-<timestamp>.json
+//   WORK_AGENT_REPLAY=<file>   - replay a fixture instead of calling the model and tools
+// Or run a fixture suite with: npm run replay:agent -- <fixture.json|dir>
+
+import { mkdir, writeFile, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, BaseMessage, ToolMessage } from '@langchain/core/messages';
+import { ChatResult } from '@langchain/core/outputs';
+import { SerializedMessage, serializeMessages } from '../storage/checkpoints.js';
+
+export const FIXTURE_VERSION = 1;
+
+/**
+ * One model invocation: the message types the model saw (after sanitization) and what it returned
+ * toolResults are the tool messages the call read (those after the last AI message), as sent
+ */
+export interface RecordedModelCall {
+  inputTypes: string[];
+  toolResults?: RecordedToolResult[];
+  output: SerializedMessage;
+}
+
+export interface RecordedToolResult {
+  toolCallId: string;
+  content: string;
+}
+
+export interface RecordedToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result: string;
+}
+
+export interface RecordedTurn {
+  userMessage: string;
+  modelCalls: RecordedModelCall[];
+  toolCalls: RecordedToolCall[];
+  finalResponse: string;
+}
+
+export interface AgentFixture {
+  version: number;
+  recordedAt: string;
+  model: string;
+  includeDatadog: boolean;
+  workstreamId?: string;
+  turns: RecordedTurn[];
+}
+
+/**
+ * Hooks the agent graph exposes for recording and replay
+ * All hooks are optional - an empty harness leaves the agent untouched
+ */
+export interface AgentHarness {
+  // Replace the chat model (replay)
+  createModel?(): BaseChatModel;
+  // Replace tool execution (replay). Return null to fall through to the real tool.
+  executeTool?(name: string, args: Record<string, unknown>, callId: string): Promise<string | null>;
+  // Observe a model invocation (record)
+  onModelCall?(input: BaseMessage[], output: BaseMessage): void;
+  // Observe a tool result (record)
+  onToolResult?(call: { id: string; name: string; args: Record<string, unknown> }, result: string): void;
+  // Turn boundaries - one per WorkAgentSession.chat()
+  onTurnStart?(userMessage: string): void;
+  onTurnEnd?(response: string): Promise<void>;
+}
+
+function getMessageType(msg: BaseMessage): string {
+  return msg._getType?.() || msg.constructor?.name?.toLowerCase() || 'unknown';
+}
+
+// Tool messages answering the most recent AI message - what this model call reads fresh
+function getTrailingToolResults(messages: BaseMessage[]): RecordedToolResult[] {
+  const results: RecordedToolResult[] = [];
+  for (let i = messages.length - 1; i >= 0 && getMessageType(messages[i]) === 'tool'; i--) {
+    const msg = messages[i] as ToolMessage;
+    const content = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
+    results.unshift({ toolCallId: msg.tool_call_id, content });
+  }
+  return results;
+}
+
+function toAIMessage(serialized: SerializedMessage): AIMessage {
+  const message = new AIMessage(serialized.content);
+  if (serialized.toolCalls && serialized.toolCalls.length > 0) {
+    message.tool_calls = serialized.toolCalls.map(tc => ({
+      name: tc.name,
+      args: tc.args,
+      id: tc.id,
+      type: 'tool_call' as const,
+    }));
+  }
+  return message;
+}
+
+export async function loadFixture(path: string): Promise<AgentFixture> {
+  const content = await readFile(path, 'utf-8');
+  const fixture = JSON.parse(content) as AgentFixture;
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version ${fixture.version} in ${path} (expected ${FIXTURE_VERSION})`);
+  }
+  return fixture;
+}
+
+export async function saveFixture(path: string, fixture: AgentFixture): Promise<void> {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    await mkdir(dir, { recursive: true });
+  }
+  await writeFile(path, JSON.stringify(fixture, null, 2));
+}
+
+/**
+ * Records a live session into a fixture, saving after every turn
+ */
+export class AgentRecorder implements AgentHarness {
+  private fixture: AgentFixture;
+  private currentTurn: RecordedTurn | null = null;
+
+  constructor(private outputPath: string, options: { model: string; includeDatadog: boolean; workstreamId?: string }) {
+    this.fixture = {
+      version: FIXTURE_VERSION,
+      recordedAt: new Date().toISOString(),
+      model: options.model,
+      includeDatadog: options.includeDatadog,
+      workstreamId: options.workstreamId,
+      turns: [],
+    };
+  }
+
+  getFixture(): AgentFixture {
+    return this.fixture;
+  }
+
+  onTurnStart(userMessage: string): void {
+    this.currentTurn = { userMessage, modelCalls: [], toolCalls: [], finalResponse: '' };
+  }
+
+  onModelCall(input: BaseMessage[], output: BaseMessage): void {
+    const toolResults = getTrailingToolResults(input);
+    this.currentTurn?.modelCalls.push({
+      inputTypes: input.map(getMessageType),
+      ...(toolResults.length > 0 ? { toolResults } : {}),
+      output: serializeMessages([output])[0],
+    });
+  }
+
+  onToolResult(call: { id: string; name: string; args: Record<string, unknown> }, result: string): void {
+    this.currentTurn?.toolCalls.push({ ...call, result });
+  }
+
+  async onTurnEnd(response: string): Promise<void> {
+    if (!this.currentTurn) return;
+    this.currentTurn.finalResponse = response;
+    this.fixture.turns.push(this.currentTurn);
+    this.currentTurn = null;
+    await saveFixture(this.outputPath, this.fixture);
+  }
+}
+
+/**
+ * Chat model that returns recorded responses in order
+ * Tool binding is a no-op since responses already carry their tool calls
+ */
+export class ReplayChatModel extends BaseChatModel {
+  constructor(private replayer: AgentReplayer) {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'replay';
+  }
+
+  bindTools(): this {
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const message = this.replayer.nextModelResponse(messages);
+    return {
+      generations: [{ text: typeof message.content === 'string' ? message.content : '', message }],
+    };
+  }
+}
+
+/**
+ * A difference between the recorded run and the replayed one
+ */
+export interface ReplayDivergence {
+  turn: number;
+  kind: 'model_input' | 'model_exhausted' | 'tool_missing' | 'tool_unused' | 'tool_args' | 'tool_result' | 'response';
+  detail: string;
+}
+
+/**
+ * Replays a fixture: model responses come from the recording, tool results are looked up by
+ * tool_call_id. Any difference in what the agent sends is collected as a divergence: the
+ * message types and tool results each model call reads, and per turn, which tools ran with
+ * which args and what they returned.
+ */
+export class AgentReplayer implements AgentHarness {
+  private turnIndex = -1;
+  private modelCallIndex = 0;
+  private divergences: ReplayDivergence[] = [];
+  private executedToolCalls: RecordedToolCall[] = [];
+  private turnToolCalls: RecordedToolCall[] = [];
+
+  constructor(private fixture: AgentFixture) {}
+
+  getFixture(): AgentFixture {
+    return this.fixture;
+  }
+
+  getDivergences(): ReplayDivergence[] {
+    return this.divergences;
+  }
+
+  getExecutedToolCalls(): RecordedToolCall[] {
+    return this.executedToolCalls;
+  }
+
+  private get turn(): RecordedTurn | undefined {
+    return this.fixture.turns[this.turnIndex];
+  }
+
+  createModel(): BaseChatModel {
+    return new ReplayChatModel(this);
+  }
+
+  onTurnStart(): void {
+    this.turnIndex++;
+    this.modelCallIndex = 0;
+  }
+
+  nextModelResponse(input: BaseMessage[]): AIMessage {
+    const recorded = this.turn?.modelCalls[this.modelCallIndex];
+    if (!recorded) {
+      this.divergences.push({
+        turn: this.turnIndex,
+        kind: 'model_exhausted',
+        detail: `Agent made more model calls than recorded (call ${this.modelCallIndex + 1})`,
+      });
+      return new AIMessage('[replay] no recorded response');
+    }
+
+    const inputTypes = input.map(getMessageType);
+    if (inputTypes.join(',') !== recorded.inputTypes.join(',')) {
+      this.divergences.push({
+        turn: this.turnIndex,
+        kind: 'model_input',
+        detail: `Model call ${this.modelCallIndex + 1}: expected [${recorded.inputTypes.join(', ')}], got [${inputTypes.join(', ')}]`,
+      });
+    }
+
+    if (recorded.toolResults) {
+      this.compareToolResults(recorded.toolResults, getTrailingToolResults(input));
+    }
+
+    this.modelCallIndex++;
+    return toAIMessage(recorded.output);
+  }
+
+  private compareToolResults(expected: RecordedToolResult[], actual: RecordedToolResult[]): void {
+    const call = this.modelCallIndex + 1;
+    for (const result of expected) {
+      const match = actual.find(a => a.toolCallId === result.toolCallId);
+      if (!match) {
+        this.divergences.push({
+          turn: this.turnIndex,
+          kind: 'tool_result',
+          detail: `Model call ${call}: no result for ${result.toolCallId}`,
+        });
+      } else if (match.content !== result.content) {
+        this.divergences.push({
+          turn: this.turnIndex,
+          kind: 'tool_result',
+          detail: `Model call ${call}: result for ${result.toolCallId} differs (expected ${result.content.length} chars, got ${match.content.length})`,
+        });
+      }
+    }
+    for (const result of actual) {
+      if (!expected.some(e => e.toolCallId === result.toolCallId)) {
+        this.divergences.push({
+          turn: this.turnIndex,
+          kind: 'tool_result',
+          detail: `Model call ${call}: unexpected result for ${result.toolCallId}`,
+        });
+      }
+    }
+  }
+
+  async executeTool(name: string, args: Record<string, unknown>, callId: string): Promise<string> {
+    const recorded = this.turn?.toolCalls.find(tc => tc.id === callId && tc.name === name);
+    if (!recorded) {
+      this.divergences.push({
+        turn: this.turnIndex,
+        kind: 'tool_missing',
+        detail: `No recorded result for ${name} (${callId})`,
+      });
+      return JSON.stringify({ error: `[replay] no recorded result for ${name}` });
+    }
+
+    return recorded.result;
+  }
+
+  // Every call that ran (stubbed or rejected), with the result the agent got
+  onToolResult(call: { id: string; name: string; args: Record<string, unknown> }, result: string): void {
+    this.executedToolCalls.push({ ...call, result });
+    this.turnToolCalls.push({ ...call, result });
+  }
+
+  async onTurnEnd(response: string): Promise<void> {
+    this.compareToolCalls();
+
+    const expected = this.turn?.finalResponse;
+    if (expected !== undefined && expected !== response) {
+      this.divergences.push({
+        turn: this.turnIndex,
+        kind: 'response',
+        detail: `Final response differs (expected ${expected.length} chars, got ${response.length})`,
+      });
+    }
+  }
+
+  // Each recorded call must have run once, with the same name, args and result text
+  private compareToolCalls(): void {
+    const executed = this.turnToolCalls.splice(0);
+    for (const recorded of this.turn?.toolCalls ?? []) {
+      const call = executed.find(e => e.id === recorded.id && e.name === recorded.name);
+      if (!call) {
+        this.divergences.push({
+          turn: this.turnIndex,
+          kind: 'tool_unused',
+          detail: `Recorded call ${recorded.name} (${recorded.id}) never ran`,
+        });
+        continue;
+      }
+      if (JSON.stringify(call.args) !== JSON.stringify(recorded.args)) {
+        this.divergences.push({
+          turn: this.turnIndex,
+          kind: 'tool_args',
+          detail: `${recorded.name} (${recorded.id}) ran with different args`,
+        });
+      }
+      if (call.result !== recorded.result) {
+        this.divergences.push({
+          turn: this.turnIndex,
+          kind: 'tool_result',
+          detail: `${recorded.name} (${recorded.id}) returned a different result`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Build a harness from WORK_AGENT_RECORD / WORK_AGENT_REPLAY, if either is set
+ * Replay takes precedence over recording
+ */
+export async function createHarnessFromEnv(options: {
+  model: string;
+  includeDatadog: boolean;
+  workstreamId?: string;
+}): Promise<AgentHarness | null> {
+  const replayPath = process.env.WORK_AGENT_REPLAY;
+  if (replayPath) {
+    return new AgentReplayer(await loadFixture(replayPath));
+  }
+
+  const recordDir = process.env.WORK_AGENT_RECORD;
+  if (recordDir) {
+    const name = `${options.workstreamId || 'session'}-${Date.now()}.json`;
+    return new AgentRecorder(join(recordDir, name), options);
+  }
+
+  return null;
+}
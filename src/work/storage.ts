@@ -263,6 +263,9 @@ function generateSessionId(input: WorkInput): string {
   if (input.alertId) {
     return `alert_${input.alertId}_${timestamp}`;
   }
+  if (input.pageId) {
+    return `page_${input.pageId}_${timestamp}`;
+  }
   if (input.datadogRequestId) {
     return `dd_${input.datadogRequestId.substring(0, 12)}_${timestamp}`;
   }
@@ -380,6 +383,9 @@ function formatSummaryMarkdown(session: WorkSession, results: RelevantData): str
   if (session.input.alertId) {
     lines.push(`- **Alert ID:** ${session.input.alertId}`);
   }
+  if (session.input.pageId) {
+    lines.push(`- **Page ID:** ${session.input.pageId}`);
+  }
   if (session.input.datadogRequestId) {
     lines.push(`- **Datadog Request ID:** ${session.input.datadogRequestId}`);
   }
@@ -49,7 +49,7 @@ export async function ensureCheckpointsDir(): Promise<void> {
  * Serialize LangChain messages to JSON-compatible format
  * Uses _getType() instead of instanceof for cross-module safety
  */
-function serializeMessages(messages: BaseMessage[]): SerializedMessage[] {
+export function serializeMessages(messages: BaseMessage[]): SerializedMessage[] {
   return messages.map(msg => {
     const content = typeof msg.content === 'string' 
       ? msg.content 
@@ -0,0 +1,101 @@
+// CI flakiness history
+// Per repo, how often each check (and each failing test within it) failed, on which PRs,
+// and how re-runs without code changes turned out - the evidence PR watch uses to re-run
+// a flaky failure instead of asking the coding agent to "fix" it.
+
+import { readFile, writeFile, rename } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { ensureConfigDir } from '../../utils/platform.js';
+
+const MAX_PRS_PER_RECORD = 20;
+
+export interface FlakinessRecord {
+  kind: 'check' | 'test';
+  failures: number;
+  prs: number[];            // PRs it failed on, most recent last
+  rerunPasses: number;      // Re-runs without code changes that went green
+  rerunFailures: number;    // Re-runs that failed again
+  lastSha?: string;         // Head SHA of the last recorded failure (repeated polls count once)
+  lastFailedAt?: string;
+}
+
+// Keyed by check name, or "check > test" for tests parsed from its log
+export type RepoFlakiness = Record<string, FlakinessRecord>;
+
+interface FlakinessFile {
+  repos: Record<string, RepoFlakiness>;
+}
+
+function getFlakinessPath(): string {
+  return join(ensureConfigDir(), 'ci-flakiness.json');
+}
+
+async function loadFlakinessFile(): Promise<FlakinessFile> {
+  const path = getFlakinessPath();
+  if (!existsSync(path)) {
+    return { repos: {} };
+  }
+
+  try {
+    const content = await readFile(path, 'utf-8');
+    const data = JSON.parse(content) as Partial<FlakinessFile>;
+    return { repos: data.repos || {} };
+  } catch {
+    return { repos: {} };
+  }
+}
+
+async function saveFlakinessFile(data: FlakinessFile): Promise<void> {
+  const path = getFlakinessPath();
+  await writeFile(`${path}.tmp`, JSON.stringify(data, null, 2), 'utf-8');
+  await rename(`${path}.tmp`, path);
+}
+
+export async function loadRepoFlakiness(repoKey: string): Promise<RepoFlakiness> {
+  return (await loadFlakinessFile()).repos[repoKey] || {};
+}
+
+/**
+ * Record a failure of each key on a PR head (once per SHA)
+ */
+export async function recordFlakinessFailures(
+  repoKey: string,
+  keys: Array<{ key: string; kind: FlakinessRecord['kind'] }>,
+  prNumber: number,
+  sha: string
+): Promise<void> {
+  const data = await loadFlakinessFile();
+  const records = data.repos[repoKey] || (data.repos[repoKey] = {});
+
+  for (const { key, kind } of keys) {
+    const record = records[key] || (records[key] = { kind, failures: 0, prs: [], rerunPasses: 0, rerunFailures: 0 });
+    if (record.lastSha === sha) continue;
+    record.failures++;
+    record.prs = [...record.prs.filter(pr => pr !== prNumber), prNumber].slice(-MAX_PRS_PER_RECORD);
+    record.lastSha = sha;
+    record.lastFailedAt = new Date().toISOString();
+  }
+
+  await saveFlakinessFile(data);
+}
+
+/**
+ * Record how a re-run of the keys turned out
+ */
+export async function recordFlakinessRerun(repoKey: string, keys: string[], passed: boolean): Promise<void> {
+  const data = await loadFlakinessFile();
+  const records = data.repos[repoKey] || {};
+
+  for (const key of keys) {
+    const record = records[key];
+    if (!record) continue;
+    if (passed) {
+      record.rerunPasses++;
+    } else {
+      record.rerunFailures++;
+    }
+  }
+
+  await saveFlakinessFile(data);
+}
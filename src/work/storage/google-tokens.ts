@@ -0,0 +1,57 @@
+// Google OAuth tokens
+// Refresh token from the `hn work-google-login` installed-app flow, plus the current
+// access token so every run doesn't start with a refresh. Readable by the user only.
+
+import { readFile, writeFile, unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { ensureConfigDir } from '../../utils/platform.js';
+
+export interface GoogleTokenRecord {
+  clientId: string;
+  clientSecret: string;    // Installed-app secret - needed again for every refresh
+  refreshToken: string;
+  accessToken: string;
+  expiresAt: number;       // Epoch ms
+  scopes: string[];
+  email?: string;
+  obtainedAt: string;
+}
+
+function getTokenStorePath(): string {
+  return join(ensureConfigDir(), 'google-oauth.json');
+}
+
+/**
+ * Whether a login has been stored (sync - used by the isConfigured checks)
+ */
+export function hasGoogleTokenRecord(): boolean {
+  return existsSync(getTokenStorePath());
+}
+
+export async function loadGoogleTokenRecord(): Promise<GoogleTokenRecord | null> {
+  const storePath = getTokenStorePath();
+  if (!existsSync(storePath)) {
+    return null;
+  }
+
+  try {
+    const content = await readFile(storePath, 'utf-8');
+    return JSON.parse(content) as GoogleTokenRecord;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveGoogleTokenRecord(record: GoogleTokenRecord): Promise<void> {
+  await writeFile(getTokenStorePath(), JSON.stringify(record, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+export async function clearGoogleTokenRecord(): Promise<boolean> {
+  const storePath = getTokenStorePath();
+  if (!existsSync(storePath)) {
+    return false;
+  }
+  await unlink(storePath);
+  return true;
+}
@@ -0,0 +1,57 @@
+// FireHydrant incident snapshots
+// The state of each incident the last time the user looked at it, so
+// firehydrant_incident_changes can report only what happened since.
+
+import { readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { ensureConfigDir } from '../../utils/platform.js';
+import type { IncidentSnapshot } from '../clients/firehydrant.js';
+
+interface SnapshotStore {
+  incidents: Record<string, IncidentSnapshot>;
+}
+
+// Incidents not looked at for this long are dropped on the next save
+const MAX_SNAPSHOT_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+function getSnapshotStorePath(): string {
+  return join(ensureConfigDir(), 'incident-snapshots.json');
+}
+
+async function loadSnapshotStore(): Promise<SnapshotStore> {
+  const storePath = getSnapshotStorePath();
+  if (!existsSync(storePath)) {
+    return { incidents: {} };
+  }
+
+  try {
+    const content = await readFile(storePath, 'utf-8');
+    return JSON.parse(content) as SnapshotStore;
+  } catch {
+    return { incidents: {} };
+  }
+}
+
+/**
+ * Last recorded snapshot of an incident, or null if it was never looked at
+ */
+export async function getIncidentSnapshotRecord(incidentId: string): Promise<IncidentSnapshot | null> {
+  const store = await loadSnapshotStore();
+  return store.incidents[incidentId] || null;
+}
+
+/**
+ * Record the snapshot as the user's latest look at the incident
+ */
+export async function saveIncidentSnapshotRecord(snapshot: IncidentSnapshot): Promise<void> {
+  const store = await loadSnapshotStore();
+  const cutoff = Date.now() - MAX_SNAPSHOT_AGE_MS;
+  for (const [id, existing] of Object.entries(store.incidents)) {
+    if (Date.parse(existing.takenAt) < cutoff) {
+      delete store.incidents[id];
+    }
+  }
+  store.incidents[snapshot.incidentId] = snapshot;
+  await writeFile(getSnapshotStorePath(), JSON.stringify(store, null, 2), 'utf-8');
+}
@@ -0,0 +1,50 @@
+// PR watch session journal
+// Every watched PR, so watches (and the fix history / initial SHA that
+// pr_squash_commits needs) survive quitting the TUI or a crash.
+
+import { readFile, writeFile, rename } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { ensureConfigDir } from '../../utils/platform.js';
+import type { PRWatchSession } from '../tools/pr-watch-types.js';
+
+export type JournaledPRWatchSession = Omit<PRWatchSession, 'onStateChange'> & {
+  workstreamId?: string;  // TUI workstream the watch was linked to
+};
+
+interface PRWatchJournal {
+  sessions: JournaledPRWatchSession[];
+  savedAt: string;
+}
+
+function getJournalPath(): string {
+  return join(ensureConfigDir(), 'pr-watch-sessions.json');
+}
+
+/**
+ * Journaled watch sessions (empty if there is no journal or it is unreadable)
+ */
+export async function loadPRWatchJournal(): Promise<JournaledPRWatchSession[]> {
+  const journalPath = getJournalPath();
+  if (!existsSync(journalPath)) {
+    return [];
+  }
+
+  try {
+    const content = await readFile(journalPath, 'utf-8');
+    return (JSON.parse(content) as PRWatchJournal).sessions || [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace the journal with the given sessions
+ * Written to a temp file and renamed, so a crash mid-write keeps the previous journal
+ */
+export async function savePRWatchJournal(sessions: JournaledPRWatchSession[]): Promise<void> {
+  const journalPath = getJournalPath();
+  const journal: PRWatchJournal = { sessions, savedAt: new Date().toISOString() };
+  await writeFile(`${journalPath}.tmp`, JSON.stringify(journal, null, 2), 'utf-8');
+  await rename(`${journalPath}.tmp`, journalPath);
+}
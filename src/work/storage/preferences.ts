@@ -4,7 +4,7 @@
 import { readFile, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
-import { PersonalityType } from '../types.js';
+import { PersonalityType, CodingAgentBackend } from '../types.js';
 import { ensureConfigDir as ensurePlatformConfigDir } from '../../utils/platform.js';
 
 export interface SessionPreferences {
@@ -16,6 +16,41 @@ export interface SessionPreferences {
   // LinkedIn & CV
   linkedinUrl?: string;
   cvPath?: string; // Path to CV file (PDF/DOC)
+  // Remembered approval policies for write-external tools (tool name -> policy)
+  toolApprovals?: Record<string, ToolApprovalPolicy>;
+  // Price overrides for usage accounting (model name or prefix -> price)
+  modelPrices?: Record<string, ModelPrice>;
+  // Coding agent used for PR auto-fix and task execution
+  codingAgents?: CodingAgentPreferences;
+  // Per-repo PR watch settings (normalized repo URL -> settings)
+  prWatchRepos?: Record<string, PRWatchRepoSettings>;
+}
+
+// Most specific wins: workstream, then repo, then default (unset everywhere = auto-detect)
+export interface CodingAgentPreferences {
+  default?: CodingAgentBackend;
+  repos?: Record<string, CodingAgentBackend>;        // Normalized repo URL -> backend
+  workstreams?: Record<string, CodingAgentBackend>;  // Workstream ID -> backend
+  commandTemplate?: string;                          // For the 'command' backend (CODING_AGENT_COMMAND overrides)
+}
+
+export type CodingAgentScope = 'default' | 'repo' | 'workstream';
+
+// How PR watch brings a branch up to date when its base moves on
+export type PRBranchUpdateStrategy = 'rebase' | 'merge' | 'off';
+
+export interface PRWatchRepoSettings {
+  updateStrategy?: PRBranchUpdateStrategy;  // Default 'off' - rewriting a PR's branch is opt-in
+  checkCommands?: string[];                 // Run locally after the coding agent resolves conflicts, before pushing
+}
+
+// 'always' skips the approval dialog for that tool
+export type ToolApprovalPolicy = 'always';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
 }
 
 // Get the preferences store path (uses platform-appropriate config directory)
@@ -147,3 +182,155 @@ export async function getCvPath(): Promise<string | undefined> {
   return prefs.cvPath;
 }
 
+/**
+ * Get the remembered approval policy for a tool
+ */
+export async function getToolApprovalPolicy(toolName: string): Promise<ToolApprovalPolicy | undefined> {
+  const prefs = await loadPreferences();
+  return prefs.toolApprovals?.[toolName];
+}
+
+/**
+ * Remember (or forget, with null) an approval policy for a tool
+ */
+export async function setToolApprovalPolicy(toolName: string, policy: ToolApprovalPolicy | null): Promise<void> {
+  const prefs = await loadPreferences();
+  const approvals = { ...(prefs.toolApprovals || {}) };
+  if (policy) {
+    approvals[toolName] = policy;
+  } else {
+    delete approvals[toolName];
+  }
+  prefs.toolApprovals = approvals;
+  await savePreferences(prefs);
+}
+
+/**
+ * List all remembered tool approval policies
+ */
+export async function getToolApprovalPolicies(): Promise<Record<string, ToolApprovalPolicy>> {
+  const prefs = await loadPreferences();
+  return prefs.toolApprovals || {};
+}
+
+/**
+ * Get user price overrides for usage accounting
+ */
+export async function getModelPriceOverrides(): Promise<Record<string, ModelPrice>> {
+  const prefs = await loadPreferences();
+  return prefs.modelPrices || {};
+}
+
+/**
+ * Override (or reset, with null) the price of a model or model prefix
+ */
+export async function setModelPriceOverride(model: string, price: ModelPrice | null): Promise<void> {
+  const prefs = await loadPreferences();
+  const prices = { ...(prefs.modelPrices || {}) };
+  if (price) {
+    prices[model] = price;
+  } else {
+    delete prices[model];
+  }
+  prefs.modelPrices = prices;
+  await savePreferences(prefs);
+}
+
+/**
+ * Get coding agent backend preferences
+ */
+export async function getCodingAgentPreferences(): Promise<CodingAgentPreferences> {
+  const prefs = await loadPreferences();
+  return prefs.codingAgents || {};
+}
+
+/**
+ * Set (or clear, with null) the coding agent backend for a scope
+ * @param key - Normalized repo URL for 'repo', workstream ID for 'workstream' (ignored for 'default')
+ */
+export async function setCodingAgentPreference(
+  scope: CodingAgentScope,
+  backend: CodingAgentBackend | null,
+  key?: string
+): Promise<void> {
+  const prefs = await loadPreferences();
+  const codingAgents: CodingAgentPreferences = { ...(prefs.codingAgents || {}) };
+  if (scope === 'default') {
+    if (backend) {
+      codingAgents.default = backend;
+    } else {
+      delete codingAgents.default;
+    }
+  } else {
+    if (!key) {
+      throw new Error(`A ${scope} is required to set a per-${scope} coding agent`);
+    }
+    const field = scope === 'repo' ? 'repos' : 'workstreams';
+    const entries = { ...(codingAgents[field] || {}) };
+    if (backend) {
+      entries[key] = backend;
+    } else {
+      delete entries[key];
+    }
+    codingAgents[field] = entries;
+  }
+  prefs.codingAgents = codingAgents;
+  await savePreferences(prefs);
+}
+
+/**
+ * Set (or clear, with null) the command template for the 'command' coding agent backend
+ */
+export async function setCodingAgentCommandTemplate(template: string | null): Promise<void> {
+  const prefs = await loadPreferences();
+  const codingAgents: CodingAgentPreferences = { ...(prefs.codingAgents || {}) };
+  if (template) {
+    codingAgents.commandTemplate = template;
+  } else {
+    delete codingAgents.commandTemplate;
+  }
+  prefs.codingAgents = codingAgents;
+  await savePreferences(prefs);
+}
+
+/**
+ * Get a repo's PR watch settings
+ */
+export async function getPRWatchRepoSettings(repoKey: string): Promise<PRWatchRepoSettings> {
+  const prefs = await loadPreferences();
+  return prefs.prWatchRepos?.[repoKey] || {};
+}
+
+/**
+ * Update a repo's PR watch settings (null clears a setting)
+ */
+export async function setPRWatchRepoSettings(
+  repoKey: string,
+  updates: { [K in keyof PRWatchRepoSettings]?: PRWatchRepoSettings[K] | null }
+): Promise<PRWatchRepoSettings> {
+  const prefs = await loadPreferences();
+  const repos = { ...(prefs.prWatchRepos || {}) };
+  const settings: PRWatchRepoSettings = { ...(repos[repoKey] || {}) };
+  if (updates.updateStrategy !== undefined) {
+    if (updates.updateStrategy) {
+      settings.updateStrategy = updates.updateStrategy;
+    } else {
+      delete settings.updateStrategy;
+    }
+  }
+  if (updates.checkCommands !== undefined) {
+    if (updates.checkCommands && updates.checkCommands.length > 0) {
+      settings.checkCommands = updates.checkCommands;
+    } else {
+      delete settings.checkCommands;
+    }
+  }
+  if (Object.keys(settings).length > 0) {
+    repos[repoKey] = settings;
+  } else {
+    delete repos[repoKey];
+  }
+  prefs.prWatchRepos = repos;
+  await savePreferences(prefs);
+  return settings;
+}
@@ -0,0 +1,219 @@
+// Persistent tool result cache for Work Mode
+// Read-only tool results are kept on disk with a per-tool TTL so they survive restarts.
+// Write tools invalidate the entries they make stale (e.g. a JIRA comment drops that ticket).
+
+import { readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { ensureConfigDir } from '../../utils/platform.js';
+
+export interface ToolCacheEntry {
+  tool: string;
+  args: Record<string, unknown>;
+  result: string;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Declares which cached entries a write tool makes stale
+ * With matchArgs, only entries whose args equal the write call's args on those keys are dropped
+ */
+export interface ToolInvalidation {
+  tool: string;
+  matchArgs?: string[];
+}
+
+export interface ToolCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+  byTool: Record<string, { hits: number; misses: number }>;
+}
+
+// Keep the file small - large log dumps are not worth persisting
+const MAX_ENTRIES = 500;
+const MAX_RESULT_LENGTH = 200 * 1024;
+
+let _entries: Map<string, ToolCacheEntry> | null = null;
+let _loading: Promise<Map<string, ToolCacheEntry>> | null = null;
+let _saveChain: Promise<void> = Promise.resolve();
+
+// Session stats (not persisted)
+const _stats: Omit<ToolCacheStats, 'entries'> = {
+  hits: 0,
+  misses: 0,
+  invalidations: 0,
+  byTool: {},
+};
+
+function getCachePath(): string {
+  return join(ensureConfigDir(), 'tool-cache.json');
+}
+
+/**
+ * Stable cache key from tool name and args (key order does not matter)
+ */
+export function getToolCacheKey(toolName: string, args: Record<string, unknown>): string {
+  const argsStr = JSON.stringify(args, Object.keys(args).sort());
+  return `${toolName}:${argsStr}`;
+}
+
+async function loadEntries(): Promise<Map<string, ToolCacheEntry>> {
+  if (_entries) return _entries;
+  if (!_loading) {
+    _loading = (async () => {
+      const entries = new Map<string, ToolCacheEntry>();
+      const path = getCachePath();
+      if (existsSync(path)) {
+        try {
+          const stored = JSON.parse(await readFile(path, 'utf-8')) as ToolCacheEntry[];
+          const now = Date.now();
+          for (const entry of stored) {
+            if (entry.expiresAt > now) {
+              entries.set(getToolCacheKey(entry.tool, entry.args), entry);
+            }
+          }
+        } catch {
+          // Corrupt cache file - start empty
+        }
+      }
+      _entries = entries;
+      return entries;
+    })();
+  }
+  return _loading;
+}
+
+function saveEntries(entries: Map<string, ToolCacheEntry>): Promise<void> {
+  // Serialize writes so concurrent tool calls never interleave partial files
+  _saveChain = _saveChain.then(async () => {
+    const now = Date.now();
+    const live = [...entries.values()].filter(e => e.expiresAt > now);
+    try {
+      await writeFile(getCachePath(), JSON.stringify(live));
+    } catch {
+      // Cache is best-effort
+    }
+  });
+  return _saveChain;
+}
+
+function recordLookup(toolName: string, hit: boolean): void {
+  const toolStats = _stats.byTool[toolName] || (_stats.byTool[toolName] = { hits: 0, misses: 0 });
+  if (hit) {
+    _stats.hits++;
+    toolStats.hits++;
+  } else {
+    _stats.misses++;
+    toolStats.misses++;
+  }
+}
+
+/**
+ * Look up a cached result, counting the hit or miss
+ */
+export async function getCachedToolResult(toolName: string, args: Record<string, unknown>): Promise<string | null> {
+  const entries = await loadEntries();
+  const entry = entries.get(getToolCacheKey(toolName, args));
+  const hit = !!entry && entry.expiresAt > Date.now();
+  recordLookup(toolName, hit);
+  return hit ? entry!.result : null;
+}
+
+/**
+ * Store a result for ttlMs
+ */
+export async function cacheToolResult(
+  toolName: string,
+  args: Record<string, unknown>,
+  result: string,
+  ttlMs: number
+): Promise<void> {
+  if (result.length > MAX_RESULT_LENGTH) return;
+
+  const entries = await loadEntries();
+  const now = Date.now();
+  entries.set(getToolCacheKey(toolName, args), {
+    tool: toolName,
+    args,
+    result,
+    cachedAt: now,
+    expiresAt: now + ttlMs,
+  });
+
+  // Drop the oldest entries once over the limit (Map keeps insertion order)
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+
+  await saveEntries(entries);
+}
+
+/**
+ * Drop entries made stale by a write call
+ * Returns the number of entries removed
+ */
+export async function invalidateToolResults(
+  rules: ToolInvalidation[],
+  writeArgs: Record<string, unknown>
+): Promise<number> {
+  if (rules.length === 0) return 0;
+
+  const entries = await loadEntries();
+  let removed = 0;
+  for (const [key, entry] of entries) {
+    const stale = rules.some(rule =>
+      rule.tool === entry.tool &&
+      (rule.matchArgs || []).every(arg => entry.args[arg] === writeArgs[arg])
+    );
+    if (stale) {
+      entries.delete(key);
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    _stats.invalidations += removed;
+    await saveEntries(entries);
+  }
+  return removed;
+}
+
+/**
+ * Remove every cached result (optionally only for one tool)
+ */
+export async function clearToolResultCache(toolName?: string): Promise<number> {
+  const entries = await loadEntries();
+  let removed = 0;
+  for (const [key, entry] of entries) {
+    if (!toolName || entry.tool === toolName) {
+      entries.delete(key);
+      removed++;
+    }
+  }
+  await saveEntries(entries);
+  return removed;
+}
+
+/**
+ * Hit/miss counters for this process plus the number of live entries
+ */
+export async function getToolCacheStats(): Promise<ToolCacheStats> {
+  const entries = await loadEntries();
+  const now = Date.now();
+  let live = 0;
+  for (const entry of entries.values()) {
+    if (entry.expiresAt > now) live++;
+  }
+  return {
+    entries: live,
+    hits: _stats.hits,
+    misses: _stats.misses,
+    invalidations: _stats.invalidations,
+    byTool: { ...(_stats.byTool) },
+  };
+}
@@ -0,0 +1,81 @@
+// Model usage log storage
+// One JSONL line per model call with the provider-reported token counts.
+// Costs are not stored - reports price the tokens with the current price table.
+
+import { appendFile, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { ensureConfigDir } from '../../utils/platform.js';
+
+// ===== TYPES =====
+
+// What made the call (the agent loop, a helper feature, or a tool)
+export type UsageSource =
+  | 'agent'
+  | 'summary'
+  | 'external_comms'
+  | 'standard'
+  | 'advice'
+  | 'classifier'
+  | 'tts'
+  | 'assistant'
+  | 'extractor';
+
+export interface ModelUsageRecord {
+  timestamp: number;
+  model: string;        // Provider spec, e.g. "anthropic:claude-sonnet-4-5"
+  source: UsageSource;
+  workstreamId?: string;
+  tool?: string;        // Tool whose execution (or results) caused the call
+  promptTokens: number;
+  completionTokens: number;
+  calls?: number;       // Share of one call when split between tools (default 1)
+}
+
+// ===== STORAGE =====
+
+// Lives next to the workstreams so reports cover every directory hn work ran in
+function getUsageLogPath(): string {
+  return join(ensureConfigDir(), 'model-usage.jsonl');
+}
+
+/**
+ * Append usage records
+ */
+export async function appendUsageRecords(records: ModelUsageRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  try {
+    await appendFile(getUsageLogPath(), records.map(r => JSON.stringify(r)).join('\n') + '\n', 'utf-8');
+  } catch {
+    // Usage accounting must never break a model call
+  }
+}
+
+/**
+ * Read usage records, optionally only those at or after sinceMs
+ */
+export async function readUsageRecords(sinceMs?: number): Promise<ModelUsageRecord[]> {
+  const logPath = getUsageLogPath();
+  if (!existsSync(logPath)) {
+    return [];
+  }
+
+  try {
+    const content = await readFile(logPath, 'utf-8');
+    const records: ModelUsageRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as ModelUsageRecord;
+        if (sinceMs === undefined || record.timestamp >= sinceMs) {
+          records.push(record);
+        }
+      } catch {
+        // Skip partial lines
+      }
+    }
+    return records;
+  } catch {
+    return [];
+  }
+}
@@ -5,6 +5,7 @@ import { readFile, writeFile, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { appendToGoogleDoc, createGoogleDocFromMarkdown } from '../clients/googledocs.js';
 
 // ===== Types =====
 
@@ -71,6 +72,7 @@ export interface AchievementSyncConfig {
   lastConfluenceSyncAt?: number;
   lastGithubSyncAt?: number;
   lastGoogleDocsSyncAt?: number;
+  bragDocUrl?: string;         // Google Doc that write_brag_doc appends to
 }
 
 export interface AchievementStore {
@@ -659,6 +661,47 @@ export async function exportAchievements(options?: {
   return getAchievementsSummary(options?.period);
 }
 
+// Markdown summary as plain text for appending to an existing doc
+function summaryToPlainText(markdown: string): string {
+  return markdown
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/\[🔗\]\(([^)]+)\)/g, '($1)')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/^(\s*)- /gm, '$1• ');
+}
+
+/**
+ * Write the achievements summary (brag doc) to Google Docs
+ * Appends to docUrl (or the remembered brag doc); otherwise creates a new doc and remembers it.
+ */
+export async function writeBragDoc(options: {
+  period?: 'week' | 'month' | 'quarter' | 'year';
+  docUrl?: string;
+  title?: string;
+} = {}): Promise<{ url: string; created: boolean; achievements: number }> {
+  const store = await loadAchievementStore();
+  const achievements = options.period
+    ? await getAchievementsByPeriod(options.period)
+    : await getAchievements();
+  const summary = await getAchievementsSummary(options.period);
+  const date = new Date().toISOString().split('T')[0];
+  
+  const docUrl = options.docUrl || store.config.bragDocUrl;
+  if (docUrl) {
+    const heading = options.title || `Achievements - ${date}`;
+    // The summary's own heading line is replaced by the dated heading
+    const body = summaryToPlainText(summary.replace(/^## .*\n+/, ''));
+    const result = await appendToGoogleDoc(docUrl, body, { heading });
+    return { url: result.url, created: false, achievements: achievements.length };
+  }
+  
+  const doc = await createGoogleDocFromMarkdown(options.title || `Brag Doc - ${date}`, summary);
+  store.config.bragDocUrl = doc.url;
+  await saveAchievementStore(store);
+  return { url: doc.url, created: true, achievements: achievements.length };
+}
+
 /**
  * Get achievements count by category
  */
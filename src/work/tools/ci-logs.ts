@@ -0,0 +1,358 @@
+// CI Logs - fetch failed job logs and boil them down for the fix prompt
+// GitHub Actions and CircleCI logs are downloaded per failed job; GitLab job traces come
+// from gitlab.ts. Each log is cut to the failing step, trimmed to the window around the
+// errors, and scanned for jest / pytest / go test / tsc / eslint failures.
+
+import { getWorkflowJobLog, getWorkflowRunJobs, CheckRun } from '../clients/github.js';
+import { getJobLog } from '../clients/gitlab.js';
+import { getFailedJobs, getFailedStepLog, isCircleCIConfigured, isCircleCIUrl } from '../clients/circleci.js';
+import { CITestFailure, FailureInfo } from './pr-watch-types.js';
+
+const LOG_WINDOW_CHARS = 5000;
+const CONTEXT_LINES_BEFORE = 15;
+const CONTEXT_LINES_AFTER = 5;
+const MAX_TEST_FAILURES = 25;
+const MAX_CIRCLECI_JOBS = 3;
+
+export interface CILogSummary {
+  failedSteps: string[];
+  jobLog?: string;
+  testFailures: CITestFailure[];
+}
+
+// ===== Fetching =====
+
+/**
+ * Whether a failed check ran on CircleCI (checks app, or a commit status linking to CircleCI)
+ */
+export function isCircleCIFailure(failure: FailureInfo): boolean {
+  return !!failure.app?.includes('circleci') || isCircleCIUrl(failure.checkUrl);
+}
+
+/**
+ * Logs of a failed GitHub Actions check run - its job's failing step
+ */
+export async function fetchGitHubActionsLogs(repoUrl: string, checkRun: CheckRun): Promise<CILogSummary> {
+  const summary: CILogSummary = { failedSteps: [], testFailures: [] };
+
+  const runIdMatch = checkRun.html_url.match(/runs\/(\d+)/);
+  const jobs = runIdMatch ? await getWorkflowRunJobs(repoUrl, parseInt(runIdMatch[1])) : [];
+  for (const job of jobs) {
+    if (job.conclusion === 'failure') {
+      for (const step of job.steps) {
+        if (step.conclusion === 'failure') {
+          summary.failedSteps.push(`${job.name} > ${step.name}`);
+        }
+      }
+    }
+  }
+
+  // Check run IDs are job IDs for Actions
+  const job = jobs.find(j => j.id === checkRun.id);
+  let log: string;
+  try {
+    log = await getWorkflowJobLog(repoUrl, checkRun.id);
+  } catch {
+    // Logs expire with the repo's retention period
+    return summary;
+  }
+  const failedStep = job?.steps.find(step => step.conclusion === 'failure');
+  const stepLog = failedStep ? sliceGitHubStep(log, failedStep.started_at, failedStep.completed_at) : '';
+
+  return { ...summary, ...summarizeJobLog(stepLog || log) };
+}
+
+/**
+ * Logs of a failed GitLab CI job (check run IDs are job IDs)
+ */
+export async function fetchGitLabLogs(repoUrl: string, checkRun: CheckRun): Promise<CILogSummary> {
+  const log = await getJobLog(repoUrl, checkRun.id, 50000);
+  return { failedSteps: [], ...summarizeJobLog(log) };
+}
+
+/**
+ * Logs of the failed CircleCI jobs behind a check's details URL (null without CIRCLECI_TOKEN)
+ */
+export async function fetchCircleCILogs(url: string): Promise<CILogSummary | null> {
+  if (!isCircleCIConfigured()) {
+    return null;
+  }
+
+  const jobs = (await getFailedJobs(url)).slice(0, MAX_CIRCLECI_JOBS);
+  const failedSteps: string[] = [];
+  const windows: string[] = [];
+  const testFailures: CITestFailure[] = [];
+  for (const job of jobs) {
+    const stepLog = await getFailedStepLog(job.projectSlug, job.jobNumber);
+    if (!stepLog) continue;
+    failedSteps.push(`${job.name} > ${stepLog.step}`);
+    const summary = summarizeJobLog(stepLog.output, Math.floor(LOG_WINDOW_CHARS / jobs.length));
+    if (summary.jobLog) {
+      windows.push(jobs.length > 1 ? `[${job.name}]\n${summary.jobLog}` : summary.jobLog);
+    }
+    testFailures.push(...summary.testFailures);
+  }
+
+  return {
+    failedSteps,
+    jobLog: windows.length > 0 ? windows.join('\n\n') : undefined,
+    testFailures: dedupeFailures(testFailures),
+  };
+}
+
+// ===== Log Processing =====
+
+const TIMESTAMP_PREFIX = /^(\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d(?:\.\d+)?Z) ?/;
+
+/**
+ * Lines of a GitHub Actions job log written while a step ran (step times are to the second)
+ */
+function sliceGitHubStep(log: string, startedAt?: string | null, completedAt?: string | null): string {
+  const start = startedAt ? Date.parse(startedAt) : NaN;
+  const end = completedAt ? Date.parse(completedAt) + 1000 : Infinity;
+  if (isNaN(start)) return '';
+
+  return log
+    .split(/\r?\n/)
+    .filter(line => {
+      const match = line.match(TIMESTAMP_PREFIX);
+      if (!match) return false;
+      const time = Date.parse(match[1]);
+      return time >= start && time < end;
+    })
+    .join('\n');
+}
+
+/**
+ * Log without ANSI colors, timestamps and GitHub group markers
+ */
+function cleanLog(log: string): string[] {
+  return log
+    .replace(/\x1b\[[0-9;]*[A-Za-z]/g, '')
+    .split(/\r?\n/)
+    .map(line => line
+      .replace(TIMESTAMP_PREFIX, '')
+      .replace(/^##\[(group|endgroup)\]/, '')
+      .replace(/\r/g, ''));
+}
+
+const ERROR_MARKERS = [
+  /##\[error\]/,
+  /^\s*(FAIL|FAILED|ERROR)\b/,
+  /--- FAIL:/,
+  /^\s*●\s/,
+  /\berror TS\d+:/,
+  /^\s+\d+:\d+\s+error\s/,
+  /Traceback \(most recent call last\)/,
+  /^panic:/,
+  /\b[A-Z]\w*(Error|Exception):\s/,
+  /^E\s{2,}\S/,
+];
+
+// Only says the step failed - the cause is further up
+const GENERIC_EXIT = /Process completed with exit code|Exited with code|^exit status \d+$|ELIFECYCLE|npm ERR!/;
+
+function isErrorLine(line: string): boolean {
+  return !GENERIC_EXIT.test(line) && ERROR_MARKERS.some(marker => marker.test(line));
+}
+
+/**
+ * The part of a log around its errors, else its tail
+ * Over-long windows keep the first errors and the closing summary.
+ */
+export function extractErrorWindow(log: string, maxChars: number = LOG_WINDOW_CHARS): string {
+  const lines = cleanLog(log);
+  const errorLines = lines.map((line, index) => isErrorLine(line) ? index : -1).filter(index => index >= 0);
+
+  if (errorLines.length === 0) {
+    const tail = lines.join('\n').trim();
+    return tail.length > maxChars ? tail.slice(-maxChars) : tail;
+  }
+
+  const start = Math.max(0, errorLines[0] - CONTEXT_LINES_BEFORE);
+  const end = Math.min(lines.length, errorLines[errorLines.length - 1] + CONTEXT_LINES_AFTER + 1);
+  const window = lines.slice(start, end).join('\n').trim();
+  if (window.length <= maxChars) {
+    return window;
+  }
+
+  const headChars = Math.floor(maxChars * 0.6);
+  const tailChars = maxChars - headChars;
+  const omitted = window.slice(headChars, window.length - tailChars).split('\n').length;
+  return `${window.slice(0, headChars)}\n... [${omitted} lines omitted] ...\n${window.slice(-tailChars)}`;
+}
+
+/**
+ * Error window and recognised failures of a job log
+ */
+export function summarizeJobLog(log: string, maxChars: number = LOG_WINDOW_CHARS): Omit<CILogSummary, 'failedSteps'> {
+  const jobLog = extractErrorWindow(log, maxChars);
+  return {
+    jobLog: jobLog || undefined,
+    testFailures: parseTestFailures(log),
+  };
+}
+
+// ===== Test Runner Output =====
+
+// CI checkout paths (GitHub Actions, CircleCI, GitLab) down to repo-relative
+function relativePath(path: string): string {
+  return path
+    .replace(/^\/(?:home\/runner\/work|.*?\/_work)\/[^/]+\/[^/]+\//, '')
+    .replace(/^\/(?:home\/circleci\/(?:project|repo)|builds\/[^/]+(?:\/[^/]+)*?\/[^/]+)\//, '')
+    .replace(/^\.\//, '');
+}
+
+function parseJest(lines: string[]): CITestFailure[] {
+  const failures: CITestFailure[] = [];
+  let file: string | undefined;
+
+  lines.forEach((line, index) => {
+    const suite = line.match(/^\s*FAIL\s+(\S+\.[cm]?[jt]sx?)\b/);
+    if (suite) {
+      file = relativePath(suite[1]);
+      return;
+    }
+
+    const test = line.match(/^\s*●\s+(.+?)\s*$/);
+    if (!test || /^Console$/.test(test[1])) return;
+
+    const following = lines.slice(index + 1, index + 40);
+    const message = following.map(l => l.trim()).find(l => l.length > 0) || 'failed';
+    const baseName = file?.split('/').pop();
+    let lineNumber: number | undefined;
+    if (baseName) {
+      for (const l of following) {
+        const location = l.match(new RegExp(`${baseName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}:(\\d+):\\d+`));
+        if (location) {
+          lineNumber = parseInt(location[1], 10);
+          break;
+        }
+      }
+    }
+    failures.push({ tool: 'jest', file, line: lineNumber, name: test[1], message });
+  });
+
+  return failures;
+}
+
+function parsePytest(lines: string[]): CITestFailure[] {
+  const failures: CITestFailure[] = [];
+  for (const line of lines) {
+    const match = line.match(/^(?:FAILED|ERROR) (\S+?\.py)(?:::(\S+))?(?: - (.+))?$/);
+    if (!match) continue;
+    const file = relativePath(match[1]);
+    // Tracebacks print "path/test_x.py:23: AssertionError"
+    const location = lines.find(l => l.startsWith(`${match[1]}:`) && /^\S+:\d+: /.test(l));
+    failures.push({
+      tool: 'pytest',
+      file,
+      line: location ? parseInt(location.split(':')[1], 10) : undefined,
+      name: match[2],
+      message: match[3] || (line.startsWith('ERROR') ? 'error' : 'failed'),
+    });
+  }
+  return failures;
+}
+
+function parseGoTest(lines: string[]): CITestFailure[] {
+  const failures: CITestFailure[] = [];
+
+  lines.forEach((line, index) => {
+    const test = line.match(/^\s*--- FAIL: (\S+) \(/);
+    if (test) {
+      // Failure messages are the indented "file_test.go:12: message" lines before the verdict
+      let detail: RegExpMatchArray | null = null;
+      for (let i = index - 1; i >= Math.max(0, index - 30) && !detail; i--) {
+        if (/^\s*(=== RUN|--- (PASS|FAIL))/.test(lines[i])) break;
+        detail = lines[i].match(/^\s+(\S+\.go):(\d+): (.+)$/);
+      }
+      for (let i = index + 1; i < Math.min(lines.length, index + 10) && !detail; i++) {
+        if (/^\s*(---|===|FAIL|ok)\b/.test(lines[i])) break;
+        detail = lines[i].match(/^\s+(\S+\.go):(\d+): (.+)$/);
+      }
+      failures.push({
+        tool: 'go',
+        file: detail ? relativePath(detail[1]) : undefined,
+        line: detail ? parseInt(detail[2], 10) : undefined,
+        name: test[1],
+        message: detail ? detail[3] : 'failed',
+      });
+      return;
+    }
+
+    // Build errors: "pkg/foo.go:12:5: undefined: bar"
+    const build = line.match(/^(\S+\.go):(\d+):\d+: (.+)$/);
+    if (build) {
+      failures.push({ tool: 'go', file: relativePath(build[1]), line: parseInt(build[2], 10), message: build[3] });
+    }
+  });
+
+  return failures;
+}
+
+function parseTsc(lines: string[]): CITestFailure[] {
+  const failures: CITestFailure[] = [];
+  for (const line of lines) {
+    const match = line.match(/^\s*(\S+\.[cm]?tsx?)\((\d+),\d+\): error (TS\d+): (.+)$/)
+      || line.match(/^\s*(\S+\.[cm]?tsx?):(\d+):\d+ - error (TS\d+): (.+)$/);
+    if (match) {
+      failures.push({ tool: 'tsc', file: relativePath(match[1]), line: parseInt(match[2], 10), name: match[3], message: match[4] });
+    }
+  }
+  return failures;
+}
+
+// Stylish format: a file path line, then "  12:5  error  Message  rule-name" lines
+function parseEslint(lines: string[]): CITestFailure[] {
+  const failures: CITestFailure[] = [];
+  let file: string | undefined;
+  for (const line of lines) {
+    if (/^\S+\.(?:[cm]?[jt]sx?|vue|svelte)$/.test(line.trim()) && !/^\s/.test(line)) {
+      file = relativePath(line.trim());
+      continue;
+    }
+    const issue = line.match(/^\s+(\d+):\d+\s+error\s+(.+?)(?:\s{2,}(\S+))?$/);
+    if (issue && file) {
+      failures.push({ tool: 'eslint', file, line: parseInt(issue[1], 10), name: issue[3], message: issue[2] });
+    } else if (line.trim() === '') {
+      file = undefined;
+    }
+  }
+  return failures;
+}
+
+function dedupeFailures(failures: CITestFailure[]): CITestFailure[] {
+  const seen = new Set<string>();
+  return failures.filter(failure => {
+    const key = `${failure.tool}|${failure.file}|${failure.line}|${failure.name}|${failure.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, MAX_TEST_FAILURES);
+}
+
+/**
+ * Failing tests, type errors and lint errors recognised in a log
+ */
+export function parseTestFailures(log: string): CITestFailure[] {
+  const lines = cleanLog(log);
+  return dedupeFailures([
+    ...parseJest(lines),
+    ...parsePytest(lines),
+    ...parseGoTest(lines),
+    ...parseTsc(lines),
+    ...parseEslint(lines),
+  ]);
+}
+
+/**
+ * Prompt lines for parsed failures
+ */
+export function formatTestFailures(failures: CITestFailure[]): string[] {
+  return failures.map(failure => {
+    const location = failure.file ? `${failure.file}${failure.line ? `:${failure.line}` : ''}` : '';
+    const name = failure.name ? `${failure.name}: ` : '';
+    return `  - [${failure.tool}] ${location}${location ? ' ' : ''}${name}${failure.message}`;
+  });
+}
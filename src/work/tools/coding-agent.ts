@@ -0,0 +1,509 @@
+// Coding Agents - pluggable backends that edit a cloned repo for PR auto-fix and task execution
+// Backends: the Cursor CLI, Aider, a generic command template, and in-process (the work agent
+// edits files itself through the workspace file and shell tools).
+// The backend is chosen per workstream, then per repo, then the default (see storage/preferences.ts);
+// with nothing configured the first available of cursor → aider → command → in-process is used.
+
+import { spawn, execFile } from 'child_process';
+import { promisify } from 'util';
+import { writeFile, unlink } from 'fs/promises';
+import { realpathSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative, isAbsolute, resolve, dirname, basename, normalize } from 'path';
+import { randomUUID } from 'crypto';
+import { CodingAgentBackend } from '../types.js';
+import { getCodingAgentPreferences, getPRWatchRepoSettings } from '../storage/preferences.js';
+import {
+  startCursorSessionWithProgress,
+  continueCursorSessionWithProgress,
+  getCursorSessionStatus,
+  isCursorAvailable,
+} from './cursor.js';
+import { getWorkspace } from './shell.js';
+import { createUnattendedApprovalHandler, ApprovalHandler } from '../agent/approval.js';
+import { ShellService } from '../../utils/platform/index.js';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_TIMEOUT_MS = 600000;  // 10 minutes
+const MAX_OUTPUT_CHARS = 20000;
+
+export const CODING_AGENT_BACKENDS: CodingAgentBackend[] = ['cursor', 'aider', 'command', 'in-process'];
+
+// Response from any coding agent backend
+export interface CodingAgentResponse {
+  backend: CodingAgentBackend;
+  success: boolean;
+  output: string;
+  error?: string;
+  sessionId?: string;         // Backend session that can be continued (Cursor chat ID)
+  filesModified?: string[];
+}
+
+export interface CodingAgentRunOptions {
+  workspace: string;          // Absolute path of the cloned repo
+  repoUrl?: string;           // Remote the workspace was cloned from (for per-repo settings)
+  timeout?: number;           // Default: 10 minutes
+  force?: boolean;            // Auto-approve the backend's own commands (Cursor --force, Aider --yes-always)
+  continueSession?: boolean;  // Follow up in the backend's existing session for this workspace, if it keeps one
+  noCommit?: boolean;         // Leave edits uncommitted (Aider --no-auto-commits; other backends are told in the prompt)
+  workstreamId?: string;
+}
+
+export interface CodingAgent {
+  readonly backend: CodingAgentBackend;
+  readonly displayName: string;
+  isAvailable(): Promise<boolean>;
+  // Workspace the backend is busy with, or null (each backend runs one job at a time)
+  busyWith(workstreamId?: string): string | null;
+  run(prompt: string, options: CodingAgentRunOptions): Promise<CodingAgentResponse>;
+}
+
+// ===== Shared helpers =====
+
+// Workspaces with a job running, per backend (Cursor tracks its own sessions)
+const runningJobs = new Map<CodingAgentBackend, string>();
+
+async function gitHead(workspace: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd: workspace });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files changed since `sinceSha` - committed or still in the working tree
+ */
+async function changedFiles(workspace: string, sinceSha: string | null): Promise<string[]> {
+  const files = new Set<string>();
+  try {
+    if (sinceSha) {
+      const { stdout } = await execFileAsync('git', ['diff', '--name-only', sinceSha, 'HEAD'], { cwd: workspace });
+      stdout.split('\n').filter(Boolean).forEach(f => files.add(f));
+    }
+    const { stdout } = await execFileAsync('git', ['status', '--porcelain'], { cwd: workspace });
+    stdout.split('\n').filter(Boolean).forEach(line => files.add(line.slice(3).trim()));
+  } catch {
+    // Not a git repo - nothing to report
+  }
+  return [...files];
+}
+
+const NO_COMMIT_NOTE = '\n\nLeave your changes uncommitted in the working tree - do not run git commit, rebase or merge.';
+
+// Backends that can't be told not to commit get it in the prompt
+function withCommitPolicy(prompt: string, noCommit: boolean | undefined): string {
+  return noCommit ? prompt + NO_COMMIT_NOTE : prompt;
+}
+
+/**
+ * Run a job for a backend: marks the workspace busy and reports the files it changed
+ */
+async function trackJob(
+  backend: CodingAgentBackend,
+  workspace: string,
+  job: () => Promise<Omit<CodingAgentResponse, 'backend' | 'filesModified'>>
+): Promise<CodingAgentResponse> {
+  runningJobs.set(backend, workspace);
+  const before = await gitHead(workspace);
+  try {
+    const result = await job();
+    return { backend, ...result, filesModified: await changedFiles(workspace, before) };
+  } catch (error) {
+    return { backend, success: false, output: '', error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    runningJobs.delete(backend);
+  }
+}
+
+interface ProcessResult {
+  exitCode: number | null;
+  output: string;
+  timedOut: boolean;
+}
+
+function runProcess(
+  command: string,
+  args: string[],
+  options: { cwd: string; timeout: number; shell?: string; env?: NodeJS.ProcessEnv }
+): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, {
+      cwd: options.cwd,
+      shell: options.shell,
+      env: { ...process.env, ...options.env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      windowsHide: true,
+    });
+
+    let output = '';
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString()).slice(-MAX_OUTPUT_CHARS);
+    };
+    proc.stdout?.on('data', append);
+    proc.stderr?.on('data', append);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      proc.kill('SIGTERM');
+    }, options.timeout);
+
+    proc.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    proc.on('close', (exitCode) => {
+      clearTimeout(timer);
+      resolve({ exitCode, output, timedOut });
+    });
+  });
+}
+
+function processResponse(name: string, result: ProcessResult, timeout: number): Omit<CodingAgentResponse, 'backend' | 'filesModified'> {
+  if (result.timedOut) {
+    return { success: false, output: result.output, error: `${name} timed out after ${Math.round(timeout / 1000)}s` };
+  }
+  if (result.exitCode !== 0) {
+    return { success: false, output: result.output, error: `${name} exited with code ${result.exitCode}` };
+  }
+  return { success: true, output: result.output };
+}
+
+// POSIX single-quoting for {prompt}/{workspace} substitution into a command template
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// ===== Backends =====
+
+const cursorAgent: CodingAgent = {
+  backend: 'cursor',
+  displayName: 'Cursor',
+  isAvailable: () => isCursorAvailable(),
+  busyWith(workstreamId) {
+    const status = getCursorSessionStatus(workstreamId);
+    return status.active ? status.workspace || null : null;
+  },
+  async run(prompt, options) {
+    const { workspace, timeout = DEFAULT_TIMEOUT_MS, force, continueSession, workstreamId } = options;
+    prompt = withCommitPolicy(prompt, options.noCommit);
+    const status = getCursorSessionStatus(workstreamId);
+    const response = continueSession && status.active && status.workspace === workspace
+      ? await continueCursorSessionWithProgress(prompt, { timeout, force }, workstreamId)
+      : await startCursorSessionWithProgress(prompt, workspace, { timeout, force }, workstreamId);
+    return {
+      backend: 'cursor',
+      success: response.success,
+      output: response.output,
+      error: response.error,
+      sessionId: response.chatId,
+      filesModified: response.filesModified,
+    };
+  },
+};
+
+// AIDER_PATH (default: aider on PATH), AIDER_MODEL, AIDER_ARGS (extra flags, space-separated)
+const aiderAgent: CodingAgent = {
+  backend: 'aider',
+  displayName: 'Aider',
+  async isAvailable() {
+    try {
+      await execFileAsync(process.env.AIDER_PATH || 'aider', ['--version'], { timeout: 15000 });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  busyWith: () => runningJobs.get('aider') || null,
+  run(prompt, options) {
+    const { workspace, timeout = DEFAULT_TIMEOUT_MS, force, noCommit } = options;
+    return trackJob('aider', workspace, async () => {
+      // Aider commits its own edits, which is what the PR auto-fix flow looks for
+      const args = ['--message', prompt, '--no-stream', '--no-pretty', '--no-check-update', '--no-show-model-warnings'];
+      if (force) args.push('--yes-always');
+      if (noCommit) args.push('--no-auto-commits');
+      if (process.env.AIDER_MODEL) args.push('--model', process.env.AIDER_MODEL);
+      if (process.env.AIDER_ARGS) args.push(...process.env.AIDER_ARGS.split(/\s+/).filter(Boolean));
+      const result = await runProcess(process.env.AIDER_PATH || 'aider', args, { cwd: workspace, timeout });
+      return processResponse('Aider', result, timeout);
+    });
+  },
+};
+
+/**
+ * Command template for the 'command' backend - CODING_AGENT_COMMAND, else the saved preference
+ * Placeholders: {prompt} and {workspace} (shell-quoted), {promptFile} (path to a file holding the prompt).
+ * The prompt is also passed as $CODING_AGENT_PROMPT.
+ */
+async function getCommandTemplate(): Promise<string | undefined> {
+  return process.env.CODING_AGENT_COMMAND || (await getCodingAgentPreferences()).commandTemplate;
+}
+
+const commandAgent: CodingAgent = {
+  backend: 'command',
+  displayName: 'Command',
+  async isAvailable() {
+    return !!(await getCommandTemplate());
+  },
+  busyWith: () => runningJobs.get('command') || null,
+  run(prompt, options) {
+    const { workspace, timeout = DEFAULT_TIMEOUT_MS } = options;
+    prompt = withCommitPolicy(prompt, options.noCommit);
+    return trackJob('command', workspace, async () => {
+      const template = await getCommandTemplate();
+      if (!template) {
+        throw new Error('No coding agent command configured. Set CODING_AGENT_COMMAND or use coding_agent_set with a commandTemplate, e.g. "claude -p {prompt}"');
+      }
+
+      const promptFile = join(tmpdir(), `coding-agent-${randomUUID()}.md`);
+      await writeFile(promptFile, prompt, 'utf-8');
+      try {
+        const command = template
+          .replace(/\{prompt\}/g, () => shellQuote(prompt))
+          .replace(/\{promptFile\}/g, () => shellQuote(promptFile))
+          .replace(/\{workspace\}/g, () => shellQuote(workspace));
+        const result = await runProcess(command, [], {
+          cwd: workspace,
+          timeout,
+          shell: ShellService.getExecOptions().shell,
+          env: { CODING_AGENT_PROMPT: prompt, CODING_AGENT_WORKSPACE: workspace },
+        });
+        return processResponse(`"${template.split(/\s+/)[0]}"`, result, timeout);
+      } finally {
+        await unlink(promptFile).catch(() => {});
+      }
+    });
+  },
+};
+
+const inProcessAgent: CodingAgent = {
+  backend: 'in-process',
+  displayName: 'Work agent (in-process)',
+  isAvailable: async () => true,
+  busyWith: () => runningJobs.get('in-process') || null,
+  run(prompt, options) {
+    const { workspace, repoUrl, timeout = DEFAULT_TIMEOUT_MS, workstreamId } = options;
+    prompt = withCommitPolicy(prompt, options.noCommit);
+    return trackJob('in-process', workspace, async () => {
+      // The file tools are rooted at WORK_DIRS - cloned repos live under it
+      const repoDir = relative(getWorkspace(), workspace);
+      if (!repoDir || repoDir.startsWith('..') || isAbsolute(repoDir)) {
+        throw new Error(`The in-process coding agent can only edit repos under WORK_DIRS (got ${workspace})`);
+      }
+
+      // The repo's check commands (tests, builds) are the only commands it runs besides local git
+      const { checkCommands = [] } = repoUrl ? await getPRWatchRepoSettings(normalizeRepoKey(repoUrl)) : {};
+
+      // Imported lazily - agent.ts imports the PR tracking and task tools that use this module
+      const { WorkAgentSession } = await import('../agent.js');
+      const session = new WorkAgentSession(false);
+      session.setWorkstreamId(workstreamId);
+      session.setApprovalHandler(inProcessApprovalHandler(workspace, checkCommands));
+
+      const timer = setTimeout(() => session.interrupt(), timeout);
+      try {
+        const result = await session.chat(buildInProcessPrompt(prompt, repoDir, checkCommands));
+        if (result.interrupted) {
+          return { success: false, output: result.response, error: `In-process agent timed out after ${Math.round(timeout / 1000)}s` };
+        }
+        return { success: true, output: result.response };
+      } finally {
+        clearTimeout(timer);
+      }
+    });
+  },
+};
+
+// git subcommands that only read or change the clone itself (no fetch/push, config, hooks or pagers)
+const LOCAL_GIT_COMMANDS = new Set(['status', 'diff', 'log', 'show', 'add', 'rm', 'mv', 'restore', 'commit', 'stash', 'rev-parse', 'ls-files']);
+// ...and these only to continue or abort one already in progress
+const IN_PROGRESS_GIT_COMMANDS = new Set(['rebase', 'merge', 'cherry-pick']);
+const IN_PROGRESS_GIT_ACTIONS = new Set(['--continue', '--abort', '--skip']);
+
+// Chaining, redirection, substitution and escapes - a command using any of them is never run
+const SHELL_SYNTAX = /[;&|<>`$()\\\r\n]/;
+// Double quotes still expand $ and backticks
+const DOUBLE_QUOTED_SYNTAX = /[`$\\]/;
+
+/**
+ * Split a command into the words the shell would see, or null if it uses more than plain
+ * words and quotes (so `g""it push` is read as `git push`, not let through as something else)
+ */
+export function splitCommandWords(command: string): string[] | null {
+  const words: string[] = [];
+  let word: string | null = null;
+  let quote: string | null = null;
+  for (const ch of command) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (quote === '"' && DOUBLE_QUOTED_SYNTAX.test(ch)) return null;
+      else word += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      word = word ?? '';
+    } else if (SHELL_SYNTAX.test(ch)) {
+      return null;
+    } else if (/\s/.test(ch)) {
+      if (word !== null) words.push(word);
+      word = null;
+    } else {
+      word = (word ?? '') + ch;
+    }
+  }
+  if (quote) return null;
+  if (word !== null) words.push(word);
+  return words;
+}
+
+// An argument naming a file outside the repo (`-F ~/.ssh/id_rsa`, `--output=/tmp/x`, `../..`)
+function pointsOutsideRepo(word: string): boolean {
+  const value = word.replace(/^--[\w-]+=/, '').replace(/^-\w(?=[/~.])/, '');
+  return isAbsolute(value) || value.startsWith('~') || normalize(value).split(/[/\\]/)[0] === '..';
+}
+
+/**
+ * Allowlist for the in-process agent's shell commands: local git, or one of the repo's own
+ * check commands, with no extra argument pointing outside the repo
+ */
+export function isAllowedCodingAgentCommand(command: string, repoCommands: string[]): boolean {
+  const words = splitCommandWords(command);
+  if (!words || words.length === 0) return false;
+  if (words[0] === 'git') {
+    const [, subcommand, ...rest] = words;
+    if (rest.some(pointsOutsideRepo)) return false;
+    if (LOCAL_GIT_COMMANDS.has(subcommand)) return true;
+    return IN_PROGRESS_GIT_COMMANDS.has(subcommand) && rest.length === 1 && IN_PROGRESS_GIT_ACTIONS.has(rest[0]);
+  }
+  return repoCommands.some(allowed => {
+    const allowedWords = splitCommandWords(allowed);
+    return !!allowedWords && allowedWords.length > 0 && allowedWords.every((w, i) => words[i] === w)
+      && !words.slice(allowedWords.length).some(pointsOutsideRepo);
+  });
+}
+
+// Where a path really lands - symlinks checked into the clone can point anywhere
+function realLocation(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    const parent = dirname(path);
+    return parent === path ? path : join(realLocation(parent), basename(path));
+  }
+}
+
+// Path (relative to WORK_DIRS) inside the repo, or null; .git is off limits unless allowGitDir
+function pathInRepo(workspace: string, path: string, allowGitDir = false): string | null {
+  const fromRepo = relative(realLocation(workspace), realLocation(resolve(getWorkspace(), path)));
+  if (fromRepo.startsWith('..') || isAbsolute(fromRepo)) return null;
+  if (!allowGitDir && fromRepo.split(/[/\\]/)[0] === '.git') return null;
+  return fromRepo;
+}
+
+/**
+ * Approvals for the in-process agent's session: it runs in the background with a prompt built
+ * from untrusted text (CI logs, review comments, conflict hunks), so nobody is asked - file
+ * writes inside the repo and allowlisted commands go through, everything else is rejected.
+ */
+function inProcessApprovalHandler(workspace: string, repoCommands: string[]): ApprovalHandler {
+  return createUnattendedApprovalHandler(async request => {
+    const { toolName, args } = request;
+    if (toolName === 'write_file' || toolName === 'create_directory') {
+      if (pathInRepo(workspace, String(args.path || '')) !== null) {
+        return { action: 'approve' };
+      }
+      return { action: 'reject', reason: 'The coding agent may only write files inside the repo it is editing (not under .git)' };
+    }
+    if (toolName === 'shell_command') {
+      const command = String(args.command || '');
+      if (pathInRepo(workspace, String(args.workingDir || ''), true) !== null && isAllowedCodingAgentCommand(command, repoCommands)) {
+        return { action: 'approve' };
+      }
+      const allowed = repoCommands.length > 0 ? `, or: ${repoCommands.join('; ')}` : '';
+      return {
+        action: 'reject',
+        reason: `The coding agent may only run local git commands (${[...LOCAL_GIT_COMMANDS].join(', ')})${allowed} - in the repo, as plain words without shell operators`,
+      };
+    }
+    return { action: 'reject', reason: `The coding agent may not use ${toolName} - only edit files and run local commands in the repo` };
+  });
+}
+
+function buildInProcessPrompt(task: string, repoDir: string, repoCommands: string[]): string {
+  return [
+    `You are the coding agent for the git repository at "${repoDir}" (relative to WORK_DIRS). Make the change yourself:`,
+    `- read_file, write_file and list_directory paths are relative to WORK_DIRS - prefix them with "${repoDir}/"`,
+    `- Run local git commands with shell_command and workingDir "${repoDir}" - one plain command per call, no pipes, redirects or &&`,
+    repoCommands.length > 0
+      ? `- To test or build, run only these commands (extra arguments are fine): ${repoCommands.join('; ')}`
+      : '- No test or build commands are configured for this repo - do not try to run any',
+    '- Stay on the current branch. Commit locally when asked; do not push, open PRs or post anywhere.',
+    'When done, reply with a short summary of what you changed and how you verified it.',
+    '',
+    'TASK:',
+    task,
+  ].join('\n');
+}
+
+const CODING_AGENTS: Record<CodingAgentBackend, CodingAgent> = {
+  'cursor': cursorAgent,
+  'aider': aiderAgent,
+  'command': commandAgent,
+  'in-process': inProcessAgent,
+};
+
+// ===== Selection =====
+
+/**
+ * Repo key for per-repo preferences - same repo however its URL was written
+ */
+export function normalizeRepoKey(repoUrl: string): string {
+  return repoUrl.trim().replace(/\.git$/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+export function getCodingAgent(backend: CodingAgentBackend): CodingAgent {
+  return CODING_AGENTS[backend];
+}
+
+export interface CodingAgentContext {
+  repoUrl?: string;
+  workstreamId?: string;
+}
+
+/**
+ * Configured backend for the context, and where the choice came from
+ */
+export async function getConfiguredCodingAgent(
+  context: CodingAgentContext = {}
+): Promise<{ backend?: CodingAgentBackend; source: 'workstream' | 'repo' | 'default' | 'env' | 'auto' }> {
+  const prefs = await getCodingAgentPreferences();
+  const byWorkstream = context.workstreamId ? prefs.workstreams?.[context.workstreamId] : undefined;
+  if (byWorkstream) return { backend: byWorkstream, source: 'workstream' };
+  const byRepo = context.repoUrl ? prefs.repos?.[normalizeRepoKey(context.repoUrl)] : undefined;
+  if (byRepo) return { backend: byRepo, source: 'repo' };
+  if (prefs.default) return { backend: prefs.default, source: 'default' };
+  const fromEnv = process.env.CODING_AGENT as CodingAgentBackend | undefined;
+  if (fromEnv && CODING_AGENT_BACKENDS.includes(fromEnv)) return { backend: fromEnv, source: 'env' };
+  return { source: 'auto' };
+}
+
+/**
+ * Coding agent to use for a repo / workstream
+ * Configured backends are used as-is (a missing tool surfaces as a failed run);
+ * auto-detection picks the first available backend
+ */
+export async function resolveCodingAgent(context: CodingAgentContext = {}): Promise<CodingAgent> {
+  const configured = await getConfiguredCodingAgent(context);
+  if (configured.backend) {
+    return CODING_AGENTS[configured.backend];
+  }
+
+  for (const backend of CODING_AGENT_BACKENDS) {
+    if (await CODING_AGENTS[backend].isAvailable()) {
+      return CODING_AGENTS[backend];
+    }
+  }
+  return inProcessAgent;
+}
@@ -11,6 +11,15 @@ import {
   getUnassignedTickets,
   getBacklogTickets,
   isJiraConfigured,
+  getIncident,
+  getIncidentTimeline,
+  findIncidentId,
+  isFireHydrantConfigured,
+  getOnCallPage,
+  getOnCallPageNotes,
+  findPageId,
+  normalizePageId,
+  isOnCallConfigured,
 } from '../clients/index.js';
 
 // ===== REPOSITORY METADATA =====
@@ -268,6 +277,25 @@ export async function releaseBranchLock(repoPath: string, branch: string): Promi
   }
 }
 
+/**
+ * Renew a lock this process holds, so work that runs longer than LOCK_STALE_MS keeps it
+ * Returns false if the lock is gone or now belongs to someone else
+ */
+export async function refreshBranchLock(repoPath: string, branch: string): Promise<boolean> {
+  const lockPath = getLockFilePath(repoPath, branch);
+  try {
+    const lock: BranchLock = JSON.parse(await readFile(lockPath, 'utf-8'));
+    if (lock.pid !== process.pid) {
+      return false;
+    }
+    lock.lockedAt = new Date().toISOString();
+    await writeFile(lockPath, JSON.stringify(lock, null, 2));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Check if a branch is locked by another process
  */
@@ -740,6 +768,12 @@ export interface InvestigationWorkspace {
   logsDir: string;
   findingsFile: string;
   reused?: boolean; // True if an existing directory was reused
+  incidentId?: string;
+  timelineFile?: string; // FireHydrant incident timeline, when the alert is tied to an incident
+  timelineError?: string;
+  pageId?: string;
+  pageFile?: string; // PagerDuty incident / Opsgenie alert, when the investigation starts from a page
+  pageError?: string;
 }
 
 /**
@@ -794,15 +828,80 @@ export function findExistingInvestigation(name: string): string | null {
   return null;
 }
 
+/**
+ * Write a FireHydrant incident's timeline to the workspace
+ * Returns the timeline bullets for findings.md
+ */
+async function pullIncidentTimeline(investigationPath: string, incidentId: string): Promise<{ file: string; bullets: string[] }> {
+  const [incident, timeline] = await Promise.all([
+    getIncident(incidentId),
+    getIncidentTimeline(incidentId),
+  ]);
+  if (!incident) {
+    throw new Error(`Incident ${incidentId} not found`);
+  }
+
+  const bullets = timeline.map(e => `- ${e.occurredAt} - [${e.type}]${e.author ? ` ${e.author}:` : ''} ${e.text.replace(/\s+/g, ' ').slice(0, 200)}`);
+  const file = join(investigationPath, 'incident-timeline.md');
+  await writeFile(file, `# Incident Timeline: ${incident.name}
+
+**Incident:** ${incident.id}
+**Severity:** ${incident.severity}
+**Milestone:** ${incident.currentMilestone}
+**Services:** ${incident.services.join(', ') || 'none'}
+**Pulled:** ${new Date().toISOString()}
+
+${timeline.map(e => `## ${e.occurredAt} - ${e.type}${e.author ? ` (${e.author})` : ''}\n\n${e.text}\n`).join('\n') || '(No timeline events yet)\n'}`);
+  return { file, bullets };
+}
+
+/**
+ * Write an on-call page (PagerDuty incident / Opsgenie alert) and its notes to the workspace
+ * Returns the timeline bullets for findings.md
+ */
+async function pullPage(investigationPath: string, pageId: string): Promise<{ file: string; bullets: string[] }> {
+  const page = await getOnCallPage(pageId);
+  if (!page) {
+    throw new Error(`Page ${pageId} not found`);
+  }
+  const notes = await getOnCallPageNotes(page.id);
+
+  const bullets = [
+    `- ${page.createdAt} - [page] ${page.title}`,
+    ...notes.map(n => `- ${n.createdAt} - [note]${n.author ? ` ${n.author}:` : ''} ${n.content.replace(/\s+/g, ' ').slice(0, 200)}`),
+  ];
+  const file = join(investigationPath, 'page.md');
+  await writeFile(file, `# Page: ${page.title}
+
+**Page:** ${page.id}${page.number !== undefined ? ` (#${page.number})` : ''} (${page.provider})
+**Status:** ${page.status}
+**Urgency:** ${page.urgency || 'unknown'}
+**Service:** ${page.service || 'unknown'}
+**Triggered:** ${page.createdAt}
+**Assigned to:** ${page.assignees.join(', ') || 'nobody'}
+**Acknowledged by:** ${page.acknowledgedBy.join(', ') || 'nobody'}${page.url ? `\n**URL:** ${page.url}` : ''}
+**Pulled:** ${new Date().toISOString()}
+
+${page.description ? `## Description\n\n${page.description}\n\n` : ''}## Notes
+
+${notes.map(n => `### ${n.createdAt}${n.author ? ` (${n.author})` : ''}\n\n${n.content}\n`).join('\n') || '(No notes yet)\n'}`);
+  return { file, bullets };
+}
+
 /**
  * Create an investigation workspace with standard structure
  * If existingDir is provided, reuse that directory instead of creating new
  * If a similar directory exists from today, reuse it (prevents duplicates on interruption)
+ * If the alert is tied to a FireHydrant incident (incidentId, or an incident URL in the alert),
+ * its timeline is pulled into incident-timeline.md and the findings Timeline section
+ * Likewise an on-call page (pageId, or a PagerDuty/Opsgenie URL in the alert) is pulled into page.md
  */
 export async function createInvestigationWorkspace(
   name: string,
   alertContent: string,
-  existingDir?: string
+  existingDir?: string,
+  incidentId?: string,
+  pageId?: string
 ): Promise<InvestigationWorkspace> {
   const workspace = getWorkspace();
   const date = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
@@ -840,6 +939,30 @@ export async function createInvestigationWorkspace(
   const logsDir = join(investigationPath, 'logs');
   await mkdir(logsDir, { recursive: true });
   
+  // Pull the incident timeline (a FireHydrant outage must not block the workspace)
+  const effectiveIncidentId = incidentId || findIncidentId(alertContent) || undefined;
+  let timeline: { file: string; bullets: string[] } | undefined;
+  let timelineError: string | undefined;
+  if (effectiveIncidentId && isFireHydrantConfigured()) {
+    try {
+      timeline = await pullIncidentTimeline(investigationPath, effectiveIncidentId);
+    } catch (error) {
+      timelineError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  
+  // Pull the page the investigation starts from (same rule - the page is context, not a prerequisite)
+  const effectivePageId = (pageId && normalizePageId(pageId)) || findPageId(alertContent) || undefined;
+  let page: { file: string; bullets: string[] } | undefined;
+  let pageError: string | undefined;
+  if (effectivePageId && isOnCallConfigured()) {
+    try {
+      page = await pullPage(investigationPath, effectivePageId);
+    } catch (error) {
+      pageError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  
   // Create findings file with template
   const findingsFile = join(investigationPath, 'findings.md');
   const findingsTemplate = `# Investigation: ${name}
@@ -859,7 +982,7 @@ export async function createInvestigationWorkspace(
 
 ## Timeline
 
-- ${new Date().toISOString()} - Investigation started
+${page ? page.bullets.join('\n') + '\n' : ''}${timeline?.bullets.length ? timeline.bullets.join('\n') + '\n' : ''}- ${new Date().toISOString()} - Investigation started
 
 ## Findings
 
@@ -882,7 +1005,7 @@ export async function createInvestigationWorkspace(
 ## Related Resources
 
 - Logs: [logs/](./logs/) (each search saved as separate file)
-- Alert: [alert.txt](./alert.txt)
+- Alert: [alert.txt](./alert.txt)${timeline ? '\n- Incident timeline: [incident-timeline.md](./incident-timeline.md)' : ''}${page ? '\n- Page: [page.md](./page.md)' : ''}
 
 ## Next Steps
 
@@ -901,6 +1024,12 @@ export async function createInvestigationWorkspace(
     logsDir,
     findingsFile,
     reused,
+    incidentId: effectiveIncidentId,
+    timelineFile: timeline?.file,
+    timelineError,
+    pageId: effectivePageId,
+    pageFile: page?.file,
+    pageError,
   };
 }
 
@@ -0,0 +1,315 @@
+// Flaky Tests - keep PR watch from "fixing" failures the PR did not cause
+// A failed check counts as flaky when it points at nothing the PR changed and either passes
+// on the base branch or has a history of flaking in this repo (green on an earlier re-run, or
+// the same tests failing across other PRs). Flaky failures are re-run through the CI's API
+// instead of going to the coding agent; how the re-run turns out feeds the history.
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { rerunJob, getCheckConclusionOnRef, PRChecksResult } from '../clients/github.js';
+import { getFailedJobs, parseCircleCIUrl, rerunFailedJobs, isCircleCIConfigured } from '../clients/circleci.js';
+import {
+  loadRepoFlakiness,
+  recordFlakinessFailures,
+  recordFlakinessRerun,
+  RepoFlakiness,
+  FlakinessRecord,
+} from '../storage/ci-flakiness.js';
+import { normalizeRepoKey } from './coding-agent.js';
+import { isCircleCIFailure } from './ci-logs.js';
+import { PRWatchSession, PRWatchEvent, FailureInfo, FixAttempt } from './pr-watch-types.js';
+
+const execFileAsync = promisify(execFile);
+
+const FLAKY_MIN_PRS = 3;              // A test failing on this many PRs (this one included) is flaky
+const MAX_RERUNS_PER_CHECK = 2;       // Per watch session, before falling back to a fix
+const RERUN_START_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Type and lint errors are deterministic - re-running never helps
+const DETERMINISTIC_TOOLS = new Set(['tsc', 'eslint']);
+
+// Paths in stack traces that are never the PR's code
+const THIRD_PARTY_PATH = /node_modules\/|site-packages\/|dist-packages\/|\/go\/pkg\/mod\/|^\/usr\/|^internal\//;
+
+export interface FlakinessAssessment {
+  flaky: boolean;
+  reasons: string[];
+}
+
+// ===== History =====
+
+function flakinessKeys(failure: FailureInfo): Array<{ key: string; kind: FlakinessRecord['kind'] }> {
+  const tests = (failure.testFailures || [])
+    .filter(test => !DETERMINISTIC_TOOLS.has(test.tool))
+    .map(test => ({
+      key: `${failure.checkName} > ${test.file || test.tool}::${test.name || test.message}`,
+      kind: 'test' as const,
+    }));
+  return [{ key: failure.checkName, kind: 'check' }, ...tests];
+}
+
+/**
+ * Add a failure to the repo's flakiness history (repeated polls of one head count once)
+ */
+export async function recordCheckFailure(session: PRWatchSession, failure: FailureInfo): Promise<void> {
+  await recordFlakinessFailures(normalizeRepoKey(session.repoUrl), flakinessKeys(failure), session.prNumber, session.currentSha);
+}
+
+function describeKnownFlakiness(records: RepoFlakiness, failure: FailureInfo): string | null {
+  const check = records[failure.checkName];
+  if (check && check.rerunPasses > 0 && check.rerunPasses >= check.rerunFailures) {
+    return `"${failure.checkName}" went green on re-run ${check.rerunPasses} time(s) before`;
+  }
+
+  const tests = flakinessKeys(failure).filter(k => k.kind === 'test').map(k => records[k.key]);
+  if (tests.length > 0 && tests.every(test => test && (test.rerunPasses > 0 || test.prs.length >= FLAKY_MIN_PRS))) {
+    return 'its failing tests also failed on other PRs or passed on re-run';
+  }
+
+  return null;
+}
+
+// ===== Diff Relation =====
+
+async function getTouchedFiles(session: PRWatchSession): Promise<string[] | null> {
+  try {
+    // The base branch name comes from the forge - pass it as an argument, never through a shell
+    await execFileAsync('git', ['fetch', 'origin', session.baseBranch, '--quiet'], { cwd: session.localRepoPath });
+    const { stdout } = await execFileAsync('git', ['diff', '--name-only', `origin/${session.baseBranch}...HEAD`], { cwd: session.localRepoPath });
+    return stdout.split('\n').map(line => line.trim()).filter(Boolean);
+  } catch {
+    return null;
+  }
+}
+
+function referencedPaths(failure: FailureInfo): string[] {
+  const paths = new Set<string>();
+  for (const test of failure.testFailures || []) {
+    if (test.file) paths.add(test.file);
+  }
+  for (const annotation of failure.annotations || []) {
+    paths.add(annotation.path);
+  }
+  const log = [failure.jobLog, failure.logs].filter(Boolean).join('\n');
+  for (const match of log.matchAll(/(?:^|[\s('"`])((?:[\w.@-]+\/)*[\w.@-]+\.(?:[cm]?[jt]sx?|py|go|rb|java|kt|rs|cs|php|scala|swift))(?=[:\s)'"`(]|$)/gm)) {
+    paths.add(match[1]);
+  }
+  return [...paths].filter(path => !THIRD_PARTY_PATH.test(path));
+}
+
+/**
+ * Whether the failure points at a file the PR changes (null when there is nothing to compare)
+ */
+async function isRelatedToDiff(session: PRWatchSession, failure: FailureInfo): Promise<boolean | null> {
+  const touched = await getTouchedFiles(session);
+  const referenced = referencedPaths(failure);
+  if (!touched || touched.length === 0 || referenced.length === 0) {
+    return null;
+  }
+
+  return referenced.some(ref => touched.some(file =>
+    ref === file || ref.endsWith(`/${file}`) || file.endsWith(`/${ref}`)
+  ));
+}
+
+/**
+ * Whether a failure looks unrelated to the PR and flaky
+ */
+export async function assessFlakiness(session: PRWatchSession, failure: FailureInfo): Promise<FlakinessAssessment> {
+  if (failure.testFailures?.some(test => DETERMINISTIC_TOOLS.has(test.tool))) {
+    return { flaky: false, reasons: ['type or lint errors are deterministic'] };
+  }
+
+  const related = await isRelatedToDiff(session, failure);
+  if (related) {
+    return { flaky: false, reasons: ['the failure points at files this PR changes'] };
+  }
+
+  const reasons: string[] = [];
+  if (related === false) {
+    reasons.push('no file this PR changes appears in the failure');
+  }
+
+  const known = describeKnownFlakiness(await loadRepoFlakiness(normalizeRepoKey(session.repoUrl)), failure);
+  if (known) {
+    reasons.push(known);
+    return { flaky: true, reasons };
+  }
+
+  if (related === false) {
+    const onBase = await getCheckConclusionOnRef(session.repoUrl, session.baseBranch, failure.checkName).catch(() => null);
+    if (onBase === 'success') {
+      reasons.push(`"${failure.checkName}" passes on ${session.baseBranch}`);
+      return { flaky: true, reasons };
+    }
+  }
+
+  return { flaky: false, reasons };
+}
+
+// ===== Re-runs =====
+
+/**
+ * Re-run the failed job through its CI's API
+ */
+async function rerunFailedCheck(repoUrl: string, failure: FailureInfo): Promise<void> {
+  if ((failure.app === 'github-actions' || failure.app === 'gitlab-ci') && failure.checkRunId) {
+    await rerunJob(repoUrl, failure.checkRunId);
+    return;
+  }
+
+  if (isCircleCIFailure(failure)) {
+    const url = failure.detailsUrl || failure.checkUrl;
+    if (!isCircleCIConfigured() || !url) {
+      throw new Error('re-running CircleCI jobs needs CIRCLECI_TOKEN');
+    }
+    const workflowId = parseCircleCIUrl(url)?.workflowId || (await getFailedJobs(url))[0]?.workflowId;
+    if (!workflowId) {
+      throw new Error(`no CircleCI workflow found for ${url}`);
+    }
+    await rerunFailedJobs(workflowId);
+    return;
+  }
+
+  throw new Error(`re-running ${failure.app || 'this check'} is not supported`);
+}
+
+function rerunsOf(session: PRWatchSession, checkName: string): FixAttempt[] {
+  return session.fixHistory.filter(h => h.method === 'rerun' && h.failure.checkName === checkName);
+}
+
+/**
+ * Re-run the failed job instead of fixing it, if the failure looks flaky
+ * Returns false when the failure should go to the coding agent: it looks real, it already
+ * failed a re-run on this head, the re-run budget is spent, or the CI can't re-run it.
+ */
+export async function rerunIfFlaky(
+  session: PRWatchSession,
+  failure: FailureInfo,
+  emitEvent: (event: PRWatchEvent) => void
+): Promise<boolean> {
+  try {
+    await recordCheckFailure(session, failure);
+  } catch {
+    // History is best effort
+  }
+
+  const reruns = rerunsOf(session, failure.checkName);
+  if (reruns.length >= MAX_RERUNS_PER_CHECK || reruns.some(r => r.rerun?.sha === session.currentSha)) {
+    return false;
+  }
+
+  const assessment = await assessFlakiness(session, failure);
+  if (!assessment.flaky) {
+    return false;
+  }
+
+  try {
+    await rerunFailedCheck(session.repoUrl, failure);
+  } catch (error) {
+    emitEvent({
+      type: 'error',
+      sessionId: session.sessionId,
+      error: `"${failure.checkName}" looks flaky but could not be re-run (${error instanceof Error ? error.message : error}) - fixing instead`,
+    });
+    return false;
+  }
+
+  session.fixHistory.push({
+    timestamp: Date.now(),
+    failure,
+    attemptNumber: reruns.length + 1,
+    method: 'rerun',
+    rerun: { sha: session.currentSha, reasons: assessment.reasons },
+    success: false,
+  });
+  session.pendingRerun = {
+    checkName: failure.checkName,
+    sha: session.currentSha,
+    requestedAt: Date.now(),
+    flakinessKeys: flakinessKeys(failure).map(k => k.key),
+  };
+  session.status = 'waiting_for_ci';
+
+  emitEvent({ type: 'rerun_triggered', sessionId: session.sessionId, checkName: failure.checkName, reasons: assessment.reasons });
+  return true;
+}
+
+/**
+ * Whether the checks still show the failure from before the re-run was requested
+ * (the CI has not picked the re-run up yet)
+ */
+export function isRerunStarting(session: PRWatchSession, checksResult: PRChecksResult): boolean {
+  const pending = session.pendingRerun;
+  if (!pending || Date.now() - pending.requestedAt > RERUN_START_TIMEOUT_MS) {
+    return false;
+  }
+  if (!checksResult.summary.failedChecks.some(check => check.name === pending.checkName)) {
+    return false;
+  }
+
+  const checkRun = checksResult.checkRuns.find(cr => cr.name === pending.checkName);
+  if (checkRun?.completed_at) {
+    return Date.parse(checkRun.completed_at) < pending.requestedAt;
+  }
+  // Commit statuses carry no timestamps - give the CI a couple of polls to report
+  return Date.now() - pending.requestedAt < 2 * 60 * 1000;
+}
+
+/**
+ * Record the outcome of the pending re-run
+ */
+export async function completeRerun(
+  session: PRWatchSession,
+  passed: boolean,
+  emitEvent: (event: PRWatchEvent) => void
+): Promise<void> {
+  const pending = session.pendingRerun;
+  if (!pending) return;
+  session.pendingRerun = undefined;
+
+  const attempt = rerunsOf(session, pending.checkName).find(r => r.rerun?.sha === pending.sha && r.rerun.passed === undefined);
+  if (attempt?.rerun) {
+    attempt.rerun.passed = passed;
+    attempt.success = passed;
+  }
+
+  try {
+    await recordFlakinessRerun(normalizeRepoKey(session.repoUrl), pending.flakinessKeys, passed);
+  } catch {
+    // History is best effort
+  }
+
+  emitEvent({ type: 'rerun_completed', sessionId: session.sessionId, checkName: pending.checkName, passed });
+}
+
+export interface FlakyCheckSummary {
+  name: string;
+  kind: FlakinessRecord['kind'];
+  failures: number;
+  prs: number[];
+  rerunPasses: number;
+  rerunFailures: number;
+  lastFailedAt?: string;
+  flaky: boolean;
+}
+
+/**
+ * A repo's failure history, flakiest first
+ */
+export async function getFlakinessSummary(repoUrl: string): Promise<FlakyCheckSummary[]> {
+  const records = await loadRepoFlakiness(normalizeRepoKey(repoUrl));
+  return Object.entries(records)
+    .map(([name, record]) => ({
+      name,
+      kind: record.kind,
+      failures: record.failures,
+      prs: record.prs,
+      rerunPasses: record.rerunPasses,
+      rerunFailures: record.rerunFailures,
+      lastFailedAt: record.lastFailedAt,
+      flaky: (record.rerunPasses > 0 && record.rerunPasses >= record.rerunFailures)
+        || (record.kind === 'test' && record.prs.length >= FLAKY_MIN_PRS),
+    }))
+    .sort((a, b) => Number(b.flaky) - Number(a.flaky) || b.rerunPasses - a.rerunPasses || b.failures - a.failures);
+}
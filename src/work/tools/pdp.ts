@@ -8,6 +8,7 @@ import { homedir } from 'os';
 import { 
   getGoogleDoc, 
   getGoogleDocComments, 
+  appendToGoogleDoc,
   extractDocId,
   GoogleDoc,
   GoogleDocComment,
@@ -45,6 +46,7 @@ export interface PDPConfig {
   googleDocId?: string;
   lastSyncAt?: number;
   lastCommentSyncAt?: number;
+  lastProgressUpdateAt?: number;
   ownerName?: string; // Your name for attribution matching
   ownerEmail?: string;
   autoSyncEnabled?: boolean;
@@ -225,6 +227,52 @@ export async function syncPDPFromGoogleDoc(): Promise<{
   };
 }
 
+/**
+ * Append a dated progress update (goal status and progress, plus an optional note) to the PDP doc
+ */
+export async function postPDPProgressUpdate(note?: string): Promise<{
+  url: string;
+  heading: string;
+  text: string;
+}> {
+  const store = await loadPDPStore();
+  
+  if (!store.config.googleDocId) {
+    throw new Error('No Google Doc configured for PDP. Use setPDPGoogleDoc first.');
+  }
+  
+  // Active goals, plus goals completed since the last update
+  const since = store.config.lastProgressUpdateAt || 0;
+  const goals = store.goals.filter(g =>
+    g.status === 'in_progress' || (g.status === 'completed' && g.updatedAt > since)
+  );
+  
+  const lines: string[] = [];
+  for (const goal of goals) {
+    const progress = goal.status === 'completed' ? 'completed' : `${goal.progress ?? 0}%`;
+    const achievements = goal.linkedAchievements?.length ? ` - ${goal.linkedAchievements.length} linked achievements` : '';
+    lines.push(`• ${goal.title}: ${progress}${achievements}`);
+    if (goal.notes) {
+      lines.push(`  ${goal.notes}`);
+    }
+  }
+  if (lines.length === 0) {
+    lines.push('No goals in progress.');
+  }
+  if (note) {
+    lines.push('', note);
+  }
+  
+  const heading = `Progress update - ${new Date().toISOString().split('T')[0]}`;
+  const text = lines.join('\n');
+  const result = await appendToGoogleDoc(store.config.googleDocId, text, { heading });
+  
+  store.config.lastProgressUpdateAt = Date.now();
+  await savePDPStore(store);
+  
+  return { url: result.url, heading, text };
+}
+
 /**
  * Get the cached PDP content (without fetching from Google)
  */
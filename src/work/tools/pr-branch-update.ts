@@ -0,0 +1,425 @@
+// PR Branch Update - keep a watched PR mergeable when its base branch moves on
+// When the PR falls behind or conflicts with its base and the repo has updates turned on, the PR's
+// clone is rebased onto the base or the base is merged in (per repo settings; off by default). Conflicted hunks go to the coding agent; once it
+// has resolved them, the repo's configured check commands run locally before anything is pushed.
+// The push uses --force-with-lease against the remote head the update started from, and the whole
+// update holds the branch lock from compound.ts so it never races another user of the branch,
+// renewing it before each long step (an agent round, a check command) so it never goes stale.
+
+import { exec, execFile } from 'child_process';
+import { promisify } from 'util';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { PRMergeState } from '../clients/github.js';
+import { getPRWatchRepoSettings } from '../storage/preferences.js';
+import { acquireBranchLock, releaseBranchLock, refreshBranchLock, listBranchLocks } from './compound.js';
+import { resolveCodingAgent, normalizeRepoKey } from './coding-agent.js';
+import { PRWatchSession, PRWatchEvent, BranchUpdate } from './pr-watch-types.js';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+const MAX_CONFLICT_ROUNDS = 10;            // Commits a rebase may stop on before giving up
+const MAX_HUNKS_CHARS = 60000;             // Conflicted hunks quoted in one prompt
+const HUNK_CONTEXT_LINES = 3;
+const AGENT_TIMEOUT_MS = 600000;           // 10 min, as for fixes
+const CHECK_TIMEOUT_MS = 15 * 60 * 1000;
+
+export type BranchUpdatePlan = Pick<BranchUpdate, 'strategy' | 'mergeState' | 'baseSha' | 'headSha'>;
+
+// ===== Git =====
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    maxBuffer: 10 * 1024 * 1024,
+    // Continuing a rebase or merge must not open an editor
+    env: { ...process.env, GIT_EDITOR: 'true' },
+  });
+  return stdout.trim();
+}
+
+// Renew the branch lock - each step is well under the lock's stale time, the whole update may not be
+async function keepBranchLock(cwd: string, branch: string): Promise<void> {
+  if (!(await refreshBranchLock(cwd, branch))) {
+    throw new Error(`lost the lock on ${branch}`);
+  }
+}
+
+async function isAncestor(cwd: string, ancestor: string, descendant: string): Promise<boolean> {
+  try {
+    await git(cwd, ['merge-base', '--is-ancestor', ancestor, descendant]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function gitDir(cwd: string): Promise<string> {
+  return git(cwd, ['rev-parse', '--absolute-git-dir']);
+}
+
+async function isRebaseInProgress(cwd: string): Promise<boolean> {
+  const dir = await gitDir(cwd);
+  return existsSync(join(dir, 'rebase-merge')) || existsSync(join(dir, 'rebase-apply'));
+}
+
+async function isMergeInProgress(cwd: string): Promise<boolean> {
+  return existsSync(join(await gitDir(cwd), 'MERGE_HEAD'));
+}
+
+async function getConflictedFiles(cwd: string): Promise<string[]> {
+  const output = await git(cwd, ['diff', '--name-only', '--diff-filter=U']);
+  return output.split('\n').filter(Boolean);
+}
+
+/**
+ * Abort a rebase or merge left behind by an update that never finished (e.g. the process died)
+ */
+export async function abortInterruptedUpdate(cwd: string): Promise<boolean> {
+  if (await isRebaseInProgress(cwd)) {
+    await git(cwd, ['rebase', '--abort']);
+    return true;
+  }
+  if (await isMergeInProgress(cwd)) {
+    await git(cwd, ['merge', '--abort']);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Start the update - returns the conflicted files it stopped on (empty when it went through)
+ */
+async function startUpdate(cwd: string, session: PRWatchSession, plan: BranchUpdatePlan): Promise<string[]> {
+  try {
+    if (plan.strategy === 'rebase') {
+      await git(cwd, ['rebase', plan.baseSha]);
+    } else {
+      await git(cwd, ['merge', '--no-edit', '-m', `Merge branch '${session.baseBranch}' into ${session.branch}`, plan.baseSha]);
+    }
+    return [];
+  } catch (error) {
+    const conflicts = await getConflictedFiles(cwd);
+    if (conflicts.length === 0) throw error;
+    return conflicts;
+  }
+}
+
+/**
+ * Carry on after the conflicts were resolved and staged - returns the next commit's conflicts
+ */
+async function continueUpdate(cwd: string, strategy: BranchUpdate['strategy']): Promise<string[]> {
+  try {
+    if (strategy === 'merge') {
+      await git(cwd, ['commit', '--no-edit']);
+    } else {
+      await git(cwd, ['rebase', '--continue']);
+    }
+    return [];
+  } catch (error) {
+    const conflicts = await getConflictedFiles(cwd);
+    if (conflicts.length > 0) return conflicts;
+
+    // The resolution left the commit empty (its change is already in the base) - drop it
+    if (strategy === 'rebase' && await isRebaseInProgress(cwd) && !(await git(cwd, ['diff', '--cached', '--name-only']))) {
+      try {
+        await git(cwd, ['rebase', '--skip']);
+        return [];
+      } catch {
+        const next = await getConflictedFiles(cwd);
+        if (next.length > 0) return next;
+      }
+    }
+    throw error;
+  }
+}
+
+// ===== Conflict Resolution =====
+
+/**
+ * Conflict marker regions of a file, with a few lines of context
+ */
+export function extractConflictHunks(content: string): string[] {
+  const lines = content.split('\n');
+  const hunks: string[] = [];
+  let start = -1;
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].startsWith('<<<<<<< ') && start < 0) {
+      start = i;
+    } else if (lines[i].startsWith('>>>>>>> ') && start >= 0) {
+      const from = Math.max(0, start - HUNK_CONTEXT_LINES);
+      const to = Math.min(lines.length, i + 1 + HUNK_CONTEXT_LINES);
+      hunks.push(`(lines ${from + 1}-${to})\n${lines.slice(from, to).join('\n')}`);
+      start = -1;
+    }
+  }
+  return hunks;
+}
+
+async function describeConflicts(cwd: string, files: string[]): Promise<string> {
+  const sections: string[] = [];
+  let length = 0;
+  for (const file of files) {
+    const path = join(cwd, file);
+    let section: string;
+    if (!existsSync(path)) {
+      section = `### ${file}\nDeleted on one side and changed on the other - keep it (with the other side's changes) or delete it.`;
+    } else {
+      const hunks = extractConflictHunks(await readFile(path, 'utf-8'));
+      section = hunks.length > 0
+        ? `### ${file}\n\`\`\`\n${hunks.join('\n...\n')}\n\`\`\``
+        : `### ${file}\nConflicted without markers (added on both sides or deleted on one) - compare the two versions and keep the right one.`;
+    }
+    if (length + section.length > MAX_HUNKS_CHARS) {
+      sections.push(`(${files.length - sections.length} more conflicted file(s) not shown - open them and look for conflict markers)`);
+      break;
+    }
+    sections.push(section);
+    length += section.length;
+  }
+  return sections.join('\n\n');
+}
+
+function buildConflictPrompt(session: PRWatchSession, plan: BranchUpdatePlan, files: string[], hunks: string): string {
+  const action = plan.strategy === 'rebase'
+    ? `Rebasing PR #${session.prNumber} (${session.branch}) onto ${session.baseBranch} stopped on merge conflicts.`
+    : `Merging ${session.baseBranch} into PR #${session.prNumber} (${session.branch}) stopped on merge conflicts.`;
+
+  return `${action}
+
+Resolve the conflicts in these files:
+${files.map(file => `- ${file}`).join('\n')}
+
+## Conflicted hunks
+${hunks}
+
+In each hunk, the side between <<<<<<< and ======= is ${plan.strategy === 'rebase' ? `${session.baseBranch} (with the PR's earlier commits)` : 'the PR branch'}, and the side between ======= and >>>>>>> is ${plan.strategy === 'rebase' ? "the PR's commit being replayed" : session.baseBranch}.
+
+Instructions:
+1. Keep the intent of both sides - the PR's change applied on top of what changed in ${session.baseBranch}
+2. Remove every conflict marker (<<<<<<<, =======, >>>>>>>)
+3. Only edit the conflicted files, and only as far as resolving the conflicts needs
+4. Do not commit, stage, or run git rebase/merge - the watcher continues the ${plan.strategy} itself`;
+}
+
+async function filesWithMarkers(cwd: string, files: string[]): Promise<string[]> {
+  const remaining: string[] = [];
+  for (const file of files) {
+    const path = join(cwd, file);
+    if (!existsSync(path)) continue;
+    const content = await readFile(path, 'utf-8');
+    if (/^(<<<<<<< |>>>>>>> )/m.test(content)) {
+      remaining.push(file);
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Have the coding agent resolve one round of conflicts and stage the result
+ */
+async function resolveConflicts(
+  session: PRWatchSession,
+  plan: BranchUpdatePlan,
+  files: string[],
+  workstreamId?: string
+): Promise<void> {
+  const cwd = session.localRepoPath;
+  const agent = await resolveCodingAgent({ repoUrl: session.repoUrl, workstreamId });
+  const busyWith = agent.busyWith();
+  if (busyWith && busyWith !== cwd) {
+    throw new Error(`${agent.displayName} is busy with another workspace: ${busyWith}`);
+  }
+
+  const headBefore = await git(cwd, ['rev-parse', 'HEAD']);
+  const prompt = buildConflictPrompt(session, plan, files, await describeConflicts(cwd, files));
+  const response = await agent.run(prompt, {
+    workspace: cwd,
+    repoUrl: session.repoUrl,
+    timeout: AGENT_TIMEOUT_MS,
+    force: true,
+    noCommit: true,
+    workstreamId,
+  });
+
+  // An agent that committed anyway would have ended the rebase step early - undo the commit, keep the edits
+  if (await git(cwd, ['rev-parse', 'HEAD']) !== headBefore) {
+    await git(cwd, ['reset', '--soft', headBefore]);
+  }
+
+  if (!response.success) {
+    throw new Error(`${agent.displayName} could not resolve the conflicts: ${response.error || 'no details'}`);
+  }
+
+  const unresolved = await filesWithMarkers(cwd, files);
+  if (unresolved.length > 0) {
+    throw new Error(`${agent.displayName} left conflict markers in ${unresolved.join(', ')}`);
+  }
+
+  // Only the conflicted files - the clone also holds the branch lock files
+  await git(cwd, ['add', '-A', '--', ...files]);
+}
+
+/**
+ * Run the repo's configured check commands - throws with the failing command's output
+ */
+async function runChecks(cwd: string, branch: string, commands: string[]): Promise<void> {
+  for (const command of commands) {
+    await keepBranchLock(cwd, branch);
+    try {
+      await execAsync(command, { cwd, timeout: CHECK_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 });
+    } catch (error) {
+      const { stdout = '', stderr = '', killed } = error as { stdout?: string; stderr?: string; killed?: boolean };
+      const output = `${stdout}\n${stderr}`.trim().slice(-2000);
+      throw new Error(`"${command}" ${killed ? 'timed out' : 'failed'} after resolving conflicts${output ? `:\n${output}` : ''}`);
+    }
+  }
+}
+
+// ===== Update =====
+
+/**
+ * Decide whether (and how) to update a branch the forge reports as behind or conflicted
+ * Returns null when updates are off for the repo, the branch already contains the base, or the
+ * same base/head pair was already attempted (the forge's merge state can lag behind a push).
+ */
+export async function planBranchUpdate(
+  session: PRWatchSession,
+  mergeState: PRMergeState
+): Promise<BranchUpdatePlan | null> {
+  if (mergeState !== 'behind' && mergeState !== 'conflicted') {
+    return null;
+  }
+
+  const { updateStrategy = 'off' } = await getPRWatchRepoSettings(normalizeRepoKey(session.repoUrl));
+  if (updateStrategy === 'off') {
+    return null;
+  }
+
+  const cwd = session.localRepoPath;
+  await git(cwd, ['fetch', 'origin', session.baseBranch, session.branch, '--quiet']);
+  const baseSha = await git(cwd, ['rev-parse', `origin/${session.baseBranch}`]);
+  const headSha = await git(cwd, ['rev-parse', `origin/${session.branch}`]);
+
+  const last = session.branchUpdate;
+  if (last?.outcome && last.baseSha === baseSha && (last.headSha === headSha || last.newSha === headSha)) {
+    return null;
+  }
+  if (await isAncestor(cwd, baseSha, headSha)) {
+    return null;
+  }
+
+  return { strategy: updateStrategy, mergeState, baseSha, headSha };
+}
+
+/**
+ * Rebase the branch onto its base (or merge the base in), resolve conflicts and push
+ * Returns false without touching anything when the branch is locked by someone else; a failed
+ * update is rolled back to the PR's head and recorded on the session, so it is not retried until
+ * the base or the branch moves.
+ */
+export async function updateSessionBranch(
+  session: PRWatchSession,
+  plan: BranchUpdatePlan,
+  emitEvent: (event: PRWatchEvent) => void,
+  workstreamId?: string
+): Promise<boolean> {
+  const cwd = session.localRepoPath;
+
+  // Own locks count too - another tool in this process may be working on the branch
+  const held = (await listBranchLocks(cwd)).find(lock => lock.branch === session.branch);
+  if (held) {
+    emitEvent({ type: 'fix_skipped', sessionId: session.sessionId, reason: `${session.branch} is locked by ${held.lockedBy} - updating it later` });
+    return false;
+  }
+  const lock = await acquireBranchLock(cwd, session.branch, `pr-watch: updating PR #${session.prNumber} onto ${session.baseBranch}`);
+  if (!lock.acquired) {
+    emitEvent({ type: 'fix_skipped', sessionId: session.sessionId, reason: `${session.branch} is locked by ${lock.existingLock?.lockedBy} - updating it later` });
+    return false;
+  }
+
+  const update: BranchUpdate = { ...plan, startedAt: Date.now() };
+  session.branchUpdate = update;
+  emitEvent({ type: 'branch_updating', sessionId: session.sessionId, strategy: plan.strategy, mergeState: plan.mergeState });
+
+  let started = false;
+  try {
+    await abortInterruptedUpdate(cwd);
+    if (await git(cwd, ['status', '--porcelain', '--untracked-files=no'])) {
+      throw new Error('the clone has uncommitted changes');
+    }
+    if (await git(cwd, ['rev-parse', 'HEAD']) !== plan.headSha) {
+      if (!(await isAncestor(cwd, 'HEAD', plan.headSha))) {
+        throw new Error('the local branch has commits that are not on the remote');
+      }
+      await git(cwd, ['merge', '--ff-only', plan.headSha]);
+    }
+    started = true;
+
+    // Watch commits on top of initialCommitSha, so squashing still covers them after a rebase
+    const watchCommits = await isAncestor(cwd, session.initialCommitSha, plan.headSha)
+      ? parseInt(await git(cwd, ['rev-list', '--count', `${session.initialCommitSha}..${plan.headSha}`]), 10) || 0
+      : 0;
+
+    const resolved = new Set<string>();
+    let conflicts = await startUpdate(cwd, session, plan);
+    for (let round = 1; conflicts.length > 0; round++) {
+      if (round > MAX_CONFLICT_ROUNDS) {
+        throw new Error(`still conflicting after ${MAX_CONFLICT_ROUNDS} rounds of resolution`);
+      }
+      await keepBranchLock(cwd, session.branch);
+      await resolveConflicts(session, plan, conflicts, workstreamId);
+      conflicts.forEach(file => resolved.add(file));
+      conflicts = await continueUpdate(cwd, plan.strategy);
+    }
+
+    const { checkCommands = [] } = await getPRWatchRepoSettings(normalizeRepoKey(session.repoUrl));
+    if (resolved.size > 0) {
+      await runChecks(cwd, session.branch, checkCommands);
+    }
+
+    await keepBranchLock(cwd, session.branch);
+    await git(cwd, ['push', `--force-with-lease=${session.branch}:${plan.headSha}`, 'origin', `HEAD:${session.branch}`]);
+
+    const newSha = await git(cwd, ['rev-parse', 'HEAD']);
+    session.currentSha = newSha;
+    if (plan.strategy === 'rebase') {
+      // Rebased commits have new SHAs (a merge keeps them, so initialCommitSha stays valid).
+      // Recount what is left on the base - commits skipped as empty are gone.
+      const rebasedCommits = parseInt(await git(cwd, ['rev-list', '--count', `${plan.baseSha}..HEAD`]), 10) || 0;
+      const keptWatchCommits = Math.min(watchCommits, rebasedCommits);
+      session.initialCommitSha = keptWatchCommits > 0
+        ? await git(cwd, ['rev-parse', `HEAD~${keptWatchCommits}`])
+        : newSha;
+    }
+    session.status = 'waiting_for_ci';
+    update.outcome = 'updated';
+    update.newSha = newSha;
+    update.conflictedFiles = [...resolved];
+
+    emitEvent({ type: 'branch_updated', sessionId: session.sessionId, strategy: plan.strategy, sha: newSha, conflictedFiles: [...resolved] });
+  } catch (error) {
+    // Back to the PR's head - the tree was clean when the update started
+    if (started) {
+      try {
+        await abortInterruptedUpdate(cwd);
+        await git(cwd, ['reset', '--hard', plan.headSha]);
+      } catch {
+        // Reported below; the next update aborts whatever is left
+      }
+    }
+
+    update.outcome = 'failed';
+    update.error = error instanceof Error ? error.message : String(error);
+    const action = plan.strategy === 'rebase'
+      ? `rebase ${session.branch} onto ${session.baseBranch}`
+      : `merge ${session.baseBranch} into ${session.branch}`;
+    emitEvent({ type: 'branch_update_failed', sessionId: session.sessionId, error: `Could not ${action}: ${update.error}` });
+  } finally {
+    await releaseBranchLock(cwd, session.branch);
+  }
+
+  return true;
+}
@@ -9,18 +9,22 @@ import {
   getPullRequest,
   getPRChecks,
   getCheckRunAnnotations,
-  getWorkflowRunJobs,
   parseRepoUrl,
   PRChecksResult,
   CheckRunAnnotation,
   GitHubPullRequest,
 } from '../clients/github.js';
+import { parseChangeRequestUrl } from '../clients/forge.js';
+import { CodingAgent, resolveCodingAgent } from './coding-agent.js';
 import {
-  startCursorSessionWithProgress,
-  continueCursorSessionWithProgress,
-  getCursorSessionStatus,
-  CursorResponse,
-} from './cursor.js';
+  fetchGitHubActionsLogs,
+  fetchGitLabLogs,
+  fetchCircleCILogs,
+  formatTestFailures,
+  isCircleCIFailure,
+} from './ci-logs.js';
+import { rerunIfFlaky } from './flaky-tests.js';
+import { abortInterruptedUpdate } from './pr-branch-update.js';
 import { getWorkspace } from './shell.js';
 import {
   PRWatchSession,
@@ -118,37 +122,47 @@ export async function extractFailureInfo(
   };
 
   // Try to get more details based on check type
-  if (firstFailed.type === 'check_run' && firstFailed.app === 'github-actions') {
-    // For GitHub Actions, try to get annotations and failed steps
-    const checkRun = checksResult.checkRuns.find(cr => cr.name === firstFailed.name);
-    if (checkRun) {
-      // Get annotations
-      try {
-        const annotations = await getCheckRunAnnotations(session.repoUrl, checkRun.id);
-        failure.annotations = annotations;
-      } catch {
-        // Annotations may not be available
-      }
+  const checkRun = firstFailed.type === 'check_run'
+    ? checksResult.checkRuns.find(cr => cr.name === firstFailed.name)
+    : undefined;
+  if (checkRun) {
+    failure.checkRunId = checkRun.id;
+    failure.detailsUrl = checkRun.details_url;
+  }
 
-      // Try to get workflow run ID from external_id or URL
-      const runIdMatch = checkRun.html_url.match(/runs\/(\d+)/);
-      if (runIdMatch) {
-        try {
-          const jobs = await getWorkflowRunJobs(session.repoUrl, parseInt(runIdMatch[1]));
-          const failedSteps: string[] = [];
-          for (const job of jobs) {
-            if (job.conclusion === 'failure') {
-              for (const step of job.steps) {
-                if (step.conclusion === 'failure') {
-                  failedSteps.push(`${job.name} > ${step.name}`);
-                }
-              }
-            }
-          }
-          failure.failedSteps = failedSteps;
-        } catch {
-          // Jobs may not be available
+  if (checkRun && firstFailed.app === 'github-actions') {
+    // For GitHub Actions, get annotations plus the failed steps and job log
+    try {
+      const annotations = await getCheckRunAnnotations(session.repoUrl, checkRun.id);
+      failure.annotations = annotations;
+    } catch {
+      // Annotations may not be available
+    }
+
+    try {
+      Object.assign(failure, await fetchGitHubActionsLogs(session.repoUrl, checkRun));
+    } catch {
+      // Jobs may not be available
+    }
+  } else if (checkRun && firstFailed.app === 'gitlab-ci') {
+    // GitLab job logs are readable through the API - check run IDs are job IDs
+    try {
+      Object.assign(failure, await fetchGitLabLogs(session.repoUrl, checkRun));
+    } catch {
+      // Log may have expired or be restricted
+    }
+  } else if (isCircleCIFailure(failure)) {
+    // CircleCI reports through the checks app (details URL) or a commit status (target URL)
+    failure.app = failure.app || 'circleci';
+    const circleUrl = checkRun?.details_url || firstFailed.url;
+    if (circleUrl) {
+      try {
+        const logs = await fetchCircleCILogs(circleUrl);
+        if (logs) {
+          Object.assign(failure, logs);
         }
+      } catch {
+        // Falls back to asking for logs (pr_provide_logs)
       }
     }
   }
@@ -158,12 +172,20 @@ export async function extractFailureInfo(
 
 /**
  * Handle a detected failure - orchestrate the fix process
+ * Flaky failures unrelated to the PR are re-run rather than fixed (see flaky-tests.ts).
+ * The fix runs on the coding agent configured for the PR's workstream or repo
  */
 export async function handleSessionFailure(
   session: PRWatchSession,
   failure: FailureInfo,
-  emitEvent: (event: PRWatchEvent) => void
+  emitEvent: (event: PRWatchEvent) => void,
+  workstreamId?: string
 ): Promise<void> {
+  // Logs the user pasted in mean they want a fix
+  if (!failure.logs && await rerunIfFlaky(session, failure, emitEvent)) {
+    return;
+  }
+
   session.fixAttempts++;
   const attemptNumber = getAttemptNumberForFailure(session, failure);
 
@@ -176,22 +198,24 @@ export async function handleSessionFailure(
 
   session.status = 'fixing';
 
-  // CRITICAL: Ensure we're on the right branch before invoking Cursor
+  // CRITICAL: Ensure we're on the right branch before invoking the coding agent
   await ensureCorrectBranch(session);
 
+  const agent = await resolveCodingAgent({ repoUrl: session.repoUrl, workstreamId });
+
   if (attemptNumber === 1) {
-    // First attempt: templated prompt directly to Cursor
-    await handleFailureWithTemplate(session, failure, attemptNumber, emitEvent);
+    // First attempt: templated prompt directly to the coding agent
+    await handleFailureWithTemplate(session, failure, attemptNumber, agent, emitEvent);
   } else if (attemptNumber === 2) {
     // Second attempt: ask for LLM analysis
-    await handleFailureWithLLM(session, failure, emitEvent);
+    await handleFailureWithLLM(session, failure, agent, emitEvent);
   } else {
-    // Third attempt: need manual logs
-    if (failure.app && failure.app.includes('circleci') && !failure.logs) {
+    // Third attempt: need manual logs if CircleCI's could not be fetched
+    if (isCircleCIFailure(failure) && !failure.logs && !failure.jobLog) {
       session.status = 'awaiting_user';
       emitEvent({ type: 'max_attempts', sessionId: session.sessionId, failure });
     } else {
-      await handleFailureWithLLM(session, failure, emitEvent);
+      await handleFailureWithLLM(session, failure, agent, emitEvent);
     }
   }
 }
@@ -214,6 +238,69 @@ export async function handleSessionSuccess(
   emitEvent({ type: 'success', sessionId: session.sessionId, commitCount });
 }
 
+export interface SessionReconcileResult {
+  outcome: 'in_sync' | 'fast_forwarded' | 'unpushed' | 'diverged';
+  stashed: boolean;          // Uncommitted changes from an interrupted fix were stashed
+  initialShaReset: boolean;  // initialCommitSha is no longer in the branch history (rebased/force-pushed)
+}
+
+/**
+ * Bring a resumed session's local branch in line with the PR's remote head
+ * - behind the remote: fast-forward
+ * - ahead of it (commits from a fix that never finished): kept local and left for the user
+ * - diverged: left alone for the user
+ */
+export async function reconcileSessionWithRemote(
+  session: PRWatchSession,
+  remoteHeadSha: string
+): Promise<SessionReconcileResult> {
+  const cwd = session.localRepoPath;
+  await execAsync('git fetch origin', { cwd });
+
+  // A branch update interrupted mid-rebase/merge never pushed anything - the next poll retries it
+  await abortInterruptedUpdate(cwd);
+
+  // A fix interrupted mid-edit leaves a dirty tree that would block checkouts
+  // Untracked files are left alone - the branch lock files live in the clone too
+  const { stdout: dirty } = await execAsync('git status --porcelain --untracked-files=no', { cwd });
+  const stashed = dirty.trim().length > 0;
+  if (stashed) {
+    await execAsync('git stash push -m "pr-watch: interrupted fix"', { cwd });
+  }
+
+  if (await getCurrentBranch(cwd) !== session.branch) {
+    try {
+      await execAsync(`git checkout ${session.branch}`, { cwd });
+    } catch {
+      await execAsync(`git checkout -b ${session.branch} origin/${session.branch}`, { cwd });
+    }
+  }
+
+  let outcome: SessionReconcileResult['outcome'] = 'in_sync';
+  const localSha = await getCurrentCommitSha(cwd);
+  if (localSha !== remoteHeadSha) {
+    if (await isAncestor(cwd, localSha, remoteHeadSha)) {
+      await execAsync(`git merge --ff-only ${remoteHeadSha}`, { cwd });
+      outcome = 'fast_forwarded';
+    } else if (await isAncestor(cwd, remoteHeadSha, localSha)) {
+      // Never published: the fix was interrupted before its checks and push
+      outcome = 'unpushed';
+    } else {
+      outcome = 'diverged';
+    }
+  }
+
+  // currentSha tracks the remote head - local-only commits are not part of the PR yet
+  session.currentSha = outcome === 'unpushed' || outcome === 'diverged' ? remoteHeadSha : await getCurrentCommitSha(cwd);
+
+  const initialShaReset = outcome !== 'diverged' && !(await isAncestor(cwd, session.initialCommitSha, 'HEAD'));
+  if (initialShaReset) {
+    session.initialCommitSha = session.currentSha;
+  }
+
+  return { outcome, stashed, initialShaReset };
+}
+
 // ===== Git Operations =====
 
 async function checkoutBranch(repoPath: string, branch: string): Promise<void> {
@@ -241,6 +328,15 @@ export async function getCurrentCommitSha(repoPath: string): Promise<string> {
   return stdout.trim();
 }
 
+async function isAncestor(repoPath: string, ancestor: string, descendant: string): Promise<boolean> {
+  try {
+    await execAsync(`git merge-base --is-ancestor ${ancestor} ${descendant}`, { cwd: repoPath });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 async function pushChanges(repoPath: string, branch: string): Promise<void> {
   await execAsync(`git push origin ${branch}`, { cwd: repoPath });
 }
@@ -296,9 +392,9 @@ export async function squashSessionCommits(
 // ===== Private Failure Handling =====
 
 function getAttemptNumberForFailure(session: PRWatchSession, failure: FailureInfo): number {
-  // Count previous attempts for the same check
+  // Count previous attempts for the same check (re-runs of a flaky check are not fixes)
   const previousAttempts = session.fixHistory.filter(
-    h => h.failure.checkName === failure.checkName
+    h => h.failure.checkName === failure.checkName && h.method !== 'rerun'
   );
   return previousAttempts.length + 1;
 }
@@ -307,16 +403,17 @@ async function handleFailureWithTemplate(
   session: PRWatchSession,
   failure: FailureInfo,
   attemptNumber: number,
+  agent: CodingAgent,
   emitEvent: (event: PRWatchEvent) => void
 ): Promise<void> {
   try {
-    // NEW: Check if Cursor is busy with another workspace
-    const cursorStatus = getCursorSessionStatus();
-    if (cursorStatus.active && cursorStatus.workspace !== session.localRepoPath) {
+    // NEW: Check if the coding agent is busy with another workspace
+    const busyWith = agent.busyWith();
+    if (busyWith && busyWith !== session.localRepoPath) {
       emitEvent({
         type: 'fix_skipped',
         sessionId: session.sessionId,
-        reason: `Cursor is busy with another workspace: ${cursorStatus.workspace}`,
+        reason: `${agent.displayName} is busy with another workspace: ${busyWith}`,
       });
       return;
     }
@@ -326,20 +423,21 @@ async function handleFailureWithTemplate(
       sessionId: session.sessionId,
       attempt: attemptNumber,
       method: 'templated',
+      backend: agent.backend,
     });
 
     // Build templated prompt
     const prompt = buildTemplatedFixPrompt(failure);
 
-    // CRITICAL: Verify branch before invoking Cursor
+    // CRITICAL: Verify branch before invoking the coding agent
     await ensureCorrectBranch(session);
 
-    // Run Cursor (removed force: true to let validation happen)
-    const response = await startCursorSessionWithProgress(
-      prompt,
-      session.localRepoPath,
-      { timeout: 600000 } // 10 min timeout for fixes
-    );
+    // Run the coding agent (no force, to let validation happen)
+    const response = await agent.run(prompt, {
+      workspace: session.localRepoPath,
+      repoUrl: session.repoUrl,
+      timeout: 600000, // 10 min timeout for fixes
+    });
 
     // Record the attempt
     const attempt: FixAttempt = {
@@ -347,12 +445,12 @@ async function handleFailureWithTemplate(
       failure,
       attemptNumber,
       method: 'templated',
-      cursorResponse: response,
+      agentResponse: response,
       success: response.success,
     };
 
     if (response.success) {
-      // Check if Cursor made commits
+      // Check if the coding agent made commits
       const newSha = await getCurrentCommitSha(session.localRepoPath);
       if (newSha !== session.currentSha) {
         attempt.commitSha = newSha;
@@ -383,18 +481,19 @@ async function handleFailureWithTemplate(
 async function handleFailureWithLLM(
   session: PRWatchSession,
   failure: FailureInfo,
+  agent: CodingAgent,
   emitEvent: (event: PRWatchEvent) => void
 ): Promise<void> {
   try {
     const attemptNumber = getAttemptNumberForFailure(session, failure);
     
-    // NEW: Check if Cursor is busy with another workspace
-    const cursorStatus = getCursorSessionStatus();
-    if (cursorStatus.active && cursorStatus.workspace !== session.localRepoPath) {
+    // NEW: Check if the coding agent is busy with another workspace
+    const busyWith = agent.busyWith();
+    if (busyWith && busyWith !== session.localRepoPath) {
       emitEvent({
         type: 'fix_skipped',
         sessionId: session.sessionId,
-        reason: `Cursor is busy with another workspace: ${cursorStatus.workspace}`,
+        reason: `${agent.displayName} is busy with another workspace: ${busyWith}`,
       });
       return;
     }
@@ -404,26 +503,22 @@ async function handleFailureWithLLM(
       sessionId: session.sessionId,
       attempt: attemptNumber,
       method: 'llm',
+      backend: agent.backend,
     });
 
     // Build a more detailed prompt for the LLM
     const prompt = buildLLMFixPrompt(session, failure);
 
-    // CRITICAL: Verify branch before invoking Cursor
+    // CRITICAL: Verify branch before invoking the coding agent
     await ensureCorrectBranch(session);
 
-    // Use continuation if we have an existing session, otherwise start new
-    let response: CursorResponse;
-
-    if (cursorStatus.active && cursorStatus.workspace === session.localRepoPath) {
-      response = await continueCursorSessionWithProgress(prompt, {
-        timeout: 600000,
-      });
-    } else {
-      response = await startCursorSessionWithProgress(prompt, session.localRepoPath, {
-        timeout: 600000,
-      });
-    }
+    // Continue the backend's session for this workspace if it keeps one, otherwise start new
+    const response = await agent.run(prompt, {
+      workspace: session.localRepoPath,
+      repoUrl: session.repoUrl,
+      timeout: 600000,
+      continueSession: true,
+    });
 
     // Record the attempt
     const attempt: FixAttempt = {
@@ -431,7 +526,7 @@ async function handleFailureWithLLM(
       failure,
       attemptNumber,
       method: 'llm',
-      cursorResponse: response,
+      agentResponse: response,
       success: response.success,
     };
 
@@ -474,6 +569,14 @@ function buildTemplatedFixPrompt(failure: FailureInfo): string {
     parts.push('');
   }
 
+  if (failure.testFailures && failure.testFailures.length > 0) {
+    parts.push('Failures found in the CI log:', ...formatTestFailures(failure.testFailures), '');
+  }
+
+  if (failure.jobLog) {
+    parts.push('Job log (failing section):', '```', failure.jobLog, '```', '');
+  }
+
   if (failure.annotations && failure.annotations.length > 0) {
     parts.push('Error annotations:');
     for (const ann of failure.annotations.slice(0, 5)) {
@@ -537,6 +640,14 @@ function buildLLMFixPrompt(session: PRWatchSession, failure: FailureInfo): strin
     }
   }
 
+  if (failure.testFailures && failure.testFailures.length > 0) {
+    parts.push('', 'Failures found in the CI log:', ...formatTestFailures(failure.testFailures));
+  }
+
+  if (failure.jobLog && !failure.logs) {
+    parts.push('', 'Job log (failing section):', '```', failure.jobLog, '```');
+  }
+
   if (failure.logs) {
     parts.push('', 'CI Logs (provided by user):');
     parts.push('```');
@@ -567,27 +678,10 @@ function buildLLMFixPrompt(session: PRWatchSession, failure: FailureInfo): strin
 /**
  * Parse a PR URL to extract repo URL and PR number
  * Supports formats like:
- * - https://github.com/owner/repo/pull/123
+ * - https://github.com/owner/repo/pull/123 (or the GitHub Enterprise host)
+ * - https://gitlab.example.com/group/project/-/merge_requests/123
  * - owner/repo#123
  */
 export function parsePRUrl(input: string): { repoUrl: string; prNumber: number } | null {
-  // Full URL format
-  const urlMatch = input.match(/github\.com\/([\w-]+)\/([\w-]+)\/pull\/(\d+)/);
-  if (urlMatch) {
-    return {
-      repoUrl: `https://github.com/${urlMatch[1]}/${urlMatch[2]}`,
-      prNumber: parseInt(urlMatch[3]),
-    };
-  }
-
-  // Short format: owner/repo#123
-  const shortMatch = input.match(/^([\w-]+)\/([\w-]+)#(\d+)$/);
-  if (shortMatch) {
-    return {
-      repoUrl: `https://github.com/${shortMatch[1]}/${shortMatch[2]}`,
-      prNumber: parseInt(shortMatch[3]),
-    };
-  }
-
-  return null;
+  return parseChangeRequestUrl(input);
 }
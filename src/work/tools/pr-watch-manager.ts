@@ -1,8 +1,10 @@
 // PR Watch Manager - Persistent multi-PR queue and polling system
 // Manages multiple PR watch sessions with intelligent context switching
+// Sessions are journaled to disk and resumed on startup, so a watch lasts as long as the PR
 
 import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
+import { existsSync } from 'fs';
 import { 
   PRWatchSession, 
   PRWatchCallback, 
@@ -11,19 +13,40 @@ import {
   PRWatchSessionStatus,
   FailureInfo
 } from './pr-watch-types.js';
-import { getPRChecks, getPullRequest, PRChecksResult } from '../clients/github.js';
+import { getPRChecks, getPullRequest, PRChecksResult, GitHubPullRequest } from '../clients/github.js';
 import { 
   createPRWorkspace, 
   ensureCorrectBranch,
   getCurrentCommitSha,
   extractFailureInfo,
   handleSessionFailure,
-  handleSessionSuccess
+  handleSessionSuccess,
+  reconcileSessionWithRemote,
+  SessionReconcileResult
 } from './pr-tracking.js';
+import { parseTestFailures } from './ci-logs.js';
+import { isRerunStarting, completeRerun } from './flaky-tests.js';
+import { planBranchUpdate, updateSessionBranch } from './pr-branch-update.js';
+import {
+  loadPRWatchJournal,
+  savePRWatchJournal,
+  JournaledPRWatchSession
+} from '../storage/pr-watch-sessions.js';
 
 const MASTER_POLL_INTERVAL_MS = 30000;  // 30 seconds
 const MAX_CONCURRENT_FIXES = 1;  // Only fix one PR at a time
 
+export interface PRWatchResumeOptions {
+  // Workstream to re-link a journaled session to (default: the one it was linked to before)
+  resolveWorkstream?: (session: JournaledPRWatchSession) => string | undefined;
+}
+
+export interface PRWatchResumeResult {
+  resumed: PRWatchSessionStatus[];
+  dropped: Array<{ repoUrl: string; prNumber: number; reason: string }>;  // PR merged/closed since the journal was written
+  failed: Array<{ repoUrl: string; prNumber: number; error: string }>;    // Kept in the journal, retried next startup
+}
+
 /**
  * Singleton manager for all PR watch sessions
  * Provides persistent polling and intelligent queue management
@@ -38,6 +61,13 @@ class PRWatchManager extends EventEmitter {
   // NEW: Map sessionId to workstreamId for status updates
   private sessionToWorkstream: Map<string, string> = new Map();
 
+  // Journal state - nothing is written until the journal has been read, so an early
+  // save can't wipe sessions that haven't been resumed yet
+  private journalLoaded = false;
+  private unresumed: JournaledPRWatchSession[] = [];
+  private journalWrite: Promise<void> = Promise.resolve();
+  private resuming?: Promise<PRWatchResumeResult>;
+
   private constructor() {
     super();
   }
@@ -67,6 +97,9 @@ class PRWatchManager extends EventEmitter {
     workstreamId?: string
   ): Promise<{ success: boolean; session?: PRWatchSession; error?: string }> {
     try {
+      // Journaled sessions first, so a restart doesn't start a second watch on the same PR
+      await this.resumeSessions();
+
       // Check if already watching this PR
       const existing = this.findSession(repoUrl, prNumber);
       if (existing) {
@@ -157,6 +190,7 @@ class PRWatchManager extends EventEmitter {
     
     // Clean up workstream mapping
     this.sessionToWorkstream.delete(sessionId);
+    this.persistSessions();
     
     // Keep session in map for reference but mark as stopped
     // Clean up after a while
@@ -219,6 +253,27 @@ class PRWatchManager extends EventEmitter {
     return this.sessions.get(sessionId) || null;
   }
 
+  /**
+   * Resume journaled sessions - once per process; later calls return the same result
+   * Each PR is re-checked: merged/closed PRs are dropped, the local branch is reconciled
+   * with the remote head, and the session is re-linked to its workstream
+   */
+  resumeSessions(options: PRWatchResumeOptions = {}): Promise<PRWatchResumeResult> {
+    if (!this.resuming) {
+      this.resuming = this.resumeJournaledSessions(options);
+    }
+    return this.resuming;
+  }
+
+  /**
+   * Link a session to a workstream (e.g., when the workstream is recreated)
+   */
+  linkWorkstream(sessionId: string, workstreamId: string): void {
+    if (!this.sessions.has(sessionId)) return;
+    this.sessionToWorkstream.set(sessionId, workstreamId);
+    this.persistSessions();
+  }
+
   /**
    * Get workstream ID linked to a session (if any)
    */
@@ -265,9 +320,13 @@ class PRWatchManager extends EventEmitter {
 
     // Add logs to current failure
     session.currentFailure.logs = logs;
+    const testFailures = parseTestFailures(logs);
+    if (testFailures.length > 0) {
+      session.currentFailure.testFailures = testFailures;
+    }
 
     // Trigger fix with the logs
-    await handleSessionFailure(session, session.currentFailure, this.emitEvent.bind(this));
+    await handleSessionFailure(session, session.currentFailure, this.emitEvent.bind(this), this.sessionToWorkstream.get(sessionId));
 
     return { success: true };
   }
@@ -330,6 +389,106 @@ class PRWatchManager extends EventEmitter {
 
     // Check for context switching opportunities
     await this.checkContextSwitch(activeSessions);
+
+    // Status changes made while polling don't all emit events - journal once per cycle
+    this.persistSessions();
+  }
+
+  private async resumeJournaledSessions(options: PRWatchResumeOptions): Promise<PRWatchResumeResult> {
+    const result: PRWatchResumeResult = { resumed: [], dropped: [], failed: [] };
+    this.unresumed = await loadPRWatchJournal();
+    this.journalLoaded = true;
+
+    for (const entry of [...this.unresumed]) {
+      const settle = () => {
+        this.unresumed = this.unresumed.filter(e => e.sessionId !== entry.sessionId);
+      };
+
+      if (this.findSession(entry.repoUrl, entry.prNumber)) {
+        settle();
+        continue;
+      }
+
+      try {
+        const pr = await getPullRequest(entry.repoUrl, entry.prNumber);
+        if (!pr || pr.state !== 'open') {
+          result.dropped.push({
+            repoUrl: entry.repoUrl,
+            prNumber: entry.prNumber,
+            reason: pr ? `PR is ${pr.state}` : 'PR not found',
+          });
+          settle();
+          continue;
+        }
+
+        const { workstreamId, ...journaled } = entry;
+        const session: PRWatchSession = {
+          ...journaled,
+          // A fix that was running when the process died never finished - let the next poll retry it
+          status: entry.status === 'fixing' ? 'watching' : entry.status,
+        };
+
+        // The clone may have been cleaned up in the meantime
+        if (!existsSync(session.localRepoPath)) {
+          session.localRepoPath = await createPRWorkspace(session.repoUrl, session.prNumber, pr.head.ref);
+        }
+
+        const reconcile = await reconcileSessionWithRemote(session, pr.head.sha);
+        if (reconcile.outcome === 'unpushed' || reconcile.outcome === 'diverged') {
+          session.status = 'awaiting_user';
+        }
+
+        this.sessions.set(session.sessionId, session);
+        const linkedWorkstream = options.resolveWorkstream ? options.resolveWorkstream(entry) : workstreamId;
+        if (linkedWorkstream) {
+          this.sessionToWorkstream.set(session.sessionId, linkedWorkstream);
+        }
+        settle();
+
+        result.resumed.push(this.sessionToStatus(session));
+        this.emitEvent({
+          type: 'resumed',
+          sessionId: session.sessionId,
+          message: describeReconcile(session, reconcile),
+        });
+      } catch (error) {
+        const errMsg = error instanceof Error ? error.message : 'Unknown error';
+        result.failed.push({ repoUrl: entry.repoUrl, prNumber: entry.prNumber, error: errMsg });
+        this.emitEvent({
+          type: 'error',
+          sessionId: entry.sessionId,
+          error: `Could not resume watch on PR #${entry.prNumber}: ${errMsg}`,
+        });
+      }
+    }
+
+    this.persistSessions();
+    if (this.getActiveSessions().length > 0) {
+      this.startMasterPoller();
+    }
+
+    return result;
+  }
+
+  /**
+   * Journal every live session (writes are serialized; the latest state wins)
+   */
+  private persistSessions(): void {
+    if (!this.journalLoaded) return;
+
+    const sessions: JournaledPRWatchSession[] = [
+      ...this.getActiveSessions().map(({ onStateChange, ...session }) => ({
+        ...session,
+        workstreamId: this.sessionToWorkstream.get(session.sessionId),
+      })),
+      ...this.unresumed,
+    ];
+
+    this.journalWrite = this.journalWrite
+      .then(() => savePRWatchJournal(sessions))
+      .catch(error => {
+        this.emit('journal-error', { error: error instanceof Error ? error.message : String(error) });
+      });
   }
 
   private async pollSession(session: PRWatchSession): Promise<void> {
@@ -345,9 +504,22 @@ class PRWatchManager extends EventEmitter {
 
     session.lastPolled = Date.now();
 
+    // Merged or closed on the forge - nothing left to watch
+    const pr = await getPullRequest(session.repoUrl, session.prNumber);
+    if (pr && pr.state !== 'open') {
+      this.emitEvent({ type: 'closed', sessionId: session.sessionId, merged: !!pr.merged });
+      this.stopPRWatch(session.sessionId, pr.merged ? 'PR merged' : 'PR closed');
+      return;
+    }
+
     // Ensure we're on correct branch
     await ensureCorrectBranch(session);
 
+    // The base moved on - bring the branch up to date before looking at CI
+    if (pr && await this.startBranchUpdate(session, pr)) {
+      return;
+    }
+
     // Get CI status
     const checksResult = await getPRChecks(session.repoUrl, session.prNumber);
     
@@ -360,6 +532,16 @@ class PRWatchManager extends EventEmitter {
     // Update current SHA
     session.currentSha = checksResult.sha;
 
+    // A flaky check was re-run - wait until the CI picks it up
+    if (session.pendingRerun) {
+      if (session.pendingRerun.sha !== checksResult.sha) {
+        // New commits since - the re-run's outcome no longer says anything
+        session.pendingRerun = undefined;
+      } else if (isRerunStarting(session, checksResult)) {
+        return;
+      }
+    }
+
     const { summary } = checksResult;
 
     if (summary.pending > 0) {
@@ -374,6 +556,11 @@ class PRWatchManager extends EventEmitter {
     }
 
     if (summary.failing > 0) {
+      const rerunCheck = session.pendingRerun?.checkName;
+      if (rerunCheck) {
+        await completeRerun(session, !summary.failedChecks.some(check => check.name === rerunCheck), this.emitEvent.bind(this));
+      }
+
       // Failure detected
       const failure = await extractFailureInfo(checksResult, session);
       
@@ -409,7 +596,7 @@ class PRWatchManager extends EventEmitter {
         });
 
         // Handle the failure asynchronously
-        handleSessionFailure(session, failure, this.emitEvent.bind(this))
+        handleSessionFailure(session, failure, this.emitEvent.bind(this), this.sessionToWorkstream.get(session.sessionId))
           .then(() => {
             // Remove from active fixes so next poll can retry if still failing
             this.activeFixes.delete(session.sessionId);
@@ -417,6 +604,7 @@ class PRWatchManager extends EventEmitter {
             if (session.status === 'fixing') {
               session.status = 'watching';
             }
+            this.persistSessions();
           })
           .catch(err => {
             this.activeFixes.delete(session.sessionId);
@@ -424,6 +612,7 @@ class PRWatchManager extends EventEmitter {
             if (session.status === 'fixing') {
               session.status = 'watching';
             }
+            this.persistSessions();
             this.emitEvent({
               type: 'error',
               sessionId: session.sessionId,
@@ -435,12 +624,55 @@ class PRWatchManager extends EventEmitter {
     } else if (summary.failing === 0 && summary.pending === 0) {
       // All checks passing!
       if (session.status === 'waiting_for_ci' || session.status === 'watching' || session.status === 'fixing') {
+        await completeRerun(session, true, this.emitEvent.bind(this));
         await handleSessionSuccess(session, this.emitEvent.bind(this));
         this.activeFixes.delete(session.sessionId);
       }
     }
   }
 
+  /**
+   * Rebase (or merge the base into) a branch the forge reports as behind or conflicted
+   * Runs in the background like a fix, since conflicts go to the coding agent
+   */
+  private async startBranchUpdate(session: PRWatchSession, pr: GitHubPullRequest): Promise<boolean> {
+    if (this.activeFixes.size >= MAX_CONCURRENT_FIXES || session.pendingRerun) {
+      return false;
+    }
+
+    if (!pr.mergeState) {
+      return false;
+    }
+    // The PR may have been retargeted
+    session.baseBranch = pr.base.ref;
+
+    const plan = await planBranchUpdate(session, pr.mergeState);
+    if (!plan) {
+      return false;
+    }
+
+    const previousStatus = session.status;
+    session.status = 'fixing';
+    this.activeFixes.add(session.sessionId);
+
+    updateSessionBranch(session, plan, this.emitEvent.bind(this), this.sessionToWorkstream.get(session.sessionId))
+      .catch(err => {
+        this.emitEvent({
+          type: 'branch_update_failed',
+          sessionId: session.sessionId,
+          error: `Branch update failed: ${err.message || err}`
+        });
+      })
+      .finally(() => {
+        this.activeFixes.delete(session.sessionId);
+        if (session.status === 'fixing') {
+          session.status = previousStatus;
+        }
+        this.persistSessions();
+      });
+    return true;
+  }
+
   private async checkContextSwitch(activeSessions: PRWatchSession[]): Promise<void> {
     // Find sessions waiting for CI
     const waitingSessions = activeSessions.filter(s => s.status === 'waiting_for_ci');
@@ -505,13 +737,19 @@ class PRWatchManager extends EventEmitter {
         statusMessage = 'Monitoring for failures';
         break;
       case 'fixing':
+        if (session.branchUpdate && !session.branchUpdate.outcome) {
+          statusMessage = `${session.branchUpdate.strategy === 'rebase' ? 'Rebasing onto' : 'Merging'} ${session.baseBranch}`;
+          break;
+        }
         statusMessage = `Fixing attempt #${session.fixAttempts}`;
         if (session.currentFailure) {
           statusMessage += ` (${session.currentFailure.checkName})`;
         }
         break;
       case 'waiting_for_ci':
-        statusMessage = 'Waiting for CI checks';
+        statusMessage = session.pendingRerun
+          ? `Re-running flaky check (${session.pendingRerun.checkName})`
+          : 'Waiting for CI checks';
         break;
       case 'awaiting_user':
         statusMessage = 'Awaiting user input';
@@ -556,7 +794,34 @@ class PRWatchManager extends EventEmitter {
 
     // Emit as EventEmitter event
     this.emit('pr-watch-event', event);
+
+    // Every event follows a state change worth keeping across restarts
+    if (event.type !== 'polling') {
+      this.persistSessions();
+    }
+  }
+}
+
+function describeReconcile(session: PRWatchSession, reconcile: SessionReconcileResult): string {
+  const parts = [`Resumed watch on PR #${session.prNumber} (${session.branch})`];
+  switch (reconcile.outcome) {
+    case 'fast_forwarded':
+      parts.push('local branch fast-forwarded to the remote head');
+      break;
+    case 'unpushed':
+      parts.push('local commits from an interrupted fix were never pushed - awaiting user (review them, then push or reset the branch)');
+      break;
+    case 'diverged':
+      parts.push('local branch has diverged from the remote - awaiting user');
+      break;
+  }
+  if (reconcile.stashed) {
+    parts.push('uncommitted changes from an interrupted fix were stashed');
+  }
+  if (reconcile.initialShaReset) {
+    parts.push('branch history was rewritten, so squashing now starts from the current head');
   }
+  return parts.join('; ');
 }
 
 // Export singleton instance
@@ -1,8 +1,9 @@
 // PR Watch Types - Shared types for PR tracking and watching
 // Extracted from pr-tracking.ts for better modularity
 
-import { CheckRunAnnotation } from '../clients/github.js';
-import { CursorResponse } from './cursor.js';
+import { CheckRunAnnotation, PRMergeState } from '../clients/github.js';
+import { CodingAgentResponse } from './coding-agent.js';
+import { CodingAgentBackend } from '../types.js';
 
 export interface PRWatchSession {
   sessionId: string;           // Unique identifier for this session
@@ -18,6 +19,8 @@ export interface PRWatchSession {
   fixAttempts: number;       // Total fix attempts
   currentFailure?: FailureInfo;
   fixHistory: FixAttempt[];
+  pendingRerun?: PendingRerun;  // Flaky check re-run whose result has not come in yet
+  branchUpdate?: BranchUpdate;  // Latest attempt to bring the branch up to date with its base
   lastPolled?: number;       // Timestamp of last poll
   // Callbacks for state changes
   onStateChange?: PRWatchCallback;
@@ -27,30 +30,75 @@ export interface FailureInfo {
   checkName: string;
   checkType: 'check_run' | 'status';
   checkUrl: string | null;
-  app?: string;  // e.g., 'circleci-checks', 'github-actions'
+  checkRunId?: number;  // Job ID for GitHub Actions and GitLab CI
+  detailsUrl?: string;  // The CI system's own page for the job (CircleCI checks)
+  app?: string;  // e.g., 'circleci-checks', 'github-actions', 'gitlab-ci'
   annotations?: CheckRunAnnotation[];
   failedSteps?: string[];
+  jobLog?: string;  // Error window of the failed job's log, fetched from CI (see ci-logs.ts)
+  testFailures?: CITestFailure[];  // Parsed from the job log (or manual logs)
   logs?: string;  // Manual logs provided by user
 }
 
+// A failing test, type error or lint error recognised in a CI log
+export interface CITestFailure {
+  tool: 'jest' | 'pytest' | 'go' | 'tsc' | 'eslint';
+  file?: string;
+  line?: number;
+  name?: string;  // Test name, TS error code or lint rule
+  message: string;
+}
+
 export interface FixAttempt {
   timestamp: number;
   failure: FailureInfo;
   attemptNumber: number;  // 1, 2, or 3
-  method: 'templated' | 'llm' | 'manual';
-  cursorResponse?: CursorResponse;
+  method: 'templated' | 'llm' | 'manual' | 'rerun';
+  agentResponse?: CodingAgentResponse;  // Whichever coding agent backend made the attempt
+  rerun?: {  // method 'rerun': the failure looked flaky, so the job was re-run instead of fixed
+    sha: string;
+    reasons: string[];
+    passed?: boolean;  // Unset until the re-run finishes
+  };
   commitSha?: string;
   success: boolean;
 }
 
+export interface PendingRerun {
+  checkName: string;
+  sha: string;
+  requestedAt: number;
+  flakinessKeys: string[];  // Check and test keys whose re-run outcome gets recorded
+}
+
+// Rebasing (or merging the base into) a PR branch that fell behind or conflicts with its base
+export interface BranchUpdate {
+  strategy: 'rebase' | 'merge';
+  mergeState: Extract<PRMergeState, 'behind' | 'conflicted'>;
+  baseSha: string;             // Base branch head the branch was updated onto
+  headSha: string;             // PR head before the update (the --force-with-lease expectation)
+  startedAt: number;
+  outcome?: 'updated' | 'failed';  // Unset while the update runs
+  conflictedFiles?: string[];  // Files the coding agent resolved
+  newSha?: string;
+  error?: string;
+}
+
 export type PRWatchEvent = 
   | { type: 'started'; session: PRWatchSession }
+  | { type: 'resumed'; sessionId: string; message: string }
   | { type: 'polling'; sessionId: string; checksResult: any }
   | { type: 'failure_detected'; sessionId: string; failure: FailureInfo }
-  | { type: 'fixing'; sessionId: string; attempt: number; method: 'templated' | 'llm' | 'manual' }
+  | { type: 'fixing'; sessionId: string; attempt: number; method: 'templated' | 'llm' | 'manual'; backend?: CodingAgentBackend }
   | { type: 'fix_skipped'; sessionId: string; reason: string }
   | { type: 'fix_committed'; sessionId: string; sha: string }
+  | { type: 'rerun_triggered'; sessionId: string; checkName: string; reasons: string[] }
+  | { type: 'rerun_completed'; sessionId: string; checkName: string; passed: boolean }
+  | { type: 'branch_updating'; sessionId: string; strategy: BranchUpdate['strategy']; mergeState: BranchUpdate['mergeState'] }
+  | { type: 'branch_updated'; sessionId: string; strategy: BranchUpdate['strategy']; sha: string; conflictedFiles: string[] }
+  | { type: 'branch_update_failed'; sessionId: string; error: string }
   | { type: 'success'; sessionId: string; commitCount: number }
+  | { type: 'closed'; sessionId: string; merged: boolean }
   | { type: 'max_attempts'; sessionId: string; failure: FailureInfo }
   | { type: 'stopped'; sessionId: string; reason: string }
   | { type: 'context_switch'; fromSessionId: string; toSessionId: string; reason: string }
@@ -1,12 +1,28 @@
-// Slack Tools - Browser-based Slack access for the AI assistant
-// Uses Playwright to scrape Slack web UI with LLM-powered extraction
+// Slack Tools - Slack access for the AI assistant
+// Two backends behind the same tools: Playwright scraping of the Slack web UI (LLM-powered
+// extraction), or the Slack Web API when SLACK_USER_TOKEN / SLACK_BOT_TOKEN is set.
 
 import {
   slackBrowser,
+  parseSlackUrl,
   SlackChannel,
   SlackMessage,
   SlackBrowserStatus,
 } from '../clients/slack.js';
+import {
+  isSlackApiConfigured,
+  getSlackApiIdentity,
+  listSlackChannels,
+  resolveSlackChannel,
+  findSlackChannels,
+  getSlackChannelHistory,
+  getSlackThreadReplies,
+  searchSlackMessages,
+  getSlackPermalink,
+  postSlackMessage,
+  addSlackReaction,
+  SlackSearchMatch,
+} from '../clients/slack-api.js';
 import {
   extractChannels,
   extractMessages,
@@ -59,12 +75,57 @@ export interface SlackNavigateResult {
   error?: string;
 }
 
+// A message to act on: `ts` with the Web API backend, or its index in the last read
+// (the browser backend only understands indices)
+export interface SlackMessageTarget {
+  messageIndex?: number;
+  ts?: string;
+  channel?: string;   // Channel ID or name - defaults to the current channel
+}
+
+// ===== Web API backend state =====
+// The current channel, the last read and the last channel search stand in for the browser page
+// so the navigate → read → reply-by-index workflow works unchanged.
+
+const apiSession: {
+  channel: SlackChannel | null;
+  messages: SlackMessage[];
+  searchResults: SlackChannel[];
+} = { channel: null, messages: [], searchResults: [] };
+
+const NO_API_CHANNEL = 'No Slack channel selected. Use slack_navigate_channel or slack_search_channel_get_results first.';
+
+async function resolveApiTarget(target: SlackMessageTarget): Promise<{ channelId: string; ts: string } | { error: string }> {
+  const channel = target.channel ? await resolveSlackChannel(target.channel) : apiSession.channel;
+  if (target.ts) {
+    return channel ? { channelId: channel.id, ts: target.ts } : { error: NO_API_CHANNEL };
+  }
+
+  if (target.messageIndex === undefined) {
+    return { error: 'Provide ts (preferred) or messageIndex from slack_read_messages' };
+  }
+  const message = apiSession.messages[target.messageIndex];
+  if (!message?.ts || !message.channelId) {
+    return { error: `Message index ${target.messageIndex} out of range (${apiSession.messages.length} messages in the last read)` };
+  }
+  return { channelId: message.channelId, ts: message.ts };
+}
+
 /**
  * Open Slack browser and navigate to workspace
  * If session exists, attempts to restore it
  * Returns whether login is needed
  */
 export async function slackOpenBrowser(workspaceUrl: string): Promise<SlackOpenResult> {
+  if (isSlackApiConfigured()) {
+    const identity = await getSlackApiIdentity();
+    return {
+      success: true,
+      needsLogin: false,
+      message: `Using the Slack Web API as ${identity.user} (${identity.team}) - no browser needed.`,
+    };
+  }
+
   // Validate URL
   if (!workspaceUrl.includes('slack.com')) {
     return {
@@ -130,6 +191,10 @@ export async function slackOpenBrowser(workspaceUrl: string): Promise<SlackOpenR
  * Call this after slack_open_browser if login is needed
  */
 export async function slackWaitForLogin(timeoutMinutes: number = 5): Promise<SlackOpenResult> {
+  if (isSlackApiConfigured()) {
+    return { success: true, needsLogin: false, message: 'Using the Slack Web API - no login needed.' };
+  }
+
   const result = await slackBrowser.waitForLogin(timeoutMinutes * 60 * 1000);
 
   if (!result.success) {
@@ -155,13 +220,29 @@ export async function slackWaitForLogin(timeoutMinutes: number = 5): Promise<Sla
  * Get current Slack browser status
  */
 export async function slackGetStatus(): Promise<SlackBrowserStatus> {
-  return await slackBrowser.getStatus();
+  if (isSlackApiConfigured()) {
+    const identity = await getSlackApiIdentity();
+    return {
+      isOpen: true,
+      isLoggedIn: true,
+      currentChannel: apiSession.channel?.name,
+      workspaceUrl: identity.url,
+      workspaceName: identity.team,
+      backend: 'api',
+    };
+  }
+
+  return { ...await slackBrowser.getStatus(), backend: 'browser' };
 }
 
 /**
  * List all visible channels/conversations in Slack sidebar
  */
 export async function slackListChannels(): Promise<SlackListChannelsResult> {
+  if (isSlackApiConfigured()) {
+    return { success: true, channels: await listSlackChannels() };
+  }
+
   if (!isExtractorReady()) {
     return {
       success: false,
@@ -190,6 +271,12 @@ export async function slackListChannels(): Promise<SlackListChannelsResult> {
  * Navigate to a specific channel by name or ID
  */
 export async function slackNavigateChannel(channelIdOrName: string): Promise<SlackNavigateResult> {
+  if (isSlackApiConfigured()) {
+    apiSession.channel = await resolveSlackChannel(channelIdOrName);
+    apiSession.messages = [];
+    return { success: true, channelName: apiSession.channel.name };
+  }
+
   if (!isExtractorReady()) {
     return {
       success: false,
@@ -218,7 +305,21 @@ export async function slackNavigateChannel(channelIdOrName: string): Promise<Sla
 /**
  * Read messages from current channel
  */
-export async function slackReadMessages(limit: number = 20): Promise<SlackReadMessagesResult> {
+export async function slackReadMessages(limit: number = 20, before?: string): Promise<SlackReadMessagesResult> {
+  if (isSlackApiConfigured()) {
+    if (!apiSession.channel) {
+      return { success: false, messages: [], error: NO_API_CHANNEL };
+    }
+    const messages = await getSlackChannelHistory(apiSession.channel.id, { limit, latest: before });
+    apiSession.messages = messages;
+    return {
+      success: true,
+      messages,
+      channelName: apiSession.channel.name,
+      dateRange: messages.length > 0 ? `${messages[0].timestamp} to ${messages[messages.length - 1].timestamp}` : undefined,
+    };
+  }
+
   if (!isExtractorReady()) {
     return {
       success: false,
@@ -317,6 +418,10 @@ export async function slackScrollMessages(direction: 'up' | 'down' = 'up'): Prom
   scrolled?: boolean;
   error?: string 
 }> {
+  if (isSlackApiConfigured()) {
+    return { success: false, error: 'Scrolling is not needed with the Slack Web API - use slack_read_messages with before=<ts of the oldest message> for older messages.' };
+  }
+
   if (!isExtractorReady()) {
     return { success: false, error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
@@ -333,6 +438,11 @@ export async function slackScrollMessages(direction: 'up' | 'down' = 'up'): Prom
  * Scroll to the very bottom of the message area
  */
 export async function slackScrollToBottom(): Promise<{ success: boolean; error?: string }> {
+  // slack_read_messages always returns the latest messages with the Web API
+  if (isSlackApiConfigured()) {
+    return { success: true };
+  }
+
   if (!isExtractorReady()) {
     return { success: true, error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
@@ -348,6 +458,10 @@ export async function slackScrollToBottom(): Promise<{ success: boolean; error?:
  * Scroll the sidebar to find more channels
  */
 export async function slackScrollSidebar(direction: 'up' | 'down' = 'down'): Promise<{ success: boolean; error?: string }> {
+  if (isSlackApiConfigured()) {
+    return { success: false, error: 'There is no sidebar with the Slack Web API - slack_list_channels returns every channel.' };
+  }
+
   if (!isExtractorReady()) {
     return { success: false, error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
@@ -373,6 +487,19 @@ export async function slackSearchChannelGetResults(searchQuery: string, pressEnt
   }>;
   error?: string;
 }> {
+  if (isSlackApiConfigured()) {
+    apiSession.searchResults = await findSlackChannels(searchQuery, pressEnter ? 20 : 10);
+    return {
+      success: true,
+      results: apiSession.searchResults.map((channel, index) => ({
+        index,
+        text: channel.type === 'channel' ? `#${channel.name}` : `${channel.name} (${channel.type === 'dm' ? 'DM' : 'group DM'})`,
+        fullText: `${channel.name} ${channel.id}`,
+        type: channel.type === 'channel' ? 'channel' : 'dm',
+      })),
+    };
+  }
+
   if (!isExtractorReady()) {
     return { success: false, results: [], error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
@@ -388,6 +515,16 @@ export async function slackSelectSearchResult(index: number): Promise<{
   navigatedTo?: string;
   error?: string;
 }> {
+  if (isSlackApiConfigured()) {
+    const channel = apiSession.searchResults[index];
+    if (!channel) {
+      return { success: false, error: `Search result index ${index} out of range (${apiSession.searchResults.length} results)` };
+    }
+    apiSession.channel = channel;
+    apiSession.messages = [];
+    return { success: true, navigatedTo: channel.name };
+  }
+
   if (!isExtractorReady()) {
     return { success: false, error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
@@ -398,30 +535,68 @@ export async function slackSelectSearchResult(index: number): Promise<{
 /**
  * React to a message with an emoji
  */
-export async function slackReactToMessage(messageIndex: number, emoji: string): Promise<{ success: boolean; error?: string }> {
+export async function slackReactToMessage(target: SlackMessageTarget, emoji: string): Promise<{ success: boolean; error?: string }> {
+  if (isSlackApiConfigured()) {
+    const resolved = await resolveApiTarget(target);
+    if ('error' in resolved) {
+      return { success: false, error: resolved.error };
+    }
+    await addSlackReaction(resolved.channelId, resolved.ts, emoji);
+    return { success: true };
+  }
+
   if (!isExtractorReady()) {
     return { success: false, error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
+  if (target.messageIndex === undefined) {
+    return { success: false, error: 'messageIndex is required with the browser backend' };
+  }
 
-  return await reactToMessage(messageIndex, emoji);
+  return await reactToMessage(target.messageIndex, emoji);
 }
 
 /**
  * Reply to a message in a thread
  */
-export async function slackReplyToMessage(messageIndex: number, replyText: string): Promise<{ success: boolean; error?: string }> {
+export async function slackReplyToMessage(target: SlackMessageTarget, replyText: string): Promise<{ success: boolean; ts?: string; error?: string }> {
+  if (isSlackApiConfigured()) {
+    const resolved = await resolveApiTarget(target);
+    if ('error' in resolved) {
+      return { success: false, error: resolved.error };
+    }
+    // Replying to a reply goes to the same thread
+    const parent = apiSession.messages.find(m => m.ts === resolved.ts && m.channelId === resolved.channelId);
+    const posted = await postSlackMessage(resolved.channelId, replyText, {
+      threadTs: parent?.threadTs || resolved.ts,
+      skipDisclaimer: false,
+    });
+    return { success: true, ts: posted.ts };
+  }
+
   if (!isExtractorReady()) {
     return { success: false, error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
+  if (target.messageIndex === undefined) {
+    return { success: false, error: 'messageIndex is required with the browser backend' };
+  }
 
   // Always add AI disclaimer to thread replies
-  return await replyToMessage(messageIndex, replyText, { skipDisclaimer: false });
+  return await replyToMessage(target.messageIndex, replyText, { skipDisclaimer: false });
 }
 
 /**
  * Send a message to the current channel/DM
  */
-export async function slackSendMessage(text: string): Promise<{ success: boolean; error?: string }> {
+export async function slackSendMessage(text: string): Promise<{ success: boolean; ts?: string; error?: string }> {
+  if (isSlackApiConfigured()) {
+    if (!apiSession.channel) {
+      return { success: false, error: NO_API_CHANNEL };
+    }
+    // Always add AI disclaimer to channel messages
+    const posted = await postSlackMessage(apiSession.channel.id, text, { skipDisclaimer: false });
+    return { success: true, ts: posted.ts };
+  }
+
   if (!isExtractorReady()) {
     return { success: false, error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
@@ -442,12 +617,26 @@ export async function slackSendMessage(text: string): Promise<{ success: boolean
 /**
  * Read a thread's messages (parent + all replies)
  */
-export async function slackReadThread(messageIndex: number): Promise<{ 
+export async function slackReadThread(target: SlackMessageTarget): Promise<{ 
   success: boolean; 
   messages: SlackMessage[]; 
   threadUrl?: string;
   error?: string 
 }> {
+  if (isSlackApiConfigured()) {
+    const resolved = await resolveApiTarget(target);
+    if ('error' in resolved) {
+      return { success: false, messages: [], error: resolved.error };
+    }
+    const parent = apiSession.messages.find(m => m.ts === resolved.ts && m.channelId === resolved.channelId);
+    const threadTs = parent?.threadTs || resolved.ts;
+    const [messages, threadUrl] = await Promise.all([
+      getSlackThreadReplies(resolved.channelId, threadTs),
+      getSlackPermalink(resolved.channelId, threadTs),
+    ]);
+    return { success: true, messages, threadUrl };
+  }
+
   if (!isExtractorReady()) {
     return { success: false, messages: [], error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
@@ -462,7 +651,11 @@ export async function slackReadThread(messageIndex: number): Promise<{
     };
   }
 
-  const result = await readThread(messageIndex);
+  if (target.messageIndex === undefined) {
+    return { success: false, messages: [], error: 'messageIndex is required with the browser backend' };
+  }
+
+  const result = await readThread(target.messageIndex);
   
   return {
     success: !result.error || result.messages.length > 0,
@@ -475,12 +668,23 @@ export async function slackReadThread(messageIndex: number): Promise<{
 /**
  * Get the shareable URL for a message
  */
-export async function slackGetMessageUrl(messageIndex: number): Promise<{ success: boolean; url?: string; error?: string }> {
+export async function slackGetMessageUrl(target: SlackMessageTarget): Promise<{ success: boolean; url?: string; error?: string }> {
+  if (isSlackApiConfigured()) {
+    const resolved = await resolveApiTarget(target);
+    if ('error' in resolved) {
+      return { success: false, error: resolved.error };
+    }
+    return { success: true, url: await getSlackPermalink(resolved.channelId, resolved.ts) };
+  }
+
   if (!isExtractorReady()) {
     return { success: false, error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
+  if (target.messageIndex === undefined) {
+    return { success: false, error: 'messageIndex is required with the browser backend' };
+  }
 
-  const result = await getMessageUrl(messageIndex);
+  const result = await getMessageUrl(target.messageIndex);
   
   return {
     success: !!result.url,
@@ -493,6 +697,11 @@ export async function slackGetMessageUrl(messageIndex: number): Promise<{ succes
  * Close the thread panel if it's open
  */
 export async function slackCloseThread(): Promise<{ success: boolean }> {
+  // Threads are read without opening a panel with the Web API
+  if (isSlackApiConfigured()) {
+    return { success: true };
+  }
+
   if (!isExtractorReady()) {
     return { success: false };
   }
@@ -556,6 +765,24 @@ export async function slackNavigateToUrl(url: string): Promise<{
   type?: string;
   error?: string;
 }> {
+  if (isSlackApiConfigured()) {
+    const parsed = parseSlackUrl(url);
+    if (!parsed?.channelId) {
+      return { success: false, error: 'Could not find a channel ID in the Slack URL' };
+    }
+    apiSession.channel = await resolveSlackChannel(parsed.channelId);
+    // Load the linked message (or thread) so it can be addressed by index straight away
+    apiSession.messages = parsed.threadTs || parsed.messageTs
+      ? await getSlackThreadReplies(parsed.channelId, parsed.threadTs || parsed.messageTs!)
+      : await getSlackChannelHistory(parsed.channelId);
+    return {
+      success: true,
+      channelId: parsed.channelId,
+      messageTs: parsed.messageTs,
+      type: parsed.type,
+    };
+  }
+
   if (!isExtractorReady()) {
     return { success: false, error: 'Slack browser not ready. Use slack_open_browser first.' };
   }
@@ -619,6 +846,25 @@ export async function slackNavigateToUrl(url: string): Promise<{
   }
 }
 
+/**
+ * Search messages across the workspace (Web API backend with a user token only)
+ */
+export async function slackSearchMessages(query: string, limit: number = 20): Promise<{
+  success: boolean;
+  matches: SlackSearchMatch[];
+  error?: string;
+}> {
+  if (!isSlackApiConfigured()) {
+    return {
+      success: false,
+      matches: [],
+      error: 'Message search needs the Slack Web API (set SLACK_USER_TOKEN). With the browser, use slack_query_ai or slack_search_channel_get_results.',
+    };
+  }
+
+  return { success: true, matches: await searchSlackMessages(query, limit) };
+}
+
 /**
  * Query Slack AI with a question
  * Returns AI answer and any reference links
@@ -629,8 +875,14 @@ export async function slackQueryAI(question: string): Promise<{
   references?: Array<{ title: string; url: string }>;
   error?: string;
 }> {
+  // Slack AI has no public API - this stays on the browser even when a token is set
   if (!isExtractorReady()) {
-    return { success: false, error: 'Slack browser not ready. Use slack_open_browser first.' };
+    return {
+      success: false,
+      error: isSlackApiConfigured()
+        ? 'Slack AI is only available through the browser - use slack_search_messages instead.'
+        : 'Slack browser not ready. Use slack_open_browser first.',
+    };
   }
 
   const { querySlackAI } = await import('../clients/slack-extractor.js');
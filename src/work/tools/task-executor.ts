@@ -1,7 +1,7 @@
 // Task Executor - Autonomous task completion from start to finish
-// Handles JIRA tickets and PRs, orchestrates Cursor, monitors CI
+// Handles JIRA tickets and PRs, orchestrates the coding agent (Cursor, Aider, ...), monitors CI
 
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
 import { existsSync } from 'fs';
 import { join } from 'path';
@@ -15,29 +15,31 @@ import {
 } from './tasks.js';
 import {
   getTicket,
+  transitionTicket,
   isJiraConfigured,
 } from '../clients/jira.js';
 import {
   getPullRequest,
   listPullRequests,
   getPRChecks,
+  createPullRequest,
   isGitHubConfigured,
   GitHubPullRequest,
 } from '../clients/github.js';
+import { findChangeRequestUrl, findRepoUrl } from '../clients/forge.js';
 import {
   parsePRUrl,
   squashSessionCommits,
 } from './pr-tracking.js';
 import { prWatchManager } from './pr-watch-manager.js';
 import { PRWatchEvent } from './pr-watch-types.js';
-import {
-  startCursorSessionWithProgress,
-  getCursorSessionStatus,
-} from './cursor.js';
+import { resolveCodingAgent, CodingAgentResponse } from './coding-agent.js';
+import { CodingAgentBackend } from '../types.js';
 import { cloneRepoToWorkspace } from './compound.js';
 import { getWorkspace, runShellCommand } from './shell.js';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 // ===== Types =====
 
@@ -86,10 +88,12 @@ export type ExecutionEvent =
   | { type: 'need_repo'; suggestions: string[] }
   | { type: 'cloning'; repo: string }
   | { type: 'branching'; branch: string }
-  | { type: 'sending_to_cursor'; prompt: string }
-  | { type: 'cursor_complete'; success: boolean }
+  | { type: 'sending_to_agent'; backend: CodingAgentBackend; prompt: string }
+  | { type: 'agent_complete'; backend: CodingAgentBackend; success: boolean }
   | { type: 'creating_pr'; title: string }
   | { type: 'pr_created'; url: string }
+  | { type: 'jira_transitioned'; ticketKey: string; status: string }
+  | { type: 'jira_transition_failed'; ticketKey: string; error: string }
   | { type: 'watching_ci'; prNumber: number }
   | { type: 'ci_passed'; commitCount: number }
   | { type: 'ci_failed'; failure: string }
@@ -342,12 +346,9 @@ async function executePRTask(analyzed: AnalyzedTask): Promise<void> {
   const checks = await getPRChecks(parsed.repoUrl, parsed.prNumber);
   
   if (checks.summary.failing > 0) {
-    // There are failures - send to Cursor to fix
+    // There are failures - send to the coding agent to fix
     const prompt = buildPRFixPrompt(analyzed.pr, checks);
-    emit({ type: 'sending_to_cursor', prompt: prompt.substring(0, 200) + '...' });
-    
-    const response = await startCursorSessionWithProgress(prompt, cloned.path, { force: true });
-    emit({ type: 'cursor_complete', success: response.success });
+    const response = await runCodingAgentForTask(prompt, cloned.path, parsed.repoUrl);
 
     if (response.success) {
       // Commit and push
@@ -389,16 +390,12 @@ async function executeJiraTask(analyzed: AnalyzedTask): Promise<void> {
   emit({ type: 'branching', branch: branchName });
   await createAndCheckoutBranch(cloned.path, branchName);
 
-  // Build prompt for Cursor
+  // Build prompt and send to the coding agent
   const prompt = buildJiraTaskPrompt(analyzed.jiraTicket);
-  emit({ type: 'sending_to_cursor', prompt: prompt.substring(0, 200) + '...' });
-
-  // Send to Cursor
-  const response = await startCursorSessionWithProgress(prompt, cloned.path, { force: true });
-  emit({ type: 'cursor_complete', success: response.success });
+  const response = await runCodingAgentForTask(prompt, cloned.path, analyzed.suggestedRepo);
 
   if (!response.success) {
-    throw new Error(`Cursor failed: ${response.error || 'Unknown error'}`);
+    throw new Error(`Coding agent (${response.backend}) failed: ${response.error || 'Unknown error'}`);
   }
 
   // Commit changes
@@ -406,18 +403,20 @@ async function executeJiraTask(analyzed: AnalyzedTask): Promise<void> {
 
   // Create PR
   emit({ type: 'creating_pr', title: `${analyzed.jiraTicket.key}: ${analyzed.jiraTicket.summary}` });
-  const prUrl = await createPullRequest(cloned.path, branchName, analyzed.jiraTicket);
+  const prUrl = await openPullRequest(cloned.path, branchName, analyzed.jiraTicket);
   
   if (prUrl) {
     emit({ type: 'pr_created', url: prUrl });
     executionState.prUrl = prUrl;
+    await moveJiraTicket(analyzed.jiraTicket.key, getJiraWorkflowStatus('review'), `🔍 PR opened: ${prUrl}`);
 
     // Parse and start watching
     const parsed = parsePRUrl(prUrl);
     if (parsed) {
       executionState.prNumber = parsed.prNumber;
       executionState.status = 'waiting_ci';
-      await prWatchManager.addPRWatch(parsed.repoUrl, parsed.prNumber, handlePREvent);
+      const ticketKey = analyzed.jiraTicket.key;
+      await prWatchManager.addPRWatch(parsed.repoUrl, parsed.prNumber, event => handlePREvent(event, ticketKey, prUrl));
     }
   } else {
     // No PR created (maybe no changes?)
@@ -427,7 +426,7 @@ async function executeJiraTask(analyzed: AnalyzedTask): Promise<void> {
 
 async function executeGenericTask(analyzed: AnalyzedTask): Promise<void> {
   // For generic tasks without clear JIRA/PR context
-  // Just send to Cursor with task description
+  // Just send to the coding agent with task description
   
   if (!analyzed.suggestedRepo) {
     throw new Error('Generic task requires a repo');
@@ -447,18 +446,32 @@ async function executeGenericTask(analyzed: AnalyzedTask): Promise<void> {
   executionState.branch = branchName;
 
   const prompt = buildGenericTaskPrompt(analyzed.task);
-  emit({ type: 'sending_to_cursor', prompt: prompt.substring(0, 200) + '...' });
-
-  const response = await startCursorSessionWithProgress(prompt, cloned.path, { force: true, timeout: 600000 });
-  emit({ type: 'cursor_complete', success: response.success });
+  const response = await runCodingAgentForTask(prompt, cloned.path, analyzed.suggestedRepo, 600000);
 
   if (response.success) {
     await handleTaskComplete(analyzed.task);
   } else {
-    throw new Error(`Cursor failed: ${response.error}`);
+    throw new Error(`Coding agent (${response.backend}) failed: ${response.error}`);
   }
 }
 
+/**
+ * Run the coding agent configured for the repo on a cloned workspace
+ */
+async function runCodingAgentForTask(
+  prompt: string,
+  workspace: string,
+  repoUrl: string,
+  timeout?: number
+): Promise<CodingAgentResponse> {
+  const agent = await resolveCodingAgent({ repoUrl });
+  emit({ type: 'sending_to_agent', backend: agent.backend, prompt: prompt.substring(0, 200) + '...' });
+
+  const response = await agent.run(prompt, { workspace, repoUrl, force: true, timeout });
+  emit({ type: 'agent_complete', backend: agent.backend, success: response.success });
+  return response;
+}
+
 // ===== Task Analysis =====
 
 async function analyzeTask(task: Task): Promise<AnalyzedTask> {
@@ -473,12 +486,11 @@ async function analyzeTask(task: Task): Promise<AnalyzedTask> {
   const content = task.content.toLowerCase();
   const fullContext = (await getTaskWithContext(task.id))?.fullContext || '';
 
-  // Check for PR URL
-  const prMatch = task.content.match(/github\.com\/[\w-]+\/[\w-]+\/pull\/\d+/) ||
-                  fullContext.match(/github\.com\/[\w-]+\/[\w-]+\/pull\/\d+/);
-  if (prMatch) {
+  // Check for PR / MR URL (GitHub, GitHub Enterprise or GitLab)
+  const prUrl = findChangeRequestUrl(task.content) || findChangeRequestUrl(fullContext);
+  if (prUrl) {
     analyzed.type = 'pr';
-    analyzed.prUrl = `https://${prMatch[0]}`;
+    analyzed.prUrl = prUrl;
     const parsed = parsePRUrl(analyzed.prUrl);
     if (parsed) {
       try {
@@ -546,10 +558,10 @@ async function analyzeTask(task: Task): Promise<AnalyzedTask> {
 function detectRepoFromText(text: string): string | null {
   const lower = text.toLowerCase();
   
-  // Check for GitHub URLs
-  const urlMatch = text.match(/github\.com\/([\w-]+)\/([\w-]+)/);
-  if (urlMatch) {
-    return `https://github.com/${urlMatch[1]}/${urlMatch[2]}`;
+  // Check for repository URLs on a configured forge
+  const repoUrl = findRepoUrl(text);
+  if (repoUrl) {
+    return repoUrl;
   }
 
   // Check known repo keywords
@@ -630,27 +642,23 @@ async function commitAndPush(repoPath: string, branch: string, message: string):
   }
   
   await execAsync('git add .', { cwd: repoPath });
-  await execAsync(`git commit -m "${message.replace(/"/g, '\\"')}"`, { cwd: repoPath });
+  // execFile passes the message as-is - no shell quoting of backticks or $
+  await execFileAsync('git', ['commit', '-m', message], { cwd: repoPath });
   await execAsync(`git push -u origin ${branch}`, { cwd: repoPath });
 }
 
-async function createPullRequest(
+async function openPullRequest(
   repoPath: string,
   branch: string,
   jiraTicket: { key: string; summary: string; description?: string }
 ): Promise<string | null> {
-  // Use gh CLI to create PR
   const title = `${jiraTicket.key}: ${jiraTicket.summary}`;
   const body = `## Summary\n\n${jiraTicket.description || jiraTicket.summary}\n\n---\n\nJIRA: ${jiraTicket.key}`;
   
   try {
-    const { stdout } = await execAsync(
-      `gh pr create --title "${title.replace(/"/g, '\\"')}" --body "${body.replace(/"/g, '\\"')}" --head ${branch}`,
-      { cwd: repoPath }
-    );
-    // gh pr create outputs the PR URL
-    const prUrl = stdout.trim();
-    return prUrl || null;
+    const { stdout: remoteUrl } = await execAsync('git remote get-url origin', { cwd: repoPath });
+    const pr = await createPullRequest(remoteUrl.trim(), { title, body, head: branch });
+    return pr.url;
   } catch (error) {
     // PR creation might fail if no changes or other issues
     console.error('PR creation failed:', error);
@@ -730,6 +738,29 @@ Please analyze, implement, test, and commit the changes needed for this task.
 Do not ask for confirmation - just complete the task.`;
 }
 
+// ===== JIRA Workflow =====
+
+// Status names differ between boards - JIRA_REVIEW_STATUS / JIRA_DONE_STATUS override the defaults
+// A ticket moves to review when its PR opens and to done when the PR merges (green CI is not a merge)
+function getJiraWorkflowStatus(step: 'review' | 'done'): string {
+  return step === 'review'
+    ? process.env.JIRA_REVIEW_STATUS || 'In Review'
+    : process.env.JIRA_DONE_STATUS || 'Done';
+}
+
+/**
+ * Move the task's ticket along its workflow (best effort - never fails the task)
+ */
+async function moveJiraTicket(ticketKey: string, status: string, comment: string): Promise<void> {
+  if (!isJiraConfigured()) return;
+  try {
+    const result = await transitionTicket(ticketKey, status, comment);
+    emit({ type: 'jira_transitioned', ticketKey, status: result.status });
+  } catch (error) {
+    emit({ type: 'jira_transition_failed', ticketKey, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
 // ===== Event Handling =====
 
 function emit(event: ExecutionEvent): void {
@@ -737,12 +768,17 @@ function emit(event: ExecutionEvent): void {
   onEvent?.(event);
 }
 
-function handlePREvent(prEvent: PRWatchEvent): void {
+// jiraKey/prUrl are bound per watch - by the time the PR merges the executor may be on another task
+function handlePREvent(prEvent: PRWatchEvent, jiraKey?: string, prUrl?: string): void {
   if (prEvent.type === 'success') {
     emit({ type: 'ci_passed', commitCount: prEvent.commitCount });
     if (executionState.currentTask) {
       handleTaskComplete(executionState.currentTask.task);
     }
+  } else if (prEvent.type === 'closed') {
+    if (prEvent.merged && jiraKey) {
+      moveJiraTicket(jiraKey, getJiraWorkflowStatus('done'), `✅ PR merged: ${prUrl}`);
+    }
   } else if (prEvent.type === 'max_attempts') {
     emit({ type: 'ci_failed', failure: prEvent.failure.checkName });
     executionState.status = 'awaiting_user';
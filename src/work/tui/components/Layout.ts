@@ -7,6 +7,10 @@ import { markdownToBlessed, stripAnsi, wrapLine } from '../utils/markdown.js';
 import { getCustomCharacters, type CustomCharacter } from '../../storage/characters.js';
 import { getTrashBinManager, TrashedWorkstream, TrashSearchResult } from '../state/trash.js';
 import { isFeatureAvailable } from '../../../utils/platform/index.js';
+import { editableText } from '../../agent/approval.js';
+import type { ApprovalRequest, ApprovalDecision } from '../../agent/approval.js';
+import { parseChangeRequestUrl, parseRepoRef } from '../../clients/forge.js';
+import { findPageId } from '../../clients/pagerduty.js';
 
 export class Layout {
   private screen: blessed.Widgets.Screen;
@@ -40,6 +44,16 @@ export class Layout {
   private pendingProgressMessages: string[] = [];  // Queue for batching progress messages
   private progressFlushTimeout: NodeJS.Timeout | null = null;
   
+  // Streaming response: the model step being drawn at the bottom of the log
+  // sealedChars = text already left above other output, lineCount = lines redrawn on update
+  // source = the workstream streaming it (null for general chat)
+  private stream: { text: string; sealedChars: number; lineCount: number; source: string | null } | null = null;
+  private pendingStreamText: string | null = null;
+  private pendingStreamSource: string | null = null;
+  private streamFlushTimeout: NodeJS.Timeout | null = null;
+  // Sources whose last response is fully on screen from streaming
+  private streamedResponsesShown = new Set<string | null>();
+  
   // Voice state
   private voiceState: VoiceState = {
     ttsEnabled: false,
@@ -829,18 +843,17 @@ export class Layout {
         let name = value.trim();
         let metadata: Record<string, any> = {};
         
-        // Parse PR URL
-        if (type === 'pr' && value.includes('github.com')) {
-          const match = value.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
-          if (match) {
-            metadata = {
-              prOwner: match[1],
-              prRepo: match[2],
-              prNumber: parseInt(match[3]),
-              prUrl: value.trim(),
-            };
-            name = `PR #${match[3]}`;
-          }
+        // Parse PR / MR URL (GitHub, GitHub Enterprise or GitLab)
+        const change = type === 'pr' ? parseChangeRequestUrl(value) : null;
+        if (change) {
+          const ref = parseRepoRef(change.repoUrl);
+          metadata = {
+            prOwner: ref.owner,
+            prRepo: ref.repo,
+            prNumber: change.prNumber,
+            prUrl: value.trim(),
+          };
+          name = ref.host.kind === 'gitlab' ? `MR !${change.prNumber}` : `PR #${change.prNumber}`;
         }
         
         // Parse Jira ticket
@@ -849,6 +862,16 @@ export class Layout {
           name = value.trim();
         }
         
+        // Parse on-call page (PagerDuty / Opsgenie URL, PagerDuty incident ID, Opsgenie alert ID or tiny ID)
+        if (type === 'investigation') {
+          const pageId = findPageId(value)
+            || (/^(?:(?=[A-Z0-9]*\d)[A-Z0-9]{6,}|\d+|[0-9a-f]{8}-[0-9a-f-]{27,})$/.test(value.trim()) ? value.trim() : null);
+          if (pageId) {
+            metadata = { pageId };
+            name = `Page ${pageId}`;
+          }
+        }
+        
         this.onEvent({
           type: 'workstream_create',
           workstreamType: type as any,
@@ -1019,6 +1042,117 @@ export class Layout {
     this.screen.render();
   }
 
+  /**
+   * Show an approval dialog for a write-external tool call
+   * [a] approve  [A] always approve this tool  [e] edit  [r]/Esc reject
+   */
+  showApprovalDialog(request: ApprovalRequest, onDecision: (decision: ApprovalDecision) => void): void {
+    this.dialogOpen = true;
+    // Hide main input so keys go to the dialog
+    (this.inputBox as any).cancel?.();
+    this.inputBox.hide();
+
+    const previewLines = request.preview.split('\n').map(line => {
+      const escaped = blessed.escape(line);
+      if (line.startsWith('+ ')) return `{green-fg}${escaped}{/green-fg}`;
+      if (line.startsWith('$ ')) return `{yellow-fg}${escaped}{/yellow-fg}`;
+      return escaped;
+    });
+
+    const editHint = request.editableField ? '  {cyan-fg}e{/cyan-fg} edit' : '';
+    const alwaysHint = request.allowRemember ? '  {cyan-fg}A{/cyan-fg} always' : '';
+    const dialog = blessed.box({
+      parent: this.screen,
+      top: 'center',
+      left: 'center',
+      width: '80%',
+      height: '70%',
+      border: { type: 'line' },
+      style: { border: { fg: 'yellow' }, bg: 'black' },
+      label: ` Approve ${request.toolName}? `,
+      tags: true,
+      keys: true,
+      scrollable: true,
+      alwaysScroll: true,
+      scrollbar: { ch: ' ', style: { bg: 'yellow' } },
+      content: previewLines.join('\n'),
+    });
+
+    const footer = blessed.box({
+      parent: this.screen,
+      top: '85%',
+      left: 'center',
+      width: '80%',
+      height: 1,
+      tags: true,
+      content: `{cyan-fg}a{/cyan-fg} approve${alwaysHint}${editHint}  {cyan-fg}r{/cyan-fg}/{cyan-fg}Esc{/cyan-fg} reject`,
+      style: { fg: 'gray', bg: 'black' },
+    });
+
+    const finish = (decision: ApprovalDecision) => {
+      dialog.destroy();
+      footer.destroy();
+      this.dialogOpen = false;
+      this.inputBox.show();
+      this.inputBox.focus();
+      this.screen.render();
+      onDecision(decision);
+    };
+
+    dialog.key(['a'], () => finish({ action: 'approve' }));
+    if (request.allowRemember) {
+      dialog.key(['S-a'], () => finish({ action: 'approve', remember: true }));
+    }
+    dialog.key(['r', 'escape'], () => finish({ action: 'reject' }));
+    dialog.key(['up'], () => {
+      dialog.scroll(-1);
+      this.screen.render();
+    });
+    dialog.key(['down'], () => {
+      dialog.scroll(1);
+      this.screen.render();
+    });
+
+    const field = request.editableField;
+    if (field) {
+      dialog.key(['e'], () => {
+        const editor = blessed.textarea({
+          parent: this.screen,
+          top: 'center',
+          left: 'center',
+          width: '80%',
+          height: '70%',
+          border: { type: 'line' },
+          style: { border: { fg: 'cyan' }, fg: 'white', bg: 'black' },
+          label: ` Edit ${field} - Ctrl+S approve, Esc back `,
+          inputOnFocus: true,
+          keys: true,
+          mouse: true,
+          scrollable: true,
+          alwaysScroll: true,
+        }) as blessed.Widgets.TextareaElement;
+        editor.setValue(editableText(request.args, field));
+
+        editor.key(['C-s'], () => {
+          const value = editor.getValue();
+          editor.destroy();
+          finish({ action: 'edit', args: { ...request.args, [field]: value } });
+        });
+        editor.key(['escape'], () => {
+          editor.destroy();
+          dialog.focus();
+          this.screen.render();
+        });
+
+        editor.focus();
+        this.screen.render();
+      });
+    }
+
+    dialog.focus();
+    this.screen.render();
+  }
+
   private rawOverlay: blessed.Widgets.BoxElement | null = null;
 
   showRawText(text: string): void {
@@ -1595,6 +1729,7 @@ export class Layout {
         lines.push('', '  {bold}Metadata:{/bold}');
         if (item.metadata.ticketKey) lines.push(`    Ticket: ${item.metadata.ticketKey}`);
         if (item.metadata.prUrl) lines.push(`    PR: ${item.metadata.prUrl}`);
+        if (item.metadata.pageId) lines.push(`    Page: ${item.metadata.pageId}`);
         if (item.metadata.description) lines.push(`    ${item.metadata.description}`);
       }
 
@@ -2202,6 +2337,9 @@ export class Layout {
     /datadog            Toggle Datadog integration
     /character          Opens character selection dialog
     /personality <mode> Set style (default|proactive|minimal)
+    /approvals          List/reset remembered tool approvals
+    /cache [clear]      Tool cache hit/miss stats, or clear it
+    /usage [days]       Model spend by day, workstream, tool and model
     /help               Show this help
 
   {bold}Memory:{/bold}
@@ -2216,6 +2354,10 @@ export class Layout {
     /links or /urls   Interactive link picker:
                         ↑↓ navigate, Enter=open, c=copy, Esc=close
 
+  {bold}Tool Approval:{/bold}
+    Slack, JIRA, Confluence, git push and shell calls wait for approval:
+    a=approve, A=always, e=edit, r/Esc=reject
+
   {bold}Cursor Agent:{/bold}
     Ctrl+L          Show Cursor log viewer (full output)
 ${voiceSection}
@@ -2669,7 +2811,11 @@ ${voiceSection}
       const recentCalls = toolCalls.slice(-5);
       for (const call of recentCalls) {
         const age = this.formatAge(call.timestamp);
-        this.logWrapped(`    {gray-fg}→ ${call.name} (${age} ago){/gray-fg}`);
+        if (call.status === 'error') {
+          this.logWrapped(`    {red-fg}✗ ${call.name} (${age} ago): ${blessed.escape((call.message || 'failed').substring(0, 200))}{/red-fg}`);
+        } else {
+          this.logWrapped(`    {gray-fg}${call.status === 'ok' ? '✓' : '→'} ${call.name} (${age} ago){/gray-fg}`);
+        }
       }
     }
     
@@ -2764,6 +2910,7 @@ ${voiceSection}
   
   private flushProgressMessages(): void {
     if (this.pendingProgressMessages.length === 0) return;
+    this.sealStreamedResponse();
     
     // Write all pending messages at once with proper wrapping
     for (const msg of this.pendingProgressMessages) {
@@ -2785,6 +2932,7 @@ ${voiceSection}
   }
 
   showInfo(message: string): void {
+    this.sealStreamedResponse();
     this.conversationLog.log('');
     this.logWrapped(`  {cyan-fg}ℹ ${stripAnsi(message)}{/cyan-fg}`);
     this.conversationLog.setScrollPerc(100);
@@ -2792,6 +2940,7 @@ ${voiceSection}
   }
 
   showError(message: string): void {
+    this.sealStreamedResponse();
     this.conversationLog.log('');
     this.logWrapped(`  {red-fg}✗ ${stripAnsi(message)}{/red-fg}`);
     this.conversationLog.setScrollPerc(100);
@@ -2799,6 +2948,7 @@ ${voiceSection}
   }
 
   showSuccess(message: string): void {
+    this.sealStreamedResponse();
     this.conversationLog.log('');
     this.logWrapped(`  {green-fg}✓ ${stripAnsi(message)}{/green-fg}`);
     this.conversationLog.setScrollPerc(100);
@@ -2817,12 +2967,108 @@ ${voiceSection}
     const rendered = markdownToBlessed(response);
     if (!rendered.trim()) return;  // Skip empty responses (like pure function calls)
     
+    this.sealStreamedResponse();
+    this.logResponseHeader();
+    this.logResponseLines(rendered);
+    this.conversationLog.log('');
+    this.conversationLog.log('');
+    
+    // Explicitly scroll to bottom to ensure last message is visible
+    this.conversationLog.setScrollPerc(100);
+    this.screen.render();
+  }
+
+  /**
+   * Draw a response while it streams in
+   * Each call carries the full text of the current model step; done=true ends the step.
+   * Redraws are batched like progress messages so fast token streams stay cheap.
+   * source is the workstream the answer belongs to (null for general chat).
+   */
+  streamResponse(text: string, done: boolean, source: string | null): void {
+    this.pendingStreamText = text;
+    this.pendingStreamSource = source;
+    if (done) {
+      this.flushStreamedResponse(true);
+      return;
+    }
+    if (!this.streamFlushTimeout) {
+      this.streamFlushTimeout = setTimeout(() => {
+        this.flushStreamedResponse(false);
+      }, 50);
+    }
+  }
+
+  /**
+   * True (once) if the last response from this source was fully streamed, so the caller
+   * doesn't append it a second time
+   */
+  consumeStreamedResponse(source: string | null): boolean {
+    return this.streamedResponsesShown.delete(source);
+  }
+
+  private flushStreamedResponse(done: boolean): void {
+    if (this.streamFlushTimeout) {
+      clearTimeout(this.streamFlushTimeout);
+      this.streamFlushTimeout = null;
+    }
+    const text = this.pendingStreamText;
+    this.pendingStreamText = null;
+    
+    if (text !== null) {
+      if (!this.stream) {
+        // Tool calls logged before this step stay above it
+        this.flushProgressMessages();
+        this.logResponseHeader();
+        this.stream = { text: '', sealedChars: 0, lineCount: 0, source: this.pendingStreamSource };
+        this.streamedResponsesShown.delete(this.pendingStreamSource);
+      }
+      
+      // Replace the step's lines at the bottom of the log with the new text
+      if (this.stream.lineCount > 0) {
+        const lines = this.conversationLog.getLines();
+        this.conversationLog.setContent(lines.slice(0, lines.length - this.stream.lineCount).join('\n'));
+      }
+      const before = this.conversationLog.getLines().length;
+      this.logResponseLines(markdownToBlessed(text.substring(this.stream.sealedChars)));
+      this.stream.text = text;
+      this.stream.lineCount = this.conversationLog.getLines().length - before;
+    }
+    
+    if (done && this.stream) {
+      this.conversationLog.log('');
+      this.conversationLog.log('');
+      this.streamedResponsesShown.add(this.stream.source);
+      this.stream = null;
+    }
+    
+    this.conversationLog.setScrollPerc(100);
+    this.screen.render();
+  }
+
+  /**
+   * Freeze the streamed lines before other output is logged below them
+   * Later text for the same step continues after that output
+   */
+  private sealStreamedResponse(): void {
+    if (!this.stream) return;
+    if (this.pendingStreamText !== null) {
+      this.flushStreamedResponse(false);
+    }
+    if (this.stream) {
+      this.stream.sealedChars = this.stream.text.length;
+      this.stream.lineCount = 0;
+    }
+  }
+
+  private logResponseHeader(): void {
     // Add visual separator for AI response
     this.conversationLog.log('');
     this.conversationLog.log('');
     this.conversationLog.log('  {green-fg}───────────────────────────────────────────────{/green-fg}');
     this.conversationLog.log('');
-    
+  }
+
+  private logResponseLines(rendered: string): void {
     const lines = rendered.split('\n');
     let consecutiveBlank = 0;
     for (const line of lines) {
@@ -2837,12 +3083,6 @@ ${voiceSection}
         }
       }
     }
-    this.conversationLog.log('');
-    this.conversationLog.log('');
-    
-    // Explicitly scroll to bottom to ensure last message is visible
-    this.conversationLog.setScrollPerc(100);
-    this.screen.render();
   }
 
   /**
@@ -2851,6 +3091,15 @@ ${voiceSection}
    * from background processing affecting the display.
    */
   clearAndRenderConversation(workstream: Workstream): void {
+    // Drop any in-progress stream - it belongs to the previous view
+    if (this.streamFlushTimeout) {
+      clearTimeout(this.streamFlushTimeout);
+      this.streamFlushTimeout = null;
+    }
+    this.stream = null;
+    this.pendingStreamText = null;
+    this.streamedResponsesShown.clear();
+    
     // Force full clear of conversation log
     this.conversationLog.setContent('');
     this.conversationLog.setScrollPerc(0);
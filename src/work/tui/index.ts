@@ -3,18 +3,27 @@
 
 import blessed from 'blessed';
 import { EventEmitter } from 'events';
-import { TUIState, TUIEvent, Task } from './types.js';
+import { TUIState, TUIEvent, Task, ResponseCallback } from './types.js';
 import { CharacterType, PersonalityType } from '../types.js';
 import { Layout } from './components/Layout.js';
 import { WorkstreamManager, serializeMessages } from './state/workstreams.js';
 import { NotificationManager } from './state/notifications.js';
 import { BackgroundPoller } from './background/poller.js';
 import { WorkAgentSession } from '../agent.js';
+import { resolveStandardModel, resolveExternalCommsModel } from '../ai-config.js';
+import { parseModelSpec, formatModelSpec, ModelSpec, isProviderConfigured, getProviderConfigStatus } from '../providers/index.js';
 import { getActiveTasks, createTask as createTaskInMemory, deleteTask as deleteTaskFromMemory } from '../tools/tasks.js';
 import { handleTokenOverflow, isTokenOverflowError } from './utils/tokenOverflowDebug.js';
 import { setCursorProgressCallback, getCursorSessionLog } from '../tools/cursor.js';
+import { prWatchManager } from '../tools/pr-watch-manager.js';
+import type { PRWatchEvent } from '../tools/pr-watch-types.js';
+import { parsePRUrl } from '../tools/pr-tracking.js';
 import { getMemories, getPendingMemories, approveMemory, rejectMemory, deleteMemory } from '../tools/memory.js';
-import { getSessionPreferences, setCharacterPreference } from '../storage/preferences.js';
+import { getSessionPreferences, setCharacterPreference, getToolApprovalPolicies, setToolApprovalPolicy, setModelPriceOverride } from '../storage/preferences.js';
+import type { ApprovalHandler, ApprovalRequest, ApprovalDecision } from '../agent/approval.js';
+import type { ToolResult } from '../agent/tool-result.js';
+import { getToolCacheStats, clearToolResultCache } from '../storage/tool-cache.js';
+import { analyzeModelUsage, formatUsageReport } from '../analysis/model-usage.js';
 import { 
   getAdvicePoller, 
   getActiveTopics, 
@@ -40,6 +49,9 @@ export class WorkTUI extends EventEmitter {
   // Track active sessions per workstream to handle background processing
   private activeSessions: Map<string, WorkAgentSession> = new Map();
   
+  // Approval dialogs are modal - concurrent requests from several workstreams wait their turn
+  private approvalQueue: Promise<unknown> = Promise.resolve();
+  
   private state: TUIState = {
     workstreams: [],
     tasks: [],
@@ -463,7 +475,8 @@ export class WorkTUI extends EventEmitter {
       case 'tokens':
         if (this.agentSession) {
           const stats = this.agentSession.getStats();
-          this.layout.showInfo(`Tokens: ~${stats.estimated.toLocaleString()} | Turns: ${stats.turns} | Messages: ${stats.messageCount}`);
+          const budget = stats.budget ? ` / ${stats.budget.toLocaleString()} budget` : '';
+          this.layout.showInfo(`Tokens: ~${stats.estimated.toLocaleString()}${budget} | Turns: ${stats.turns} | Messages: ${stats.messageCount}`);
         } else {
           this.layout.showError('Select a workstream first to see tokens');
         }
@@ -570,9 +583,21 @@ export class WorkTUI extends EventEmitter {
         await this.handleModelCommand(args);
         break;
         
+      case 'approvals':
+        await this.handleApprovalsCommand(args);
+        break;
+        
+      case 'cache':
+        await this.handleCacheCommand(args);
+        break;
+        
+      case 'usage':
+        await this.handleUsageCommand(args);
+        break;
+        
       default:
         this.layout.showError(`Unknown command: /${command}`);
-        this.layout.showInfo('Available: /links, /copy, /raw, /learn, /memory, /datadog, /advice, /model, /reset, /help');
+        this.layout.showInfo('Available: /links, /copy, /raw, /learn, /memory, /datadog, /advice, /model, /approvals, /cache, /usage, /reset, /help');
         break;
     }
   }
@@ -1151,6 +1176,17 @@ export class WorkTUI extends EventEmitter {
       }
     };
     this.agentSession.setProgressCallback(progressCallback);
+    this.agentSession.setResponseCallback((text, done) => {
+      // Only draw tokens for the workstream on screen - others show the final answer on return
+      if (this.state.activeWorkstreamId === callbackWorkstreamId) {
+        this.layout.streamResponse(text, done, callbackWorkstreamId);
+      }
+    });
+    this.agentSession.setToolResultCallback((toolName, result) => {
+      this.recordToolResultInWorkstream(callbackWorkstreamId, toolName, result);
+    });
+    this.agentSession.setModelConfig(workstream.modelConfig);
+    this.agentSession.setApprovalHandler(this.approvalHandler);
     
     // Restore conversation if exists
     if (workstream.messages.length > 0) {
@@ -1369,6 +1405,23 @@ export class WorkTUI extends EventEmitter {
     // The liveProgress is in-memory only and will be shown when returning to workstream
   }
 
+  /**
+   * Mark the earliest unresolved liveProgress entry for a tool with its outcome
+   * Results arrive in call order, so parallel calls to the same tool resolve oldest-first.
+   */
+  private recordToolResultInWorkstream(workstreamId: string, toolName: string, result: ToolResult): void {
+    const workstream = this.state.workstreams.find(w => w.id === workstreamId);
+    const toolCalls = workstream?.liveProgress?.toolCalls;
+    if (!toolCalls) return;
+
+    const call = toolCalls.find(c => c.name === toolName && !c.status);
+    if (call) {
+      call.status = result.ok ? 'ok' : 'error';
+      call.message = result.ok ? undefined : result.message;
+    }
+    workstream.liveProgress!.lastUpdated = Date.now();
+  }
+
   private async createWorkstream(type: string, name: string, metadata?: Record<string, any>): Promise<void> {
     const isFromTask = !!metadata?.description;
     
@@ -1388,6 +1441,11 @@ export class WorkTUI extends EventEmitter {
       this.sendMessage(metadata.description).catch(err => {
         console.error('Error sending task message:', err);
       });
+    } else if (type === 'investigation' && metadata?.pageId) {
+      // Investigations started from a page kick off like a WorkInput.pageId run
+      this.sendMessage(`Investigate on-call page ${metadata.pageId}: start an investigation with pageId "${metadata.pageId}" so the page and its notes are pulled in, then search logs and summarize.`).catch(err => {
+        console.error('Error sending page investigation message:', err);
+      });
     }
   }
 
@@ -1515,6 +1573,8 @@ export class WorkTUI extends EventEmitter {
         }
       };
       this.generalChatSession.setProgressCallback(progressCallback);
+      this.generalChatSession.setResponseCallback(this.generalChatResponseCallback);
+      this.generalChatSession.setApprovalHandler(this.approvalHandler);
     }
     
     // Update agent session reference
@@ -1626,6 +1686,8 @@ What would you like to know?`;
         }
       };
       this.generalChatSession.setProgressCallback(progressCallback);
+      this.generalChatSession.setResponseCallback(this.generalChatResponseCallback);
+      this.generalChatSession.setApprovalHandler(this.approvalHandler);
     }
     
     // Update agent session reference
@@ -1809,13 +1871,18 @@ Can you help me understand what's being discussed and suggest what actions I sho
       case 'list':
       case '':
         // Display current model configuration
-        const standardModel = workstream.modelConfig?.standardModel || 'gemini-3-flash-preview (default)';
-        const externalModel = workstream.modelConfig?.externalCommsModel || 'gemini-3-pro-preview (default)';
+        const standardModel = workstream.modelConfig?.standardModel || `${resolveStandardModel()} (default)`;
+        const externalModel = workstream.modelConfig?.externalCommsModel || `${resolveExternalCommsModel()} (default)`;
+        const providerStatus = Object.entries(getProviderConfigStatus())
+          .map(([provider, status]) => `  ${status.configured ? '✓' : '✗'} ${provider}${status.configured ? '' : ` - ${status.hint}`}`)
+          .join('\n');
         this.layout.showInfo(
           `Current models:\n` +
           `  Standard (chat/analysis): ${standardModel}\n` +
           `  External (Slack/JIRA): ${externalModel}\n\n` +
-          `Available models: gemini-2.0-flash-exp, gemini-3-pro-preview, gemini-3-flash-preview`
+          `Providers:\n${providerStatus}\n\n` +
+          `Model specs: <provider>:<model>, e.g. gemini:gemini-3-pro-preview, openai:gpt-4o,\n` +
+          `  anthropic:claude-sonnet-4-5, local:llama3.1 (Ollama / llama.cpp)`
         );
         break;
 
@@ -1836,6 +1903,18 @@ Can you help me understand what's being discussed and suggest what actions I sho
           return;
         }
 
+        let spec: ModelSpec;
+        try {
+          spec = parseModelSpec(modelName);
+        } catch (error) {
+          this.layout.showError(`Invalid model: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          return;
+        }
+        if (!isProviderConfigured(spec.provider)) {
+          this.layout.showError(`Provider "${spec.provider}" is not configured. ${getProviderConfigStatus()[spec.provider].hint}`);
+          return;
+        }
+
         // Update the model config
         const currentConfig = workstream.modelConfig || {};
         const newConfig = { ...currentConfig };
@@ -1849,23 +1928,22 @@ Can you help me understand what's being discussed and suggest what actions I sho
         await this.workstreamManager.update(this.state.activeWorkstreamId, {
           modelConfig: newConfig
         });
+        this.activeSessions.get(this.state.activeWorkstreamId)?.setModelConfig(newConfig);
 
         this.refreshWorkstreams();
         this.layout.updateState(this.state);
         this.layout.showSuccess(
-          `${modelType === 'standard' ? 'Standard' : 'External'} model set to: ${modelName}\n` +
-          `Note: Restart the workstream (or create a new message) for changes to take effect.`
+          `${modelType === 'standard' ? 'Standard' : 'External'} model set to: ${formatModelSpec(spec)}\n` +
+          `The next message in this workstream will use it.`
         );
         break;
 
       case 'reset':
         // Reset to defaults
         await this.workstreamManager.update(this.state.activeWorkstreamId, {
-          modelConfig: {
-            standardModel: 'gemini-2.0-flash-exp',
-            externalCommsModel: 'gemini-3-pro-preview'
-          }
+          modelConfig: {}
         });
+        this.activeSessions.get(this.state.activeWorkstreamId)?.setModelConfig(undefined);
 
         this.refreshWorkstreams();
         this.layout.updateState(this.state);
@@ -1880,12 +1958,167 @@ Can you help me understand what's being discussed and suggest what actions I sho
           '  /model reset - Reset to default models\n\n' +
           'Examples:\n' +
           '  /model set standard gemini-3-pro-preview\n' +
-          '  /model set external gemini-2.0-flash-exp'
+          '  /model set standard anthropic:claude-sonnet-4-5\n' +
+          '  /model set standard local:llama3.1\n' +
+          '  /model set external openai:gpt-4o'
         );
         break;
     }
   }
 
+  private async handleApprovalsCommand(args: string): Promise<void> {
+    const [subcommand, toolName] = args.trim().split(/\s+/);
+
+    switch (subcommand?.toLowerCase()) {
+      case 'reset':
+        if (toolName) {
+          await setToolApprovalPolicy(toolName, null);
+          this.layout.showSuccess(`${toolName} will ask for approval again`);
+        } else {
+          for (const tool of Object.keys(await getToolApprovalPolicies())) {
+            await setToolApprovalPolicy(tool, null);
+          }
+          this.layout.showSuccess('All tools will ask for approval again');
+        }
+        break;
+
+      case 'list':
+      case undefined:
+      case '': {
+        const tools = Object.keys(await getToolApprovalPolicies());
+        this.layout.showInfo(
+          tools.length > 0
+            ? `Always approved:\n${tools.map(t => `  ${t}`).join('\n')}\n\nUse /approvals reset [tool] to ask again`
+            : 'No remembered approvals - every Slack, JIRA, Confluence, git push and shell call asks first'
+        );
+        break;
+      }
+
+      default:
+        this.layout.showInfo('Approval commands: /approvals list, /approvals reset [tool]');
+        break;
+    }
+  }
+
+  private async handleCacheCommand(args: string): Promise<void> {
+    const [subcommand, toolName] = args.trim().split(/\s+/);
+
+    switch (subcommand?.toLowerCase()) {
+      case 'clear': {
+        const removed = await clearToolResultCache(toolName);
+        this.layout.showSuccess(`Cleared ${removed} cached result${removed === 1 ? '' : 's'}${toolName ? ` for ${toolName}` : ''}`);
+        break;
+      }
+
+      case 'stats':
+      case undefined:
+      case '': {
+        const stats = await getToolCacheStats();
+        const lookups = stats.hits + stats.misses;
+        const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+        const perTool = Object.entries(stats.byTool)
+          .sort(([, a], [, b]) => (b.hits + b.misses) - (a.hits + a.misses))
+          .map(([tool, counts]) => `  ${tool}: ${counts.hits} hit${counts.hits === 1 ? '' : 's'}, ${counts.misses} miss${counts.misses === 1 ? '' : 'es'}`)
+          .join('\n');
+        this.layout.showInfo(
+          `Tool cache: ${stats.entries} cached result${stats.entries === 1 ? '' : 's'}\n` +
+          `  This session: ${stats.hits} hits, ${stats.misses} misses (${hitRate}% hit rate), ${stats.invalidations} invalidated\n` +
+          (perTool ? `\n${perTool}\n` : '') +
+          `\nUse /cache clear [tool] to drop cached results`
+        );
+        break;
+      }
+
+      default:
+        this.layout.showInfo('Cache commands: /cache stats, /cache clear [tool]');
+        break;
+    }
+  }
+
+  /**
+   * /usage [days] - spend report; /usage price <model> <input> <output> | reset <model>
+   */
+  private async handleUsageCommand(args: string): Promise<void> {
+    const [subcommand, ...rest] = args.trim().split(/\s+/);
+
+    if (subcommand?.toLowerCase() === 'price') {
+      const [model, input, output] = rest;
+      if (model === 'reset' && input) {
+        await setModelPriceOverride(input, null);
+        this.layout.showSuccess(`Reset price for ${input} to the default`);
+        return;
+      }
+      const inputPrice = parseFloat(input);
+      const outputPrice = parseFloat(output);
+      if (!model || !(inputPrice >= 0) || !(outputPrice >= 0)) {
+        this.layout.showInfo('Usage: /usage price <model> <input $/1M tokens> <output $/1M tokens>, or /usage price reset <model>');
+        return;
+      }
+      await setModelPriceOverride(model, { input: inputPrice, output: outputPrice });
+      this.layout.showSuccess(`Priced ${model} at $${inputPrice} in / $${outputPrice} out per 1M tokens`);
+      return;
+    }
+
+    const days = parseInt(subcommand || '', 10) || 7;
+    const report = await analyzeModelUsage(days);
+    const names = Object.fromEntries(this.workstreamManager.getAll().map(w => [w.id, w.name]));
+    this.layout.showInfo(`Model usage\n\n${formatUsageReport(report, names)}`);
+  }
+
+  /**
+   * Stream general chat answers into the log while general chat is on screen
+   */
+  private generalChatResponseCallback: ResponseCallback = (text, done) => {
+    if (!this.state.activeWorkstreamId) {
+      this.layout.streamResponse(text, done, null);
+    }
+  };
+
+  /**
+   * Ask the user to approve a write-external tool call
+   * Shared by every session; requests are shown one at a time
+   */
+  private approvalHandler: ApprovalHandler = (request: ApprovalRequest) => {
+    const decision = this.approvalQueue.then(() => this.promptForApproval(request));
+    this.approvalQueue = decision.catch(() => undefined);
+    return decision;
+  };
+
+  private promptForApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    const workstream = request.workstreamId ? this.workstreamManager.get(request.workstreamId) : undefined;
+    if (workstream) {
+      workstream.status = 'needs_input';
+      workstream.statusMessage = `Approval needed: ${request.toolName}`;
+      if (this.state.activeWorkstreamId !== workstream.id) {
+        this.notificationManager.add({
+          type: 'agent_needs_input',
+          message: `${workstream.name}: approve ${request.toolName}?`,
+          workstreamId: workstream.id,
+        });
+        this.state.notifications = this.notificationManager.getNotifications();
+      }
+      this.layout.updateState(this.state);
+    }
+
+    return new Promise(resolve => {
+      this.layout.showApprovalDialog(request, decision => {
+        if (workstream) {
+          workstream.status = 'in_progress';
+          workstream.statusMessage = decision.action === 'reject'
+            ? `Rejected ${request.toolName}`
+            : `Running ${request.toolName}`;
+          this.layout.updateState(this.state);
+        }
+        if (decision.action === 'reject') {
+          this.layout.showInfo(`Rejected ${request.toolName}`);
+        } else if (decision.remember) {
+          this.layout.showInfo(`${request.toolName} will run without asking (/approvals reset ${request.toolName} to undo)`);
+        }
+        resolve(decision);
+      });
+    });
+  }
+
   private async saveCurrentWorkstream(): Promise<void> {
     if (!this.state.activeWorkstreamId || !this.agentSession) return;
     await this.saveWorkstream(this.state.activeWorkstreamId, this.agentSession);
@@ -1927,6 +2160,8 @@ Can you help me understand what's being discussed and suggest what actions I sho
           }
         };
         this.generalChatSession.setProgressCallback(progressCallback);
+        this.generalChatSession.setResponseCallback(this.generalChatResponseCallback);
+        this.generalChatSession.setApprovalHandler(this.approvalHandler);
       }
       targetSession = this.generalChatSession;
       targetWorkstreamId = null;
@@ -1986,7 +2221,9 @@ Can you help me understand what's being discussed and suggest what actions I sho
     this.layout.showProgress('Thinking...');
     
     try {
-      const { response, interrupted, hitRecursionLimit } = await targetSession.chat(message);
+      const { response, interrupted, hitRecursionLimit, streamed } = await targetSession.chat(message);
+      // Skip appending an answer that is already on screen from streaming
+      const alreadyShown = !!streamed && this.layout.consumeStreamedResponse(targetWorkstreamId);
       
       // Handle rate limit specially - show as notification instead of in conversation
       // Note: rateLimited flag removed from agent response - handle via error catching instead
@@ -1996,7 +2233,9 @@ Can you help me understand what's being discussed and suggest what actions I sho
         const stillInGeneralChat = !this.state.activeWorkstreamId;
         
         if (stillInGeneralChat) {
-          this.layout.appendResponse(response);
+          if (!alreadyShown) {
+            this.layout.appendResponse(response);
+          }
           // Speak response if TTS is enabled (voice service checks if we're on general chat)
           this.voiceService.speakResponse(response, null).catch(() => {
             // Ignore TTS errors
@@ -2031,7 +2270,9 @@ Can you help me understand what's being discussed and suggest what actions I sho
         
         // Only show response in UI if we're still on the same workstream
         if (stillOnSameWorkstream) {
-          this.layout.appendResponse(response);
+          if (!alreadyShown) {
+            this.layout.appendResponse(response);
+          }
           // Speak response if TTS is enabled (voice service checks workstream)
           this.voiceService.speakResponse(response, targetWorkstreamId).catch(() => {
             // Ignore TTS errors
@@ -2233,8 +2474,21 @@ Can you help me understand what's being discussed and suggest what actions I sho
     // Start background polling
     this.backgroundPoller.start();
     
+    // Resume PR watches journaled by a previous run (clones/fetches can be slow - don't block startup)
+    this.resumePRWatches().catch(err => {
+      this.layout.showError(`Could not resume PR watches: ${err instanceof Error ? err.message : err}`);
+    });
+    
+    // Flaky-check re-runs change nothing in the workstream - notify so they aren't silent
+    prWatchManager.on('pr-watch-event', (event: PRWatchEvent) => this.notifyPRWatchEvent(event));
+    
     // Start advice polling (scans Slack for updates)
     const advicePoller = getAdvicePoller();
+    advicePoller.setExternalCommsModelResolver(
+      () => (this.state.activeWorkstreamId
+        ? this.workstreamManager.get(this.state.activeWorkstreamId)?.modelConfig?.externalCommsModel
+        : undefined)
+    );
     advicePoller.on('new_topics', async () => {
       await this.refreshAdvice();
       this.notificationManager.add({
@@ -2273,6 +2527,84 @@ Can you help me understand what's being discussed and suggest what actions I sho
     this.screen.render();
   }
 
+  /**
+   * Resume journaled PR watches and re-link them to their workstreams
+   * Falls back to a PR workstream for the same PR when the original workstream is gone
+   */
+  private async resumePRWatches(): Promise<void> {
+    const result = await prWatchManager.resumeSessions({
+      resolveWorkstream: (session) => {
+        if (session.workstreamId && this.workstreamManager.get(session.workstreamId)) {
+          return session.workstreamId;
+        }
+        return this.workstreamManager.getByType('pr').find(w => {
+          const prUrl = w.metadata?.prUrl;
+          const parsed = prUrl ? parsePRUrl(prUrl) : null;
+          return parsed?.repoUrl === session.repoUrl && parsed.prNumber === session.prNumber;
+        })?.id;
+      },
+    });
+    
+    if (result.resumed.length === 0 && result.dropped.length === 0 && result.failed.length === 0) return;
+    
+    const parts = [`Resumed ${result.resumed.length} PR watch(es)`];
+    if (result.dropped.length > 0) {
+      parts.push(`dropped ${result.dropped.map(d => `#${d.prNumber} (${d.reason})`).join(', ')}`);
+    }
+    if (result.failed.length > 0) {
+      parts.push(`${result.failed.length} will be retried next start`);
+    }
+    this.notificationManager.add({
+      type: 'pr_update',
+      message: `🔁 ${parts.join('; ')}`,
+    });
+    this.state.notifications = this.notificationManager.getNotifications();
+    this.layout.updateState(this.state);
+  }
+
+  private notifyPRWatchEvent(event: PRWatchEvent): void {
+    if (!('sessionId' in event)) return;
+    
+    const session = prWatchManager.getSession(event.sessionId);
+    const pr = session ? `PR #${session.prNumber}` : 'PR watch';
+    const base = session?.baseBranch || 'the base branch';
+    let message: string;
+    let isError = false;
+    switch (event.type) {
+      case 'rerun_triggered':
+        message = `🔁 ${pr}: re-running flaky check "${event.checkName}" instead of fixing it (${event.reasons.join('; ')})`;
+        break;
+      case 'rerun_completed':
+        message = event.passed
+          ? `✅ ${pr}: flaky check "${event.checkName}" passed on re-run`
+          : `🔴 ${pr}: "${event.checkName}" failed again on re-run - handing it to the coding agent`;
+        isError = !event.passed;
+        break;
+      case 'branch_updated':
+        message = event.conflictedFiles.length > 0
+          ? `🔀 ${pr}: ${event.strategy === 'rebase' ? 'rebased onto' : 'merged'} ${base}, coding agent resolved conflicts in ${event.conflictedFiles.join(', ')}`
+          : `🔀 ${pr}: ${event.strategy === 'rebase' ? 'rebased onto' : 'merged'} ${base} and pushed`;
+        break;
+      case 'branch_update_failed':
+        message = `🔴 ${pr}: ${event.error}`;
+        isError = true;
+        break;
+      case 'closed':
+        message = event.merged ? `🎉 ${pr} merged - stopped watching it` : `⏹️ ${pr} was closed - stopped watching it`;
+        break;
+      default:
+        return;
+    }
+    
+    this.notificationManager.add({
+      type: isError ? 'error' : 'pr_update',
+      message,
+      workstreamId: prWatchManager.getWorkstreamForSession(event.sessionId),
+    });
+    this.state.notifications = this.notificationManager.getNotifications();
+    this.layout.updateState(this.state);
+  }
+
   async quit(): Promise<void> {
     // Save current workstream
     await this.saveCurrentWorkstream();
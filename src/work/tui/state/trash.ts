@@ -190,6 +190,7 @@ export class TrashBinManager {
         if (queryTerms.some(term => metaString.includes(term))) {
           const metaPreview = trashed.metadata.ticketKey || 
                              trashed.metadata.prUrl || 
+                             trashed.metadata.pageId || 
                              trashed.metadata.description || 
                              'metadata match';
           results.push({
@@ -270,6 +271,7 @@ export class TrashBinManager {
         const metaFields = [
           trashed.metadata.ticketKey,
           trashed.metadata.prUrl,
+          trashed.metadata.pageId,
           trashed.metadata.description,
         ].filter(Boolean);
         
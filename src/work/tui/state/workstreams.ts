@@ -124,11 +124,9 @@ export class WorkstreamManager {
       personality: 'proactive',
       character: 'none',
       datadogEnabled: false,
-      // Default model configuration (can be changed later via update())
-      modelConfig: {
-        standardModel: 'gemini-3-pro-preview',
-        externalCommsModel: 'gemini-3-pro-preview',
-      },
+      // Empty model config falls back to WORK_*_MODEL env vars, then the ai-config defaults
+      // (can be changed later via update() or /model set)
+      modelConfig: {},
     };
     
     this.workstreams.set(workstream.id, workstream);
@@ -1,6 +1,7 @@
 // TUI Types for k9s-style Work Mode
 
 import { SerializedMessage } from '../storage/checkpoints.js';
+import { ModelConfig } from '../types.js';
 
 // Workstream types
 export type WorkstreamType = 'pr' | 'ticket' | 'ask' | 'investigation' | 'custom';
@@ -13,6 +14,7 @@ export interface WorkstreamMetadata {
   prRepo?: string;
   ticketKey?: string;
   ticketUrl?: string;
+  pageId?: string;   // PagerDuty incident / Opsgenie alert an investigation starts from
   description?: string;
 }
 
@@ -38,11 +40,8 @@ export interface Workstream {
   character: string;
   datadogEnabled: boolean;
   
-  // Model configuration (per-workstream)
-  modelConfig?: {
-    standardModel?: string;      // For analysis/chat (default: gemini-3-flash-preview)
-    externalCommsModel?: string; // For Slack/JIRA posts (default: gemini-3-pro-preview)
-  };
+  // Model configuration (per-workstream) - provider specs such as "anthropic:claude-sonnet-4-5"
+  modelConfig?: ModelConfig;
   
   // Processing state (per-workstream, not global)
   isProcessing?: boolean;
@@ -55,6 +54,8 @@ export interface Workstream {
       name: string;
       timestamp: number;
       preview: string;
+      status?: 'ok' | 'error';       // Set when the result comes back
+      message?: string;              // Failure summary
     }>;
     lastUpdated: number;             // When liveProgress was last updated
   };
@@ -1,14 +1,16 @@
 // Text-to-Speech module using macOS native `say` command
-// with Gemini Flash preprocessing for voice-friendly text
+// with LLM preprocessing (Gemini Flash by default) for voice-friendly text
 
 import { spawn, ChildProcess, execSync } from 'child_process';
 import { EventEmitter } from 'events';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { createChatModel, extractText, parseModelSpec } from '../../providers/index.js';
+import { recordModelUsage } from '../../providers/usage.js';
 
 export interface TTSConfig {
   voice?: string;           // macOS voice to use (e.g., 'Samantha', 'Alex')
   rate?: number;            // Speech rate in words per minute (default: 175)
-  preprocessingModel?: string;  // Gemini model for preprocessing
+  preprocessingModel?: string;  // Model spec for preprocessing (e.g. "gemini-2.0-flash-exp", "local:llama3.1")
 }
 
 export interface TTSEvents {
@@ -40,7 +42,7 @@ export class TextToSpeech extends EventEmitter {
   private config: Required<TTSConfig>;
   private speakingProcess: ChildProcess | null = null;
   private isSpeaking = false;
-  private llm: ChatGoogleGenerativeAI | null = null;
+  private llm: BaseChatModel | null = null;
 
   constructor(config: TTSConfig = {}) {
     super();
@@ -56,8 +58,7 @@ export class TextToSpeech extends EventEmitter {
    */
   private initLLM(): void {
     if (!this.llm) {
-      this.llm = new ChatGoogleGenerativeAI({
-        model: this.config.preprocessingModel,
+      this.llm = createChatModel(this.config.preprocessingModel, {
         temperature: 0.3,  // Low temperature for consistent preprocessing
         maxOutputTokens: 1024,
       });
@@ -96,7 +97,7 @@ export class TextToSpeech extends EventEmitter {
   }
 
   /**
-   * Preprocess text to make it voice-friendly using Gemini
+   * Preprocess text to make it voice-friendly using the preprocessing model
    */
   async preprocessForVoice(text: string): Promise<string> {
     this.emit('preprocessing_started');
@@ -115,9 +116,8 @@ export class TextToSpeech extends EventEmitter {
         { role: 'user', content: `Convert this to voice-friendly text:\n\n${text}` },
       ]);
 
-      const processed = typeof response.content === 'string' 
-        ? response.content 
-        : response.content.toString();
+      recordModelUsage(parseModelSpec(this.config.preprocessingModel), 'tts', response);
+      const processed = extractText(response.content);
 
       this.emit('preprocessing_complete', processed);
       return processed;
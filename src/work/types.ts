@@ -5,6 +5,7 @@ export interface WorkInput {
   problemStatement?: string;
   datadogRequestId?: string;
   alertId?: string; // FireHydrant or Datadog alert
+  pageId?: string; // PagerDuty incident or Opsgenie alert
   includeDatadog?: boolean;
 }
 
@@ -44,6 +45,8 @@ export interface ConfluencePage {
   url: string;
   space: string;
   lastModified: string;
+  version?: number;  // Current version number (needed for updates)
+  labels?: string[];
 }
 
 export interface FireHydrantIncident {
@@ -67,6 +70,43 @@ export interface FireHydrantAlert {
   incidentId?: string;
 }
 
+// On-call paging (PagerDuty, or Opsgenie behind the same client)
+export type OnCallProvider = 'pagerduty' | 'opsgenie';
+
+export interface OnCallShift {
+  provider: OnCallProvider;
+  user: string;
+  email?: string;
+  scheduleId?: string;
+  scheduleName?: string;
+  escalationPolicy?: string;   // PagerDuty only
+  escalationLevel?: number;    // PagerDuty only - 1 is paged first
+  start?: string;
+  end?: string;
+}
+
+export interface OnCallPage {
+  provider: OnCallProvider;
+  id: string;
+  number?: number;             // PagerDuty incident number / Opsgenie tiny ID
+  title: string;
+  status: 'triggered' | 'acknowledged' | 'resolved';
+  urgency?: string;            // PagerDuty high/low, Opsgenie P1-P5
+  service?: string;
+  description?: string;
+  createdAt: string;
+  url?: string;
+  assignees: string[];
+  acknowledgedBy: string[];
+}
+
+export interface OnCallPageNote {
+  id: string;
+  content: string;
+  author?: string;
+  createdAt: string;
+}
+
 export interface DatadogLog {
   timestamp: string;
   service?: string;
@@ -88,6 +128,65 @@ export interface DatadogMonitor {
   tags: string[];
 }
 
+// Monitor downtimes (mutes) - v2 downtime API
+export interface DatadogDowntime {
+  id: string;
+  status: string;           // scheduled, active, canceled, ended
+  scope: string;            // e.g. "env:prod" or "*"
+  monitorId?: number;
+  monitorTags?: string[];   // Downtimes can target every monitor with these tags
+  message?: string;
+  start?: string;
+  end?: string;             // Missing = until canceled
+  createdAt?: string;
+}
+
+// A monitor state change, from its alert events
+export interface DatadogMonitorTransition {
+  timestamp: string;
+  transition: string;       // Triggered, Recovered, Warn, No Data, Re-Triggered, ...
+  group?: string;           // e.g. "host:web-1" for multi-alert monitors
+  title: string;
+}
+
+export interface DatadogMonitorHistory {
+  monitorId: number;
+  name: string;
+  state: string;
+  stateSince?: string;
+  // Current state per group (multi-alert monitors)
+  groups: Array<{ group: string; status: string; lastTriggered?: string; lastResolved?: string }>;
+  transitions: DatadogMonitorTransition[];
+  timeRange: { from: string; to: string };
+}
+
+// Service Level Objectives
+export interface DatadogSlo {
+  id: string;
+  name: string;
+  type: string;             // metric, monitor, time_slice
+  description?: string;
+  thresholds: Array<{ timeframe: string; target: number; warning?: number }>;
+  tags: string[];
+}
+
+export interface DatadogSloStatus {
+  slo: DatadogSlo;
+  timeframe: string;        // SLO timeframe the budget is measured over, e.g. "30d"
+  target: number;           // e.g. 99.9
+  // Over the whole timeframe
+  sli?: number;
+  errorBudgetRemaining?: number;   // Percent of the budget left (negative = blown)
+  // Over the requested window
+  window: {
+    from: string;
+    to: string;
+    sli?: number;
+    burnRate?: number;            // 1 = spending the budget exactly at the sustainable pace
+    budgetConsumed?: number;      // Percent of the timeframe's budget spent in this window
+  };
+}
+
 // Dashboard types
 export interface DatadogDashboard {
   id: string;
@@ -208,6 +307,65 @@ export interface DatadogService {
   tags: string[];
 }
 
+// APM trace types
+export interface DatadogSpan {
+  traceId: string;
+  spanId: string;
+  parentId?: string;        // Missing or "0" for the root span
+  service: string;
+  name?: string;            // Operation name, e.g. "http.request"
+  resource: string;         // e.g. "GET /api/users/{id}"
+  type?: string;            // web, db, cache, http, ...
+  env?: string;
+  host?: string;
+  start: string;            // ISO timestamp
+  durationMs: number;
+  error: boolean;
+  errorMessage?: string;
+  errorType?: string;
+  // Custom span attributes (http.status_code, db.statement, ...)
+  attributes: Record<string, unknown>;
+}
+
+// One trace in a search result, summarized from its matching spans
+export interface DatadogTraceSummary {
+  traceId: string;
+  service: string;
+  resource: string;
+  start: string;
+  durationMs: number;       // Longest matching span (the root, when it matched)
+  error: boolean;
+  matchingSpans: number;
+}
+
+export interface DatadogTrace {
+  traceId: string;
+  spans: DatadogSpan[];
+  rootSpan?: DatadogSpan;
+  durationMs: number;
+  services: string[];
+  errorCount: number;
+  truncated: boolean;       // More spans exist than were fetched
+}
+
+// Error Tracking issue (a group of similar errors)
+export interface DatadogErrorIssue {
+  id: string;
+  service?: string;
+  env?: string;
+  errorType?: string;
+  errorMessage?: string;
+  filePath?: string;
+  functionName?: string;
+  state?: string;           // OPEN, ACKNOWLEDGED, RESOLVED, IGNORED
+  firstSeen?: string;
+  lastSeen?: string;
+  firstSeenVersion?: string;
+  lastSeenVersion?: string;
+  occurrences?: number;     // In the searched time range
+  impactedUsers?: number;
+}
+
 // URL parsing result
 export interface DatadogUrlInfo {
   type: 'dashboard' | 'notebook' | 'monitor' | 'logs' | 'apm' | 'unknown';
@@ -377,3 +535,13 @@ export interface CharacterConfig {
   customDescription?: string; // For custom characters
 }
 
+
+// Model selection - values are provider specs ("openai:gpt-4o", "local:llama3.1", or bare Gemini names)
+export interface ModelConfig {
+  standardModel?: string;      // For analysis/chat and the agent loop
+  externalCommsModel?: string; // For Slack/JIRA posts
+}
+
+// Coding agent that edits repos for PR auto-fix and task execution
+// (in-process = the work agent itself, through the workspace file and shell tools)
+export type CodingAgentBackend = 'cursor' | 'aider' | 'command' | 'in-process';
@@ -0,0 +1,76 @@
+// Scratch git repos for tests: a bare "origin", the clone under test and a second clone that
+// stands in for everyone else pushing to the remote
+
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import type { PRWatchSession } from '../../src/work/tools/pr-watch-types.js';
+
+export function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+}
+
+/**
+ * Write a file and commit it - returns the new HEAD
+ */
+export function commitFile(cwd: string, file: string, content: string, message = `change ${file}`): string {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true });
+  writeFileSync(join(cwd, file), content);
+  git(cwd, 'add', file);
+  git(cwd, 'commit', '-q', '-m', message);
+  return git(cwd, 'rev-parse', 'HEAD');
+}
+
+export interface ScratchRepos {
+  origin: string;
+  clone: string;   // The repo under test, on `branch`
+  other: string;   // Another clone, for pushes the clone under test has not seen
+  branch: string;
+  cleanup(): void;
+}
+
+/**
+ * origin with main (README.md) and a pushed feature branch (feature.txt), cloned twice
+ */
+export function createScratchRepos(branch = 'feature'): ScratchRepos {
+  const root = mkdtempSync(join(tmpdir(), 'work-git-'));
+  const origin = join(root, 'origin.git');
+  const clone = join(root, 'clone');
+  const other = join(root, 'other');
+
+  git(root, 'init', '-q', '--bare', '-b', 'main', origin);
+  git(root, 'clone', '-q', origin, other);
+  git(other, 'checkout', '-q', '-b', 'main');
+  commitFile(other, 'README.md', 'hello\n', 'initial');
+  git(other, 'push', '-q', 'origin', 'main');
+  git(other, 'checkout', '-q', '-b', branch);
+  commitFile(other, 'feature.txt', 'one\n', 'feature one');
+  git(other, 'push', '-q', 'origin', branch);
+
+  git(root, 'clone', '-q', '-b', branch, origin, clone);
+
+  return { origin, clone, other, branch, cleanup: () => rmSync(root, { recursive: true, force: true }) };
+}
+
+/**
+ * A watch session for the clone, as PR watch would start it
+ */
+export function watchSession(repos: ScratchRepos, overrides: Partial<PRWatchSession> = {}): PRWatchSession {
+  const head = git(repos.clone, 'rev-parse', 'HEAD');
+  return {
+    sessionId: 'session-1',
+    repoUrl: 'https://github.com/acme/widgets',
+    prNumber: 1,
+    localRepoPath: repos.clone,
+    branch: repos.branch,
+    baseBranch: 'main',
+    status: 'watching',
+    startedAt: Date.now(),
+    initialCommitSha: head,
+    currentSha: head,
+    fixAttempts: 0,
+    fixHistory: [],
+    ...overrides,
+  };
+}
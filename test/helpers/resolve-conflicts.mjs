@@ -0,0 +1,14 @@
+// Stand-in coding agent for the 'command' backend: resolves every conflicted hunk in the
+// working directory's repo by replacing it with a single "resolved" line
+
+import { execFileSync } from 'child_process';
+import { readFileSync, writeFileSync } from 'fs';
+
+const files = execFileSync('git', ['diff', '--name-only', '--diff-filter=U'], { encoding: 'utf-8' })
+  .split('\n')
+  .filter(Boolean);
+
+for (const file of files) {
+  const content = readFileSync(file, 'utf-8');
+  writeFileSync(file, content.replace(/^<<<<<<< .*\n[\s\S]*?^>>>>>>> .*\n/gm, 'resolved\n'));
+}
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  requestToolApproval,
+  createUnattendedApprovalHandler,
+  ApprovalHandler,
+  ApprovalRequest,
+} from '../../../src/work/agent/approval.js';
+
+function recordingHandler(decide: (request: ApprovalRequest) => boolean): { handler: ApprovalHandler; seen: string[] } {
+  const seen: string[] = [];
+  const handler: ApprovalHandler = async request => {
+    seen.push(request.toolName);
+    return decide(request) ? { action: 'approve' } : { action: 'reject', reason: 'not allowed' };
+  };
+  return { handler, seen };
+}
+
+test('requestToolApproval: reads and local writes skip an interactive handler', async () => {
+  const { handler, seen } = recordingHandler(() => false);
+
+  assert.equal((await requestToolApproval('read_file', { path: 'x' }, handler)).proceed, true);
+  assert.equal((await requestToolApproval('write_file', { path: 'x', content: '' }, handler)).proceed, true);
+  assert.equal((await requestToolApproval('shell_command', { command: 'ls' }, handler)).proceed, false);
+  assert.deepEqual(seen, ['shell_command']);
+});
+
+test('requestToolApproval: unattended handlers decide local writes too', async () => {
+  const { handler, seen } = recordingHandler(request => String(request.args.path).startsWith('repo/'));
+  const unattended = createUnattendedApprovalHandler(handler);
+
+  assert.equal((await requestToolApproval('read_file', { path: '../secrets' }, unattended)).proceed, true);
+  assert.equal((await requestToolApproval('write_file', { path: 'repo/a.ts', content: '' }, unattended)).proceed, true);
+  const outside = await requestToolApproval('write_file', { path: 'other/a.ts', content: '' }, unattended);
+  assert.equal(outside.proceed, false);
+  assert.match(!outside.proceed ? outside.result : '', /not allowed/);
+  assert.deepEqual(seen, ['write_file', 'write_file']);
+});
+
+test('requestToolApproval: saving a coding agent command template is always confirmed', async () => {
+  const { handler, seen } = recordingHandler(() => false);
+
+  assert.equal((await requestToolApproval('coding_agent_set', { backend: 'aider', scope: 'default' }, handler)).proceed, true);
+  const template = await requestToolApproval('coding_agent_set', { backend: 'command', scope: 'default', commandTemplate: 'sh -c {prompt}' }, handler);
+  assert.equal(template.proceed, false);
+  assert.deepEqual(seen, ['coding_agent_set']);
+
+  const headless = await requestToolApproval('coding_agent_set', { backend: 'command', scope: 'default', commandTemplate: 'sh -c {prompt}' }, null);
+  assert.equal(headless.proceed, false);
+});
+
+test('requestToolApproval: an advice scan that may auto-respond on Slack is always confirmed', async () => {
+  const { handler, seen } = recordingHandler(() => false);
+
+  assert.equal((await requestToolApproval('advice_monitoring_scan', {}, handler)).proceed, true);
+  assert.equal((await requestToolApproval('advice_monitoring_scan', { allowAutoResponse: true }, handler)).proceed, false);
+  assert.equal((await requestToolApproval('advice_monitoring_scan', { allowAutoResponse: true }, null)).proceed, false);
+  assert.deepEqual(seen, ['advice_monitoring_scan']);
+});
+
+test('requestToolApproval: PR watch check commands are always confirmed, reading the settings is not', async () => {
+  const { handler, seen } = recordingHandler(() => true);
+  const repo = 'https://github.com/acme/api';
+
+  assert.equal((await requestToolApproval('pr_watch_configure', { repo }, null)).proceed, true);
+  assert.equal((await requestToolApproval('pr_watch_configure', { repo }, handler)).proceed, true);
+  assert.deepEqual(seen, []);
+
+  assert.equal((await requestToolApproval('pr_watch_configure', { repo, checkCommands: ['npm test'] }, null)).proceed, false);
+  const edited = await requestToolApproval(
+    'pr_watch_configure',
+    { repo, checkCommands: ['npm test'] },
+    async () => ({ action: 'edit', args: { repo, checkCommands: 'npm run build\n\nnpm test\n' } })
+  );
+  assert.deepEqual(edited.proceed ? edited.args.checkCommands : null, ['npm run build', 'npm test']);
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  markdownToStorage,
+  toStorage,
+  storageToText,
+  replaceStorageSection,
+  diffText,
+} from '../../../src/work/clients/confluence-format.js';
+
+test('markdownToStorage: headings and inline formatting', () => {
+  assert.equal(markdownToStorage('# Title\n\nSome **bold** text'), '<h1>Title</h1>\n<p>Some <strong>bold</strong> text</p>');
+});
+
+test('markdownToStorage: fenced code becomes a code macro, with "]]>" split across CDATA sections', () => {
+  assert.equal(
+    markdownToStorage('```ts\nconst a = "]]>";\n```'),
+    '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">ts</ac:parameter>'
+      + '<ac:plain-text-body><![CDATA[const a = "]]]]><![CDATA[>";]]></ac:plain-text-body></ac:structured-macro>'
+  );
+});
+
+test('markdownToStorage: void elements are self-closed', () => {
+  assert.equal(markdownToStorage('line one  \nline two\n\n---'), '<p>line one<br />line two</p>\n<hr />');
+  assert.equal(markdownToStorage('a <br> b'), '<p>a <br /> b</p>');
+});
+
+test('markdownToStorage: images use ac:image with escaped attributes', () => {
+  assert.equal(
+    markdownToStorage('![logo](https://x.com/a.png?a=1&b=2)'),
+    '<p><ac:image ac:alt="logo"><ri:url ri:value="https://x.com/a.png?a=1&amp;b=2" /></ac:image></p>'
+  );
+});
+
+test('markdownToStorage: task lists become Confluence tasks, mixed lists stay lists', () => {
+  assert.equal(
+    markdownToStorage('- [ ] todo\n- [x] done'),
+    '<ac:task-list>'
+      + '<ac:task><ac:task-status>incomplete</ac:task-status><ac:task-body>todo</ac:task-body></ac:task>'
+      + '<ac:task><ac:task-status>complete</ac:task-status><ac:task-body>done</ac:task-body></ac:task>'
+      + '</ac:task-list>'
+  );
+  assert.equal(markdownToStorage('- [ ] todo\n- plain'), '<ul>\n<li>☐ todo</li>\n<li>plain</li>\n</ul>');
+});
+
+test('markdownToStorage: GFM tables', () => {
+  const storage = markdownToStorage('| a | b |\n|---|---|\n| 1 | 2 |');
+  assert.match(storage, /^<table>/);
+  assert.match(storage, /<th>a<\/th>\n<th>b<\/th>/);
+  assert.match(storage, /<td>1<\/td>\n<td>2<\/td>/);
+});
+
+test('toStorage: storage format passes through unchanged', () => {
+  const storage = '<p>already <em>storage</em></p>';
+  assert.equal(toStorage(storage, 'storage'), storage);
+  assert.equal(toStorage('*md*', 'markdown'), '<p><em>md</em></p>');
+});
+
+const PAGE = markdownToStorage('# Plan\n\n## Goals\n\n- ship it\n- [ ] test\n\n## Risks\n\nnone\n\n```\nx < y\n```');
+
+test('storageToText: keeps headings, bullets and verbatim code', () => {
+  assert.equal(storageToText(PAGE), '# Plan\n\n## Goals\n\n- ship it\n- ☐ test\n\n## Risks\nnone\n```\nx < y\n```');
+});
+
+test('replaceStorageSection: replaces up to the next heading of the same level', () => {
+  const updated = replaceStorageSection(PAGE, '## goals', '<p>new goals</p>');
+  assert.ok(updated);
+  assert.match(updated, /<h2>Goals<\/h2>\n<p>new goals<\/p>\n<h2>Risks<\/h2>/);
+  assert.doesNotMatch(updated, /ship it/);
+  assert.equal(replaceStorageSection(PAGE, 'Missing', '<p>x</p>'), null);
+});
+
+test('diffText: unified hunks with counts', () => {
+  assert.deepEqual(diffText('a\nb\nc\nd', 'a\nB\nc\nd\ne', 1), {
+    diff: '@@ -1,4 +1,5 @@\n a\n-b\n+B\n c\n d\n+e',
+    added: 2,
+    removed: 1,
+  });
+  assert.deepEqual(diffText('same', 'same'), { diff: '', added: 0, removed: 0 });
+});
@@ -0,0 +1,78 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRepoRef, parseChangeRequestUrl, getForgeForRepo } from '../../../src/work/clients/forge.js';
+
+beforeEach(() => {
+  process.env.GITHUB_TOKEN = 'github-token';
+  process.env.GITHUB_ENTERPRISE_URL = 'https://github.acme.corp/';
+  process.env.GITLAB_URL = 'https://gitlab.acme.corp';
+  delete process.env.GITHUB_API_URL;
+  delete process.env.GITHUB_ENTERPRISE_API_URL;
+  delete process.env.GITHUB_ENTERPRISE_TOKEN;
+  delete process.env.GITLAB_TOKEN;
+});
+
+test('parseRepoRef: github.com https, ssh and deep URLs', () => {
+  for (const url of [
+    'https://github.com/acme/widgets',
+    'https://github.com/acme/widgets.git',
+    'git@github.com:acme/widgets.git',
+    'ssh://git@github.com/acme/widgets',
+    'https://github.com/acme/widgets/pull/12/files',
+  ]) {
+    const ref = parseRepoRef(url);
+    assert.equal(ref.host.hostname, 'github.com', url);
+    assert.equal(ref.owner, 'acme', url);
+    assert.equal(ref.repo, 'widgets', url);
+    assert.equal(ref.webUrl, 'https://github.com/acme/widgets', url);
+  }
+});
+
+test('parseRepoRef: enterprise host has its own API and no github.com token', () => {
+  const ref = parseRepoRef('https://github.acme.corp/platform/api/tree/main');
+  assert.equal(ref.host.kind, 'github');
+  assert.equal(ref.host.apiUrl, 'https://github.acme.corp/api/v3');
+  assert.equal(ref.host.graphqlUrl, 'https://github.acme.corp/api/graphql');
+  assert.equal(ref.host.token, undefined);
+  assert.equal(ref.webUrl, 'https://github.acme.corp/platform/api');
+
+  process.env.GITHUB_ENTERPRISE_TOKEN = 'enterprise-token';
+  assert.equal(parseRepoRef('https://github.acme.corp/platform/api').host.token, 'enterprise-token');
+});
+
+test('parseRepoRef: GitLab keeps subgroups and stops at /-/ routes', () => {
+  const ref = parseRepoRef('https://gitlab.acme.corp/group/sub/project/-/merge_requests/7');
+  assert.equal(ref.host.kind, 'gitlab');
+  assert.equal(ref.owner, 'group/sub');
+  assert.equal(ref.repo, 'project');
+  assert.equal(ref.webUrl, 'https://gitlab.acme.corp/group/sub/project');
+  assert.equal(parseRepoRef('git@gitlab.acme.corp:group/sub/project.git').webUrl, 'https://gitlab.acme.corp/group/sub/project');
+});
+
+test('parseRepoRef: rejects unknown hosts and URLs without a repo', () => {
+  assert.throws(() => parseRepoRef('https://bitbucket.org/acme/widgets'), /Invalid repository URL/);
+  assert.throws(() => parseRepoRef('https://github.com/acme'), /Invalid repository URL/);
+  assert.throws(() => parseRepoRef('not a url'), /Invalid repository URL/);
+  assert.equal(getForgeForRepo('https://bitbucket.org/acme/widgets'), undefined);
+});
+
+test('parseChangeRequestUrl: PR and MR URLs on each host', () => {
+  assert.deepEqual(parseChangeRequestUrl('https://github.com/acme/widgets/pull/42/files'), { repoUrl: 'https://github.com/acme/widgets', prNumber: 42 });
+  assert.deepEqual(parseChangeRequestUrl('https://github.acme.corp/platform/api/pull/7'), { repoUrl: 'https://github.acme.corp/platform/api', prNumber: 7 });
+  assert.deepEqual(
+    parseChangeRequestUrl('https://gitlab.acme.corp/group/sub/project/-/merge_requests/99'),
+    { repoUrl: 'https://gitlab.acme.corp/group/sub/project', prNumber: 99 }
+  );
+});
+
+test('parseChangeRequestUrl: short references', () => {
+  assert.deepEqual(parseChangeRequestUrl('acme/widgets#5'), { repoUrl: 'https://github.com/acme/widgets', prNumber: 5 });
+  assert.deepEqual(parseChangeRequestUrl('group/sub/project!8'), { repoUrl: 'https://gitlab.acme.corp/group/sub/project', prNumber: 8 });
+});
+
+test('parseChangeRequestUrl: PR paths on the wrong kind of host and unknown hosts are not PRs', () => {
+  assert.equal(parseChangeRequestUrl('https://gitlab.acme.corp/group/project/pull/1'), null);
+  assert.equal(parseChangeRequestUrl('https://github.com/acme/widgets/-/merge_requests/1'), null);
+  assert.equal(parseChangeRequestUrl('https://example.com/acme/widgets/pull/1'), null);
+  assert.equal(parseChangeRequestUrl('widgets#5'), null);
+});
@@ -0,0 +1,51 @@
+import { test, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { linkTickets, JiraLinkType } from '../../../src/work/clients/jira.js';
+
+let requests: Array<{ url: string; body: unknown }> = [];
+
+beforeEach(() => {
+  process.env.CONFLUENCE_USERNAME = 'me@example.com';
+  process.env.JIRA_TOKEN = 'token';
+  process.env.JIRA_BASE_URL = 'https://jira.example.com';
+  requests = [];
+  mock.method(globalThis, 'fetch', async (url: string, init: RequestInit) => {
+    requests.push({ url, body: JSON.parse(String(init.body)) });
+    return new Response(null, { status: 201 });
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const DIRECTIONS: Array<[JiraLinkType, string, string, string]> = [
+  // linkType, link type name, outward issue, inward issue - for "A <linkType> B"
+  ['blocks', 'Blocks', 'A-1', 'B-2'],
+  ['is_blocked_by', 'Blocks', 'B-2', 'A-1'],
+  ['relates_to', 'Relates', 'A-1', 'B-2'],
+  ['duplicates', 'Duplicate', 'A-1', 'B-2'],
+  ['is_duplicated_by', 'Duplicate', 'B-2', 'A-1'],
+];
+
+for (const [linkType, typeName, outward, inward] of DIRECTIONS) {
+  test(`linkTickets: A-1 ${linkType} B-2 links ${outward} outward to ${inward}`, async () => {
+    const result = await linkTickets('A-1', linkType, 'B-2');
+
+    assert.deepEqual(result, { from: 'A-1', to: 'B-2', linkType });
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].url, 'https://jira.example.com/rest/api/3/issueLink');
+    assert.deepEqual(requests[0].body, {
+      type: { name: typeName },
+      outwardIssue: { key: outward },
+      inwardIssue: { key: inward },
+    });
+  });
+}
+
+test('linkTickets: surfaces JIRA errors', async () => {
+  mock.restoreAll();
+  mock.method(globalThis, 'fetch', async () => new Response('{"errorMessages":["Issue does not exist"]}', { status: 404 }));
+
+  await assert.rejects(linkTickets('A-1', 'blocks', 'NOPE-1'), /404/);
+});
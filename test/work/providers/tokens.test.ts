@@ -0,0 +1,24 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPromptTokenLimit } from '../../../src/work/providers/tokens.js';
+
+beforeEach(() => {
+  delete process.env.WORK_CONTEXT_WINDOW;
+  delete process.env.WORK_CONTEXT_BUDGET;
+  delete process.env.LOCAL_LLM_CONTEXT_TOKENS;
+});
+
+test('getPromptTokenLimit: a local model keeps most of its default window for the prompt', () => {
+  const local = { provider: 'local' as const, model: 'llama3.1' };
+
+  assert.equal(getPromptTokenLimit(local), 6_144);
+  assert.equal(getPromptTokenLimit(local, 2_000), 4_144);
+});
+
+test('getPromptTokenLimit: large windows reserve the full reply budget and respect the cap', () => {
+  assert.equal(getPromptTokenLimit({ provider: 'openai', model: 'gpt-4o' }), 128_000 - 8_192);
+  assert.equal(getPromptTokenLimit({ provider: 'gemini', model: 'gemini-3-flash-preview' }), 200_000);
+
+  process.env.LOCAL_LLM_CONTEXT_TOKENS = '32768';
+  assert.equal(getPromptTokenLimit({ provider: 'local', model: 'llama3.1' }), 32_768 - 8_192);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTestFailures, formatTestFailures, extractErrorWindow } from '../../../src/work/tools/ci-logs.js';
+
+test('parseTestFailures: jest, through ANSI colours and Actions timestamps', () => {
+  const log = [
+    '2024-05-01T10:00:00.0000000Z \x1b[31mFAIL\x1b[39m src/parser.test.ts',
+    '  ● parser › handles empty input',
+    '',
+    '    expect(received).toBe(expected)',
+    '',
+    '      at Object.<anonymous> (src/parser.test.ts:42:18)',
+  ].join('\n');
+
+  assert.deepEqual(parseTestFailures(log), [
+    { tool: 'jest', file: 'src/parser.test.ts', line: 42, name: 'parser › handles empty input', message: 'expect(received).toBe(expected)' },
+  ]);
+});
+
+test('parseTestFailures: pytest failures and collection errors', () => {
+  const log = [
+    'tests/test_api.py:23: AssertionError',
+    'FAILED tests/test_api.py::test_create - AssertionError: assert 1 == 2',
+    'ERROR tests/test_db.py',
+  ].join('\n');
+
+  assert.deepEqual(parseTestFailures(log), [
+    { tool: 'pytest', file: 'tests/test_api.py', line: 23, name: 'test_create', message: 'AssertionError: assert 1 == 2' },
+    { tool: 'pytest', file: 'tests/test_db.py', line: undefined, name: undefined, message: 'error' },
+  ]);
+});
+
+test('parseTestFailures: go test failures and build errors', () => {
+  const log = [
+    '=== RUN   TestParse',
+    '    parse_test.go:12: expected 1, got 2',
+    '--- FAIL: TestParse (0.00s)',
+    '/home/circleci/project/pkg/foo.go:12:5: undefined: bar',
+  ].join('\n');
+
+  assert.deepEqual(parseTestFailures(log), [
+    { tool: 'go', file: 'parse_test.go', line: 12, name: 'TestParse', message: 'expected 1, got 2' },
+    { tool: 'go', file: 'pkg/foo.go', line: 12, message: 'undefined: bar' },
+  ]);
+});
+
+test('parseTestFailures: tsc in both output formats, deduplicated', () => {
+  const log = [
+    "src/app.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+    "src/b.tsx:3:1 - error TS1005: ';' expected.",
+    "src/app.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+  ].join('\n');
+
+  assert.deepEqual(parseTestFailures(log), [
+    { tool: 'tsc', file: 'src/app.ts', line: 10, name: 'TS2322', message: "Type 'string' is not assignable to type 'number'." },
+    { tool: 'tsc', file: 'src/b.tsx', line: 3, name: 'TS1005', message: "';' expected." },
+  ]);
+});
+
+test('parseTestFailures: eslint stylish output, with the Actions checkout path stripped', () => {
+  const log = [
+    '/home/runner/work/widgets/widgets/src/app.ts',
+    "  12:5  error  'x' is assigned a value but never used  no-unused-vars",
+    '',
+  ].join('\n');
+
+  assert.deepEqual(parseTestFailures(log), [
+    { tool: 'eslint', file: 'src/app.ts', line: 12, name: 'no-unused-vars', message: "'x' is assigned a value but never used" },
+  ]);
+});
+
+test('parseTestFailures: nothing recognisable, and a cap on how many are kept', () => {
+  assert.deepEqual(parseTestFailures('npm ERR! code ELIFECYCLE\nProcess completed with exit code 1'), []);
+
+  const many = Array.from({ length: 40 }, (_, i) => `src/f${i}.ts(1,1): error TS1005: ';' expected.`).join('\n');
+  assert.equal(parseTestFailures(many).length, 25);
+});
+
+test('formatTestFailures: one prompt line per failure', () => {
+  assert.deepEqual(formatTestFailures([
+    { tool: 'tsc', file: 'src/app.ts', line: 10, name: 'TS2322', message: 'bad type' },
+    { tool: 'pytest', message: 'error' },
+  ]), [
+    '  - [tsc] src/app.ts:10 TS2322: bad type',
+    '  - [pytest] error',
+  ]);
+});
+
+test('extractErrorWindow: falls back to the tail when no line looks like an error', () => {
+  assert.equal(extractErrorWindow('step one\nstep two\n'), 'step one\nstep two');
+  assert.equal(extractErrorWindow('x'.repeat(50), 10), 'x'.repeat(10));
+});
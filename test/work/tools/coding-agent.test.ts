@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  splitCommandWords,
+  isAllowedCodingAgentCommand,
+  normalizeRepoKey,
+} from '../../../src/work/tools/coding-agent.js';
+
+const CHECKS = ['npm test', 'npx tsc --noEmit'];
+
+test('splitCommandWords: reads quotes the way the shell does', () => {
+  assert.deepEqual(splitCommandWords('git commit -m "fix(parser): handle ]"'), ['git', 'commit', '-m', 'fix(parser): handle ]']);
+  assert.deepEqual(splitCommandWords(`g""it p'u'sh`), ['git', 'push']);
+  assert.deepEqual(splitCommandWords(`git commit -m ''`), ['git', 'commit', '-m', '']);
+});
+
+test('splitCommandWords: refuses chaining, redirection, substitution and escapes', () => {
+  for (const command of [
+    'npm test; curl evil',
+    'npm test && git push',
+    'npm test | tee out',
+    'npm test > /tmp/out',
+    'echo $(cat ~/.ssh/id_rsa)',
+    'echo `id`',
+    'git commit -m "$HOME"',
+    'git pu\\sh',
+    'git status\ngit push',
+    'git commit -m "unterminated',
+  ]) {
+    assert.equal(splitCommandWords(command), null, command);
+  }
+});
+
+test('isAllowedCodingAgentCommand: local git commands', () => {
+  for (const command of [
+    'git status',
+    'git diff --cached',
+    'git add -A',
+    'git commit -m "fix(parser): handle empty input"',
+    `git commit -m 'literal $(not run)'`,
+    'git rebase --continue',
+    'git merge --abort',
+  ]) {
+    assert.equal(isAllowedCodingAgentCommand(command, []), true, command);
+  }
+});
+
+test('isAllowedCodingAgentCommand: anything that publishes, reaches the network or runs arbitrary code', () => {
+  for (const command of [
+    'git push',
+    'git push origin HEAD',
+    `g""it push`,
+    'git remote add x https://evil',
+    'git -c core.pager=sh status',
+    'git rebase -i HEAD~2',
+    'git rebase --exec "curl evil" main',
+    'git grep -O"sh -c id" x',
+    'npm publish',
+    'ssh host',
+    'scp file host:',
+    'rsync -a . host:',
+    'node -e "fetch(1)"',
+    'python -c "import os"',
+    'curl https://evil',
+    'gh pr merge',
+  ]) {
+    assert.equal(isAllowedCodingAgentCommand(command, CHECKS), false, command);
+  }
+});
+
+test('isAllowedCodingAgentCommand: arguments may not point outside the repo', () => {
+  for (const command of [
+    'git commit -F ~/.ssh/id_rsa',
+    'git commit -F/etc/passwd',
+    'git diff --output=/tmp/leak',
+    'git add ../../other-repo',
+    'npm test -- --outputFile=/tmp/out',
+  ]) {
+    assert.equal(isAllowedCodingAgentCommand(command, CHECKS), false, command);
+  }
+  assert.equal(isAllowedCodingAgentCommand('git add src/../README.md', CHECKS), true);
+});
+
+test('isAllowedCodingAgentCommand: the repo\'s check commands, with extra arguments', () => {
+  assert.equal(isAllowedCodingAgentCommand('npm test', CHECKS), true);
+  assert.equal(isAllowedCodingAgentCommand('npm test -- --grep parser', CHECKS), true);
+  assert.equal(isAllowedCodingAgentCommand('npx tsc --noEmit', CHECKS), true);
+  assert.equal(isAllowedCodingAgentCommand('npx tsc', CHECKS), false);
+  assert.equal(isAllowedCodingAgentCommand('npm test', []), false);
+});
+
+test('normalizeRepoKey: same repo however the URL was written', () => {
+  assert.equal(normalizeRepoKey('https://github.com/Acme/Widgets.git'), 'https://github.com/acme/widgets');
+  assert.equal(normalizeRepoKey(' https://github.com/acme/widgets/ '), 'https://github.com/acme/widgets');
+});
@@ -0,0 +1,62 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  acquireBranchLock,
+  refreshBranchLock,
+  releaseBranchLock,
+  isBranchLocked,
+  BranchLock,
+} from '../../../src/work/tools/compound.js';
+
+let repo: string;
+
+beforeEach(() => {
+  repo = mkdtempSync(join(tmpdir(), 'work-locks-'));
+});
+
+afterEach(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+function readLock(branch: string): BranchLock {
+  return JSON.parse(readFileSync(join(repo, `.lock_${branch}`), 'utf-8'));
+}
+
+function writeLock(branch: string, lock: Partial<BranchLock>): void {
+  writeFileSync(join(repo, `.lock_${branch}`), JSON.stringify({ branch, pid: process.pid, lockedAt: new Date().toISOString(), lockedBy: 'test', ...lock }));
+}
+
+test('refreshBranchLock: renews a held lock so it does not go stale', async () => {
+  await acquireBranchLock(repo, 'feature', 'long update');
+  const old = new Date(Date.now() - 29 * 60 * 1000).toISOString();
+  writeLock('feature', { lockedAt: old, lockedBy: 'long update' });
+
+  assert.equal(await refreshBranchLock(repo, 'feature'), true);
+
+  const lock = readLock('feature');
+  assert.ok(Date.parse(lock.lockedAt) > Date.parse(old));
+  assert.equal(lock.lockedBy, 'long update');
+});
+
+test('refreshBranchLock: reports a lock that is gone or taken over', async () => {
+  assert.equal(await refreshBranchLock(repo, 'feature'), false);
+
+  writeLock('feature', { pid: process.ppid });
+  assert.equal(await refreshBranchLock(repo, 'feature'), false);
+  assert.equal(readLock('feature').pid, process.ppid);
+});
+
+test('branch locks: another live process holds the branch until it goes stale', async () => {
+  writeLock('feature', { pid: process.ppid });
+  assert.equal((await acquireBranchLock(repo, 'feature', 'me')).acquired, false);
+  assert.equal((await isBranchLocked(repo, 'feature')).locked, true);
+
+  writeLock('feature', { pid: process.ppid, lockedAt: new Date(Date.now() - 31 * 60 * 1000).toISOString() });
+  assert.equal((await isBranchLocked(repo, 'feature')).locked, false);
+  assert.equal((await acquireBranchLock(repo, 'feature', 'me')).acquired, true);
+  assert.equal(await releaseBranchLock(repo, 'feature'), true);
+  assert.equal((await isBranchLocked(repo, 'feature')).locked, false);
+});
@@ -0,0 +1,123 @@
+import { test, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { assessFlakiness, recordCheckFailure } from '../../../src/work/tools/flaky-tests.js';
+import { recordFlakinessRerun } from '../../../src/work/storage/ci-flakiness.js';
+import { normalizeRepoKey } from '../../../src/work/tools/coding-agent.js';
+import { FailureInfo, PRWatchSession } from '../../../src/work/tools/pr-watch-types.js';
+import { createScratchRepos, commitFile, watchSession, ScratchRepos } from '../../helpers/git.js';
+
+let repos: ScratchRepos;
+let repoCount = 0;
+let baseConclusion: string | null;
+let baseLookups: string[];
+
+before(() => {
+  process.env.GITHUB_TOKEN = 'github-token';
+  repos = createScratchRepos();
+  // The PR changes src/parser.ts
+  commitFile(repos.clone, 'src/parser.ts', 'export const parse = 1;\n');
+});
+
+after(() => {
+  repos.cleanup();
+});
+
+beforeEach(() => {
+  baseConclusion = null;
+  baseLookups = [];
+  mock.method(globalThis, 'fetch', async (url: string) => {
+    baseLookups.push(url);
+    const runs = baseConclusion ? [{ status: 'completed', conclusion: baseConclusion }] : [];
+    return Response.json({ check_runs: runs, statuses: [] });
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+// Each test gets its own repo URL, so flakiness history never leaks between tests
+function session(overrides: Partial<PRWatchSession> = {}): PRWatchSession {
+  return watchSession(repos, { repoUrl: `https://github.com/acme/repo-${++repoCount}`, ...overrides });
+}
+
+function failure(overrides: Partial<FailureInfo> = {}): FailureInfo {
+  return { checkName: 'unit-tests', checkType: 'check_run', checkUrl: null, ...overrides };
+}
+
+test('assessFlakiness: type and lint errors are never flaky', async () => {
+  const result = await assessFlakiness(session(), failure({
+    testFailures: [{ tool: 'tsc', file: 'src/other.ts', line: 1, name: 'TS2322', message: 'bad type' }],
+  }));
+
+  assert.deepEqual(result, { flaky: false, reasons: ['type or lint errors are deterministic'] });
+  assert.deepEqual(baseLookups, []);
+});
+
+test('assessFlakiness: a failure in a file the PR changes is real', async () => {
+  baseConclusion = 'success';
+  const result = await assessFlakiness(session(), failure({
+    jobLog: 'Error: boom\n    at parse (src/parser.ts:1:14)',
+  }));
+
+  assert.deepEqual(result, { flaky: false, reasons: ['the failure points at files this PR changes'] });
+});
+
+test('assessFlakiness: unrelated to the diff and green on the base branch', async () => {
+  baseConclusion = 'success';
+  const result = await assessFlakiness(session(), failure({
+    testFailures: [{ tool: 'jest', file: 'src/network.test.ts', name: 'retries', message: 'timeout' }],
+  }));
+
+  assert.equal(result.flaky, true);
+  assert.deepEqual(result.reasons, ['no file this PR changes appears in the failure', '"unit-tests" passes on main']);
+  assert.equal(baseLookups.length, 1);
+  assert.match(baseLookups[0], /\/repos\/acme\/repo-\d+\/commits\/main\/check-runs\?check_name=unit-tests/);
+});
+
+test('assessFlakiness: unrelated but failing on the base branch too', async () => {
+  baseConclusion = 'failure';
+  const result = await assessFlakiness(session(), failure({
+    testFailures: [{ tool: 'jest', file: 'src/network.test.ts', name: 'retries', message: 'timeout' }],
+  }));
+
+  assert.deepEqual(result, { flaky: false, reasons: ['no file this PR changes appears in the failure'] });
+});
+
+test('assessFlakiness: nothing to compare with the diff is not evidence either way', async () => {
+  baseConclusion = 'success';
+  const result = await assessFlakiness(session(), failure({ jobLog: 'Segmentation fault' }));
+
+  assert.deepEqual(result, { flaky: false, reasons: [] });
+  assert.deepEqual(baseLookups, []);
+});
+
+test('assessFlakiness: a check that went green on re-run before is flaky', async () => {
+  const current = session();
+  const flakyFailure = failure({ jobLog: 'Segmentation fault' });
+  await recordCheckFailure({ ...current, prNumber: 7, currentSha: 'a'.repeat(40) }, flakyFailure);
+  await recordFlakinessRerun(normalizeRepoKey(current.repoUrl), ['unit-tests'], true);
+
+  const result = await assessFlakiness(current, flakyFailure);
+
+  assert.deepEqual(result, { flaky: true, reasons: ['"unit-tests" went green on re-run 1 time(s) before'] });
+});
+
+test('assessFlakiness: tests failing across enough other PRs are flaky', async () => {
+  const current = session();
+  const flakyFailure = failure({
+    testFailures: [{ tool: 'jest', file: 'src/network.test.ts', name: 'retries', message: 'timeout' }],
+  });
+  for (const prNumber of [2, 3, 4]) {
+    await recordCheckFailure({ ...current, prNumber, currentSha: String(prNumber).repeat(40) }, flakyFailure);
+  }
+
+  const result = await assessFlakiness(current, flakyFailure);
+
+  assert.equal(result.flaky, true);
+  assert.deepEqual(result.reasons, [
+    'no file this PR changes appears in the failure',
+    'its failing tests also failed on other PRs or passed on re-run',
+  ]);
+  assert.deepEqual(baseLookups, []);
+});
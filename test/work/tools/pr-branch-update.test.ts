@@ -0,0 +1,205 @@
+import { test, before, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  extractConflictHunks,
+  planBranchUpdate,
+  updateSessionBranch,
+  BranchUpdatePlan,
+} from '../../../src/work/tools/pr-branch-update.js';
+import { setPRWatchRepoSettings } from '../../../src/work/storage/preferences.js';
+import { normalizeRepoKey } from '../../../src/work/tools/coding-agent.js';
+import { PRWatchEvent, PRWatchSession } from '../../../src/work/tools/pr-watch-types.js';
+import { createScratchRepos, commitFile, git, watchSession, ScratchRepos } from '../../helpers/git.js';
+
+const RESOLVER = fileURLToPath(new URL('../../helpers/resolve-conflicts.mjs', import.meta.url));
+
+let repos: ScratchRepos;
+let events: PRWatchEvent[];
+let repoCount = 0;
+
+before(() => {
+  process.env.CODING_AGENT = 'command';
+  process.env.CODING_AGENT_COMMAND = `node "${RESOLVER}"`;
+});
+
+beforeEach(() => {
+  repos = createScratchRepos();
+  events = [];
+});
+
+afterEach(() => {
+  repos.cleanup();
+});
+
+// Each test gets its own repo URL, so repo settings never leak between tests
+async function session(settings: Parameters<typeof setPRWatchRepoSettings>[1] = {}, overrides: Partial<PRWatchSession> = {}): Promise<PRWatchSession> {
+  const repoUrl = `https://github.com/acme/repo-${++repoCount}`;
+  await setPRWatchRepoSettings(normalizeRepoKey(repoUrl), settings);
+  return watchSession(repos, { repoUrl, ...overrides });
+}
+
+function pushToMain(file: string, content: string): string {
+  git(repos.other, 'checkout', '-q', 'main');
+  git(repos.other, 'pull', '-q', 'origin', 'main');
+  const sha = commitFile(repos.other, file, content, `main: ${file}`);
+  git(repos.other, 'push', '-q', 'origin', 'main');
+  return sha;
+}
+
+function pushToBranch(file: string, content: string): string {
+  const sha = commitFile(repos.clone, file, content, `feature: ${file}`);
+  git(repos.clone, 'push', '-q', 'origin', repos.branch);
+  return sha;
+}
+
+function remoteHead(): string {
+  return git(repos.origin, 'rev-parse', repos.branch);
+}
+
+async function update(current: PRWatchSession): Promise<BranchUpdatePlan> {
+  const plan = await planBranchUpdate(current, 'behind');
+  assert.ok(plan, 'expected an update plan');
+  assert.equal(await updateSessionBranch(current, plan, event => events.push(event)), true);
+  return plan;
+}
+
+// ===== Conflict hunks =====
+
+test('extractConflictHunks: each marker region with context lines', () => {
+  const content = ['a', 'b', 'c', 'd', '<<<<<<< HEAD', 'ours', '=======', 'theirs', '>>>>>>> abc123 (change)', 'e', 'f', 'g', 'h'].join('\n');
+
+  assert.deepEqual(extractConflictHunks(content), [
+    '(lines 2-12)\nb\nc\nd\n<<<<<<< HEAD\nours\n=======\ntheirs\n>>>>>>> abc123 (change)\ne\nf\ng',
+  ]);
+});
+
+test('extractConflictHunks: several hunks, clamped to the file', () => {
+  const content = ['<<<<<<< HEAD', 'x', '=======', 'y', '>>>>>>> one', 'middle', '<<<<<<< HEAD', 'p', '=======', 'q', '>>>>>>> two'].join('\n');
+  const hunks = extractConflictHunks(content);
+
+  assert.equal(hunks.length, 2);
+  assert.match(hunks[0], /^\(lines 1-8\)\n<<<<<<< HEAD/);
+  assert.match(hunks[1], /^\(lines 4-11\)\n/);
+  assert.match(hunks[1], />>>>>>> two$/);
+  assert.deepEqual(extractConflictHunks('no conflicts here\n'), []);
+  assert.deepEqual(extractConflictHunks('<<<<<<< HEAD\nunterminated'), []);
+});
+
+// ===== Planning =====
+
+test('planBranchUpdate: off unless the repo opts in', async () => {
+  pushToMain('main.txt', 'new\n');
+
+  assert.equal(await planBranchUpdate(await session(), 'behind'), null);
+  assert.equal(await planBranchUpdate(await session({ updateStrategy: 'off' }), 'behind'), null);
+
+  const plan = await planBranchUpdate(await session({ updateStrategy: 'merge' }), 'conflicted');
+  assert.equal(plan?.strategy, 'merge');
+  assert.equal(plan?.baseSha, git(repos.origin, 'rev-parse', 'main'));
+  assert.equal(plan?.headSha, remoteHead());
+});
+
+test('planBranchUpdate: nothing to do when mergeable or already on top of the base', async () => {
+  const current = await session({ updateStrategy: 'rebase' });
+
+  assert.equal(await planBranchUpdate(current, 'clean'), null);
+  assert.equal(await planBranchUpdate(current, 'behind'), null);
+});
+
+test('planBranchUpdate: does not retry the same base and head after an attempt', async () => {
+  pushToMain('main.txt', 'new\n');
+  const current = await session({ updateStrategy: 'rebase' });
+  const plan = await planBranchUpdate(current, 'behind');
+  assert.ok(plan);
+
+  current.branchUpdate = { ...plan, startedAt: Date.now(), outcome: 'failed' };
+  assert.equal(await planBranchUpdate(current, 'behind'), null);
+});
+
+// ===== Updating =====
+
+test('updateSessionBranch: rebases onto the base and keeps watching the same commits', async () => {
+  const current = await session({ updateStrategy: 'rebase' }, { initialCommitSha: git(repos.clone, 'rev-parse', 'HEAD') });
+  pushToBranch('fix.txt', 'watch fix\n');
+  const mainHead = pushToMain('main.txt', 'new\n');
+
+  await update(current);
+
+  const head = git(repos.clone, 'rev-parse', 'HEAD');
+  assert.equal(remoteHead(), head);
+  assert.equal(git(repos.clone, 'rev-parse', 'HEAD~2'), mainHead);
+  // The watch fix (one commit) is still the only thing after initialCommitSha
+  assert.equal(current.initialCommitSha, git(repos.clone, 'rev-parse', 'HEAD~1'));
+  assert.equal(current.currentSha, head);
+  assert.equal(current.status, 'waiting_for_ci');
+  assert.equal(current.branchUpdate?.outcome, 'updated');
+  assert.deepEqual(events.map(e => e.type), ['branch_updating', 'branch_updated']);
+  assert.ok(!existsSync(join(repos.clone, `.lock_${repos.branch}`)));
+});
+
+test('updateSessionBranch: recounts watched commits when the rebase drops one already in the base', async () => {
+  const base = git(repos.clone, 'rev-parse', 'HEAD~1');
+  const current = await session({ updateStrategy: 'rebase' }, { initialCommitSha: base });
+  // The base picks up the same change as the branch's latest commit, so the rebase drops it
+  pushToBranch('shared.txt', 'same change\n');
+  git(repos.other, 'fetch', '-q', 'origin');
+  git(repos.other, 'checkout', '-q', 'main');
+  git(repos.other, 'cherry-pick', `origin/${repos.branch}`);
+  git(repos.other, 'push', '-q', 'origin', 'main');
+  const mainHead = git(repos.other, 'rev-parse', 'HEAD');
+
+  await update(current);
+
+  assert.equal(current.branchUpdate?.outcome, 'updated');
+  assert.equal(git(repos.clone, 'rev-list', '--count', `${mainHead}..HEAD`), '1');
+  assert.equal(current.initialCommitSha, mainHead);
+});
+
+test('updateSessionBranch: hands conflicts to the coding agent and runs the checks before pushing', async () => {
+  const current = await session({ updateStrategy: 'rebase', checkCommands: ['grep -q resolved README.md'] });
+  pushToBranch('README.md', 'from the branch\n');
+  pushToMain('README.md', 'from main\n');
+
+  await update(current);
+
+  assert.equal(current.branchUpdate?.outcome, 'updated', current.branchUpdate?.error);
+  assert.deepEqual(current.branchUpdate?.conflictedFiles, ['README.md']);
+  assert.equal(readFileSync(join(repos.clone, 'README.md'), 'utf-8'), 'resolved\n');
+  assert.equal(remoteHead(), git(repos.clone, 'rev-parse', 'HEAD'));
+});
+
+test('updateSessionBranch: a failing check rolls back and pushes nothing', async () => {
+  const current = await session({ updateStrategy: 'merge', checkCommands: ['exit 3'] });
+  const before = pushToBranch('README.md', 'from the branch\n');
+  pushToMain('README.md', 'from main\n');
+
+  await update(current);
+
+  assert.equal(current.branchUpdate?.outcome, 'failed');
+  assert.match(current.branchUpdate?.error || '', /"exit 3" failed/);
+  assert.equal(remoteHead(), before);
+  assert.equal(git(repos.clone, 'rev-parse', 'HEAD'), before);
+  assert.equal(git(repos.clone, 'status', '--porcelain', '--untracked-files=no'), '');
+  assert.deepEqual(events.map(e => e.type), ['branch_updating', 'branch_update_failed']);
+  assert.ok(!existsSync(join(repos.clone, `.lock_${repos.branch}`)));
+});
+
+test('updateSessionBranch: leaves a branch another live process has locked', async () => {
+  const current = await session({ updateStrategy: 'rebase' });
+  const before = remoteHead();
+  pushToMain('main.txt', 'new\n');
+  const lockFile = join(repos.clone, `.lock_${repos.branch}`);
+  writeFileSync(lockFile, JSON.stringify({ branch: repos.branch, pid: process.ppid, lockedAt: new Date().toISOString(), lockedBy: 'someone else' }));
+
+  const plan = await planBranchUpdate(current, 'behind');
+  assert.ok(plan);
+  assert.equal(await updateSessionBranch(current, plan, event => events.push(event)), false);
+
+  assert.equal(remoteHead(), before);
+  assert.equal(current.branchUpdate, undefined);
+  assert.deepEqual(events.map(e => e.type), ['fix_skipped']);
+  assert.ok(existsSync(lockFile));
+});
@@ -0,0 +1,111 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { reconcileSessionWithRemote } from '../../../src/work/tools/pr-tracking.js';
+import { createScratchRepos, commitFile, git, watchSession, ScratchRepos } from '../../helpers/git.js';
+
+let repos: ScratchRepos;
+
+beforeEach(() => {
+  repos = createScratchRepos();
+});
+
+afterEach(() => {
+  repos.cleanup();
+});
+
+function remoteHead(): string {
+  return git(repos.origin, 'rev-parse', repos.branch);
+}
+
+test('reconcileSessionWithRemote: in sync, back on the PR branch', async () => {
+  const session = watchSession(repos);
+  git(repos.clone, 'checkout', '-q', 'main');
+
+  const result = await reconcileSessionWithRemote(session, remoteHead());
+
+  assert.deepEqual(result, { outcome: 'in_sync', stashed: false, initialShaReset: false });
+  assert.equal(git(repos.clone, 'rev-parse', '--abbrev-ref', 'HEAD'), repos.branch);
+});
+
+test('reconcileSessionWithRemote: fast-forwards to commits pushed while it was down', async () => {
+  const session = watchSession(repos);
+  const pushed = commitFile(repos.other, 'feature.txt', 'two\n');
+  git(repos.other, 'push', '-q', 'origin', repos.branch);
+
+  const result = await reconcileSessionWithRemote(session, pushed);
+
+  assert.equal(result.outcome, 'fast_forwarded');
+  assert.equal(git(repos.clone, 'rev-parse', 'HEAD'), pushed);
+  assert.equal(session.currentSha, pushed);
+});
+
+test('reconcileSessionWithRemote: leaves an unfinished fix commit local, and does not push it', async () => {
+  const session = watchSession(repos);
+  const before = remoteHead();
+  const local = commitFile(repos.clone, 'feature.txt', 'half-done fix\n', 'pr-watch fix');
+
+  const result = await reconcileSessionWithRemote(session, before);
+
+  assert.equal(result.outcome, 'unpushed');
+  assert.equal(git(repos.clone, 'rev-parse', 'HEAD'), local);
+  assert.equal(remoteHead(), before);
+  assert.equal(session.currentSha, before);
+});
+
+test('reconcileSessionWithRemote: diverged history is left alone', async () => {
+  const session = watchSession(repos);
+  const local = commitFile(repos.clone, 'local.txt', 'local\n');
+  const pushed = commitFile(repos.other, 'remote.txt', 'remote\n');
+  git(repos.other, 'push', '-q', 'origin', repos.branch);
+
+  const result = await reconcileSessionWithRemote(session, pushed);
+
+  assert.equal(result.outcome, 'diverged');
+  assert.equal(result.initialShaReset, false);
+  assert.equal(git(repos.clone, 'rev-parse', 'HEAD'), local);
+  assert.equal(remoteHead(), pushed);
+  assert.equal(session.currentSha, pushed);
+});
+
+test('reconcileSessionWithRemote: stashes tracked edits but leaves untracked lock files in place', async () => {
+  const session = watchSession(repos);
+  writeFileSync(join(repos.clone, 'feature.txt'), 'interrupted edit\n');
+  const lockFile = join(repos.clone, `.lock_${repos.branch}`);
+  writeFileSync(lockFile, '{"pid":1}');
+
+  const result = await reconcileSessionWithRemote(session, remoteHead());
+
+  assert.equal(result.stashed, true);
+  assert.equal(readFileSync(join(repos.clone, 'feature.txt'), 'utf-8'), 'one\n');
+  assert.ok(existsSync(lockFile));
+  assert.equal(git(repos.clone, 'stash', 'show', '--name-only', '--include-untracked', 'stash@{0}'), 'feature.txt');
+});
+
+test('reconcileSessionWithRemote: aborts a branch update interrupted mid-rebase', async () => {
+  const session = watchSession(repos);
+  git(repos.other, 'checkout', '-q', 'main');
+  commitFile(repos.other, 'feature.txt', 'on main\n');
+  git(repos.other, 'push', '-q', 'origin', 'main');
+  git(repos.clone, 'fetch', '-q', 'origin');
+  assert.throws(() => git(repos.clone, 'rebase', 'origin/main'));
+
+  const result = await reconcileSessionWithRemote(session, remoteHead());
+
+  assert.equal(result.outcome, 'in_sync');
+  assert.equal(git(repos.clone, 'status', '--porcelain', '--untracked-files=no'), '');
+  assert.ok(!existsSync(join(repos.clone, '.git', 'rebase-merge')));
+});
+
+test('reconcileSessionWithRemote: resets a starting SHA that is no longer in the branch history', async () => {
+  git(repos.other, 'checkout', '-q', '-b', 'elsewhere');
+  const unrelated = commitFile(repos.other, 'elsewhere.txt', 'x\n');
+  git(repos.other, 'push', '-q', 'origin', 'elsewhere');
+  const session = watchSession(repos, { initialCommitSha: unrelated });
+
+  const result = await reconcileSessionWithRemote(session, remoteHead());
+
+  assert.equal(result.initialShaReset, true);
+  assert.equal(session.initialCommitSha, remoteHead());
+});